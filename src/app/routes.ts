@@ -15,6 +15,7 @@ export default [
     route("discovery", "../pages/discovery/page.tsx"),
     route("discovery/coverage", "../pages/discovery/coverage/page.tsx"),
     route("discovery/intake", "../pages/discovery/intake/page.tsx"),
+    route("discovery/intake/survey", "../pages/discovery/intake/survey/page.tsx"),
     route("discovery/analyze", "../pages/discovery/analyze/page.tsx"),
     route("discovery/analyze/heatmap", "../pages/discovery/analyze/heatmap/page.tsx"),
     route("discovery/analyze/signal-strength", "../pages/discovery/analyze/signal-strength/page.tsx"),
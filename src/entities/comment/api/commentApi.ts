@@ -0,0 +1,155 @@
+import type {
+  Comment,
+  CommentAnchor,
+  CommentThread,
+  CommentThreadStatus,
+  CreateCommentDto,
+  CreateCommentThreadDto,
+  UpdateCommentThreadStatusDto,
+} from '../model/types';
+import { httpClient } from '@/shared/api';
+
+/**
+ * Backend contract for review comment threads
+ *
+ * Everything in the app goes through `commentApi`, which delegates to the
+ * implementation set with `setCommentApi`. The HTTP implementation is used by
+ * default; `LocalCommentApi` serves the same contract from memory.
+ */
+export interface CommentApi {
+  /** Threads of a solution, including requirement threads that have no design work */
+  listBySolution(solutionId: string): Promise<CommentThread[]>;
+  /** Threads on the content of a design work */
+  listByDesignWork(designWorkId: string): Promise<CommentThread[]>;
+  /** Start a thread with its first comment */
+  createThread(data: CreateCommentThreadDto): Promise<CommentThread>;
+  /** Reply to a thread */
+  addComment(threadId: string, data: CreateCommentDto): Promise<CommentThread>;
+  /** Resolve or reopen a thread */
+  updateStatus(threadId: string, data: UpdateCommentThreadStatusDto): Promise<CommentThread>;
+}
+
+/**
+ * Raw backend response for a comment (before date deserialization)
+ */
+interface CommentDto {
+  id: string;
+  threadId: string;
+  authorId: string;
+  authorName: string;
+  body: string;
+  mentionedUserIds?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Raw backend response for a thread (before date deserialization)
+ */
+interface CommentThreadDto {
+  id: string;
+  solutionId: string;
+  designWorkId?: string | null;
+  anchor: CommentAnchor;
+  anchorLabel?: string;
+  status: CommentThreadStatus;
+  resolvedById?: string | null;
+  resolvedByName?: string | null;
+  resolvedAt?: string | null;
+  comments?: CommentDto[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+function toComment(dto: CommentDto): Comment {
+  return {
+    id: dto.id,
+    threadId: dto.threadId,
+    authorId: dto.authorId,
+    authorName: dto.authorName,
+    body: dto.body,
+    mentionedUserIds: dto.mentionedUserIds || [],
+    createdAt: new Date(dto.createdAt),
+    updatedAt: new Date(dto.updatedAt),
+  };
+}
+
+/**
+ * Transform backend CommentThreadDto to frontend CommentThread
+ */
+function toCommentThread(dto: CommentThreadDto): CommentThread {
+  return {
+    id: dto.id,
+    solutionId: dto.solutionId,
+    designWorkId: dto.designWorkId ?? null,
+    anchor: dto.anchor,
+    anchorLabel: dto.anchorLabel ?? '',
+    status: dto.status,
+    resolvedById: dto.resolvedById ?? null,
+    resolvedByName: dto.resolvedByName ?? null,
+    resolvedAt: dto.resolvedAt ? new Date(dto.resolvedAt) : null,
+    comments: (dto.comments || []).map(toComment),
+    createdAt: new Date(dto.createdAt),
+    updatedAt: new Date(dto.updatedAt),
+  };
+}
+
+/**
+ * Comment API Client
+ * Real implementation with backend API
+ */
+export class HttpCommentApi implements CommentApi {
+  private endpoint = '/api/comment-threads';
+
+  async listBySolution(solutionId: string): Promise<CommentThread[]> {
+    const data = await httpClient.get<CommentThreadDto[]>(`${this.endpoint}?solutionId=${solutionId}`);
+    return data.map(toCommentThread);
+  }
+
+  async listByDesignWork(designWorkId: string): Promise<CommentThread[]> {
+    const data = await httpClient.get<CommentThreadDto[]>(`${this.endpoint}?designWorkId=${designWorkId}`);
+    return data.map(toCommentThread);
+  }
+
+  async createThread(data: CreateCommentThreadDto): Promise<CommentThread> {
+    const result = await httpClient.post<CommentThreadDto>(this.endpoint, data);
+    return toCommentThread(result);
+  }
+
+  async addComment(threadId: string, data: CreateCommentDto): Promise<CommentThread> {
+    const result = await httpClient.post<CommentThreadDto>(`${this.endpoint}/${threadId}/comments`, data);
+    return toCommentThread(result);
+  }
+
+  async updateStatus(threadId: string, data: UpdateCommentThreadStatusDto): Promise<CommentThread> {
+    const result = await httpClient.put<CommentThreadDto>(`${this.endpoint}/${threadId}/status`, data);
+    return toCommentThread(result);
+  }
+}
+
+let activeCommentApi: CommentApi = new HttpCommentApi();
+
+/**
+ * Replace the implementation behind `commentApi` (e.g. with a LocalCommentApi in tests)
+ */
+export function setCommentApi(api: CommentApi): void {
+  activeCommentApi = api;
+}
+
+/**
+ * Restore the HTTP implementation behind `commentApi`
+ */
+export function resetCommentApi(): void {
+  activeCommentApi = new HttpCommentApi();
+}
+
+/**
+ * Comment API used by the app, delegating to the active implementation
+ */
+export const commentApi: CommentApi = {
+  listBySolution: (solutionId) => activeCommentApi.listBySolution(solutionId),
+  listByDesignWork: (designWorkId) => activeCommentApi.listByDesignWork(designWorkId),
+  createThread: (data) => activeCommentApi.createThread(data),
+  addComment: (threadId, data) => activeCommentApi.addComment(threadId, data),
+  updateStatus: (threadId, data) => activeCommentApi.updateStatus(threadId, data),
+};
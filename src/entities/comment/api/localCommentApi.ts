@@ -0,0 +1,111 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Comment,
+  CommentThread,
+  CreateCommentDto,
+  CreateCommentThreadDto,
+  UpdateCommentThreadStatusDto,
+} from '../model/types';
+import type { CommentApi } from './commentApi';
+
+/**
+ * In-memory implementation of the comment API
+ *
+ * Serves the same contract as the backend without a server, for tests and local
+ * development:
+ *
+ * @example
+ * setCommentApi(new LocalCommentApi());
+ */
+export class LocalCommentApi implements CommentApi {
+  private threads = new Map<string, CommentThread>();
+
+  constructor(threads: CommentThread[] = []) {
+    for (const thread of threads) {
+      this.threads.set(thread.id, thread);
+    }
+  }
+
+  async listBySolution(solutionId: string): Promise<CommentThread[]> {
+    return this.list((thread) => thread.solutionId === solutionId);
+  }
+
+  async listByDesignWork(designWorkId: string): Promise<CommentThread[]> {
+    return this.list((thread) => thread.designWorkId === designWorkId);
+  }
+
+  async createThread(data: CreateCommentThreadDto): Promise<CommentThread> {
+    const now = new Date();
+    const id = uuidv4();
+    const thread: CommentThread = {
+      id,
+      solutionId: data.solutionId,
+      designWorkId: data.designWorkId,
+      anchor: data.anchor,
+      anchorLabel: data.anchorLabel,
+      status: 'open',
+      resolvedById: null,
+      resolvedByName: null,
+      resolvedAt: null,
+      comments: [this.toComment(id, data.comment, now)],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.threads.set(id, thread);
+    return structuredClone(thread);
+  }
+
+  async addComment(threadId: string, data: CreateCommentDto): Promise<CommentThread> {
+    const thread = this.getThread(threadId);
+    const now = new Date();
+    return this.save({
+      ...thread,
+      comments: [...thread.comments, this.toComment(threadId, data, now)],
+      updatedAt: now,
+    });
+  }
+
+  async updateStatus(threadId: string, data: UpdateCommentThreadStatusDto): Promise<CommentThread> {
+    const thread = this.getThread(threadId);
+    const now = new Date();
+    const resolved = data.status === 'resolved';
+    return this.save({
+      ...thread,
+      status: data.status,
+      resolvedById: resolved ? data.userId : null,
+      resolvedByName: resolved ? data.userName : null,
+      resolvedAt: resolved ? now : null,
+      updatedAt: now,
+    });
+  }
+
+  private list(predicate: (thread: CommentThread) => boolean): CommentThread[] {
+    return [...this.threads.values()]
+      .filter(predicate)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((thread) => structuredClone(thread));
+  }
+
+  private getThread(threadId: string): CommentThread {
+    const thread = this.threads.get(threadId);
+    if (!thread) {
+      throw new Error(`Comment thread ${threadId} not found`);
+    }
+    return thread;
+  }
+
+  private save(thread: CommentThread): CommentThread {
+    this.threads.set(thread.id, thread);
+    return structuredClone(thread);
+  }
+
+  private toComment(threadId: string, data: CreateCommentDto, createdAt: Date): Comment {
+    return {
+      ...data,
+      id: uuidv4(),
+      threadId,
+      createdAt,
+      updatedAt: createdAt,
+    };
+  }
+}
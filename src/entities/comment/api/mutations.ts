@@ -0,0 +1,63 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { queryKeys } from '@/shared/lib/query';
+import { commentApi } from './commentApi';
+import type {
+  CreateCommentDto,
+  CreateCommentThreadDto,
+  UpdateCommentThreadStatusDto,
+} from '../model/types';
+
+/**
+ * Mutation hook for starting a comment thread
+ */
+export function useCreateCommentThread() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateCommentThreadDto) => commentApi.createThread(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.commentThreads.all });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to add comment');
+    },
+  });
+}
+
+/**
+ * Mutation hook for replying to a comment thread
+ */
+export function useAddComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ threadId, data }: { threadId: string; data: CreateCommentDto }) =>
+      commentApi.addComment(threadId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.commentThreads.all });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to add reply');
+    },
+  });
+}
+
+/**
+ * Mutation hook for resolving or reopening a comment thread
+ */
+export function useUpdateCommentThreadStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ threadId, data }: { threadId: string; data: UpdateCommentThreadStatusDto }) =>
+      commentApi.updateStatus(threadId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.commentThreads.all });
+      toast.success(variables.data.status === 'resolved' ? 'Thread resolved' : 'Thread reopened');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update thread');
+    },
+  });
+}
@@ -0,0 +1,35 @@
+/**
+ * TanStack Query hooks for Comment entity
+ * @module entities/comment/api/queries
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { queryKeys } from '@/shared/lib/query';
+import { STALE_TIMES, REFETCH_INTERVALS } from '@/shared/lib/query';
+import { commentApi } from './commentApi';
+
+/**
+ * Query hook for fetching the comment threads of a solution
+ */
+export function useCommentThreadsBySolutionQuery(solutionId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.commentThreads.bySolution(solutionId!),
+    queryFn: () => commentApi.listBySolution(solutionId!),
+    enabled: !!solutionId,
+    staleTime: STALE_TIMES.commentThreads,
+    refetchInterval: REFETCH_INTERVALS.commentThreads,
+  });
+}
+
+/**
+ * Query hook for fetching the comment threads on the content of a design work
+ */
+export function useCommentThreadsByDesignWorkQuery(designWorkId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.commentThreads.byDesignWork(designWorkId!),
+    queryFn: () => commentApi.listByDesignWork(designWorkId!),
+    enabled: !!designWorkId,
+    staleTime: STALE_TIMES.commentThreads,
+    refetchInterval: REFETCH_INTERVALS.commentThreads,
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * Comment Entity
+ * @module entities/comment
+ */
+
+export {
+  CommentAnchorSchema,
+  CommentThreadStatusSchema,
+  CommentSchema,
+  CommentThreadSchema,
+  CreateCommentSchema,
+  CreateCommentThreadSchema,
+  UpdateCommentThreadStatusSchema,
+  isThreadOnDiagramElement,
+} from './model/types';
+
+export type {
+  CommentAnchor,
+  CommentAnchorType,
+  CommentThreadStatus,
+  Comment,
+  CommentThread,
+  CreateCommentDto,
+  CreateCommentThreadDto,
+  UpdateCommentThreadStatusDto,
+} from './model/types';
+
+// Mentions
+export { splitCommentMentions, findMentionedUserIds } from './model/mentions';
+export type { MentionableUser, CommentBodySegment } from './model/mentions';
+
+// API (swappable backend contract)
+export { commentApi, HttpCommentApi, setCommentApi, resetCommentApi } from './api/commentApi';
+export type { CommentApi } from './api/commentApi';
+export { LocalCommentApi } from './api/localCommentApi';
+
+// Query hooks
+export {
+  useCommentThreadsBySolutionQuery,
+  useCommentThreadsByDesignWorkQuery,
+} from './api/queries';
+
+// Mutation hooks
+export {
+  useCreateCommentThread,
+  useAddComment,
+  useUpdateCommentThreadStatus,
+} from './api/mutations';
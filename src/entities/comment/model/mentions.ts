@@ -0,0 +1,83 @@
+/**
+ * Comment Mentions
+ *
+ * Team members are mentioned in a comment body as "@Name". Names can contain
+ * spaces, so mentions are matched against the known team members rather than
+ * parsed from the text alone.
+ */
+
+/**
+ * Team member that can be mentioned
+ */
+export interface MentionableUser {
+  id: string;
+  name: string;
+}
+
+/**
+ * Part of a comment body, either plain text or a mention
+ */
+export interface CommentBodySegment {
+  text: string;
+  /** Id of the mentioned user, for mention segments */
+  userId?: string;
+}
+
+/**
+ * Find the mention of a user starting at an index of the body
+ * Longer names are tried first, so "@Ada Lovelace" doesn't match a user named "Ada".
+ */
+function matchMentionAt(body: string, index: number, users: MentionableUser[]): MentionableUser | undefined {
+  if (body[index] !== '@') return undefined;
+  // A mention starts a word ("mail@example.com" is not a mention)
+  if (index > 0 && /\w/.test(body[index - 1])) return undefined;
+
+  const rest = body.slice(index + 1).toLowerCase();
+  return users.find((user) => {
+    const name = user.name.toLowerCase();
+    if (!name || !rest.startsWith(name)) return false;
+    const next = rest[name.length];
+    return next === undefined || !/\w/.test(next);
+  });
+}
+
+function sortByNameLength(users: MentionableUser[]): MentionableUser[] {
+  return [...users].sort((a, b) => b.name.length - a.name.length);
+}
+
+/**
+ * Split a comment body into plain text and mention segments
+ */
+export function splitCommentMentions(body: string, users: MentionableUser[]): CommentBodySegment[] {
+  const candidates = sortByNameLength(users);
+  const segments: CommentBodySegment[] = [];
+  let text = '';
+
+  let index = 0;
+  while (index < body.length) {
+    const user = matchMentionAt(body, index, candidates);
+    if (user) {
+      if (text) segments.push({ text });
+      text = '';
+      const length = user.name.length + 1;
+      segments.push({ text: body.slice(index, index + length), userId: user.id });
+      index += length;
+    } else {
+      text += body[index];
+      index += 1;
+    }
+  }
+  if (text) segments.push({ text });
+
+  return segments;
+}
+
+/**
+ * Ids of the users mentioned in a comment body, in order of first mention
+ */
+export function findMentionedUserIds(body: string, users: MentionableUser[]): string[] {
+  const ids = splitCommentMentions(body, users)
+    .map((segment) => segment.userId)
+    .filter((id): id is string => !!id);
+  return [...new Set(ids)];
+}
@@ -0,0 +1,122 @@
+import { z } from 'zod';
+
+/**
+ * Comment domain model
+ * Review threads attached to an element of the design studio: a diagram shape or
+ * connector, a text range of a document, or a requirement.
+ * Threads belong to a solution and, except for requirement threads, to the
+ * DesignWork (folder) holding the commented content.
+ */
+
+// Element a thread is attached to
+export const CommentAnchorSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('shape'),
+    diagramId: z.string().uuid(),
+    shapeId: z.string(),
+  }),
+  z.object({
+    type: z.literal('connector'),
+    diagramId: z.string().uuid(),
+    connectorId: z.string(),
+  }),
+  z.object({
+    type: z.literal('document-range'),
+    documentId: z.string().uuid(),
+    start: z.number().int().min(0),
+    end: z.number().int().min(0),
+    /** Text of the range when the thread was started */
+    quote: z.string(),
+  }),
+  z.object({
+    type: z.literal('requirement'),
+    requirementId: z.string().uuid(),
+  }),
+]);
+
+export type CommentAnchor = z.infer<typeof CommentAnchorSchema>;
+export type CommentAnchorType = CommentAnchor['type'];
+
+export const CommentThreadStatusSchema = z.enum(['open', 'resolved']);
+
+export type CommentThreadStatus = z.infer<typeof CommentThreadStatusSchema>;
+
+// Zod schema for runtime validation
+export const CommentSchema = z.object({
+  id: z.string().uuid(),
+  threadId: z.string().uuid(),
+  authorId: z.string(),
+  authorName: z.string(),
+  body: z.string().min(1, 'Comment is required').max(5000),
+  /** Team members @mentioned in the body */
+  mentionedUserIds: z.array(z.string()),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// TypeScript type derived from schema
+export type Comment = z.infer<typeof CommentSchema>;
+
+export const CommentThreadSchema = z.object({
+  id: z.string().uuid(),
+  solutionId: z.string().uuid(),
+  designWorkId: z.string().uuid().nullable(),
+  anchor: CommentAnchorSchema,
+  /** Name of the commented element when the thread was started (shape label, quote, requirement text) */
+  anchorLabel: z.string(),
+  status: CommentThreadStatusSchema,
+  resolvedById: z.string().nullable(),
+  resolvedByName: z.string().nullable(),
+  resolvedAt: z.date().nullable(),
+  /** Comments in the order they were posted; the first one starts the thread */
+  comments: z.array(CommentSchema),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type CommentThread = z.infer<typeof CommentThreadSchema>;
+
+// Schema for posting a comment (without generated fields)
+export const CreateCommentSchema = CommentSchema.omit({
+  id: true,
+  threadId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type CreateCommentDto = z.infer<typeof CreateCommentSchema>;
+
+// Schema for starting a thread with its first comment
+export const CreateCommentThreadSchema = CommentThreadSchema.pick({
+  solutionId: true,
+  designWorkId: true,
+  anchor: true,
+  anchorLabel: true,
+}).extend({
+  comment: CreateCommentSchema,
+});
+
+export type CreateCommentThreadDto = z.infer<typeof CreateCommentThreadSchema>;
+
+// Schema for resolving or reopening a thread
+export const UpdateCommentThreadStatusSchema = z.object({
+  status: CommentThreadStatusSchema,
+  userId: z.string(),
+  userName: z.string(),
+});
+
+export type UpdateCommentThreadStatusDto = z.infer<typeof UpdateCommentThreadStatusSchema>;
+
+/**
+ * Whether a thread is attached to the given diagram element
+ */
+export function isThreadOnDiagramElement(
+  thread: CommentThread,
+  diagramId: string,
+  elementId: string
+): boolean {
+  const { anchor } = thread;
+  if (anchor.type === 'shape') return anchor.diagramId === diagramId && anchor.shapeId === elementId;
+  if (anchor.type === 'connector') return anchor.diagramId === diagramId && anchor.connectorId === elementId;
+  return false;
+}
@@ -8,6 +8,7 @@ export {
   ArrowType,
   LineType,
   CardinalityType,
+  ConnectorStyleSchema,
   ConnectorSchema,
   CreateConnectorSchema,
   UpdateConnectorSchema,
@@ -18,6 +19,7 @@ export type {
   ArrowType as ArrowTypeValue,
   LineType as LineTypeValue,
   CardinalityType as CardinalityTypeValue,
+  ConnectorStyle,
   Connector,
   CreateConnectorDTO,
   UpdateConnectorDTO,
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { PointSchema } from '@/entities/shape';
+import { PointSchema, ShapeStyleSchema } from '@/entities/shape';
 
 // Connection point identifier (references a connection point defined by a shape)
 export const ConnectionPointId = z.string();
@@ -25,6 +25,16 @@ export type LineType = z.infer<typeof LineType>;
 export const CardinalityType = z.enum(['1', '0..1', '1..*', '*', 'n', '0..n', '1..n']);
 export type CardinalityType = z.infer<typeof CardinalityType>;
 
+// Style overrides of a connector - the dash pattern is the connector's lineType
+export const ConnectorStyleSchema = ShapeStyleSchema.pick({
+  strokeColor: true,
+  strokeWidth: true,
+  fontSize: true,
+  fontWeight: true,
+  opacity: true,
+});
+export type ConnectorStyle = z.infer<typeof ConnectorStyleSchema>;
+
 // Connector entity - represents connections between shapes
 export const ConnectorSchema = z.object({
   id: z.string(),
@@ -39,13 +49,18 @@ export const ConnectorSchema = z.object({
   markerStart: ArrowType.default('none'), // Marker at the start of the connector (source end)
   markerEnd: ArrowType.default('arrow'), // Marker at the end of the connector (target end)
   lineType: LineType.default('solid'), // Line style
-  points: z.array(PointSchema).optional(), // For custom routing
+  // For custom routing, depending on the style: waypoints of straight connectors, the two
+  // control points of curved connectors, pairs of points forming the pinned segments of
+  // orthogonal connectors (sequence messages keep their vertical position here)
+  points: z.array(PointSchema).optional(),
   label: z.string().optional(), // Optional text label for the connector
   sourceCardinality: CardinalityType.optional(), // Cardinality label at source end
   targetCardinality: CardinalityType.optional(), // Cardinality label at target end
   zIndex: z.number().default(0),
   // Optional overlay tag for grouping connectors into show/hide layers (e.g., 'suggestion')
   overlayTag: z.string().optional(),
+  // Optional style overrides (stroke color/width, label font, opacity)
+  appearance: ConnectorStyleSchema.optional(),
 });
 
 export type Connector = z.infer<typeof ConnectorSchema>;
@@ -2,14 +2,64 @@ import { v4 as uuidv4 } from 'uuid';
 import type { Diagram, CreateDiagramDto, UpdateDiagramDto } from '../model/types';
 import type { CreateShapeDTO, Shape } from '@/entities/shape';
 import type { CreateConnectorDTO, Connector } from '@/entities/connector';
+import type { DiagramOperation } from '../model/operations';
+import type { DiagramCheckpoint } from '../model/checkpoints';
 import { httpClient, deserializeDates, deserializeDatesArray } from '@/shared/api';
+import { DiagramSyncQueue } from './diagramSyncQueue';
+import { DiagramCheckpointStore } from './diagramCheckpoints';
+
+/**
+ * Diagram content source
+ * Persists canvas content that lives outside the diagrams endpoint (e.g., interface wireframes).
+ * The canvas addresses such content by ID exactly like a diagram.
+ */
+export interface DiagramContentSource {
+  /** Whether this source persists the content with the given ID */
+  owns(id: string): boolean;
+  /** Load the content as a diagram */
+  get(id: string): Promise<Diagram>;
+  /** Persist content updates and return the updated content as a diagram */
+  update(id: string, updates: Partial<UpdateDiagramDto>): Promise<Diagram>;
+}
 
 /**
  * Diagram API Client
  * Real implementation with backend API
- * Shape and connector operations are done client-side via diagram updates
+ * Shape and connector operations are done client-side on a working copy and saved
+ * in batches by the sync queue (see DiagramSyncQueue); saved content is kept in
+ * periodic autosave checkpoints (see DiagramCheckpointStore)
  */
 class DiagramApi {
+  private contentSources = new Set<DiagramContentSource>();
+  private checkpoints = new DiagramCheckpointStore();
+  private syncQueue = new DiagramSyncQueue({
+    load: (id) => this.fetch(id),
+    save: async (id, content) => {
+      const saved = await this.put(id, content);
+      this.checkpoints.record(saved);
+      return saved;
+    },
+  });
+
+  /**
+   * Register a content source for canvas content persisted elsewhere
+   */
+  registerContentSource(source: DiagramContentSource): void {
+    this.contentSources.add(source);
+  }
+
+  /**
+   * Find the content source that owns the given ID (undefined for regular diagrams)
+   */
+  private getContentSource(id: string): DiagramContentSource | undefined {
+    for (const source of this.contentSources) {
+      if (source.owns(id)) {
+        return source;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Get all diagrams for a design work
    */
@@ -20,16 +70,47 @@ class DiagramApi {
 
   /**
    * Get a single diagram by ID
+   * Returns the local working copy while it has unsaved edits
    */
   async get(id: string): Promise<Diagram> {
+    const source = this.getContentSource(id);
+    if (source) {
+      return source.get(id);
+    }
+
+    const unsaved = await this.syncQueue.getUnsaved(id);
+    if (unsaved) {
+      return unsaved;
+    }
+
+    const diagram = await this.fetch(id);
+    this.syncQueue.track(diagram);
+    return diagram;
+  }
+
+  private async fetch(id: string): Promise<Diagram> {
     const data = await httpClient.get<Diagram>(`/api/diagrams/${id}`);
     return deserializeDates(data);
   }
 
+  private async put(id: string, updates: Partial<UpdateDiagramDto>): Promise<Diagram> {
+    const result = await httpClient.put<Diagram>(`/api/diagrams/${id}`, updates);
+    return deserializeDates(result);
+  }
+
   /**
    * Get a single shape from a diagram by ID
    */
   async getShape(diagramId: string, shapeId: string): Promise<Shape> {
+    if (this.getContentSource(diagramId)) {
+      const diagram = await this.get(diagramId);
+      const shape = (diagram.shapes || []).find((s) => s.id === shapeId);
+      if (!shape) {
+        throw new Error(`Shape ${shapeId} not found in diagram ${diagramId}`);
+      }
+      return shape;
+    }
+
     return await httpClient.get<Shape>(`/api/diagrams/${diagramId}/shapes/${shapeId}`);
   }
 
@@ -50,8 +131,20 @@ class DiagramApi {
    * Update an existing diagram
    */
   async update(id: string, updates: Partial<UpdateDiagramDto>): Promise<Diagram> {
-    const result = await httpClient.put<Diagram>(`/api/diagrams/${id}`, updates);
-    return deserializeDates(result);
+    const source = this.getContentSource(id);
+    if (source) {
+      return source.update(id, updates);
+    }
+
+    const diagram = await this.put(id, updates);
+    this.syncQueue.track(diagram);
+
+    // Keep unsaved shape/connector edits in the returned diagram
+    const workingCopy = this.syncQueue.getWorkingCopy(id);
+    if (workingCopy && workingCopy.updatedAt.getTime() !== diagram.updatedAt.getTime()) {
+      return { ...diagram, shapes: workingCopy.shapes, connectors: workingCopy.connectors };
+    }
+    return diagram;
   }
 
   /**
@@ -72,16 +165,89 @@ class DiagramApi {
     return diagrams.length;
   }
 
+  // ============================================
+  // Content sync
+  // ============================================
+
+  /**
+   * Apply changes made by a collaborator to the local working copy
+   * (the collaborator's client saves them)
+   */
+  applyRemoteChanges(diagramId: string, operations: DiagramOperation[]): void {
+    this.syncQueue.applyRemote(diagramId, operations);
+  }
+
+  /**
+   * Resolve a save conflict by keeping the local edits or the server version
+   * @returns The diagram version now in effect
+   */
+  resolveConflict(diagramId: string, resolution: 'keep-local' | 'use-server'): Diagram | undefined {
+    return this.syncQueue.resolveConflict(diagramId, resolution);
+  }
+
+  /**
+   * Get the diagram to edit: the local working copy, or the content source's version
+   */
+  private async getContent(diagramId: string): Promise<Diagram> {
+    if (this.getContentSource(diagramId)) {
+      return this.get(diagramId);
+    }
+    return this.syncQueue.getWorkingCopy(diagramId) ?? this.get(diagramId);
+  }
+
+  /**
+   * Store edited shapes/connectors: queued for a batched save, or saved
+   * directly by the content source
+   */
+  private async updateContent(
+    diagram: Diagram,
+    content: Pick<UpdateDiagramDto, 'shapes' | 'connectors'>
+  ): Promise<Diagram> {
+    if (this.getContentSource(diagram.id)) {
+      return this.update(diagram.id, content);
+    }
+
+    const updated = { ...diagram, ...content };
+    this.syncQueue.write(diagram.id, updated);
+    return updated;
+  }
+
+  // ============================================
+  // History
+  // ============================================
+
+  /**
+   * List the autosave checkpoints of a diagram, newest first
+   */
+  async listCheckpoints(diagramId: string): Promise<DiagramCheckpoint[]> {
+    return this.checkpoints.list(diagramId);
+  }
+
+  /**
+   * Replace the shapes and connectors of a diagram with an earlier version.
+   * The current content is recorded as a checkpoint first, so restoring can be reverted.
+   */
+  async restoreContent(
+    diagramId: string,
+    content: Pick<UpdateDiagramDto, 'shapes' | 'connectors'>
+  ): Promise<Diagram> {
+    const diagram = await this.getContent(diagramId);
+    if (!this.getContentSource(diagramId)) {
+      this.checkpoints.record(diagram, true);
+    }
+    return this.updateContent(diagram, content);
+  }
+
   // ============================================
   // Shape manipulation methods
-  // These work by fetching the diagram, modifying shapes, and updating
+  // These work by modifying the shapes of the working copy and queueing a save
   // ============================================
 
   /**
    * Add a shape to a diagram
    */
   async addShape(diagramId: string, shapeData: CreateShapeDTO): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const shape: Shape = {
       id: uuidv4(),
@@ -91,7 +257,7 @@ class DiagramApi {
     };
 
     const shapes = [...(diagram.shapes || []), shape];
-    return this.update(diagramId, { shapes });
+    return this.updateContent(diagram, { shapes });
   }
 
   /**
@@ -102,7 +268,7 @@ class DiagramApi {
     shapeId: string,
     updates: Partial<Shape>
   ): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const shapes = (diagram.shapes || []).map((s) =>
       s.id === shapeId ? { ...s, ...updates, id: shapeId } : s
@@ -112,7 +278,7 @@ class DiagramApi {
       throw new Error(`Shape ${shapeId} not found in diagram ${diagramId}`);
     }
 
-    return this.update(diagramId, { shapes });
+    return this.updateContent(diagram, { shapes });
   }
 
   /**
@@ -122,7 +288,7 @@ class DiagramApi {
     diagramId: string,
     updates: Array<{ shapeId: string; updates: Partial<Shape> }>
   ): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const updatesMap = new Map(updates.map((u) => [u.shapeId, u.updates]));
     const shapes = (diagram.shapes || []).map((s) => {
@@ -130,27 +296,27 @@ class DiagramApi {
       return shapeUpdates ? { ...s, ...shapeUpdates, id: s.id } : s;
     });
 
-    return this.update(diagramId, { shapes });
+    return this.updateContent(diagram, { shapes });
   }
 
   /**
    * Delete a shape from a diagram
    */
   async deleteShape(diagramId: string, shapeId: string): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const shapes = (diagram.shapes || []).filter((s) => s.id !== shapeId);
-    return this.update(diagramId, { shapes });
+    return this.updateContent(diagram, { shapes });
   }
 
   /**
    * Restore a shape with its original ID (used for undo operations)
    */
   async restoreShape(diagramId: string, shape: Shape): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const shapes = [...(diagram.shapes || []), shape];
-    return this.update(diagramId, { shapes });
+    return this.updateContent(diagram, { shapes });
   }
 
   /**
@@ -158,11 +324,11 @@ class DiagramApi {
    * (Batch operation for atomic delete)
    */
   async deleteShapesByIds(diagramId: string, shapeIds: string[]): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const shapeIdSet = new Set(shapeIds);
     const shapes = (diagram.shapes || []).filter((s) => !shapeIdSet.has(s.id));
-    return this.update(diagramId, { shapes });
+    return this.updateContent(diagram, { shapes });
   }
 
   /**
@@ -170,10 +336,10 @@ class DiagramApi {
    * (Batch operation for atomic restore)
    */
   async restoreShapes(diagramId: string, shapes: Shape[]): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const updatedShapes = [...(diagram.shapes || []), ...shapes];
-    return this.update(diagramId, { shapes: updatedShapes });
+    return this.updateContent(diagram, { shapes: updatedShapes });
   }
 
   // ============================================
@@ -184,7 +350,7 @@ class DiagramApi {
    * Add a connector to a diagram
    */
   async addConnector(diagramId: string, connectorData: CreateConnectorDTO): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const connector: Connector = {
       id: uuidv4(),
@@ -193,7 +359,7 @@ class DiagramApi {
     };
 
     const connectors = [...(diagram.connectors || []), connector];
-    return this.update(diagramId, { connectors });
+    return this.updateContent(diagram, { connectors });
   }
 
   /**
@@ -204,7 +370,7 @@ class DiagramApi {
     connectorId: string,
     updates: Partial<Connector>
   ): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const connectors = (diagram.connectors || []).map((c) =>
       c.id === connectorId ? { ...c, ...updates, id: connectorId } : c
@@ -214,39 +380,39 @@ class DiagramApi {
       throw new Error(`Connector ${connectorId} not found in diagram ${diagramId}`);
     }
 
-    return this.update(diagramId, { connectors });
+    return this.updateContent(diagram, { connectors });
   }
 
   /**
    * Delete a connector from a diagram
    */
   async deleteConnector(diagramId: string, connectorId: string): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const connectors = (diagram.connectors || []).filter((c) => c.id !== connectorId);
-    return this.update(diagramId, { connectors });
+    return this.updateContent(diagram, { connectors });
   }
 
   /**
    * Restore a connector with its original ID (used for undo operations)
    */
   async restoreConnector(diagramId: string, connector: Connector): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const connectors = [...(diagram.connectors || []), connector];
-    return this.update(diagramId, { connectors });
+    return this.updateContent(diagram, { connectors });
   }
 
   /**
    * Delete connectors connected to a specific shape (used when deleting shapes)
    */
   async deleteConnectorsByShapeId(diagramId: string, shapeId: string): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const connectors = (diagram.connectors || []).filter(
       (c) => c.sourceShapeId !== shapeId && c.targetShapeId !== shapeId
     );
-    return this.update(diagramId, { connectors });
+    return this.updateContent(diagram, { connectors });
   }
 
   /**
@@ -254,11 +420,11 @@ class DiagramApi {
    * Used for batch deletion to ensure atomic operations
    */
   async deleteConnectorsByIds(diagramId: string, connectorIds: string[]): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const connectorIdSet = new Set(connectorIds);
     const connectors = (diagram.connectors || []).filter((c) => !connectorIdSet.has(c.id));
-    return this.update(diagramId, { connectors });
+    return this.updateContent(diagram, { connectors });
   }
 
   /**
@@ -266,10 +432,10 @@ class DiagramApi {
    * Used for batch restore to ensure atomic operations during undo
    */
   async restoreConnectors(diagramId: string, connectors: Connector[]): Promise<Diagram> {
-    const diagram = await this.get(diagramId);
+    const diagram = await this.getContent(diagramId);
 
     const updatedConnectors = [...(diagram.connectors || []), ...connectors];
-    return this.update(diagramId, { connectors: updatedConnectors });
+    return this.updateContent(diagram, { connectors: updatedConnectors });
   }
 }
 
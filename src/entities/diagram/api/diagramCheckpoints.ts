@@ -0,0 +1,67 @@
+/**
+ * Diagram Checkpoints
+ *
+ * Periodic autosave checkpoints of diagram content, stored in IndexedDB.
+ * - A checkpoint is recorded after a successful save, at most once per interval
+ * - Saves that leave the content as it was in the latest checkpoint are skipped
+ * - Only the most recent checkpoints of each diagram are kept
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Diagram } from '../model/types';
+import type { DiagramCheckpoint } from '../model/checkpoints';
+import { isSameValue } from '../model/diagramDiff';
+import { createIndexedDbStore } from '@/shared/lib/utils/indexedDbStore';
+
+const CHECKPOINT_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_CHECKPOINTS = 50;
+
+export class DiagramCheckpointStore {
+  private storage = createIndexedDbStore<DiagramCheckpoint[]>('tinkersaur-diagram-history', 'checkpoints');
+  // Per-diagram chain of writes, so concurrent records don't overwrite each other
+  private writes = new Map<string, Promise<void>>();
+
+  /**
+   * List the checkpoints of a diagram, newest first
+   */
+  async list(diagramId: string): Promise<DiagramCheckpoint[]> {
+    await this.writes.get(diagramId);
+    const checkpoints = await this.storage.get(diagramId);
+    return [...(checkpoints ?? [])].reverse();
+  }
+
+  /**
+   * Record a checkpoint of the diagram's content
+   *
+   * @param force - Record even if the latest checkpoint is more recent than the interval
+   */
+  record(diagram: Diagram, force = false): void {
+    const previous = this.writes.get(diagram.id) ?? Promise.resolve();
+    const write = previous
+      .then(() => this.append(diagram, force))
+      .catch((error) => {
+        console.error('[DiagramCheckpointStore] Failed to record checkpoint:', error);
+      });
+    this.writes.set(diagram.id, write);
+  }
+
+  private async append(diagram: Diagram, force: boolean): Promise<void> {
+    const checkpoints = (await this.storage.get(diagram.id)) ?? [];
+    const latest = checkpoints[checkpoints.length - 1];
+    const connectors = diagram.connectors || [];
+
+    if (latest) {
+      if (!force && Date.now() - latest.createdAt.getTime() < CHECKPOINT_INTERVAL_MS) return;
+      if (isSameValue(latest.shapes, diagram.shapes) && isSameValue(latest.connectors, connectors)) return;
+    }
+
+    const checkpoint: DiagramCheckpoint = {
+      id: uuidv4(),
+      diagramId: diagram.id,
+      createdAt: new Date(),
+      shapes: diagram.shapes,
+      connectors,
+    };
+    await this.storage.set(diagram.id, [...checkpoints, checkpoint].slice(-MAX_CHECKPOINTS));
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * Diagram Sync Queue
+ *
+ * Offline-tolerant, batched persistence for diagram shapes and connectors.
+ * - Edits are applied to a local working copy and coalesced: rapid edits (drags,
+ *   resizes, label typing) become a single save once editing pauses
+ * - Unsaved edits are stored in IndexedDB, so they survive going offline and
+ *   reloading the page; saving resumes when the browser is back online
+ * - Failed saves are retried with exponential backoff
+ * - Before saving, the server version is checked against the version the edits
+ *   were based on (updatedAt). Changes made elsewhere to other shapes/connectors are
+ *   merged in; changes to the same shapes/connectors are reported as a conflict
+ *   instead of being overwritten
+ */
+
+import type { Diagram, UpdateDiagramDto } from '../model/types';
+import type { DiagramOperation } from '../model/operations';
+import { isSameValue } from '../model/diagramDiff';
+import { applyDiagramOperations } from '../store/utils/applyOperations';
+import { useDiagramSyncStore, type DiagramSyncState } from '../store/useDiagramSyncStore';
+import { createIndexedDbStore } from '@/shared/lib/utils/indexedDbStore';
+
+type DiagramContent = Pick<Diagram, 'shapes' | 'connectors'>;
+
+interface SyncQueueBackend {
+  /** Fetch the server version of a diagram */
+  load(diagramId: string): Promise<Diagram>;
+  /** Save shapes and connectors and return the server version */
+  save(diagramId: string, content: Pick<UpdateDiagramDto, 'shapes' | 'connectors'>): Promise<Diagram>;
+}
+
+/**
+ * Unsaved edits of a diagram, as stored in IndexedDB
+ */
+interface PendingDiagramEdits {
+  /** Last version confirmed by the server */
+  base: Diagram;
+  /** Base plus the unsaved edits */
+  local: Diagram;
+}
+
+interface SyncEntry extends PendingDiagramEdits {
+  timer: ReturnType<typeof setTimeout> | null;
+  /** When the oldest unsaved edit was made (bounds the coalescing delay) */
+  firstEditAt: number | null;
+  inFlight: boolean;
+  attempt: number;
+  /** Server version that conflicts with the local edits */
+  conflict: Diagram | null;
+}
+
+// Save once edits pause for this long...
+const COALESCE_DELAY_MS = 500;
+// ...but at least this often during continuous editing
+const MAX_COALESCE_DELAY_MS = 2000;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+type EntityList = Array<{ id: string }>;
+
+/**
+ * IDs of the entities that differ between two versions (added, changed or removed)
+ */
+function getChangedIds(from: EntityList, to: EntityList): Set<string> {
+  const fromMap = new Map(from.map((entity) => [entity.id, entity]));
+  const toMap = new Map(to.map((entity) => [entity.id, entity]));
+  const changed = new Set<string>();
+  for (const id of new Set([...fromMap.keys(), ...toMap.keys()])) {
+    if (!isSameValue(fromMap.get(id), toMap.get(id))) {
+      changed.add(id);
+    }
+  }
+  return changed;
+}
+
+/**
+ * Re-apply the entities changed between base and local on top of target
+ * (local versions replace target's, local deletions remove, local additions append)
+ */
+function rebaseEntities<T extends { id: string }>(base: T[], local: T[], target: T[]): T[] {
+  const changed = getChangedIds(base, local);
+  if (changed.size === 0) return target;
+
+  const localMap = new Map(local.map((entity) => [entity.id, entity]));
+  const targetIds = new Set(target.map((entity) => entity.id));
+  const result: T[] = [];
+  for (const entity of target) {
+    if (!changed.has(entity.id)) {
+      result.push(entity);
+    } else if (localMap.has(entity.id)) {
+      result.push(localMap.get(entity.id)!);
+    }
+  }
+  for (const entity of local) {
+    if (changed.has(entity.id) && !targetIds.has(entity.id)) {
+      result.push(entity);
+    }
+  }
+  return result;
+}
+
+function rebaseContent(base: DiagramContent, local: DiagramContent, target: Diagram): Diagram {
+  return {
+    ...target,
+    shapes: rebaseEntities(base.shapes, local.shapes, target.shapes),
+    connectors: rebaseEntities(base.connectors || [], local.connectors || [], target.connectors || []),
+  };
+}
+
+/**
+ * IDs of the entities edited locally that were also changed on the server
+ */
+function findConflicts(base: Diagram, local: Diagram, server: Diagram): string[] {
+  const conflicts: string[] = [];
+  const collect = (baseList: EntityList, localList: EntityList, serverList: EntityList) => {
+    const changedOnServer = getChangedIds(baseList, serverList);
+    for (const id of getChangedIds(baseList, localList)) {
+      if (changedOnServer.has(id)) {
+        conflicts.push(id);
+      }
+    }
+  };
+  collect(base.shapes, local.shapes, server.shapes);
+  collect(base.connectors || [], local.connectors || [], server.connectors || []);
+  return conflicts;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Failed to save diagram';
+}
+
+export class DiagramSyncQueue {
+  private entries = new Map<string, SyncEntry>();
+  private storage = createIndexedDbStore<PendingDiagramEdits>('tinkersaur-diagram-sync', 'pending-edits');
+
+  constructor(private readonly backend: SyncQueueBackend) {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.flushAll());
+    }
+  }
+
+  /**
+   * Get the local working copy of a diagram (undefined when the diagram is not tracked)
+   */
+  getWorkingCopy(diagramId: string): Diagram | undefined {
+    return this.entries.get(diagramId)?.local;
+  }
+
+  /**
+   * Get the working copy of a diagram with unsaved edits, restoring edits stored
+   * in IndexedDB by an earlier session (undefined when everything is saved)
+   */
+  async getUnsaved(diagramId: string): Promise<Diagram | undefined> {
+    const entry = this.entries.get(diagramId);
+    if (entry) {
+      return this.hasUnsavedEdits(entry) ? entry.local : undefined;
+    }
+
+    let stored: PendingDiagramEdits | undefined;
+    try {
+      stored = await this.storage.get(diagramId);
+    } catch (error) {
+      console.error('[DiagramSyncQueue] Failed to read unsaved edits:', error);
+    }
+    if (!stored) return undefined;
+
+    // Tracked while reading storage: the in-memory state is newer
+    const current = this.entries.get(diagramId);
+    if (current) {
+      return this.hasUnsavedEdits(current) ? current.local : undefined;
+    }
+
+    this.entries.set(diagramId, this.createEntry(stored.base, stored.local));
+    this.setStatus(diagramId, { status: 'pending' });
+    this.schedule(diagramId, 0);
+    return stored.local;
+  }
+
+  /**
+   * Track the server version of a diagram (ignored while edits are unsaved)
+   */
+  track(diagram: Diagram): void {
+    const entry = this.entries.get(diagram.id);
+    if (entry && this.hasUnsavedEdits(entry)) return;
+    this.entries.set(diagram.id, this.createEntry(diagram, diagram));
+  }
+
+  /**
+   * Record an edited working copy and schedule a batched save
+   */
+  write(diagramId: string, local: Diagram): void {
+    const entry = this.entries.get(diagramId) ?? this.createEntry(local, local);
+    this.entries.set(diagramId, entry);
+    entry.local = local;
+    entry.firstEditAt ??= Date.now();
+
+    this.persist(diagramId, entry);
+    if (!entry.conflict && !entry.inFlight) {
+      this.setStatus(diagramId, { status: 'pending' });
+    }
+
+    const elapsed = Date.now() - entry.firstEditAt;
+    this.schedule(diagramId, Math.min(COALESCE_DELAY_MS, Math.max(0, MAX_COALESCE_DELAY_MS - elapsed)));
+  }
+
+  /**
+   * Apply changes a collaborator already saved to the base and working copy,
+   * so they are neither re-saved nor reported as conflicts
+   */
+  applyRemote(diagramId: string, operations: DiagramOperation[]): void {
+    const entry = this.entries.get(diagramId);
+    if (!entry) return;
+    entry.base = { ...entry.base, ...applyDiagramOperations(entry.base, operations) };
+    entry.local = { ...entry.local, ...applyDiagramOperations(entry.local, operations) };
+  }
+
+  /**
+   * Resolve a conflict
+   *
+   * @param resolution - 'keep-local' re-applies the local edits over the server
+   *   version and saves them; 'use-server' discards the local edits
+   * @returns The diagram version now in effect
+   */
+  resolveConflict(diagramId: string, resolution: 'keep-local' | 'use-server'): Diagram | undefined {
+    const entry = this.entries.get(diagramId);
+    if (!entry?.conflict) return entry?.local;
+
+    const server = entry.conflict;
+    entry.conflict = null;
+    entry.attempt = 0;
+
+    if (resolution === 'use-server') {
+      entry.base = server;
+      entry.local = server;
+      entry.firstEditAt = null;
+      this.clearPersisted(diagramId);
+      this.setStatus(diagramId, { status: 'synced', conflictingIds: [], error: null });
+      return server;
+    }
+
+    entry.local = rebaseContent(entry.base, entry.local, server);
+    entry.base = server;
+    this.persist(diagramId, entry);
+    this.setStatus(diagramId, { status: 'pending', conflictingIds: [], error: null });
+    this.schedule(diagramId, 0);
+    return entry.local;
+  }
+
+  /**
+   * Save all diagrams with unsaved edits now
+   */
+  flushAll(): void {
+    for (const [diagramId, entry] of this.entries) {
+      if (this.hasUnsavedEdits(entry)) {
+        this.schedule(diagramId, 0);
+      }
+    }
+  }
+
+  private createEntry(base: Diagram, local: Diagram): SyncEntry {
+    return { base, local, timer: null, firstEditAt: null, inFlight: false, attempt: 0, conflict: null };
+  }
+
+  private hasUnsavedEdits(entry: SyncEntry): boolean {
+    return entry.local !== entry.base;
+  }
+
+  private schedule(diagramId: string, delay: number): void {
+    const entry = this.entries.get(diagramId);
+    if (!entry) return;
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      void this.flush(diagramId);
+    }, delay);
+  }
+
+  private async flush(diagramId: string): Promise<void> {
+    const entry = this.entries.get(diagramId);
+    if (!entry || entry.inFlight || entry.conflict || !this.hasUnsavedEdits(entry)) return;
+
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      // Saving resumes from the 'online' listener
+      this.setStatus(diagramId, { status: 'offline' });
+      return;
+    }
+
+    const { base, local: sent } = entry;
+    entry.inFlight = true;
+    entry.firstEditAt = null;
+    this.setStatus(diagramId, { status: 'saving' });
+
+    try {
+      const server = await this.backend.load(diagramId);
+      let content: Diagram = sent;
+
+      // The server moved on since the edits were based on it: merge or report a conflict
+      if (server.updatedAt.getTime() !== base.updatedAt.getTime()) {
+        const conflictingIds = findConflicts(base, sent, server);
+        if (conflictingIds.length > 0) {
+          entry.conflict = server;
+          this.setStatus(diagramId, { status: 'conflict', conflictingIds, retryAt: null });
+          return;
+        }
+        content = rebaseContent(base, sent, server);
+      }
+
+      const saved = await this.backend.save(diagramId, {
+        shapes: content.shapes,
+        connectors: content.connectors,
+      });
+
+      entry.attempt = 0;
+      entry.base = saved;
+      // Keep edits made while the save was in flight
+      entry.local = entry.local === sent ? saved : rebaseContent(sent, entry.local, saved);
+
+      if (this.hasUnsavedEdits(entry)) {
+        this.persist(diagramId, entry);
+        this.setStatus(diagramId, { status: 'pending', lastSavedAt: new Date(), error: null });
+        this.schedule(diagramId, COALESCE_DELAY_MS);
+      } else {
+        this.clearPersisted(diagramId);
+        this.setStatus(diagramId, {
+          status: 'synced',
+          lastSavedAt: new Date(),
+          retryAt: null,
+          error: null,
+        });
+      }
+    } catch (error) {
+      entry.attempt += 1;
+      const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (entry.attempt - 1), RETRY_MAX_DELAY_MS);
+      const isOffline = typeof navigator !== 'undefined' && !navigator.onLine;
+      this.setStatus(diagramId, {
+        status: isOffline ? 'offline' : 'retrying',
+        retryAt: isOffline ? null : new Date(Date.now() + delay),
+        error: getErrorMessage(error),
+      });
+      if (!isOffline) {
+        this.schedule(diagramId, delay);
+      }
+    } finally {
+      entry.inFlight = false;
+    }
+  }
+
+  private persist(diagramId: string, entry: SyncEntry): void {
+    this.storage.set(diagramId, { base: entry.base, local: entry.local }).catch((error) => {
+      console.error('[DiagramSyncQueue] Failed to store unsaved edits:', error);
+    });
+  }
+
+  private clearPersisted(diagramId: string): void {
+    this.storage.delete(diagramId).catch((error) => {
+      console.error('[DiagramSyncQueue] Failed to clear unsaved edits:', error);
+    });
+  }
+
+  private setStatus(diagramId: string, state: Partial<DiagramSyncState>): void {
+    useDiagramSyncStore.getState().setSyncState(diagramId, state);
+  }
+}
@@ -5,6 +5,9 @@
 
 export {
   DiagramTypeSchema,
+  LineJumpStyleSchema,
+  ConnectorSettingsSchema,
+  StylePresetSchema,
   DiagramSchema,
   CreateDiagramSchema,
   UpdateDiagramSchema,
@@ -12,12 +15,16 @@ export {
 
 export type {
   DiagramType,
+  LineJumpStyle,
+  ConnectorSettings,
+  StylePreset,
   Diagram,
   CreateDiagramDto,
   UpdateDiagramDto,
 } from './model/types';
 
 export { diagramApi } from './api/diagramApi';
+export type { DiagramContentSource } from './api/diagramApi';
 
 // Query hooks
 export {
@@ -30,3 +37,24 @@ export {
 // Store
 export { useDiagramStore } from './store/useDiagramStore';
 export type { DiagramStoreState } from './store/types';
+export { useDiagramSyncStore, useDiagramSyncState } from './store/useDiagramSyncStore';
+export type { DiagramSyncStatus, DiagramSyncState } from './store/useDiagramSyncStore';
+
+// Shape/connector operations (collaborative editing)
+export type {
+  DiagramOperation,
+  DiagramOperationOrigin,
+  DiagramOperationListener,
+} from './model/operations';
+export { subscribeToDiagramOperations } from './store/utils/operationFeed';
+export { applyDiagramOperations } from './store/utils/applyOperations';
+
+// History (autosave checkpoints and structural diffs)
+export type { DiagramCheckpoint } from './model/checkpoints';
+export type {
+  DiagramChangeKind,
+  DiagramChangeAspect,
+  DiagramEntityChange,
+  DiagramDiff,
+} from './model/diagramDiff';
+export { diffDiagramContent, countDiagramChanges } from './model/diagramDiff';
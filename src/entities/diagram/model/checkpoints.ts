@@ -0,0 +1,14 @@
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+
+/**
+ * Autosave checkpoint - the shapes and connectors of a diagram as saved at one point in time
+ * Checkpoints are recorded periodically while a diagram is edited and kept on this device.
+ */
+export interface DiagramCheckpoint {
+  id: string;
+  diagramId: string;
+  createdAt: Date;
+  shapes: Shape[];
+  connectors: Connector[];
+}
@@ -0,0 +1,178 @@
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import type { Diagram } from './types';
+import type { DiagramOperation } from './operations';
+
+type DiagramContent = Pick<Diagram, 'shapes' | 'connectors'>;
+
+/**
+ * How an entity differs between two versions of a diagram
+ */
+export type DiagramChangeKind = 'added' | 'removed' | 'changed';
+
+/**
+ * What changed about an entity present in both versions
+ * - moved/resized: position or size of a shape
+ * - relabelled: label (and cardinalities for connectors)
+ * - reconnected: source or target shape of a connector
+ * - other: any other property (type, style, data, ...)
+ */
+export type DiagramChangeAspect = 'moved' | 'resized' | 'relabelled' | 'reconnected' | 'other';
+
+export interface DiagramEntityChange<T> {
+  id: string;
+  kind: DiagramChangeKind;
+  /** Entity in the older version (missing when added) */
+  before?: T;
+  /** Entity in the newer version (missing when removed) */
+  after?: T;
+  /** Changed aspects (empty unless kind is 'changed') */
+  aspects: DiagramChangeAspect[];
+}
+
+/**
+ * Structural difference between two versions of a diagram's content.
+ * Unchanged entities are not listed.
+ */
+export interface DiagramDiff {
+  shapes: DiagramEntityChange<Shape>[];
+  connectors: DiagramEntityChange<Connector>[];
+}
+
+/**
+ * Structural equality for shapes/connectors (JSON-like values).
+ * Key order and missing vs. null/undefined values are ignored, since the
+ * server does not preserve either.
+ */
+export function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b || (a == null && b == null)) return true;
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  for (const key of keys) {
+    if (!isSameValue(aRecord[key], bRecord[key])) return false;
+  }
+  return true;
+}
+
+// Properties checked for each aspect; properties not listed count as 'other'
+const SHAPE_ASPECTS: Partial<Record<DiagramChangeAspect, Array<keyof Shape>>> = {
+  moved: ['x', 'y'],
+  resized: ['width', 'height'],
+  relabelled: ['label'],
+};
+
+const CONNECTOR_ASPECTS: Partial<Record<DiagramChangeAspect, Array<keyof Connector>>> = {
+  reconnected: ['sourceShapeId', 'targetShapeId'],
+  relabelled: ['label', 'sourceCardinality', 'targetCardinality'],
+};
+
+function getChangedAspects<T extends object>(
+  before: T,
+  after: T,
+  aspectKeys: Partial<Record<DiagramChangeAspect, Array<keyof T>>>
+): DiagramChangeAspect[] {
+  const aspects: DiagramChangeAspect[] = [];
+  const checked = new Set<string>();
+  for (const [aspect, keys] of Object.entries(aspectKeys) as Array<[DiagramChangeAspect, Array<keyof T>]>) {
+    keys.forEach((key) => checked.add(String(key)));
+    if (keys.some((key) => !isSameValue(before[key], after[key]))) {
+      aspects.push(aspect);
+    }
+  }
+
+  const beforeRecord = before as Record<string, unknown>;
+  const afterRecord = after as Record<string, unknown>;
+  const otherKeys = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+  for (const key of otherKeys) {
+    if (!checked.has(key) && !isSameValue(beforeRecord[key], afterRecord[key])) {
+      aspects.push('other');
+      break;
+    }
+  }
+  return aspects;
+}
+
+function diffEntities<T extends { id: string }>(
+  from: T[],
+  to: T[],
+  aspectKeys: Partial<Record<DiagramChangeAspect, Array<keyof T>>>
+): DiagramEntityChange<T>[] {
+  const fromMap = new Map(from.map((entity) => [entity.id, entity]));
+  const toMap = new Map(to.map((entity) => [entity.id, entity]));
+  const changes: DiagramEntityChange<T>[] = [];
+
+  for (const after of to) {
+    const before = fromMap.get(after.id);
+    if (!before) {
+      changes.push({ id: after.id, kind: 'added', after, aspects: [] });
+      continue;
+    }
+    const aspects = getChangedAspects(before, after, aspectKeys);
+    if (aspects.length > 0) {
+      changes.push({ id: after.id, kind: 'changed', before, after, aspects });
+    }
+  }
+  for (const before of from) {
+    if (!toMap.has(before.id)) {
+      changes.push({ id: before.id, kind: 'removed', before, aspects: [] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compare two versions of a diagram's content by shape and connector ID
+ *
+ * @param from - Older version
+ * @param to - Newer version
+ */
+export function diffDiagramContent(from: DiagramContent, to: DiagramContent): DiagramDiff {
+  return {
+    shapes: diffEntities(from.shapes, to.shapes, SHAPE_ASPECTS),
+    connectors: diffEntities(from.connectors || [], to.connectors || [], CONNECTOR_ASPECTS),
+  };
+}
+
+/**
+ * Count the changes of a diff by kind
+ */
+export function countDiagramChanges(diff: DiagramDiff): Record<DiagramChangeKind, number> {
+  const counts: Record<DiagramChangeKind, number> = { added: 0, removed: 0, changed: 0 };
+  for (const change of [...diff.shapes, ...diff.connectors]) {
+    counts[change.kind] += 1;
+  }
+  return counts;
+}
+
+/**
+ * Operations that turn the older version of a diff into the newer one
+ * (removed connectors first, so connector deletes never refer to deleted shapes)
+ */
+export function getDiagramDiffOperations(diff: DiagramDiff): DiagramOperation[] {
+  const operations: DiagramOperation[] = [];
+  for (const change of diff.connectors) {
+    if (change.kind === 'removed') {
+      operations.push({ type: 'connector-delete', connectorId: change.id });
+    }
+  }
+  for (const change of diff.shapes) {
+    operations.push(
+      change.after
+        ? { type: 'shape-upsert', shape: change.after }
+        : { type: 'shape-delete', shapeId: change.id }
+    );
+  }
+  for (const change of diff.connectors) {
+    if (change.after) {
+      operations.push({ type: 'connector-upsert', connector: change.after });
+    }
+  }
+  return operations;
+}
@@ -0,0 +1,29 @@
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import type { CommandReplayKind } from '@/shared/model/commands';
+
+/**
+ * A single change to the shapes or connectors of a diagram
+ * Upserts carry the complete entity; updates only the changed fields.
+ */
+export type DiagramOperation =
+  | { type: 'shape-upsert'; shape: Shape }
+  | { type: 'shape-update'; shapeId: string; updates: Partial<Shape> }
+  | { type: 'shape-delete'; shapeId: string }
+  | { type: 'connector-upsert'; connector: Connector }
+  | { type: 'connector-update'; connectorId: string; updates: Partial<Connector> }
+  | { type: 'connector-delete'; connectorId: string };
+
+/**
+ * Origin of a local change: a new edit, or an undo/redo of an earlier one
+ */
+export type DiagramOperationOrigin = 'edit' | CommandReplayKind;
+
+/**
+ * Listener for the changes made by this client
+ */
+export type DiagramOperationListener = (
+  diagramId: string,
+  operations: DiagramOperation[],
+  origin: DiagramOperationOrigin
+) => void;
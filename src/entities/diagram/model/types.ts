@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { ShapeSchema } from '@/entities/shape';
+import { ShapeSchema, ShapeStyleSchema } from '@/entities/shape';
 import { ConnectorSchema } from '@/entities/connector';
 
 /**
@@ -7,6 +7,9 @@ import { ConnectorSchema } from '@/entities/connector';
  * Represents a diagram (BPMN, DataFlow, Class, Sequence, Architecture)
  * Diagrams belong to a DesignWork (folder) in the tree hierarchy
  *
+ * The 'wireframe' type is not created as a diagram: it is the canvas type used when
+ * interface content is edited through the diagram canvas (see DiagramContentSource).
+ *
  * A diagram contains its complete content including shapes and connectors.
  * When saved to storage or transmitted to the backend, the entire diagram is handled as one unit.
  *
@@ -14,9 +17,29 @@ import { ConnectorSchema } from '@/entities/connector';
  */
 
 // Diagram type enum
-export const DiagramTypeSchema = z.enum(['bpmn', 'dataflow', 'class', 'sequence', 'architecture', 'entity-relationship']);
+export const DiagramTypeSchema = z.enum(['bpmn', 'dataflow', 'class', 'sequence', 'architecture', 'entity-relationship', 'wireframe']);
 export type DiagramType = z.infer<typeof DiagramTypeSchema>;
 
+// Line jumps drawn where connectors cross: arcs, gaps, or plain intersections
+export const LineJumpStyleSchema = z.enum(['none', 'arc', 'gap']);
+export type LineJumpStyle = z.infer<typeof LineJumpStyleSchema>;
+
+// Diagram-level connector settings
+export const ConnectorSettingsSchema = z.object({
+  lineJumps: LineJumpStyleSchema.default('none'),
+  // Route orthogonal connectors around the connectors drawn before them, with fewer bends
+  minimizeCrossings: z.boolean().default(false),
+});
+export type ConnectorSettings = z.infer<typeof ConnectorSettingsSchema>;
+
+// Named style saved on the diagram, applied to shapes and connectors from the style inspector
+export const StylePresetSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1, 'Preset name is required').max(100),
+  style: ShapeStyleSchema,
+});
+export type StylePreset = z.infer<typeof StylePresetSchema>;
+
 // Zod schema for runtime validation
 export const DiagramSchema = z.object({
   id: z.string().uuid(),
@@ -26,6 +49,10 @@ export const DiagramSchema = z.object({
   // Diagram content - shapes and connectors live within the diagram
   shapes: z.array(ShapeSchema).default([]),
   connectors: z.array(ConnectorSchema).default([]),
+  // Connector crossing settings (line jumps, crossing-aware routing)
+  connectorSettings: ConnectorSettingsSchema.optional(),
+  // Named style presets (e.g., one per team, or the critical path)
+  stylePresets: z.array(StylePresetSchema).optional(),
   // Cached mermaid export - auto-generated and persisted for reuse across the app
   mermaidSyntax: z.string().optional(),
   createdAt: z.date(),
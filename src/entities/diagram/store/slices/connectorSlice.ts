@@ -3,6 +3,7 @@ import { diagramApi } from '@/entities/diagram';
 import { commandManager } from '@/shared/model/commands';
 import { handleStoreError } from '../utils/errorHandler';
 import { syncConnectorToCanvas, syncConnectorsToCanvas } from '../utils/canvasSync';
+import { publishDiagramOperations } from '../utils/operationFeed';
 import type { DiagramSlice, ConnectorSlice } from '../types';
 
 /**
@@ -137,6 +138,7 @@ export const createConnectorSlice: DiagramSlice<ConnectorSlice> = (set, get) =>
     if (updatedDiagram.connectors.length > 0) {
       const newConnector = updatedDiagram.connectors[updatedDiagram.connectors.length - 1];
       syncConnectorToCanvas(diagramId, 'add', newConnector);
+      publishDiagramOperations(diagramId, [{ type: 'connector-upsert', connector: newConnector }]);
     }
 
     return updatedDiagram;
@@ -166,6 +168,10 @@ export const createConnectorSlice: DiagramSlice<ConnectorSlice> = (set, get) =>
     const startIndex = currentDiagram.connectors.length - connectors.length;
     const newConnectors = currentDiagram.connectors.slice(startIndex);
     syncConnectorsToCanvas(diagramId, 'add', newConnectors);
+    publishDiagramOperations(
+      diagramId,
+      newConnectors.map((connector) => ({ type: 'connector-upsert', connector }))
+    );
 
     return currentDiagram;
   },
@@ -181,6 +187,7 @@ export const createConnectorSlice: DiagramSlice<ConnectorSlice> = (set, get) =>
       set((state) => ({
         diagrams: { ...state.diagrams, [diagramId]: updatedDiagram },
       }));
+      publishDiagramOperations(diagramId, [{ type: 'connector-update', connectorId, updates }]);
     }
 
     return updatedDiagram;
@@ -196,6 +203,7 @@ export const createConnectorSlice: DiagramSlice<ConnectorSlice> = (set, get) =>
 
       // Update canvas instance local state
       syncConnectorToCanvas(diagramId, 'remove', connectorId);
+      publishDiagramOperations(diagramId, [{ type: 'connector-delete', connectorId }]);
     }
 
     return updatedDiagram;
@@ -214,6 +222,7 @@ export const createConnectorSlice: DiagramSlice<ConnectorSlice> = (set, get) =>
 
     // Update canvas instance local state
     syncConnectorToCanvas(diagramId, 'add', connector);
+    publishDiagramOperations(diagramId, [{ type: 'connector-upsert', connector }]);
 
     return updatedDiagram;
   },
@@ -242,6 +251,10 @@ export const createConnectorSlice: DiagramSlice<ConnectorSlice> = (set, get) =>
 
       // Update canvas instance local state - remove all connectors at once
       syncConnectorsToCanvas(diagramId, 'remove', connectorIds);
+      publishDiagramOperations(
+        diagramId,
+        connectorIds.map((connectorId) => ({ type: 'connector-delete', connectorId }))
+      );
     }
 
     return updatedDiagram;
@@ -264,6 +277,10 @@ export const createConnectorSlice: DiagramSlice<ConnectorSlice> = (set, get) =>
 
     // Update canvas instance local state - add all connectors at once
     syncConnectorsToCanvas(diagramId, 'add', connectors);
+    publishDiagramOperations(
+      diagramId,
+      connectors.map((connector) => ({ type: 'connector-upsert', connector }))
+    );
 
     return updatedDiagram;
   },
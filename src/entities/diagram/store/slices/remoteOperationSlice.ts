@@ -0,0 +1,78 @@
+import { diagramApi } from '@/entities/diagram';
+import type { Diagram } from '@/entities/diagram';
+import { useCommandStore } from '@/shared/model/commands';
+import { canvasInstanceRegistry } from '@/shared/model/stores/canvas/canvasInstanceRegistry';
+import { applyDiagramOperations } from '../utils/applyOperations';
+import { publishDiagramOperations } from '../utils/operationFeed';
+import { diffDiagramContent, getDiagramDiffOperations } from '../../model/diagramDiff';
+import type { DiagramOperation } from '../../model/operations';
+import type { DiagramSlice, RemoteOperationSlice } from '../types';
+
+/**
+ * Remote operation slice - applies changes made by collaborators and replaces
+ * the content with other versions.
+ *
+ * The collaborator that made the changes saves them, so they are applied to the
+ * working copy, store and canvas only: no save, no command and no entry in the
+ * operation feed.
+ */
+export const createRemoteOperationSlice: DiagramSlice<RemoteOperationSlice> = (set, get) => ({
+  _internalApplyRemoteOperations: (diagramId: string, operations: DiagramOperation[]) => {
+    const diagram = get().diagrams[diagramId];
+    if (!diagram || operations.length === 0) {
+      return;
+    }
+
+    const content = applyDiagramOperations(
+      { shapes: diagram.shapes, connectors: diagram.connectors || [] },
+      operations
+    );
+
+    diagramApi.applyRemoteChanges(diagramId, operations);
+    set((state) => ({
+      diagrams: { ...state.diagrams, [diagramId]: { ...diagram, ...content } },
+    }));
+
+    // Apply to the canvas local state in a single update
+    if (!canvasInstanceRegistry.hasStore(diagramId)) {
+      return;
+    }
+    const canvasInstance = canvasInstanceRegistry.getStore(diagramId);
+    const { localShapes, localConnectors, initializeContent } = canvasInstance.getState();
+    const localContent = applyDiagramOperations(
+      { shapes: localShapes, connectors: localConnectors },
+      operations
+    );
+    initializeContent(localContent.shapes, localContent.connectors);
+  },
+
+  // Replace the content with another version (e.g. the server version after a save conflict).
+  // The undo history refers to the replaced content, so it is cleared.
+  _internalReplaceContent: (diagram: Diagram) => {
+    set((state) => ({
+      diagrams: { ...state.diagrams, [diagram.id]: diagram },
+    }));
+    useCommandStore.getState().clearScope(diagram.id);
+
+    if (canvasInstanceRegistry.hasStore(diagram.id)) {
+      canvasInstanceRegistry
+        .getStore(diagram.id)
+        .getState()
+        .initializeContent(diagram.shapes, diagram.connectors || []);
+    }
+  },
+
+  // Restore an earlier version of the content (e.g. a history snapshot). The restore is
+  // saved and published as operations, so collaborators see the same content.
+  _internalRestoreContent: async (diagramId: string, content: Pick<Diagram, 'shapes' | 'connectors'>) => {
+    const current = get().diagrams[diagramId];
+    const diagram = await diagramApi.restoreContent(diagramId, content);
+    get()._internalReplaceContent(diagram);
+
+    if (current) {
+      const diff = diffDiagramContent(current, diagram);
+      publishDiagramOperations(diagramId, getDiagramDiffOperations(diff));
+    }
+    return diagram;
+  },
+});
@@ -1,4 +1,6 @@
 import type { CreateShapeDTO, Shape } from '@/entities/shape';
+import type { Diagram } from '@/entities/diagram';
+import type { ContentType } from '@/entities/reference';
 import { diagramApi } from '@/entities/diagram';
 import { commandManager } from '@/shared/model/commands';
 import {
@@ -7,7 +9,33 @@ import {
 } from '@/entities/reference';
 import { handleStoreError } from '../utils/errorHandler';
 import { syncShapeToCanvas, syncShapesToCanvas } from '../utils/canvasSync';
+import { publishDiagramOperations } from '../utils/operationFeed';
 import type { DiagramSlice, ShapeSlice } from '../types';
+import type { CommandFactory } from '@/features/canvas-commands/model/CommandFactory';
+
+/**
+ * Content type recorded on references created from shapes in this diagram
+ * Wireframe canvases edit interface content, so their references point at the interface
+ */
+function getReferenceContentType(diagram: Diagram): ContentType {
+  return diagram.type === 'wireframe' ? 'interface' : 'diagram';
+}
+
+/**
+ * Restack the lanes of BPMN pools, closing the gaps left by deleted lanes
+ */
+async function layoutBpmnSwimlanes(diagram: Diagram | undefined, commandFactory: CommandFactory) {
+  if (diagram?.type !== 'bpmn') {
+    return;
+  }
+
+  const { layoutSwimlanes } = await import('@/features/diagram-rendering/bpmn/swimlanes');
+  const updates = layoutSwimlanes(diagram.shapes);
+  if (updates.length > 0) {
+    const command = commandFactory.createResizeShapes(diagram.id, updates);
+    await commandManager.execute(command, diagram.id);
+  }
+}
 
 /**
  * Shape operations slice - public and internal methods for shape CRUD.
@@ -148,6 +176,8 @@ export const createShapeSlice: DiagramSlice<ShapeSlice> = (set, get) => ({
       // Create and execute command with batch connector deletion support
       const command = get().commandFactory.createDeleteShape(diagramId, shapeId);
       await commandManager.execute(command, diagramId);
+
+      await layoutBpmnSwimlanes(get().diagrams[diagramId], get().commandFactory);
     } catch (error) {
       handleStoreError(error, set, diagramId, 'Failed to delete shape');
     }
@@ -165,6 +195,8 @@ export const createShapeSlice: DiagramSlice<ShapeSlice> = (set, get) => ({
       // Create and execute batch delete command (single undo operation)
       const command = get().commandFactory.createBatchDeleteShapes(diagramId, shapeIds);
       await commandManager.execute(command, diagramId);
+
+      await layoutBpmnSwimlanes(get().diagrams[diagramId], get().commandFactory);
     } catch (error) {
       handleStoreError(error, set, diagramId, 'Failed to delete shapes');
     }
@@ -193,6 +225,7 @@ export const createShapeSlice: DiagramSlice<ShapeSlice> = (set, get) => ({
     const newShape = updatedDiagram.shapes[updatedDiagram.shapes.length - 1];
     if (newShape) {
       syncShapeToCanvas(diagramId, 'add', newShape);
+      publishDiagramOperations(diagramId, [{ type: 'shape-upsert', shape: newShape }]);
     }
 
     // Create reference if eligible (skip for preview shapes or explicit opt-out)
@@ -205,7 +238,7 @@ export const createShapeSlice: DiagramSlice<ShapeSlice> = (set, get) => ({
         await referenceStore.createReference({
           designWorkId: updatedDiagram.designWorkId,
           name: shape.label || shape.type,
-          contentType: 'diagram',
+          contentType: getReferenceContentType(updatedDiagram),
           contentId: diagramId,
           sourceShapeId: newShape.id,
           referenceType: 'link',
@@ -250,6 +283,10 @@ export const createShapeSlice: DiagramSlice<ShapeSlice> = (set, get) => ({
     const startIndex = currentDiagram.shapes.length - shapes.length;
     const newShapes = currentDiagram.shapes.slice(startIndex);
     syncShapesToCanvas(diagramId, 'add', newShapes);
+    publishDiagramOperations(
+      diagramId,
+      newShapes.map((shape) => ({ type: 'shape-upsert', shape }))
+    );
 
     // Create references for eligible shapes (skip preview or explicit opt-out)
     if (!options?.skipReferenceCreation) {
@@ -269,7 +306,7 @@ export const createShapeSlice: DiagramSlice<ShapeSlice> = (set, get) => ({
         await referenceStore.createReference({
           designWorkId: currentDiagram.designWorkId,
           name: shapeDTO.label || shapeDTO.type,
-          contentType: 'diagram',
+          contentType: getReferenceContentType(currentDiagram),
           contentId: diagramId,
           sourceShapeId: newShape.id,
           referenceType: 'link',
@@ -297,6 +334,7 @@ export const createShapeSlice: DiagramSlice<ShapeSlice> = (set, get) => ({
       set((state) => ({
         diagrams: { ...state.diagrams, [diagramId]: updatedDiagram },
       }));
+      publishDiagramOperations(diagramId, [{ type: 'shape-update', shapeId, updates }]);
     }
 
     return updatedDiagram;
@@ -312,6 +350,14 @@ export const createShapeSlice: DiagramSlice<ShapeSlice> = (set, get) => ({
       set((state) => ({
         diagrams: { ...state.diagrams, [diagramId]: updatedDiagram },
       }));
+      publishDiagramOperations(
+        diagramId,
+        updates.map(({ shapeId, updates: shapeUpdates }) => ({
+          type: 'shape-update',
+          shapeId,
+          updates: shapeUpdates,
+        }))
+      );
     }
 
     return updatedDiagram;
@@ -327,6 +373,7 @@ export const createShapeSlice: DiagramSlice<ShapeSlice> = (set, get) => ({
 
       // Update canvas instance local state
       syncShapeToCanvas(diagramId, 'remove', shapeId);
+      publishDiagramOperations(diagramId, [{ type: 'shape-delete', shapeId }]);
     }
 
     return updatedDiagram;
@@ -345,6 +392,7 @@ export const createShapeSlice: DiagramSlice<ShapeSlice> = (set, get) => ({
 
     // Update canvas instance local state
     syncShapeToCanvas(diagramId, 'add', shape);
+    publishDiagramOperations(diagramId, [{ type: 'shape-upsert', shape }]);
 
     return updatedDiagram;
   },
@@ -373,6 +421,10 @@ export const createShapeSlice: DiagramSlice<ShapeSlice> = (set, get) => ({
 
       // Update canvas instance local state - remove all shapes at once
       syncShapesToCanvas(diagramId, 'remove', shapeIds);
+      publishDiagramOperations(
+        diagramId,
+        shapeIds.map((shapeId) => ({ type: 'shape-delete', shapeId }))
+      );
     }
 
     return updatedDiagram;
@@ -395,6 +447,10 @@ export const createShapeSlice: DiagramSlice<ShapeSlice> = (set, get) => ({
 
     // Update canvas instance local state - add all shapes at once
     syncShapesToCanvas(diagramId, 'add', shapes);
+    publishDiagramOperations(
+      diagramId,
+      shapes.map((shape) => ({ type: 'shape-upsert', shape }))
+    );
 
     return updatedDiagram;
   },
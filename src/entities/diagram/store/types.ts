@@ -3,6 +3,7 @@ import type { Diagram, CreateDiagramDto } from '@/entities/diagram';
 import type { Shape, CreateShapeDTO } from '@/entities/shape';
 import type { Connector, CreateConnectorDTO } from '@/entities/connector';
 import type { CommandFactory } from '@/features/canvas-commands/model/CommandFactory';
+import type { DiagramOperation } from '../model/operations';
 
 /**
  * Base state shared across all diagram store slices.
@@ -114,6 +115,19 @@ export interface MermaidSlice {
   _internalUpdateDiagramMermaid: (diagramId: string, mermaidSyntax: string) => void;
 }
 
+/**
+ * Remote operation slice - applies changes made by collaborators and
+ * replaces the content with other versions.
+ */
+export interface RemoteOperationSlice {
+  _internalApplyRemoteOperations: (diagramId: string, operations: DiagramOperation[]) => void;
+  _internalReplaceContent: (diagram: Diagram) => void;
+  _internalRestoreContent: (
+    diagramId: string,
+    content: Pick<Diagram, 'shapes' | 'connectors'>
+  ) => Promise<Diagram>;
+}
+
 /**
  * Complete diagram store state combining all slices.
  */
@@ -121,7 +135,8 @@ export type DiagramStoreState = DiagramStoreBase &
   DiagramCrudSlice &
   ShapeSlice &
   ConnectorSlice &
-  MermaidSlice;
+  MermaidSlice &
+  RemoteOperationSlice;
 
 /**
  * Type helper for creating slices that can access the full store state.
@@ -4,6 +4,7 @@ import { createShapeSlice } from './slices/shapeSlice';
 import { createConnectorSlice } from './slices/connectorSlice';
 import { createDiagramCrudSlice } from './slices/diagramCrudSlice';
 import { createMermaidSlice } from './slices/mermaidSlice';
+import { createRemoteOperationSlice } from './slices/remoteOperationSlice';
 import type { DiagramStoreState } from './types';
 
 /**
@@ -19,6 +20,7 @@ import type { DiagramStoreState } from './types';
  * - shapeSlice: Shape operations (add, update, delete, batch operations)
  * - connectorSlice: Connector operations (add, update, delete, batch operations)
  * - mermaidSlice: Mermaid syntax sync utility
+ * - remoteOperationSlice: Applies collaborators' changes (no API, no commands)
  *
  * Performance guarantees:
  * - Single set() calls for batch operations (slices share same set function)
@@ -45,6 +47,7 @@ export const useDiagramStore = create<DiagramStoreState>()((...args) => {
     ...createShapeSlice(...args),
     ...createConnectorSlice(...args),
     ...createMermaidSlice(...args),
+    ...createRemoteOperationSlice(...args),
   };
 });
 
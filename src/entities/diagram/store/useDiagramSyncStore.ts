@@ -0,0 +1,61 @@
+import { create } from 'zustand';
+
+/**
+ * Save state of a diagram's shapes and connectors
+ * - synced: everything is saved
+ * - pending: edits are waiting to be batched into the next save
+ * - saving: a save is in flight
+ * - offline: the browser is offline; edits are kept in IndexedDB until it reconnects
+ * - retrying: the last save failed; another attempt is scheduled
+ * - conflict: the server changed the same shapes/connectors; the user must choose a version
+ */
+export type DiagramSyncStatus = 'synced' | 'pending' | 'saving' | 'offline' | 'retrying' | 'conflict';
+
+export interface DiagramSyncState {
+  status: DiagramSyncStatus;
+  lastSavedAt: Date | null;
+  /** When the next save attempt runs (retrying only) */
+  retryAt: Date | null;
+  /** Message of the last failed save */
+  error: string | null;
+  /** Shapes/connectors changed both locally and on the server (conflict only) */
+  conflictingIds: string[];
+}
+
+interface DiagramSyncStoreState {
+  syncByDiagram: Record<string, DiagramSyncState>;
+  setSyncState: (diagramId: string, state: Partial<DiagramSyncState>) => void;
+}
+
+const INITIAL_SYNC_STATE: DiagramSyncState = {
+  status: 'synced',
+  lastSavedAt: null,
+  retryAt: null,
+  error: null,
+  conflictingIds: [],
+};
+
+/**
+ * Diagram Sync Store - save state per diagram, written by the diagram sync queue
+ */
+export const useDiagramSyncStore = create<DiagramSyncStoreState>()((set) => ({
+  syncByDiagram: {},
+
+  setSyncState: (diagramId, state) =>
+    set((current) => ({
+      syncByDiagram: {
+        ...current.syncByDiagram,
+        [diagramId]: {
+          ...(current.syncByDiagram[diagramId] ?? INITIAL_SYNC_STATE),
+          ...state,
+        },
+      },
+    })),
+}));
+
+/**
+ * Get the save state of a diagram (synced until its first edit)
+ */
+export function useDiagramSyncState(diagramId: string): DiagramSyncState {
+  return useDiagramSyncStore((state) => state.syncByDiagram[diagramId] ?? INITIAL_SYNC_STATE);
+}
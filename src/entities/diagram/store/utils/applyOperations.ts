@@ -0,0 +1,60 @@
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import type { DiagramOperation } from '../../model/operations';
+
+interface DiagramContent {
+  shapes: Shape[];
+  connectors: Connector[];
+}
+
+/**
+ * Apply shape/connector operations to diagram content.
+ * Upserts replace an existing entity in place or append it; updates of missing
+ * entities are ignored. Deleting a shape also drops the connectors attached to it.
+ */
+export function applyDiagramOperations(
+  content: DiagramContent,
+  operations: DiagramOperation[]
+): DiagramContent {
+  let { shapes, connectors } = content;
+
+  for (const operation of operations) {
+    switch (operation.type) {
+      case 'shape-upsert': {
+        const { shape } = operation;
+        shapes = shapes.some((s) => s.id === shape.id)
+          ? shapes.map((s) => (s.id === shape.id ? shape : s))
+          : [...shapes, shape];
+        break;
+      }
+      case 'shape-update':
+        shapes = shapes.map((s) =>
+          s.id === operation.shapeId ? { ...s, ...operation.updates } : s
+        );
+        break;
+      case 'shape-delete':
+        shapes = shapes.filter((s) => s.id !== operation.shapeId);
+        connectors = connectors.filter(
+          (c) => c.sourceShapeId !== operation.shapeId && c.targetShapeId !== operation.shapeId
+        );
+        break;
+      case 'connector-upsert': {
+        const { connector } = operation;
+        connectors = connectors.some((c) => c.id === connector.id)
+          ? connectors.map((c) => (c.id === connector.id ? connector : c))
+          : [...connectors, connector];
+        break;
+      }
+      case 'connector-update':
+        connectors = connectors.map((c) =>
+          c.id === operation.connectorId ? { ...c, ...operation.updates } : c
+        );
+        break;
+      case 'connector-delete':
+        connectors = connectors.filter((c) => c.id !== operation.connectorId);
+        break;
+    }
+  }
+
+  return { shapes, connectors };
+}
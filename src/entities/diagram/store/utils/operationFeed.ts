@@ -0,0 +1,31 @@
+import { commandManager } from '@/shared/model/commands';
+import type { DiagramOperation, DiagramOperationListener } from '../../model/operations';
+
+const listeners = new Set<DiagramOperationListener>();
+
+/**
+ * Publish shape/connector changes made by this client.
+ * Called by the internal store methods once the change is in the working copy
+ * (saving it is queued by diagramApi).
+ */
+export function publishDiagramOperations(diagramId: string, operations: DiagramOperation[]): void {
+  if (operations.length === 0 || listeners.size === 0) {
+    return;
+  }
+
+  const origin = commandManager.getReplayKind(diagramId) ?? 'edit';
+  listeners.forEach((listener) => listener(diagramId, operations, origin));
+}
+
+/**
+ * Subscribe to the shape/connector changes made by this client.
+ * Changes applied from collaborators are not published.
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeToDiagramOperations(listener: DiagramOperationListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
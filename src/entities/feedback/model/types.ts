@@ -58,7 +58,9 @@ export const ExtractedFeedbackSchema = z.object({
   content: z.string(), // Clear summary of the feedback
   tags: z.array(z.string()).default([]), // Category labels from LLM extraction
   quotes: z.array(z.string()), // Exact quotes from transcript
+  quoteSourceIds: z.record(z.string(), z.string()).optional(), // Intake source per quote text (e.g. a survey response)
   linkedPersonaIndexes: z.array(z.number()), // Indexes into personas array
+  linkedPersonaIds: z.array(z.string()).optional(), // Saved personas (from transcript speakers)
   linkedUserGoalIndexes: z.array(z.number()), // Indexes into userGoals array
 });
 
@@ -106,6 +108,7 @@ export const CreateFeedbackSchema = FeedbackSchema.omit({
   updatedAt: true,
 }).extend({
   quotes: z.array(z.string()),
+  quoteSourceIds: z.record(z.string(), z.string().uuid()).optional(), // Intake source per quote text (e.g. a survey response)
   personaIds: z.array(z.string().uuid()).optional(),
   useCaseIds: z.array(z.string().uuid()).optional(),
   userGoalIds: z.array(z.string().uuid()).optional(),
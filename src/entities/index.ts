@@ -39,3 +39,6 @@ export * from './use-case';
 // Design studio composite entities
 export * from './diagram';
 export * from './design-work';
+
+// Review comments (threads on design studio content)
+export * from './comment';
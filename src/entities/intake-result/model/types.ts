@@ -26,6 +26,7 @@ export const ExtractedPersonaSchema = z.object({
   painPoints: z.array(z.string()), // Frustrations or obstacles
   demographics: ExtractedDemographicsSchema,
   quotes: z.array(z.string()), // Supporting quotes from transcript
+  quoteSourceIds: z.record(z.string(), z.string()).optional(), // Intake source per quote text (e.g. a survey response)
 });
 
 export type ExtractedPersona = z.infer<typeof ExtractedPersonaSchema>;
@@ -35,7 +36,9 @@ export const ExtractedUserGoalSchema = z.object({
   name: z.string(), // Short name for the user goal
   description: z.string(), // Detailed description of the workflow/task
   quotes: z.array(z.string()), // Supporting quotes from transcript
+  quoteSourceIds: z.record(z.string(), z.string()).optional(), // Intake source per quote text (e.g. a survey response)
   linkedPersonaIndexes: z.array(z.number()), // Indexes into personas array
+  linkedPersonaIds: z.array(z.string()).optional(), // Saved personas (from transcript speakers)
 });
 
 export type ExtractedUserGoal = z.infer<typeof ExtractedUserGoalSchema>;
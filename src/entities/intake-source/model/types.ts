@@ -14,6 +14,8 @@ export const IntakeSourceSchema = z.object({
   date: z.string().nullable(), // ISO date string (YYYY-MM-DD)
   ticketId: z.string().nullable(),
   surveyName: z.string().nullable(),
+  respondentId: z.string().nullable(), // Survey respondent, for a source that is a single survey response
+  segment: z.string().nullable(),
   createdAt: z.coerce.date(),
   updatedAt: z.coerce.date(),
 });
@@ -27,6 +29,8 @@ export const CreateIntakeSourceSchema = z.object({
   date: z.string().optional(), // ISO date string (YYYY-MM-DD)
   ticketId: z.string().optional(),
   surveyName: z.string().optional(),
+  respondentId: z.string().optional(),
+  segment: z.string().optional(),
 });
 
 export type CreateIntakeSourceDto = z.infer<typeof CreateIntakeSourceSchema>;
@@ -37,6 +41,8 @@ export const UpdateIntakeSourceSchema = z.object({
   date: z.string().optional(),
   ticketId: z.string().optional(),
   surveyName: z.string().optional(),
+  respondentId: z.string().optional(),
+  segment: z.string().optional(),
 });
 
 export type UpdateIntakeSourceDto = z.infer<typeof UpdateIntakeSourceSchema>;
@@ -56,5 +62,7 @@ export function metadataToIntakeSource(
     date: metadata.date || metadata.ticketDate || metadata.responseDate || undefined,
     ticketId: metadata.ticketId || undefined,
     surveyName: metadata.surveyName || undefined,
+    respondentId: metadata.respondentId || undefined,
+    segment: metadata.segment || undefined,
   };
 }
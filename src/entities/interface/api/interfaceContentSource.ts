@@ -0,0 +1,56 @@
+import type { Diagram, DiagramContentSource, UpdateDiagramDto } from '@/entities/diagram';
+import type { Interface } from '../model/types';
+import { interfaceApi } from './interfaceApi';
+import { useInterfaceStore } from '../store/useInterfaceStore';
+
+/**
+ * Interface IDs that have been served as canvas content
+ * Keeps in-flight canvas commands routed to the interface API after the view unmounts
+ */
+const servedInterfaceIds = new Set<string>();
+
+/**
+ * Present an interface's wireframe content as a diagram for the canvas
+ */
+function toWireframeDiagram(interfaceItem: Interface): Diagram {
+  return {
+    id: interfaceItem.id,
+    designWorkId: interfaceItem.designWorkId,
+    name: interfaceItem.name,
+    type: 'wireframe',
+    shapes: interfaceItem.shapes || [],
+    connectors: interfaceItem.connectors || [],
+    createdAt: interfaceItem.createdAt,
+    updatedAt: interfaceItem.updatedAt,
+  };
+}
+
+/**
+ * Interface Content Source
+ * Lets the diagram canvas load and persist interface wireframe content.
+ * Only shapes and connectors are written back; diagram-only fields (e.g., mermaidSyntax) are ignored.
+ */
+export const interfaceContentSource: DiagramContentSource = {
+  owns(id: string): boolean {
+    return servedInterfaceIds.has(id) || id in useInterfaceStore.getState().interfaces;
+  },
+
+  async get(id: string): Promise<Diagram> {
+    const interfaceItem = await interfaceApi.get(id);
+    servedInterfaceIds.add(id);
+    return toWireframeDiagram(interfaceItem);
+  },
+
+  async update(id: string, updates: Partial<UpdateDiagramDto>): Promise<Diagram> {
+    const { shapes, connectors } = updates;
+    if (shapes === undefined && connectors === undefined) {
+      return this.get(id);
+    }
+
+    const updated = await interfaceApi.update(id, {
+      ...(shapes !== undefined && { shapes }),
+      ...(connectors !== undefined && { connectors }),
+    });
+    return toWireframeDiagram(updated);
+  },
+};
@@ -18,6 +18,7 @@ export type {
 } from './model/types';
 
 export { interfaceApi } from './api/interfaceApi';
+export { interfaceContentSource } from './api/interfaceContentSource';
 
 // Query hooks
 export {
@@ -1,9 +1,14 @@
 import { z } from 'zod';
+import { ShapeSchema } from '@/entities/shape';
+import { ConnectorSchema } from '@/entities/connector';
 
 /**
  * Interface domain model
  * Represents UI wireframes/mockups
  * Interfaces belong to a DesignWork (folder) in the tree hierarchy
+ *
+ * An interface contains its wireframe content (shapes and connectors), which is
+ * edited on the diagram canvas and persisted with the interface as one unit.
  */
 
 // Interface fidelity enum
@@ -16,6 +21,9 @@ export const InterfaceSchema = z.object({
   designWorkId: z.string().uuid(),
   name: z.string().min(1, 'Interface name is required').max(200),
   fidelity: InterfaceFidelitySchema,
+  // Wireframe content - UI primitives and navigation connectors live within the interface
+  shapes: z.array(ShapeSchema).default([]),
+  connectors: z.array(ConnectorSchema).default([]),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -24,10 +32,16 @@ export const InterfaceSchema = z.object({
 export type Interface = z.infer<typeof InterfaceSchema>;
 
 // Schema for creating (without generated fields)
+// Shapes and connectors are optional during creation (will default to empty)
 export const CreateInterfaceSchema = InterfaceSchema.omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  shapes: true,
+  connectors: true,
+}).extend({
+  shapes: z.array(ShapeSchema).optional(),
+  connectors: z.array(ConnectorSchema).optional(),
 });
 
 export type CreateInterfaceDto = z.infer<typeof CreateInterfaceSchema>;
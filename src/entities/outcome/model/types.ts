@@ -12,7 +12,9 @@ export const ExtractedOutcomeSchema = z.object({
   description: z.string(), // What outcome is desired
   target: z.string(), // The explicit metric target
   quotes: z.array(z.string()), // Supporting quotes from transcript
+  quoteSourceIds: z.record(z.string(), z.string()).optional(), // Intake source per quote text (e.g. a survey response)
   linkedPersonaIndexes: z.array(z.number()).default([]), // Indexes into personas array
+  linkedPersonaIds: z.array(z.string()).optional(), // Saved personas (from transcript speakers)
   linkedUserGoalIndexes: z.array(z.number()).default([]), // Indexes into userGoals array
 });
 
@@ -46,6 +48,7 @@ export const CreateOutcomeSchema = OutcomeSchema.omit({
   updatedAt: true,
 }).extend({
   quotes: z.array(z.string()).optional(),
+  quoteSourceIds: z.record(z.string(), z.string().uuid()).optional(), // Intake source per quote text (e.g. a survey response)
   personaIds: z.array(z.string().uuid()).optional(),
   userGoalIds: z.array(z.string().uuid()).optional(),
 });
@@ -54,6 +54,7 @@ export const CreatePersonaSchema = PersonaSchema.omit({
 }).extend({
   intakeSourceIds: z.array(z.string().uuid()).optional(),
   quotes: z.array(z.string()).optional(),
+  quoteSourceIds: z.record(z.string(), z.string().uuid()).optional(), // Intake source per quote text (e.g. a survey response)
   useCaseIds: z.array(z.string().uuid()).optional(),
   userGoalIds: z.array(z.string().uuid()).optional(),
 });
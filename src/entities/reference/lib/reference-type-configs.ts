@@ -3,7 +3,7 @@ import type { DiagramType } from '@/entities/diagram';
 import type { ContentType } from '../model/types';
 
 // =============================================================================
-// Canvas Reference Types (for BPMN diagrams - drop onto canvas to create shapes)
+// Canvas Reference Types (for BPMN diagrams and interface screens - drop onto canvas to create shapes)
 // =============================================================================
 
 /**
@@ -85,6 +85,26 @@ const referenceTypeConfigs: ReferenceTypeConfig[] = [
       isPreview: false,
     }),
   },
+
+  // Interface: Wireframe Screen -> Interface Link on flow diagrams
+  {
+    id: 'wireframe-screen-interface-link',
+    sourceShapeType: 'wireframe-container',
+    sourceShapeSubtype: 'screen',
+    supportedContentTypes: ['diagram'],
+    supportedDiagramTypes: ['bpmn', 'sequence', 'architecture', 'dataflow'],
+    createTargetShape: (label, dropX, dropY) => ({
+      type: 'interface-link',
+      x: dropX - 90, // Center the 180x56 card
+      y: dropY - 28,
+      width: 180,
+      height: 56,
+      label,
+      zIndex: 0,
+      locked: false,
+      isPreview: false,
+    }),
+  },
 ];
 
 /**
@@ -216,7 +236,7 @@ export function canShapeBeReferenceSource(
   shapeType: string,
   shapeSubtype?: string
 ): boolean {
-  // Check canvas reference configs (BPMN events)
+  // Check canvas reference configs (BPMN events, interface screens)
   if (getReferenceConfigForShape(shapeType, shapeSubtype) !== null) {
     return true;
   }
@@ -52,6 +52,7 @@ export const CreateRequirementSchema = z.object({
   type: RequirementTypeSchema,
   status: RequirementStatusSchema.optional().default('Todo'),
   quotes: z.array(z.string()).optional(),
+  quoteSourceIds: z.record(z.string(), z.string().uuid()).optional(), // Intake source per quote text (e.g. a survey response)
 });
 
 export type CreateRequirementDto = z.infer<typeof CreateRequirementSchema>;
@@ -66,4 +67,5 @@ export interface ExtractedRequirement {
   text: string;
   type: RequirementType;
   quotes?: string[];
+  quoteSourceIds?: Record<string, string>; // Intake source per quote text (e.g. a survey response)
 }
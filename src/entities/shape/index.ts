@@ -10,8 +10,15 @@ export {
   ShapeSchema,
   CreateShapeSchema,
   UpdateShapeSchema,
+  StrokeDashSchema,
+  FontWeightSchema,
+  TextAlignSchema,
+  ShapeStyleSchema,
 } from './model/types';
 
+// Constants
+export { ANNOTATION_OVERLAY_TAG } from './model/types';
+
 // Types
 export type {
   Point,
@@ -19,31 +26,60 @@ export type {
   Shape,
   CreateShapeDTO,
   UpdateShapeDTO,
+  StrokeDash,
+  FontWeight,
+  TextAlign,
+  ShapeStyle,
   ClassShapeData,
   EnumerationShapeData,
   EntityAttributeData,
   EntityShapeData,
   ActivationBox,
   SequenceLifelineData,
+  SequenceFragmentType,
+  SequenceFragmentOperand,
+  SequenceFragmentData,
+  WireframeFidelity,
+  WireframeShapeData,
   LLMGeneratorShapeData,
   LLMPreviewShapeData,
   MermaidEditorShapeData,
   SuggestionCommentShapeData,
+  AnnotationShapeData,
   BaseShape,
   RectangleShape,
   BpmnTaskShape,
   BpmnEventShape,
   BpmnGatewayShape,
+  BpmnPoolShape,
+  BpmnLaneShape,
   SequenceNoteShape,
   ArchitectureServiceShape,
   ArchitectureGroupShape,
+  DataflowEntityShape,
+  DataflowProcessShape,
+  DataflowStoreShape,
+  DataflowBoundaryShape,
+  InterfaceLinkShape,
+  WireframeContainerShape,
+  WireframeNavBarShape,
+  WireframeInputShape,
+  WireframeButtonShape,
+  WireframeTableShape,
+  WireframeImageShape,
+  WireframeTextShape,
   ClassShape,
   EnumerationShape,
   SequenceLifelineShape,
+  SequenceFragmentShape,
   LLMGeneratorShape,
   LLMPreviewShape,
   MermaidEditorShape,
   SuggestionCommentShape,
+  AnnotationNoteShape,
+  AnnotationTextShape,
+  AnnotationCalloutShape,
+  AnnotationInkShape,
   EntityShape,
   GenericShape,
   TypedShape,
@@ -56,10 +92,13 @@ export {
   isEntityAttributeData,
   isEntityShapeData,
   isSequenceLifelineData,
+  isSequenceFragmentData,
+  isWireframeShapeData,
   isLLMGeneratorShapeData,
   isLLMPreviewShapeData,
   isMermaidEditorShapeData,
   isSuggestionCommentShapeData,
+  isAnnotationShapeData,
 } from './model/types';
 
 // Type guards for shapes
@@ -67,10 +106,12 @@ export {
   isClassShape,
   isEnumerationShape,
   isSequenceLifelineShape,
+  isSequenceFragmentShape,
   isLLMGeneratorShape,
   isLLMPreviewShape,
   isMermaidEditorShape,
   isSuggestionCommentShape,
+  isAnnotationShape,
   isEntityShape,
 } from './model/types';
 
@@ -79,8 +120,10 @@ export {
   getClassShapeData,
   getEnumerationShapeData,
   getSequenceLifelineData,
+  getSequenceFragmentData,
   getLLMPreviewShapeData,
   getMermaidEditorShapeData,
   getSuggestionCommentShapeData,
+  getAnnotationShapeData,
   getEntityShapeData,
 } from './model/types';
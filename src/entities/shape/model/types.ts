@@ -16,6 +16,31 @@ export const SizeSchema = z.object({
 
 export type Size = z.infer<typeof SizeSchema>;
 
+// Dash pattern of a shape outline
+export const StrokeDashSchema = z.enum(['solid', 'dashed', 'dotted']);
+export type StrokeDash = z.infer<typeof StrokeDashSchema>;
+
+export const FontWeightSchema = z.enum(['normal', 'bold']);
+export type FontWeight = z.infer<typeof FontWeightSchema>;
+
+export const TextAlignSchema = z.enum(['left', 'center', 'right']);
+export type TextAlign = z.infer<typeof TextAlignSchema>;
+
+// Style overrides of a shape - unset properties keep the renderer's defaults
+// Colors are CSS colors (e.g., '#fde68a'); stroke width and font size are in pixels at 100% zoom
+export const ShapeStyleSchema = z.object({
+  fill: z.string().optional(),
+  strokeColor: z.string().optional(),
+  strokeWidth: z.number().positive().optional(),
+  strokeDash: StrokeDashSchema.optional(),
+  fontSize: z.number().positive().optional(),
+  fontWeight: FontWeightSchema.optional(),
+  textAlign: TextAlignSchema.optional(),
+  opacity: z.number().min(0).max(1).optional(),
+});
+
+export type ShapeStyle = z.infer<typeof ShapeStyleSchema>;
+
 // Shape entity - represents a shape on the canvas
 export const ShapeSchema = z.object({
   id: z.string(),
@@ -36,6 +61,8 @@ export const ShapeSchema = z.object({
   data: z.record(z.string(), z.unknown()).optional(),
   // Optional overlay tag for grouping shapes into show/hide layers (e.g., 'suggestion')
   overlayTag: z.string().optional(),
+  // Optional style overrides (fill, stroke, font, opacity)
+  appearance: ShapeStyleSchema.optional(),
 });
 
 export type Shape = z.infer<typeof ShapeSchema>;
@@ -160,6 +187,70 @@ export function isSequenceLifelineData(data: unknown): data is SequenceLifelineD
   );
 }
 
+// Sequence diagram combined fragment operator (UML interaction operator)
+export type SequenceFragmentType = 'alt' | 'opt' | 'loop' | 'par' | 'critical' | 'break';
+
+// Additional operand of a combined fragment (else / and / option branch)
+export interface SequenceFragmentOperand {
+  guard: string; // Guard condition shown in brackets next to the divider
+  offsetY: number; // Y-coordinate of the dashed divider (relative to fragment top)
+}
+
+// Sequence diagram combined fragment shape data (type: 'sequence-fragment')
+// The first operand's guard is stored in the shape label
+export interface SequenceFragmentData {
+  [key: string]: unknown; // Index signature for compatibility with Record<string, unknown>
+  fragmentType: SequenceFragmentType; // Interaction operator shown in the header tab
+  operands: SequenceFragmentOperand[]; // Operands after the first, ordered top to bottom
+}
+
+// Type guard for sequence fragment data
+export function isSequenceFragmentData(data: unknown): data is SequenceFragmentData {
+  if (!data || typeof data !== 'object') return false;
+  const d = data as Record<string, unknown>;
+  return (
+    (d.fragmentType === 'alt' ||
+      d.fragmentType === 'opt' ||
+      d.fragmentType === 'loop' ||
+      d.fragmentType === 'par' ||
+      d.fragmentType === 'critical' ||
+      d.fragmentType === 'break') &&
+    Array.isArray(d.operands) &&
+    d.operands.every(
+      (operand: unknown) =>
+        operand &&
+        typeof operand === 'object' &&
+        typeof (operand as SequenceFragmentOperand).guard === 'string' &&
+        typeof (operand as SequenceFragmentOperand).offsetY === 'number'
+    )
+  );
+}
+
+// Wireframe fidelity (matches the fidelity levels of the owning interface)
+export type WireframeFidelity = 'low' | 'medium' | 'high';
+
+// Interface wireframe primitive shape data (type: 'wireframe-*')
+export interface WireframeShapeData {
+  [key: string]: unknown; // Index signature for compatibility with Record<string, unknown>
+  fidelity: WireframeFidelity; // Level of visual detail the primitive is drawn with
+  columns?: number; // Table column count
+  rows?: number; // Table body row count
+  items?: string[]; // Nav bar link labels
+}
+
+// Type guard for wireframe shape data
+export function isWireframeShapeData(data: unknown): data is WireframeShapeData {
+  if (!data || typeof data !== 'object') return false;
+  const d = data as Record<string, unknown>;
+  return (
+    (d.fidelity === 'low' || d.fidelity === 'medium' || d.fidelity === 'high') &&
+    (d.columns === undefined || typeof d.columns === 'number') &&
+    (d.rows === undefined || typeof d.rows === 'number') &&
+    (d.items === undefined ||
+      (Array.isArray(d.items) && d.items.every((item) => typeof item === 'string')))
+  );
+}
+
 // LLM Generator shape data (type: 'llm-generator')
 export interface LLMGeneratorShapeData {
   [key: string]: unknown; // Index signature for compatibility with Record<string, unknown>
@@ -241,6 +332,40 @@ export function isSuggestionCommentShapeData(data: unknown): data is SuggestionC
   );
 }
 
+// Overlay tag shared by all free-form annotations (notes, text, callouts, ink)
+export const ANNOTATION_OVERLAY_TAG = 'annotation';
+
+// Free-form annotation shape data (type: 'annotation-note' | 'annotation-text' | 'annotation-callout' | 'annotation-ink')
+export interface AnnotationShapeData {
+  [key: string]: unknown; // Index signature for compatibility with Record<string, unknown>
+  author: string; // Display name of the user who created the annotation
+  authorId?: string; // ID of the user who created the annotation
+  createdAt: string; // ISO timestamp of creation
+  color?: string; // Note/ink color (CSS color or variable)
+  strokes?: Point[][]; // Ink strokes, relative to the shape bounds (0..1)
+  strokeWidth?: number; // Ink stroke width in canvas pixels
+}
+
+// Type guard for annotation shape data
+export function isAnnotationShapeData(data: unknown): data is AnnotationShapeData {
+  if (!data || typeof data !== 'object') return false;
+  const d = data as Record<string, unknown>;
+  return (
+    typeof d.author === 'string' &&
+    typeof d.createdAt === 'string' &&
+    (d.authorId === undefined || typeof d.authorId === 'string') &&
+    (d.color === undefined || typeof d.color === 'string') &&
+    (d.strokeWidth === undefined || typeof d.strokeWidth === 'number') &&
+    (d.strokes === undefined ||
+      (Array.isArray(d.strokes) &&
+       d.strokes.every(
+         (stroke) =>
+           Array.isArray(stroke) &&
+           stroke.every((point) => PointSchema.safeParse(point).success)
+       )))
+  );
+}
+
 // ============================================================================
 // DISCRIMINATED UNION TYPES FOR TYPE-SAFE SHAPE HANDLING
 // ============================================================================
@@ -283,6 +408,16 @@ export interface BpmnGatewayShape extends BaseShape {
   data?: Record<string, unknown>;
 }
 
+export interface BpmnPoolShape extends BaseShape {
+  type: 'bpmn-pool';
+  data?: Record<string, unknown>;
+}
+
+export interface BpmnLaneShape extends BaseShape {
+  type: 'bpmn-lane';
+  data?: Record<string, unknown>;
+}
+
 export interface SequenceNoteShape extends BaseShape {
   type: 'sequence-note';
   data?: Record<string, unknown>;
@@ -298,6 +433,32 @@ export interface ArchitectureGroupShape extends BaseShape {
   data?: Record<string, unknown>;
 }
 
+export interface DataflowEntityShape extends BaseShape {
+  type: 'dataflow-entity';
+  data?: Record<string, unknown>;
+}
+
+export interface DataflowProcessShape extends BaseShape {
+  type: 'dataflow-process';
+  data?: Record<string, unknown>;
+}
+
+export interface DataflowStoreShape extends BaseShape {
+  type: 'dataflow-store';
+  data?: Record<string, unknown>;
+}
+
+export interface DataflowBoundaryShape extends BaseShape {
+  type: 'dataflow-boundary';
+  data?: Record<string, unknown>;
+}
+
+// Placeholder shape created when an interface screen reference is dropped onto a diagram
+export interface InterfaceLinkShape extends BaseShape {
+  type: 'interface-link';
+  data?: Record<string, unknown>;
+}
+
 // Shapes WITH specialized data
 export interface ClassShape extends BaseShape {
   type: 'class';
@@ -314,6 +475,11 @@ export interface SequenceLifelineShape extends BaseShape {
   data: SequenceLifelineData;
 }
 
+export interface SequenceFragmentShape extends BaseShape {
+  type: 'sequence-fragment';
+  data: SequenceFragmentData;
+}
+
 export interface LLMGeneratorShape extends BaseShape {
   type: 'llm-generator';
   data?: LLMGeneratorShapeData;
@@ -334,11 +500,66 @@ export interface SuggestionCommentShape extends BaseShape {
   data: SuggestionCommentShapeData;
 }
 
+export interface AnnotationNoteShape extends BaseShape {
+  type: 'annotation-note';
+  data: AnnotationShapeData;
+}
+
+export interface AnnotationTextShape extends BaseShape {
+  type: 'annotation-text';
+  data: AnnotationShapeData;
+}
+
+export interface AnnotationCalloutShape extends BaseShape {
+  type: 'annotation-callout';
+  data: AnnotationShapeData;
+}
+
+export interface AnnotationInkShape extends BaseShape {
+  type: 'annotation-ink';
+  data: AnnotationShapeData;
+}
+
 export interface EntityShape extends BaseShape {
   type: 'entity';
   data: EntityShapeData;
 }
 
+export interface WireframeContainerShape extends BaseShape {
+  type: 'wireframe-container';
+  data?: WireframeShapeData;
+}
+
+export interface WireframeNavBarShape extends BaseShape {
+  type: 'wireframe-navbar';
+  data?: WireframeShapeData;
+}
+
+export interface WireframeInputShape extends BaseShape {
+  type: 'wireframe-input';
+  data?: WireframeShapeData;
+}
+
+export interface WireframeButtonShape extends BaseShape {
+  type: 'wireframe-button';
+  data?: WireframeShapeData;
+}
+
+export interface WireframeTableShape extends BaseShape {
+  type: 'wireframe-table';
+  data?: WireframeShapeData;
+}
+
+export interface WireframeImageShape extends BaseShape {
+  type: 'wireframe-image';
+  data?: WireframeShapeData;
+}
+
+export interface WireframeTextShape extends BaseShape {
+  type: 'wireframe-text';
+  data?: WireframeShapeData;
+}
+
 // Generic shape type for unknown/future shape types
 export interface GenericShape extends BaseShape {
   type: string;
@@ -351,16 +572,35 @@ export type TypedShape =
   | BpmnTaskShape
   | BpmnEventShape
   | BpmnGatewayShape
+  | BpmnPoolShape
+  | BpmnLaneShape
   | ClassShape
   | EnumerationShape
   | SequenceLifelineShape
   | SequenceNoteShape
+  | SequenceFragmentShape
   | ArchitectureServiceShape
   | ArchitectureGroupShape
+  | DataflowEntityShape
+  | DataflowProcessShape
+  | DataflowStoreShape
+  | DataflowBoundaryShape
+  | InterfaceLinkShape
+  | WireframeContainerShape
+  | WireframeNavBarShape
+  | WireframeInputShape
+  | WireframeButtonShape
+  | WireframeTableShape
+  | WireframeImageShape
+  | WireframeTextShape
   | LLMGeneratorShape
   | LLMPreviewShape
   | MermaidEditorShape
   | SuggestionCommentShape
+  | AnnotationNoteShape
+  | AnnotationTextShape
+  | AnnotationCalloutShape
+  | AnnotationInkShape
   | EntityShape;
 
 // ============================================================================
@@ -379,6 +619,10 @@ export function isSequenceLifelineShape(shape: Shape): shape is SequenceLifeline
   return shape.type === 'sequence-lifeline';
 }
 
+export function isSequenceFragmentShape(shape: Shape): shape is SequenceFragmentShape {
+  return shape.type === 'sequence-fragment';
+}
+
 export function isLLMGeneratorShape(shape: Shape): shape is LLMGeneratorShape {
   return shape.type === 'llm-generator';
 }
@@ -395,6 +639,12 @@ export function isSuggestionCommentShape(shape: Shape): shape is SuggestionComme
   return shape.type === 'suggestion-comment';
 }
 
+export function isAnnotationShape(
+  shape: Shape
+): shape is AnnotationNoteShape | AnnotationTextShape | AnnotationCalloutShape | AnnotationInkShape {
+  return shape.type.startsWith('annotation-');
+}
+
 export function isEntityShape(shape: Shape): shape is EntityShape {
   return shape.type === 'entity';
 }
@@ -433,6 +683,16 @@ export function getSequenceLifelineData(shape: Shape): SequenceLifelineData {
   return { lifelineStyle: 'solid', activations: [] };
 }
 
+/**
+ * Get sequence fragment data with proper typing. Returns default data if shape is not a sequence fragment.
+ */
+export function getSequenceFragmentData(shape: Shape): SequenceFragmentData {
+  if (isSequenceFragmentShape(shape)) {
+    return shape.data;
+  }
+  return { fragmentType: 'opt', operands: [] };
+}
+
 /**
  * Get LLM preview shape data. Returns undefined if shape is not an LLM preview shape.
  */
@@ -463,6 +723,16 @@ export function getSuggestionCommentShapeData(shape: Shape): SuggestionCommentSh
   return undefined;
 }
 
+/**
+ * Get annotation shape data. Returns undefined if shape is not an annotation shape.
+ */
+export function getAnnotationShapeData(shape: Shape): AnnotationShapeData | undefined {
+  if (isAnnotationShape(shape) && isAnnotationShapeData(shape.data)) {
+    return shape.data;
+  }
+  return undefined;
+}
+
 /**
  * Get entity shape data with proper typing. Returns default empty data if shape is not an entity shape.
  */
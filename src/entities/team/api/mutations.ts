@@ -2,7 +2,7 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { queryKeys } from '@/shared/lib/query';
 import { teamApi } from './teamApi';
-import type { CreateTeamDto } from '../model/types';
+import type { CreateTeamDto, TeamRedactionSettings } from '../model/types';
 
 /**
  * Mutation hook for creating a team
@@ -66,3 +66,21 @@ export function useDeleteTeam() {
     },
   });
 }
+
+/**
+ * Mutation hook for updating a team's PII redaction settings
+ */
+export function useUpdateTeamRedactionSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ teamId, settings }: { teamId: string; settings: TeamRedactionSettings }) =>
+      teamApi.updateRedactionSettings(teamId, settings),
+    onSuccess: (updatedSettings, variables) => {
+      queryClient.setQueryData(queryKeys.teams.redactionSettings(variables.teamId), updatedSettings);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update redaction settings');
+    },
+  });
+}
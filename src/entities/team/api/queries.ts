@@ -29,6 +29,19 @@ export function useTeamQuery(teamId: string | undefined) {
   });
 }
 
+/**
+ * Query hook for fetching a team's PII redaction settings
+ */
+export function useTeamRedactionSettingsQuery(teamId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.teams.redactionSettings(teamId!),
+    queryFn: () => teamApi.getRedactionSettings(teamId!),
+    enabled: !!teamId,
+    staleTime: STALE_TIMES.teams,
+    refetchOnWindowFocus: 'always',
+  });
+}
+
 /**
  * Prefetch teams for SSR
  */
@@ -50,3 +63,15 @@ export function prefetchTeam(teamId: string) {
     staleTime: STALE_TIMES.teams,
   };
 }
+
+/**
+ * Query options for a team's PII redaction settings
+ * Used to load the current settings right before content is checked for PII
+ */
+export function teamRedactionSettingsQuery(teamId: string) {
+  return {
+    queryKey: queryKeys.teams.redactionSettings(teamId),
+    queryFn: () => teamApi.getRedactionSettings(teamId),
+    staleTime: STALE_TIMES.teams,
+  };
+}
@@ -1,7 +1,37 @@
-import type { Team, CreateTeamDto } from '../model/types';
-import { createEntityApi } from '@/shared/api';
+import type { Team, CreateTeamDto, TeamRedactionSettings } from '../model/types';
+import { DEFAULT_REDACTION_SETTINGS } from '../model/types';
+import { createEntityApi, httpClient } from '@/shared/api';
 
-export const teamApi = createEntityApi<Team, CreateTeamDto>({
+type TeamApiExtensions = {
+  getRedactionSettings(teamId: string): Promise<TeamRedactionSettings>;
+  updateRedactionSettings(teamId: string, settings: TeamRedactionSettings): Promise<TeamRedactionSettings>;
+};
+
+/**
+ * Team API Client
+ * Uses createEntityApi factory with the team's redaction settings as an extension
+ */
+export const teamApi = createEntityApi<Team, CreateTeamDto, TeamApiExtensions>({
   endpoint: '/api/teams',
   parentParam: 'organizationId',
+  extensions: () => ({
+    async getRedactionSettings(teamId: string): Promise<TeamRedactionSettings> {
+      const data = await httpClient.get<Partial<TeamRedactionSettings> | null>(
+        `/api/teams/${teamId}/redaction-settings`
+      );
+      // Teams that never configured redaction get the defaults
+      return {
+        ...DEFAULT_REDACTION_SETTINGS,
+        ...data,
+        rules: { ...DEFAULT_REDACTION_SETTINGS.rules, ...data?.rules },
+      };
+    },
+
+    async updateRedactionSettings(
+      teamId: string,
+      settings: TeamRedactionSettings
+    ): Promise<TeamRedactionSettings> {
+      return httpClient.put<TeamRedactionSettings>(`/api/teams/${teamId}/redaction-settings`, settings);
+    },
+  }),
 });
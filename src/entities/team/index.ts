@@ -7,12 +7,21 @@ export {
   TeamSchema,
   CreateTeamSchema,
   UpdateTeamSchema,
+  RedactionCategorySchema,
+  RedactionRuleSchema,
+  RedactionDictionaryEntrySchema,
+  TeamRedactionSettingsSchema,
+  DEFAULT_REDACTION_SETTINGS,
 } from './model/types';
 
 export type {
   Team,
   CreateTeamDto,
   UpdateTeamDto,
+  RedactionCategory,
+  RedactionRule,
+  RedactionDictionaryEntry,
+  TeamRedactionSettings,
 } from './model/types';
 
 export { teamApi } from './api/teamApi';
@@ -20,6 +29,8 @@ export { teamApi } from './api/teamApi';
 export {
   useTeamsQuery,
   useTeamQuery,
+  useTeamRedactionSettingsQuery,
+  teamRedactionSettingsQuery,
   prefetchTeams,
   prefetchTeam,
 } from './api/queries';
@@ -28,4 +39,5 @@ export {
   useCreateTeam,
   useUpdateTeam,
   useDeleteTeam,
+  useUpdateTeamRedactionSettings,
 } from './api/mutations';
@@ -32,3 +32,36 @@ export type CreateTeamDto = z.infer<typeof CreateTeamSchema>;
 export const UpdateTeamSchema = TeamSchema.partial().required({ id: true });
 
 export type UpdateTeamDto = z.infer<typeof UpdateTeamSchema>;
+
+/**
+ * PII redaction settings of a team
+ * Shared by all members so dictionary terms protect every intake of the team
+ */
+export const RedactionCategorySchema = z.enum(['customer', 'company', 'email', 'phone', 'account']);
+
+export type RedactionCategory = z.infer<typeof RedactionCategorySchema>;
+
+export const RedactionRuleSchema = z.enum(['email', 'phone', 'account', 'speakerNames']);
+
+export type RedactionRule = z.infer<typeof RedactionRuleSchema>;
+
+export const RedactionDictionaryEntrySchema = z.object({
+  term: z.string().min(1).max(200),
+  category: RedactionCategorySchema,
+});
+
+export type RedactionDictionaryEntry = z.infer<typeof RedactionDictionaryEntrySchema>;
+
+export const TeamRedactionSettingsSchema = z.object({
+  enabled: z.boolean(),
+  rules: z.record(RedactionRuleSchema, z.boolean()),
+  dictionary: z.array(RedactionDictionaryEntrySchema),
+});
+
+export type TeamRedactionSettings = z.infer<typeof TeamRedactionSettingsSchema>;
+
+export const DEFAULT_REDACTION_SETTINGS: TeamRedactionSettings = {
+  enabled: true,
+  rules: { email: true, phone: true, account: true, speakerNames: true },
+  dictionary: [],
+};
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { ShapeSchema } from '@/entities/shape';
+import { ConnectorSchema } from '@/entities/connector';
 
 /**
  * UseCaseVersion domain model
@@ -31,6 +33,10 @@ export const DiagramSnapshotSchema = z.object({
   type: z.string(),
   order: z.number(),
   mermaidSyntax: z.string().nullable(),
+  // Diagram content at the time the version was cut (missing in versions cut before
+  // content was recorded)
+  shapes: z.array(ShapeSchema).optional(),
+  connectors: z.array(ConnectorSchema).optional(),
 });
 
 export type DiagramSnapshot = z.infer<typeof DiagramSnapshotSchema>;
@@ -49,6 +55,9 @@ export const InterfaceSnapshotSchema = z.object({
   name: z.string(),
   fidelity: z.string(),
   order: z.number(),
+  // Wireframe content at the time the version was cut
+  shapes: z.array(ShapeSchema).default([]),
+  connectors: z.array(ConnectorSchema).default([]),
 });
 
 export type InterfaceSnapshot = z.infer<typeof InterfaceSnapshotSchema>;
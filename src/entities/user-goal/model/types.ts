@@ -40,6 +40,7 @@ export const CreateUserGoalSchema = z.object({
   name: z.string().min(1, 'User goal name is required').max(200),
   description: z.string().max(2000).optional().default(''),
   quotes: z.array(z.string()).optional(),
+  quoteSourceIds: z.record(z.string(), z.string().uuid()).optional(), // Intake source per quote text (e.g. a survey response)
   personaIds: z.array(z.string().uuid()).optional(),
 });
 
@@ -4,6 +4,8 @@ import type { Diagram } from '@/entities/diagram';
 
 /**
  * Command to change a connector's type (and associated visual properties)
+ * Route points are only touched when the new data includes them (e.g. converted
+ * for a different routing style)
  * Stores the previous state for undo
  */
 export class ChangeConnectorTypeCommand implements Command {
@@ -31,6 +33,7 @@ export class ChangeConnectorTypeCommand implements Command {
         markerStart: currentConnector.markerStart,
         markerEnd: currentConnector.markerEnd,
         lineType: currentConnector.lineType,
+        ...('points' in this.newConnectorData && { points: currentConnector.points }),
       };
     }
 
@@ -44,6 +47,7 @@ export class ChangeConnectorTypeCommand implements Command {
       markerStart: this.newConnectorData.markerStart,
       markerEnd: this.newConnectorData.markerEnd,
       lineType: this.newConnectorData.lineType,
+      ...('points' in this.newConnectorData && { points: this.newConnectorData.points }),
     });
   }
 
@@ -0,0 +1,45 @@
+import type { Command } from '../../model/command.types';
+import type { Connector } from '@/entities/connector';
+import type { Diagram } from '@/entities/diagram';
+
+/**
+ * Routing of a connector: its style and the user-defined route points
+ */
+export type ConnectorRouting = Pick<Connector, 'style' | 'points'>;
+
+/**
+ * Command for editing the route of a connector
+ * Covers dragging waypoints, segments and control points, switching the routing
+ * style and resetting the connector to its automatic route.
+ */
+export class UpdateConnectorRoutingCommand implements Command {
+  constructor(
+    private readonly diagramId: string,
+    private readonly connectorId: string,
+    private readonly oldRouting: ConnectorRouting,
+    private readonly newRouting: ConnectorRouting,
+    public readonly description: string,
+    private readonly updateConnectorFn: (
+      diagramId: string,
+      connectorId: string,
+      updates: Partial<Connector>
+    ) => Promise<Diagram | null>,
+    private readonly updateLocalConnectorFn?: (
+      connectorId: string,
+      updates: Partial<Connector>
+    ) => void
+  ) {}
+
+  async execute(): Promise<void> {
+    await this.applyRouting(this.newRouting);
+  }
+
+  async undo(): Promise<void> {
+    await this.applyRouting(this.oldRouting);
+  }
+
+  private async applyRouting(routing: ConnectorRouting): Promise<void> {
+    await this.updateConnectorFn(this.diagramId, this.connectorId, routing);
+    this.updateLocalConnectorFn?.(this.connectorId, routing);
+  }
+}
@@ -110,6 +110,7 @@ export class ReplaceWithPreviewCommand implements Command {
     }
 
     // Second pass: update parent relationships using parentIndex
+    const childrenByParent = new Map<string, string[]>();
     for (let i = 0; i < importResult.shapes.length; i++) {
       const shapeRef = importResult.shapes[i];
       if (shapeRef.parentIndex !== undefined) {
@@ -118,10 +119,16 @@ export class ReplaceWithPreviewCommand implements Command {
         if (parentId && shapeId) {
           // Update the shape with its parent ID
           await this.updateShapeFn?.(this.diagramId, shapeId, { parentId });
+          childrenByParent.set(parentId, [...(childrenByParent.get(parentId) ?? []), shapeId]);
         }
       }
     }
 
+    // Record the children on their parents too (dragging and render order follow them)
+    for (const [parentId, children] of childrenByParent) {
+      await this.updateShapeFn?.(this.diagramId, parentId, { children });
+    }
+
     // Create all preview connectors using shape indices
     // Prepare all connector DTOs with actual shape IDs
     const connectorDTOs: CreateConnectorDTO[] = [];
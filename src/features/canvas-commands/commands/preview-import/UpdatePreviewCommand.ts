@@ -148,6 +148,7 @@ export class UpdatePreviewCommand implements Command {
     }
 
     // Second pass: update parent relationships using parentIndex
+    const childrenByParent = new Map<string, string[]>();
     for (let i = 0; i < importResult.shapes.length; i++) {
       const shapeRef = importResult.shapes[i];
       if (shapeRef.parentIndex !== undefined) {
@@ -156,10 +157,16 @@ export class UpdatePreviewCommand implements Command {
         if (parentId && shapeId) {
           // Update the shape with its parent ID
           await this.updateShapeFn?.(this.diagramId, shapeId, { parentId });
+          childrenByParent.set(parentId, [...(childrenByParent.get(parentId) ?? []), shapeId]);
         }
       }
     }
 
+    // Record the children on their parents too (dragging and render order follow them)
+    for (const [parentId, children] of childrenByParent) {
+      await this.updateShapeFn?.(this.diagramId, parentId, { children });
+    }
+
     // Create all preview connectors using shape indices
     const connectorDTOs: CreateConnectorDTO[] = [];
     for (const connectorRef of importResult.connectors) {
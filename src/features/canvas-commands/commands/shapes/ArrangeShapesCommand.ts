@@ -0,0 +1,106 @@
+import type { Command } from '../../model/command.types';
+import type { Connector } from '@/entities/connector';
+import type { Diagram } from '@/entities/diagram';
+import type { ShapeBoundsUpdate } from './ResizeShapesCommand';
+
+/**
+ * Geometry change applied by an arrangement
+ * Alignment and distribution move shapes; match size resizes them.
+ */
+export type ArrangeShapesChange =
+  | {
+      kind: 'move';
+      moves: Array<{
+        shapeId: string;
+        fromPosition: { x: number; y: number };
+        toPosition: { x: number; y: number };
+      }>;
+    }
+  | { kind: 'resize'; updates: ShapeBoundsUpdate[] };
+
+/**
+ * Connector routing captured before an arrangement so it can be restored on undo
+ */
+interface ConnectorRouting {
+  connectorId: string;
+  sourceConnectionPoint: Connector['sourceConnectionPoint'];
+  targetConnectionPoint: Connector['targetConnectionPoint'];
+  points: Connector['points'];
+}
+
+/**
+ * Command for arranging shapes (align, distribute, match size)
+ * Wraps a MoveEntitiesCommand or ResizeShapesCommand and re-routes the connectors
+ * attached to the affected shapes: pinned connection points and custom points are
+ * cleared so the connectors pick the closest connection points for the new layout.
+ * Everything is undone as a single operation.
+ */
+export class ArrangeShapesCommand implements Command {
+  private reroutedConnectors: ConnectorRouting[] = [];
+
+  constructor(
+    private readonly diagramId: string,
+    public readonly description: string,
+    private readonly shapeCommand: Command,
+    private readonly affectedShapeIds: Set<string>,
+    private readonly getDiagramFn: (diagramId: string) => Diagram | null,
+    private readonly updateConnectorFn: (
+      diagramId: string,
+      connectorId: string,
+      updates: Partial<Connector>
+    ) => Promise<Diagram | null>,
+    private readonly updateLocalConnectorFn?: (
+      connectorId: string,
+      updates: Partial<Connector>
+    ) => void
+  ) {}
+
+  async execute(): Promise<void> {
+    await this.shapeCommand.execute();
+
+    const diagram = this.getDiagramFn(this.diagramId);
+
+    // Sequence message connection points encode the message's vertical position, so they are kept
+    if (diagram?.type === 'sequence') {
+      return;
+    }
+
+    const affectedConnectors = (diagram?.connectors ?? []).filter(
+      (connector) =>
+        (this.affectedShapeIds.has(connector.sourceShapeId) ||
+          this.affectedShapeIds.has(connector.targetShapeId)) &&
+        (connector.sourceConnectionPoint !== undefined ||
+          connector.targetConnectionPoint !== undefined ||
+          connector.points !== undefined)
+    );
+
+    this.reroutedConnectors = affectedConnectors.map((connector) => ({
+      connectorId: connector.id,
+      sourceConnectionPoint: connector.sourceConnectionPoint,
+      targetConnectionPoint: connector.targetConnectionPoint,
+      points: connector.points,
+    }));
+
+    for (const { connectorId } of this.reroutedConnectors) {
+      await this.applyRouting(connectorId, {
+        sourceConnectionPoint: undefined,
+        targetConnectionPoint: undefined,
+        points: undefined,
+      });
+    }
+  }
+
+  async undo(): Promise<void> {
+    // Restore connector routing first, then the shape geometry
+    for (const { connectorId, ...routing } of this.reroutedConnectors) {
+      await this.applyRouting(connectorId, routing);
+    }
+
+    await this.shapeCommand.undo();
+  }
+
+  private async applyRouting(connectorId: string, updates: Partial<Connector>): Promise<void> {
+    await this.updateConnectorFn(this.diagramId, connectorId, updates);
+    this.updateLocalConnectorFn?.(connectorId, updates);
+  }
+}
@@ -0,0 +1,41 @@
+import type { Command } from '../../model/command.types';
+
+/**
+ * Command for dropping dragged shapes at their new position
+ * Wraps the MoveEntitiesCommand of the drag and the UpdateParentChildCommands
+ * of the shapes that were dropped into or dragged out of a container, so that
+ * moving and adopting/releasing shapes is undone as a single operation.
+ */
+export class DropShapesCommand implements Command {
+  public readonly description: string;
+
+  constructor(
+    private readonly moveCommand: Command,
+    private readonly parentChangeCommands: Command[]
+  ) {
+    if (parentChangeCommands.length === 0) {
+      this.description = moveCommand.description ?? 'Move shapes';
+    } else if (parentChangeCommands.length === 1) {
+      this.description = parentChangeCommands[0].description ?? 'Move shapes between containers';
+    } else {
+      this.description = 'Move shapes between containers';
+    }
+  }
+
+  async execute(): Promise<void> {
+    await this.moveCommand.execute();
+
+    for (const command of this.parentChangeCommands) {
+      await command.execute();
+    }
+  }
+
+  async undo(): Promise<void> {
+    // Restore parent-child relationships in reverse order, then the positions
+    for (const command of [...this.parentChangeCommands].reverse()) {
+      await command.undo();
+    }
+
+    await this.moveCommand.undo();
+  }
+}
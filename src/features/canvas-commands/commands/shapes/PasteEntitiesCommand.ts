@@ -0,0 +1,69 @@
+import type { Command } from '../../model/command.types';
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import type { Diagram } from '@/entities/diagram';
+
+/**
+ * Command to paste (or duplicate) shapes and connectors from the canvas clipboard
+ * Shapes and connectors arrive with their final IDs, so the whole paste is added
+ * and removed as a single undoable operation
+ */
+export class PasteEntitiesCommand implements Command {
+  public readonly description: string;
+
+  constructor(
+    private readonly diagramId: string,
+    private readonly shapes: Shape[],
+    private readonly connectors: Connector[],
+    private readonly restoreShapesBatchFn: (diagramId: string, shapes: Shape[]) => Promise<Diagram | null>,
+    private readonly deleteShapesBatchFn: (diagramId: string, shapeIds: string[]) => Promise<Diagram | null>,
+    private readonly restoreConnectorsBatchFn: (diagramId: string, connectors: Connector[]) => Promise<Diagram | null>,
+    private readonly deleteConnectorsBatchFn: (diagramId: string, connectorIds: string[]) => Promise<Diagram | null>
+  ) {
+    this.description = shapes.length === 1 ? 'Paste shape' : `Paste ${shapes.length} shapes`;
+  }
+
+  async execute(): Promise<void> {
+    // Shapes first so connectors never reference missing shapes
+    const diagramWithShapes = await this.restoreShapesBatchFn(this.diagramId, this.shapes);
+    if (!diagramWithShapes) {
+      throw new Error('Failed to paste shapes');
+    }
+
+    if (this.connectors.length > 0) {
+      const diagramWithConnectors = await this.restoreConnectorsBatchFn(this.diagramId, this.connectors);
+      if (!diagramWithConnectors) {
+        throw new Error('Failed to paste connectors');
+      }
+    }
+  }
+
+  async undo(): Promise<void> {
+    // Delete connectors first (to avoid orphaned connectors)
+    if (this.connectors.length > 0) {
+      await this.deleteConnectorsBatchFn(
+        this.diagramId,
+        this.connectors.map((connector) => connector.id)
+      );
+    }
+
+    await this.deleteShapesBatchFn(
+      this.diagramId,
+      this.shapes.map((shape) => shape.id)
+    );
+  }
+
+  /**
+   * Get the IDs of the pasted shapes
+   */
+  getPastedShapeIds(): string[] {
+    return this.shapes.map((shape) => shape.id);
+  }
+
+  /**
+   * Get the IDs of the pasted connectors
+   */
+  getPastedConnectorIds(): string[] {
+    return this.connectors.map((connector) => connector.id);
+  }
+}
@@ -0,0 +1,71 @@
+import type { Command } from '../../model/command.types';
+import type { Shape, ShapeStyle } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import type { Diagram } from '@/entities/diagram';
+
+/**
+ * Style of a connector: its style overrides and the dash pattern of its line
+ */
+export type ConnectorStyling = Pick<Connector, 'appearance' | 'lineType'>;
+
+/**
+ * A single style edit of a shape or connector
+ */
+export type StyleChange =
+  | { kind: 'shape'; shapeId: string; oldStyle: ShapeStyle | undefined; newStyle: ShapeStyle | undefined }
+  | { kind: 'connector'; connectorId: string; oldStyle: ConnectorStyling; newStyle: ConnectorStyling };
+
+/**
+ * Command for restyling shapes and connectors
+ * Used by the style inspector, style presets and the format painter, so styling
+ * a whole selection is undone as a single operation.
+ */
+export class UpdateStylesCommand implements Command {
+  constructor(
+    private readonly diagramId: string,
+    private readonly changes: StyleChange[],
+    public readonly description: string,
+    private readonly updateShapesFn: (
+      diagramId: string,
+      updates: Array<{ shapeId: string; updates: Partial<Shape> }>
+    ) => Promise<Diagram | null>,
+    private readonly updateConnectorFn: (
+      diagramId: string,
+      connectorId: string,
+      updates: Partial<Connector>
+    ) => Promise<Diagram | null>,
+    private readonly updateLocalShapeFn?: (shapeId: string, updates: Partial<Shape>) => void,
+    private readonly updateLocalConnectorFn?: (connectorId: string, updates: Partial<Connector>) => void
+  ) {}
+
+  async execute(): Promise<void> {
+    await this.applyStyles('newStyle');
+  }
+
+  async undo(): Promise<void> {
+    await this.applyStyles('oldStyle');
+  }
+
+  private async applyStyles(side: 'oldStyle' | 'newStyle'): Promise<void> {
+    const shapeUpdates: Array<{ shapeId: string; updates: Partial<Shape> }> = [];
+    for (const change of this.changes) {
+      if (change.kind === 'shape') {
+        shapeUpdates.push({ shapeId: change.shapeId, updates: { appearance: change[side] } });
+      }
+    }
+
+    if (shapeUpdates.length > 0) {
+      await this.updateShapesFn(this.diagramId, shapeUpdates);
+      for (const { shapeId, updates } of shapeUpdates) {
+        this.updateLocalShapeFn?.(shapeId, updates);
+      }
+    }
+
+    for (const change of this.changes) {
+      if (change.kind === 'connector') {
+        await this.updateConnectorFn(this.diagramId, change.connectorId, change[side]);
+        this.updateLocalConnectorFn?.(change.connectorId, change[side]);
+      }
+    }
+  }
+}
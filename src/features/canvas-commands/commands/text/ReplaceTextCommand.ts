@@ -0,0 +1,48 @@
+import type { Command } from '../../model/command.types';
+import type { EntityAttributeData } from '@/entities/shape';
+
+/**
+ * A single text edit made by find-and-replace
+ * Member edits address the member by its index in the shape's array.
+ */
+export type TextReplacement =
+  | { kind: 'shape-label'; shapeId: string; oldValue: string | undefined; newValue: string | undefined }
+  | { kind: 'connector-label'; connectorId: string; oldValue: string | undefined; newValue: string | undefined }
+  | {
+      kind: 'class-attribute' | 'class-method' | 'enumeration-literal';
+      shapeId: string;
+      index: number;
+      oldValue: string;
+      newValue: string;
+    }
+  | {
+      kind: 'entity-attribute';
+      shapeId: string;
+      index: number;
+      oldValue: EntityAttributeData;
+      newValue: EntityAttributeData;
+    };
+
+/**
+ * Command for replacing text across shapes and connectors (find-and-replace)
+ * Wraps one label/member update command per edited text and applies them in order;
+ * undo reverts them in reverse order, so a replace-all is undone as a single operation.
+ */
+export class ReplaceTextCommand implements Command {
+  constructor(
+    public readonly description: string,
+    private readonly commands: Command[]
+  ) {}
+
+  async execute(): Promise<void> {
+    for (const command of this.commands) {
+      await command.execute();
+    }
+  }
+
+  async undo(): Promise<void> {
+    for (const command of [...this.commands].reverse()) {
+      await command.undo();
+    }
+  }
+}
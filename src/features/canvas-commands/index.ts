@@ -23,6 +23,20 @@ export { UpdateShapeLabelCommand } from './commands/shapes/UpdateShapeLabelComma
 
 // Canvas commands - Connectors
 export { UpdateConnectorLabelCommand } from './commands/connectors/UpdateConnectorLabelCommand';
+export {
+  UpdateConnectorRoutingCommand,
+  type ConnectorRouting,
+} from './commands/connectors/UpdateConnectorRoutingCommand';
+
+// Canvas commands - Styles
+export {
+  UpdateStylesCommand,
+  type StyleChange,
+  type ConnectorStyling,
+} from './commands/styles/UpdateStylesCommand';
+
+// Canvas commands - Text
+export { ReplaceTextCommand, type TextReplacement } from './commands/text/ReplaceTextCommand';
 
 // Canvas commands - Sequence
 export { UpdateLifelineActivationsCommand } from './commands/sequence/UpdateLifelineActivationsCommand';
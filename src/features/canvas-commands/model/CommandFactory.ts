@@ -10,10 +10,15 @@ import { ChangeShapeSubtypeCommand, type ChangeShapeSubtypeData } from '../comma
 import { MoveShapeCommand } from '../commands/shapes/MoveShapeCommand';
 import { MoveEntitiesCommand } from '../commands/shapes/MoveEntitiesCommand';
 import { UpdateParentChildCommand } from '../commands/shapes/UpdateParentChildCommand';
+import { DropShapesCommand } from '../commands/shapes/DropShapesCommand';
 import { AddConnectorCommand } from '../commands/connectors/AddConnectorCommand';
 import { DeleteConnectorCommand } from '../commands/connectors/DeleteConnectorCommand';
 import { UpdateConnectorLabelCommand } from '../commands/connectors/UpdateConnectorLabelCommand';
 import { ChangeConnectorTypeCommand } from '../commands/connectors/ChangeConnectorTypeCommand';
+import {
+  UpdateConnectorRoutingCommand,
+  type ConnectorRouting,
+} from '../commands/connectors/UpdateConnectorRoutingCommand';
 // Generic member commands (class attributes/methods, enumeration literals)
 import { AddMemberCommand } from '../commands/members/AddMemberCommand';
 import { DeleteMemberCommand } from '../commands/members/DeleteMemberCommand';
@@ -34,6 +39,12 @@ import { UpdateLifelineHeightsCommand } from '../commands/sequence/UpdateLifelin
 import { ImportMermaidCommand } from '../commands/preview-import/ImportMermaidCommand';
 import type { ActivationBox } from '@/entities/shape';
 import { ResizeShapesCommand, type ShapeBoundsUpdate } from '../commands/shapes/ResizeShapesCommand';
+import { PasteEntitiesCommand } from '../commands/shapes/PasteEntitiesCommand';
+import { ArrangeShapesCommand, type ArrangeShapesChange } from '../commands/shapes/ArrangeShapesCommand';
+import { ReplaceTextCommand, type TextReplacement } from '../commands/text/ReplaceTextCommand';
+import { UpdateStylesCommand, type StyleChange } from '../commands/styles/UpdateStylesCommand';
+import { UpdateEntityAttributeCommand } from '../commands/entity-relationship/UpdateEntityAttributeCommand';
+import { getAllDescendantIds } from '@/widgets/canvas/lib/utils/containment-utils';
 
 /**
  * Command Factory - Centralized command creation with dependency injection
@@ -213,6 +224,27 @@ export class CommandFactory {
     );
   }
 
+  /**
+   * Create a drop command for dragged shapes
+   * The move and the adoption/release of shapes by containers undo as one step
+   */
+  createDropShapes(
+    diagramId: string,
+    moves: Array<{
+      shapeId: string;
+      fromPosition: { x: number; y: number };
+      toPosition: { x: number; y: number };
+    }>,
+    parentChanges: Array<{ shapeId: string; parentId: string | undefined }>
+  ): Command {
+    return new DropShapesCommand(
+      this.createMoveEntities(diagramId, moves),
+      parentChanges.map(({ shapeId, parentId }) =>
+        this.createUpdateParentChildCommand(diagramId, shapeId, parentId)
+      )
+    );
+  }
+
   createResizeShapes(
     diagramId: string,
     shapeUpdates: ShapeBoundsUpdate[]
@@ -226,6 +258,44 @@ export class CommandFactory {
     );
   }
 
+  /**
+   * Create an arrangement command (align, distribute, match size)
+   * The shape moves/resizes and the re-routing of attached connectors undo as one step
+   */
+  createArrangeShapes(
+    diagramId: string,
+    description: string,
+    change: ArrangeShapesChange
+  ): Command {
+    const shapeCommand =
+      change.kind === 'move'
+        ? this.createMoveEntities(diagramId, change.moves)
+        : this.createResizeShapes(diagramId, change.updates);
+
+    // Moved containers carry their descendants along, so their connectors are affected too
+    const diagram = this.deps.getDiagram(diagramId);
+    const affectedShapeIds = new Set<string>();
+    const shapeIds = change.kind === 'move'
+      ? change.moves.map((move) => move.shapeId)
+      : change.updates.map((update) => update.shapeId);
+    for (const shapeId of shapeIds) {
+      affectedShapeIds.add(shapeId);
+      if (change.kind === 'move' && diagram) {
+        getAllDescendantIds(shapeId, diagram.shapes).forEach((id) => affectedShapeIds.add(id));
+      }
+    }
+
+    return new ArrangeShapesCommand(
+      diagramId,
+      description,
+      shapeCommand,
+      affectedShapeIds,
+      this.deps.getDiagram,
+      this.deps._internalUpdateConnector,
+      this.deps.getUpdateLocalConnector?.(diagramId)
+    );
+  }
+
   // ============================================================================
   // Connector Commands
   // ============================================================================
@@ -266,6 +336,28 @@ export class CommandFactory {
     );
   }
 
+  /**
+   * Create a command that changes the routing style and/or route points of a connector
+   */
+  createUpdateConnectorRouting(
+    diagramId: string,
+    connectorId: string,
+    oldRouting: ConnectorRouting,
+    newRouting: ConnectorRouting,
+    description: string
+  ): Command {
+    const updateLocalConnector = this.deps.getUpdateLocalConnector?.(diagramId);
+    return new UpdateConnectorRoutingCommand(
+      diagramId,
+      connectorId,
+      oldRouting,
+      newRouting,
+      description,
+      this.deps._internalUpdateConnector,
+      updateLocalConnector
+    );
+  }
+
   createChangeConnectorType(
     diagramId: string,
     connectorId: string,
@@ -282,6 +374,31 @@ export class CommandFactory {
     );
   }
 
+  // ============================================================================
+  // Style Commands
+  // ============================================================================
+
+  /**
+   * Create a command that restyles shapes and connectors in one undoable step
+   */
+  createUpdateStyles(
+    diagramId: string,
+    changes: StyleChange[],
+    description: string
+  ): Command {
+    const updateLocalShape = this.deps.getUpdateLocalShape?.(diagramId);
+    const updateLocalConnector = this.deps.getUpdateLocalConnector?.(diagramId);
+    return new UpdateStylesCommand(
+      diagramId,
+      changes,
+      description,
+      this.deps._internalUpdateShapes,
+      this.deps._internalUpdateConnector,
+      updateLocalShape,
+      updateLocalConnector
+    );
+  }
+
   // ============================================================================
   // Class Diagram Commands
   // ============================================================================
@@ -536,6 +653,99 @@ export class CommandFactory {
     );
   }
 
+  /**
+   * Create a paste command for clipboard content
+   * Shapes and connectors must already carry their new IDs and positions
+   */
+  createPasteEntities(
+    diagramId: string,
+    shapes: Shape[],
+    connectors: Connector[]
+  ): Command {
+    return new PasteEntitiesCommand(
+      diagramId,
+      shapes,
+      connectors,
+      this.deps._internalRestoreShapesBatch,
+      this.deps._internalDeleteShapesBatch,
+      this.deps._internalRestoreConnectorsBatch,
+      this.deps._internalDeleteConnectorsBatch
+    );
+  }
+
+  /**
+   * Create a find-and-replace command
+   * Each edited label or member becomes its own update command; all of them undo as one step.
+   * getShapeFn must return the current shape, since several members of a shape may be edited in a row.
+   */
+  createReplaceText(
+    diagramId: string,
+    description: string,
+    replacements: TextReplacement[],
+    getShapeFn: (shapeId: string) => Shape | undefined
+  ): Command {
+    const commands = replacements.map((replacement): Command => {
+      switch (replacement.kind) {
+        case 'shape-label':
+          return this.createUpdateShapeLabel(
+            diagramId,
+            replacement.shapeId,
+            replacement.oldValue,
+            replacement.newValue
+          );
+        case 'connector-label':
+          return this.createUpdateConnectorLabel(
+            diagramId,
+            replacement.connectorId,
+            replacement.oldValue,
+            replacement.newValue
+          );
+        case 'class-attribute':
+          return this.createUpdateClassAttribute(
+            diagramId,
+            replacement.shapeId,
+            replacement.index,
+            replacement.oldValue,
+            replacement.newValue,
+            getShapeFn
+          );
+        case 'class-method':
+          return this.createUpdateClassMethod(
+            diagramId,
+            replacement.shapeId,
+            replacement.index,
+            replacement.oldValue,
+            replacement.newValue,
+            getShapeFn
+          );
+        case 'enumeration-literal':
+          return this.createUpdateEnumerationLiteral(
+            diagramId,
+            replacement.shapeId,
+            replacement.index,
+            replacement.oldValue,
+            replacement.newValue,
+            getShapeFn
+          );
+        case 'entity-attribute':
+          return new UpdateEntityAttributeCommand(
+            {
+              diagramId,
+              shapeId: replacement.shapeId,
+              updateShapeFn: this.deps._internalUpdateShape,
+              getShapeFn,
+              updateLocalShapeFn: this.deps.getUpdateLocalShape?.(diagramId),
+            },
+            replacement.index,
+            replacement.oldValue,
+            replacement.newValue
+          );
+      }
+    });
+
+    return new ReplaceTextCommand(description, commands);
+  }
+
   // ============================================================================
   // Sequence Diagram Commands
   // ============================================================================
@@ -1,10 +1,15 @@
 /**
- * Collaboration hub - presence event helpers and hub methods.
+ * Collaboration hub - presence and diagram co-editing event helpers and hub methods.
  * Connection management lives in @/shared/signalr.
  */
 import * as signalR from '@microsoft/signalr';
 import { getConnection } from '@/shared/signalr';
-import type { UserPresence, PresenceContext } from '../model/types';
+import type {
+  UserPresence,
+  PresenceContext,
+  DiagramOperationBatch,
+  CanvasPresence,
+} from '../model/types';
 
 function ensureConnection(): signalR.HubConnection {
   const connection = getConnection();
@@ -39,6 +44,23 @@ export function offPresenceUpdated(callback: (context: PresenceContext) => void)
   getConnection()?.off('OnPresenceUpdated', callback);
 }
 
+// Event subscription helpers - Diagram co-editing events
+export function onDiagramOperations(callback: (batch: DiagramOperationBatch) => void): void {
+  getConnection()?.on('OnDiagramOperations', callback);
+}
+
+export function offDiagramOperations(callback: (batch: DiagramOperationBatch) => void): void {
+  getConnection()?.off('OnDiagramOperations', callback);
+}
+
+export function onCanvasPresenceUpdated(callback: (presence: CanvasPresence) => void): void {
+  getConnection()?.on('OnCanvasPresenceUpdated', callback);
+}
+
+export function offCanvasPresenceUpdated(callback: (presence: CanvasPresence) => void): void {
+  getConnection()?.off('OnCanvasPresenceUpdated', callback);
+}
+
 // Hub method invocations - Presence
 export async function joinContext(contextType: string, contextId: string): Promise<void> {
   const connection = ensureConnection();
@@ -52,3 +74,17 @@ export async function leaveContext(contextType: string, contextId: string): Prom
   }
   await connection.invoke('LeaveContext', contextType, contextId);
 }
+
+// Hub method invocations - Diagram co-editing
+export async function broadcastDiagramOperations(batch: DiagramOperationBatch): Promise<void> {
+  const connection = ensureConnection();
+  await connection.invoke('BroadcastDiagramOperations', batch);
+}
+
+export async function updateCanvasPresence(presence: CanvasPresence): Promise<void> {
+  const connection = getConnection();
+  if (!connection || connection.state !== signalR.HubConnectionState.Connected) {
+    return; // Presence is best-effort; skip while disconnected
+  }
+  await connection.invoke('UpdateCanvasPresence', presence);
+}
@@ -3,12 +3,23 @@
  */
 
 // Types
-export type { UserPresence, PresenceContext, ConnectionState } from './model/types';
+export type {
+  UserPresence,
+  PresenceContext,
+  ConnectionState,
+  DiagramOperationBatch,
+  CanvasPresence,
+} from './model/types';
 export type { HubError } from './model/hubErrors';
 export { HubErrorCode, parseHubError, isHubErrorCode, getHubErrorMessage } from './model/hubErrors';
 
 // Store
 export { usePresenceStore } from './model/usePresenceStore';
+export { useCanvasPresenceStore } from './model/useCanvasPresenceStore';
+
+// Co-editing
+export { DiagramMergeState, type LocalChanges } from './model/diagramMerge';
+export { collaborationClientId } from './model/clientId';
 
 // Hub API
 export * as collaborationHub from './api/collaborationHub';
@@ -17,6 +28,9 @@ export * as collaborationHub from './api/collaborationHub';
 export { useCollaborationConnection } from './lib/useCollaborationConnection';
 export { useCollaborationEvents } from './lib/useCollaborationEvents';
 export { useJoinContext } from './lib/useJoinContext';
+export { useDiagramCoEditing } from './lib/useDiagramCoEditing';
+export { useCanvasPresence } from './lib/useCanvasPresence';
+export { getPresenceColor } from './lib/presenceColor';
 
 // Error handling
 export { handleHubError, type HubErrorHandlerOptions } from './lib/handleHubError';
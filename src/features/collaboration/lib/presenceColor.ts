@@ -0,0 +1,21 @@
+/**
+ * Consistent color for a collaborator's cursor and selection outlines
+ */
+const PRESENCE_COLORS = [
+  '#3b82f6',
+  '#22c55e',
+  '#a855f7',
+  '#f97316',
+  '#ec4899',
+  '#14b8a6',
+  '#6366f1',
+  '#ef4444',
+];
+
+export function getPresenceColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash << 5) - hash + userId.charCodeAt(i);
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+}
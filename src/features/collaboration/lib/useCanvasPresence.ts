@@ -0,0 +1,112 @@
+/**
+ * Hook to share this client's cursor and selection on a diagram canvas and to
+ * receive the cursors and selections of collaborators.
+ * Updates are sent at most every PRESENCE_INTERVAL_MS.
+ */
+import { useCallback, useEffect, useRef } from 'react';
+import { useAuthStore } from '@/shared/auth';
+import { usePresenceStore } from '../model/usePresenceStore';
+import { useCanvasPresenceStore } from '../model/useCanvasPresenceStore';
+import { collaborationClientId } from '../model/clientId';
+import type { CanvasPresence } from '../model/types';
+import * as collaborationHub from '../api/collaborationHub';
+
+const PRESENCE_INTERVAL_MS = 50;
+
+interface UseCanvasPresenceProps {
+  diagramId: string;
+  selectedShapeIds: string[];
+  selectedConnectorIds: string[];
+}
+
+interface UseCanvasPresenceReturn {
+  /** Report the cursor position in canvas coordinates (null when it leaves the canvas) */
+  reportCursor: (cursor: { x: number; y: number } | null) => void;
+}
+
+export function useCanvasPresence({
+  diagramId,
+  selectedShapeIds,
+  selectedConnectorIds,
+}: UseCanvasPresenceProps): UseCanvasPresenceReturn {
+  const connectionState = usePresenceStore((state) => state.connectionState);
+
+  const cursorRef = useRef<{ x: number; y: number } | null>(null);
+  const selectionRef = useRef({ selectedShapeIds, selectedConnectorIds });
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const sendPresence = useCallback(() => {
+    timerRef.current = null;
+    if (usePresenceStore.getState().connectionState !== 'connected') return;
+
+    const userInfo = useAuthStore.getState().userInfo;
+    const presence: CanvasPresence = {
+      diagramId,
+      clientId: collaborationClientId,
+      userId: userInfo?.userId ?? '',
+      name: userInfo?.name ?? '',
+      cursor: cursorRef.current,
+      ...selectionRef.current,
+    };
+    collaborationHub.updateCanvasPresence(presence).catch((error) => {
+      console.error('[CanvasPresence] Failed to update presence:', error);
+    });
+  }, [diagramId]);
+
+  // Throttle: the first change schedules a send, later ones ride along with it
+  const schedulePresence = useCallback(() => {
+    if (timerRef.current === null) {
+      timerRef.current = setTimeout(sendPresence, PRESENCE_INTERVAL_MS);
+    }
+  }, [sendPresence]);
+
+  const reportCursor = useCallback(
+    (cursor: { x: number; y: number } | null) => {
+      cursorRef.current = cursor;
+      schedulePresence();
+    },
+    [schedulePresence]
+  );
+
+  useEffect(() => {
+    selectionRef.current = { selectedShapeIds, selectedConnectorIds };
+    schedulePresence();
+  }, [selectedShapeIds, selectedConnectorIds, schedulePresence]);
+
+  useEffect(() => {
+    if (connectionState !== 'connected') return;
+
+    const { setPresence, removeUser, clearDiagram } = useCanvasPresenceStore.getState();
+
+    const handleCanvasPresenceUpdated = (presence: CanvasPresence) => {
+      if (presence.diagramId !== diagramId || presence.clientId === collaborationClientId) return;
+      setPresence(presence);
+    };
+
+    collaborationHub.onCanvasPresenceUpdated(handleCanvasPresenceUpdated);
+    collaborationHub.onUserLeft(removeUser);
+
+    // Show this client's selection to collaborators that are already editing
+    schedulePresence();
+
+    return () => {
+      collaborationHub.offCanvasPresenceUpdated(handleCanvasPresenceUpdated);
+      collaborationHub.offUserLeft(removeUser);
+      clearDiagram(diagramId);
+    };
+  }, [connectionState, diagramId, schedulePresence]);
+
+  // Hide this client's cursor and selection from collaborators when leaving
+  useEffect(() => {
+    return () => {
+      if (timerRef.current !== null) {
+        clearTimeout(timerRef.current);
+      }
+      cursorRef.current = null;
+      selectionRef.current = { selectedShapeIds: [], selectedConnectorIds: [] };
+      sendPresence();
+    };
+  }, [sendPresence]);
+
+  return { reportCursor };
+}
@@ -0,0 +1,99 @@
+/**
+ * Hook for real-time co-editing of a diagram
+ *
+ * Joins the diagram's collaboration context, broadcasts the shape/connector changes
+ * this client persists and merges the changes of collaborators into the diagram
+ * store and canvas (see DiagramMergeState for the merge rules).
+ *
+ * Undo/redo stays per client: remote changes never enter the local command history,
+ * and an undo/redo that would overwrite a collaborator's newer value of a field is
+ * corrected back to that value once the replay finishes. Deleting an entity (undoing
+ * its creation) is not corrected - collaborators' edits to it are deleted with it.
+ */
+import { useEffect } from 'react';
+import { useAuthStore } from '@/shared/auth';
+import { commandManager } from '@/shared/model/commands';
+import {
+  diagramApi,
+  subscribeToDiagramOperations,
+  useDiagramStore,
+  type DiagramOperation,
+} from '@/entities/diagram';
+import { usePresenceStore } from '../model/usePresenceStore';
+import { DiagramMergeState } from '../model/diagramMerge';
+import { collaborationClientId } from '../model/clientId';
+import type { DiagramOperationBatch } from '../model/types';
+import * as collaborationHub from '../api/collaborationHub';
+import { useJoinContext } from './useJoinContext';
+
+/**
+ * Persist corrections made after an undo/redo (the replay already saved the old values)
+ */
+async function persistCorrections(diagramId: string, corrections: DiagramOperation[]): Promise<void> {
+  for (const correction of corrections) {
+    if (correction.type === 'shape-update') {
+      await diagramApi.updateShape(diagramId, correction.shapeId, correction.updates);
+    } else if (correction.type === 'connector-update') {
+      await diagramApi.updateConnector(diagramId, correction.connectorId, correction.updates);
+    }
+  }
+}
+
+export function useDiagramCoEditing(diagramId: string) {
+  const connectionState = usePresenceStore((state) => state.connectionState);
+
+  useJoinContext('diagram', diagramId);
+
+  useEffect(() => {
+    if (connectionState !== 'connected') return;
+
+    const mergeState = new DiagramMergeState(collaborationClientId);
+    const pendingCorrections: DiagramOperation[] = [];
+
+    const handleDiagramOperations = (batch: DiagramOperationBatch) => {
+      if (batch.diagramId !== diagramId || batch.clientId === collaborationClientId) return;
+
+      const operations = mergeState.mergeRemote(batch);
+      useDiagramStore.getState()._internalApplyRemoteOperations(diagramId, operations);
+    };
+
+    const unsubscribe = subscribeToDiagramOperations((changedDiagramId, operations, origin) => {
+      if (changedDiagramId !== diagramId) return;
+
+      const changes = mergeState.stampLocal(operations, origin !== 'edit');
+      pendingCorrections.push(...changes.corrections);
+      if (changes.operations.length === 0) return;
+
+      collaborationHub
+        .broadcastDiagramOperations({
+          diagramId,
+          clientId: collaborationClientId,
+          userId: useAuthStore.getState().userInfo?.userId ?? '',
+          clock: changes.clock,
+          operations: changes.operations,
+        })
+        .catch((error) => {
+          console.error('[DiagramCoEditing] Failed to broadcast changes:', error);
+        });
+    });
+
+    // Apply corrections after the replay, once the commands have updated the canvas
+    const removeReplayListener = commandManager.addReplayListener((scope) => {
+      if (scope !== diagramId || pendingCorrections.length === 0) return;
+
+      const corrections = pendingCorrections.splice(0);
+      useDiagramStore.getState()._internalApplyRemoteOperations(diagramId, corrections);
+      persistCorrections(diagramId, corrections).catch((error) => {
+        console.error('[DiagramCoEditing] Failed to save corrections:', error);
+      });
+    });
+
+    collaborationHub.onDiagramOperations(handleDiagramOperations);
+
+    return () => {
+      collaborationHub.offDiagramOperations(handleDiagramOperations);
+      unsubscribe();
+      removeReplayListener();
+    };
+  }, [connectionState, diagramId]);
+}
@@ -0,0 +1,6 @@
+/**
+ * Identifies this browser tab in collaborative editing.
+ * A user can edit the same diagram from several tabs, so changes and cursors are
+ * told apart by client rather than by user.
+ */
+export const collaborationClientId = crypto.randomUUID();
@@ -0,0 +1,219 @@
+/**
+ * Deterministic merging of concurrent diagram changes.
+ *
+ * Every client keeps a hybrid logical clock (a Lamport clock that never falls behind
+ * wall time, so a client that just joined does not lose to everyone else) and stamps
+ * each entity field it writes with (clock, clientId). A change only applies when its
+ * stamp is newer than the stamp already recorded for that field - later clock first,
+ * client id as tie-breaker - so all clients settle on the same value whatever order
+ * the changes arrive in (last writer wins, per field). Entity existence is stamped the same way, so a
+ * delete is not revived by an older update and a restore beats an older delete.
+ */
+import type { DiagramOperation } from '@/entities/diagram';
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import type { DiagramOperationBatch } from './types';
+
+interface Stamp {
+  clock: number;
+  clientId: string;
+}
+
+interface FieldStamp extends Stamp {
+  value: unknown;
+}
+
+interface ExistenceStamp extends Stamp {
+  exists: boolean;
+}
+
+export interface LocalChanges {
+  /** Clock to send the changes with */
+  clock: number;
+  /** Changes to broadcast */
+  operations: DiagramOperation[];
+  /** Changes restoring collaborators' values an undo/redo overwrote */
+  corrections: DiagramOperation[];
+}
+
+function isNewer(a: Stamp, b: Stamp | undefined): boolean {
+  if (!b) return true;
+  return a.clock > b.clock || (a.clock === b.clock && a.clientId > b.clientId);
+}
+
+type EntityKind = 'shape' | 'connector';
+
+function getEntityKey(kind: EntityKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+export class DiagramMergeState {
+  private clock = 0;
+  private readonly fields = new Map<string, FieldStamp>();
+  private readonly existence = new Map<string, ExistenceStamp>();
+
+  constructor(private readonly clientId: string) {}
+
+  /**
+   * Stamp changes made by this client
+   *
+   * Undo/redo replays the values this client had before, which would overwrite
+   * newer changes of collaborators. When replaying, fields last written by another
+   * client are left out of the broadcast and returned as corrections instead, so
+   * undo only reverts this client's own work.
+   *
+   * @param operations - Changes made by this client
+   * @param isReplay - Whether the changes come from an undo/redo
+   */
+  stampLocal(operations: DiagramOperation[], isReplay: boolean): LocalChanges {
+    this.clock = Math.max(this.clock + 1, Date.now());
+    const stamp = { clock: this.clock, clientId: this.clientId };
+    const accepted: DiagramOperation[] = [];
+    const corrections: DiagramOperation[] = [];
+
+    for (const operation of operations) {
+      if (isReplay && (operation.type === 'shape-update' || operation.type === 'connector-update')) {
+        const { kind, id } = this.getTarget(operation);
+        const own: Record<string, unknown> = {};
+        const theirs: Record<string, unknown> = {};
+        for (const [field, value] of Object.entries(operation.updates)) {
+          const current = this.fields.get(`${getEntityKey(kind, id)}.${field}`);
+          if (current && current.clientId !== this.clientId) {
+            theirs[field] = current.value;
+          } else {
+            own[field] = value;
+          }
+        }
+
+        if (Object.keys(theirs).length > 0) {
+          corrections.push(this.createUpdate(kind, id, theirs));
+        }
+        if (Object.keys(own).length === 0) continue;
+
+        const ownOperation = this.createUpdate(kind, id, own);
+        this.record(ownOperation, stamp);
+        accepted.push(ownOperation);
+        continue;
+      }
+
+      this.record(operation, stamp);
+      accepted.push(operation);
+    }
+
+    return { clock: this.clock, operations: accepted, corrections };
+  }
+
+  /**
+   * Merge changes received from another client
+   *
+   * @returns The parts of the changes that win over the known state, ready to apply
+   */
+  mergeRemote(batch: DiagramOperationBatch): DiagramOperation[] {
+    this.clock = Math.max(this.clock, batch.clock);
+    const stamp = { clock: batch.clock, clientId: batch.clientId };
+    const accepted: DiagramOperation[] = [];
+
+    for (const operation of batch.operations) {
+      const { kind, id } = this.getTarget(operation);
+      const entityKey = getEntityKey(kind, id);
+
+      switch (operation.type) {
+        case 'shape-delete':
+        case 'connector-delete':
+          if (!isNewer(stamp, this.existence.get(entityKey))) continue;
+          this.record(operation, stamp);
+          accepted.push(operation);
+          break;
+
+        case 'shape-upsert':
+        case 'connector-upsert': {
+          if (!isNewer(stamp, this.existence.get(entityKey))) continue;
+          // Keep fields that were written after this version of the entity
+          const entity: Record<string, unknown> = {
+            ...(operation.type === 'shape-upsert' ? operation.shape : operation.connector),
+          };
+          for (const field of Object.keys(entity)) {
+            const current = this.fields.get(`${entityKey}.${field}`);
+            if (current && !isNewer(stamp, current)) {
+              entity[field] = current.value;
+            }
+          }
+          const merged: DiagramOperation =
+            operation.type === 'shape-upsert'
+              ? { type: 'shape-upsert', shape: entity as unknown as Shape }
+              : { type: 'connector-upsert', connector: entity as unknown as Connector };
+          this.record(merged, stamp);
+          accepted.push(merged);
+          break;
+        }
+
+        case 'shape-update':
+        case 'connector-update': {
+          const existence = this.existence.get(entityKey);
+          if (existence && !existence.exists && !isNewer(stamp, existence)) continue;
+          const winning: Record<string, unknown> = {};
+          for (const [field, value] of Object.entries(operation.updates)) {
+            if (isNewer(stamp, this.fields.get(`${entityKey}.${field}`))) {
+              winning[field] = value;
+            }
+          }
+          if (Object.keys(winning).length === 0) continue;
+          const merged = this.createUpdate(kind, id, winning);
+          this.record(merged, stamp);
+          accepted.push(merged);
+          break;
+        }
+      }
+    }
+
+    return accepted;
+  }
+
+  private getTarget(operation: DiagramOperation): { kind: EntityKind; id: string } {
+    switch (operation.type) {
+      case 'shape-upsert':
+        return { kind: 'shape', id: operation.shape.id };
+      case 'shape-update':
+      case 'shape-delete':
+        return { kind: 'shape', id: operation.shapeId };
+      case 'connector-upsert':
+        return { kind: 'connector', id: operation.connector.id };
+      case 'connector-update':
+      case 'connector-delete':
+        return { kind: 'connector', id: operation.connectorId };
+    }
+  }
+
+  private createUpdate(kind: EntityKind, id: string, updates: Record<string, unknown>): DiagramOperation {
+    return kind === 'shape'
+      ? { type: 'shape-update', shapeId: id, updates: updates as Partial<Shape> }
+      : { type: 'connector-update', connectorId: id, updates: updates as Partial<Connector> };
+  }
+
+  private record(operation: DiagramOperation, stamp: Stamp): void {
+    const { kind, id } = this.getTarget(operation);
+    const entityKey = getEntityKey(kind, id);
+
+    switch (operation.type) {
+      case 'shape-delete':
+      case 'connector-delete':
+        this.existence.set(entityKey, { ...stamp, exists: false });
+        break;
+      case 'shape-upsert':
+      case 'connector-upsert': {
+        this.existence.set(entityKey, { ...stamp, exists: true });
+        const entity = operation.type === 'shape-upsert' ? operation.shape : operation.connector;
+        for (const [field, value] of Object.entries(entity)) {
+          this.fields.set(`${entityKey}.${field}`, { ...stamp, value });
+        }
+        break;
+      }
+      case 'shape-update':
+      case 'connector-update':
+        for (const [field, value] of Object.entries(operation.updates)) {
+          this.fields.set(`${entityKey}.${field}`, { ...stamp, value });
+        }
+        break;
+    }
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * Collaboration types - mirrors backend DTOs from CollaborationHub
  */
+import type { DiagramOperation } from '@/entities/diagram';
 
 export interface UserPresence {
   userId: string;
@@ -15,4 +16,32 @@ export interface PresenceContext {
   users: UserPresence[];
 }
 
+/**
+ * Shape/connector changes made by one client, relayed to the other clients
+ * editing the same diagram
+ */
+export interface DiagramOperationBatch {
+  diagramId: string;
+  /** Browser tab that made the changes (one user may edit in several tabs) */
+  clientId: string;
+  userId: string;
+  /** Lamport clock of the sending client, used to order concurrent changes */
+  clock: number;
+  operations: DiagramOperation[];
+}
+
+/**
+ * Cursor and selection of a client on a diagram canvas
+ */
+export interface CanvasPresence {
+  diagramId: string;
+  clientId: string;
+  userId: string;
+  name: string;
+  /** Cursor position in canvas coordinates (null when outside the canvas) */
+  cursor: { x: number; y: number } | null;
+  selectedShapeIds: string[];
+  selectedConnectorIds: string[];
+}
+
 export type { ConnectionState } from '@/shared/signalr';
@@ -0,0 +1,47 @@
+/**
+ * Zustand store for collaborators' cursors and selections on diagram canvases
+ */
+import { create } from 'zustand';
+import type { CanvasPresence } from './types';
+
+interface CanvasPresenceState {
+  // Presences by diagram ID, then client ID
+  presenceByDiagram: Record<string, Record<string, CanvasPresence>>;
+
+  // Actions
+  setPresence: (presence: CanvasPresence) => void;
+  removeUser: (userId: string) => void;
+  clearDiagram: (diagramId: string) => void;
+}
+
+export const useCanvasPresenceStore = create<CanvasPresenceState>((set) => ({
+  presenceByDiagram: {},
+
+  setPresence: (presence) =>
+    set((state) => ({
+      presenceByDiagram: {
+        ...state.presenceByDiagram,
+        [presence.diagramId]: {
+          ...state.presenceByDiagram[presence.diagramId],
+          [presence.clientId]: presence,
+        },
+      },
+    })),
+
+  removeUser: (userId) =>
+    set((state) => {
+      const presenceByDiagram: Record<string, Record<string, CanvasPresence>> = {};
+      for (const [diagramId, presences] of Object.entries(state.presenceByDiagram)) {
+        presenceByDiagram[diagramId] = Object.fromEntries(
+          Object.entries(presences).filter(([, presence]) => presence.userId !== userId)
+        );
+      }
+      return { presenceByDiagram };
+    }),
+
+  clearDiagram: (diagramId) =>
+    set((state) => {
+      const { [diagramId]: _removed, ...presenceByDiagram } = state.presenceByDiagram;
+      return { presenceByDiagram };
+    }),
+}));
@@ -29,11 +29,20 @@ export { useCanvasReferenceDrop } from './lib/useCanvasReferenceDrop';
 
 // Diagram sync
 export { useMermaidSync } from './lib/useMermaidSync';
+export { useDiagramSync, type UseDiagramSyncReturn } from './lib/useDiagramSync';
+
+// Diagram history
+export {
+  useDiagramHistory,
+  type DiagramHistorySnapshot,
+  type UseDiagramHistoryReturn,
+} from './lib/useDiagramHistory';
 
 // Stores
 export { useMermaidViewerStore } from './model/stores/mermaidViewerStore';
 export { useOverlayVisibilityStore, isOverlayElementVisible } from './model/stores/overlayVisibilityStore';
+export { useDiagramHistoryStore, type DiagramComparison } from './model/stores/diagramHistoryStore';
 
 // UI components
-export { CreateDiagramModal, LinkUseCaseModal } from './ui';
+export { CreateDiagramModal, LinkUseCaseModal, DiagramSyncIndicator, DiagramHistoryPanel } from './ui';
 export type { CreateDiagramFormData, CreateDiagramModalProps, LinkUseCaseFormData, LinkUseCaseModalProps } from './ui';
@@ -3,6 +3,7 @@ import { useDiagram, useDiagramCRUD } from '@/features/diagram-management';
 import { useReferenceStore } from '@/entities/reference/store/useReferenceStore';
 import { getReferenceConfigForShape, canReferenceBeDroppedInContent } from '@/entities/reference';
 import { useDiagramStore } from '@/entities/diagram/store/useDiagramStore';
+import { useInterfaceStore } from '@/entities/interface/store/useInterfaceStore';
 
 /**
  * Hook for handling reference drops onto the canvas
@@ -106,13 +107,15 @@ export function useCanvasReferenceDrop(
           containerRect
         );
 
-        // Get the source diagram name for the label
-        const diagrams = useDiagramStore.getState().diagrams;
-        const sourceDiagram = diagrams[reference.contentId];
-        const sourceDiagramName = sourceDiagram?.name || 'Unknown';
+        // Get the source content name for the label (diagram or interface)
+        const sourceName =
+          reference.contentType === 'interface'
+            ? useInterfaceStore.getState().interfaces[reference.contentId]?.name
+            : useDiagramStore.getState().diagrams[reference.contentId]?.name;
+        const sourceContentName = sourceName || 'Unknown';
 
-        // Create label in format "Reference_Text From Diagram_Name"
-        const label = `${reference.name} from ${sourceDiagramName}`;
+        // Create label in format "Reference_Text From Content_Name"
+        const label = `${reference.name} from ${sourceContentName}`;
 
         // Create target shape using reference config
         const targetShape = referenceConfig.createTargetShape(
@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { diagramApi, type Diagram } from '@/entities/diagram';
+import { useDiagramStore } from '@/entities/diagram/store/useDiagramStore';
+import { useDesignWorkStore } from '@/entities/design-work/store/useDesignWorkStore';
+import { useCaseVersionApi, formatVersionDisplay } from '@/entities/use-case-version';
+import { toast } from '@/shared/lib/utils';
+import { useDiagramHistoryStore, type DiagramComparison } from '../model/stores/diagramHistoryStore';
+
+type DiagramContent = Pick<Diagram, 'shapes' | 'connectors'>;
+
+/**
+ * Entry of the diagram history: a use case version cut or an autosave checkpoint
+ */
+export interface DiagramHistorySnapshot {
+  id: string;
+  kind: 'version' | 'checkpoint';
+  label: string;
+  createdAt: Date;
+}
+
+export interface UseDiagramHistoryReturn {
+  /** Snapshots, newest first */
+  snapshots: DiagramHistorySnapshot[];
+  loading: boolean;
+  error: string | null;
+  /** Snapshot whose content is being loaded */
+  pendingSnapshotId: string | null;
+  /** Snapshot shown as a visual diff on the canvas */
+  comparison: DiagramComparison | null;
+  /** Show the changes since a snapshot on the canvas (toggles off for the compared snapshot) */
+  compare: (snapshot: DiagramHistorySnapshot) => Promise<void>;
+  /** Replace the current content with the content of a snapshot */
+  restore: (snapshot: DiagramHistorySnapshot) => Promise<void>;
+  refresh: () => void;
+}
+
+/**
+ * Find the use case a design work belongs to (set on the root design work)
+ */
+function findUseCaseId(designWorkId: string | undefined): string | undefined {
+  const { designWorks } = useDesignWorkStore.getState();
+  let designWork = designWorks.find((dw) => dw.id === designWorkId);
+  while (designWork && !designWork.useCaseId && designWork.parentDesignWorkId) {
+    const parentId = designWork.parentDesignWorkId;
+    designWork = designWorks.find((dw) => dw.id === parentId);
+  }
+  return designWork?.useCaseId;
+}
+
+/**
+ * Hook for the history of a diagram's shapes and connectors
+ *
+ * Lists the versions cut from the diagram's use case together with the autosave
+ * checkpoints kept on this device, and compares or restores their content.
+ * Version content is loaded on demand and cached.
+ *
+ * @param enabled - Load the snapshot list (e.g. while the history panel is open)
+ */
+export function useDiagramHistory(diagramId: string, enabled: boolean): UseDiagramHistoryReturn {
+  const designWorkId = useDiagramStore((state) => state.diagrams[diagramId]?.designWorkId);
+  const comparison = useDiagramHistoryStore((state) => state.comparison);
+  const setComparison = useDiagramHistoryStore((state) => state.setComparison);
+
+  const [snapshots, setSnapshots] = useState<DiagramHistorySnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingSnapshotId, setPendingSnapshotId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Content of listed snapshots by diagram and snapshot ID (a version holds all diagrams
+  // of the use case): checkpoints on listing, versions once loaded
+  const contentCache = useRef(new Map<string, DiagramContent>());
+  const useCaseIdRef = useRef<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const useCaseId = findUseCaseId(designWorkId);
+        const [checkpoints, versions] = await Promise.all([
+          diagramApi.listCheckpoints(diagramId),
+          useCaseId ? useCaseVersionApi.list(useCaseId) : Promise.resolve([]),
+        ]);
+        if (cancelled) return;
+
+        useCaseIdRef.current = useCaseId;
+        checkpoints.forEach((checkpoint) =>
+          contentCache.current.set(`${diagramId}:${checkpoint.id}`, checkpoint)
+        );
+
+        const entries: DiagramHistorySnapshot[] = [
+          ...versions.map((version) => ({
+            id: version.id,
+            kind: 'version' as const,
+            label: formatVersionDisplay(version),
+            createdAt: new Date(version.createdAt),
+          })),
+          ...checkpoints.map((checkpoint) => ({
+            id: checkpoint.id,
+            kind: 'checkpoint' as const,
+            label: 'Autosave',
+            createdAt: checkpoint.createdAt,
+          })),
+        ];
+        setSnapshots(entries.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load diagram history');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [diagramId, designWorkId, enabled, reloadKey]);
+
+  const loadContent = useCallback(
+    async (snapshot: DiagramHistorySnapshot): Promise<DiagramContent> => {
+      const cacheKey = `${diagramId}:${snapshot.id}`;
+      const cached = contentCache.current.get(cacheKey);
+      if (cached) return cached;
+
+      const useCaseId = useCaseIdRef.current;
+      if (snapshot.kind !== 'version' || !useCaseId) {
+        throw new Error('Snapshot not found');
+      }
+
+      const detail = await useCaseVersionApi.getWithSnapshot(useCaseId, snapshot.id);
+      const diagramSnapshot = detail.snapshot.designWorks
+        .flatMap((designWork) => designWork.diagrams)
+        .find((diagram) => diagram.originalId === diagramId);
+      if (!diagramSnapshot) {
+        throw new Error('This diagram is not part of the version');
+      }
+      if (!diagramSnapshot.shapes) {
+        throw new Error('This version has no recorded shapes for the diagram');
+      }
+
+      const content = {
+        shapes: diagramSnapshot.shapes,
+        connectors: diagramSnapshot.connectors ?? [],
+      };
+      contentCache.current.set(cacheKey, content);
+      return content;
+    },
+    [diagramId]
+  );
+
+  const withContent = useCallback(
+    async (snapshot: DiagramHistorySnapshot, run: (content: DiagramContent) => Promise<void> | void) => {
+      setPendingSnapshotId(snapshot.id);
+      try {
+        await run(await loadContent(snapshot));
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to load snapshot');
+      } finally {
+        setPendingSnapshotId(null);
+      }
+    },
+    [loadContent]
+  );
+
+  const compare = useCallback(
+    async (snapshot: DiagramHistorySnapshot) => {
+      if (comparison?.diagramId === diagramId && comparison.snapshotId === snapshot.id) {
+        setComparison(null);
+        return;
+      }
+      await withContent(snapshot, (content) => {
+        setComparison({ diagramId, snapshotId: snapshot.id, label: snapshot.label, content });
+      });
+    },
+    [comparison, diagramId, setComparison, withContent]
+  );
+
+  const restore = useCallback(
+    async (snapshot: DiagramHistorySnapshot) => {
+      await withContent(snapshot, async (content) => {
+        await useDiagramStore.getState()._internalRestoreContent(diagramId, content);
+        setComparison(null);
+        toast.success(`Restored ${snapshot.label}`);
+        // Restoring records a checkpoint of the replaced content
+        setReloadKey((key) => key + 1);
+      });
+    },
+    [diagramId, setComparison, withContent]
+  );
+
+  const refresh = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  const diagramComparison = useMemo(
+    () => (comparison?.diagramId === diagramId ? comparison : null),
+    [comparison, diagramId]
+  );
+
+  return {
+    snapshots,
+    loading,
+    error,
+    pendingSnapshotId,
+    comparison: diagramComparison,
+    compare,
+    restore,
+    refresh,
+  };
+}
@@ -0,0 +1,31 @@
+import { useCallback } from 'react';
+import { diagramApi, useDiagramSyncState, type DiagramSyncState } from '@/entities/diagram';
+import { useDiagramStore } from '@/entities/diagram/store/useDiagramStore';
+
+export interface UseDiagramSyncReturn extends DiagramSyncState {
+  /** Save the local edits over the conflicting server changes */
+  keepLocalChanges: () => void;
+  /** Discard the local edits and load the server version */
+  discardLocalChanges: () => void;
+}
+
+/**
+ * Hook for the save state of a diagram's shapes and connectors
+ * Exposes the sync queue status and the conflict resolution actions.
+ */
+export function useDiagramSync(diagramId: string): UseDiagramSyncReturn {
+  const syncState = useDiagramSyncState(diagramId);
+
+  const keepLocalChanges = useCallback(() => {
+    diagramApi.resolveConflict(diagramId, 'keep-local');
+  }, [diagramId]);
+
+  const discardLocalChanges = useCallback(() => {
+    const diagram = diagramApi.resolveConflict(diagramId, 'use-server');
+    if (diagram) {
+      useDiagramStore.getState()._internalReplaceContent(diagram);
+    }
+  }, [diagramId]);
+
+  return { ...syncState, keepLocalChanges, discardLocalChanges };
+}
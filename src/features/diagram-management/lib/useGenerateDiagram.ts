@@ -98,6 +98,13 @@ export function useGenerateDiagram(
       return;
     }
 
+    // Skip interface wireframes (no Mermaid representation)
+    if (diagramType === 'wireframe') {
+      setError('Wireframes are not supported yet');
+      toast.error('Wireframe generation is not available');
+      return;
+    }
+
     try {
       setIsGenerating(true);
       setIsLoading(true);
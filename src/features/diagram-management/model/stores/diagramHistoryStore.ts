@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import type { Diagram } from '@/entities/diagram';
+
+/**
+ * Snapshot compared against the current content of a diagram
+ */
+export interface DiagramComparison {
+  diagramId: string;
+  snapshotId: string;
+  /** Display name of the snapshot */
+  label: string;
+  content: Pick<Diagram, 'shapes' | 'connectors'>;
+}
+
+/**
+ * State for the diagram history panel
+ */
+interface DiagramHistoryState {
+  isOpen: boolean;
+  comparison: DiagramComparison | null;
+}
+
+/**
+ * Actions for the diagram history panel
+ */
+interface DiagramHistoryActions {
+  toggleOpen: () => void;
+  setOpen: (isOpen: boolean) => void;
+  setComparison: (comparison: DiagramComparison | null) => void;
+}
+
+/**
+ * Combined store type
+ */
+type DiagramHistoryStore = DiagramHistoryState & DiagramHistoryActions;
+
+/**
+ * Global Zustand store for the diagram history panel
+ *
+ * Holds the snapshot shown as a visual diff on the canvas. The diff is only
+ * shown while the panel is open, so closing the panel clears the comparison.
+ */
+export const useDiagramHistoryStore = create<DiagramHistoryStore>((set) => ({
+  // State
+  isOpen: false,
+  comparison: null,
+
+  // Actions
+  toggleOpen: () =>
+    set((state) => ({
+      isOpen: !state.isOpen,
+      comparison: state.isOpen ? null : state.comparison,
+    })),
+
+  setOpen: (isOpen: boolean) =>
+    set((state) => ({
+      isOpen,
+      comparison: isOpen ? state.comparison : null,
+    })),
+
+  setComparison: (comparison: DiagramComparison | null) => set({ comparison }),
+}));
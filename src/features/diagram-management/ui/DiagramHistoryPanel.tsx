@@ -0,0 +1,143 @@
+/**
+ * DiagramHistoryPanel - Snapshots of the diagram's shapes and connectors
+ *
+ * Lists the versions cut from the diagram's use case and the autosave checkpoints.
+ * Comparing a snapshot shows the changes made since on the canvas; restoring
+ * replaces the current content with the snapshot's.
+ */
+import { useMemo } from 'react';
+import { LuGitCompareArrows, LuHistory, LuLoaderCircle, LuRotateCcw, LuTag } from 'react-icons/lu';
+import { FloatingPanel } from '@/shared/ui/FloatingPanel';
+import { Button } from '@/shared/ui';
+import { formatRelativeTime } from '@/shared/lib/utils';
+import { countDiagramChanges, diffDiagramContent } from '@/entities/diagram';
+import { useDiagramStore } from '@/entities/diagram/store/useDiagramStore';
+import { useDiagramHistoryStore } from '../model/stores/diagramHistoryStore';
+import { useDiagramHistory, type DiagramHistorySnapshot } from '../lib/useDiagramHistory';
+
+interface DiagramHistoryPanelProps {
+  diagramId: string;
+}
+
+const LEGEND = [
+  { kind: 'added', label: 'added', color: 'var(--canvas-diff-added)' },
+  { kind: 'removed', label: 'removed', color: 'var(--canvas-diff-removed)' },
+  { kind: 'changed', label: 'moved or changed', color: 'var(--canvas-diff-changed)' },
+] as const;
+
+export function DiagramHistoryPanel({ diagramId }: DiagramHistoryPanelProps) {
+  const { isOpen, setOpen } = useDiagramHistoryStore();
+  const { snapshots, loading, error, pendingSnapshotId, comparison, compare, restore } =
+    useDiagramHistory(diagramId, isOpen);
+  const diagram = useDiagramStore((state) => state.diagrams[diagramId]);
+
+  const changeCounts = useMemo(
+    () => (comparison && diagram ? countDiagramChanges(diffDiagramContent(comparison.content, diagram)) : null),
+    [comparison, diagram]
+  );
+
+  const handleRestore = (snapshot: DiagramHistorySnapshot) => {
+    if (
+      !confirm(
+        `Restore "${snapshot.label}"? The current shapes and connectors are replaced and kept as an autosave checkpoint.`
+      )
+    ) {
+      return;
+    }
+    void restore(snapshot);
+  };
+
+  const footer = comparison && changeCounts && (
+    <div className="flex flex-col gap-1 w-full text-xs text-[var(--text-muted)]">
+      <span>
+        Changes since <span className="font-medium text-[var(--text)]">{comparison.label}</span>
+      </span>
+      <div className="flex gap-3">
+        {LEGEND.map(({ kind, label, color }) => (
+          <span key={kind} className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: color }} />
+            {changeCounts[kind]} {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <FloatingPanel
+      open={isOpen}
+      onClose={() => setOpen(false)}
+      title={
+        <span className="flex items-center gap-2">
+          <LuHistory size={14} />
+          History
+        </span>
+      }
+      footer={footer}
+      width={340}
+    >
+      {loading && snapshots.length === 0 ? (
+        <div className="flex items-center justify-center gap-2 p-6 text-sm text-[var(--text-muted)]">
+          <LuLoaderCircle size={14} className="animate-spin" />
+          Loading history...
+        </div>
+      ) : error ? (
+        <div className="p-4 text-sm text-[var(--text-error)]">{error}</div>
+      ) : snapshots.length === 0 ? (
+        <div className="p-6 text-center text-sm text-[var(--text-muted)]">
+          No snapshots yet. Autosave checkpoints are recorded while you edit, and each use
+          case version keeps the diagram as it was when the version was cut.
+        </div>
+      ) : (
+        <ul className="flex flex-col gap-1 py-1">
+          {snapshots.map((snapshot) => {
+            const isCompared = comparison?.snapshotId === snapshot.id;
+            const isPending = pendingSnapshotId === snapshot.id;
+            return (
+              <li
+                key={`${snapshot.kind}-${snapshot.id}`}
+                className={`
+                  flex items-center gap-2 px-2 py-1.5 rounded
+                  ${isCompared ? 'bg-[var(--highlight)]' : 'hover:bg-[var(--highlight)]'}
+                  transition-colors duration-100
+                `}
+              >
+                <span className="text-[var(--text-muted)]">
+                  {snapshot.kind === 'version' ? <LuTag size={14} /> : <LuHistory size={14} />}
+                </span>
+                <div className="flex flex-col flex-1 min-w-0">
+                  <span className="text-sm text-[var(--text)] truncate">{snapshot.label}</span>
+                  <span className="text-xs text-[var(--text-muted)]">
+                    {formatRelativeTime(snapshot.createdAt)}
+                  </span>
+                </div>
+                <Button
+                  size="small"
+                  variant={isCompared ? 'primary' : 'text'}
+                  icon={
+                    isPending ? (
+                      <LuLoaderCircle size={14} className="animate-spin" />
+                    ) : (
+                      <LuGitCompareArrows size={14} />
+                    )
+                  }
+                  onClick={() => void compare(snapshot)}
+                  disabled={pendingSnapshotId !== null}
+                  title={isCompared ? 'Hide changes' : 'Show changes since this snapshot'}
+                />
+                <Button
+                  size="small"
+                  variant="text"
+                  icon={<LuRotateCcw size={14} />}
+                  onClick={() => handleRestore(snapshot)}
+                  disabled={pendingSnapshotId !== null}
+                  title="Restore this snapshot"
+                />
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </FloatingPanel>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * DiagramSyncIndicator - Save state of the diagram's shapes and connectors
+ *
+ * Shows whether edits are saved, waiting, saving, kept offline or retried after
+ * a failure. On a conflict it lists the choice between keeping the local edits
+ * and loading the server version.
+ */
+import type { ReactNode } from 'react';
+import {
+  LuCloud,
+  LuCloudAlert,
+  LuCloudOff,
+  LuCloudUpload,
+  LuLoaderCircle,
+  LuTriangleAlert,
+} from 'react-icons/lu';
+import { Button, Tooltip } from '@/shared/ui';
+import { formatRelativeTime } from '@/shared/lib/utils';
+import type { DiagramSyncStatus } from '@/entities/diagram';
+import { useDiagramSync } from '../lib/useDiagramSync';
+
+interface DiagramSyncIndicatorProps {
+  diagramId: string;
+}
+
+const STATUS_DISPLAY: Record<DiagramSyncStatus, { icon: ReactNode; label: string }> = {
+  synced: { icon: <LuCloud size={14} />, label: 'Saved' },
+  pending: { icon: <LuCloudUpload size={14} />, label: 'Unsaved changes' },
+  saving: { icon: <LuLoaderCircle size={14} className="animate-spin" />, label: 'Saving...' },
+  offline: { icon: <LuCloudOff size={14} />, label: 'Offline - changes kept on this device' },
+  retrying: { icon: <LuCloudAlert size={14} />, label: 'Save failed - retrying' },
+  conflict: { icon: <LuTriangleAlert size={14} />, label: 'Conflicting changes' },
+};
+
+export function DiagramSyncIndicator({ diagramId }: DiagramSyncIndicatorProps) {
+  const { status, lastSavedAt, error, conflictingIds, keepLocalChanges, discardLocalChanges } =
+    useDiagramSync(diagramId);
+  const { icon, label } = STATUS_DISPLAY[status];
+
+  const details =
+    status === 'synced' && lastSavedAt
+      ? `Saved ${formatRelativeTime(lastSavedAt)}`
+      : status === 'retrying' && error
+        ? error
+        : label;
+
+  if (status === 'conflict') {
+    return (
+      <div className="flex flex-col gap-2 max-w-[280px] p-3 rounded-md shadow-md bg-[var(--bg-light)] border border-[var(--border-error)]">
+        <div className="flex items-center gap-2 text-sm font-medium text-[var(--text-error)]">
+          {icon}
+          {label}
+        </div>
+        <p className="text-xs text-[var(--text-muted)]">
+          {conflictingIds.length === 1
+            ? 'A shape or connector you edited was also changed by someone else.'
+            : `${conflictingIds.length} shapes or connectors you edited were also changed by someone else.`}
+        </p>
+        <div className="flex gap-2">
+          <Button size="small" variant="primary" onClick={keepLocalChanges}>
+            Keep mine
+          </Button>
+          <Button size="small" variant="default" onClick={discardLocalChanges}>
+            Use theirs
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Tooltip content={details}>
+      <div
+        className={`
+          flex items-center gap-1.5 h-8 px-2 rounded-md shadow-sm
+          bg-[var(--bg-light)] text-xs
+          ${status === 'retrying' || status === 'offline' ? 'text-[var(--text-error)]' : 'text-[var(--text-muted)]'}
+        `}
+      >
+        {icon}
+        <span>{label}</span>
+      </div>
+    </Tooltip>
+  );
+}
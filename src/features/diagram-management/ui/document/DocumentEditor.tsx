@@ -3,19 +3,32 @@
  *
  * A markdown-based document editor with live preview and line numbers.
  * Supports split view, edit-only, and preview-only modes.
+ * Selected text can be commented on when onCommentSelection is provided.
  */
 
 import { useEffect, useRef, useState } from 'react';
-import { LuEye, LuPencil, LuColumns2 } from 'react-icons/lu';
+import { LuEye, LuPencil, LuColumns2, LuMessageSquarePlus } from 'react-icons/lu';
 import { MarkdownContent } from '@/shared/ui';
 import { Button } from '@/shared/ui';
 
 export type DocumentViewMode = 'edit' | 'split' | 'preview';
 
+/**
+ * Range of the document content selected in the editor
+ */
+export interface DocumentTextRange {
+  start: number;
+  end: number;
+  /** Selected text */
+  quote: string;
+}
+
 export interface DocumentEditorProps {
   initialContent?: string;
   onContentChange?: (content: string) => void;
   onSave?: (content: string) => void;
+  /** Start a review comment on the selected text */
+  onCommentSelection?: (range: DocumentTextRange) => void;
   height?: string;
 }
 
@@ -34,6 +47,7 @@ export function DocumentEditor({
   initialContent = '',
   onContentChange,
   onSave,
+  onCommentSelection,
   height = '100%',
 }: DocumentEditorProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -43,6 +57,7 @@ export function DocumentEditor({
   // Use local state for immediate UI feedback
   const [content, setContentState] = useState(initialContent);
   const [viewMode, setViewMode] = useState<DocumentViewMode>('split');
+  const [hasSelection, setHasSelection] = useState(false);
 
   // Update content when initialContent prop changes
   useEffect(() => {
@@ -62,6 +77,19 @@ export function DocumentEditor({
     onContentChange?.(newContent);
   };
 
+  // Track whether text is selected, for the comment action
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    setHasSelection(e.currentTarget.selectionStart !== e.currentTarget.selectionEnd);
+  };
+
+  // Comment on the selected text
+  const handleCommentSelection = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || textarea.selectionStart === textarea.selectionEnd) return;
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    onCommentSelection?.({ start, end, quote: content.substring(start, end) });
+  };
+
   // Handle keyboard shortcuts
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     // Cmd/Ctrl + S to save
@@ -114,6 +142,16 @@ export function DocumentEditor({
           Markdown Editor
         </div>
         <div className="flex gap-1">
+          {onCommentSelection && showEditor && (
+            <Button
+              variant="default"
+              size="small"
+              onClick={handleCommentSelection}
+              disabled={!hasSelection}
+              icon={<LuMessageSquarePlus />}
+              title="Comment on selected text"
+            />
+          )}
           <Button
             variant={viewMode === 'edit' ? 'primary' : 'default'}
             size="small"
@@ -177,6 +215,7 @@ export function DocumentEditor({
                 onChange={(e) => handleContentChange(e.target.value)}
                 onScroll={handleScroll}
                 onKeyDown={handleKeyDown}
+                onSelect={handleSelect}
                 placeholder="Start writing your markdown here..."
                 className="w-full h-full p-3 border-0 outline-none resize-none bg-[var(--bg-light)] text-[var(--text)]"
                 style={{
@@ -3,3 +3,6 @@ export type { CreateDiagramFormData, CreateDiagramModalProps } from './CreateDia
 
 export { LinkUseCaseModal } from './LinkUseCaseModal';
 export type { LinkUseCaseFormData, LinkUseCaseModalProps } from './LinkUseCaseModal';
+
+export { DiagramSyncIndicator } from './DiagramSyncIndicator';
+export { DiagramHistoryPanel } from './DiagramHistoryPanel';
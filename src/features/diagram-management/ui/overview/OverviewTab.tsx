@@ -2,6 +2,7 @@
  * OverviewTab Component
  * Displays requirements for use cases in the current design studio context
  * Requirements can be dragged to folders in the sidebar to create references
+ * and commented on in the comments sidebar
  */
 
 import { useMemo } from 'react';
@@ -9,6 +10,8 @@ import { Card } from '@/shared/ui';
 import { useUseCasesBySolutionQuery, type UseCase } from '@/entities/use-case';
 import { useRequirementsBySolutionQuery } from '@/entities/requirement';
 import { useDesignWorkStore } from '@/entities/design-work/store/useDesignWorkStore';
+import { useCommentThreadsBySolutionQuery } from '@/entities/comment';
+import { createRequirementCommentDraft, useReviewCommentsStore } from '@/features/review-comments';
 import { RequirementsList } from './RequirementsList';
 
 interface OverviewTabProps {
@@ -50,6 +53,20 @@ export function OverviewTab({ solutionId, useCaseId }: OverviewTabProps) {
     return map;
   }, [designWorks]);
 
+  // Open review threads per requirement
+  const { data: commentThreads } = useCommentThreadsBySolutionQuery(solutionId);
+  const startThread = useReviewCommentsStore((state) => state.startThread);
+  const focusThread = useReviewCommentsStore((state) => state.focusThread);
+
+  const requirementThreadMap = useMemo(() => {
+    const map: Record<string, string[]> = {};
+    for (const thread of commentThreads ?? []) {
+      if (thread.status !== 'open' || thread.anchor.type !== 'requirement') continue;
+      (map[thread.anchor.requirementId] ??= []).push(thread.id);
+    }
+    return map;
+  }, [commentThreads]);
+
   const isLoading = isLoadingUseCases || isLoadingRequirements;
 
   return (
@@ -63,6 +80,9 @@ export function OverviewTab({ solutionId, useCaseId }: OverviewTabProps) {
           requirements={requirements}
           isLoading={isLoading}
           requirementFolderMap={requirementFolderMap}
+          requirementThreadMap={requirementThreadMap}
+          onComment={(requirement) => startThread(createRequirementCommentDraft(solutionId, requirement))}
+          onOpenThreads={(requirement) => focusThread(requirementThreadMap[requirement.id][0])}
         />
       </Card>
     </div>
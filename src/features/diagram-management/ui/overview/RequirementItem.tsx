@@ -1,18 +1,29 @@
 /**
  * RequirementItem Component
- * A single draggable requirement row for the Overview tab
+ * A single draggable requirement row for the Overview tab, with its review comments
  */
 
-import { Tag } from '@/shared/ui';
+import { LuMessageSquare, LuMessageSquarePlus } from 'react-icons/lu';
+import { Button, Tag } from '@/shared/ui';
 import type { RequirementWithUseCase, RequirementType, RequirementStatus } from '@/entities/requirement';
 import { REQUIREMENT_TYPE_CONFIG, REQUIREMENT_STATUS_CONFIG } from '@/entities/requirement';
 
 interface RequirementItemProps {
   requirement: RequirementWithUseCase;
   folderNames?: string[];
+  /** Number of open comment threads on the requirement */
+  openThreadCount?: number;
+  onComment?: (requirement: RequirementWithUseCase) => void;
+  onOpenThreads?: (requirement: RequirementWithUseCase) => void;
 }
 
-export function RequirementItem({ requirement, folderNames = [] }: RequirementItemProps) {
+export function RequirementItem({
+  requirement,
+  folderNames = [],
+  openThreadCount = 0,
+  onComment,
+  onOpenThreads,
+}: RequirementItemProps) {
   const handleDragStart = (event: React.DragEvent) => {
     event.dataTransfer.effectAllowed = 'copy';
     event.dataTransfer.setData(
@@ -43,8 +54,30 @@ export function RequirementItem({ requirement, folderNames = [] }: RequirementIt
         borderBottom: '1px solid var(--border)',
       }}
     >
-      <div style={{ fontSize: 'var(--font-size-md)', lineHeight: '1.4', marginBottom: '4px' }}>
-        {requirement.text}
+      <div style={{ display: 'flex', alignItems: 'flex-start', gap: '8px', marginBottom: '4px' }}>
+        <div style={{ flex: 1, fontSize: 'var(--font-size-md)', lineHeight: '1.4' }}>
+          {requirement.text}
+        </div>
+        {openThreadCount > 0 && onOpenThreads && (
+          <Button
+            variant="text"
+            size="small"
+            icon={<LuMessageSquare />}
+            onClick={() => onOpenThreads(requirement)}
+            title="Show open comments"
+          >
+            {openThreadCount}
+          </Button>
+        )}
+        {onComment && (
+          <Button
+            variant="text"
+            size="small"
+            icon={<LuMessageSquarePlus />}
+            onClick={() => onComment(requirement)}
+            title="Comment on requirement"
+          />
+        )}
       </div>
       <div
         style={{
@@ -12,9 +12,20 @@ interface RequirementsListProps {
   isLoading: boolean;
   /** Map of requirement ID to folder names it's referenced in */
   requirementFolderMap?: Record<string, string[]>;
+  /** Map of requirement ID to its open comment thread IDs */
+  requirementThreadMap?: Record<string, string[]>;
+  onComment?: (requirement: RequirementWithUseCase) => void;
+  onOpenThreads?: (requirement: RequirementWithUseCase) => void;
 }
 
-export function RequirementsList({ requirements, isLoading, requirementFolderMap = {} }: RequirementsListProps) {
+export function RequirementsList({
+  requirements,
+  isLoading,
+  requirementFolderMap = {},
+  requirementThreadMap = {},
+  onComment,
+  onOpenThreads,
+}: RequirementsListProps) {
   if (isLoading) {
     return (
       <div style={{ padding: '16px', color: 'var(--text-secondary)' }}>
@@ -36,6 +47,9 @@ export function RequirementsList({ requirements, isLoading, requirementFolderMap
           key={req.id}
           requirement={req}
           folderNames={requirementFolderMap[req.id]}
+          openThreadCount={requirementThreadMap[req.id]?.length ?? 0}
+          onComment={onComment}
+          onOpenThreads={onOpenThreads}
         />
       ))}
     </VStack>
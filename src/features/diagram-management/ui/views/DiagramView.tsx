@@ -3,12 +3,22 @@
  *
  * Renders the canvas for editing a diagram.
  * Each diagram gets its own isolated canvas instance.
+ * Provides an "Export image" action for SVG/PNG export of the rendered diagram,
+ * shows the save state of the diagram's content, opens its history and starts
+ * review comments on the selected shape or connector.
  */
 
-import { Empty } from '@/shared/ui';
+import { useState } from 'react';
+import { LuHistory, LuImageDown } from 'react-icons/lu';
+import { Button, Empty } from '@/shared/ui';
 import { ErrorBoundary } from '@/shared/ui';
 import { useDiagram } from '@/features/diagram-management';
-import { Canvas } from '@/widgets/canvas';
+import { Canvas, ExportImageModal } from '@/widgets/canvas';
+import { useDesignWorkStore } from '@/entities/design-work/store/useDesignWorkStore';
+import { CommentOnSelectionButton } from '@/features/review-comments';
+import { DiagramSyncIndicator } from '../DiagramSyncIndicator';
+import { DiagramHistoryPanel } from '../DiagramHistoryPanel';
+import { useDiagramHistoryStore } from '../../model/stores/diagramHistoryStore';
 
 interface DiagramViewProps {
   diagramId: string;
@@ -16,6 +26,11 @@ interface DiagramViewProps {
 
 export function DiagramView({ diagramId }: DiagramViewProps) {
   const { diagram, loading } = useDiagram(diagramId);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const toggleHistory = useDiagramHistoryStore((state) => state.toggleOpen);
+  const solutionId = useDesignWorkStore(
+    (state) => state.designWorks.find((designWork) => designWork.id === diagram?.designWorkId)?.solutionId
+  );
 
   if (loading) {
     return (
@@ -34,7 +49,7 @@ export function DiagramView({ diagramId }: DiagramViewProps) {
   }
 
   return (
-    <div className="w-full h-full bg-[var(--bg)]">
+    <div className="relative w-full h-full bg-[var(--bg)]">
       <ErrorBoundary
         resetKey={diagramId}
         fallback={(error, _errorInfo, reset) => (
@@ -76,6 +91,57 @@ export function DiagramView({ diagramId }: DiagramViewProps) {
       >
         <Canvas diagramId={diagramId} />
       </ErrorBoundary>
+
+      {/* Save state, comment, history and export image actions (bottom-right, clear of the centered canvas toolbar) */}
+      <div className="absolute z-10 p-1 flex items-end gap-2" style={{ bottom: '12px', right: '16px' }}>
+        <DiagramSyncIndicator diagramId={diagramId} />
+        <CommentOnSelectionButton
+          solutionId={solutionId}
+          diagramId={diagramId}
+          designWorkId={diagram.designWorkId}
+          className="
+            bg-[var(--bg-light)] hover:bg-[var(--highlight)]
+            border-none
+            transition-colors duration-150
+            shadow-sm
+          "
+        />
+        <Button
+          size="small"
+          variant="default"
+          icon={<LuHistory size={16} />}
+          onClick={toggleHistory}
+          title="History"
+          className="
+            bg-[var(--bg-light)] hover:bg-[var(--highlight)]
+            border-none
+            transition-colors duration-150
+            shadow-sm
+          "
+        />
+        <Button
+          size="small"
+          variant="default"
+          icon={<LuImageDown size={16} />}
+          onClick={() => setIsExportOpen(true)}
+          title="Export image"
+          className="
+            bg-[var(--bg-light)] hover:bg-[var(--highlight)]
+            border-none
+            transition-colors duration-150
+            shadow-sm
+          "
+        />
+      </div>
+
+      <DiagramHistoryPanel diagramId={diagramId} />
+
+      <ExportImageModal
+        open={isExportOpen}
+        diagramId={diagramId}
+        diagramName={diagram.name}
+        onClose={() => setIsExportOpen(false)}
+      />
     </div>
   );
 }
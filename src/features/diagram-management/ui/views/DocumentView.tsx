@@ -1,13 +1,15 @@
 /**
  * DocumentView Component
- * Editable markdown document with live preview
+ * Editable markdown document with live preview, whose text can be commented on
  */
 
 import { useEffect, useRef, useState } from 'react';
 import { Empty } from '@/shared/ui';
 import { useDocument } from '@/features/diagram-management';
 import { useDocumentStore } from '@/entities/document/store/useDocumentStore';
-import { DocumentEditor } from '../document/DocumentEditor';
+import { useDesignWorkStore } from '@/entities/design-work/store/useDesignWorkStore';
+import { createDocumentRangeCommentDraft, useReviewCommentsStore } from '@/features/review-comments';
+import { DocumentEditor, type DocumentTextRange } from '../document/DocumentEditor';
 
 interface DocumentViewProps {
   documentId: string;
@@ -18,7 +20,10 @@ export function DocumentView({ documentId }: DocumentViewProps) {
   const updateDocument = useDocumentStore((state) => state.updateDocument);
   const saveTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
   const [hasLoaded, setHasLoaded] = useState(false);
-
+  const startThread = useReviewCommentsStore((state) => state.startThread);
+  const solutionId = useDesignWorkStore(
+    (state) => state.designWorks.find((designWork) => designWork.id === document?.designWorkId)?.solutionId
+  );
 
   // Track if we've successfully loaded the document at least once
   useEffect(() => {
@@ -76,6 +81,17 @@ export function DocumentView({ documentId }: DocumentViewProps) {
     updateDocument(documentId, { content });
   };
 
+  // Start a review thread on the selected text
+  const handleCommentSelection = (range: DocumentTextRange) => {
+    if (!solutionId) return;
+    startThread(
+      createDocumentRangeCommentDraft(
+        { solutionId, designWorkId: document.designWorkId, documentId },
+        range
+      )
+    );
+  };
+
   return (
     <div className='bg-[var(--bg)] h-full'>
       <DocumentEditor
@@ -83,6 +99,7 @@ export function DocumentView({ documentId }: DocumentViewProps) {
         initialContent={document.content}
         onContentChange={handleContentChange}
         onSave={handleSave}
+        onCommentSelection={solutionId ? handleCommentSelection : undefined}
         height="100%"
       />
     </div>
@@ -1,10 +1,21 @@
 /**
  * InterfaceView Component
- * Placeholder for interface/wireframe content
+ *
+ * Renders the canvas for editing an interface's wireframe.
+ * Interface content is loaded and persisted through the diagram API's
+ * interface content source, so the canvas treats the interface as a
+ * 'wireframe' diagram.
  */
 
-import { Card, Tag, Empty } from '@/shared/ui';
+import { Empty, Tag } from '@/shared/ui';
+import { ErrorBoundary } from '@/shared/ui';
 import { useInterface } from '@/features/diagram-management';
+import { diagramApi } from '@/entities/diagram';
+import { interfaceContentSource, useInterfaceStore } from '@/entities/interface';
+import { Canvas } from '@/widgets/canvas';
+
+// Route canvas reads/writes for interface IDs to the interface API
+diagramApi.registerContentSource(interfaceContentSource);
 
 interface InterfaceViewProps {
   interfaceId: string;
@@ -12,8 +23,10 @@ interface InterfaceViewProps {
 
 export function InterfaceView({ interfaceId }: InterfaceViewProps) {
   const { interfaceItem, loading } = useInterface(interfaceId);
+  // The canvas may only mount once the interface is in the store, so the content source claims its ID
+  const isInStore = useInterfaceStore((state) => interfaceId in state.interfaces);
 
-  if (loading) {
+  if (loading || (interfaceItem && !isInStore)) {
     return (
       <div className="flex items-center justify-center h-full text-[var(--text-muted)]">
         Loading interface...
@@ -22,31 +35,59 @@ export function InterfaceView({ interfaceId }: InterfaceViewProps) {
   }
 
   if (!interfaceItem) {
-    return <Empty description="Interface not found" className='bg-[var(--bg)]'/>;
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Empty description="Interface not found" className="bg-[var(--bg)]" />
+      </div>
+    );
   }
 
   return (
-    <div className='bg-[var(--bg)]' style={{ padding: '24px' }}>
-      <Card
-        title={
-          <div>
-            {interfaceItem.name} <Tag color="purple">{interfaceItem.fidelity} fidelity</Tag>
-          </div>
-        }
-      >
-        <Empty
-          description={
-            <div>
-              <p>Interface Editor Coming Soon</p>
-              <p style={{ color: 'var(--text-muted)', fontSize: 'var(--font-size-sm)' }}>
-                This is where the interface/wireframe editor will be displayed
+    <div className="relative w-full h-full bg-[var(--bg)]">
+      <div className="absolute bottom-2 left-2 z-10 pointer-events-none">
+        <Tag color="purple">{interfaceItem.fidelity} fidelity</Tag>
+      </div>
+      <ErrorBoundary
+        resetKey={interfaceId}
+        fallback={(error, _errorInfo, reset) => (
+          <div className="flex flex-col items-center justify-center h-full p-8">
+            <div className="max-w-md w-full bg-[var(--bg-light)] border border-[var(--border-error)] rounded-sm p-6">
+              <h3 className="text-lg font-semibold text-[var(--text-error)] mb-2">
+                Canvas Error
+              </h3>
+              <p className="text-[var(--text-muted)] mb-4">
+                The interface canvas encountered an error and could not render.
               </p>
+              {import.meta.env.DEV && (
+                <details className="mb-4 p-3 bg-[var(--bg-darker)] rounded border border-[var(--border-muted)]">
+                  <summary className="cursor-pointer text-sm font-medium text-[var(--text)]">
+                    Error details
+                  </summary>
+                  <pre className="text-xs text-[var(--text-error)] mt-2 overflow-auto">
+                    {error.toString()}
+                  </pre>
+                </details>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={reset}
+                  className="flex-1 px-4 py-2 border border-[var(--border)] text-[var(--text)] rounded hover:bg-[var(--bg-darker)] transition-colors"
+                >
+                  Try again
+                </button>
+                <button
+                  onClick={() => window.location.reload()}
+                  className="flex-1 px-4 py-2 bg-[var(--primary)] text-white rounded hover:bg-[var(--primary-dark)] transition-colors"
+                >
+                  Reload page
+                </button>
+              </div>
             </div>
-          }
-          image={Empty.PRESENTED_IMAGE_SIMPLE}
-          style={{ padding: '60px 0' }}
-        />
-      </Card>
+          </div>
+        )}
+      >
+        <Canvas diagramId={interfaceId} />
+      </ErrorBoundary>
     </div>
   );
 }
@@ -0,0 +1,11 @@
+// Annotation Module
+// Free-form annotation layer shared by all diagram types (notes, text, callouts, ink)
+
+// Ink geometry and attribution
+export * from './ink';
+
+// Rendering
+export { AnnotationNoteRenderer } from './rendering/AnnotationNoteRenderer';
+export { AnnotationTextRenderer } from './rendering/AnnotationTextRenderer';
+export { AnnotationCalloutRenderer } from './rendering/AnnotationCalloutRenderer';
+export { AnnotationInkRenderer } from './rendering/AnnotationInkRenderer';
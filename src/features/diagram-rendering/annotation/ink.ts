@@ -0,0 +1,118 @@
+/**
+ * Annotation Ink
+ *
+ * Geometry of freehand pen strokes. A stroke is drawn in canvas coordinates and
+ * stored on an 'annotation-ink' shape relative to the shape bounds (0..1), so the
+ * ink follows the shape when it is moved or resized.
+ */
+
+import type { AnnotationShapeData, Point } from '@/entities/shape';
+
+/** Points closer than this to the previous point (in canvas pixels) are dropped */
+const MIN_POINT_DISTANCE = 2;
+
+/** Default ink stroke width in canvas pixels */
+export const DEFAULT_INK_STROKE_WIDTH = 3;
+
+/**
+ * Bounds and relative points of a freehand stroke
+ */
+export interface InkStrokeGeometry {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Stroke points relative to the bounds (0..1) */
+  stroke: Point[];
+}
+
+/**
+ * Drop points that are too close to the previous one
+ * The last point is always kept so the stroke ends where the pen was lifted.
+ */
+export function simplifyInkStroke(points: Point[]): Point[] {
+  if (points.length <= 2) return points;
+
+  const simplified: Point[] = [points[0]];
+  for (let i = 1; i < points.length - 1; i++) {
+    const previous = simplified[simplified.length - 1];
+    if (Math.hypot(points[i].x - previous.x, points[i].y - previous.y) >= MIN_POINT_DISTANCE) {
+      simplified.push(points[i]);
+    }
+  }
+  simplified.push(points[points.length - 1]);
+  return simplified;
+}
+
+/**
+ * Compute the shape bounds of a stroke drawn in canvas coordinates
+ * The bounds are padded by the stroke width so the ink isn't clipped.
+ */
+export function getInkStrokeGeometry(points: Point[], strokeWidth: number): InkStrokeGeometry {
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const x = Math.round(Math.min(...xs) - strokeWidth);
+  const y = Math.round(Math.min(...ys) - strokeWidth);
+  const width = Math.round(Math.max(Math.max(...xs) - Math.min(...xs), 1) + strokeWidth * 2);
+  const height = Math.round(Math.max(Math.max(...ys) - Math.min(...ys), 1) + strokeWidth * 2);
+
+  return {
+    x,
+    y,
+    width,
+    height,
+    stroke: points.map((point) => ({
+      x: Number(((point.x - x) / width).toFixed(4)),
+      y: Number(((point.y - y) / height).toFixed(4)),
+    })),
+  };
+}
+
+/**
+ * Build the SVG path of a stroke
+ * Midpoints are joined with quadratic curves through the sampled points, which
+ * smooths out the jitter of the pointer.
+ */
+export function getInkPathData(points: Point[]): string {
+  if (points.length === 0) return '';
+  if (points.length === 1) {
+    return `M ${points[0].x} ${points[0].y} L ${points[0].x} ${points[0].y}`;
+  }
+
+  const commands = [`M ${points[0].x} ${points[0].y}`];
+  for (let i = 1; i < points.length - 1; i++) {
+    const midX = (points[i].x + points[i + 1].x) / 2;
+    const midY = (points[i].y + points[i + 1].y) / 2;
+    commands.push(`Q ${points[i].x} ${points[i].y} ${midX} ${midY}`);
+  }
+  const last = points[points.length - 1];
+  commands.push(`L ${last.x} ${last.y}`);
+  return commands.join(' ');
+}
+
+/**
+ * Scale the relative strokes of an ink shape to its current size
+ */
+export function scaleInkStrokes(strokes: Point[][], width: number, height: number): Point[][] {
+  return strokes.map((stroke) =>
+    stroke.map((point) => ({ x: point.x * width, y: point.y * height }))
+  );
+}
+
+/**
+ * Author and creation time of an annotation, for display
+ * e.g. "Ada Lovelace · Oct 19, 2:03 PM"
+ */
+export function formatAnnotationAttribution(data: AnnotationShapeData): string {
+  const createdAt = new Date(data.createdAt);
+  if (Number.isNaN(createdAt.getTime())) {
+    return data.author;
+  }
+  const timestamp = createdAt.toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  return `${data.author} · ${timestamp}`;
+}
@@ -0,0 +1,164 @@
+/**
+ * Annotation Callout Renderer
+ *
+ * Renders callouts of the annotation layer: a speech bubble whose tail points
+ * down-left. Arrows drawn from a callout to a shape join the annotation layer.
+ */
+
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { ConnectionPointRenderer } from '../../shared/rendering/ConnectionPointRenderer';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { STANDARD_RECTANGLE_CONNECTION_POINTS } from '@/widgets/canvas/lib/utils/connectionPoints';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+import { getAnnotationShapeData } from '@/entities/shape';
+import { formatAnnotationAttribution } from '../ink';
+
+// Height of the bubble tail, in canvas pixels
+const TAIL_HEIGHT = 16;
+
+/**
+ * Outline of the speech bubble, including the tail
+ */
+function getCalloutPath(width: number, height: number, inset: number): string {
+  const radius = 8;
+  const left = inset;
+  const top = inset;
+  const right = width - inset;
+  const bottom = height - TAIL_HEIGHT;
+  const tailStart = Math.min(width * 0.2, 24);
+  const tailEnd = tailStart + Math.min(width * 0.15, 18);
+
+  return [
+    `M ${left + radius} ${top}`,
+    `L ${right - radius} ${top}`,
+    `Q ${right} ${top} ${right} ${top + radius}`,
+    `L ${right} ${bottom - radius}`,
+    `Q ${right} ${bottom} ${right - radius} ${bottom}`,
+    `L ${tailEnd} ${bottom}`,
+    `L ${tailStart - 8} ${height - inset}`,
+    `L ${tailStart} ${bottom}`,
+    `L ${left + radius} ${bottom}`,
+    `Q ${left} ${bottom} ${left} ${bottom - radius}`,
+    `L ${left} ${top + radius}`,
+    `Q ${left} ${top} ${left + radius} ${top}`,
+    'Z',
+  ].join(' ');
+}
+
+export function AnnotationCalloutRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+  onConnectionPointMouseDown,
+  onConnectionPointMouseUp,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+  const annotationData = getAnnotationShapeData(shape);
+
+  const {
+    isInteractive,
+    showHover,
+    showSelected,
+    handleConnectionPointMouseDown,
+    handleConnectionPointMouseUp,
+  } = useShapeInteractivity({
+    shape,
+    context,
+    onConnectionPointMouseDown,
+    onConnectionPointMouseUp,
+  });
+
+  let strokeColor = 'var(--canvas-annotation-note-border)';
+  let strokeWidth = 1.5 / zoom;
+  if (showSelected) {
+    strokeColor = 'var(--primary)';
+    strokeWidth = 2 / zoom;
+  } else if (showHover) {
+    strokeColor = 'var(--secondary)';
+  }
+
+  return (
+    <ShapeWrapper
+      shape={shape}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor="transparent"
+      borderWidth={0}
+      backgroundColor=""
+      borderRadius={0}
+      hoverPadding={15}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${height}px`,
+        display: 'flex',
+        flexDirection: 'column',
+        padding: `8px 10px ${TAIL_HEIGHT + 4}px`,
+      }}
+    >
+      {/* Bubble outline */}
+      <svg
+        width={width}
+        height={height}
+        style={{ position: 'absolute', left: 0, top: 0, overflow: 'visible', pointerEvents: 'none' }}
+      >
+        <path
+          d={getCalloutPath(width, height, strokeWidth / 2)}
+          fill={annotationData?.color ?? 'var(--canvas-annotation-note-fill)'}
+          stroke={strokeColor}
+          strokeWidth={strokeWidth}
+          strokeLinejoin="round"
+        />
+      </svg>
+
+      {/* Callout text */}
+      <div
+        title={annotationData ? formatAnnotationAttribution(annotationData) : undefined}
+        style={{ position: 'relative', flex: 1, minHeight: 0, overflow: 'hidden' }}
+      >
+        <EditableLabel
+          label={shape.label}
+          isEditing={isInteractive && isEditing}
+          onStartEdit={() => {}}
+          onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+          onFinishEdit={() => onFinishEditing?.()}
+          fontSize={12}
+          style={{
+            color: 'var(--canvas-annotation-text)',
+            pointerEvents: isInteractive && isEditing ? 'auto' : 'none',
+            textAlign: 'left',
+            width: '100%',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+          }}
+        />
+      </div>
+
+      {/* Connection points when hovered (to draw arrows to shapes) */}
+      {showHover &&
+        onConnectionPointMouseDown &&
+        onConnectionPointMouseUp &&
+        STANDARD_RECTANGLE_CONNECTION_POINTS.map((connectionPoint) => (
+          <ConnectionPointRenderer
+            key={connectionPoint.id}
+            connectionPoint={connectionPoint}
+            shapeWidth={width}
+            shapeHeight={height}
+            onMouseDown={handleConnectionPointMouseDown}
+            onMouseUp={handleConnectionPointMouseUp}
+          />
+        ))}
+    </ShapeWrapper>
+  );
+}
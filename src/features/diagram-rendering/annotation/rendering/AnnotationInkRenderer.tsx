@@ -0,0 +1,87 @@
+/**
+ * Annotation Ink Renderer
+ *
+ * Renders freehand pen strokes of the annotation layer. Strokes are stored
+ * relative to the shape bounds, so resizing the shape scales the ink. Only the
+ * strokes themselves pick up the mouse; the bounds are outlined when selected.
+ */
+
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+import { getAnnotationShapeData } from '@/entities/shape';
+import { DEFAULT_INK_STROKE_WIDTH, formatAnnotationAttribution, getInkPathData, scaleInkStrokes } from '../ink';
+
+// Width of the invisible hit area around each stroke, in screen pixels
+const HIT_AREA_WIDTH = 10;
+
+export function AnnotationInkRenderer({
+  shape,
+  context,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+}: ShapeRendererProps): React.ReactElement {
+  const { id, x, y, width, height } = shape;
+  const { zoom } = context;
+  const annotationData = getAnnotationShapeData(shape);
+
+  const { isInteractive, showHover, showSelected } = useShapeInteractivity({ shape, context });
+
+  const strokes = scaleInkStrokes(annotationData?.strokes ?? [], width, height);
+  const strokeWidth = annotationData?.strokeWidth ?? DEFAULT_INK_STROKE_WIDTH;
+  const color = annotationData?.color ?? 'var(--canvas-annotation-ink)';
+
+  return (
+    <div
+      data-shape-id={id}
+      style={{
+        position: 'absolute',
+        left: `${x}px`,
+        top: `${y}px`,
+        width: `${width}px`,
+        height: `${height}px`,
+        zIndex: 1,
+        pointerEvents: 'none',
+        outline: showSelected
+          ? `${2 / zoom}px solid var(--primary)`
+          : showHover
+            ? `${1 / zoom}px dashed var(--border)`
+            : 'none',
+      }}
+    >
+      <svg width={width} height={height} style={{ overflow: 'visible' }}>
+        {annotationData && <title>{formatAnnotationAttribution(annotationData)}</title>}
+        {strokes.map((stroke, index) => {
+          const pathData = getInkPathData(stroke);
+          return (
+            <g key={index}>
+              <path
+                d={pathData}
+                fill="none"
+                stroke={color}
+                strokeWidth={strokeWidth}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+              {/* Wider invisible path so thin strokes are easy to grab */}
+              <path
+                d={pathData}
+                fill="none"
+                stroke="transparent"
+                strokeWidth={Math.max(strokeWidth, HIT_AREA_WIDTH / zoom)}
+                strokeLinecap="round"
+                style={{
+                  pointerEvents: isInteractive ? 'stroke' : 'none',
+                  cursor: showSelected ? 'move' : 'pointer',
+                }}
+                onMouseDown={isInteractive ? (e) => onMouseDown?.(e, id) : undefined}
+                onMouseEnter={isInteractive ? (e) => onMouseEnter?.(e, id) : undefined}
+                onMouseLeave={isInteractive ? (e) => onMouseLeave?.(e, id) : undefined}
+              />
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * Annotation Note Renderer
+ *
+ * Renders sticky notes of the annotation layer. The note shows its text and,
+ * in the footer, who wrote it and when.
+ */
+
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { ConnectionPointRenderer } from '../../shared/rendering/ConnectionPointRenderer';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { STANDARD_RECTANGLE_CONNECTION_POINTS } from '@/widgets/canvas/lib/utils/connectionPoints';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+import { getAnnotationShapeData } from '@/entities/shape';
+import { formatAnnotationAttribution } from '../ink';
+
+export function AnnotationNoteRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+  onConnectionPointMouseDown,
+  onConnectionPointMouseUp,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+  const annotationData = getAnnotationShapeData(shape);
+
+  const {
+    isInteractive,
+    showHover,
+    showSelected,
+    handleConnectionPointMouseDown,
+    handleConnectionPointMouseUp,
+  } = useShapeInteractivity({
+    shape,
+    context,
+    onConnectionPointMouseDown,
+    onConnectionPointMouseUp,
+  });
+
+  let borderColor = 'var(--canvas-annotation-note-border)';
+  let borderWidth = 1 / zoom;
+  if (showSelected) {
+    borderColor = 'var(--primary)';
+    borderWidth = 2 / zoom;
+  } else if (showHover) {
+    borderColor = 'var(--secondary)';
+  }
+
+  return (
+    <ShapeWrapper
+      shape={shape}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor={borderColor}
+      borderWidth={borderWidth}
+      backgroundColor={annotationData?.color ?? 'var(--canvas-annotation-note-fill)'}
+      borderRadius={2}
+      hoverPadding={15}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${height}px`,
+        display: 'flex',
+        flexDirection: 'column',
+        padding: '10px 10px 6px',
+        boxShadow: '0 2px 6px rgba(0, 0, 0, 0.15)',
+      }}
+    >
+      {/* Note text */}
+      <div style={{ flex: 1, minHeight: 0, overflow: 'hidden' }}>
+        <EditableLabel
+          label={shape.label}
+          isEditing={isInteractive && isEditing}
+          onStartEdit={() => {}}
+          onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+          onFinishEdit={() => onFinishEditing?.()}
+          fontSize={13}
+          style={{
+            color: 'var(--canvas-annotation-text)',
+            pointerEvents: isInteractive && isEditing ? 'auto' : 'none',
+            textAlign: 'left',
+            width: '100%',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+          }}
+        />
+      </div>
+
+      {/* Author and timestamp */}
+      {annotationData && (
+        <div
+          style={{
+            fontSize: '10px',
+            color: 'var(--text-muted)',
+            whiteSpace: 'nowrap',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            pointerEvents: 'none',
+          }}
+        >
+          {formatAnnotationAttribution(annotationData)}
+        </div>
+      )}
+
+      {/* Connection points when hovered (to draw arrows to shapes) */}
+      {showHover &&
+        onConnectionPointMouseDown &&
+        onConnectionPointMouseUp &&
+        STANDARD_RECTANGLE_CONNECTION_POINTS.map((connectionPoint) => (
+          <ConnectionPointRenderer
+            key={connectionPoint.id}
+            connectionPoint={connectionPoint}
+            shapeWidth={width}
+            shapeHeight={height}
+            onMouseDown={handleConnectionPointMouseDown}
+            onMouseUp={handleConnectionPointMouseUp}
+          />
+        ))}
+    </ShapeWrapper>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * Annotation Text Renderer
+ *
+ * Renders free text boxes of the annotation layer. The outline only appears while
+ * the text is hovered or selected; the author and timestamp are shown as a tooltip.
+ */
+
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { ConnectionPointRenderer } from '../../shared/rendering/ConnectionPointRenderer';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { STANDARD_RECTANGLE_CONNECTION_POINTS } from '@/widgets/canvas/lib/utils/connectionPoints';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+import { getAnnotationShapeData } from '@/entities/shape';
+import { formatAnnotationAttribution } from '../ink';
+
+export function AnnotationTextRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+  onConnectionPointMouseDown,
+  onConnectionPointMouseUp,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+  const annotationData = getAnnotationShapeData(shape);
+
+  const {
+    isInteractive,
+    showHover,
+    showSelected,
+    handleConnectionPointMouseDown,
+    handleConnectionPointMouseUp,
+  } = useShapeInteractivity({
+    shape,
+    context,
+    onConnectionPointMouseDown,
+    onConnectionPointMouseUp,
+  });
+
+  let borderColor = 'transparent';
+  let borderWidth = 1 / zoom;
+  if (showSelected) {
+    borderColor = 'var(--primary)';
+    borderWidth = 2 / zoom;
+  } else if (showHover) {
+    borderColor = 'var(--border)';
+  }
+
+  return (
+    <ShapeWrapper
+      shape={shape}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor={borderColor}
+      borderWidth={borderWidth}
+      borderStyle="dashed"
+      backgroundColor=""
+      borderRadius={0}
+      hoverPadding={15}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${height}px`,
+        display: 'flex',
+        alignItems: 'flex-start',
+        padding: '2px 4px',
+      }}
+    >
+      {/* Editable text */}
+      <div
+        title={annotationData ? formatAnnotationAttribution(annotationData) : undefined}
+        style={{ flex: 1, minHeight: 0, overflow: 'hidden' }}
+      >
+        <EditableLabel
+          label={shape.label}
+          isEditing={isInteractive && isEditing}
+          onStartEdit={() => {}}
+          onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+          onFinishEdit={() => onFinishEditing?.()}
+          fontSize={14}
+          style={{
+            color: annotationData?.color ?? 'var(--canvas-annotation-text)',
+            pointerEvents: isInteractive && isEditing ? 'auto' : 'none',
+            textAlign: 'left',
+            width: '100%',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+          }}
+        />
+      </div>
+
+      {/* Connection points when hovered */}
+      {showHover &&
+        onConnectionPointMouseDown &&
+        onConnectionPointMouseUp &&
+        STANDARD_RECTANGLE_CONNECTION_POINTS.map((connectionPoint) => (
+          <ConnectionPointRenderer
+            key={connectionPoint.id}
+            connectionPoint={connectionPoint}
+            shapeWidth={width}
+            shapeHeight={height}
+            onMouseDown={handleConnectionPointMouseDown}
+            onMouseUp={handleConnectionPointMouseUp}
+          />
+        ))}
+    </ShapeWrapper>
+  );
+}
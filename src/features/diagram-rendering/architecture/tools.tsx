@@ -5,7 +5,7 @@
 
 import type { ComponentType } from 'react';
 import { LuCloud, LuDatabase, LuServer, LuHardDrive, LuGlobe, LuBox, LuMonitor, LuSmartphone, LuCode, LuTvMinimal, LuTablet } from "react-icons/lu";
-import { globalToolGroup } from '@/features/diagram-rendering/config/tools';
+import { annotationToolGroup, globalToolGroup } from '@/features/diagram-rendering/config/tools';
 import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
 
 /**
@@ -181,5 +181,6 @@ export const architectureToolGroups: ToolGroup[] = [
     label: 'Containers',
     tools: containerTools,
   },
+  annotationToolGroup, // Annotation layer available in all diagram types
   globalToolGroup, // AI-powered diagram generation
 ];
@@ -7,11 +7,15 @@ export * from './connectors';
 
 // Layout
 export * from './layout';
+export { isSwimlaneShape, layoutSwimlanes } from './swimlanes';
+export { applySwimlaneLayout } from './postProcessing';
 
 // Rendering
 export { BpmnTaskRenderer } from './rendering/BpmnTaskRenderer';
 export { BpmnEventRenderer } from './rendering/BpmnEventRenderer';
 export { BpmnGatewayRenderer } from './rendering/BpmnGatewayRenderer';
+export { BpmnPoolRenderer } from './rendering/BpmnPoolRenderer';
+export { BpmnLaneRenderer } from './rendering/BpmnLaneRenderer';
 
 // Mermaid Import/Export
 export { BpmnMermaidImporter, createBpmnMermaidImporter } from './mermaid/importer';
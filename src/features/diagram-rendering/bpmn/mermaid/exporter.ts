@@ -4,12 +4,16 @@ import type { Connector } from '@/entities/connector';
 import type {
   MermaidExportOptions,
   MermaidExportResult,
+  MermaidStyledLink,
 } from '@/shared/lib/mermaid';
 import { BaseMermaidExporter } from '@/shared/lib/mermaid';
+import { isSwimlaneShape } from '../swimlanes';
 
 /**
  * Mermaid exporter for BPMN diagrams
- * Converts BPMN shapes and connectors to Mermaid flowchart syntax
+ * Converts BPMN shapes and connectors to Mermaid flowchart syntax.
+ * Pools become subgraphs with their lanes as nested subgraphs; the flow
+ * elements are defined inside the subgraph of the lane they belong to.
  */
 export class BpmnMermaidExporter extends BaseMermaidExporter {
   getDiagramType(): string {
@@ -47,9 +51,25 @@ export class BpmnMermaidExporter extends BaseMermaidExporter {
       const shapeMap = new Map<string, Shape>();
       filteredShapes.forEach((shape) => shapeMap.set(shape.id, shape));
 
-      // Export connectors with inline node definitions
+      // Export pools and lanes as subgraphs with their members defined inside
       const exportedNodes = new Set<string>();
+      const childrenMap = new Map<string, Shape[]>();
+      for (const shape of filteredShapes) {
+        const parent = shape.parentId ? shapeMap.get(shape.parentId) : undefined;
+        if (parent && isSwimlaneShape(parent)) {
+          childrenMap.set(parent.id, [...(childrenMap.get(parent.id) ?? []), shape]);
+        }
+      }
 
+      for (const shape of filteredShapes) {
+        const parent = shape.parentId ? shapeMap.get(shape.parentId) : undefined;
+        if (isSwimlaneShape(shape) && !(parent && isSwimlaneShape(parent))) {
+          this.emitSwimlane(shape, childrenMap, idMap, lines, exportedNodes, 1);
+        }
+      }
+
+      // Export connectors with inline node definitions
+      const styledLinks: MermaidStyledLink[] = [];
       for (const connector of filteredConnectors) {
         const sourceShape = shapeMap.get(connector.sourceShapeId);
         const targetShape = shapeMap.get(connector.targetShapeId);
@@ -59,8 +79,8 @@ export class BpmnMermaidExporter extends BaseMermaidExporter {
           continue;
         }
 
-        const sourceNodeDef = this.getNodeShapeSyntax(sourceShape, idMap);
-        const targetNodeDef = this.getNodeShapeSyntax(targetShape, idMap);
+        const sourceNodeDef = this.getNodeReference(sourceShape, idMap);
+        const targetNodeDef = this.getNodeReference(targetShape, idMap);
 
         // Determine arrow syntax based on connector marker
         const arrowSyntax = this.getArrowSyntax(connector);
@@ -70,6 +90,7 @@ export class BpmnMermaidExporter extends BaseMermaidExporter {
           ? `|${this.sanitizeText(connector.label)}|`
           : '';
 
+        styledLinks.push({ index: styledLinks.length, style: connector.appearance });
         lines.push(
           `${this.getIndent()}${sourceNodeDef} ${arrowSyntax}${labelSyntax} ${targetNodeDef}`
         );
@@ -86,6 +107,18 @@ export class BpmnMermaidExporter extends BaseMermaidExporter {
         }
       }
 
+      // Export shape and connector styles
+      lines.push(
+        ...this.getNodeStyleLines(
+          filteredShapes.map((shape) => ({
+            nodeId: idMap.get(shape.id) || this.sanitizeId(shape.id),
+            style: shape.appearance,
+          })),
+          (nodeIds, className) => `class ${nodeIds.join(',')} ${className}`
+        ),
+        ...this.getLinkStyleLines(styledLinks)
+      );
+
       const syntax = lines.join('\n');
 
       const metadata = this.options.includeMetadata
@@ -112,6 +145,47 @@ export class BpmnMermaidExporter extends BaseMermaidExporter {
     }
   }
 
+  /**
+   * Emit a pool or lane subgraph with the definitions of its members, recursively
+   */
+  private emitSwimlane(
+    shape: Shape,
+    childrenMap: Map<string, Shape[]>,
+    idMap: Map<string, string>,
+    lines: string[],
+    exportedNodes: Set<string>,
+    level: number
+  ): void {
+    const nodeId = idMap.get(shape.id) || this.sanitizeId(shape.id);
+    const defaultLabel = shape.type === 'bpmn-pool' ? 'Pool' : 'Lane';
+    const label = this.sanitizeText(shape.label || defaultLabel);
+
+    lines.push(`${this.getIndent(level)}subgraph ${nodeId}["${label}"]`);
+    // Top to bottom, so lanes are imported in their stacking order
+    const children = [...(childrenMap.get(shape.id) ?? [])].sort((a, b) => a.y - b.y);
+    for (const child of children) {
+      if (isSwimlaneShape(child)) {
+        this.emitSwimlane(child, childrenMap, idMap, lines, exportedNodes, level + 1);
+      } else {
+        lines.push(`${this.getIndent(level + 1)}${this.getNodeShapeSyntax(child, idMap)}`);
+      }
+      exportedNodes.add(child.id);
+    }
+    lines.push(`${this.getIndent(level)}end`);
+    exportedNodes.add(shape.id);
+  }
+
+  /**
+   * Get the syntax a connector uses for its source or target
+   * Pools and lanes are referenced by subgraph ID, other shapes are defined inline
+   */
+  private getNodeReference(shape: Shape, idMap: Map<string, string>): string {
+    if (isSwimlaneShape(shape)) {
+      return idMap.get(shape.id) || this.sanitizeId(shape.id);
+    }
+    return this.getNodeShapeSyntax(shape, idMap);
+  }
+
   /**
    * Get mermaid node shape syntax based on BPMN shape type
    */
@@ -1,8 +1,13 @@
 import type { Result } from '@/shared/lib/utils';
-import type { CreateShapeDTO } from '@/entities/shape';
-import type { MermaidImportOptions, MermaidImportResult, MermaidConnectorRef } from '@/shared/lib/mermaid';
+import type {
+  MermaidImportOptions,
+  MermaidImportResult,
+  MermaidConnectorRef,
+  MermaidShapeRef,
+} from '@/shared/lib/mermaid';
 import { BaseMermaidImporter } from '@/shared/lib/mermaid';
 import { layoutBpmnGraph } from '../layout';
+import { isSwimlaneShape, layoutSwimlanes } from '../swimlanes';
 import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
 import { DEFAULT_SHAPE_SUBTYPES, getBpmnEventSubtype } from '@/features/diagram-rendering/config/shape-subtypes';
 
@@ -15,8 +20,22 @@ interface ParsedNode {
   shapeType: string;
   subtype: string;
   mermaidShape: string;
+  /** ID of the enclosing pool or lane subgraph */
+  parent?: string;
 }
 
+/**
+ * Position and size of a node while laying out the import
+ */
+interface NodeBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const { pool: poolConfig, lane: laneConfig } = CANVAS_CONFIG.shapes.bpmn;
+
 /**
  * Parsed connection information from Mermaid syntax
  */
@@ -28,9 +47,16 @@ interface ParsedConnection {
   markerEnd: 'arrow' | 'none';
 }
 
+/**
+ * Lines in flowchart syntax that carry styling or interaction only
+ */
+const IGNORED_STATEMENT_PATTERN = /^(direction|classDef|class|style|linkStyle|click)\b/;
+
 /**
  * Mermaid importer for BPMN diagrams
- * Parses Mermaid flowchart syntax back to BPMN shapes and connectors
+ * Parses Mermaid flowchart syntax back to BPMN shapes and connectors.
+ * Top-level subgraphs become pools and the subgraphs nested in them lanes;
+ * nodes belong to the pool or lane they first appear in.
  */
 export class BpmnMermaidImporter extends BaseMermaidImporter {
   getDiagramType(): string {
@@ -83,7 +109,7 @@ export class BpmnMermaidImporter extends BaseMermaidImporter {
 
       // Convert parsed nodes to shapes with layout (no IDs)
       // Pass connections to the layout method
-      const shapes = this.createShapesWithLayout(nodes, connections, opts);
+      const shapes = this.createShapesWithLayout(nodes, connections, indexMapping, opts);
 
       // Convert parsed connections to connector refs (using indices)
       const connectors = this.createConnectors(connections, indexMapping);
@@ -122,10 +148,41 @@ export class BpmnMermaidImporter extends BaseMermaidImporter {
 
       const nodes = new Map<string, ParsedNode>();
       const connections: ParsedConnection[] = [];
+      // Enclosing pool/lane of each open subgraph (subgraphs nested in a lane join that lane)
+      const swimlaneStack: string[] = [];
+
+      const addNode = (node: ParsedNode) => {
+        if (!nodes.has(node.id)) {
+          nodes.set(node.id, { ...node, parent: node.parent ?? swimlaneStack[swimlaneStack.length - 1] });
+        }
+      };
 
       for (const line of lines) {
         // Skip the header line
-        if (line.startsWith('flowchart') || line.startsWith('graph')) {
+        if (line.startsWith('flowchart') || line.startsWith('graph') || IGNORED_STATEMENT_PATTERN.test(line)) {
+          continue;
+        }
+
+        // Close the innermost subgraph
+        if (line === 'end') {
+          swimlaneStack.pop();
+          continue;
+        }
+
+        // Open a pool (top level) or lane (inside a pool)
+        const subgraphMatch = line.match(/^subgraph\s+(.+)$/);
+        if (subgraphMatch) {
+          if (swimlaneStack.length >= 2) {
+            swimlaneStack.push(swimlaneStack[swimlaneStack.length - 1]);
+            continue;
+          }
+          const swimlane = this.parseSubgraphHeader(
+            subgraphMatch[1].trim(),
+            nodes.size,
+            swimlaneStack[swimlaneStack.length - 1]
+          );
+          addNode(swimlane);
+          swimlaneStack.push(swimlane.id);
           continue;
         }
 
@@ -135,19 +192,15 @@ export class BpmnMermaidImporter extends BaseMermaidImporter {
           connections.push(connectionResult.connection);
 
           // Add nodes from connection if not already added
-          if (!nodes.has(connectionResult.sourceNode.id)) {
-            nodes.set(connectionResult.sourceNode.id, connectionResult.sourceNode);
-          }
-          if (!nodes.has(connectionResult.targetNode.id)) {
-            nodes.set(connectionResult.targetNode.id, connectionResult.targetNode);
-          }
+          addNode(connectionResult.sourceNode);
+          addNode(connectionResult.targetNode);
           continue;
         }
 
         // Try to parse as a standalone node
         const nodeResult = this.parseNodeDefinition(line);
-        if (nodeResult && !nodes.has(nodeResult.id)) {
-          nodes.set(nodeResult.id, nodeResult);
+        if (nodeResult) {
+          addNode(nodeResult);
         }
       }
 
@@ -166,6 +219,41 @@ export class BpmnMermaidImporter extends BaseMermaidImporter {
     }
   }
 
+  /**
+   * Parse a subgraph header into a pool, or a lane when nested in a pool
+   * Examples:
+   *   subgraph A["Customer"]
+   *   subgraph sales[Sales]
+   *   subgraph support
+   *   subgraph "Back Office"
+   */
+  private parseSubgraphHeader(header: string, index: number, poolId: string | undefined): ParsedNode {
+    const shapeType = poolId ? 'bpmn-lane' : 'bpmn-pool';
+    const swimlane = {
+      shapeType,
+      subtype: poolId ? 'lane' : 'pool',
+      mermaidShape: 'subgraph',
+      parent: poolId,
+    };
+
+    const labeledMatch = header.match(/^([A-Za-z0-9_]+)\s*\[\s*"?([^"\]]*)"?\s*\]$/);
+    if (labeledMatch) {
+      return { ...swimlane, id: labeledMatch[1], label: this.unsanitizeText(labeledMatch[2]) };
+    }
+
+    const idMatch = header.match(/^([A-Za-z0-9_]+)$/);
+    if (idMatch) {
+      return { ...swimlane, id: idMatch[1], label: idMatch[1] };
+    }
+
+    // Title-only subgraphs get a generated ID
+    return {
+      ...swimlane,
+      id: `${swimlane.subtype}_${index}`,
+      label: this.unsanitizeText(this.removeQuotes(header)),
+    };
+  }
+
   /**
    * Parse a connection line (e.g., "A[Task] --> B[Process]")
    */
@@ -343,19 +431,25 @@ export class BpmnMermaidImporter extends BaseMermaidImporter {
 
   /**
    * Create shapes with flow-based auto-layout (no IDs - they'll be generated when added to diagram)
+   * Pool and lane membership is expressed via parentIndex
    */
   private createShapesWithLayout(
     nodes: ParsedNode[],
     connections: ParsedConnection[],
+    indexMapping: Map<string, number>,
     options: Required<MermaidImportOptions>
-  ): CreateShapeDTO[] {
+  ): MermaidShapeRef[] {
     const { horizontal, vertical } = options.nodeSpacing;
 
     // Determine first and last nodes in the flow for position-based event subtype logic
     const { firstNodes, lastNodes } = this.findTerminalNodes(nodes, connections);
 
+    // Pools and lanes are placed around the flow elements once those are laid out
+    const flowNodes = nodes.filter((node) => !isSwimlaneShape({ type: node.shapeType }));
+    const flowNodeIds = new Set(flowNodes.map((node) => node.id));
+
     // Prepare nodes with dimensions for layout algorithm
-    const layoutNodes = nodes.map((node) => {
+    const layoutNodes = flowNodes.map((node) => {
       // Determine dimensions based on shape type
       let width = options.defaultShapeDimensions.width;
       let height = options.defaultShapeDimensions.height;
@@ -391,38 +485,146 @@ export class BpmnMermaidImporter extends BaseMermaidImporter {
     });
 
     // Apply auto-layout algorithm
-    const positions = layoutBpmnGraph(layoutNodes, connections, {
+    const flowConnections = connections.filter(
+      (conn) => flowNodeIds.has(conn.sourceId) && flowNodeIds.has(conn.targetId)
+    );
+    const positions = layoutBpmnGraph(layoutNodes, flowConnections, {
       horizontalSpacing: horizontal,
       verticalSpacing: vertical,
     });
 
-    // Create shape DTOs with calculated positions
-    const shapes: CreateShapeDTO[] = layoutNodes.map((layoutNode) => {
+    const bounds = new Map<string, NodeBounds>();
+    for (const layoutNode of layoutNodes) {
       const position = positions.find((p) => p.id === layoutNode.id);
-      const originalNode = nodes.find((n) => n.id === layoutNode.id);
-
-      if (!position || !originalNode) {
+      if (!position) {
         throw new Error(`Failed to calculate position for node ${layoutNode.id}`);
       }
-
-      const shape: CreateShapeDTO = {
-        type: layoutNode.type,
-        subtype: layoutNode.subtype,
+      bounds.set(layoutNode.id, {
         x: position.x,
         y: position.y,
         width: layoutNode.width,
         height: layoutNode.height,
-        label: layoutNode.label,
+      });
+    }
+
+    this.arrangeSwimlanes(nodes, bounds, vertical);
+
+    // Create shape refs with calculated positions
+    const subtypes = new Map(layoutNodes.map((layoutNode) => [layoutNode.id, layoutNode.subtype]));
+    const shapes: MermaidShapeRef[] = nodes.map((node) => {
+      const nodeBounds = bounds.get(node.id);
+      if (!nodeBounds) {
+        throw new Error(`Failed to calculate position for node ${node.id}`);
+      }
+
+      const shape: MermaidShapeRef = {
+        type: node.shapeType,
+        subtype: subtypes.get(node.id) ?? node.subtype,
+        ...nodeBounds,
+        label: node.label,
         zIndex: 0,
         locked: false,
         isPreview: false,
+        parentIndex: node.parent !== undefined ? indexMapping.get(node.parent) : undefined,
       };
 
       return shape;
     });
 
-    // Center all shapes around the target point
-    return this.centerShapesDTO(shapes, options.centerPoint);
+    // Center all shapes around the target point (centering keeps parentIndex intact)
+    return this.centerShapesDTO(shapes, options.centerPoint) as MermaidShapeRef[];
+  }
+
+  /**
+   * Place pools and lanes around the laid-out flow elements
+   * Members keep their positions relative to each other within a lane (so columns
+   * line up across lanes), lanes are stacked inside their pool and pools are
+   * stacked below the elements outside any pool.
+   */
+  private arrangeSwimlanes(
+    nodes: ParsedNode[],
+    bounds: Map<string, NodeBounds>,
+    verticalSpacing: number
+  ): void {
+    const pools = nodes.filter((node) => node.shapeType === 'bpmn-pool');
+    if (pools.length === 0) {
+      return;
+    }
+
+    const flowNodes = nodes.filter((node) => !isSwimlaneShape({ type: node.shapeType }));
+    const flowBounds = flowNodes.map((node) => bounds.get(node.id)!);
+    const freeBounds = flowNodes.filter((node) => !node.parent).map((node) => bounds.get(node.id)!);
+    const left = flowBounds.length > 0 ? Math.min(...flowBounds.map((b) => b.x)) : 0;
+    let top = freeBounds.length > 0
+      ? Math.max(...freeBounds.map((b) => b.y + b.height)) + verticalSpacing
+      : flowBounds.length > 0 ? Math.min(...flowBounds.map((b) => b.y)) : 0;
+
+    for (const pool of pools) {
+      const lanes = nodes.filter((node) => node.parent === pool.id && node.shapeType === 'bpmn-lane');
+
+      // Elements placed directly in a pool with lanes join its first lane
+      if (lanes.length > 0) {
+        flowNodes
+          .filter((node) => node.parent === pool.id)
+          .forEach((node) => {
+            node.parent = lanes[0].id;
+          });
+      }
+
+      const bands = lanes.length > 0 ? lanes : [pool];
+      const bandMembers = bands.map((band) => flowNodes.filter((node) => node.parent === band.id));
+      const poolMemberBounds = bandMembers.flat().map((node) => bounds.get(node.id)!);
+      const headerWidth = poolConfig.headerWidth + (lanes.length > 0 ? laneConfig.headerWidth : 0);
+      const dx = poolMemberBounds.length > 0
+        ? left + headerWidth + laneConfig.padding - Math.min(...poolMemberBounds.map((b) => b.x))
+        : 0;
+
+      let bandTop = top;
+      bands.forEach((band, index) => {
+        const memberBounds = bandMembers[index].map((node) => bounds.get(node.id)!);
+        let bandHeight: number = laneConfig.minHeight;
+
+        if (memberBounds.length > 0) {
+          const contentTop = Math.min(...memberBounds.map((b) => b.y));
+          const contentBottom = Math.max(...memberBounds.map((b) => b.y + b.height));
+          const dy = bandTop + laneConfig.padding - contentTop;
+          memberBounds.forEach((b) => {
+            b.x += dx;
+            b.y += dy;
+          });
+          bandHeight = Math.max(bandHeight, contentBottom - contentTop + laneConfig.padding * 2);
+        }
+
+        if (band !== pool) {
+          bounds.set(band.id, {
+            x: left + poolConfig.headerWidth,
+            y: bandTop,
+            width: laneConfig.width,
+            height: bandHeight,
+          });
+        }
+        bandTop += bandHeight;
+      });
+
+      bounds.set(pool.id, {
+        x: left,
+        y: top,
+        width: poolConfig.width,
+        height: bandTop - top,
+      });
+      top = bandTop + verticalSpacing;
+    }
+
+    // Fit pool and lane widths to their contents
+    const layoutShapes = nodes.map((node) => ({
+      id: node.id,
+      type: node.shapeType,
+      parentId: node.parent,
+      ...bounds.get(node.id)!,
+    }));
+    for (const { shapeId, toBounds } of layoutSwimlanes(layoutShapes)) {
+      bounds.set(shapeId, toBounds);
+    }
   }
 
   /**
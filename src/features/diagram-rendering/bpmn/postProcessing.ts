@@ -0,0 +1,40 @@
+/**
+ * BPMN Diagram Post-Processing
+ *
+ * Re-fits pools and lanes after shapes were moved, reparented or resized on the canvas.
+ * The layout runs as its own undoable resize command.
+ */
+
+import { canvasInstanceRegistry } from '@/shared/model/stores/canvas/canvasInstanceRegistry';
+import { commandManager } from '@/shared/model/commands';
+import type { CommandFactory } from '@/features/canvas-commands/model/CommandFactory';
+import { isSwimlaneShape, layoutSwimlanes } from './swimlanes';
+
+/**
+ * Apply the swimlane layout to the pools and lanes of a diagram
+ *
+ * @param diagramId - The ID of the diagram to process
+ * @param commandFactory - The command factory for creating the resize command
+ * @param resizedShapeId - Pool or lane the user just resized, if any
+ */
+export async function applySwimlaneLayout(
+  diagramId: string,
+  commandFactory: CommandFactory,
+  resizedShapeId?: string
+): Promise<void> {
+  // Get shapes from canvas instance's local state (updated immediately)
+  const localShapes = canvasInstanceRegistry.getStore(diagramId).getState().localShapes;
+
+  if (!localShapes.some(isSwimlaneShape)) {
+    // No pools or lanes, nothing to do
+    return;
+  }
+
+  const updates = layoutSwimlanes(localShapes, resizedShapeId);
+  if (updates.length === 0) {
+    return;
+  }
+
+  const command = commandFactory.createResizeShapes(diagramId, updates);
+  await commandManager.execute(command, diagramId);
+}
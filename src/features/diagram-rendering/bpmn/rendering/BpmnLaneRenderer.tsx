@@ -0,0 +1,140 @@
+/**
+ * BPMN Lane Renderer
+ *
+ * Renders a lane as a container with the role name in a vertical header band
+ * on its left. Lanes hold tasks, events and gateways and are stacked inside
+ * their pool, all sharing the pool's width.
+ */
+
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { ConnectionPointRenderer } from '../../shared/rendering/ConnectionPointRenderer';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { STANDARD_RECTANGLE_CONNECTION_POINTS } from '@/widgets/canvas/lib/utils/connectionPoints';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
+
+export function BpmnLaneRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+  onConnectionPointMouseDown,
+  onConnectionPointMouseUp,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+
+  const {
+    isInteractive,
+    showHover,
+    showSelected,
+    showHoveredContainer,
+    handleConnectionPointMouseDown,
+    handleConnectionPointMouseUp,
+  } = useShapeInteractivity({
+    shape,
+    context,
+    onConnectionPointMouseDown,
+    onConnectionPointMouseUp,
+  });
+
+  // Calculate zoom-compensated values
+  let borderWidth = 1 / zoom;
+  const { headerWidth } = CANVAS_CONFIG.shapes.bpmn.lane;
+
+  // Determine border color based on state
+  let borderColor = 'var(--border)';
+  if (showSelected) {
+    borderColor = 'var(--primary)';
+    borderWidth = 2 / zoom;
+  } else if (showHoveredContainer) {
+    // Visual feedback during drag - highlighted container
+    borderColor = 'var(--success)';
+    borderWidth = 2 / zoom;
+  } else if (showHover) {
+    borderColor = 'var(--secondary)';
+  }
+
+  return (
+    <ShapeWrapper
+      shape={shape}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor={borderColor}
+      borderWidth={borderWidth}
+      backgroundColor=""
+      borderRadius={0}
+      hoverPadding={15}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${height}px`,
+        display: 'flex',
+        flexDirection: 'row',
+        overflow: 'visible',
+      }}
+    >
+      {/* Header band with the vertical lane name */}
+      <div
+        style={{
+          width: `${headerWidth}px`,
+          flexShrink: 0,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          borderRight: `${borderWidth}px solid ${borderColor}`,
+        }}
+      >
+        <div style={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)' }}>
+          <EditableLabel
+            label={shape.label}
+            isEditing={isInteractive && isEditing}
+            onStartEdit={() => {}}
+            onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+            onFinishEdit={() => onFinishEditing?.()}
+            fontSize={12}
+            style={{
+              color: 'var(--text)',
+              pointerEvents: (isInteractive && isEditing) ? 'auto' : 'none',
+              textAlign: 'center',
+              fontWeight: 500,
+              whiteSpace: 'nowrap',
+            }}
+          />
+        </div>
+      </div>
+
+      {/* Content area - transparent for nested elements to show through */}
+      <div
+        style={{
+          flex: 1,
+          pointerEvents: 'none', // Allow click-through to nested shapes
+        }}
+      />
+
+      {/* Connection points when hovered - on lane edges */}
+      {showHover &&
+        onConnectionPointMouseDown &&
+        onConnectionPointMouseUp &&
+        STANDARD_RECTANGLE_CONNECTION_POINTS.map((connectionPoint) => (
+          <ConnectionPointRenderer
+            key={connectionPoint.id}
+            connectionPoint={connectionPoint}
+            shapeWidth={width}
+            shapeHeight={height}
+            onMouseDown={handleConnectionPointMouseDown}
+            onMouseUp={handleConnectionPointMouseUp}
+          />
+        ))}
+    </ShapeWrapper>
+  );
+}
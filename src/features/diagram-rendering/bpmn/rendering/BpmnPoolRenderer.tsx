@@ -0,0 +1,141 @@
+/**
+ * BPMN Pool Renderer
+ *
+ * Renders a pool as a container with the participant name in a vertical header
+ * band on its left. Lanes are stacked right of the header; the pool is re-fitted
+ * around its lanes and contents whenever they move or resize.
+ */
+
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { ConnectionPointRenderer } from '../../shared/rendering/ConnectionPointRenderer';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { STANDARD_RECTANGLE_CONNECTION_POINTS } from '@/widgets/canvas/lib/utils/connectionPoints';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
+
+export function BpmnPoolRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+  onConnectionPointMouseDown,
+  onConnectionPointMouseUp,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+
+  const {
+    isInteractive,
+    showHover,
+    showSelected,
+    showHoveredContainer,
+    handleConnectionPointMouseDown,
+    handleConnectionPointMouseUp,
+  } = useShapeInteractivity({
+    shape,
+    context,
+    onConnectionPointMouseDown,
+    onConnectionPointMouseUp,
+  });
+
+  // Calculate zoom-compensated values
+  let borderWidth = 2 / zoom;
+  const { headerWidth } = CANVAS_CONFIG.shapes.bpmn.pool;
+
+  // Determine border color based on state
+  let borderColor = 'var(--border)';
+  if (showSelected) {
+    borderColor = 'var(--primary)';
+    borderWidth = 3 / zoom;
+  } else if (showHoveredContainer) {
+    // Visual feedback during drag - highlighted container
+    borderColor = 'var(--success)';
+    borderWidth = 3 / zoom;
+  } else if (showHover) {
+    borderColor = 'var(--secondary)';
+  }
+
+  return (
+    <ShapeWrapper
+      shape={shape}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor={borderColor}
+      borderWidth={borderWidth}
+      backgroundColor=""
+      borderRadius={0}
+      hoverPadding={15}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${height}px`,
+        display: 'flex',
+        flexDirection: 'row',
+        overflow: 'visible',
+      }}
+    >
+      {/* Header band with the vertical pool name */}
+      <div
+        style={{
+          width: `${headerWidth}px`,
+          flexShrink: 0,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          borderRight: `${borderWidth}px solid ${borderColor}`,
+          backgroundColor: 'var(--bg-light)',
+        }}
+      >
+        <div style={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)' }}>
+          <EditableLabel
+            label={shape.label}
+            isEditing={isInteractive && isEditing}
+            onStartEdit={() => {}}
+            onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+            onFinishEdit={() => onFinishEditing?.()}
+            fontSize={13}
+            style={{
+              color: 'var(--text)',
+              pointerEvents: (isInteractive && isEditing) ? 'auto' : 'none',
+              textAlign: 'center',
+              fontWeight: 600,
+              whiteSpace: 'nowrap',
+            }}
+          />
+        </div>
+      </div>
+
+      {/* Lane area - transparent for lanes and nested elements to show through */}
+      <div
+        style={{
+          flex: 1,
+          pointerEvents: 'none', // Allow click-through to nested shapes
+        }}
+      />
+
+      {/* Connection points when hovered - message flows attach to the pool edges */}
+      {showHover &&
+        onConnectionPointMouseDown &&
+        onConnectionPointMouseUp &&
+        STANDARD_RECTANGLE_CONNECTION_POINTS.map((connectionPoint) => (
+          <ConnectionPointRenderer
+            key={connectionPoint.id}
+            connectionPoint={connectionPoint}
+            shapeWidth={width}
+            shapeHeight={height}
+            onMouseDown={handleConnectionPointMouseDown}
+            onMouseUp={handleConnectionPointMouseUp}
+          />
+        ))}
+    </ShapeWrapper>
+  );
+}
@@ -0,0 +1,184 @@
+/**
+ * BPMN Swimlane Layout
+ *
+ * Keeps pools and lanes fitted around their contents:
+ * - The lanes of a pool are stacked top to bottom in the order of their vertical
+ *   position, so dropping a lane above another one reorders them
+ * - Lanes span the pool right of its header; resizing one lane's width resizes
+ *   the pool and all other lanes with it
+ * - Lanes (and pools without lanes) grow to fit their contents
+ * - A pool is exactly as tall as its stacked lanes
+ * Contents move along with their lane when it takes a new place in the stack.
+ */
+
+import type { Shape } from '@/entities/shape';
+import type { Bounds } from '@/widgets/canvas/lib/utils/resize';
+import type { ShapeBoundsUpdate } from '@/features/canvas-commands/commands/shapes/ResizeShapesCommand';
+import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
+
+const { pool: poolConfig, lane: laneConfig } = CANVAS_CONFIG.shapes.bpmn;
+
+type SwimlaneLayoutShape = Pick<Shape, 'id' | 'type' | 'x' | 'y' | 'width' | 'height' | 'parentId'>;
+
+/**
+ * Check if a shape is a BPMN pool or lane
+ */
+export function isSwimlaneShape(shape: Pick<Shape, 'type'>): boolean {
+  return shape.type === 'bpmn-pool' || shape.type === 'bpmn-lane';
+}
+
+/**
+ * Lay out all pools and lanes of a diagram
+ *
+ * @param shapes - All shapes of the diagram
+ * @param resizedShapeId - Pool or lane the user just resized; its new size is kept
+ *   and the pool and sibling lanes follow it
+ * @returns Bounds updates for the shapes that changed (pools, lanes and moved contents)
+ */
+export function layoutSwimlanes(
+  shapes: SwimlaneLayoutShape[],
+  resizedShapeId?: string
+): ShapeBoundsUpdate[] {
+  const originalBounds = new Map<string, Bounds>(
+    shapes.map((shape) => [shape.id, { x: shape.x, y: shape.y, width: shape.width, height: shape.height }])
+  );
+  const bounds = new Map<string, Bounds>(
+    Array.from(originalBounds, ([id, shapeBounds]) => [id, { ...shapeBounds }])
+  );
+  const shapeMap = new Map(shapes.map((shape) => [shape.id, shape]));
+
+  const childrenByParent = new Map<string, SwimlaneLayoutShape[]>();
+  for (const shape of shapes) {
+    if (shape.parentId && shapeMap.has(shape.parentId)) {
+      const siblings = childrenByParent.get(shape.parentId) ?? [];
+      siblings.push(shape);
+      childrenByParent.set(shape.parentId, siblings);
+    }
+  }
+
+  const moveDescendants = (shapeId: string, dx: number, dy: number) => {
+    for (const child of childrenByParent.get(shapeId) ?? []) {
+      const childBounds = bounds.get(child.id)!;
+      childBounds.x += dx;
+      childBounds.y += dy;
+      moveDescendants(child.id, dx, dy);
+    }
+  };
+
+  /**
+   * Grow a container to fit its children, pushing children that stick out
+   * over the header or the top edge back inside
+   */
+  const fitToChildren = (containerId: string, headerWidth: number) => {
+    const children = childrenByParent.get(containerId) ?? [];
+    const container = bounds.get(containerId)!;
+    if (children.length === 0) return;
+
+    const childBounds = children.map((child) => bounds.get(child.id)!);
+    const left = Math.min(...childBounds.map((b) => b.x));
+    const top = Math.min(...childBounds.map((b) => b.y));
+    const shiftX = Math.max(0, container.x + headerWidth + laneConfig.padding - left);
+    const shiftY = Math.max(0, container.y + laneConfig.padding - top);
+
+    if (shiftX !== 0 || shiftY !== 0) {
+      for (const child of children) {
+        const b = bounds.get(child.id)!;
+        b.x += shiftX;
+        b.y += shiftY;
+        moveDescendants(child.id, shiftX, shiftY);
+      }
+    }
+
+    const right = Math.max(...childBounds.map((b) => b.x + b.width));
+    const bottom = Math.max(...childBounds.map((b) => b.y + b.height));
+    container.width = Math.max(container.width, right - container.x + laneConfig.padding);
+    container.height = Math.max(container.height, bottom - container.y + laneConfig.padding);
+  };
+
+  const layoutPool = (pool: SwimlaneLayoutShape) => {
+    const poolBounds = bounds.get(pool.id)!;
+    const lanes = (childrenByParent.get(pool.id) ?? [])
+      .filter((child) => child.type === 'bpmn-lane')
+      .sort((a, b) => {
+        const aBounds = bounds.get(a.id)!;
+        const bBounds = bounds.get(b.id)!;
+        return aBounds.y + aBounds.height / 2 - (bBounds.y + bBounds.height / 2);
+      });
+
+    if (lanes.length === 0) {
+      fitToChildren(pool.id, poolConfig.headerWidth);
+      return;
+    }
+
+    const laneBounds = lanes.map((lane) => bounds.get(lane.id)!);
+
+    // A resized lane sets the pool width, and thereby the width of every lane
+    const resizedLane = lanes.find((lane) => lane.id === resizedShapeId);
+    if (resizedLane) {
+      const { x, width } = bounds.get(resizedLane.id)!;
+      poolBounds.x = x - poolConfig.headerWidth;
+      poolBounds.width = width + poolConfig.headerWidth;
+    }
+
+    // Extra height of a resized pool goes to the first lane when the top edge moved,
+    // to the last lane otherwise (the contents of that lane stay in place)
+    if (resizedShapeId === pool.id) {
+      const first = laneBounds[0];
+      const last = laneBounds[laneBounds.length - 1];
+      if (poolBounds.y !== first.y) {
+        first.height += first.y - poolBounds.y;
+        first.y = poolBounds.y;
+      } else {
+        last.height = Math.max(last.height, poolBounds.y + poolBounds.height - last.y);
+      }
+    }
+
+    // Stack the lanes, moving their contents along
+    let nextY = poolBounds.y;
+    let laneWidth = poolBounds.width - poolConfig.headerWidth;
+    lanes.forEach((lane, index) => {
+      const b = laneBounds[index];
+      const dy = nextY - b.y;
+      if (dy !== 0) {
+        moveDescendants(lane.id, 0, dy);
+      }
+      b.x = poolBounds.x + poolConfig.headerWidth;
+      b.y = nextY;
+      b.width = laneWidth;
+      b.height = Math.max(b.height, laneConfig.minHeight);
+      fitToChildren(lane.id, laneConfig.headerWidth);
+
+      laneWidth = Math.max(laneWidth, b.width);
+      nextY += b.height;
+    });
+
+    // A lane that grew to fit its contents widens the pool and the other lanes
+    laneBounds.forEach((b) => {
+      b.width = laneWidth;
+    });
+    poolBounds.width = laneWidth + poolConfig.headerWidth;
+    poolBounds.height = nextY - poolBounds.y;
+  };
+
+  for (const shape of shapes) {
+    if (shape.type === 'bpmn-pool') {
+      layoutPool(shape);
+    } else if (shape.type === 'bpmn-lane' && shapeMap.get(shape.parentId ?? '')?.type !== 'bpmn-pool') {
+      fitToChildren(shape.id, laneConfig.headerWidth);
+    }
+  }
+
+  const updates: ShapeBoundsUpdate[] = [];
+  for (const [shapeId, toBounds] of bounds) {
+    const fromBounds = originalBounds.get(shapeId)!;
+    if (
+      fromBounds.x !== toBounds.x ||
+      fromBounds.y !== toBounds.y ||
+      fromBounds.width !== toBounds.width ||
+      fromBounds.height !== toBounds.height
+    ) {
+      updates.push({ shapeId, fromBounds, toBounds });
+    }
+  }
+  return updates;
+}
@@ -15,8 +15,8 @@ import {
   FaTimes,
   FaStream,
 } from 'react-icons/fa';
-import { LuSquareUserRound, LuSettings, LuSquareCode } from "react-icons/lu";
-import { globalToolGroup } from '@/features/diagram-rendering/config/tools';
+import { LuSquareUserRound, LuSettings, LuSquareCode, LuRows2, LuRectangleHorizontal } from "react-icons/lu";
+import { annotationToolGroup, globalToolGroup } from '@/features/diagram-rendering/config/tools';
 import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
 
 /**
@@ -59,7 +59,13 @@ export interface ToolGroup {
   tools: Tool[];
 }
 
-const { task: taskSize, startEvent: eventSize, gateway: gatewaySize } = CANVAS_CONFIG.shapes.bpmn;
+const {
+  task: taskSize,
+  startEvent: eventSize,
+  gateway: gatewaySize,
+  pool: poolSize,
+  lane: laneSize,
+} = CANVAS_CONFIG.shapes.bpmn;
 
 /**
  * BPMN Task Tools
@@ -194,6 +200,30 @@ const gatewayTools: Tool[] = [
   },
 ];
 
+/**
+ * BPMN Swimlane Tools
+ * Pools for participants and lanes for the roles within them
+ * (a lane dropped onto a pool is stacked inside it)
+ */
+const swimlaneTools: Tool[] = [
+  {
+    id: 'pool',
+    name: 'Pool',
+    icon: LuRectangleHorizontal,
+    shapeType: 'bpmn-pool',
+    shapeSubtype: 'pool',
+    defaultSize: { width: poolSize.width, height: poolSize.height },
+  },
+  {
+    id: 'lane',
+    name: 'Lane',
+    icon: LuRows2,
+    shapeType: 'bpmn-lane',
+    shapeSubtype: 'lane',
+    defaultSize: { width: laneSize.width, height: laneSize.height },
+  },
+];
+
 /**
  * BPMN Tool Groups
  * Organized collection of all BPMN tools by type
@@ -214,6 +244,12 @@ export const bpmnToolGroups: ToolGroup[] = [
     label: 'Gateways',
     tools: gatewayTools,
   },
+  {
+    type: 'swimlane',
+    label: 'Swimlanes',
+    tools: swimlaneTools,
+  },
+  annotationToolGroup, // Annotation layer available in all diagram types
   globalToolGroup, // Global tools available in all diagram types
 ];
 
@@ -225,6 +261,7 @@ export const allBpmnTools: Tool[] = [
   ...taskTools,
   ...eventTools,
   ...gatewayTools,
+  ...swimlaneTools,
 ];
 
 /**
@@ -80,6 +80,19 @@ export class ClassMermaidExporter extends BaseMermaidExporter {
         }
       }
 
+      // Export class styles (class diagrams have no link styles)
+      const styleLines = this.getNodeStyleLines(
+        filteredShapes.map((shape) => ({
+          nodeId: classNameMap.get(shape.id) || this.sanitizeId(shape.id),
+          style: shape.appearance,
+        })),
+        (nodeIds, className) => `cssClass "${nodeIds.join(',')}" ${className}`
+      );
+      if (styleLines.length > 0) {
+        lines.push('');
+        lines.push(...styleLines);
+      }
+
       const syntax = lines.join('\n');
 
       const metadata = this.options.includeMetadata
@@ -28,6 +28,11 @@ interface ParsedRelationship {
   targetCardinality?: string;
 }
 
+/**
+ * Lines in class diagram syntax that carry styling only
+ */
+const STYLE_STATEMENT_PATTERN = /^(classDef|cssClass|style)\b/;
+
 /**
  * Mermaid importer for Class diagrams
  * Parses Mermaid class diagram syntax back to class shapes and relationships
@@ -200,6 +205,11 @@ export class ClassMermaidImporter extends BaseMermaidImporter {
           continue;
         }
 
+        // Skip styling statements
+        if (STYLE_STATEMENT_PATTERN.test(line)) {
+          continue;
+        }
+
         // Parse relationship
         const relationshipResult = this.parseRelationshipLine(line, classes);
         if (relationshipResult) {
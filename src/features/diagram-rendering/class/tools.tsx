@@ -5,7 +5,7 @@
 
 import type { ComponentType } from 'react';
 import { FaSquare, FaListOl } from 'react-icons/fa';
-import { globalToolGroup } from '@/features/diagram-rendering/config/tools';
+import { annotationToolGroup, globalToolGroup } from '@/features/diagram-rendering/config/tools';
 import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
 
 /**
@@ -92,6 +92,7 @@ export const classToolGroups: ToolGroup[] = [
     label: 'Classes',
     tools: classTools,
   },
+  annotationToolGroup, // Annotation layer available in all diagram types
   globalToolGroup, // Global tools available in all diagram types
 ];
 
@@ -4,6 +4,7 @@
  */
 
 import { FaWandMagicSparkles } from 'react-icons/fa6';
+import { LuMessageSquare, LuStickyNote, LuType } from 'react-icons/lu';
 import type { Tool, ToolGroup } from '@/features/diagram-rendering/bpmn/tools';
 
 // Re-export Tool type for use in toolMappers
@@ -22,6 +23,38 @@ const generateDiagramTool: Tool = {
   defaultSize: { width: 280, height: 280 },
 };
 
+/**
+ * Annotation tools
+ * Free-form notes, text and callouts on the annotation overlay of any diagram
+ * (freehand ink is drawn with the pen mode of the canvas toolbar)
+ */
+const annotationTools: Tool[] = [
+  {
+    id: 'annotation-note',
+    name: 'Sticky Note',
+    icon: LuStickyNote,
+    shapeType: 'annotation-note',
+    shapeSubtype: '',
+    defaultSize: { width: 160, height: 120 },
+  },
+  {
+    id: 'annotation-text',
+    name: 'Text',
+    icon: LuType,
+    shapeType: 'annotation-text',
+    shapeSubtype: '',
+    defaultSize: { width: 160, height: 40 },
+  },
+  {
+    id: 'annotation-callout',
+    name: 'Callout',
+    icon: LuMessageSquare,
+    shapeType: 'annotation-callout',
+    shapeSubtype: '',
+    defaultSize: { width: 180, height: 90 },
+  },
+];
+
 /**
  * Global tools array
  * Tools that should be available in all diagram type toolsets
@@ -38,10 +71,20 @@ export const globalToolGroup: ToolGroup = {
   tools: globalTools,
 };
 
+/**
+ * Annotation tool group for use in popover toolsets
+ * Added to all diagram type tool groups, before the global tool group
+ */
+export const annotationToolGroup: ToolGroup = {
+  type: 'annotation',
+  label: 'Annotations',
+  tools: annotationTools,
+};
+
 /**
  * Flat list of all global tools
  */
-export const allGlobalTools: Tool[] = globalTools;
+export const allGlobalTools: Tool[] = [...globalTools, ...annotationTools];
 
 /**
  * Get global tool by ID
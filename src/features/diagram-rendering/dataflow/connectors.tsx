@@ -0,0 +1,82 @@
+/**
+ * Data Flow Connector Configuration
+ * Defines all available data flow diagram connector types
+ */
+
+import type { ComponentType } from 'react';
+import { TbArrowRight, TbArrowsLeftRight } from 'react-icons/tb';
+import type { ArrowType, LineType } from '@/entities/connector';
+
+/**
+ * Connector tool definition interface
+ * Represents a connector type that can be created on the canvas
+ */
+export interface ConnectorTool {
+  /** Unique identifier for the connector type */
+  id: string;
+  /** Display name for the connector type */
+  name: string;
+  /** Icon component from react-icons */
+  icon: ComponentType<{ size?: number }>;
+  /** Connector type identifier */
+  connectorType: string;
+  /** Default routing style */
+  style: 'straight' | 'orthogonal' | 'curved';
+  /** Marker at the start of the connector */
+  markerStart: ArrowType;
+  /** Marker at the end of the connector */
+  markerEnd: ArrowType;
+  /** Line style */
+  lineType: LineType;
+}
+
+/**
+ * Data Flow Connector Tools
+ * Flows carry a label describing the data that moves between elements
+ */
+const dataflowConnectorTools: ConnectorTool[] = [
+  {
+    id: 'data-flow',
+    name: 'Data Flow',
+    icon: TbArrowRight,
+    connectorType: 'data-flow',
+    style: 'orthogonal',
+    markerStart: 'none',
+    markerEnd: 'arrow',
+    lineType: 'solid',
+  },
+  {
+    id: 'bidirectional-data-flow',
+    name: 'Bidirectional Data Flow',
+    icon: TbArrowsLeftRight,
+    connectorType: 'bidirectional-data-flow',
+    style: 'orthogonal',
+    markerStart: 'arrow',
+    markerEnd: 'arrow',
+    lineType: 'solid',
+  },
+];
+
+/**
+ * All data flow connector tools
+ */
+export const allDataflowConnectorTools: ConnectorTool[] = dataflowConnectorTools;
+
+/**
+ * Default data flow connector type
+ */
+export const defaultDataflowConnectorType = 'data-flow';
+
+/**
+ * Get connector tool by ID
+ */
+export function getDataflowConnectorToolById(id: string): ConnectorTool | undefined {
+  return allDataflowConnectorTools.find(tool => tool.id === id);
+}
+
+/**
+ * Get connector tool by connector type
+ */
+export function getDataflowConnectorToolByType(type: string): ConnectorTool | undefined {
+  return allDataflowConnectorTools.find(tool => tool.connectorType === type);
+}
@@ -0,0 +1,22 @@
+// Data Flow Diagram Module
+// All Data Flow diagram-specific code is organized here
+
+// Tools & Connectors
+export * from './tools';
+export * from './connectors';
+
+// Layout
+export * from './layout';
+
+// Rendering
+export { DataflowEntityRenderer } from './rendering/DataflowEntityRenderer';
+export { DataflowProcessRenderer } from './rendering/DataflowProcessRenderer';
+export { DataflowStoreRenderer } from './rendering/DataflowStoreRenderer';
+export { DataflowBoundaryRenderer } from './rendering/DataflowBoundaryRenderer';
+
+// Mermaid Import/Export
+export { DataflowMermaidImporter, createDataflowMermaidImporter } from './mermaid/importer';
+export { DataflowMermaidExporter, createDataflowMermaidExporter } from './mermaid/exporter';
+
+// Components
+export { DataflowToolsetPopover } from './components/ToolsetPopover';
@@ -0,0 +1,297 @@
+/**
+ * Data Flow Diagram Auto-Layout Algorithm
+ *
+ * Positions data flow diagram nodes (entities, processes, stores, boundaries)
+ * with the following rules:
+ * - Nodes are ranked left-to-right by the longest flow path leading to them
+ * - Nodes sharing a rank are stacked vertically in a column
+ * - Trust boundaries auto-size to fit their contained children
+ * - A boundary takes the lowest rank of its descendants, so nested content
+ *   is laid out with the same column rules relative to the boundary
+ * - Flows that close a cycle are ignored when ranking
+ */
+
+import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
+
+export type DataflowNodeType = 'entity' | 'process' | 'store' | 'boundary';
+
+export interface DataflowLayoutNode {
+  id: string;
+  label: string;
+  nodeType: DataflowNodeType;
+  parent?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ParsedNode {
+  id: string;
+  label: string;
+  nodeType: DataflowNodeType;
+  parent?: string;
+}
+
+interface LayoutConnection {
+  sourceId: string;
+  targetId: string;
+}
+
+interface LayoutResult {
+  nodes: DataflowLayoutNode[];
+  width: number;
+  height: number;
+}
+
+type ShapeConfig = typeof CANVAS_CONFIG.shapes.dataflow;
+type LayoutConfig = typeof CANVAS_CONFIG.dataflowLayout;
+
+/**
+ * Layout a data flow graph using flow ranks and hierarchical containment.
+ * Returned nodes keep the order of the input array.
+ */
+export function layoutDataflowGraph(
+  nodes: ParsedNode[],
+  connections: LayoutConnection[]
+): DataflowLayoutNode[] {
+  if (nodes.length === 0) {
+    return [];
+  }
+
+  const config = CANVAS_CONFIG.dataflowLayout;
+  const shapeConfig = CANVAS_CONFIG.shapes.dataflow;
+
+  // Build parent-to-children map preserving input order
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const childrenMap = new Map<string | null, ParsedNode[]>();
+  nodes.forEach((node) => {
+    const parentKey = node.parent && nodeIds.has(node.parent) ? node.parent : null;
+    if (!childrenMap.has(parentKey)) {
+      childrenMap.set(parentKey, []);
+    }
+    childrenMap.get(parentKey)!.push(node);
+  });
+
+  const ranks = computeFlowRanks(nodes, connections, childrenMap);
+
+  const rootResult = layoutChildren(
+    childrenMap.get(null) || [],
+    childrenMap,
+    ranks,
+    shapeConfig,
+    config
+  );
+
+  const positioned = new Map<string, DataflowLayoutNode>();
+  translateNodes(rootResult.nodes, config.startPosition.x, config.startPosition.y).forEach(
+    (node) => positioned.set(node.id, node)
+  );
+
+  return nodes
+    .map((node) => positioned.get(node.id))
+    .filter((node): node is DataflowLayoutNode => node !== undefined);
+}
+
+/**
+ * Compute the flow rank of every node.
+ * Leaf nodes use the longest path from a source; boundaries use the minimum rank
+ * of their descendants.
+ */
+function computeFlowRanks(
+  nodes: ParsedNode[],
+  connections: LayoutConnection[],
+  childrenMap: Map<string | null, ParsedNode[]>
+): Map<string, number> {
+  const outgoing = new Map<string, string[]>();
+  nodes.forEach((node) => outgoing.set(node.id, []));
+  connections.forEach((conn) => {
+    if (conn.sourceId !== conn.targetId && outgoing.has(conn.sourceId) && outgoing.has(conn.targetId)) {
+      outgoing.get(conn.sourceId)!.push(conn.targetId);
+    }
+  });
+
+  // Depth-first search to drop back edges, leaving an acyclic flow graph
+  const visitState = new Map<string, 'visiting' | 'done'>();
+  const acyclicEdges: Array<[string, string]> = [];
+  const visit = (id: string) => {
+    visitState.set(id, 'visiting');
+    for (const targetId of outgoing.get(id) || []) {
+      const state = visitState.get(targetId);
+      if (state === 'visiting') {
+        continue; // Back edge closes a cycle
+      }
+      acyclicEdges.push([id, targetId]);
+      if (!state) {
+        visit(targetId);
+      }
+    }
+    visitState.set(id, 'done');
+  };
+  nodes.forEach((node) => {
+    if (!visitState.has(node.id)) {
+      visit(node.id);
+    }
+  });
+
+  // Longest path relaxation (terminates because the edge set is acyclic)
+  const ranks = new Map<string, number>();
+  nodes.forEach((node) => ranks.set(node.id, 0));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [sourceId, targetId] of acyclicEdges) {
+      const candidate = ranks.get(sourceId)! + 1;
+      if (candidate > ranks.get(targetId)!) {
+        ranks.set(targetId, candidate);
+        changed = true;
+      }
+    }
+  }
+
+  // Boundaries adopt the lowest rank found among their descendants
+  const resolveBoundaryRank = (node: ParsedNode): number => {
+    if (node.nodeType !== 'boundary') {
+      return ranks.get(node.id)!;
+    }
+    const children = childrenMap.get(node.id) || [];
+    const rank = children.length > 0
+      ? Math.min(...children.map(resolveBoundaryRank))
+      : ranks.get(node.id)!;
+    ranks.set(node.id, rank);
+    return rank;
+  };
+  (childrenMap.get(null) || []).forEach(resolveBoundaryRank);
+
+  return ranks;
+}
+
+/**
+ * Layout a node and its descendants with the node's top-left corner at the origin
+ */
+function layoutSubtree(
+  node: ParsedNode,
+  childrenMap: Map<string | null, ParsedNode[]>,
+  ranks: Map<string, number>,
+  shapeConfig: ShapeConfig,
+  layoutConfig: LayoutConfig
+): LayoutResult {
+  if (node.nodeType !== 'boundary') {
+    const { width, height } = getNodeDimensions(node.nodeType, shapeConfig);
+    return {
+      nodes: [{ ...node, x: 0, y: 0, width, height }],
+      width,
+      height,
+    };
+  }
+
+  const padding = layoutConfig.boundaryPadding;
+  const content = layoutChildren(
+    childrenMap.get(node.id) || [],
+    childrenMap,
+    ranks,
+    shapeConfig,
+    layoutConfig
+  );
+
+  const width = Math.max(
+    content.width + padding.left + padding.right,
+    shapeConfig.boundary.minWidth
+  );
+  const height = Math.max(
+    content.height + padding.top + padding.bottom,
+    shapeConfig.boundary.minHeight
+  );
+
+  return {
+    nodes: [
+      { ...node, x: 0, y: 0, width, height },
+      ...translateNodes(content.nodes, padding.left, padding.top),
+    ],
+    width,
+    height,
+  };
+}
+
+/**
+ * Layout sibling nodes in rank columns, with the content's top-left corner at the origin
+ */
+function layoutChildren(
+  children: ParsedNode[],
+  childrenMap: Map<string | null, ParsedNode[]>,
+  ranks: Map<string, number>,
+  shapeConfig: ShapeConfig,
+  layoutConfig: LayoutConfig
+): LayoutResult {
+  if (children.length === 0) {
+    return { nodes: [], width: 0, height: 0 };
+  }
+
+  // Group subtrees into columns by rank, preserving input order within a column
+  const columnsByRank = new Map<number, LayoutResult[]>();
+  children.forEach((child) => {
+    const rank = ranks.get(child.id) ?? 0;
+    if (!columnsByRank.has(rank)) {
+      columnsByRank.set(rank, []);
+    }
+    columnsByRank.get(rank)!.push(
+      layoutSubtree(child, childrenMap, ranks, shapeConfig, layoutConfig)
+    );
+  });
+
+  const columns = Array.from(columnsByRank.entries())
+    .sort(([rankA], [rankB]) => rankA - rankB)
+    .map(([, column]) => column);
+
+  const columnWidths = columns.map((column) => Math.max(...column.map((item) => item.width)));
+  const columnHeights = columns.map(
+    (column) =>
+      column.reduce((sum, item) => sum + item.height, 0) +
+      (column.length - 1) * layoutConfig.nodeSpacing
+  );
+  const totalHeight = Math.max(...columnHeights);
+
+  // Position each column, centering items horizontally and columns vertically
+  const nodes: DataflowLayoutNode[] = [];
+  let columnX = 0;
+  columns.forEach((column, columnIndex) => {
+    let itemY = (totalHeight - columnHeights[columnIndex]) / 2;
+    for (const item of column) {
+      const itemX = columnX + (columnWidths[columnIndex] - item.width) / 2;
+      nodes.push(...translateNodes(item.nodes, itemX, itemY));
+      itemY += item.height + layoutConfig.nodeSpacing;
+    }
+    columnX += columnWidths[columnIndex] + layoutConfig.rankSpacing;
+  });
+
+  const totalWidth = columnX - layoutConfig.rankSpacing;
+
+  return { nodes, width: totalWidth, height: totalHeight };
+}
+
+/**
+ * Get default dimensions for a node type
+ */
+function getNodeDimensions(
+  nodeType: DataflowNodeType,
+  shapeConfig: ShapeConfig
+): { width: number; height: number } {
+  switch (nodeType) {
+    case 'process':
+      return { width: shapeConfig.process.width, height: shapeConfig.process.height };
+    case 'store':
+      return { width: shapeConfig.store.width, height: shapeConfig.store.height };
+    case 'boundary':
+      return { width: shapeConfig.boundary.minWidth, height: shapeConfig.boundary.minHeight };
+    case 'entity':
+    default:
+      return { width: shapeConfig.entity.width, height: shapeConfig.entity.height };
+  }
+}
+
+/**
+ * Offset a list of layout nodes
+ */
+function translateNodes(nodes: DataflowLayoutNode[], dx: number, dy: number): DataflowLayoutNode[] {
+  return nodes.map((node) => ({ ...node, x: node.x + dx, y: node.y + dy }));
+}
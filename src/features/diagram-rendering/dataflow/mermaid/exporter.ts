@@ -0,0 +1,214 @@
+import type { Result } from '@/shared/lib/utils';
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import type {
+  MermaidExportOptions,
+  MermaidExportResult,
+  MermaidStyledLink,
+} from '@/shared/lib/mermaid';
+import { BaseMermaidExporter } from '@/shared/lib/mermaid';
+
+/**
+ * Mermaid exporter for Data Flow diagrams
+ * Converts DFD shapes and connectors to Mermaid flowchart syntax:
+ * - External entities as rectangles: A["User"]
+ * - Processes as circles: B(("Authenticate"))
+ * - Data stores as cylinders: C[("Sessions")]
+ * - Trust boundaries as (nested) subgraphs
+ * - Data flows as labelled edges: A -->|credentials| B
+ */
+export class DataflowMermaidExporter extends BaseMermaidExporter {
+  getDiagramType(): string {
+    return 'dataflow';
+  }
+
+  export(shapes: Shape[], connectors: Connector[]): Result<MermaidExportResult> {
+    // Filter out overlay elements (e.g., suggestions) before export
+    const filteredShapes = this.filterOverlayElements(shapes);
+    const filteredConnectors = this.filterOverlayConnectors(connectors);
+
+    const validationResult = this.validate(filteredShapes, filteredConnectors);
+    if (!validationResult.ok) {
+      return validationResult;
+    }
+
+    try {
+      const lines: string[] = [];
+
+      // Add diagram type and direction
+      lines.push(`flowchart ${this.options.direction}`);
+
+      // Add metadata comments if enabled
+      if (this.options.includeComments) {
+        lines.push('');
+        lines.push(`%% Generated: ${new Date().toISOString()}`);
+        lines.push(`%% Elements: ${filteredShapes.filter(s => s.type !== 'dataflow-boundary').length}, Boundaries: ${filteredShapes.filter(s => s.type === 'dataflow-boundary').length}, Flows: ${filteredConnectors.length}`);
+        lines.push('');
+      }
+
+      // Create alphabetic ID mapping (A, B, C, ...)
+      const idMap = this.createAlphabeticIdMap(filteredShapes);
+
+      // Create shape lookup for quick access
+      const shapeMap = new Map<string, Shape>();
+      filteredShapes.forEach((shape) => shapeMap.set(shape.id, shape));
+
+      // Group shapes by their enclosing boundary (shapes with unknown parents go to the root)
+      const childrenMap = new Map<string | null, Shape[]>();
+      for (const shape of filteredShapes) {
+        const parent = shape.parentId ? shapeMap.get(shape.parentId) : undefined;
+        const parentKey = parent?.type === 'dataflow-boundary' ? parent.id : null;
+        if (!childrenMap.has(parentKey)) {
+          childrenMap.set(parentKey, []);
+        }
+        childrenMap.get(parentKey)!.push(shape);
+      }
+
+      // Export nodes, nesting boundaries as subgraphs
+      this.emitNodes(childrenMap.get(null) || [], childrenMap, idMap, lines, 1);
+
+      // Export data flows
+      const flowLines: string[] = [];
+      const styledLinks: MermaidStyledLink[] = [];
+      for (const connector of filteredConnectors) {
+        const sourceShape = shapeMap.get(connector.sourceShapeId);
+        const targetShape = shapeMap.get(connector.targetShapeId);
+
+        // Skip connector if source or target shape not found
+        if (!sourceShape || !targetShape) {
+          continue;
+        }
+
+        const sourceId = idMap.get(sourceShape.id) || this.sanitizeId(sourceShape.id);
+        const targetId = idMap.get(targetShape.id) || this.sanitizeId(targetShape.id);
+
+        // Add flow label if present
+        const labelSyntax = connector.label
+          ? `|${this.sanitizeText(connector.label)}|`
+          : '';
+
+        // A flow drawn with only a start marker points from target to source
+        const isReversed = connector.markerStart === 'arrow' && connector.markerEnd !== 'arrow';
+        const [fromId, toId] = isReversed ? [targetId, sourceId] : [sourceId, targetId];
+
+        styledLinks.push({ index: flowLines.length, style: connector.appearance });
+        flowLines.push(
+          `${this.getIndent()}${fromId} ${this.getArrowSyntax(connector)}${labelSyntax} ${toId}`
+        );
+      }
+
+      if (flowLines.length > 0) {
+        lines.push('');
+        lines.push(...flowLines);
+      }
+
+      // Export element and flow styles
+      const styleLines = [
+        ...this.getNodeStyleLines(
+          filteredShapes.map((shape) => ({
+            nodeId: idMap.get(shape.id) || this.sanitizeId(shape.id),
+            style: shape.appearance,
+          })),
+          (nodeIds, className) => `class ${nodeIds.join(',')} ${className}`
+        ),
+        ...this.getLinkStyleLines(styledLinks),
+      ];
+      if (styleLines.length > 0) {
+        lines.push('');
+        lines.push(...styleLines);
+      }
+
+      const syntax = lines.join('\n');
+
+      const metadata = this.options.includeMetadata
+        ? {
+            diagramType: this.getDiagramType(),
+            nodeCount: filteredShapes.length,
+            edgeCount: filteredConnectors.length,
+            exportedAt: new Date(),
+          }
+        : undefined;
+
+      return {
+        ok: true,
+        value: {
+          syntax,
+          metadata,
+        },
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        error: `Failed to export data flow diagram: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Recursively emit node definitions, wrapping boundary contents in subgraphs
+   */
+  private emitNodes(
+    shapes: Shape[],
+    childrenMap: Map<string | null, Shape[]>,
+    idMap: Map<string, string>,
+    lines: string[],
+    level: number
+  ): void {
+    for (const shape of shapes) {
+      const nodeId = idMap.get(shape.id) || this.sanitizeId(shape.id);
+
+      if (shape.type === 'dataflow-boundary') {
+        const label = this.sanitizeText(shape.label || 'Trust Boundary');
+        lines.push(`${this.getIndent(level)}subgraph ${nodeId}["${label}"]`);
+        this.emitNodes(childrenMap.get(shape.id) || [], childrenMap, idMap, lines, level + 1);
+        lines.push(`${this.getIndent(level)}end`);
+        continue;
+      }
+
+      lines.push(`${this.getIndent(level)}${this.getNodeShapeSyntax(shape, nodeId)}`);
+    }
+  }
+
+  /**
+   * Get mermaid node shape syntax based on DFD shape type
+   */
+  private getNodeShapeSyntax(shape: Shape, nodeId: string): string {
+    const nodeText = this.sanitizeText(shape.label || '');
+
+    switch (shape.type) {
+      case 'dataflow-process':
+        return `${nodeId}(("${nodeText || 'Process'}"))`;
+      case 'dataflow-store':
+        return `${nodeId}[("${nodeText || 'Data Store'}")]`;
+      case 'dataflow-entity':
+      default:
+        return `${nodeId}["${nodeText || 'External Entity'}"]`;
+    }
+  }
+
+  /**
+   * Get mermaid arrow syntax based on connector markers and line type
+   */
+  private getArrowSyntax(connector: Connector): string {
+    const isBidirectional = connector.markerStart === 'arrow' && connector.markerEnd === 'arrow';
+    const hasArrow = connector.markerStart === 'arrow' || connector.markerEnd === 'arrow';
+    const isDashed = connector.lineType === 'dashed' || connector.lineType === 'dotted';
+
+    if (isBidirectional) {
+      return isDashed ? '<-.->' : '<-->';
+    }
+    if (!hasArrow) {
+      return isDashed ? '-.-' : '---';
+    }
+    return isDashed ? '-.->' : '-->';
+  }
+}
+
+/**
+ * Factory function to create a data flow mermaid exporter
+ */
+export function createDataflowMermaidExporter(
+  options?: MermaidExportOptions
+): DataflowMermaidExporter {
+  return new DataflowMermaidExporter(options);
+}
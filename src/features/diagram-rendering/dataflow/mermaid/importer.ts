@@ -0,0 +1,371 @@
+import type { Result } from '@/shared/lib/utils';
+import type { MermaidImportOptions, MermaidImportResult, MermaidConnectorRef, MermaidShapeRef } from '@/shared/lib/mermaid';
+import { BaseMermaidImporter } from '@/shared/lib/mermaid';
+import { layoutDataflowGraph, type DataflowNodeType } from '../layout';
+
+/**
+ * Parsed node information from Mermaid flowchart syntax
+ */
+interface ParsedNode {
+  id: string;
+  label: string;
+  nodeType: DataflowNodeType;
+  parent?: string;
+  /** True while the node has only been referenced by ID, without a shape definition */
+  isReference?: boolean;
+}
+
+/**
+ * Parsed data flow information from Mermaid flowchart syntax
+ */
+interface ParsedConnection {
+  sourceId: string;
+  targetId: string;
+  label?: string;
+  bidirectional: boolean;
+  directed: boolean;
+  lineType: 'solid' | 'dashed';
+}
+
+/**
+ * Lines in flowchart syntax that carry styling or interaction only
+ */
+const IGNORED_STATEMENT_PATTERN = /^(direction|classDef|class|style|linkStyle|click)\b/;
+
+/**
+ * Mermaid importer for Data Flow diagrams
+ * Parses Mermaid flowchart syntax back to DFD shapes and connectors.
+ * Subgraphs become trust boundaries; nodes belong to the subgraph they first appear in.
+ */
+export class DataflowMermaidImporter extends BaseMermaidImporter {
+  getDiagramType(): string {
+    return 'dataflow';
+  }
+
+  validate(mermaidSyntax: string): Result<void> {
+    const baseValidation = super.validate(mermaidSyntax);
+    if (!baseValidation.ok) {
+      return baseValidation;
+    }
+
+    // Check if it's a flowchart diagram
+    const trimmed = mermaidSyntax.trim();
+    if (!trimmed.startsWith('flowchart') && !trimmed.startsWith('graph')) {
+      return {
+        ok: false,
+        error: 'Incorrect format for data flow diagram. Expected flowchart syntax.',
+      };
+    }
+
+    return { ok: true, value: undefined };
+  }
+
+  import(
+    mermaidSyntax: string,
+    options?: MermaidImportOptions
+  ): Result<MermaidImportResult> {
+    const validationResult = this.validate(mermaidSyntax);
+    if (!validationResult.ok) {
+      return validationResult;
+    }
+
+    try {
+      const opts = this.mergeOptions(options);
+
+      // Parse the mermaid syntax
+      const parseResult = this.parseMermaidSyntax(mermaidSyntax);
+      if (!parseResult.ok) {
+        return parseResult;
+      }
+
+      const { nodes, connections } = parseResult.value;
+
+      // Create index mapping from node IDs to array indices
+      const indexMapping = new Map<string, number>();
+      nodes.forEach((node, index) => {
+        indexMapping.set(node.id, index);
+      });
+
+      // Convert parsed nodes to shapes with layout (no IDs)
+      const shapes = this.createShapesWithLayout(nodes, connections, indexMapping, opts);
+
+      // Convert parsed connections to connector refs (using indices)
+      const connectors = this.createConnectors(connections, indexMapping);
+
+      const result: MermaidImportResult = {
+        shapes,
+        connectors,
+        metadata: {
+          diagramType: this.getDiagramType(),
+          nodeCount: shapes.length,
+          edgeCount: connectors.length,
+          importedAt: new Date(),
+        },
+      };
+
+      return { ok: true, value: result };
+    } catch (error) {
+      return {
+        ok: false,
+        error: `Failed to import data flow diagram: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Parse mermaid flowchart syntax into nodes and connections
+   */
+  private parseMermaidSyntax(
+    syntax: string
+  ): Result<{ nodes: ParsedNode[]; connections: ParsedConnection[] }> {
+    try {
+      const lines = syntax
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0 && !line.startsWith('%%')); // Remove comments
+
+      const nodes = new Map<string, ParsedNode>();
+      const connections: ParsedConnection[] = [];
+      const boundaryStack: string[] = [];
+
+      const addNode = (node: ParsedNode) => {
+        const existing = nodes.get(node.id);
+        if (!existing) {
+          nodes.set(node.id, { ...node, parent: boundaryStack[boundaryStack.length - 1] });
+        } else if (existing.isReference && !node.isReference) {
+          // A later definition supplies the shape and label, membership stays with the first mention
+          nodes.set(node.id, { ...node, parent: existing.parent });
+        }
+      };
+
+      for (const line of lines) {
+        // Skip the header line and styling statements
+        if (line.startsWith('flowchart') || line.startsWith('graph') || IGNORED_STATEMENT_PATTERN.test(line)) {
+          continue;
+        }
+
+        // Close the innermost trust boundary
+        if (line === 'end') {
+          boundaryStack.pop();
+          continue;
+        }
+
+        // Open a trust boundary
+        const subgraphMatch = line.match(/^subgraph\s+(.+)$/);
+        if (subgraphMatch) {
+          const boundary = this.parseSubgraphHeader(subgraphMatch[1].trim(), nodes.size);
+          addNode(boundary);
+          boundaryStack.push(boundary.id);
+          continue;
+        }
+
+        // Try to parse as a data flow line
+        const connectionResult = this.parseConnectionLine(line);
+        if (connectionResult) {
+          addNode(connectionResult.sourceNode);
+          addNode(connectionResult.targetNode);
+          connections.push(connectionResult.connection);
+          continue;
+        }
+
+        // Try to parse as a standalone node
+        const nodeResult = this.parseNodeDefinition(line);
+        if (nodeResult) {
+          addNode(nodeResult);
+        }
+      }
+
+      return {
+        ok: true,
+        value: {
+          nodes: Array.from(nodes.values()),
+          connections,
+        },
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        error: `Failed to parse mermaid syntax: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Parse a subgraph header
+   * Examples:
+   *   subgraph A["Internet"]
+   *   subgraph dmz[DMZ]
+   *   subgraph corp
+   *   subgraph "Corporate Network"
+   */
+  private parseSubgraphHeader(header: string, index: number): ParsedNode {
+    const labeledMatch = header.match(/^([A-Za-z0-9_]+)\s*\[\s*"?([^"\]]*)"?\s*\]$/);
+    if (labeledMatch) {
+      return {
+        id: labeledMatch[1],
+        label: this.unsanitizeText(labeledMatch[2]),
+        nodeType: 'boundary',
+      };
+    }
+
+    const idMatch = header.match(/^([A-Za-z0-9_]+)$/);
+    if (idMatch) {
+      return { id: idMatch[1], label: idMatch[1], nodeType: 'boundary' };
+    }
+
+    // Title-only subgraphs get a generated ID
+    return {
+      id: `boundary_${index}`,
+      label: this.unsanitizeText(this.removeQuotes(header)),
+      nodeType: 'boundary',
+    };
+  }
+
+  /**
+   * Parse a data flow line (e.g., "A -->|credentials| B", "A[User] <--> B((Login))")
+   */
+  private parseConnectionLine(line: string): {
+    sourceNode: ParsedNode;
+    targetNode: ParsedNode;
+    connection: ParsedConnection;
+  } | null {
+    const match = line.match(/^(.+?)\s*(<-->|<-\.->|-->|-\.->|---|-\.-)\s*(?:\|([^|]*)\|)?\s*(.+)$/);
+    if (!match) {
+      return null;
+    }
+
+    const sourceNode = this.parseNodeDefinition(match[1].trim());
+    const targetNode = this.parseNodeDefinition(match[4].trim());
+
+    if (!sourceNode || !targetNode) {
+      return null;
+    }
+
+    const arrowSyntax = match[2];
+    const label = match[3] !== undefined ? this.removeQuotes(match[3].trim()) : '';
+
+    return {
+      sourceNode,
+      targetNode,
+      connection: {
+        sourceId: sourceNode.id,
+        targetId: targetNode.id,
+        label: label ? this.unsanitizeText(label) : undefined,
+        bidirectional: arrowSyntax.startsWith('<'),
+        directed: arrowSyntax.endsWith('>'),
+        lineType: arrowSyntax.includes('.') ? 'dashed' : 'solid',
+      },
+    };
+  }
+
+  /**
+   * Parse a node definition
+   * Examples:
+   *   A["User"]          -> external entity
+   *   B(("Authenticate")) -> process
+   *   B("Authenticate")   -> process
+   *   C[("Sessions")]     -> data store
+   *   D                   -> reference to a node defined elsewhere
+   */
+  private parseNodeDefinition(nodeStr: string): ParsedNode | null {
+    // Drop class shorthand (e.g., A["User"]:::external)
+    const definition = nodeStr.replace(/:::[A-Za-z0-9_-]+$/, '').trim();
+
+    const patterns: Array<{ pattern: RegExp; nodeType: DataflowNodeType }> = [
+      { pattern: /^([A-Za-z0-9_]+)\[\(\s*"?([^"]*?)"?\s*\)\]$/, nodeType: 'store' }, // Cylinder [(label)]
+      { pattern: /^([A-Za-z0-9_]+)\(\(\s*"?([^"]*?)"?\s*\)\)$/, nodeType: 'process' }, // Circle ((label))
+      { pattern: /^([A-Za-z0-9_]+)\(\s*"?([^"]*?)"?\s*\)$/, nodeType: 'process' }, // Rounded rect (label)
+      { pattern: /^([A-Za-z0-9_]+)\[\s*"?([^"\]]*?)"?\s*\]$/, nodeType: 'entity' }, // Rectangle [label]
+    ];
+
+    for (const { pattern, nodeType } of patterns) {
+      const match = definition.match(pattern);
+      if (match) {
+        return {
+          id: match[1],
+          label: this.unsanitizeText(match[2]),
+          nodeType,
+        };
+      }
+    }
+
+    // Handle simple node IDs without shape definition (e.g., just "A")
+    const simpleIdMatch = definition.match(/^([A-Za-z0-9_]+)$/);
+    if (simpleIdMatch) {
+      return {
+        id: simpleIdMatch[1],
+        label: simpleIdMatch[1], // Use the ID as the label
+        nodeType: 'entity',
+        isReference: true,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Create shapes with auto-layout
+   * Boundary membership is expressed via parentIndex
+   */
+  private createShapesWithLayout(
+    nodes: ParsedNode[],
+    connections: ParsedConnection[],
+    indexMapping: Map<string, number>,
+    options: Required<MermaidImportOptions>
+  ): MermaidShapeRef[] {
+    // Layout preserves the input order, so node indices stay valid
+    const layoutedNodes = layoutDataflowGraph(nodes, connections);
+
+    const shapes: MermaidShapeRef[] = layoutedNodes.map((node) => ({
+      type: `dataflow-${node.nodeType}`,
+      x: node.x,
+      y: node.y,
+      width: node.width,
+      height: node.height,
+      label: node.label,
+      zIndex: 0,
+      locked: false,
+      isPreview: false,
+      parentIndex: node.parent !== undefined ? indexMapping.get(node.parent) : undefined,
+    }));
+
+    // Center all shapes around the target point (centering keeps parentIndex intact)
+    return this.centerShapesDTO(shapes, options.centerPoint) as MermaidShapeRef[];
+  }
+
+  /**
+   * Create connectors from parsed data flows
+   */
+  private createConnectors(
+    connections: ParsedConnection[],
+    indexMapping: Map<string, number>
+  ): MermaidConnectorRef[] {
+    return connections.map((conn) => {
+      const sourceIndex = indexMapping.get(conn.sourceId);
+      const targetIndex = indexMapping.get(conn.targetId);
+
+      if (sourceIndex === undefined || targetIndex === undefined) {
+        throw new Error(`Invalid data flow: ${conn.sourceId} -> ${conn.targetId}`);
+      }
+
+      return {
+        fromShapeIndex: sourceIndex,
+        toShapeIndex: targetIndex,
+        type: conn.bidirectional ? 'bidirectional-data-flow' : 'data-flow',
+        style: 'orthogonal',
+        markerStart: conn.bidirectional ? 'arrow' : 'none',
+        markerEnd: conn.directed ? 'arrow' : 'none',
+        lineType: conn.lineType,
+        label: conn.label,
+        zIndex: 0,
+      };
+    });
+  }
+}
+
+/**
+ * Factory function to create a data flow importer
+ */
+export function createDataflowMermaidImporter(): DataflowMermaidImporter {
+  return new DataflowMermaidImporter();
+}
@@ -0,0 +1,153 @@
+/**
+ * Data Flow Trust Boundary Renderer
+ *
+ * Renders trust boundaries as dashed containers with a labelled header.
+ * Boundaries contain entities, processes, stores and nested boundaries;
+ * every flow that crosses the dashed edge is a candidate for threat review.
+ */
+
+import { LuShieldHalf } from 'react-icons/lu';
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { ConnectionPointRenderer } from '../../shared/rendering/ConnectionPointRenderer';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { STANDARD_RECTANGLE_CONNECTION_POINTS } from '@/widgets/canvas/lib/utils/connectionPoints';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+
+export function DataflowBoundaryRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+  onConnectionPointMouseDown,
+  onConnectionPointMouseUp,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+
+  const {
+    isInteractive,
+    showHover,
+    showSelected,
+    showHoveredContainer,
+    handleConnectionPointMouseDown,
+    handleConnectionPointMouseUp,
+  } = useShapeInteractivity({
+    shape,
+    context,
+    onConnectionPointMouseDown,
+    onConnectionPointMouseUp,
+  });
+
+  // Calculate zoom-compensated values
+  let borderWidth = 2 / zoom;
+  const headerHeight = 40;
+  const padding = 12;
+
+  // Determine border color based on state (boundaries are red by convention)
+  let borderColor = 'var(--danger)';
+  if (showSelected) {
+    borderColor = 'var(--primary)';
+    borderWidth = 3 / zoom;
+  } else if (showHoveredContainer) {
+    // Visual feedback during drag - highlighted container
+    borderColor = 'var(--success)';
+    borderWidth = 3 / zoom;
+  } else if (showHover) {
+    borderColor = 'var(--secondary)';
+  }
+
+  return (
+    <ShapeWrapper
+      shape={shape}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor={borderColor}
+      borderWidth={borderWidth}
+      backgroundColor=""
+      borderRadius={2}
+      borderStyle="dashed"
+      hoverPadding={15}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${height}px`,
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'visible',
+      }}
+    >
+      {/* Header section with icon and label */}
+      <div
+        style={{
+          height: `${headerHeight}px`,
+          display: 'flex',
+          alignItems: 'center',
+          gap: `${8 / zoom}px`,
+          padding: `${padding}px`,
+        }}
+      >
+        <div
+          style={{
+            color: 'var(--danger)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            pointerEvents: 'none',
+            flexShrink: 0,
+          }}
+        >
+          <LuShieldHalf size={16} />
+        </div>
+
+        {/* Editable label */}
+        <EditableLabel
+          label={shape.label}
+          isEditing={isInteractive && isEditing}
+          onStartEdit={() => {}}
+          onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+          onFinishEdit={() => onFinishEditing?.()}
+          fontSize={13}
+          style={{
+            color: 'var(--text)',
+            pointerEvents: (isInteractive && isEditing) ? 'auto' : 'none',
+            textAlign: 'left',
+            flex: 1,
+            fontWeight: 600,
+          }}
+        />
+      </div>
+
+      {/* Content area - transparent for nested elements to show through */}
+      <div
+        style={{
+          flex: 1,
+          pointerEvents: 'none', // Allow click-through to nested shapes
+        }}
+      />
+
+      {/* Connection points when hovered - on boundary edges */}
+      {showHover &&
+        onConnectionPointMouseDown &&
+        onConnectionPointMouseUp &&
+        STANDARD_RECTANGLE_CONNECTION_POINTS.map((connectionPoint) => (
+          <ConnectionPointRenderer
+            key={connectionPoint.id}
+            connectionPoint={connectionPoint}
+            shapeWidth={width}
+            shapeHeight={height}
+            onMouseDown={handleConnectionPointMouseDown}
+            onMouseUp={handleConnectionPointMouseUp}
+          />
+        ))}
+    </ShapeWrapper>
+  );
+}
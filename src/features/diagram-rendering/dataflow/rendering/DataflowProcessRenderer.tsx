@@ -0,0 +1,122 @@
+/**
+ * Data Flow Process Renderer
+ *
+ * Renders processes (transformations of data) as circles with a centered label.
+ */
+
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { ConnectionPointRenderer } from '../../shared/rendering/ConnectionPointRenderer';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { STANDARD_RECTANGLE_CONNECTION_POINTS } from '@/widgets/canvas/lib/utils/connectionPoints';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+
+export function DataflowProcessRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+  onConnectionPointMouseDown,
+  onConnectionPointMouseUp,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+
+  const {
+    isInteractive,
+    showHover,
+    showSelected,
+    handleConnectionPointMouseDown,
+    handleConnectionPointMouseUp,
+  } = useShapeInteractivity({
+    shape,
+    context,
+    onConnectionPointMouseDown,
+    onConnectionPointMouseUp,
+  });
+
+  // Processes are circles, so use the smaller dimension
+  const diameter = Math.min(width, height);
+
+  // Calculate zoom-compensated values
+  let borderWidth = 2 / zoom;
+  // Keep the label inside the inscribed square of the circle
+  const padding = diameter * 0.15;
+
+  // Determine border color based on state
+  let borderColor = 'var(--border)';
+  if (showSelected) {
+    borderColor = 'var(--primary)';
+    borderWidth = 3 / zoom;
+  } else if (showHover) {
+    borderColor = 'var(--secondary)';
+  }
+
+  // Determine background color
+  let backgroundColor = 'var(--bg)';
+  if (showSelected) {
+    backgroundColor = 'var(--bg)';
+  } else if (showHover) {
+    backgroundColor = 'var(--bg-light)';
+  }
+
+  return (
+    <ShapeWrapper
+      shape={{ ...shape, width: diameter, height: diameter }}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor={borderColor}
+      borderWidth={borderWidth}
+      backgroundColor={backgroundColor}
+      hoverPadding={15}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${diameter}px`,
+        borderRadius: '50%',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: `${padding}px`,
+      }}
+    >
+      {/* Editable label */}
+      <EditableLabel
+        label={shape.label}
+        isEditing={isInteractive && isEditing}
+        onStartEdit={() => {}}
+        onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+        onFinishEdit={() => onFinishEditing?.()}
+        fontSize={12}
+        style={{
+          color: 'var(--text)',
+          pointerEvents: (isInteractive && isEditing) ? 'auto' : 'none',
+          textAlign: 'center',
+        }}
+      />
+
+      {/* Connection points when hovered */}
+      {showHover &&
+        onConnectionPointMouseDown &&
+        onConnectionPointMouseUp &&
+        STANDARD_RECTANGLE_CONNECTION_POINTS.map((connectionPoint) => (
+          <ConnectionPointRenderer
+            key={connectionPoint.id}
+            connectionPoint={connectionPoint}
+            shapeWidth={diameter}
+            shapeHeight={diameter}
+            onMouseDown={handleConnectionPointMouseDown}
+            onMouseUp={handleConnectionPointMouseUp}
+          />
+        ))}
+    </ShapeWrapper>
+  );
+}
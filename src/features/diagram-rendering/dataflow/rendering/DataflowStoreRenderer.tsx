@@ -0,0 +1,133 @@
+/**
+ * Data Flow Data Store Renderer
+ *
+ * Renders data stores (data at rest) as an open-ended rectangle:
+ * top and bottom rules with a closed left edge and an open right edge.
+ */
+
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { ConnectionPointRenderer } from '../../shared/rendering/ConnectionPointRenderer';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { STANDARD_RECTANGLE_CONNECTION_POINTS } from '@/widgets/canvas/lib/utils/connectionPoints';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+
+export function DataflowStoreRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+  onConnectionPointMouseDown,
+  onConnectionPointMouseUp,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+
+  const {
+    isInteractive,
+    showHover,
+    showSelected,
+    handleConnectionPointMouseDown,
+    handleConnectionPointMouseUp,
+  } = useShapeInteractivity({
+    shape,
+    context,
+    onConnectionPointMouseDown,
+    onConnectionPointMouseUp,
+  });
+
+  // Calculate zoom-compensated values
+  let borderWidth = 2 / zoom;
+  const padding = 8;
+
+  // Determine border color based on state
+  let borderColor = 'var(--border)';
+  if (showSelected) {
+    borderColor = 'var(--primary)';
+    borderWidth = 3 / zoom;
+  } else if (showHover) {
+    borderColor = 'var(--secondary)';
+  }
+
+  // Determine background color
+  let backgroundColor = 'var(--bg)';
+  if (showSelected) {
+    backgroundColor = 'var(--bg)';
+  } else if (showHover) {
+    backgroundColor = 'var(--bg-light)';
+  }
+
+  const lineStyle = `${borderWidth}px solid ${borderColor}`;
+
+  return (
+    <ShapeWrapper
+      shape={shape}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor="transparent"
+      borderWidth={0}
+      backgroundColor={backgroundColor}
+      borderRadius={0}
+      hoverPadding={15}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${height}px`,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: `${padding}px`,
+      }}
+    >
+      {/* Open-ended outline */}
+      <div
+        style={{
+          position: 'absolute',
+          inset: 0,
+          borderTop: lineStyle,
+          borderBottom: lineStyle,
+          borderLeft: lineStyle,
+          pointerEvents: 'none',
+        }}
+      />
+
+      {/* Editable label */}
+      <EditableLabel
+        label={shape.label}
+        isEditing={isInteractive && isEditing}
+        onStartEdit={() => {}}
+        onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+        onFinishEdit={() => onFinishEditing?.()}
+        fontSize={12}
+        style={{
+          color: 'var(--text)',
+          pointerEvents: (isInteractive && isEditing) ? 'auto' : 'none',
+          textAlign: 'center',
+        }}
+      />
+
+      {/* Connection points when hovered */}
+      {showHover &&
+        onConnectionPointMouseDown &&
+        onConnectionPointMouseUp &&
+        STANDARD_RECTANGLE_CONNECTION_POINTS.map((connectionPoint) => (
+          <ConnectionPointRenderer
+            key={connectionPoint.id}
+            connectionPoint={connectionPoint}
+            shapeWidth={width}
+            shapeHeight={height}
+            onMouseDown={handleConnectionPointMouseDown}
+            onMouseUp={handleConnectionPointMouseUp}
+          />
+        ))}
+    </ShapeWrapper>
+  );
+}
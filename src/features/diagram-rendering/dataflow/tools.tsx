@@ -0,0 +1,135 @@
+/**
+ * Data Flow Toolset Configuration
+ * Defines all available data flow diagram (DFD) tools organized by type
+ */
+
+import type { ComponentType } from 'react';
+import { LuSquareUser, LuCircle, LuDatabase, LuShieldHalf } from 'react-icons/lu';
+import { annotationToolGroup, globalToolGroup } from '@/features/diagram-rendering/config/tools';
+import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
+
+/**
+ * Tool definition interface
+ * Represents a single tool that can create shapes on the canvas
+ */
+export interface Tool {
+  /** Unique identifier for the tool */
+  id: string;
+  /** Display name for the tool */
+  name: string;
+  /** Icon component from react-icons */
+  icon: ComponentType<{ size?: number }>;
+  /** Shape type (e.g., 'dataflow-process', 'dataflow-boundary') */
+  shapeType: string;
+  /** Shape subtype (optional) */
+  shapeSubtype?: string;
+  /** Default size for the shape */
+  defaultSize: {
+    width: number;
+    height: number;
+  };
+  /** Position offset for shape creation (in pixels) */
+  creationOffset?: {
+    x?: number;
+    y?: number;
+  };
+  /** Initial data for the shape */
+  initialData?: Record<string, unknown>;
+}
+
+/**
+ * Tool group definition
+ * Organizes tools by type (e.g., Elements, Boundaries)
+ */
+export interface ToolGroup {
+  /** Group type identifier */
+  type: string;
+  /** Display label for the group */
+  label: string;
+  /** Tools in this group */
+  tools: Tool[];
+}
+
+const {
+  entity: entitySize,
+  process: processSize,
+  store: storeSize,
+  boundary: boundarySize,
+} = CANVAS_CONFIG.shapes.dataflow;
+
+/**
+ * Data Flow Element Tools
+ * External entities, processes and data stores are the nodes data flows between
+ */
+const elementTools: Tool[] = [
+  {
+    id: 'external-entity',
+    name: 'External Entity',
+    icon: LuSquareUser,
+    shapeType: 'dataflow-entity',
+    defaultSize: { width: entitySize.width, height: entitySize.height },
+  },
+  {
+    id: 'process',
+    name: 'Process',
+    icon: LuCircle,
+    shapeType: 'dataflow-process',
+    defaultSize: { width: processSize.width, height: processSize.height },
+  },
+  {
+    id: 'data-store',
+    name: 'Data Store',
+    icon: LuDatabase,
+    shapeType: 'dataflow-store',
+    defaultSize: { width: storeSize.width, height: storeSize.height },
+  },
+];
+
+/**
+ * Data Flow Boundary Tools
+ * Trust boundaries contain elements and can be nested
+ */
+const boundaryTools: Tool[] = [
+  {
+    id: 'trust-boundary',
+    name: 'Trust Boundary',
+    icon: LuShieldHalf,
+    shapeType: 'dataflow-boundary',
+    defaultSize: { width: boundarySize.minWidth * 2, height: boundarySize.minHeight * 2 },
+  },
+];
+
+/**
+ * All tool groups for data flow diagrams
+ * Includes elements, boundaries, and global AI tools
+ */
+export const dataflowToolGroups: ToolGroup[] = [
+  {
+    type: 'element',
+    label: 'Elements',
+    tools: elementTools,
+  },
+  {
+    type: 'boundary',
+    label: 'Boundaries',
+    tools: boundaryTools,
+  },
+  annotationToolGroup, // Annotation layer available in all diagram types
+  globalToolGroup, // Global tools available in all diagram types
+];
+
+/**
+ * Flat list of all data flow tools
+ * Useful for lookups and iteration
+ */
+export const allDataflowTools: Tool[] = [
+  ...elementTools,
+  ...boundaryTools,
+];
+
+/**
+ * Get data flow tool by ID
+ */
+export function getDataflowToolById(id: string): Tool | undefined {
+  return allDataflowTools.find(tool => tool.id === id);
+}
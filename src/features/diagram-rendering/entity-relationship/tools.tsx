@@ -5,7 +5,7 @@
 
 import type { ComponentType } from 'react';
 import { FaTable } from 'react-icons/fa';
-import { globalToolGroup } from '@/features/diagram-rendering/config/tools';
+import { annotationToolGroup, globalToolGroup } from '@/features/diagram-rendering/config/tools';
 import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
 
 /**
@@ -79,6 +79,7 @@ export const entityRelationshipToolGroups: ToolGroup[] = [
     label: 'Entities',
     tools: entityTools,
   },
+  annotationToolGroup, // Annotation layer available in all diagram types
   globalToolGroup, // Global tools available in all diagram types
 ];
 
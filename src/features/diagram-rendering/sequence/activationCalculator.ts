@@ -11,6 +11,7 @@ import {
   FIRST_CONNECTION_POINT_Y,
   CONNECTION_POINT_SPACING,
 } from './constants';
+import { findInnermostFragment, getSequenceFragments } from './fragmentLayout';
 
 /**
  * Calculates activation boxes for a sequence diagram lifeline based on connected messages.
@@ -19,15 +20,18 @@ import {
  * 1. Find all incoming messages (messages targeting this lifeline)
  * 2. For each incoming message, look for a corresponding return message going back
  * 3. Create activation from incoming Y to return Y (or default length if no return)
- * 4. Handle nesting by tracking activation depth based on overlaps
+ * 4. Clip activations without a return at the bottom of the innermost enclosing fragment
+ * 5. Handle nesting by tracking activation depth based on overlaps
  *
  * @param lifeline - The sequence lifeline shape
  * @param connectors - All connectors in the diagram
+ * @param fragments - Combined fragment shapes in the diagram
  * @returns Array of activation boxes sorted by startY
  */
 export function calculateActivations(
   lifeline: Shape,
-  connectors: Connector[]
+  connectors: Connector[],
+  fragments: Shape[] = []
 ): ActivationBox[] {
   // Only process sequence lifelines
   if (lifeline.type !== 'sequence-lifeline') {
@@ -104,8 +108,18 @@ export function calculateActivations(
       endY = extractYOffsetFromConnectionPoint(matchingReturn.sourceConnectionPoint!)!;
       usedReturns.add(matchingReturn.id);
     } else {
-      // No return found, use default length
+      // No return found, use default length but never run past the enclosing fragment
       endY = startY + DEFAULT_ACTIVATION_LENGTH;
+
+      const enclosingFragment = findInnermostFragment(
+        fragments,
+        lifeline.x + lifeline.width / 2,
+        lifeline.y + startY
+      );
+      if (enclosingFragment) {
+        const fragmentBottom = enclosingFragment.y + enclosingFragment.height - lifeline.y;
+        endY = Math.min(endY, fragmentBottom);
+      }
     }
 
     activations.push({
@@ -199,9 +213,10 @@ export function calculateAllLifelineActivations(
   const activationsMap = new Map<string, ActivationBox[]>();
 
   const lifelines = shapes.filter((s) => s.type === 'sequence-lifeline');
+  const fragments = getSequenceFragments(shapes);
 
   for (const lifeline of lifelines) {
-    const activations = calculateActivations(lifeline, connectors);
+    const activations = calculateActivations(lifeline, connectors, fragments);
     activationsMap.set(lifeline.id, activations);
   }
 
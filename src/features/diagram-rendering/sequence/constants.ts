@@ -2,6 +2,8 @@
  * Configuration constants for sequence diagram lifelines
  */
 
+import type { SequenceFragmentType } from '@/entities/shape';
+
 /**
  * Height of the participant box at the top of a lifeline
  */
@@ -53,3 +55,42 @@ export function calculateConnectionPointCount(height: number): number {
  * Default height for newly created lifelines (based on MIN_CONNECTION_POINTS)
  */
 export const DEFAULT_LIFELINE_HEIGHT = calculateLifelineHeight(MIN_CONNECTION_POINTS);
+
+/**
+ * Distance from the top of a combined fragment to the first message it encloses
+ * (leaves room for the operator tab and guard label)
+ */
+export const FRAGMENT_HEADER_OFFSET = 32;
+
+/**
+ * Distance from the last enclosed message to the bottom of a combined fragment
+ */
+export const FRAGMENT_BOTTOM_PADDING = CONNECTION_POINT_SPACING / 2;
+
+/**
+ * Horizontal padding between a combined fragment and the lifelines it spans
+ */
+export const FRAGMENT_HORIZONTAL_PADDING = 20;
+
+/**
+ * Horizontal inset applied per nesting level so nested fragment borders don't overlap
+ */
+export const FRAGMENT_NESTING_INSET = 8;
+
+/**
+ * Mermaid keyword that introduces each additional operand of a combined fragment.
+ * Operators without an entry only have a single operand.
+ */
+export const FRAGMENT_OPERAND_KEYWORDS: Partial<Record<SequenceFragmentType, string>> = {
+  alt: 'else',
+  par: 'and',
+  critical: 'option',
+};
+
+/**
+ * Calculate the Y-offset of a divider placed midway before the message at the given
+ * relative index (0 = first message enclosed by the fragment)
+ */
+export function calculateFragmentDividerOffset(relativeMessageIndex: number): number {
+  return FRAGMENT_HEADER_OFFSET + relativeMessageIndex * CONNECTION_POINT_SPACING - CONNECTION_POINT_SPACING / 2;
+}
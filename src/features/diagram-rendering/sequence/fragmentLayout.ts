@@ -0,0 +1,101 @@
+/**
+ * Sequence Fragment Layout
+ *
+ * Geometry helpers for combined fragments. A fragment encloses every message whose
+ * connection point falls between its top and bottom edges; operands are split by
+ * dividers stored as Y-offsets relative to the fragment top.
+ */
+
+import type { Shape } from '@/entities/shape';
+import { getSequenceFragmentData } from '@/entities/shape';
+import { CONNECTION_POINT_SPACING, FIRST_CONNECTION_POINT_Y } from './constants';
+
+/**
+ * Range of connection point indices enclosed by a fragment (inclusive)
+ */
+export interface FragmentMessageRange {
+  startIndex: number;
+  endIndex: number;
+}
+
+/**
+ * Returns all combined fragment shapes in a diagram
+ */
+export function getSequenceFragments(shapes: Shape[]): Shape[] {
+  return shapes.filter((shape) => shape.type === 'sequence-fragment');
+}
+
+/**
+ * Calculates which connection point indices of a lifeline fall inside a fragment.
+ * Returns null if the fragment does not enclose any connection point.
+ *
+ * @param fragment - The fragment shape
+ * @param lifelineTop - Y-coordinate of the top of the lifeline
+ */
+export function getFragmentMessageRange(
+  fragment: Shape,
+  lifelineTop: number
+): FragmentMessageRange | null {
+  const relativeTop = fragment.y - lifelineTop - FIRST_CONNECTION_POINT_Y;
+  const relativeBottom = fragment.y + fragment.height - lifelineTop - FIRST_CONNECTION_POINT_Y;
+
+  // First point strictly below the top edge, last point strictly above the bottom edge
+  const startIndex = Math.max(0, Math.floor(relativeTop / CONNECTION_POINT_SPACING) + 1);
+  const endIndex = Math.ceil(relativeBottom / CONNECTION_POINT_SPACING) - 1;
+
+  if (endIndex < startIndex) {
+    return null;
+  }
+
+  return { startIndex, endIndex };
+}
+
+/**
+ * Checks whether a point (in canvas coordinates) lies inside a fragment
+ */
+export function isPointInFragment(fragment: Shape, x: number, y: number): boolean {
+  return (
+    x >= fragment.x &&
+    x <= fragment.x + fragment.width &&
+    y > fragment.y &&
+    y < fragment.y + fragment.height
+  );
+}
+
+/**
+ * Returns the operand index (0 = first operand) that a Y-coordinate falls into
+ *
+ * @param fragment - The fragment shape
+ * @param y - Y-coordinate in canvas space
+ */
+export function getFragmentOperandIndex(fragment: Shape, y: number): number {
+  const { operands } = getSequenceFragmentData(fragment);
+  const offsetY = y - fragment.y;
+
+  let operandIndex = 0;
+  operands.forEach((operand, index) => {
+    if (offsetY >= operand.offsetY) {
+      operandIndex = index + 1;
+    }
+  });
+
+  return operandIndex;
+}
+
+/**
+ * Finds the innermost fragment enclosing a point (smallest area wins)
+ */
+export function findInnermostFragment(
+  fragments: Shape[],
+  x: number,
+  y: number
+): Shape | null {
+  const enclosing = fragments.filter((fragment) => isPointInFragment(fragment, x, y));
+  if (enclosing.length === 0) {
+    return null;
+  }
+
+  return enclosing.reduce((smallest, current) =>
+    current.width * current.height < smallest.width * smallest.height ? current : smallest
+  );
+}
@@ -7,6 +7,7 @@ import {
   MIN_CONNECTION_POINTS,
   SHRINK_THRESHOLD_POINTS,
 } from './constants';
+import { getFragmentMessageRange, getSequenceFragments } from './fragmentLayout';
 
 /**
  * Extracts the connection point index from a connection point ID
@@ -46,9 +47,29 @@ function findHighestUsedConnectionPoint(
   return highestIndex;
 }
 
+/**
+ * Finds the highest connection point index enclosed by any combined fragment,
+ * so lifelines keep extending below the bottom of every fragment
+ */
+function findHighestFragmentConnectionPoint(
+  fragments: Shape[],
+  lifelineTop: number
+): number {
+  let highestIndex = -1;
+
+  for (const fragment of fragments) {
+    const range = getFragmentMessageRange(fragment, lifelineTop);
+    if (range) {
+      highestIndex = Math.max(highestIndex, range.endIndex);
+    }
+  }
+
+  return highestIndex;
+}
+
 /**
  * Calculates the required height for all sequence lifelines in a diagram
- * based on message connector usage.
+ * based on message connector usage and combined fragment extents.
  *
  * Rules:
  * - If second-to-last visible connection point is used, grow by HEIGHT_ADJUSTMENT_INCREMENT
@@ -76,8 +97,11 @@ export function calculateRequiredLifelineHeight(
   // Collect all lifeline IDs for filtering connectors
   const lifelineIds = new Set(lifelines.map((l) => l.id));
 
-  // Find the highest connection point index being used
-  const highestUsedIndex = findHighestUsedConnectionPoint(lifelineIds, connectors);
+  // Find the highest connection point index being used by messages or enclosed by fragments
+  const highestUsedIndex = Math.max(
+    findHighestUsedConnectionPoint(lifelineIds, connectors),
+    findHighestFragmentConnectionPoint(getSequenceFragments(shapes), lifelines[0].y)
+  );
 
   // If no connection points are used, maintain current height (or minimum)
   if (highestUsedIndex === -1) {
@@ -8,14 +8,16 @@ export * from './connectors';
 // Constants
 export * from './constants';
 
-// Utils (activation calculator, height calculator, post-processing)
+// Utils (activation calculator, height calculator, fragment layout, post-processing)
 export * from './activationCalculator';
 export * from './heightCalculator';
+export * from './fragmentLayout';
 export * from './postProcessing';
 
 // Rendering
 export { SequenceLifelineRenderer } from './rendering/SequenceLifelineRenderer';
 export { SequenceNoteRenderer } from './rendering/SequenceNoteRenderer';
+export { SequenceFragmentRenderer } from './rendering/SequenceFragmentRenderer';
 
 // Mermaid Import/Export
 export { SequenceMermaidImporter, createSequenceMermaidImporter } from './mermaid/importer';
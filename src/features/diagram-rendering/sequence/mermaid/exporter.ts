@@ -6,8 +6,25 @@ import type {
   MermaidExportResult,
 } from '@/shared/lib/mermaid';
 import { BaseMermaidExporter } from '@/shared/lib/mermaid';
-import { isSequenceLifelineData } from '@/entities/shape';
-import { FIRST_CONNECTION_POINT_Y, CONNECTION_POINT_SPACING } from '../constants';
+import { getSequenceFragmentData, isSequenceLifelineData } from '@/entities/shape';
+import {
+  FIRST_CONNECTION_POINT_Y,
+  CONNECTION_POINT_SPACING,
+  FRAGMENT_OPERAND_KEYWORDS,
+} from '../constants';
+import {
+  getFragmentOperandIndex,
+  getSequenceFragments,
+  isPointInFragment,
+} from '../fragmentLayout';
+
+/**
+ * Combined fragment currently open while emitting messages
+ */
+interface OpenFragment {
+  fragment: Shape;
+  operandIndex: number;
+}
 
 /**
  * Mermaid exporter for Sequence diagrams
@@ -72,7 +89,13 @@ export class SequenceMermaidExporter extends BaseMermaidExporter {
         return aOrder - bOrder;
       });
 
-      // Export messages
+      // Fragments ordered outermost first, so enclosing fragments open before nested ones
+      const fragments = getSequenceFragments(filteredShapes).sort(
+        (a, b) => b.width * b.height - a.width * a.height
+      );
+      const openFragments: OpenFragment[] = [];
+
+      // Export messages, wrapped in the combined fragments that enclose them
       for (const connector of sortedConnectors) {
         const sourceShape = shapeMap.get(connector.sourceShapeId);
         const targetShape = shapeMap.get(connector.targetShapeId);
@@ -94,10 +117,20 @@ export class SequenceMermaidExporter extends BaseMermaidExporter {
           participantNameMap
         );
         if (messageLine) {
-          lines.push(`    ${messageLine}`);
+          const messagePosition = this.getMessagePosition(connector, sourceShape, targetShape);
+          if (messagePosition) {
+            const enclosing = fragments.filter((fragment) =>
+              isPointInFragment(fragment, messagePosition.x, messagePosition.y)
+            );
+            this.emitFragmentTransitions(lines, openFragments, enclosing, messagePosition.y);
+          }
+          lines.push(`${this.getNestedIndent(openFragments.length)}${messageLine}`);
         }
       }
 
+      // Close fragments still open after the last message
+      this.emitFragmentTransitions(lines, openFragments, [], 0);
+
       // Export notes (sequence notes are rendered as mermaid notes)
       const noteShapes = filteredShapes.filter((shape) => shape.type === 'sequence-note');
       for (const note of noteShapes) {
@@ -261,6 +294,115 @@ export class SequenceMermaidExporter extends BaseMermaidExporter {
     }
   }
 
+  /**
+   * Get the indentation for a line nested inside the given number of fragments
+   */
+  private getNestedIndent(depth: number): string {
+    return '    '.repeat(depth + 1);
+  }
+
+  /**
+   * Calculate the canvas position of a message (midpoint between lifelines at its connection point)
+   */
+  private getMessagePosition(
+    connector: Connector,
+    sourceShape: Shape,
+    targetShape: Shape
+  ): { x: number; y: number } | null {
+    const relativeY = this.getConnectionPointY(connector.sourceConnectionPoint);
+    if (relativeY === null) return null;
+
+    const sourceCenterX = sourceShape.x + sourceShape.width / 2;
+    const targetCenterX = targetShape.x + targetShape.width / 2;
+
+    return {
+      x: (sourceCenterX + targetCenterX) / 2,
+      y: sourceShape.y + relativeY,
+    };
+  }
+
+  /**
+   * Emit `end`, operand and fragment opening lines needed to move from the currently
+   * open fragments to the fragments enclosing the next message.
+   *
+   * @param lines - Output lines
+   * @param openFragments - Stack of open fragments (mutated)
+   * @param enclosing - Fragments enclosing the next message, outermost first
+   * @param messageY - Canvas Y-coordinate of the next message
+   */
+  private emitFragmentTransitions(
+    lines: string[],
+    openFragments: OpenFragment[],
+    enclosing: Shape[],
+    messageY: number
+  ): void {
+    // Count leading levels that stay open in the same operand
+    let keepDepth = 0;
+    while (
+      keepDepth < openFragments.length &&
+      keepDepth < enclosing.length &&
+      openFragments[keepDepth].fragment.id === enclosing[keepDepth].id &&
+      openFragments[keepDepth].operandIndex === getFragmentOperandIndex(enclosing[keepDepth], messageY)
+    ) {
+      keepDepth++;
+    }
+
+    // A fragment that stays open but advances to a later operand only needs an operand line
+    const advancing =
+      keepDepth < openFragments.length &&
+      keepDepth < enclosing.length &&
+      openFragments[keepDepth].fragment.id === enclosing[keepDepth].id &&
+      getFragmentOperandIndex(enclosing[keepDepth], messageY) > openFragments[keepDepth].operandIndex;
+
+    const retainedDepth = advancing ? keepDepth + 1 : keepDepth;
+    while (openFragments.length > retainedDepth) {
+      openFragments.pop();
+      lines.push(`${this.getNestedIndent(openFragments.length)}end`);
+    }
+
+    if (advancing) {
+      const open = openFragments[keepDepth];
+      const targetOperand = getFragmentOperandIndex(open.fragment, messageY);
+      this.emitOperandLines(lines, open, targetOperand, keepDepth);
+      keepDepth++;
+    }
+
+    // Open newly entered fragments
+    for (let depth = keepDepth; depth < enclosing.length; depth++) {
+      const fragment = enclosing[depth];
+      const { fragmentType } = getSequenceFragmentData(fragment);
+      const guard = fragment.label ? ` ${this.sanitizeText(fragment.label)}` : '';
+      lines.push(`${this.getNestedIndent(depth)}${fragmentType}${guard}`);
+
+      const open: OpenFragment = { fragment, operandIndex: 0 };
+      this.emitOperandLines(lines, open, getFragmentOperandIndex(fragment, messageY), depth);
+      openFragments.push(open);
+    }
+  }
+
+  /**
+   * Emit operand separator lines (else / and / option) up to the target operand
+   */
+  private emitOperandLines(
+    lines: string[],
+    open: OpenFragment,
+    targetOperand: number,
+    depth: number
+  ): void {
+    const { fragmentType, operands } = getSequenceFragmentData(open.fragment);
+    const keyword = FRAGMENT_OPERAND_KEYWORDS[fragmentType];
+
+    // Operators with a single operand (opt, loop, break) have no separator keyword
+    if (keyword) {
+      for (let index = open.operandIndex + 1; index <= targetOperand; index++) {
+        const operandGuard = operands[index - 1]?.guard;
+        const guard = operandGuard ? ` ${this.sanitizeText(operandGuard)}` : '';
+        lines.push(`${this.getNestedIndent(depth)}${keyword}${guard}`);
+      }
+    }
+    open.operandIndex = targetOperand;
+  }
+
   /**
    * Get note syntax line
    */
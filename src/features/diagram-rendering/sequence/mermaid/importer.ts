@@ -1,9 +1,34 @@
 import type { Result } from '@/shared/lib/utils';
-import type { CreateShapeDTO, SequenceLifelineData } from '@/entities/shape';
+import type {
+  CreateShapeDTO,
+  SequenceFragmentData,
+  SequenceFragmentType,
+  SequenceLifelineData,
+} from '@/entities/shape';
 import type { MermaidImportOptions, MermaidImportResult, MermaidConnectorRef } from '@/shared/lib/mermaid';
 import { BaseMermaidImporter } from '@/shared/lib/mermaid';
 import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
 import { DEFAULT_SHAPE_SUBTYPES } from '@/features/diagram-rendering/config/shape-subtypes';
+import {
+  CONNECTION_POINT_SPACING,
+  FIRST_CONNECTION_POINT_Y,
+  FRAGMENT_BOTTOM_PADDING,
+  FRAGMENT_HEADER_OFFSET,
+  FRAGMENT_HORIZONTAL_PADDING,
+  FRAGMENT_NESTING_INSET,
+  FRAGMENT_OPERAND_KEYWORDS,
+  calculateFragmentDividerOffset,
+} from '../constants';
+
+/**
+ * Y-coordinate where imported lifelines start (before centering)
+ */
+const LIFELINE_TOP_Y = 50;
+
+/**
+ * Block keywords that are closed by `end` but carry no fragment semantics
+ */
+const NON_FRAGMENT_BLOCK_PATTERN = /^(rect|box)\b/;
 
 /**
  * Parsed participant information from Mermaid syntax
@@ -26,6 +51,19 @@ interface ParsedMessage {
   hasDeactivation?: boolean;
 }
 
+/**
+ * Parsed combined fragment information from Mermaid syntax
+ * Message indices refer to positions in the parsed message list
+ */
+interface ParsedFragment {
+  fragmentType: SequenceFragmentType;
+  guard: string;
+  startMessageIndex: number;
+  endMessageIndex: number;
+  operands: { guard: string; startMessageIndex: number }[];
+  depth: number;
+}
+
 /**
  * Mermaid importer for Sequence diagrams
  * Parses Mermaid sequence diagram syntax back to lifelines and messages
@@ -71,7 +109,7 @@ export class SequenceMermaidImporter extends BaseMermaidImporter {
         return parseResult;
       }
 
-      const { participants, messages } = parseResult.value;
+      const { participants, messages, fragments } = parseResult.value;
 
       // Create index mapping from participant names to array indices
       const indexMapping = new Map<string, number>();
@@ -79,8 +117,8 @@ export class SequenceMermaidImporter extends BaseMermaidImporter {
         indexMapping.set(participant.name, index);
       });
 
-      // Convert parsed participants to lifeline shapes with layout (no IDs)
-      const shapes = this.createShapesWithLayout(participants, opts);
+      // Convert parsed participants and fragments to shapes with layout (no IDs)
+      const shapes = this.createShapesWithLayout(participants, messages, fragments, opts);
 
       // Convert parsed messages to connector refs (using indices)
       const connectors = this.createConnectors(messages, indexMapping);
@@ -106,11 +144,11 @@ export class SequenceMermaidImporter extends BaseMermaidImporter {
   }
 
   /**
-   * Parse mermaid sequence diagram syntax into participants and messages
+   * Parse mermaid sequence diagram syntax into participants, messages and combined fragments
    */
   private parseMermaidSyntax(
     syntax: string
-  ): Result<{ participants: ParsedParticipant[]; messages: ParsedMessage[] }> {
+  ): Result<{ participants: ParsedParticipant[]; messages: ParsedMessage[]; fragments: ParsedFragment[] }> {
     try {
       const lines = syntax
         .split('\n')
@@ -119,6 +157,10 @@ export class SequenceMermaidImporter extends BaseMermaidImporter {
 
       const participants = new Map<string, ParsedParticipant>();
       const messages: ParsedMessage[] = [];
+      const fragments: ParsedFragment[] = [];
+
+      // Open blocks; null marks a non-fragment block (rect, box) that still consumes an `end`
+      const blockStack: (ParsedFragment | null)[] = [];
 
       for (const line of lines) {
         // Skip the header line
@@ -126,6 +168,49 @@ export class SequenceMermaidImporter extends BaseMermaidImporter {
           continue;
         }
 
+        // Parse combined fragment openings (alt, opt, loop, par, critical, break)
+        const fragmentMatch = line.match(/^(alt|opt|loop|par|critical|break)\b\s*(.*)$/);
+        if (fragmentMatch) {
+          const fragment: ParsedFragment = {
+            fragmentType: fragmentMatch[1] as SequenceFragmentType,
+            guard: this.unsanitizeText(fragmentMatch[2].trim()),
+            startMessageIndex: messages.length,
+            endMessageIndex: messages.length - 1,
+            operands: [],
+            depth: blockStack.filter((block) => block !== null).length,
+          };
+          blockStack.push(fragment);
+          fragments.push(fragment);
+          continue;
+        }
+
+        // Parse additional operands (else, and, option) of the innermost open fragment
+        const operandMatch = line.match(/^(else|and|option)\b\s*(.*)$/);
+        if (operandMatch) {
+          const current = blockStack[blockStack.length - 1];
+          if (current && FRAGMENT_OPERAND_KEYWORDS[current.fragmentType] === operandMatch[1]) {
+            current.operands.push({
+              guard: this.unsanitizeText(operandMatch[2].trim()),
+              startMessageIndex: messages.length,
+            });
+          }
+          continue;
+        }
+
+        if (NON_FRAGMENT_BLOCK_PATTERN.test(line)) {
+          blockStack.push(null);
+          continue;
+        }
+
+        // Close the innermost open block
+        if (line === 'end') {
+          const closed = blockStack.pop();
+          if (closed) {
+            closed.endMessageIndex = messages.length - 1;
+          }
+          continue;
+        }
+
         // Parse participant/actor declarations
         const participantMatch = line.match(/^(participant|actor)\s+([A-Za-z0-9_]+)(?:\s+as\s+(.+))?$/);
         if (participantMatch) {
@@ -155,6 +240,10 @@ export class SequenceMermaidImporter extends BaseMermaidImporter {
         value: {
           participants: Array.from(participants.values()),
           messages,
+          // Fragments without any enclosed message have no vertical extent to render
+          fragments: fragments.filter(
+            (fragment) => fragment.endMessageIndex >= fragment.startMessageIndex
+          ),
         },
       };
     } catch (error) {
@@ -242,6 +331,8 @@ export class SequenceMermaidImporter extends BaseMermaidImporter {
    */
   private createShapesWithLayout(
     participants: ParsedParticipant[],
+    messages: ParsedMessage[],
+    fragments: ParsedFragment[],
     options: Required<MermaidImportOptions>
   ): CreateShapeDTO[] {
     const shapes: CreateShapeDTO[] = [];
@@ -250,7 +341,7 @@ export class SequenceMermaidImporter extends BaseMermaidImporter {
     // Sequence diagrams arrange participants horizontally
     participants.forEach((participant, index) => {
       const x = index * spacing;
-      const y = 50; // Start at top
+      const y = LIFELINE_TOP_Y; // Start at top
 
       const lifelineData: SequenceLifelineData = {
         lifelineStyle: 'dashed',
@@ -280,10 +371,77 @@ export class SequenceMermaidImporter extends BaseMermaidImporter {
       shapes.push(shape);
     });
 
+    // Combined fragments span the lifelines involved in their enclosed messages
+    for (const fragment of fragments) {
+      const fragmentShape = this.createFragmentShape(fragment, participants, messages, spacing);
+      if (fragmentShape) {
+        shapes.push(fragmentShape);
+      }
+    }
+
     // Center all shapes around the target point
     return this.centerShapesDTO(shapes, options.centerPoint);
   }
 
+  /**
+   * Create a combined fragment shape positioned around its enclosed messages
+   * Message N sits at connection point N, so vertical bounds follow the message indices
+   */
+  private createFragmentShape(
+    fragment: ParsedFragment,
+    participants: ParsedParticipant[],
+    messages: ParsedMessage[],
+    spacing: number
+  ): CreateShapeDTO | null {
+    const participantIndices = new Set<number>();
+    for (let i = fragment.startMessageIndex; i <= fragment.endMessageIndex; i++) {
+      const message = messages[i];
+      participantIndices.add(participants.findIndex((p) => p.name === message.sourceName));
+      participantIndices.add(participants.findIndex((p) => p.name === message.targetName));
+    }
+    participantIndices.delete(-1);
+
+    if (participantIndices.size === 0) {
+      return null;
+    }
+
+    const lifelineWidth = CANVAS_CONFIG.shapes.sequence.lifeline.width;
+    const padding = Math.max(
+      FRAGMENT_NESTING_INSET / 2,
+      FRAGMENT_HORIZONTAL_PADDING - fragment.depth * FRAGMENT_NESTING_INSET
+    );
+    const left = Math.min(...participantIndices) * spacing - padding;
+    const right = Math.max(...participantIndices) * spacing + lifelineWidth + padding;
+
+    const getMessageY = (messageIndex: number) =>
+      LIFELINE_TOP_Y + FIRST_CONNECTION_POINT_Y + messageIndex * CONNECTION_POINT_SPACING;
+    const top = getMessageY(fragment.startMessageIndex) - FRAGMENT_HEADER_OFFSET;
+    const bottom = getMessageY(fragment.endMessageIndex) + FRAGMENT_BOTTOM_PADDING;
+
+    const fragmentData: SequenceFragmentData = {
+      fragmentType: fragment.fragmentType,
+      operands: fragment.operands.map((operand) => ({
+        guard: operand.guard,
+        offsetY: calculateFragmentDividerOffset(
+          operand.startMessageIndex - fragment.startMessageIndex
+        ),
+      })),
+    };
+
+    return {
+      type: 'sequence-fragment',
+      x: left,
+      y: top,
+      width: right - left,
+      height: bottom - top,
+      label: fragment.guard,
+      zIndex: 0,
+      locked: false,
+      isPreview: false,
+      data: fragmentData,
+    };
+  }
+
   /**
    * Create connector refs from parsed messages (using shape indices)
    */
@@ -0,0 +1,163 @@
+/**
+ * Sequence Fragment Renderer
+ *
+ * Renders UML combined fragments (alt, opt, loop, par, critical, break) with:
+ * - Operator tab in the top-left corner
+ * - Guard condition of the first operand next to the tab
+ * - Dashed dividers with guards for each additional operand
+ *
+ * The fragment body is transparent to pointer events so lifelines and messages
+ * underneath stay interactive; the fragment is selected and dragged by its header.
+ */
+
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import type { SequenceFragmentData } from '@/entities/shape';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+
+const TAB_HEIGHT = 18; // Height of the operator tab
+const TAB_NOTCH = 6; // Size of the cut corner on the operator tab
+
+export function SequenceFragmentRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+
+  const { isInteractive, showHover, showSelected } = useShapeInteractivity({
+    shape,
+    context,
+  });
+
+  // Parse fragment data with defaults
+  const fragmentData = shape.data as SequenceFragmentData | undefined;
+  const fragmentType = fragmentData?.fragmentType || 'opt';
+  const operands = fragmentData?.operands || [];
+
+  // Calculate zoom-compensated values
+  let borderWidth = 1 / zoom;
+
+  // Determine border color based on state
+  let borderColor = 'var(--border)';
+  if (showSelected) {
+    borderColor = 'var(--primary)';
+    borderWidth = 2 / zoom;
+  } else if (showHover) {
+    borderColor = 'var(--secondary)';
+  }
+
+  const tabWidth = Math.max(36, fragmentType.length * 7 + 16);
+
+  return (
+    <ShapeWrapper
+      shape={shape}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor={borderColor}
+      borderWidth={borderWidth}
+      backgroundColor="transparent"
+      borderRadius={0}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${height}px`,
+        pointerEvents: 'none',
+      }}
+    >
+      {/* Operator tab and first operand guard (the draggable header) */}
+      <div
+        style={{
+          position: 'absolute',
+          left: 0,
+          top: 0,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          maxWidth: `${width}px`,
+          pointerEvents: 'auto',
+        }}
+      >
+        <svg
+          width={tabWidth}
+          height={TAB_HEIGHT}
+          style={{ flexShrink: 0, overflow: 'visible' }}
+        >
+          <path
+            d={`M 0 0 H ${tabWidth} V ${TAB_HEIGHT - TAB_NOTCH} L ${tabWidth - TAB_NOTCH} ${TAB_HEIGHT} H 0 Z`}
+            fill="var(--bg)"
+            stroke={borderColor}
+            strokeWidth={borderWidth}
+          />
+          <text
+            x={8}
+            y={TAB_HEIGHT / 2}
+            dominantBaseline="central"
+            fontSize={11}
+            fontWeight={600}
+            fill="var(--text)"
+          >
+            {fragmentType}
+          </text>
+        </svg>
+
+        <EditableLabel
+          label={shape.label || ''}
+          isEditing={isInteractive && isEditing}
+          onStartEdit={() => {}}
+          onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+          onFinishEdit={() => onFinishEditing?.()}
+          fontSize={11}
+          style={{
+            color: 'var(--text-muted)',
+            pointerEvents: isInteractive && isEditing ? 'auto' : 'none',
+            whiteSpace: 'nowrap',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+          }}
+        />
+      </div>
+
+      {/* Operand dividers */}
+      {operands.map((operand, index) => (
+        <div
+          key={`operand-${index}`}
+          style={{
+            position: 'absolute',
+            left: 0,
+            top: `${operand.offsetY}px`,
+            width: '100%',
+            borderTop: `${1 / zoom}px dashed ${borderColor}`,
+            pointerEvents: 'none',
+          }}
+        >
+          {operand.guard && (
+            <span
+              style={{
+                position: 'absolute',
+                left: '8px',
+                top: '2px',
+                fontSize: '11px',
+                color: 'var(--text-muted)',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              [{operand.guard}]
+            </span>
+          )}
+        </div>
+      ))}
+    </ShapeWrapper>
+  );
+}
@@ -11,9 +11,15 @@ import {
   FaServer,
   FaBorderAll,
   FaStickyNote,
+  FaCodeBranch,
+  FaQuestion,
+  FaRedo,
+  FaStream,
+  FaLock,
+  FaBan,
 } from 'react-icons/fa';
-import { DEFAULT_LIFELINE_HEIGHT } from './constants';
-import { globalToolGroup } from '@/features/diagram-rendering/config/tools';
+import { DEFAULT_LIFELINE_HEIGHT, calculateFragmentDividerOffset } from './constants';
+import { annotationToolGroup, globalToolGroup } from '@/features/diagram-rendering/config/tools';
 import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
 
 /**
@@ -58,7 +64,7 @@ export interface ToolGroup {
   tools: Tool[];
 }
 
-const { lifeline: lifelineSize, note: noteSize } = CANVAS_CONFIG.shapes.sequence;
+const { lifeline: lifelineSize, note: noteSize, fragment: fragmentSize } = CANVAS_CONFIG.shapes.sequence;
 
 /**
  * Sequence Diagram Participant Tools
@@ -162,6 +168,79 @@ const annotationTools: Tool[] = [
   },
 ];
 
+/**
+ * Sequence Diagram Fragment Tools
+ * Combined fragments that wrap a vertical range of messages
+ */
+const fragmentTools: Tool[] = [
+  {
+    id: 'fragment-alt',
+    name: 'Alt',
+    icon: FaCodeBranch,
+    shapeType: 'sequence-fragment',
+    defaultSize: { width: fragmentSize.width, height: fragmentSize.height },
+    initialData: {
+      fragmentType: 'alt',
+      operands: [{ guard: 'else', offsetY: calculateFragmentDividerOffset(2) }],
+    },
+  },
+  {
+    id: 'fragment-opt',
+    name: 'Opt',
+    icon: FaQuestion,
+    shapeType: 'sequence-fragment',
+    defaultSize: { width: fragmentSize.width, height: fragmentSize.height },
+    initialData: {
+      fragmentType: 'opt',
+      operands: [],
+    },
+  },
+  {
+    id: 'fragment-loop',
+    name: 'Loop',
+    icon: FaRedo,
+    shapeType: 'sequence-fragment',
+    defaultSize: { width: fragmentSize.width, height: fragmentSize.height },
+    initialData: {
+      fragmentType: 'loop',
+      operands: [],
+    },
+  },
+  {
+    id: 'fragment-par',
+    name: 'Par',
+    icon: FaStream,
+    shapeType: 'sequence-fragment',
+    defaultSize: { width: fragmentSize.width, height: fragmentSize.height },
+    initialData: {
+      fragmentType: 'par',
+      operands: [{ guard: '', offsetY: calculateFragmentDividerOffset(2) }],
+    },
+  },
+  {
+    id: 'fragment-critical',
+    name: 'Critical',
+    icon: FaLock,
+    shapeType: 'sequence-fragment',
+    defaultSize: { width: fragmentSize.width, height: fragmentSize.height },
+    initialData: {
+      fragmentType: 'critical',
+      operands: [],
+    },
+  },
+  {
+    id: 'fragment-break',
+    name: 'Break',
+    icon: FaBan,
+    shapeType: 'sequence-fragment',
+    defaultSize: { width: fragmentSize.width, height: fragmentSize.height },
+    initialData: {
+      fragmentType: 'break',
+      operands: [],
+    },
+  },
+];
+
 /**
  * Sequence Diagram Tool Groups
  * Organized collection of all sequence diagram tools by type
@@ -172,11 +251,17 @@ export const sequenceToolGroups: ToolGroup[] = [
     label: 'Participants',
     tools: participantTools,
   },
+  {
+    type: 'fragment',
+    label: 'Fragments',
+    tools: fragmentTools,
+  },
   {
     type: 'annotation',
     label: 'Annotations',
     tools: annotationTools,
   },
+  annotationToolGroup, // Annotation layer available in all diagram types
   globalToolGroup, // Global tools available in all diagram types
 ];
 
@@ -186,6 +271,7 @@ export const sequenceToolGroups: ToolGroup[] = [
  */
 export const allSequenceTools: Tool[] = [
   ...participantTools,
+  ...fragmentTools,
   ...annotationTools,
 ];
 
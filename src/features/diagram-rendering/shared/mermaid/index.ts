@@ -14,11 +14,13 @@ import { createClassMermaidExporter } from '../../class/mermaid/exporter';
 import { createSequenceMermaidExporter } from '../../sequence/mermaid/exporter';
 import { createArchitectureMermaidExporter } from '../../architecture/mermaid/exporter';
 import { createEntityRelationshipMermaidExporter } from '../../entity-relationship/mermaid/exporter';
+import { createDataflowMermaidExporter } from '../../dataflow/mermaid/exporter';
 import { createBpmnMermaidImporter } from '../../bpmn/mermaid/importer';
 import { createClassMermaidImporter } from '../../class/mermaid/importer';
 import { createSequenceMermaidImporter } from '../../sequence/mermaid/importer';
 import { createArchitectureMermaidImporter } from '../../architecture/mermaid/importer';
 import { createEntityRelationshipMermaidImporter } from '../../entity-relationship/mermaid/importer';
+import { createDataflowMermaidImporter } from '../../dataflow/mermaid/importer';
 
 // Register all available exporters
 registerMermaidExporter('bpmn', createBpmnMermaidExporter);
@@ -26,6 +28,7 @@ registerMermaidExporter('class', createClassMermaidExporter);
 registerMermaidExporter('sequence', createSequenceMermaidExporter);
 registerMermaidExporter('architecture', createArchitectureMermaidExporter);
 registerMermaidExporter('entity-relationship', createEntityRelationshipMermaidExporter);
+registerMermaidExporter('dataflow', createDataflowMermaidExporter);
 
 // Register all available importers
 registerMermaidImporter('bpmn', createBpmnMermaidImporter);
@@ -33,3 +36,4 @@ registerMermaidImporter('class', createClassMermaidImporter);
 registerMermaidImporter('sequence', createSequenceMermaidImporter);
 registerMermaidImporter('architecture', createArchitectureMermaidImporter);
 registerMermaidImporter('entity-relationship', createEntityRelationshipMermaidImporter);
+registerMermaidImporter('dataflow', createDataflowMermaidImporter);
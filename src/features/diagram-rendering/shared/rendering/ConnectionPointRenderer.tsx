@@ -71,6 +71,7 @@ export const ConnectionPointRenderer: React.FC<ConnectionPointRendererProps> = (
 
   return (
     <div
+      data-export-ignore
       onMouseDown={handleMouseDown}
       onMouseUp={handleMouseUp}
       onMouseEnter={onMouseEnter}
@@ -1,5 +1,6 @@
 import { memo } from 'react';
 import type { ConnectorRendererProps, ConnectorRendererComponent } from './connector-types';
+import type { LineJump } from './lineJumps';
 import { LineConnectorRenderer } from './LineConnectorRenderer';
 import { MessageConnectorRenderer } from './MessageConnectorRenderer';
 
@@ -39,6 +40,29 @@ function ConnectorRendererComponent(props: ConnectorRendererProps) {
   return <Renderer {...props} />;
 }
 
+/**
+ * Check if two optional arrays hold the same items
+ */
+function areItemsEqual<T>(prev: T[] | undefined, next: T[] | undefined): boolean {
+  if (prev === next) return true;
+  if (!prev || !next || prev.length !== next.length) return false;
+  return prev.every((item, i) => item === next[i]);
+}
+
+/**
+ * Check if two optional lists of line jumps are at the same positions
+ */
+function areLineJumpsEqual(prev: LineJump[] | undefined, next: LineJump[] | undefined): boolean {
+  if (prev === next) return true;
+  if (!prev || !next || prev.length !== next.length) return false;
+  return prev.every(
+    (jump, i) =>
+      jump.segmentIndex === next[i].segmentIndex &&
+      jump.point.x === next[i].point.x &&
+      jump.point.y === next[i].point.y
+  );
+}
+
 /**
  * Custom comparison function for React.memo
  * Only re-render if connector, connected shapes, or context have changed
@@ -62,6 +86,16 @@ function arePropsEqual(prevProps: ConnectorRendererProps, nextProps: ConnectorRe
     return false;
   }
 
+  // Check routing (style and user-defined route points)
+  if (prevConnector.style !== nextConnector.style || prevConnector.points !== nextConnector.points) {
+    return false;
+  }
+
+  // Check line style and style overrides
+  if (prevConnector.lineType !== nextConnector.lineType || prevConnector.appearance !== nextConnector.appearance) {
+    return false;
+  }
+
   // Check source and target shape IDs
   if (prevConnector.sourceShapeId !== nextConnector.sourceShapeId ||
       prevConnector.targetShapeId !== nextConnector.targetShapeId) {
@@ -100,11 +134,20 @@ function arePropsEqual(prevProps: ConnectorRendererProps, nextProps: ConnectorRe
     prevContext.isSelected !== nextContext.isSelected ||
     prevContext.isHovered !== nextContext.isHovered ||
     prevContext.zoom !== nextContext.zoom ||
-    prevContext.readOnly !== nextContext.readOnly
+    prevContext.readOnly !== nextContext.readOnly ||
+    prevContext.lineJumpStyle !== nextContext.lineJumpStyle
   ) {
     return false;
   }
 
+  // Check line jumps and the routes below (content, as they're rebuilt whenever any route changes)
+  if (!areLineJumpsEqual(prevContext.lineJumps, nextContext.lineJumps)) {
+    return false;
+  }
+  if (!areItemsEqual(prevContext.crossingSegments, nextContext.crossingSegments)) {
+    return false;
+  }
+
   // Check if allShapes array has changed (for obstacle avoidance routing)
   // We need to check if shapes have been added/removed or if any shape positions changed
   const prevShapes = prevContext.allShapes;
@@ -145,7 +188,9 @@ function arePropsEqual(prevProps: ConnectorRendererProps, nextProps: ConnectorRe
     prevProps.onMouseDown !== nextProps.onMouseDown ||
     prevProps.onMouseEnter !== nextProps.onMouseEnter ||
     prevProps.onMouseLeave !== nextProps.onMouseLeave ||
-    prevProps.onDoubleClick !== nextProps.onDoubleClick
+    prevProps.onDoubleClick !== nextProps.onDoubleClick ||
+    prevProps.onRouteChange !== nextProps.onRouteChange ||
+    prevProps.onPathChange !== nextProps.onPathChange
   ) {
     return false;
   }
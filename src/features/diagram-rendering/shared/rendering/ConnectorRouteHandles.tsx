@@ -0,0 +1,233 @@
+import React from 'react';
+import type { Point } from '@/widgets/canvas/lib/utils/pathUtils';
+import {
+  getSegmentHandles,
+  insertWaypoint,
+  moveWaypoint,
+  pinRouteSegment,
+  removeWaypoint,
+  unpinRouteSegment,
+} from './routeEditing';
+import { getPinnedSegments } from './pathUtils';
+
+/**
+ * ConnectorRouteHandles
+ *
+ * Renders the route editing handles of a selected connector:
+ * - Orthogonal: a handle on each inner segment; dragging it pins the segment
+ *   (pinned segments are filled), double-click releases the pin
+ * - Straight: a handle on each waypoint to move it (double-click removes it)
+ *   and one on each segment midpoint to add a waypoint
+ * - Curved: handles on the two Bezier control points
+ *
+ * While dragging, the edited route points are reported through onDraft so the
+ * connector can show the new route; the final points are passed to onCommit.
+ */
+
+interface ConnectorRouteHandlesProps {
+  style: 'straight' | 'orthogonal' | 'curved';
+  /** Points of the rendered route (from the source to the target connection point) */
+  route: Point[];
+  /** Current Bezier control points (curved connectors) */
+  controlPoints: [Point, Point];
+  /** Route points stored on the connector */
+  points: Point[] | undefined;
+  zoom: number;
+  onDraft: (points: Point[] | null) => void;
+  onCommit: (points: Point[] | undefined) => void;
+}
+
+const HANDLE_COLOR = 'var(--canvas-connector-stroke-selected)';
+
+export const ConnectorRouteHandles: React.FC<ConnectorRouteHandlesProps> = ({
+  style,
+  route,
+  controlPoints,
+  points,
+  zoom,
+  onDraft,
+  onCommit,
+}) => {
+  const handleSize = 10 / zoom;
+  const borderWidth = 1.5 / zoom;
+
+  // Drag a handle; computePoints maps the canvas offset since mouse down to the new route points
+  const startDrag = (e: React.MouseEvent, computePoints: (delta: Point) => Point[]) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+
+    const origin = { x: e.clientX, y: e.clientY };
+    let latest: Point[] | null = null;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      latest = computePoints({
+        x: (event.clientX - origin.x) / zoom,
+        y: (event.clientY - origin.y) / zoom,
+      });
+      onDraft(latest);
+    };
+
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      if (latest) {
+        onCommit(latest);
+      }
+      onDraft(null);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const handleProps = (
+    cursor: string,
+    onMouseDown: (e: React.MouseEvent) => void,
+    onDoubleClick?: () => void
+  ) => ({
+    'data-export-ignore': true,
+    style: { cursor, pointerEvents: 'auto' as const },
+    onMouseDown,
+    onDoubleClick: (e: React.MouseEvent) => {
+      e.stopPropagation();
+      onDoubleClick?.();
+    },
+  });
+
+  if (style === 'orthogonal') {
+    const pinnedSegments = getPinnedSegments(points);
+    return (
+      <g>
+        {getSegmentHandles(route, pinnedSegments).map((handle) => {
+          const isHorizontal = handle.orientation === 'horizontal';
+          const width = isHorizontal ? handleSize * 1.6 : handleSize * 0.7;
+          const height = isHorizontal ? handleSize * 0.7 : handleSize * 1.6;
+          return (
+            <rect
+              key={handle.index}
+              x={handle.position.x - width / 2}
+              y={handle.position.y - height / 2}
+              width={width}
+              height={height}
+              rx={height / 4}
+              fill={handle.pinned ? HANDLE_COLOR : 'white'}
+              stroke={HANDLE_COLOR}
+              strokeWidth={borderWidth}
+              {...handleProps(
+                isHorizontal ? 'ns-resize' : 'ew-resize',
+                (e) => startDrag(e, (delta) => pinRouteSegment(route, pinnedSegments, handle.index, delta)),
+                handle.pinned
+                  ? () => onCommit(unpinRouteSegment(route, pinnedSegments, handle.index))
+                  : undefined
+              )}
+            >
+              <title>{handle.pinned ? 'Drag to move, double-click to unpin' : 'Drag to move segment'}</title>
+            </rect>
+          );
+        })}
+      </g>
+    );
+  }
+
+  if (style === 'straight') {
+    const waypoints = points ?? [];
+    return (
+      <g>
+        {/* Segment midpoints: drag to add a waypoint */}
+        {route.slice(0, -1).map((from, index) => {
+          const to = route[index + 1];
+          const midpoint = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+          return (
+            <circle
+              key={`add-${index}`}
+              cx={midpoint.x}
+              cy={midpoint.y}
+              r={handleSize / 2.5}
+              fill="white"
+              fillOpacity={0.8}
+              stroke={HANDLE_COLOR}
+              strokeWidth={borderWidth}
+              strokeDasharray={`${2 / zoom} ${2 / zoom}`}
+              {...handleProps('copy', (e) =>
+                startDrag(e, (delta) =>
+                  insertWaypoint(waypoints, index, { x: midpoint.x + delta.x, y: midpoint.y + delta.y })
+                )
+              )}
+            >
+              <title>Drag to add a bend point</title>
+            </circle>
+          );
+        })}
+
+        {/* Waypoints: drag to move, double-click to remove */}
+        {waypoints.map((waypoint, index) => (
+          <circle
+            key={`waypoint-${index}`}
+            cx={waypoint.x}
+            cy={waypoint.y}
+            r={handleSize / 2}
+            fill={HANDLE_COLOR}
+            stroke="white"
+            strokeWidth={borderWidth}
+            {...handleProps(
+              'move',
+              (e) =>
+                startDrag(e, (delta) =>
+                  moveWaypoint(waypoints, index, { x: waypoint.x + delta.x, y: waypoint.y + delta.y })
+                ),
+              () => onCommit(removeWaypoint(waypoints, index))
+            )}
+          >
+            <title>Drag to move, double-click to remove</title>
+          </circle>
+        ))}
+      </g>
+    );
+  }
+
+  // Curved: Bezier control points with guide lines to the connector ends
+  const start = route[0];
+  const end = route[route.length - 1];
+  const ends = [start, end];
+  return (
+    <g>
+      {controlPoints.map((controlPoint, index) => (
+        <g key={index}>
+          <line
+            x1={ends[index].x}
+            y1={ends[index].y}
+            x2={controlPoint.x}
+            y2={controlPoint.y}
+            stroke={HANDLE_COLOR}
+            strokeWidth={borderWidth}
+            strokeDasharray={`${4 / zoom} ${3 / zoom}`}
+            pointerEvents="none"
+          />
+          <rect
+            x={controlPoint.x - handleSize / 2}
+            y={controlPoint.y - handleSize / 2}
+            width={handleSize}
+            height={handleSize}
+            transform={`rotate(45 ${controlPoint.x} ${controlPoint.y})`}
+            fill="white"
+            stroke={HANDLE_COLOR}
+            strokeWidth={borderWidth}
+            {...handleProps('move', (e) =>
+              startDrag(e, (delta) => {
+                const moved = controlPoints.map((point) => ({ ...point }));
+                moved[index] = {
+                  x: Math.round(controlPoint.x + delta.x),
+                  y: Math.round(controlPoint.y + delta.y),
+                };
+                return moved;
+              })
+            )}
+          >
+            <title>Drag to bend the curve</title>
+          </rect>
+        </g>
+      ))}
+    </g>
+  );
+};
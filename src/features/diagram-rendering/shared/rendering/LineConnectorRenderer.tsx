@@ -1,10 +1,13 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import type { ConnectorRendererProps } from './connector-types';
 import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
-import { getPathMidpoint } from '@/widgets/canvas/lib/utils/pathUtils';
+import { LabelStyleContext } from '@/widgets/canvas/ui/editors/LabelStyleContext';
+import { getPathMidpoint, type Point } from '@/widgets/canvas/lib/utils/pathUtils';
 import { findOptimalConnectionPoints } from '@/widgets/canvas/lib/utils/canvas';
 import { getConnectionPointsForShape } from '@/widgets/canvas/lib/utils/connectionPoints';
-import { getPathData } from './pathUtils';
+import { getCurveControlPoints, getPathData } from './pathUtils';
+import { ConnectorRouteHandles } from './ConnectorRouteHandles';
+import { getPathDataWithJumps } from './lineJumps';
 import { getStrokeDasharray } from './strokeStyles';
 import { getClassDiagramMarker } from './svgMarkers';
 import { calculateCardinalityLabelPosition } from './labelPositioning';
@@ -23,6 +26,10 @@ import { getERConnectorToolByType } from '@/features/diagram-rendering/entity-re
  * - Arrow heads (arrow, circle, diamond, none)
  * - Line styles (solid, dotted, dashed)
  * - Editable labels
+ * - User-defined routes (connector.points): waypoints, pinned orthogonal segments
+ *   and Bezier control points, edited with handles while the connector is selected
+ * - Line jumps (arcs or gaps) where it crosses the connectors below it, and
+ *   crossing-aware orthogonal routing
  *
  * IMPORTANT: Connection points are calculated dynamically at render time
  * to always connect to the closest connection points as shapes move.
@@ -39,7 +46,13 @@ export const LineConnectorRenderer: React.FC<ConnectorRendererProps> = ({
   onDoubleClick,
   onLabelChange,
   onFinishEditing,
+  onRouteChange,
+  onPathChange,
 }) => {
+  // Route points being dragged (shown instead of the stored points until the drag ends)
+  const [draftPoints, setDraftPoints] = useState<Point[] | null>(null);
+  const routePoints = draftPoints ?? connector.points;
+
   // DYNAMIC CONNECTION POINT SELECTION
   // Get connection points from shapes based on their type
   // Memoized to avoid dependency issues with React hooks
@@ -137,7 +150,9 @@ export const LineConnectorRenderer: React.FC<ConnectorRendererProps> = ({
         shapes: context.allShapes,
         excludeShapeIds: [connector.sourceShapeId, connector.targetShapeId],
         useAdvancedRouting: connector.style === 'orthogonal' && context.allShapes && context.allShapes.length > 2,
-        allConnectionPoints: connector.style === 'orthogonal' ? allConnectionPoints : undefined
+        allConnectionPoints: connector.style === 'orthogonal' ? allConnectionPoints : undefined,
+        points: routePoints,
+        crossingSegments: context.crossingSegments,
       }
     ),
     [
@@ -150,9 +165,29 @@ export const LineConnectorRenderer: React.FC<ConnectorRendererProps> = ({
       connector.targetShapeId,
       context.allShapes,
       allConnectionPoints,
+      routePoints,
+      context.crossingSegments,
     ]
   );
 
+  // Report the rendered route for line jumps and crossing-aware routing
+  useEffect(() => {
+    onPathChange?.(connector.id, pathPoints);
+  }, [onPathChange, connector.id, pathPoints]);
+
+  useEffect(() => {
+    return () => onPathChange?.(connector.id, null);
+  }, [onPathChange, connector.id]);
+
+  // Visible path with jumps over the connectors below (curves are only jumped over)
+  const visiblePathData = useMemo(
+    () =>
+      context.lineJumpStyle && context.lineJumpStyle !== 'none' && context.lineJumps && connector.style !== 'curved'
+        ? getPathDataWithJumps(pathPoints, context.lineJumps, context.lineJumpStyle)
+        : pathData,
+    [pathData, pathPoints, context.lineJumps, context.lineJumpStyle, connector.style]
+  );
+
   // If shapes are missing, don't render
   if (!sourceShape || !targetShape) {
     return null;
@@ -161,15 +196,16 @@ export const LineConnectorRenderer: React.FC<ConnectorRendererProps> = ({
   // Calculate the actual midpoint along the path for label positioning
   const labelPosition = getPathMidpoint(pathPoints);
 
-  // Zoom-compensated stroke width (2px at 100% zoom)
-  const strokeWidth = THEME_CONFIG.stroke.connector / context.zoom;
+  // Zoom-compensated stroke width (2px at 100% zoom unless the connector is styled)
+  const { appearance } = connector;
+  const strokeWidth = (appearance?.strokeWidth ?? THEME_CONFIG.stroke.connector) / context.zoom;
 
   // Base color - darker when selected/hovered
   const strokeColor = context.isSelected
     ? 'var(--canvas-connector-stroke-selected)'
     : context.isHovered
     ? 'var(--canvas-connector-stroke-hover)'
-    : 'var(--canvas-connector-stroke-default)';
+    : appearance?.strokeColor ?? 'var(--canvas-connector-stroke-default)';
 
   // Line style
   const strokeDasharray = getStrokeDasharray(connector.lineType, strokeWidth);
@@ -184,13 +220,20 @@ export const LineConnectorRenderer: React.FC<ConnectorRendererProps> = ({
   const connectorConfig = getClassConnectorToolByType(connector.type) ?? getERConnectorToolByType(connector.type);
   const supportsCardinality = connectorConfig?.supportsCardinality ?? false;
 
+  // Route editing is available on the selected connector
+  const showRouteHandles = context.isSelected && !context.readOnly;
+  const controlPoints: [Point, Point] =
+    routePoints?.length === 2
+      ? [routePoints[0], routePoints[1]]
+      : getCurveControlPoints(start, end, sourceDirection, targetDirection);
+
   // Calculate cardinality label positions
   const cardinalityOffset = CANVAS_CONFIG.connectorLabel.cardinalityOffset / context.zoom;
   const sourceLabelPos = calculateCardinalityLabelPosition(start, sourceDirection, cardinalityOffset);
   const targetLabelPos = calculateCardinalityLabelPosition(end, targetDirection, cardinalityOffset);
 
   return (
-    <g>
+    <g opacity={appearance?.opacity}>
       {/* Define markers if needed */}
       <defs>
         {markerStartType !== 'none' && getClassDiagramMarker(markerStartId, markerStartType, strokeColor, strokeWidth)}
@@ -215,7 +258,7 @@ export const LineConnectorRenderer: React.FC<ConnectorRendererProps> = ({
 
       {/* Visible path */}
       <path
-        d={pathData}
+        d={visiblePathData}
         stroke={strokeColor}
         strokeWidth={strokeWidth}
         strokeDasharray={strokeDasharray}
@@ -236,20 +279,22 @@ export const LineConnectorRenderer: React.FC<ConnectorRendererProps> = ({
         style={{ overflow: 'visible' }}
       >
         <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
-          <EditableLabel
-            label={connector.label}
-            isEditing={isEditing}
-            onStartEdit={() => onDoubleClick?.(connector.id)}
-            onLabelChange={(newLabel) => onLabelChange?.(connector.id, 'connector', newLabel)}
-            onFinishEdit={() => onFinishEditing?.()}
-            fontSize={12}
-            style={{
-              color: 'var(--canvas-label-display-text:)',
-              pointerEvents: isEditing ? 'auto' : 'none',
-              background: strokeColor,
-              borderRadius: '5px',
-            }}
-          />
+          <LabelStyleContext.Provider value={appearance ?? null}>
+            <EditableLabel
+              label={connector.label}
+              isEditing={isEditing}
+              onStartEdit={() => onDoubleClick?.(connector.id)}
+              onLabelChange={(newLabel) => onLabelChange?.(connector.id, 'connector', newLabel)}
+              onFinishEdit={() => onFinishEditing?.()}
+              fontSize={12}
+              style={{
+                color: 'var(--canvas-label-display-text:)',
+                pointerEvents: isEditing ? 'auto' : 'none',
+                background: strokeColor,
+                borderRadius: '5px',
+              }}
+            />
+          </LabelStyleContext.Provider>
         </div>
       </foreignObject>
 
@@ -288,6 +333,19 @@ export const LineConnectorRenderer: React.FC<ConnectorRendererProps> = ({
           {connector.targetCardinality}
         </text>
       )}
+
+      {/* Route editing handles */}
+      {showRouteHandles && onRouteChange && (
+        <ConnectorRouteHandles
+          style={connector.style}
+          route={pathPoints}
+          controlPoints={controlPoints}
+          points={routePoints}
+          zoom={context.zoom}
+          onDraft={setDraftPoints}
+          onCommit={(points) => onRouteChange(connector.id, points)}
+        />
+      )}
     </g>
   );
 };
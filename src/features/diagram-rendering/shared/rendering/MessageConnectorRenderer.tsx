@@ -13,6 +13,7 @@
 import React from 'react';
 import type { ConnectorRendererProps } from './connector-types';
 import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { LabelStyleContext } from '@/widgets/canvas/ui/editors/LabelStyleContext';
 import { getConnectionPointsForShape, calculateAbsolutePosition } from '@/widgets/canvas/lib/utils/connectionPoints';
 import { getStrokeDasharray } from './strokeStyles';
 import { getSequenceDiagramMarker } from './svgMarkers';
@@ -97,15 +98,16 @@ export const MessageConnectorRenderer: React.FC<ConnectorRendererProps> = ({
     ? getSelfMessagePath(sourceX, sourceY, targetX, targetY, context.zoom)
     : getStraightMessagePath(sourceX, sourceY, targetX, targetY);
 
-  // Zoom-compensated stroke width
-  const strokeWidth = THEME_CONFIG.stroke.connector / context.zoom;
+  // Zoom-compensated stroke width (theme default unless the connector is styled)
+  const { appearance } = connector;
+  const strokeWidth = (appearance?.strokeWidth ?? THEME_CONFIG.stroke.connector) / context.zoom;
 
   // Base color - darker when selected/hovered
   const strokeColor = context.isSelected
     ? 'var(--canvas-connector-stroke-selected)'
     : context.isHovered
     ? 'var(--canvas-connector-stroke-hover)'
-    : 'var(--canvas-connector-stroke-default)';
+    : appearance?.strokeColor ?? 'var(--canvas-connector-stroke-default)';
 
   // Line style based on connector type
   const strokeDasharray = getStrokeDasharray(connector.lineType, strokeWidth);
@@ -117,7 +119,7 @@ export const MessageConnectorRenderer: React.FC<ConnectorRendererProps> = ({
   const markerEndId = `marker-end-${connector.id}`;
 
   return (
-    <g>
+    <g opacity={appearance?.opacity}>
       {/* Define markers if needed */}
       <defs>
         {markerStartType !== 'none' && getSequenceDiagramMarker(markerStartId, markerStartType, strokeColor, strokeWidth)}
@@ -163,22 +165,24 @@ export const MessageConnectorRenderer: React.FC<ConnectorRendererProps> = ({
         style={{ overflow: 'visible' }}
       >
         <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
-          <EditableLabel
-            label={connector.label}
-            isEditing={isEditing}
-            onStartEdit={() => onDoubleClick?.(connector.id)}
-            onLabelChange={(newLabel) => onLabelChange?.(connector.id, 'connector', newLabel)}
-            onFinishEdit={() => onFinishEditing?.()}
-            fontSize={8}
-            style={{
-              color: 'var(--text)',
-              pointerEvents: isEditing ? 'auto' : 'none',
-              background: 'var(--bg-light)',
-              padding: '2px 4px',
-              borderRadius: '2px',
-              border: '1px solid var(--border)',
-            }}
-          />
+          <LabelStyleContext.Provider value={appearance ?? null}>
+            <EditableLabel
+              label={connector.label}
+              isEditing={isEditing}
+              onStartEdit={() => onDoubleClick?.(connector.id)}
+              onLabelChange={(newLabel) => onLabelChange?.(connector.id, 'connector', newLabel)}
+              onFinishEdit={() => onFinishEditing?.()}
+              fontSize={8}
+              style={{
+                color: 'var(--text)',
+                pointerEvents: isEditing ? 'auto' : 'none',
+                background: 'var(--bg-light)',
+                padding: '2px 4px',
+                borderRadius: '2px',
+                border: '1px solid var(--border)',
+              }}
+            />
+          </LabelStyleContext.Provider>
         </div>
       </foreignObject>
     </g>
@@ -19,6 +19,14 @@ const BpmnGatewayRenderer = createLazyRenderer(
   () => import('../../bpmn/rendering/BpmnGatewayRenderer'),
   'BpmnGatewayRenderer'
 );
+const BpmnPoolRenderer = createLazyRenderer(
+  () => import('../../bpmn/rendering/BpmnPoolRenderer'),
+  'BpmnPoolRenderer'
+);
+const BpmnLaneRenderer = createLazyRenderer(
+  () => import('../../bpmn/rendering/BpmnLaneRenderer'),
+  'BpmnLaneRenderer'
+);
 
 // Class diagram renderers (includes class and enumeration shapes)
 const ClassRenderer = createLazyRenderer(
@@ -39,6 +47,10 @@ const SequenceNoteRenderer = createLazyRenderer(
   () => import('../../sequence/rendering/SequenceNoteRenderer'),
   'SequenceNoteRenderer'
 );
+const SequenceFragmentRenderer = createLazyRenderer(
+  () => import('../../sequence/rendering/SequenceFragmentRenderer'),
+  'SequenceFragmentRenderer'
+);
 
 // Architecture diagram renderers
 const ArchitectureServiceRenderer = createLazyRenderer(
@@ -50,6 +62,58 @@ const ArchitectureGroupRenderer = createLazyRenderer(
   'ArchitectureGroupRenderer'
 );
 
+// Data Flow diagram renderers
+const DataflowEntityRenderer = createLazyRenderer(
+  () => import('../../dataflow/rendering/DataflowEntityRenderer'),
+  'DataflowEntityRenderer'
+);
+const DataflowProcessRenderer = createLazyRenderer(
+  () => import('../../dataflow/rendering/DataflowProcessRenderer'),
+  'DataflowProcessRenderer'
+);
+const DataflowStoreRenderer = createLazyRenderer(
+  () => import('../../dataflow/rendering/DataflowStoreRenderer'),
+  'DataflowStoreRenderer'
+);
+const DataflowBoundaryRenderer = createLazyRenderer(
+  () => import('../../dataflow/rendering/DataflowBoundaryRenderer'),
+  'DataflowBoundaryRenderer'
+);
+
+// Interface wireframe renderers
+const WireframeContainerRenderer = createLazyRenderer(
+  () => import('../../wireframe/rendering/WireframeContainerRenderer'),
+  'WireframeContainerRenderer'
+);
+const WireframeNavBarRenderer = createLazyRenderer(
+  () => import('../../wireframe/rendering/WireframeNavBarRenderer'),
+  'WireframeNavBarRenderer'
+);
+const WireframeInputRenderer = createLazyRenderer(
+  () => import('../../wireframe/rendering/WireframeInputRenderer'),
+  'WireframeInputRenderer'
+);
+const WireframeButtonRenderer = createLazyRenderer(
+  () => import('../../wireframe/rendering/WireframeButtonRenderer'),
+  'WireframeButtonRenderer'
+);
+const WireframeTableRenderer = createLazyRenderer(
+  () => import('../../wireframe/rendering/WireframeTableRenderer'),
+  'WireframeTableRenderer'
+);
+const WireframeImageRenderer = createLazyRenderer(
+  () => import('../../wireframe/rendering/WireframeImageRenderer'),
+  'WireframeImageRenderer'
+);
+const WireframeTextRenderer = createLazyRenderer(
+  () => import('../../wireframe/rendering/WireframeTextRenderer'),
+  'WireframeTextRenderer'
+);
+const InterfaceLinkRenderer = createLazyRenderer(
+  () => import('../../wireframe/rendering/InterfaceLinkRenderer'),
+  'InterfaceLinkRenderer'
+);
+
 // Entity Relationship diagram renderers
 const EntityRenderer = createLazyRenderer(
   () => import('../../entity-relationship/rendering/EntityRenderer'),
@@ -75,6 +139,22 @@ const SuggestionCommentRenderer = createLazyRenderer(
   () => import('./SuggestionCommentRenderer'),
   'SuggestionCommentRenderer'
 );
+const AnnotationNoteRenderer = createLazyRenderer(
+  () => import('../../annotation/rendering/AnnotationNoteRenderer'),
+  'AnnotationNoteRenderer'
+);
+const AnnotationTextRenderer = createLazyRenderer(
+  () => import('../../annotation/rendering/AnnotationTextRenderer'),
+  'AnnotationTextRenderer'
+);
+const AnnotationCalloutRenderer = createLazyRenderer(
+  () => import('../../annotation/rendering/AnnotationCalloutRenderer'),
+  'AnnotationCalloutRenderer'
+);
+const AnnotationInkRenderer = createLazyRenderer(
+  () => import('../../annotation/rendering/AnnotationInkRenderer'),
+  'AnnotationInkRenderer'
+);
 
 /**
  * Shape Renderer Registry
@@ -89,15 +169,33 @@ const shapeRenderers: Record<string, ShapeRendererComponent> = {
   'bpmn-task': BpmnTaskRenderer,
   'bpmn-event': BpmnEventRenderer,
   'bpmn-gateway': BpmnGatewayRenderer,
+  'bpmn-pool': BpmnPoolRenderer,
+  'bpmn-lane': BpmnLaneRenderer,
   // Class diagram shape renderers
   class: ClassRenderer,
   enumeration: EnumerationRenderer,
   // Sequence diagram shape renderers
   'sequence-lifeline': SequenceLifelineRenderer,
   'sequence-note': SequenceNoteRenderer,
+  'sequence-fragment': SequenceFragmentRenderer,
   // Architecture diagram shape renderers
   'architecture-service': ArchitectureServiceRenderer,
   'architecture-group': ArchitectureGroupRenderer,
+  // Data Flow diagram shape renderers
+  'dataflow-entity': DataflowEntityRenderer,
+  'dataflow-process': DataflowProcessRenderer,
+  'dataflow-store': DataflowStoreRenderer,
+  'dataflow-boundary': DataflowBoundaryRenderer,
+  // Interface wireframe shape renderers
+  'wireframe-container': WireframeContainerRenderer,
+  'wireframe-navbar': WireframeNavBarRenderer,
+  'wireframe-input': WireframeInputRenderer,
+  'wireframe-button': WireframeButtonRenderer,
+  'wireframe-table': WireframeTableRenderer,
+  'wireframe-image': WireframeImageRenderer,
+  'wireframe-text': WireframeTextRenderer,
+  // Interface screen references dropped onto diagrams
+  'interface-link': InterfaceLinkRenderer,
   // Entity Relationship diagram shape renderers
   entity: EntityRenderer,
   // LLM-powered diagram generation shapes
@@ -106,6 +204,10 @@ const shapeRenderers: Record<string, ShapeRendererComponent> = {
   'mermaid-editor': MermaidEditorRenderer,
   // Overlay/Annotation shapes
   'suggestion-comment': SuggestionCommentRenderer,
+  'annotation-note': AnnotationNoteRenderer,
+  'annotation-text': AnnotationTextRenderer,
+  'annotation-callout': AnnotationCalloutRenderer,
+  'annotation-ink': AnnotationInkRenderer,
   // Future shape types can be added here:
   // circle: CircleRenderer,
   // ellipse: EllipseRenderer,
@@ -176,6 +278,11 @@ function arePropsEqual(prevProps: ShapeRendererProps, nextProps: ShapeRendererPr
     return false;
   }
 
+  // Check style overrides
+  if (prevShape.appearance !== nextShape.appearance) {
+    return false;
+  }
+
   // Check context changes (selection, hover, zoom)
   const prevContext = prevProps.context;
   const nextContext = nextProps.context;
@@ -6,10 +6,19 @@
  *
  * This enables both simple shapes (single interactive element) and complex
  * shapes (multiple interactive sub-elements) to work correctly.
+ *
+ * Shapes with open review threads get a comment badge in the top-right corner.
+ *
+ * Style overrides of the shape (shape.appearance) replace the renderer's fill,
+ * outline and opacity, and are passed to the shape's labels. The selection and
+ * hover outline colors are kept, so styled shapes still show their state.
  */
 
 import { forwardRef } from 'react';
 import type { Shape } from '@/entities/shape';
+import { useCanvasComments } from '@/widgets/canvas/ui/contexts/CanvasCommentsContext';
+import { LabelStyleContext } from '@/widgets/canvas/ui/editors/LabelStyleContext';
+import { CommentBadge } from './components/CommentBadge';
 
 interface ShapeWrapperProps {
   shape: Shape;
@@ -63,6 +72,7 @@ function isInteractiveElement(element: EventTarget | null): boolean {
 export const ShapeWrapper = forwardRef<HTMLDivElement, ShapeWrapperProps>(function ShapeWrapper({
   shape,
   isSelected,
+  isHovered,
   zoom,
   borderColor,
   borderWidth,
@@ -80,6 +90,14 @@ export const ShapeWrapper = forwardRef<HTMLDivElement, ShapeWrapperProps>(functi
   onDrop,
 }, ref) {
   const { id, x, y, width, height } = shape;
+  const comments = useCanvasComments();
+  const openThreadCount = comments?.openThreadCounts.get(id) ?? 0;
+
+  const { appearance } = shape;
+  const outlineColor = (!isSelected && !isHovered && appearance?.strokeColor) || borderColor;
+  // Stroke widths are zoom-compensated like the renderers' own borders
+  const outlineWidth = !isSelected && appearance?.strokeWidth ? appearance.strokeWidth / zoom : borderWidth;
+  const outlineStyle = appearance?.strokeDash ?? borderStyle;
 
   const handleMouseDown = (e: React.MouseEvent) => {
     // Only trigger shape-level mousedown if not clicking on interactive element
@@ -139,10 +157,11 @@ export const ShapeWrapper = forwardRef<HTMLDivElement, ShapeWrapperProps>(functi
           width: `${width}px`,
           //minHeight: `${height}px`,
           zIndex: 1,
-          outline: `${borderWidth}px ${borderStyle} ${borderColor}`,
-          outlineOffset: `-${borderWidth}px`,
+          outline: `${outlineWidth}px ${outlineStyle} ${outlineColor}`,
+          outlineOffset: `-${outlineWidth}px`,
           borderRadius: `${borderRadius}px`,
-          backgroundColor,
+          backgroundColor: appearance?.fill ?? backgroundColor,
+          opacity: appearance?.opacity,
           cursor: isSelected ? 'move' : 'pointer',
           boxSizing: 'border-box',
           userSelect: 'none',
@@ -150,7 +169,10 @@ export const ShapeWrapper = forwardRef<HTMLDivElement, ShapeWrapperProps>(functi
           ...style,
         }}
       >
-        {children}
+        <LabelStyleContext.Provider value={appearance ?? null}>{children}</LabelStyleContext.Provider>
+        {comments && openThreadCount > 0 && (
+          <CommentBadge count={openThreadCount} zoom={zoom} onClick={() => comments.openShapeThreads(id)} />
+        )}
       </div>
     </>
   );
@@ -0,0 +1,47 @@
+/**
+ * Comment Badge
+ *
+ * Count of open review threads, pinned to the top-right corner of a shape.
+ * Kept at a constant screen size regardless of zoom.
+ */
+
+import { LuMessageSquare } from 'react-icons/lu';
+
+interface CommentBadgeProps {
+  count: number;
+  zoom: number;
+  onClick: () => void;
+}
+
+export function CommentBadge({ count, zoom, onClick }: CommentBadgeProps) {
+  return (
+    <button
+      type="button"
+      data-interactive
+      title={`${count} open comment${count === 1 ? '' : 's'}`}
+      onMouseDown={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className="flex items-center gap-0.5 px-1 rounded-full bg-[var(--canvas-comment-badge)] text-white shadow-sm"
+      style={{
+        position: 'absolute',
+        top: 0,
+        right: 0,
+        transform: `translate(50%, -50%) scale(${1 / zoom})`,
+        transformOrigin: 'center',
+        height: '18px',
+        fontSize: '11px',
+        lineHeight: 1,
+        zIndex: 2,
+        cursor: 'pointer',
+        pointerEvents: 'auto',
+      }}
+    >
+      <LuMessageSquare size={10} />
+      {count}
+    </button>
+  );
+}
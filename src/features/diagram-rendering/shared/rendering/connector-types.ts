@@ -1,5 +1,8 @@
 import type { Connector } from '@/entities/connector';
-import type { Shape } from '@/entities/shape';
+import type { LineJumpStyle } from '@/entities/diagram';
+import type { Point, Shape } from '@/entities/shape';
+import type { Segment } from '@/widgets/canvas/lib/utils/routing';
+import type { LineJump } from './lineJumps';
 
 /**
  * Connector Renderer Types
@@ -28,6 +31,15 @@ export interface ConnectorRenderContext {
 
   /** All shapes on the canvas (for obstacle avoidance in routing) */
   allShapes?: Shape[];
+
+  /** How crossings with the connectors below are drawn (plain intersections by default) */
+  lineJumpStyle?: LineJumpStyle;
+
+  /** Crossings where this connector jumps over the connectors below it */
+  lineJumps?: LineJump[];
+
+  /** Route segments of the connectors below this one (for crossing-aware routing) */
+  crossingSegments?: Segment[];
 }
 
 /**
@@ -56,6 +68,13 @@ export interface ConnectorRendererProps {
   onDoubleClick?: (connectorId: string) => void;
   onLabelChange?: (entityId: string, entityType: 'shape' | 'connector', newLabel: string) => void;
   onFinishEditing?: () => void;
+  /** Called with the new route points when the user edits the route of a selected connector */
+  onRouteChange?: (connectorId: string, points: Point[] | undefined) => void;
+  /**
+   * Called with the rendered route whenever it changes (null when the connector is no
+   * longer rendered), for line jumps and crossing-aware routing
+   */
+  onPathChange?: (connectorId: string, pathPoints: Point[] | null) => void;
 }
 
 /**
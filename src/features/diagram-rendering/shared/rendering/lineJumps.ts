@@ -0,0 +1,182 @@
+import type { Point } from '@/widgets/canvas/lib/utils/pathUtils';
+import type { LineJumpStyle } from '@/entities/diagram';
+import { getSegmentIntersection, type Segment } from '@/widgets/canvas/lib/utils/routing';
+import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
+
+/**
+ * Line Jumps
+ *
+ * Where two connectors cross, the connector drawn later jumps over the one below it
+ * with a small arc or a gap. Crossings are found with a uniform grid over the route
+ * segments of all visible connectors, so each segment is only tested against the
+ * segments near it.
+ */
+
+/**
+ * Rendered route of a connector, in drawing order
+ */
+export interface ConnectorPath {
+  connectorId: string;
+  points: Point[];
+  /** Whether jumps can be drawn on the path (polylines; curves are only jumped over) */
+  canJump: boolean;
+}
+
+/**
+ * Crossing on a connector path where a jump is drawn
+ */
+export interface LineJump {
+  /** Index of the path segment (segment i runs from point i to point i + 1) */
+  segmentIndex: number;
+  point: Point;
+}
+
+// Segments by path, so unchanged paths keep their segment objects
+const segmentCache = new WeakMap<Point[], Segment[]>();
+
+/**
+ * Split a path into its segments
+ * Cached per points array: the segments of an unchanged path are the same objects.
+ */
+export function getPathSegments(points: Point[]): Segment[] {
+  const cached = segmentCache.get(points);
+  if (cached) return cached;
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    segments.push({ from: points[i], to: points[i + 1] });
+  }
+  segmentCache.set(points, segments);
+  return segments;
+}
+
+/**
+ * Find the line jumps of all connectors
+ * Each connector jumps over the connectors drawn before it.
+ *
+ * @returns Jumps by connector ID (connectors without crossings are left out)
+ */
+export function computeLineJumps(paths: ConnectorPath[]): Map<string, LineJump[]> {
+  const cellSize = CANVAS_CONFIG.routing.lineJumpGridSize;
+  const grid = new Map<string, Segment[]>();
+  const jumps = new Map<string, LineJump[]>();
+
+  const getCellKeys = (segment: Segment): string[] => {
+    const minCellX = Math.floor(Math.min(segment.from.x, segment.to.x) / cellSize);
+    const maxCellX = Math.floor(Math.max(segment.from.x, segment.to.x) / cellSize);
+    const minCellY = Math.floor(Math.min(segment.from.y, segment.to.y) / cellSize);
+    const maxCellY = Math.floor(Math.max(segment.from.y, segment.to.y) / cellSize);
+
+    const keys: string[] = [];
+    for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+      for (let cellY = minCellY; cellY <= maxCellY; cellY++) {
+        keys.push(`${cellX},${cellY}`);
+      }
+    }
+    return keys;
+  };
+
+  for (const path of paths) {
+    const segments = getPathSegments(path.points);
+
+    if (path.canJump) {
+      const pathJumps: LineJump[] = [];
+
+      segments.forEach((segment, segmentIndex) => {
+        // A segment spanning several cells meets the same neighbours more than once
+        const tested = new Set<Segment>();
+        for (const key of getCellKeys(segment)) {
+          for (const other of grid.get(key) ?? []) {
+            if (tested.has(other)) continue;
+            tested.add(other);
+
+            const point = getSegmentIntersection(segment.from, segment.to, other.from, other.to);
+            if (point) {
+              pathJumps.push({ segmentIndex, point });
+            }
+          }
+        }
+      });
+
+      if (pathJumps.length > 0) {
+        jumps.set(path.connectorId, pathJumps);
+      }
+    }
+
+    // Later connectors jump over this one
+    for (const segment of segments) {
+      for (const key of getCellKeys(segment)) {
+        const cell = grid.get(key);
+        if (cell) {
+          cell.push(segment);
+        } else {
+          grid.set(key, [segment]);
+        }
+      }
+    }
+  }
+
+  return jumps;
+}
+
+/**
+ * Build the SVG path of a polyline with jumps at its crossings
+ * Jumps too close to a bend, or to the previous jump, are left out.
+ */
+export function getPathDataWithJumps(
+  pathPoints: Point[],
+  jumps: LineJump[],
+  style: Exclude<LineJumpStyle, 'none'>
+): string {
+  const radius = CANVAS_CONFIG.routing.lineJumpRadius;
+  if (pathPoints.length === 0) return '';
+
+  const commands: string[] = [`M ${pathPoints[0].x} ${pathPoints[0].y}`];
+
+  for (let i = 0; i < pathPoints.length - 1; i++) {
+    const from = pathPoints[i];
+    const to = pathPoints[i + 1];
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+
+    if (length > 0) {
+      const direction = { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+      const pointAt = (distance: number): Point => ({
+        x: from.x + direction.x * distance,
+        y: from.y + direction.y * distance,
+      });
+
+      // Distances of the crossings along the segment; jumps computed for a previous
+      // route (before it was reported again) may no longer lie on it
+      const distances = jumps
+        .filter((jump) => jump.segmentIndex === i)
+        .filter((jump) => {
+          const offset = (jump.point.x - from.x) * direction.y - (jump.point.y - from.y) * direction.x;
+          return Math.abs(offset) < 0.5;
+        })
+        .map((jump) => (jump.point.x - from.x) * direction.x + (jump.point.y - from.y) * direction.y)
+        .sort((a, b) => a - b);
+
+      // Arcs bulge up on horizontal segments and right on vertical ones
+      const sweep = direction.x > 0 || (direction.x === 0 && direction.y > 0) ? 1 : 0;
+      let lastJumpEnd = 0;
+
+      for (const distance of distances) {
+        if (distance - radius < lastJumpEnd || distance + radius > length) continue;
+
+        const jumpStart = pointAt(distance - radius);
+        const jumpEnd = pointAt(distance + radius);
+        commands.push(`L ${jumpStart.x} ${jumpStart.y}`);
+        commands.push(
+          style === 'arc'
+            ? `A ${radius} ${radius} 0 0 ${sweep} ${jumpEnd.x} ${jumpEnd.y}`
+            : `M ${jumpEnd.x} ${jumpEnd.y}`
+        );
+        lastJumpEnd = distance + radius;
+      }
+    }
+
+    commands.push(`L ${to.x} ${to.y}`);
+  }
+
+  return commands.join(' ');
+}
@@ -2,13 +2,33 @@ import type { Point } from '@/widgets/canvas/lib/utils/pathUtils';
 import type { Shape } from '@/entities/shape';
 import {
   findOrthogonalRoute,
-  type Direction
+  findPinnedOrthogonalRoute,
+  type Direction,
+  type Segment
 } from '@/widgets/canvas/lib/utils/routing';
 import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
 
 // Connection point direction for routing
 export type ConnectionPointDirection = 'N' | 'S' | 'E' | 'W';
 
+/**
+ * Split the stored route points of an orthogonal connector into its pinned segments
+ * Points come in pairs; each pair is an axis-aligned segment the route passes through
+ */
+export function getPinnedSegments(points: Point[] | undefined): Segment[] {
+  const segments: Segment[] = [];
+  if (!points) return segments;
+
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    const from = points[i];
+    const to = points[i + 1];
+    if (from.x === to.x || from.y === to.y) {
+      segments.push({ from, to });
+    }
+  }
+  return segments;
+}
+
 /**
  * Generate path data based on routing style
  * Returns both the SVG path string and the array of points that make up the path
@@ -28,20 +48,57 @@ export function getPathData(
     useAdvancedRouting?: boolean;
     /** All connection points from source and target shapes for visibility extensions */
     allConnectionPoints?: Array<{ x: number; y: number; direction: Direction }>;
+    /**
+     * User-defined route points: waypoints of straight connectors, the two control
+     * points of curved connectors, pinned segments of orthogonal connectors
+     */
+    points?: Point[];
+    /**
+     * Route segments of other connectors; when given, orthogonal routes prefer fewer
+     * crossings with them (and fewer bends)
+     */
+    crossingSegments?: Segment[];
   }
 ): { pathData: string; pathPoints: Point[] } {
+  const points = options?.points;
+
   switch (style) {
-    case 'straight':
+    case 'straight': {
+      const pathPoints = [start, ...(points ?? []), end];
       return {
-        pathData: `M ${start.x} ${start.y} L ${end.x} ${end.y}`,
-        pathPoints: [start, end],
+        pathData: pathPoints.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' '),
+        pathPoints,
       };
+    }
 
     case 'curved':
-      return getCurvedPath(start, end, startDirection, endDirection);
+      return getCurvedPath(
+        start,
+        end,
+        startDirection,
+        endDirection,
+        points?.length === 2 ? [points[0], points[1]] : undefined
+      );
 
     case 'orthogonal':
-    default:
+    default: {
+      // Pinned segments are kept in place, the rest of the route avoids the shapes
+      const pinnedSegments = getPinnedSegments(points);
+      if (pinnedSegments.length > 0) {
+        const pathPoints = findPinnedOrthogonalRoute(
+          start,
+          end,
+          options?.shapes ?? [],
+          startDirection,
+          endDirection,
+          pinnedSegments
+        );
+        return {
+          pathData: pathPoints.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' '),
+          pathPoints,
+        };
+      }
+
       // Use advanced routing if shapes are provided and flag is set
       if (options?.useAdvancedRouting && options?.shapes && options.shapes.length > 0) {
         try {
@@ -52,7 +109,8 @@ export function getPathData(
             endDirection,
             options.shapes,
             options.excludeShapeIds || [],
-            options.allConnectionPoints
+            options.allConnectionPoints,
+            options.crossingSegments
           );
         } catch (error) {
           console.error('[pathUtils] Advanced routing FAILED:', error);
@@ -60,19 +118,20 @@ export function getPathData(
         }
       }
       return getOrthogonalPath(start, end, startDirection, endDirection);
+    }
   }
 }
 
 /**
- * Generate curved (Bezier) path
- * For curved paths, we approximate the path with sample points along the Bezier curve
+ * Get the automatic Bezier control points of a curved connector
+ * The curve leaves and enters the shapes perpendicular to their sides
  */
-export function getCurvedPath(
+export function getCurveControlPoints(
   start: { x: number; y: number },
   end: { x: number; y: number },
   startDirection: ConnectionPointDirection,
   endDirection: ConnectionPointDirection
-): { pathData: string; pathPoints: Point[] } {
+): [Point, Point] {
   const offset = CANVAS_CONFIG.routing.curveControlPointOffset;
 
   // Calculate control point based on direction
@@ -92,8 +151,21 @@ export function getCurvedPath(
     }
   };
 
-  const c1 = getControlOffset(start, startDirection);
-  const c2 = getControlOffset(end, endDirection);
+  return [getControlOffset(start, startDirection), getControlOffset(end, endDirection)];
+}
+
+/**
+ * Generate curved (Bezier) path
+ * For curved paths, we approximate the path with sample points along the Bezier curve
+ */
+export function getCurvedPath(
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+  startDirection: ConnectionPointDirection,
+  endDirection: ConnectionPointDirection,
+  controlPoints?: [Point, Point]
+): { pathData: string; pathPoints: Point[] } {
+  const [c1, c2] = controlPoints ?? getCurveControlPoints(start, end, startDirection, endDirection);
 
   const pathData = `M ${start.x} ${start.y} C ${c1.x} ${c1.y}, ${c2.x} ${c2.y}, ${end.x} ${end.y}`;
 
@@ -195,7 +267,8 @@ export function getAdvancedOrthogonalPath(
   endDirection: ConnectionPointDirection,
   allShapes: Shape[],
   _excludeShapeIds: string[],
-  allConnectionPoints?: Array<{ x: number; y: number; direction: Direction }>
+  allConnectionPoints?: Array<{ x: number; y: number; direction: Direction }>,
+  crossingSegments?: Segment[]
 ): { pathData: string; pathPoints: Point[] } {
   // Use provided connection points or default to just start and end
   const connectionCorridors = allConnectionPoints || [
@@ -219,7 +292,8 @@ export function getAdvancedOrthogonalPath(
     allShapes, // Use all shapes, not just filtered ones
     startDirection as Direction,
     endDirection as Direction,
-    connectionCorridors // Pass all connection points for visibility extensions
+    connectionCorridors, // Pass all connection points for visibility extensions
+    crossingSegments
   );
 
   // Build SVG path string from points
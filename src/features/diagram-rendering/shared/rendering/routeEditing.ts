@@ -0,0 +1,173 @@
+import type { Point } from '@/widgets/canvas/lib/utils/pathUtils';
+import type { Segment } from '@/widgets/canvas/lib/utils/routing';
+
+/**
+ * Route Editing
+ *
+ * Pure helpers behind the connector route handles:
+ * - Orthogonal connectors: inner segments of the route can be dragged perpendicular
+ *   to their orientation; a dragged segment is pinned and stored as a pair of points
+ * - Straight connectors: free waypoints can be added, moved and removed
+ */
+
+/**
+ * Handle on an inner segment of an orthogonal route
+ */
+export interface SegmentHandle {
+  /** Index of the segment in the route (segment i runs from point i to point i + 1) */
+  index: number;
+  /** Midpoint of the segment, where the handle is drawn */
+  position: Point;
+  orientation: 'horizontal' | 'vertical';
+  /** Whether the segment is pinned by the user */
+  pinned: boolean;
+}
+
+/**
+ * Check if a pinned segment lies on a route segment
+ * Collinear and overlapping is enough: merging collinear legs can extend or shorten
+ * the route segment around the pin
+ */
+function isPinOnSegment(pin: Segment, from: Point, to: Point): boolean {
+  if (from.y === to.y) {
+    return (
+      pin.from.y === from.y &&
+      pin.to.y === from.y &&
+      Math.min(pin.from.x, pin.to.x) <= Math.max(from.x, to.x) &&
+      Math.max(pin.from.x, pin.to.x) >= Math.min(from.x, to.x)
+    );
+  }
+  return (
+    pin.from.x === from.x &&
+    pin.to.x === from.x &&
+    Math.min(pin.from.y, pin.to.y) <= Math.max(from.y, to.y) &&
+    Math.max(pin.from.y, pin.to.y) >= Math.min(from.y, to.y)
+  );
+}
+
+/**
+ * Get the draggable inner segments of an orthogonal route
+ * The first and last segments stay attached to the connection points.
+ */
+export function getSegmentHandles(route: Point[], pinnedSegments: Segment[]): SegmentHandle[] {
+  const handles: SegmentHandle[] = [];
+
+  for (let i = 1; i < route.length - 2; i++) {
+    const from = route[i];
+    const to = route[i + 1];
+    if (from.x !== to.x && from.y !== to.y) continue;
+
+    handles.push({
+      index: i,
+      position: { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 },
+      orientation: from.y === to.y ? 'horizontal' : 'vertical',
+      pinned: pinnedSegments.some((pin) => isPinOnSegment(pin, from, to)),
+    });
+  }
+
+  return handles;
+}
+
+/**
+ * Pin a dragged segment at its new position
+ * Pins on the other inner segments are kept, in route order.
+ *
+ * @returns The new route points of the connector (pinned segments as point pairs)
+ */
+export function pinRouteSegment(
+  route: Point[],
+  pinnedSegments: Segment[],
+  index: number,
+  delta: Point
+): Point[] {
+  const points: Point[] = [];
+
+  for (let i = 1; i < route.length - 2; i++) {
+    const from = route[i];
+    const to = route[i + 1];
+
+    if (i === index) {
+      // Horizontal segments move vertically, vertical segments horizontally
+      const offset = from.y === to.y
+        ? { x: 0, y: Math.round(delta.y) }
+        : { x: Math.round(delta.x), y: 0 };
+      points.push(
+        { x: from.x + offset.x, y: from.y + offset.y },
+        { x: to.x + offset.x, y: to.y + offset.y }
+      );
+      continue;
+    }
+
+    const pin = pinnedSegments.find((segment) => isPinOnSegment(segment, from, to));
+    if (pin) {
+      points.push(pin.from, pin.to);
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Release the pin of a segment
+ *
+ * @returns The remaining route points, or undefined when no pins are left (auto route)
+ */
+export function unpinRouteSegment(
+  route: Point[],
+  pinnedSegments: Segment[],
+  index: number
+): Point[] | undefined {
+  const from = route[index];
+  const to = route[index + 1];
+  const points = pinnedSegments
+    .filter((pin) => !isPinOnSegment(pin, from, to))
+    .flatMap((pin) => [pin.from, pin.to]);
+
+  return points.length > 0 ? points : undefined;
+}
+
+/**
+ * Move a waypoint of a straight connector
+ */
+export function moveWaypoint(waypoints: Point[], index: number, position: Point): Point[] {
+  return waypoints.map((waypoint, i) =>
+    i === index ? { x: Math.round(position.x), y: Math.round(position.y) } : waypoint
+  );
+}
+
+/**
+ * Insert a waypoint into a straight connector
+ * Segment i of the route runs from point i to i + 1, so the new waypoint becomes waypoint i.
+ */
+export function insertWaypoint(waypoints: Point[], segmentIndex: number, position: Point): Point[] {
+  const next = [...waypoints];
+  next.splice(segmentIndex, 0, { x: Math.round(position.x), y: Math.round(position.y) });
+  return next;
+}
+
+/**
+ * Remove a waypoint from a straight connector
+ *
+ * @returns The remaining waypoints, or undefined when none are left (direct line)
+ */
+export function removeWaypoint(waypoints: Point[], index: number): Point[] | undefined {
+  const next = waypoints.filter((_, i) => i !== index);
+  return next.length > 0 ? next : undefined;
+}
+
+/**
+ * Convert the route points of a connector when its routing style changes
+ * Pinned orthogonal segments become waypoints of a straight connector, so the line
+ * keeps its course; other points don't carry over and the connector is routed
+ * automatically.
+ */
+export function convertRoutePoints(
+  points: Point[] | undefined,
+  fromStyle: 'straight' | 'orthogonal' | 'curved',
+  toStyle: 'straight' | 'orthogonal' | 'curved'
+): Point[] | undefined {
+  if (!points || points.length === 0) return undefined;
+  if (fromStyle === toStyle) return points;
+  if (fromStyle === 'orthogonal' && toStyle === 'straight') return points;
+  return undefined;
+}
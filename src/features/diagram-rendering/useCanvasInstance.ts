@@ -3,6 +3,8 @@ import type { CanvasInstanceStore } from '@/shared/model/stores/canvas/createCan
 import { defaultBpmnConnectorType } from './bpmn/connectors';
 import { defaultClassConnectorType } from './class/connectors';
 import { defaultSequenceConnectorType } from './sequence/connectors';
+import { defaultDataflowConnectorType } from './dataflow/connectors';
+import { defaultWireframeConnectorType } from './wireframe/connectors';
 import type { DiagramType } from '@/entities/diagram';
 
 /**
@@ -17,6 +19,10 @@ function getDefaultConnectorType(diagramType?: DiagramType): string {
       return defaultClassConnectorType;
     case 'sequence':
       return defaultSequenceConnectorType;
+    case 'dataflow':
+      return defaultDataflowConnectorType;
+    case 'wireframe':
+      return defaultWireframeConnectorType;
     default:
       return 'line';
   }
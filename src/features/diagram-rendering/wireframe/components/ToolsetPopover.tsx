@@ -0,0 +1,132 @@
+/**
+ * Wireframe Toolset Popover Component
+ *
+ * Displays a popover with wireframe tools when the user right-clicks on the canvas.
+ * A fidelity switch (Low / Medium / High) sits above the tool rows; primitives are
+ * created at the selected fidelity. Tools are organized by type (Layout, Controls,
+ * Content, AI tools) in rows with icon buttons.
+ */
+
+import { useState } from 'react';
+import type { WireframeFidelity } from '@/entities/shape';
+import {
+  wireframeToolGroups,
+  wireframeFidelityOptions,
+  defaultWireframeFidelity,
+  getWireframeToolById,
+  withWireframeFidelity,
+  type Tool,
+} from '../tools';
+import type { DrawingConnector } from '@/widgets/canvas/lib/hooks/useInteractionState';
+import { ContextMenuWrapper } from '@/widgets/canvas/ui/menus/ContextMenuWrapper';
+
+interface WireframeToolsetPopoverProps {
+  /** X position in screen coordinates */
+  x: number;
+  /** Y position in screen coordinates */
+  y: number;
+  /** X position in canvas coordinates where shape should be created */
+  canvasX: number;
+  /** Y position in canvas coordinates where shape should be created */
+  canvasY: number;
+  /** Whether the popover is visible */
+  isOpen: boolean;
+  /** Callback when popover should close */
+  onClose: () => void;
+  /** Callback when a tool is selected */
+  onToolSelect: (tool: Tool, canvasX: number, canvasY: number) => void;
+  /** Fidelity selected when the popover opens (typically the interface's fidelity) */
+  defaultFidelity?: WireframeFidelity;
+  /** Active drawing connector (if user is drawing a connector) */
+  drawingConnector?: DrawingConnector | null;
+}
+
+export function WireframeToolsetPopover({
+  x,
+  y,
+  canvasX,
+  canvasY,
+  isOpen,
+  onClose,
+  onToolSelect,
+  defaultFidelity = defaultWireframeFidelity,
+  drawingConnector,
+}: WireframeToolsetPopoverProps) {
+  const [fidelity, setFidelity] = useState<WireframeFidelity>(defaultFidelity);
+
+  const handleToolClick = (tool: Tool) => {
+    // Only wireframe primitives carry a fidelity; global tools pass through unchanged
+    const isWireframeTool = getWireframeToolById(tool.id) !== undefined;
+    onToolSelect(isWireframeTool ? withWireframeFidelity(tool, fidelity) : tool, canvasX, canvasY);
+    onClose();
+  };
+
+  return (
+    <ContextMenuWrapper
+      menuId="wireframe-toolset-popover"
+      isOpen={isOpen}
+      x={x}
+      y={y}
+      onClose={onClose}
+      className="bg-[var(--bg-light)] border border-[var(--border)] rounded-sm [box-shadow:var(--shadow)] p-2"
+    >
+      {/* Fidelity switch */}
+      <div className="flex gap-1 pb-1" role="radiogroup" aria-label="Fidelity">
+        {wireframeFidelityOptions.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setFidelity(option.value)}
+            className={`h-5 px-1.5 text-[10px] rounded-sm transition-colors duration-[var(--transition-fast)] cursor-pointer border-0 ${
+              fidelity === option.value
+                ? 'bg-[var(--primary)] text-white'
+                : 'bg-transparent text-[var(--text-muted)] hover:bg-[var(--highlight)]'
+            }`}
+            role="radio"
+            aria-checked={fidelity === option.value}
+            title={`${option.label} fidelity`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <div className="h-px bg-[var(--border-muted)] my-1" />
+
+      {/* Dynamic tool groups */}
+      <div className="flex flex-col gap-0">
+        {wireframeToolGroups.map((group, groupIndex) => (
+          <div key={group.type}>
+            {/* Tool row */}
+            <div className="flex gap-1 py-1">
+              {group.tools.map((tool) => {
+                const Icon = tool.icon;
+                return (
+                  <button
+                    key={tool.id}
+                    onClick={() => handleToolClick(tool)}
+                    className="w-6 h-6 min-w-[24px] min-h-[24px] p-0 flex items-center justify-center text-[var(--text)] hover:bg-[var(--highlight)] rounded-sm transition-colors duration-[var(--transition-fast)] cursor-pointer border-0 bg-transparent"
+                    title={tool.name}
+                    aria-label={tool.name}
+                  >
+                    <Icon size={14} />
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Divider between groups (except after last group) */}
+            {groupIndex < wireframeToolGroups.length - 1 && (
+              <div className="h-px bg-[var(--border-muted)] my-1" />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Optional: Display hint if drawing connector */}
+      {drawingConnector && (
+        <div className="mt-2 pt-2 border-t border-[var(--border-muted)] text-xs text-[var(--text-muted)]">
+          Creating connection from {drawingConnector.fromShapeId}
+        </div>
+      )}
+    </ContextMenuWrapper>
+  );
+}
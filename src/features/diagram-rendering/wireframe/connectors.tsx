@@ -0,0 +1,82 @@
+/**
+ * Wireframe Connector Configuration
+ * Defines all available interface wireframe connector types
+ */
+
+import type { ComponentType } from 'react';
+import { TbArrowCurveRight, TbArrowRight } from 'react-icons/tb';
+import type { ArrowType, LineType } from '@/entities/connector';
+
+/**
+ * Connector tool definition interface
+ * Represents a connector type that can be created on the canvas
+ */
+export interface ConnectorTool {
+  /** Unique identifier for the connector type */
+  id: string;
+  /** Display name for the connector type */
+  name: string;
+  /** Icon component from react-icons */
+  icon: ComponentType<{ size?: number }>;
+  /** Connector type identifier */
+  connectorType: string;
+  /** Default routing style */
+  style: 'straight' | 'orthogonal' | 'curved';
+  /** Marker at the start of the connector */
+  markerStart: ArrowType;
+  /** Marker at the end of the connector */
+  markerEnd: ArrowType;
+  /** Line style */
+  lineType: LineType;
+}
+
+/**
+ * Wireframe Connector Tools
+ * Navigation connectors describe how the user moves between screens
+ */
+const wireframeConnectorTools: ConnectorTool[] = [
+  {
+    id: 'navigation',
+    name: 'Navigation',
+    icon: TbArrowCurveRight,
+    connectorType: 'navigation',
+    style: 'curved',
+    markerStart: 'none',
+    markerEnd: 'arrow',
+    lineType: 'solid',
+  },
+  {
+    id: 'conditional-navigation',
+    name: 'Conditional Navigation',
+    icon: TbArrowRight,
+    connectorType: 'conditional-navigation',
+    style: 'curved',
+    markerStart: 'none',
+    markerEnd: 'arrow',
+    lineType: 'dashed',
+  },
+];
+
+/**
+ * All wireframe connector tools
+ */
+export const allWireframeConnectorTools: ConnectorTool[] = wireframeConnectorTools;
+
+/**
+ * Default wireframe connector type
+ */
+export const defaultWireframeConnectorType = 'navigation';
+
+/**
+ * Get connector tool by ID
+ */
+export function getWireframeConnectorToolById(id: string): ConnectorTool | undefined {
+  return allWireframeConnectorTools.find(tool => tool.id === id);
+}
+
+/**
+ * Get connector tool by connector type
+ */
+export function getWireframeConnectorToolByType(type: string): ConnectorTool | undefined {
+  return allWireframeConnectorTools.find(tool => tool.connectorType === type);
+}
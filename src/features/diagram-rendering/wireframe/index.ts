@@ -0,0 +1,21 @@
+// Interface Wireframe Module
+// All interface wireframe-specific code is organized here
+
+// Tools & Connectors
+export * from './tools';
+export * from './connectors';
+
+// Rendering
+export { WireframeContainerRenderer } from './rendering/WireframeContainerRenderer';
+export { WireframeNavBarRenderer } from './rendering/WireframeNavBarRenderer';
+export { WireframeInputRenderer } from './rendering/WireframeInputRenderer';
+export { WireframeButtonRenderer } from './rendering/WireframeButtonRenderer';
+export { WireframeTableRenderer } from './rendering/WireframeTableRenderer';
+export { WireframeImageRenderer } from './rendering/WireframeImageRenderer';
+export { WireframeTextRenderer } from './rendering/WireframeTextRenderer';
+export { InterfaceLinkRenderer } from './rendering/InterfaceLinkRenderer';
+export { wireframeFidelityStyles, getWireframeFidelity } from './rendering/fidelity';
+export type { WireframeFidelityStyle } from './rendering/fidelity';
+
+// Components
+export { WireframeToolsetPopover } from './components/ToolsetPopover';
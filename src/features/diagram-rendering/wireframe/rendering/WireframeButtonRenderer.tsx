@@ -0,0 +1,104 @@
+/**
+ * Wireframe Button Renderer
+ *
+ * Renders buttons with a centered label. At high fidelity the button uses the
+ * accent fill so primary actions stand out from the rest of the screen.
+ */
+
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { ConnectionPointRenderer } from '../../shared/rendering/ConnectionPointRenderer';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { STANDARD_RECTANGLE_CONNECTION_POINTS } from '@/widgets/canvas/lib/utils/connectionPoints';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+import { getWireframeBorder, getWireframeFidelity, wireframeFidelityStyles } from './fidelity';
+
+export function WireframeButtonRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+  onConnectionPointMouseDown,
+  onConnectionPointMouseUp,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+
+  const {
+    isInteractive,
+    showHover,
+    showSelected,
+    handleConnectionPointMouseDown,
+    handleConnectionPointMouseUp,
+  } = useShapeInteractivity({
+    shape,
+    context,
+    onConnectionPointMouseDown,
+    onConnectionPointMouseUp,
+  });
+
+  const fidelityStyle = wireframeFidelityStyles[getWireframeFidelity(shape)];
+  const { borderColor, borderWidth } = getWireframeBorder(fidelityStyle, { showSelected, showHover }, zoom);
+
+  return (
+    <ShapeWrapper
+      shape={shape}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor={borderColor}
+      borderWidth={borderWidth}
+      backgroundColor={fidelityStyle.accentFill}
+      borderRadius={fidelityStyle.radius}
+      borderStyle={fidelityStyle.borderStyle}
+      hoverPadding={15}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${height}px`,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '0 8px',
+      }}
+    >
+      {/* Editable label */}
+      <EditableLabel
+        label={shape.label}
+        isEditing={isInteractive && isEditing}
+        onStartEdit={() => {}}
+        onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+        onFinishEdit={() => onFinishEditing?.()}
+        fontSize={12}
+        style={{
+          color: fidelityStyle.accentText,
+          pointerEvents: (isInteractive && isEditing) ? 'auto' : 'none',
+          textAlign: 'center',
+          fontWeight: 600,
+        }}
+      />
+
+      {/* Connection points when hovered */}
+      {showHover &&
+        onConnectionPointMouseDown &&
+        onConnectionPointMouseUp &&
+        STANDARD_RECTANGLE_CONNECTION_POINTS.map((connectionPoint) => (
+          <ConnectionPointRenderer
+            key={connectionPoint.id}
+            connectionPoint={connectionPoint}
+            shapeWidth={width}
+            shapeHeight={height}
+            onMouseDown={handleConnectionPointMouseDown}
+            onMouseUp={handleConnectionPointMouseUp}
+          />
+        ))}
+    </ShapeWrapper>
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * Wireframe Container Renderer
+ *
+ * Renders screens and panels. Screens draw a device frame with a title bar;
+ * panels draw a plain frame with a small caption. Both contain other primitives.
+ */
+
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { ConnectionPointRenderer } from '../../shared/rendering/ConnectionPointRenderer';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { STANDARD_RECTANGLE_CONNECTION_POINTS } from '@/widgets/canvas/lib/utils/connectionPoints';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+import { getWireframeBorder, getWireframeFidelity, wireframeFidelityStyles } from './fidelity';
+
+export function WireframeContainerRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+  onConnectionPointMouseDown,
+  onConnectionPointMouseUp,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+
+  const {
+    isInteractive,
+    showHover,
+    showSelected,
+    showHoveredContainer,
+    handleConnectionPointMouseDown,
+    handleConnectionPointMouseUp,
+  } = useShapeInteractivity({
+    shape,
+    context,
+    onConnectionPointMouseDown,
+    onConnectionPointMouseUp,
+  });
+
+  const fidelityStyle = wireframeFidelityStyles[getWireframeFidelity(shape)];
+  const { borderColor, borderWidth } = getWireframeBorder(
+    fidelityStyle,
+    { showSelected, showHover, showHoveredContainer },
+    zoom
+  );
+
+  const isScreen = shape.subtype === 'screen';
+  const headerHeight = isScreen ? 32 : 24;
+  // Screens read as devices, so round them more than panels
+  const borderRadius = isScreen ? fidelityStyle.radius * 2 : fidelityStyle.radius;
+
+  return (
+    <ShapeWrapper
+      shape={shape}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor={borderColor}
+      borderWidth={borderWidth}
+      backgroundColor=""
+      borderRadius={borderRadius}
+      borderStyle={fidelityStyle.borderStyle}
+      hoverPadding={15}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${height}px`,
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'visible',
+      }}
+    >
+      {/* Title bar (screens) or caption (panels) */}
+      <div
+        style={{
+          height: `${headerHeight}px`,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: isScreen ? 'center' : 'flex-start',
+          padding: '0 8px',
+          borderBottom: isScreen
+            ? `${1 / zoom}px ${fidelityStyle.borderStyle} ${fidelityStyle.stroke}`
+            : undefined,
+          backgroundColor: isScreen ? fidelityStyle.fill : undefined,
+          borderTopLeftRadius: `${borderRadius}px`,
+          borderTopRightRadius: `${borderRadius}px`,
+        }}
+      >
+        <EditableLabel
+          label={shape.label}
+          isEditing={isInteractive && isEditing}
+          onStartEdit={() => {}}
+          onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+          onFinishEdit={() => onFinishEditing?.()}
+          fontSize={isScreen ? 13 : 11}
+          style={{
+            color: isScreen ? fidelityStyle.text : fidelityStyle.mutedText,
+            pointerEvents: (isInteractive && isEditing) ? 'auto' : 'none',
+            textAlign: isScreen ? 'center' : 'left',
+            fontWeight: isScreen ? 600 : 400,
+          }}
+        />
+      </div>
+
+      {/* Content area - transparent for nested primitives to show through */}
+      <div
+        style={{
+          flex: 1,
+          pointerEvents: 'none', // Allow click-through to nested shapes
+        }}
+      />
+
+      {/* Connection points when hovered - on container edges */}
+      {showHover &&
+        onConnectionPointMouseDown &&
+        onConnectionPointMouseUp &&
+        STANDARD_RECTANGLE_CONNECTION_POINTS.map((connectionPoint) => (
+          <ConnectionPointRenderer
+            key={connectionPoint.id}
+            connectionPoint={connectionPoint}
+            shapeWidth={width}
+            shapeHeight={height}
+            onMouseDown={handleConnectionPointMouseDown}
+            onMouseUp={handleConnectionPointMouseUp}
+          />
+        ))}
+    </ShapeWrapper>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * Wireframe Image Renderer
+ *
+ * Renders image placeholders. Low and medium fidelity use the classic crossed box;
+ * high fidelity uses a filled frame with an image icon. The label is the alt text.
+ */
+
+import { LuImage } from 'react-icons/lu';
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { ConnectionPointRenderer } from '../../shared/rendering/ConnectionPointRenderer';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { STANDARD_RECTANGLE_CONNECTION_POINTS } from '@/widgets/canvas/lib/utils/connectionPoints';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+import { getWireframeBorder, getWireframeFidelity, wireframeFidelityStyles } from './fidelity';
+
+export function WireframeImageRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+  onConnectionPointMouseDown,
+  onConnectionPointMouseUp,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+
+  const {
+    isInteractive,
+    showHover,
+    showSelected,
+    handleConnectionPointMouseDown,
+    handleConnectionPointMouseUp,
+  } = useShapeInteractivity({
+    shape,
+    context,
+    onConnectionPointMouseDown,
+    onConnectionPointMouseUp,
+  });
+
+  const fidelity = getWireframeFidelity(shape);
+  const fidelityStyle = wireframeFidelityStyles[fidelity];
+  const { borderColor, borderWidth } = getWireframeBorder(fidelityStyle, { showSelected, showHover }, zoom);
+
+  return (
+    <ShapeWrapper
+      shape={shape}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor={borderColor}
+      borderWidth={borderWidth}
+      backgroundColor={fidelity === 'high' ? 'var(--bg-light)' : fidelityStyle.fill}
+      borderRadius={fidelityStyle.radius}
+      borderStyle={fidelityStyle.borderStyle}
+      hoverPadding={15}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${height}px`,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '4px',
+        padding: '8px',
+        overflow: 'hidden',
+      }}
+    >
+      {fidelity === 'high' ? (
+        <div style={{ color: fidelityStyle.mutedText, display: 'flex', pointerEvents: 'none' }}>
+          <LuImage size={Math.max(16, Math.min(width, height) / 3)} />
+        </div>
+      ) : (
+        /* Crossed placeholder box */
+        <svg
+          width={width}
+          height={height}
+          style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}
+        >
+          <line x1={0} y1={0} x2={width} y2={height} stroke={fidelityStyle.stroke} strokeWidth={1 / zoom} />
+          <line x1={width} y1={0} x2={0} y2={height} stroke={fidelityStyle.stroke} strokeWidth={1 / zoom} />
+        </svg>
+      )}
+
+      {/* Editable alt text */}
+      <EditableLabel
+        label={shape.label}
+        isEditing={isInteractive && isEditing}
+        onStartEdit={() => {}}
+        onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+        onFinishEdit={() => onFinishEditing?.()}
+        fontSize={11}
+        style={{
+          color: fidelityStyle.mutedText,
+          pointerEvents: (isInteractive && isEditing) ? 'auto' : 'none',
+          textAlign: 'center',
+          backgroundColor: fidelity === 'high' ? undefined : 'var(--bg)',
+          padding: '0 4px',
+          position: 'relative',
+        }}
+      />
+
+      {/* Connection points when hovered */}
+      {showHover &&
+        onConnectionPointMouseDown &&
+        onConnectionPointMouseUp &&
+        STANDARD_RECTANGLE_CONNECTION_POINTS.map((connectionPoint) => (
+          <ConnectionPointRenderer
+            key={connectionPoint.id}
+            connectionPoint={connectionPoint}
+            shapeWidth={width}
+            shapeHeight={height}
+            onMouseDown={handleConnectionPointMouseDown}
+            onMouseUp={handleConnectionPointMouseUp}
+          />
+        ))}
+    </ShapeWrapper>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * Wireframe Nav Bar Renderer
+ *
+ * Renders navigation bars: the label is the brand/title on the left and the
+ * link items from the shape data are laid out on the right. Low fidelity draws
+ * the links as placeholder bars; high fidelity highlights the first link.
+ */
+
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { ConnectionPointRenderer } from '../../shared/rendering/ConnectionPointRenderer';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { STANDARD_RECTANGLE_CONNECTION_POINTS } from '@/widgets/canvas/lib/utils/connectionPoints';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+import { isWireframeShapeData } from '@/entities/shape';
+import { getWireframeBorder, getWireframeFidelity, wireframeFidelityStyles } from './fidelity';
+
+export function WireframeNavBarRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+  onConnectionPointMouseDown,
+  onConnectionPointMouseUp,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+
+  const {
+    isInteractive,
+    showHover,
+    showSelected,
+    handleConnectionPointMouseDown,
+    handleConnectionPointMouseUp,
+  } = useShapeInteractivity({
+    shape,
+    context,
+    onConnectionPointMouseDown,
+    onConnectionPointMouseUp,
+  });
+
+  const fidelity = getWireframeFidelity(shape);
+  const fidelityStyle = wireframeFidelityStyles[fidelity];
+  const { borderColor, borderWidth } = getWireframeBorder(fidelityStyle, { showSelected, showHover }, zoom);
+
+  const items = isWireframeShapeData(shape.data) ? shape.data.items ?? [] : [];
+
+  return (
+    <ShapeWrapper
+      shape={shape}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor={borderColor}
+      borderWidth={borderWidth}
+      backgroundColor={fidelityStyle.fill}
+      borderRadius={fidelityStyle.radius}
+      borderStyle={fidelityStyle.borderStyle}
+      hoverPadding={15}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${height}px`,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        padding: '0 12px',
+      }}
+    >
+      {/* Editable brand/title */}
+      <EditableLabel
+        label={shape.label}
+        isEditing={isInteractive && isEditing}
+        onStartEdit={() => {}}
+        onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+        onFinishEdit={() => onFinishEditing?.()}
+        fontSize={13}
+        style={{
+          color: fidelityStyle.text,
+          pointerEvents: (isInteractive && isEditing) ? 'auto' : 'none',
+          textAlign: 'left',
+          flex: 1,
+          fontWeight: 600,
+        }}
+      />
+
+      {/* Link items */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '10px', pointerEvents: 'none' }}>
+        {items.map((item, index) =>
+          fidelity === 'low' ? (
+            <div
+              key={index}
+              style={{
+                width: `${Math.max(16, item.length * 5)}px`,
+                height: '6px',
+                backgroundColor: fidelityStyle.stroke,
+                opacity: 0.5,
+              }}
+            />
+          ) : (
+            <span
+              key={index}
+              style={{
+                fontSize: '11px',
+                whiteSpace: 'nowrap',
+                color: fidelity === 'high' && index === 0 ? 'var(--primary)' : fidelityStyle.mutedText,
+                fontWeight: fidelity === 'high' && index === 0 ? 600 : 400,
+              }}
+            >
+              {item}
+            </span>
+          )
+        )}
+      </div>
+
+      {/* Connection points when hovered */}
+      {showHover &&
+        onConnectionPointMouseDown &&
+        onConnectionPointMouseUp &&
+        STANDARD_RECTANGLE_CONNECTION_POINTS.map((connectionPoint) => (
+          <ConnectionPointRenderer
+            key={connectionPoint.id}
+            connectionPoint={connectionPoint}
+            shapeWidth={width}
+            shapeHeight={height}
+            onMouseDown={handleConnectionPointMouseDown}
+            onMouseUp={handleConnectionPointMouseUp}
+          />
+        ))}
+    </ShapeWrapper>
+  );
+}
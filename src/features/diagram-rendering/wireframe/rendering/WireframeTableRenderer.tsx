@@ -0,0 +1,187 @@
+/**
+ * Wireframe Table Renderer
+ *
+ * Renders tables as a titled grid with a header row. The column and row counts
+ * come from the shape data. Low fidelity fills cells with placeholder bars.
+ */
+
+import type { ShapeRendererProps } from '../../shared/rendering/types';
+import { ConnectionPointRenderer } from '../../shared/rendering/ConnectionPointRenderer';
+import { EditableLabel } from '@/widgets/canvas/ui/editors/EditableLabel';
+import { ShapeWrapper } from '../../shared/rendering/ShapeWrapper';
+import { STANDARD_RECTANGLE_CONNECTION_POINTS } from '@/widgets/canvas/lib/utils/connectionPoints';
+import { useShapeInteractivity } from '@/features/diagram-rendering';
+import { isWireframeShapeData } from '@/entities/shape';
+import { getWireframeBorder, getWireframeFidelity, wireframeFidelityStyles } from './fidelity';
+
+const DEFAULT_COLUMNS = 3;
+const DEFAULT_ROWS = 4;
+const TITLE_HEIGHT = 24;
+
+export function WireframeTableRenderer({
+  shape,
+  context,
+  isEditing = false,
+  onMouseDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDoubleClick,
+  onLabelChange,
+  onFinishEditing,
+  onConnectionPointMouseDown,
+  onConnectionPointMouseUp,
+}: ShapeRendererProps): React.ReactElement {
+  const { width, height } = shape;
+  const { zoom } = context;
+
+  const {
+    isInteractive,
+    showHover,
+    showSelected,
+    handleConnectionPointMouseDown,
+    handleConnectionPointMouseUp,
+  } = useShapeInteractivity({
+    shape,
+    context,
+    onConnectionPointMouseDown,
+    onConnectionPointMouseUp,
+  });
+
+  const fidelity = getWireframeFidelity(shape);
+  const fidelityStyle = wireframeFidelityStyles[fidelity];
+  const { borderColor, borderWidth } = getWireframeBorder(fidelityStyle, { showSelected, showHover }, zoom);
+
+  const data = isWireframeShapeData(shape.data) ? shape.data : undefined;
+  const columns = Math.max(1, data?.columns ?? DEFAULT_COLUMNS);
+  const rows = Math.max(1, data?.rows ?? DEFAULT_ROWS);
+
+  const gridLine = `${1 / zoom}px ${fidelityStyle.borderStyle} ${fidelityStyle.stroke}`;
+
+  const renderCell = (rowIndex: number, columnIndex: number) => {
+    const isHeader = rowIndex === 0;
+    if (fidelity === 'low') {
+      return (
+        <div
+          style={{
+            width: isHeader ? '60%' : '40%',
+            height: '5px',
+            backgroundColor: fidelityStyle.stroke,
+            opacity: isHeader ? 0.7 : 0.35,
+          }}
+        />
+      );
+    }
+    return (
+      <span
+        style={{
+          fontSize: '10px',
+          color: isHeader ? fidelityStyle.text : fidelityStyle.mutedText,
+          fontWeight: isHeader ? 600 : 400,
+          whiteSpace: 'nowrap',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+        }}
+      >
+        {isHeader ? `Column ${columnIndex + 1}` : '—'}
+      </span>
+    );
+  };
+
+  return (
+    <ShapeWrapper
+      shape={shape}
+      isSelected={showSelected}
+      isHovered={showHover}
+      zoom={zoom}
+      borderColor={borderColor}
+      borderWidth={borderWidth}
+      backgroundColor={fidelity === 'low' ? '' : 'var(--bg)'}
+      borderRadius={fidelityStyle.radius}
+      borderStyle={fidelityStyle.borderStyle}
+      hoverPadding={15}
+      onMouseDown={isInteractive ? onMouseDown : undefined}
+      onMouseEnter={isInteractive ? onMouseEnter : undefined}
+      onMouseLeave={isInteractive ? onMouseLeave : undefined}
+      onDoubleClick={isInteractive ? onDoubleClick : undefined}
+      style={{
+        height: `${height}px`,
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+      }}
+    >
+      {/* Title */}
+      <div
+        style={{
+          height: `${TITLE_HEIGHT}px`,
+          display: 'flex',
+          alignItems: 'center',
+          padding: '0 8px',
+          flexShrink: 0,
+        }}
+      >
+        <EditableLabel
+          label={shape.label}
+          isEditing={isInteractive && isEditing}
+          onStartEdit={() => {}}
+          onLabelChange={(newLabel) => onLabelChange?.(shape.id, 'shape', newLabel)}
+          onFinishEdit={() => onFinishEditing?.()}
+          fontSize={12}
+          style={{
+            color: fidelityStyle.text,
+            pointerEvents: (isInteractive && isEditing) ? 'auto' : 'none',
+            textAlign: 'left',
+            flex: 1,
+            fontWeight: 600,
+          }}
+        />
+      </div>
+
+      {/* Grid: header row followed by body rows */}
+      <div
+        style={{
+          flex: 1,
+          display: 'grid',
+          gridTemplateColumns: `repeat(${columns}, 1fr)`,
+          gridTemplateRows: `repeat(${rows + 1}, 1fr)`,
+          borderTop: gridLine,
+          pointerEvents: 'none',
+        }}
+      >
+        {Array.from({ length: rows + 1 }, (_, rowIndex) =>
+          Array.from({ length: columns }, (_, columnIndex) => (
+            <div
+              key={`${rowIndex}-${columnIndex}`}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                padding: '0 6px',
+                minWidth: 0,
+                borderBottom: rowIndex < rows ? gridLine : undefined,
+                borderRight: columnIndex < columns - 1 ? gridLine : undefined,
+                backgroundColor: rowIndex === 0 ? fidelityStyle.fill : undefined,
+              }}
+            >
+              {renderCell(rowIndex, columnIndex)}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Connection points when hovered */}
+      {showHover &&
+        onConnectionPointMouseDown &&
+        onConnectionPointMouseUp &&
+        STANDARD_RECTANGLE_CONNECTION_POINTS.map((connectionPoint) => (
+          <ConnectionPointRenderer
+            key={connectionPoint.id}
+            connectionPoint={connectionPoint}
+            shapeWidth={width}
+            shapeHeight={height}
+            onMouseDown={handleConnectionPointMouseDown}
+            onMouseUp={handleConnectionPointMouseUp}
+          />
+        ))}
+    </ShapeWrapper>
+  );
+}
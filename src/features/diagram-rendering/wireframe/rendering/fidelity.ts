@@ -0,0 +1,92 @@
+/**
+ * Wireframe Fidelity Styles
+ *
+ * Maps each fidelity level to the visual treatment shared by all wireframe renderers:
+ * - low: dashed greyscale outlines, no fills (sketch)
+ * - medium: solid greyscale outlines with neutral fills (structure)
+ * - high: themed fills, accent colors and rounded corners (visual design)
+ */
+
+import type { Shape, WireframeFidelity } from '@/entities/shape';
+import { isWireframeShapeData } from '@/entities/shape';
+import { defaultWireframeFidelity } from '../tools';
+
+export interface WireframeFidelityStyle {
+  /** Outline color at rest */
+  stroke: string;
+  /** Outline style */
+  borderStyle: 'solid' | 'dashed';
+  /** Fill for filled primitives (inputs, nav bars, image frames) */
+  fill: string;
+  /** Fill for the primary action (buttons, active nav item) */
+  accentFill: string;
+  /** Text color on the accent fill */
+  accentText: string;
+  /** Body text color */
+  text: string;
+  /** Secondary text color (placeholders, captions) */
+  mutedText: string;
+  /** Corner radius in canvas pixels */
+  radius: number;
+}
+
+export const wireframeFidelityStyles: Record<WireframeFidelity, WireframeFidelityStyle> = {
+  low: {
+    stroke: 'var(--text-muted)',
+    borderStyle: 'dashed',
+    fill: 'transparent',
+    accentFill: 'transparent',
+    accentText: 'var(--text-muted)',
+    text: 'var(--text-muted)',
+    mutedText: 'var(--text-muted)',
+    radius: 0,
+  },
+  medium: {
+    stroke: 'var(--border)',
+    borderStyle: 'solid',
+    fill: 'var(--bg-light)',
+    accentFill: 'var(--border)',
+    accentText: 'var(--text)',
+    text: 'var(--text)',
+    mutedText: 'var(--text-muted)',
+    radius: 2,
+  },
+  high: {
+    stroke: 'var(--border)',
+    borderStyle: 'solid',
+    fill: 'var(--bg)',
+    accentFill: 'var(--primary)',
+    accentText: 'white',
+    text: 'var(--text)',
+    mutedText: 'var(--text-muted)',
+    radius: 6,
+  },
+};
+
+/**
+ * Get the fidelity a wireframe shape is drawn with
+ */
+export function getWireframeFidelity(shape: Shape): WireframeFidelity {
+  return isWireframeShapeData(shape.data) ? shape.data.fidelity : defaultWireframeFidelity;
+}
+
+/**
+ * Get zoom-compensated outline color and width for the current interaction state
+ */
+export function getWireframeBorder(
+  style: WireframeFidelityStyle,
+  state: { showSelected: boolean; showHover: boolean; showHoveredContainer?: boolean },
+  zoom: number
+): { borderColor: string; borderWidth: number } {
+  if (state.showSelected) {
+    return { borderColor: 'var(--primary)', borderWidth: 3 / zoom };
+  }
+  if (state.showHoveredContainer) {
+    // Visual feedback during drag - highlighted container
+    return { borderColor: 'var(--success)', borderWidth: 3 / zoom };
+  }
+  if (state.showHover) {
+    return { borderColor: 'var(--secondary)', borderWidth: 2 / zoom };
+  }
+  return { borderColor: style.stroke, borderWidth: 2 / zoom };
+}
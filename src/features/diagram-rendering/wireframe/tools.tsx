@@ -0,0 +1,221 @@
+/**
+ * Wireframe Toolset Configuration
+ * Defines all available interface wireframe tools organized by type
+ *
+ * Every primitive is available at low, medium and high fidelity; the fidelity
+ * is chosen in the toolset popover and stored in the shape data.
+ */
+
+import type { ComponentType } from 'react';
+import {
+  LuSmartphone,
+  LuSquareDashed,
+  LuPanelTop,
+  LuTextCursorInput,
+  LuRectangleHorizontal,
+  LuType,
+  LuImage,
+  LuTable,
+} from 'react-icons/lu';
+import type { WireframeFidelity } from '@/entities/shape';
+import { annotationToolGroup, globalToolGroup } from '@/features/diagram-rendering/config/tools';
+import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
+
+/**
+ * Tool definition interface
+ * Represents a single tool that can create shapes on the canvas
+ */
+export interface Tool {
+  /** Unique identifier for the tool */
+  id: string;
+  /** Display name for the tool */
+  name: string;
+  /** Icon component from react-icons */
+  icon: ComponentType<{ size?: number }>;
+  /** Shape type (e.g., 'wireframe-button', 'wireframe-container') */
+  shapeType: string;
+  /** Shape subtype (optional) */
+  shapeSubtype?: string;
+  /** Default size for the shape */
+  defaultSize: {
+    width: number;
+    height: number;
+  };
+  /** Position offset for shape creation (in pixels) */
+  creationOffset?: {
+    x?: number;
+    y?: number;
+  };
+  /** Initial data for the shape */
+  initialData?: Record<string, unknown>;
+}
+
+/**
+ * Tool group definition
+ * Organizes tools by type (e.g., Layout, Controls, Content)
+ */
+export interface ToolGroup {
+  /** Group type identifier */
+  type: string;
+  /** Display label for the group */
+  label: string;
+  /** Tools in this group */
+  tools: Tool[];
+}
+
+/**
+ * Fidelity levels offered by the wireframe palette, in ascending detail
+ */
+export const wireframeFidelityOptions: Array<{ value: WireframeFidelity; label: string }> = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+];
+
+/**
+ * Default fidelity for primitives created without an explicit choice
+ */
+export const defaultWireframeFidelity: WireframeFidelity = 'low';
+
+const {
+  screen: screenSize,
+  panel: panelSize,
+  navBar: navBarSize,
+  input: inputSize,
+  button: buttonSize,
+  table: tableSize,
+  image: imageSize,
+  text: textSize,
+} = CANVAS_CONFIG.shapes.wireframe;
+
+/**
+ * Wireframe Layout Tools
+ * Screens and panels are containers; nav bars sit at the top of a screen
+ */
+const layoutTools: Tool[] = [
+  {
+    id: 'screen',
+    name: 'Screen',
+    icon: LuSmartphone,
+    shapeType: 'wireframe-container',
+    shapeSubtype: 'screen',
+    defaultSize: { width: screenSize.width, height: screenSize.height },
+  },
+  {
+    id: 'panel',
+    name: 'Panel',
+    icon: LuSquareDashed,
+    shapeType: 'wireframe-container',
+    shapeSubtype: 'panel',
+    defaultSize: { width: panelSize.width, height: panelSize.height },
+  },
+  {
+    id: 'nav-bar',
+    name: 'Nav Bar',
+    icon: LuPanelTop,
+    shapeType: 'wireframe-navbar',
+    defaultSize: { width: navBarSize.width, height: navBarSize.height },
+    initialData: { items: ['Home', 'Search', 'Profile'] },
+  },
+];
+
+/**
+ * Wireframe Control Tools
+ * Interactive primitives the user types into or clicks
+ */
+const controlTools: Tool[] = [
+  {
+    id: 'input',
+    name: 'Input',
+    icon: LuTextCursorInput,
+    shapeType: 'wireframe-input',
+    defaultSize: { width: inputSize.width, height: inputSize.height },
+  },
+  {
+    id: 'button',
+    name: 'Button',
+    icon: LuRectangleHorizontal,
+    shapeType: 'wireframe-button',
+    defaultSize: { width: buttonSize.width, height: buttonSize.height },
+  },
+];
+
+/**
+ * Wireframe Content Tools
+ * Static primitives that present information
+ */
+const contentTools: Tool[] = [
+  {
+    id: 'text',
+    name: 'Text',
+    icon: LuType,
+    shapeType: 'wireframe-text',
+    defaultSize: { width: textSize.width, height: textSize.height },
+  },
+  {
+    id: 'image',
+    name: 'Image',
+    icon: LuImage,
+    shapeType: 'wireframe-image',
+    defaultSize: { width: imageSize.width, height: imageSize.height },
+  },
+  {
+    id: 'table',
+    name: 'Table',
+    icon: LuTable,
+    shapeType: 'wireframe-table',
+    defaultSize: { width: tableSize.width, height: tableSize.height },
+    initialData: { columns: 3, rows: 4 },
+  },
+];
+
+/**
+ * All tool groups for interface wireframes
+ * Includes layout, controls, content, and global AI tools
+ */
+export const wireframeToolGroups: ToolGroup[] = [
+  {
+    type: 'layout',
+    label: 'Layout',
+    tools: layoutTools,
+  },
+  {
+    type: 'control',
+    label: 'Controls',
+    tools: controlTools,
+  },
+  {
+    type: 'content',
+    label: 'Content',
+    tools: contentTools,
+  },
+  annotationToolGroup, // Annotation layer available in all diagram types
+  globalToolGroup, // Global tools available in all diagram types
+];
+
+/**
+ * Flat list of all wireframe tools
+ * Useful for lookups and iteration
+ */
+export const allWireframeTools: Tool[] = [
+  ...layoutTools,
+  ...controlTools,
+  ...contentTools,
+];
+
+/**
+ * Get wireframe tool by ID
+ */
+export function getWireframeToolById(id: string): Tool | undefined {
+  return allWireframeTools.find(tool => tool.id === id);
+}
+
+/**
+ * Get a copy of a wireframe tool that creates its shape at the given fidelity
+ */
+export function withWireframeFidelity(tool: Tool, fidelity: WireframeFidelity): Tool {
+  return {
+    ...tool,
+    initialData: { ...tool.initialData, fidelity },
+  };
+}
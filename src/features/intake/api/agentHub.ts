@@ -101,11 +101,12 @@ export async function connect(): Promise<signalR.HubConnection> {
     .build();
 
   // Register handlers on reconnect
-  connection.onreconnected(() => {
+  connection.onreconnected((connectionId) => {
     console.warn('Agent hub reconnected, re-registering handlers');
     if (connection) {
       registerAllHandlers(connection);
     }
+    handlers.reconnected.forEach((cb) => cb(connectionId));
   });
 
   connectionPromise = connection
@@ -166,6 +167,71 @@ export async function startAnalysis(request: AnalyzeDocumentRequest): Promise<vo
   await conn.invoke('StartAnalysis', request);
 }
 
+/**
+ * Ask the hub to stream an in-flight session to this connection
+ * Resolves false when the session has ended or cannot be rejoined.
+ */
+export async function rejoinSession(sessionId: string): Promise<boolean> {
+  try {
+    const conn = await connect();
+    return (await conn.invoke<boolean>('RejoinSession', sessionId)) !== false;
+  } catch (error) {
+    console.warn('Failed to rejoin agent session:', error);
+    return false;
+  }
+}
+
+/**
+ * Run an analysis to completion and collect its tool calls
+ * Tool calls carry no session ID, so only one analysis may run at a time.
+ */
+export function runAnalysis(
+  request: AnalyzeDocumentRequest,
+  timeoutMs = 5 * 60 * 1000
+): Promise<AgentToolCall[]> {
+  return new Promise((resolve, reject) => {
+    const toolCalls: AgentToolCall[] = [];
+
+    const handleToolCall = (toolCall: AgentToolCall) => {
+      toolCalls.push(toolCall);
+    };
+    const handleComplete = () => {
+      cleanup();
+      resolve(toolCalls);
+    };
+    const handleError = (error: AgentError) => {
+      cleanup();
+      reject(new Error(error.error));
+    };
+    const handleCancelled = () => {
+      cleanup();
+      reject(new Error('Analysis was cancelled'));
+    };
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error('Analysis timed out'));
+    }, timeoutMs);
+
+    function cleanup() {
+      clearTimeout(timeout);
+      offToolCall(handleToolCall);
+      offComplete(handleComplete);
+      offError(handleError);
+      offCancelled(handleCancelled);
+    }
+
+    onToolCall(handleToolCall);
+    onComplete(handleComplete);
+    onError(handleError);
+    onCancelled(handleCancelled);
+
+    startAnalysis(request).catch((error) => {
+      cleanup();
+      reject(error);
+    });
+  });
+}
+
 export async function detectDocumentType(
   content: string
 ): Promise<DocumentTypeDetection | null> {
@@ -181,6 +247,7 @@ type EventHandlers = {
   complete: Set<(session: AgentSessionComplete) => void>;
   error: Set<(error: AgentError) => void>;
   cancelled: Set<(sessionId: string) => void>;
+  reconnected: Set<(connectionId: string | undefined) => void>;
 };
 
 const handlers: EventHandlers = {
@@ -190,6 +257,7 @@ const handlers: EventHandlers = {
   complete: new Set(),
   error: new Set(),
   cancelled: new Set(),
+  reconnected: new Set(),
 };
 
 // Register all stored handlers on a connection
@@ -272,10 +340,17 @@ export function onReconnecting(callback: () => void): void {
   connection?.onreconnecting(callback);
 }
 
+// SignalR cannot remove reconnect callbacks, so they are dispatched from the stored handlers
 export function onReconnected(
   callback: (connectionId: string | undefined) => void
 ): void {
-  connection?.onreconnected(callback);
+  handlers.reconnected.add(callback);
+}
+
+export function offReconnected(
+  callback: (connectionId: string | undefined) => void
+): void {
+  handlers.reconnected.delete(callback);
 }
 
 export function onClose(callback: (error?: Error) => void): void {
@@ -4,13 +4,23 @@ export * from './api/agentHub';
 // Model
 export * from './model/types';
 export { useIntakeStore, useGroupedExtractions } from './model/useIntakeStore';
+export { useSurveyIntakeStore } from './model/useSurveyIntakeStore';
 
 // Hooks
 export { useAgentLoop } from './lib/useAgentLoop';
 export { useSaveIntakeResult } from './lib/useSaveIntakeResult';
+export { useFileIntake } from './lib/useFileIntake';
+export { parseIntakeFile, getSourceMetadataFromFile, INTAKE_FILE_ACCEPT } from './lib/parseIntakeFile';
+export { useSurveyIntake } from './lib/useSurveyIntake';
+export { useIntakeDrafts } from './lib/useIntakeDrafts';
+export { parseTranscriptTurns, getTranscriptSpeakers } from './lib/transcriptParser';
+export { detectPii, applyRedactions } from './lib/piiRedaction';
 
 // UI Components
 export { IntakePage } from './ui/IntakePage';
 export { InlineDocumentWithCards } from './ui/editor/InlineDocumentWithCards';
 export { ExtractionCard } from './ui/cards/ExtractionCard';
 export { ExtractionSuggestions } from './ui/suggestions/ExtractionSuggestions';
+export { IntakeFileDropZone, IntakeFileButton } from './ui/file-import';
+export { SurveyIntakePage } from './ui/survey';
+export { IntakeDraftList } from './ui/drafts';
@@ -0,0 +1,140 @@
+/**
+ * Aggregates the extractions of survey batches.
+ * Each batch is a separate analysis, so the same persona or piece of feedback can
+ * be extracted once per batch; identical extractions are merged into one item that
+ * collects the quotes of every batch and the rows each quote came from. Persona and user goal links are
+ * kept as aggregated extraction IDs because the LLM's indexes only hold per batch.
+ */
+
+import type {
+  AgentToolCall,
+  ExtractionType,
+  SurveyExtraction,
+  SurveyResponse,
+  PersonaEntity,
+  UserGoalEntity,
+  FeedbackEntity,
+  OutcomeEntity,
+  RequirementEntity,
+} from '../model/types';
+import { findQuoteRows } from './surveyResponses';
+
+interface BatchExtraction {
+  type: ExtractionType;
+  entity: SurveyExtraction['entity'];
+}
+
+/**
+ * Merge the add_extraction tool calls of a batch into the aggregated extractions
+ */
+export function addBatchExtractions(
+  extractions: SurveyExtraction[],
+  toolCalls: AgentToolCall[],
+  batchResponses: SurveyResponse[]
+): SurveyExtraction[] {
+  const batchExtractions: BatchExtraction[] = toolCalls
+    .filter((toolCall) => toolCall.name === 'add_extraction')
+    .map((toolCall) => {
+      const args = toolCall.arguments as { type: ExtractionType; entity: Record<string, unknown> };
+      return { type: args.type, entity: args.entity as unknown as SurveyExtraction['entity'] };
+    });
+
+  const result = [...extractions];
+  const indexByKey = new Map(result.map((extraction, index) => [getExtractionKey(extraction), index]));
+
+  // First pass: add or merge every extraction, remembering the aggregated ID of each
+  const aggregatedIds = batchExtractions.map(({ type, entity }) => {
+    const quotes = entity.quotes ?? [];
+    const quoteRows = Object.fromEntries(quotes.map((quote) => [quote, findQuoteRows(quote, batchResponses)]));
+    const rowNumbers = [...new Set(Object.values(quoteRows).flat())];
+    const key = getExtractionKey({ type, entity });
+    const existingIndex = indexByKey.get(key);
+
+    if (existingIndex !== undefined) {
+      const existing = result[existingIndex];
+      result[existingIndex] = {
+        ...existing,
+        entity: { ...existing.entity, quotes: mergeUnique(existing.entity.quotes ?? [], quotes) },
+        rowNumbers: mergeUnique(existing.rowNumbers, rowNumbers).sort((a, b) => a - b),
+        quoteRows: mergeQuoteRows(existing.quoteRows, quoteRows),
+      };
+      return existing.id;
+    }
+
+    const extraction: SurveyExtraction = {
+      id: crypto.randomUUID(),
+      type,
+      entity,
+      status: 'pending',
+      rowNumbers: rowNumbers.sort((a, b) => a - b),
+      quoteRows,
+      linkedPersonaIds: [],
+      linkedUserGoalIds: [],
+    };
+    indexByKey.set(key, result.length);
+    result.push(extraction);
+    return extraction.id;
+  });
+
+  // Second pass: resolve the batch's persona and user goal indexes to aggregated IDs
+  const batchIdsOfType = (type: ExtractionType) =>
+    batchExtractions.flatMap((extraction, index) => (extraction.type === type ? [aggregatedIds[index]] : []));
+  const personaIds = batchIdsOfType('personas');
+  const userGoalIds = batchIdsOfType('userGoals');
+
+  batchExtractions.forEach(({ entity }, index) => {
+    const linked = entity as { linkedPersonaIndexes?: number[]; linkedUserGoalIndexes?: number[] };
+    const linkedPersonaIds = resolveIndexes(linked.linkedPersonaIndexes, personaIds);
+    const linkedUserGoalIds = resolveIndexes(linked.linkedUserGoalIndexes, userGoalIds);
+    if (linkedPersonaIds.length === 0 && linkedUserGoalIds.length === 0) return;
+
+    const resultIndex = result.findIndex((extraction) => extraction.id === aggregatedIds[index]);
+    const extraction = result[resultIndex];
+    result[resultIndex] = {
+      ...extraction,
+      linkedPersonaIds: mergeUnique(extraction.linkedPersonaIds, linkedPersonaIds),
+      linkedUserGoalIds: mergeUnique(extraction.linkedUserGoalIds, linkedUserGoalIds),
+    };
+  });
+
+  return result;
+}
+
+/**
+ * Display text of an extraction
+ */
+export function getSurveyExtractionTitle(extraction: Pick<SurveyExtraction, 'type' | 'entity'>): string {
+  switch (extraction.type) {
+    case 'personas':
+      return (extraction.entity as PersonaEntity).name;
+    case 'userGoals':
+      return (extraction.entity as UserGoalEntity).name;
+    case 'feedback':
+      return (extraction.entity as FeedbackEntity).content;
+    case 'outcomes':
+      return (extraction.entity as OutcomeEntity).description;
+    case 'requirements':
+      return (extraction.entity as RequirementEntity).text;
+  }
+}
+
+function getExtractionKey(extraction: Pick<SurveyExtraction, 'type' | 'entity'>): string {
+  const title = getSurveyExtractionTitle(extraction) ?? '';
+  return `${extraction.type}:${title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()}`;
+}
+
+function resolveIndexes(indexes: number[] | undefined, ids: string[]): string[] {
+  return (indexes ?? []).map((index) => ids[index]).filter((id): id is string => id !== undefined);
+}
+
+function mergeUnique<T>(a: T[], b: T[]): T[] {
+  return [...new Set([...a, ...b])];
+}
+
+function mergeQuoteRows(a: Record<string, number[]>, b: Record<string, number[]>): Record<string, number[]> {
+  const merged = { ...a };
+  for (const [quote, rowNumbers] of Object.entries(b)) {
+    merged[quote] = mergeUnique(merged[quote] ?? [], rowNumbers).sort((x, y) => x - y);
+  }
+  return merged;
+}
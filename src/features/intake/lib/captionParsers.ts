@@ -0,0 +1,93 @@
+/**
+ * Caption file parsing for transcript intake.
+ * Turns WebVTT (Teams, Zoom) and SRT caption files into speaker-labelled
+ * paragraphs: consecutive cues of the same speaker are joined into one turn.
+ */
+
+export interface CaptionCue {
+  speaker?: string;
+  text: string;
+}
+
+// WebVTT voice span: <v Jane Doe> or <v.loud Jane Doe>
+const VOICE_TAG_PATTERN = /^<v(?:\.[^\s>]+)*\s+([^>]+)>/;
+// Inline "Jane Doe: text" speaker prefix (Zoom); short and without sentence punctuation
+const SPEAKER_PREFIX_PATTERN = /^([\p{L}][^:.!?]{0,39}?):\s+(.+)$/u;
+// Markup tags (<i>, <c.yellow>, </v>) and SRT positioning tags ({\an8})
+const MARKUP_PATTERN = /<[^>]+>|\{\\[^}]*\}/g;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+  '&lrm;': '',
+  '&rlm;': '',
+};
+
+/**
+ * Parse the cues of a WebVTT or SRT file
+ * Blocks without a timing line (WEBVTT header, NOTE, STYLE, REGION) are skipped.
+ */
+export function parseCaptions(text: string): CaptionCue[] {
+  const blocks = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n/);
+
+  const cues: CaptionCue[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const cue = parseCueText(lines.slice(timingIndex + 1).join(' '));
+    if (cue) {
+      cues.push(cue);
+    }
+  }
+  return cues;
+}
+
+/**
+ * Format cues as transcript text, one "Speaker: text" paragraph per speaker turn
+ */
+export function formatCaptionTranscript(cues: CaptionCue[]): string {
+  const turns: CaptionCue[] = [];
+  for (const cue of cues) {
+    const lastTurn = turns[turns.length - 1];
+    if (lastTurn && lastTurn.speaker === cue.speaker) {
+      lastTurn.text = `${lastTurn.text} ${cue.text}`;
+    } else {
+      turns.push({ ...cue });
+    }
+  }
+
+  return turns
+    .map((turn) => (turn.speaker ? `${turn.speaker}: ${turn.text}` : turn.text))
+    .join('\n\n');
+}
+
+function parseCueText(rawText: string): CaptionCue | null {
+  const voiceMatch = rawText.trim().match(VOICE_TAG_PATTERN);
+  const text = decodeEntities(rawText.replace(MARKUP_PATTERN, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!text) return null;
+
+  if (voiceMatch) {
+    return { speaker: voiceMatch[1].trim(), text };
+  }
+
+  const prefixMatch = text.match(SPEAKER_PREFIX_PATTERN);
+  if (prefixMatch) {
+    return { speaker: prefixMatch[1].trim(), text: prefixMatch[2].trim() };
+  }
+  return { text };
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(?:amp|lt|gt|quot|#39|nbsp|lrm|rlm);/g, (entity) => HTML_ENTITIES[entity]);
+}
@@ -91,7 +91,7 @@ function splitOnEllipsis(quote: string): string[] {
  * Find a quote in content, handling "..." ellipsis snipping.
  * For quotes with "...", matches the first segment and returns its position.
  */
-function findQuoteMatch(content: string, quote: string): number | null {
+export function findQuoteMatch(content: string, quote: string): number | null {
   const segments = splitOnEllipsis(quote);
   return findNormalizedMatch(content, segments[0]);
 }
@@ -0,0 +1,95 @@
+/**
+ * Minimal RFC 4180 CSV parsing for survey exports.
+ * Handles quoted fields with embedded delimiters, quotes and line breaks;
+ * the delimiter (comma, semicolon or tab) is taken from the header line.
+ */
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Parse CSV text into rows of cells (blank lines are dropped)
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim().length > 0)) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell.length > 0 || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Format CSV rows as text: one paragraph per row with a "Column: value" line per filled cell
+ */
+export function formatCsvAsText(rows: string[][]): string {
+  const [headers, ...records] = rows;
+  if (!headers) return '';
+
+  return records
+    .map((record) =>
+      record
+        .map((value, index) => ({ header: headers[index]?.trim() || `Column ${index + 1}`, value: value.trim() }))
+        .filter(({ value }) => value.length > 0)
+        .map(({ header, value }) => `${header}: ${value.replace(/\s*\n\s*/g, ' ')}`)
+        .join('\n')
+    )
+    .filter((paragraph) => paragraph.length > 0)
+    .join('\n\n');
+}
+
+function detectDelimiter(text: string): string {
+  const [headerLine] = text.split(/\r?\n/, 1);
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = headerLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
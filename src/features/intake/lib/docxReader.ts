@@ -0,0 +1,175 @@
+/**
+ * DOCX text extraction for document intake.
+ * Reads the body paragraphs and the core properties (title, creation date) of a
+ * Word document. A DOCX file is a ZIP archive; entries are located through the
+ * central directory and inflated with the browser's DecompressionStream.
+ */
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const DC_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+const DCTERMS_NAMESPACE = 'http://purl.org/dc/terms/';
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const COMPRESSION_STORED = 0;
+const COMPRESSION_DEFLATE = 8;
+
+export interface DocxContent {
+  text: string;
+  title?: string;
+  created?: Date;
+}
+
+interface ZipEntry {
+  compressionMethod: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Extract the body text of a DOCX file, one line per paragraph
+ */
+export async function readDocx(buffer: ArrayBuffer): Promise<DocxContent> {
+  const entries = readZipDirectory(buffer);
+
+  const documentXml = await readZipEntryText(buffer, entries, 'word/document.xml');
+  if (documentXml === null) {
+    throw new Error('Not a Word document');
+  }
+  const text = extractParagraphs(parseXml(documentXml));
+
+  const coreXml = await readZipEntryText(buffer, entries, 'docProps/core.xml');
+  if (coreXml === null) {
+    return { text };
+  }
+
+  const core = parseXml(coreXml);
+  const title = core.getElementsByTagNameNS(DC_NAMESPACE, 'title')[0]?.textContent?.trim();
+  const createdText = core.getElementsByTagNameNS(DCTERMS_NAMESPACE, 'created')[0]?.textContent?.trim();
+  const created = createdText ? new Date(createdText) : undefined;
+
+  return {
+    text,
+    title: title || undefined,
+    created: created && !Number.isNaN(created.getTime()) ? created : undefined,
+  };
+}
+
+function parseXml(xml: string): Document {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The document is damaged');
+  }
+  return document;
+}
+
+/**
+ * Text of the w:p paragraphs; tabs and line breaks inside runs are kept
+ */
+function extractParagraphs(document: Document): string {
+  const paragraphs: string[] = [];
+  for (const paragraph of Array.from(document.getElementsByTagNameNS(WORD_NAMESPACE, 'p'))) {
+    let text = '';
+    for (const node of Array.from(paragraph.getElementsByTagNameNS(WORD_NAMESPACE, '*'))) {
+      // Nested paragraphs (text boxes) are extracted on their own
+      if (getEnclosingParagraph(node) !== paragraph) continue;
+
+      if (node.localName === 't') {
+        text += node.textContent ?? '';
+      } else if (node.localName === 'tab') {
+        text += '\t';
+      } else if (node.localName === 'br' || node.localName === 'cr') {
+        text += '\n';
+      }
+    }
+    paragraphs.push(text.trimEnd());
+  }
+
+  // Collapse runs of empty paragraphs used as spacing
+  return paragraphs
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function getEnclosingParagraph(node: Element): Element | null {
+  let current = node.parentElement;
+  while (current && !(current.localName === 'p' && current.namespaceURI === WORD_NAMESPACE)) {
+    current = current.parentElement;
+  }
+  return current;
+}
+
+/**
+ * Read the central directory of a ZIP archive
+ */
+function readZipDirectory(buffer: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(buffer);
+
+  // The end of central directory record sits at the end, before an optional comment
+  let eocdOffset = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      eocdOffset = offset;
+      break;
+    }
+  }
+  if (eocdOffset === -1) {
+    throw new Error('Not a valid DOCX file');
+  }
+
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  let offset = view.getUint32(eocdOffset + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Not a valid DOCX file');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    entries.set(name, {
+      compressionMethod: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Read a ZIP entry as UTF-8 text, or null if the archive doesn't contain it
+ */
+async function readZipEntryText(
+  buffer: ArrayBuffer,
+  entries: Map<string, ZipEntry>,
+  name: string
+): Promise<string | null> {
+  const entry = entries.get(name);
+  if (!entry) return null;
+
+  const view = new DataView(buffer);
+  const headerOffset = entry.localHeaderOffset;
+  if (view.getUint32(headerOffset, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+    throw new Error('Not a valid DOCX file');
+  }
+  const dataOffset = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+  const data = new Uint8Array(buffer, dataOffset, entry.compressedSize);
+
+  if (entry.compressionMethod === COMPRESSION_STORED) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.compressionMethod !== COMPRESSION_DEFLATE) {
+    throw new Error('Unsupported DOCX compression');
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return await new Response(stream).text();
+}
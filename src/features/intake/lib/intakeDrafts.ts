@@ -0,0 +1,69 @@
+/**
+ * Intake session drafts, stored locally in IndexedDB.
+ * A draft holds the full intake snapshot; highlights and card positions are
+ * recomputed from it when the draft is resumed.
+ */
+
+import { createIndexedDbStore } from '@/shared/lib/utils';
+import { getIntakeSnapshot, type IntakeSnapshot } from '../model/useIntakeStore';
+import type { IntakeDraftSummary } from '../model/types';
+
+export interface IntakeDraft extends IntakeDraftSummary {
+  snapshot: IntakeSnapshot;
+}
+
+const intakeDraftStorage = createIndexedDbStore<IntakeDraft>('tinkersaur-intake-drafts', 'drafts');
+
+const TITLE_METADATA_FIELDS = ['meetingName', 'documentName', 'surveyName', 'ticketId'];
+const MAX_TITLE_LENGTH = 80;
+
+function getDraftTitle(snapshot: IntakeSnapshot): string {
+  const metadataTitle = TITLE_METADATA_FIELDS.map((field) => snapshot.sourceMetadata[field]?.trim()).find(Boolean);
+  const firstLine = snapshot.documentContent
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line.length > 0);
+  const title = metadataTitle || snapshot.importedFile?.title || firstLine || 'Untitled intake';
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+}
+
+/**
+ * Build a draft from the current intake state
+ */
+export function createIntakeDraft(id: string, teamId: string, state: IntakeSnapshot): IntakeDraft {
+  const snapshot = getIntakeSnapshot(state);
+  const extractions = Array.from(snapshot.extractions.values());
+  return {
+    id,
+    teamId,
+    title: getDraftTitle(snapshot),
+    phase: snapshot.phase,
+    extractionCount: extractions.length,
+    acceptedCount: extractions.filter((extraction) => extraction.status === 'accepted').length,
+    updatedAt: new Date(),
+    snapshot,
+  };
+}
+
+/**
+ * Unfinished drafts of a team, most recently edited first
+ */
+export async function listIntakeDrafts(teamId: string): Promise<IntakeDraftSummary[]> {
+  const drafts = await intakeDraftStorage.getAll();
+  return drafts
+    .filter((draft) => draft.teamId === teamId)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    .map(({ snapshot: _snapshot, ...summary }) => summary);
+}
+
+export function getIntakeDraft(id: string): Promise<IntakeDraft | undefined> {
+  return intakeDraftStorage.get(id);
+}
+
+export function saveIntakeDraft(draft: IntakeDraft): Promise<void> {
+  return intakeDraftStorage.set(draft.id, draft);
+}
+
+export function deleteIntakeDraft(id: string): Promise<void> {
+  return intakeDraftStorage.delete(id);
+}
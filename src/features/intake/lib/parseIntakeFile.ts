@@ -0,0 +1,139 @@
+import type { Result } from '@/shared/lib/utils';
+import type { SourceTypeDefinition } from '@/entities/source-type';
+import type { IntakeFileFormat, IntakeFileMetadata, ParsedIntakeFile } from '../model/types';
+import { formatCaptionTranscript, parseCaptions } from './captionParsers';
+import { formatCsvAsText, parseCsv } from './csvParser';
+import { readDocx } from './docxReader';
+
+const FILE_FORMATS: Record<string, IntakeFileFormat> = {
+  vtt: 'vtt',
+  srt: 'srt',
+  txt: 'txt',
+  md: 'md',
+  markdown: 'md',
+  docx: 'docx',
+  csv: 'csv',
+};
+
+/**
+ * File extensions accepted by the intake file import (for file inputs)
+ */
+export const INTAKE_FILE_ACCEPT = Object.keys(FILE_FORMATS)
+  .map((extension) => `.${extension}`)
+  .join(',');
+
+// 2024-01-15, 2024_01_15 or 20240115 anywhere in a file name
+const FILE_NAME_DATE_PATTERN = /(20\d{2})[-_.]?(0[1-9]|1[0-2])[-_.]?(0[1-9]|[12]\d|3[01])/;
+
+/**
+ * Get the intake format of a file from its extension
+ */
+export function getIntakeFileFormat(fileName: string): IntakeFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return FILE_FORMATS[extension] ?? null;
+}
+
+/**
+ * Read an intake file as document text with its metadata
+ * Caption files become speaker-labelled paragraphs, DOCX files their body text
+ * and CSV files one paragraph per row.
+ */
+export async function parseIntakeFile(file: File): Promise<Result<ParsedIntakeFile>> {
+  const format = getIntakeFileFormat(file.name);
+  if (!format) {
+    return { ok: false, error: `Unsupported file type. Use one of: ${INTAKE_FILE_ACCEPT}` };
+  }
+
+  try {
+    let content: string;
+    let title: string | undefined;
+    let created: Date | undefined;
+
+    switch (format) {
+      case 'vtt':
+      case 'srt':
+        content = formatCaptionTranscript(parseCaptions(await file.text()));
+        break;
+      case 'docx': {
+        const docx = await readDocx(await file.arrayBuffer());
+        content = docx.text;
+        title = docx.title;
+        created = docx.created;
+        break;
+      }
+      case 'csv':
+        content = formatCsvAsText(parseCsv(await file.text()));
+        break;
+      case 'txt':
+      case 'md':
+        content = (await file.text()).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+        break;
+    }
+
+    if (!content) {
+      return { ok: false, error: `${file.name} contains no text` };
+    }
+
+    const metadata: IntakeFileMetadata = {
+      fileName: file.name,
+      format,
+      title: title ?? getTitleFromFileName(file.name),
+      date: getDateFromFileName(file.name) ?? formatIsoDate(created ?? new Date(file.lastModified)),
+    };
+
+    return { ok: true, value: { content, metadata } };
+  } catch (error) {
+    return {
+      ok: false,
+      error: `Failed to read ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Map file metadata onto the metadata fields of a source type
+ * The title fills the source's name field (meeting, survey or document name),
+ * the date its first date field.
+ */
+export function getSourceMetadataFromFile(
+  sourceType: SourceTypeDefinition,
+  fileMetadata: IntakeFileMetadata
+): Record<string, string> {
+  const metadata: Record<string, string> = {};
+
+  const nameField = sourceType.metadataFields.find(
+    (field) => field.type === 'text' && field.name.endsWith('Name')
+  );
+  if (nameField && fileMetadata.title) {
+    metadata[nameField.name] = fileMetadata.title;
+  }
+
+  const dateField = sourceType.metadataFields.find((field) => field.type === 'date');
+  if (dateField && fileMetadata.date) {
+    metadata[dateField.name] = fileMetadata.date;
+  }
+
+  return metadata;
+}
+
+function getTitleFromFileName(fileName: string): string | undefined {
+  const title = fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/\.(transcript|captions?)$/i, '')
+    .replace(/[_]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return title || undefined;
+}
+
+function getDateFromFileName(fileName: string): string | undefined {
+  const match = fileName.match(FILE_NAME_DATE_PATTERN);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+function formatIsoDate(date: Date): string | undefined {
+  if (Number.isNaN(date.getTime())) return undefined;
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,163 @@
+/**
+ * Local PII redaction for intake documents.
+ * Hits come from pattern rules, transcript speaker names and the team dictionary.
+ * Accepted hits are replaced with placeholders that are stable per value
+ * ("Jane Doe" is [CUSTOMER_1] everywhere), so quotes returned by analysis
+ * match the redacted document exactly.
+ */
+
+import type { RedactionCategory, RedactionHit, RedactionRule, RedactionSettings } from '../model/types';
+import { parseTranscriptTurns, getTranscriptSpeakers, isInterviewerLabel } from './transcriptParser';
+
+export const REDACTION_CATEGORY_LABELS: Record<RedactionCategory, string> = {
+  customer: 'Customer name',
+  company: 'Company',
+  email: 'Email',
+  phone: 'Phone number',
+  account: 'Account ID',
+};
+
+export const REDACTION_RULE_LABELS: Record<RedactionRule, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  account: 'Account and customer IDs',
+  speakerNames: 'Transcript speaker names',
+};
+
+const PLACEHOLDER_PREFIXES: Record<RedactionCategory, string> = {
+  customer: 'CUSTOMER',
+  company: 'COMPANY',
+  email: 'EMAIL',
+  phone: 'PHONE',
+  account: 'ACCOUNT',
+};
+
+const EMAIL_PATTERN = /[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi;
+// Digit groups with optional country code and area code; validated by digit count below
+const PHONE_PATTERN = /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]\d{2,4}){1,4}(?![\w-])/g;
+const PHONE_MIN_DIGITS = 7;
+const PHONE_MAX_DIGITS = 15;
+const DATE_LIKE_PATTERN = /^\d{4}[-.]\d{1,2}[-.]\d{1,2}$|^\d{1,2}[-.]\d{1,2}[-.]\d{2,4}$/;
+// Identifier after a label ("account #A-10293", "customer ID: 88213"); only the identifier is redacted
+const ACCOUNT_PATTERN =
+  /\b(?:account|acct|customer|cust|client|member|user)\s*(?:id|no\.?|number|#)?\s*[:#]?\s*([a-z]{0,4}[-_]?\d[\w-]{3,})/gi;
+
+type Detection = Omit<RedactionHit, 'id' | 'accepted'>;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findMatches(content: string, pattern: RegExp, category: RedactionCategory, group = 0): Detection[] {
+  const detections: Detection[] = [];
+  for (const match of content.matchAll(pattern)) {
+    const text = match[group];
+    if (!text) continue;
+    const start = match.index + match[0].lastIndexOf(text);
+    detections.push({ start, end: start + text.length, text, category });
+  }
+  return detections;
+}
+
+function findTerm(content: string, term: string, category: RedactionCategory): Detection[] {
+  const trimmed = term.trim();
+  if (trimmed.length === 0) return [];
+  // Whole words only, so "Ann" does not match "Annual"
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(trimmed)}(?![\\p{L}\\p{N}])`, 'giu');
+  return findMatches(content, pattern, category);
+}
+
+function isPhoneNumber(text: string): boolean {
+  const digitCount = text.replace(/\D/g, '').length;
+  return digitCount >= PHONE_MIN_DIGITS && digitCount <= PHONE_MAX_DIGITS && !DATE_LIKE_PATTERN.test(text);
+}
+
+/**
+ * Detect PII in a document
+ * Overlapping detections keep the earliest, then the longest, match.
+ */
+export function detectPii(content: string, settings: RedactionSettings): RedactionHit[] {
+  const detections: Detection[] = [];
+
+  if (settings.rules.email) {
+    detections.push(...findMatches(content, EMAIL_PATTERN, 'email'));
+  }
+  if (settings.rules.phone) {
+    detections.push(...findMatches(content, PHONE_PATTERN, 'phone').filter((d) => isPhoneNumber(d.text)));
+  }
+  if (settings.rules.account) {
+    detections.push(...findMatches(content, ACCOUNT_PATTERN, 'account', 1));
+  }
+  if (settings.rules.speakerNames) {
+    for (const speaker of getTranscriptSpeakers(parseTranscriptTurns(content))) {
+      if (!isInterviewerLabel(speaker.name)) {
+        detections.push(...findTerm(content, speaker.name, 'customer'));
+      }
+    }
+  }
+  for (const entry of settings.dictionary) {
+    detections.push(...findTerm(content, entry.term, entry.category));
+  }
+
+  detections.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const hits: RedactionHit[] = [];
+  let lastEnd = 0;
+  for (const detection of detections) {
+    if (detection.start < lastEnd) continue;
+    hits.push({ ...detection, id: crypto.randomUUID(), accepted: true });
+    lastEnd = detection.end;
+  }
+  return hits;
+}
+
+function getValueKey(hit: Pick<RedactionHit, 'text' | 'category'>): string {
+  const value =
+    hit.category === 'phone' ? hit.text.replace(/\D/g, '') : hit.text.toLowerCase().replace(/\s+/g, ' ').trim();
+  return `${hit.category}:${value}`;
+}
+
+/**
+ * Placeholders for the accepted hits, keyed by hit ID
+ * Numbering is per category in order of first appearance; equal values share a placeholder.
+ */
+export function getRedactionPlaceholders(hits: RedactionHit[]): Map<string, string> {
+  const placeholdersByValue = new Map<string, string>();
+  const counts = new Map<RedactionCategory, number>();
+  const placeholders = new Map<string, string>();
+
+  for (const hit of hits) {
+    if (!hit.accepted) continue;
+    const key = getValueKey(hit);
+    let placeholder = placeholdersByValue.get(key);
+    if (!placeholder) {
+      const count = (counts.get(hit.category) ?? 0) + 1;
+      counts.set(hit.category, count);
+      placeholder = `[${PLACEHOLDER_PREFIXES[hit.category]}_${count}]`;
+      placeholdersByValue.set(key, placeholder);
+    }
+    placeholders.set(hit.id, placeholder);
+  }
+  return placeholders;
+}
+
+/**
+ * Replace the accepted hits in a document with their placeholders
+ * Texts redacted together pass the placeholders of all their hits, so equal
+ * values get the same placeholder in every text.
+ */
+export function applyRedactions(
+  content: string,
+  hits: RedactionHit[],
+  placeholders: Map<string, string> = getRedactionPlaceholders(hits)
+): string {
+  let redacted = '';
+  let lastEnd = 0;
+  for (const hit of hits) {
+    const placeholder = placeholders.get(hit.id);
+    if (!placeholder) continue;
+    redacted += content.slice(lastEnd, hit.start) + placeholder;
+    lastEnd = hit.end;
+  }
+  return redacted + content.slice(lastEnd);
+}
@@ -0,0 +1,80 @@
+/**
+ * Persona links derived from transcript speakers.
+ * Quotes are attributed to the speaker of their turn, and the speaker's persona
+ * mapping adds links alongside the ones the LLM suggested.
+ */
+
+import type { Extraction, SpeakerAssignment, TranscriptTurn } from '../model/types';
+import { findQuoteSpeaker } from './transcriptParser';
+
+export interface SpeakerAttributionContext {
+  documentContent: string;
+  transcriptTurns: TranscriptTurn[];
+  speakerAssignments: Map<string, SpeakerAssignment>;
+  personaExtractionIds: string[]; // In LLM index order
+}
+
+export interface SpeakerPersonaLinks {
+  linkedPersonaIndexes: number[]; // LLM persona indexes, including the LLM's own links
+  linkedPersonaIds: string[]; // Saved personas
+}
+
+/**
+ * Speaker assignments of the turns an extraction's quotes come from
+ */
+function getQuoteAssignments(
+  context: SpeakerAttributionContext,
+  quotes: string[] | undefined
+): SpeakerAssignment[] {
+  const assignments: SpeakerAssignment[] = [];
+  for (const quote of quotes ?? []) {
+    const speaker = findQuoteSpeaker(context.documentContent, context.transcriptTurns, quote);
+    const assignment = speaker ? context.speakerAssignments.get(speaker) : undefined;
+    if (assignment) assignments.push(assignment);
+  }
+  return assignments;
+}
+
+/**
+ * Create a resolver that merges speaker-derived persona links into an extraction's links
+ */
+export function createSpeakerPersonaResolver(context: SpeakerAttributionContext) {
+  return (entity: { quotes?: string[]; linkedPersonaIndexes?: number[] }): SpeakerPersonaLinks => {
+    const personaIndexes = new Set(entity.linkedPersonaIndexes ?? []);
+    const personaIds = new Set<string>();
+
+    for (const assignment of getQuoteAssignments(context, entity.quotes)) {
+      if (assignment.kind === 'persona') {
+        const index = context.personaExtractionIds.indexOf(assignment.extractionId);
+        if (index !== -1) personaIndexes.add(index);
+      } else if (assignment.kind === 'existingPersona') {
+        personaIds.add(assignment.personaId);
+      }
+    }
+
+    return { linkedPersonaIndexes: Array.from(personaIndexes), linkedPersonaIds: Array.from(personaIds) };
+  };
+}
+
+/**
+ * Quotes of accepted extractions, grouped by the persona extraction their speaker maps to
+ */
+export function getSpeakerQuotesByPersona(
+  context: SpeakerAttributionContext,
+  extractions: Extraction[]
+): Map<string, string[]> {
+  const quotesByPersona = new Map<string, Set<string>>();
+
+  for (const extraction of extractions) {
+    if (extraction.status !== 'accepted' || extraction.type === 'personas') continue;
+    for (const quote of extraction.entity.quotes ?? []) {
+      const [assignment] = getQuoteAssignments(context, [quote]);
+      if (assignment?.kind !== 'persona') continue;
+      const quotes = quotesByPersona.get(assignment.extractionId) ?? new Set<string>();
+      quotes.add(quote);
+      quotesByPersona.set(assignment.extractionId, quotes);
+    }
+  }
+
+  return new Map(Array.from(quotesByPersona, ([extractionId, quotes]) => [extractionId, Array.from(quotes)]));
+}
@@ -0,0 +1,61 @@
+/**
+ * PII redaction for bulk survey intake.
+ * Respondent IDs and free-text answers are checked field by field. Placeholders
+ * are numbered once across the whole import, so a customer is [CUSTOMER_1] in
+ * every row and every batch.
+ */
+
+import type { RedactionSettings, SurveyRedactionHit, SurveyResponse } from '../model/types';
+import { applyRedactions, detectPii, getRedactionPlaceholders } from './piiRedaction';
+
+// Answers are not transcripts; "Pricing: too high" in many rows is not a speaker
+function getSurveyRedactionSettings(settings: RedactionSettings): RedactionSettings {
+  return { ...settings, rules: { ...settings.rules, speakerNames: false } };
+}
+
+function getFieldKey(rowNumber: number, answerIndex: number | null): string {
+  return `${rowNumber}:${answerIndex ?? 'respondent'}`;
+}
+
+/**
+ * Detect PII in the respondent IDs and answers, in row order
+ */
+export function detectSurveyPii(responses: SurveyResponse[], settings: RedactionSettings): SurveyRedactionHit[] {
+  const surveySettings = getSurveyRedactionSettings(settings);
+  const hits: SurveyRedactionHit[] = [];
+
+  for (const response of responses) {
+    for (const hit of detectPii(response.respondentId, surveySettings)) {
+      hits.push({ ...hit, rowNumber: response.rowNumber, answerIndex: null });
+    }
+    response.answers.forEach((answer, answerIndex) => {
+      for (const hit of detectPii(answer.text, surveySettings)) {
+        hits.push({ ...hit, rowNumber: response.rowNumber, answerIndex });
+      }
+    });
+  }
+  return hits;
+}
+
+/**
+ * Responses with the accepted hits replaced by their placeholders
+ */
+export function redactSurveyResponses(responses: SurveyResponse[], hits: SurveyRedactionHit[]): SurveyResponse[] {
+  const placeholders = getRedactionPlaceholders(hits);
+  const hitsByField = new Map<string, SurveyRedactionHit[]>();
+  for (const hit of hits) {
+    const key = getFieldKey(hit.rowNumber, hit.answerIndex);
+    hitsByField.set(key, [...(hitsByField.get(key) ?? []), hit]);
+  }
+  const hitsOf = (rowNumber: number, answerIndex: number | null) =>
+    hitsByField.get(getFieldKey(rowNumber, answerIndex)) ?? [];
+
+  return responses.map((response) => ({
+    ...response,
+    respondentId: applyRedactions(response.respondentId, hitsOf(response.rowNumber, null), placeholders),
+    answers: response.answers.map((answer, answerIndex) => ({
+      ...answer,
+      text: applyRedactions(answer.text, hitsOf(response.rowNumber, answerIndex), placeholders),
+    })),
+  }));
+}
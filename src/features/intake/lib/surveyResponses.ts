@@ -0,0 +1,163 @@
+/**
+ * Survey response helpers for bulk survey intake.
+ * Maps the columns of a CSV export to survey fields, splits the responses into
+ * extraction batches and traces extracted quotes back to the rows they came from.
+ */
+
+import type { SurveyBatch, SurveyColumnRole, SurveyResponse } from '../model/types';
+
+// A batch's text stays well within what a single analysis handles comfortably
+const MAX_BATCH_CHARACTERS = 12000;
+
+const RESPONDENT_ID_HEADER_PATTERN = /respondent|response\s*id|^id$|user\s*id/i;
+const DATE_HEADER_PATTERN = /date|time|submitted|completed/i;
+const SEGMENT_HEADER_PATTERN = /segment|plan|tier|industry|company\s*size|cohort/i;
+// Columns with short values (ratings, yes/no) are not free-text answers
+const MIN_AVERAGE_ANSWER_LENGTH = 15;
+
+/**
+ * Guess the role of each column from its header and values
+ * Only the first matching column gets the respondent ID, date or segment role.
+ */
+export function guessSurveyColumnRoles(headers: string[], rows: string[][]): SurveyColumnRole[] {
+  const taken = new Set<SurveyColumnRole>();
+  const claim = (role: SurveyColumnRole): SurveyColumnRole | null => {
+    if (taken.has(role)) return null;
+    taken.add(role);
+    return role;
+  };
+
+  return headers.map((header, column) => {
+    if (RESPONDENT_ID_HEADER_PATTERN.test(header)) {
+      const role = claim('respondentId');
+      if (role) return role;
+    }
+    if (DATE_HEADER_PATTERN.test(header)) {
+      const role = claim('date');
+      if (role) return role;
+    }
+    if (SEGMENT_HEADER_PATTERN.test(header)) {
+      const role = claim('segment');
+      if (role) return role;
+    }
+
+    const values = rows.map((row) => row[column]?.trim() ?? '').filter((value) => value.length > 0);
+    const averageLength = values.reduce((sum, value) => sum + value.length, 0) / Math.max(values.length, 1);
+    return averageLength >= MIN_AVERAGE_ANSWER_LENGTH ? 'answer' : 'ignore';
+  });
+}
+
+/**
+ * Build survey responses from CSV rows (without the header row)
+ * Rows without any answer text are skipped.
+ */
+export function buildSurveyResponses(
+  headers: string[],
+  rows: string[][],
+  columnRoles: SurveyColumnRole[]
+): SurveyResponse[] {
+  const columnOf = (role: SurveyColumnRole) => columnRoles.indexOf(role);
+  const respondentIdColumn = columnOf('respondentId');
+  const dateColumn = columnOf('date');
+  const segmentColumn = columnOf('segment');
+
+  const responses: SurveyResponse[] = [];
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const answers = columnRoles
+      .map((role, column) => ({ role, question: headers[column]?.trim() || `Column ${column + 1}`, text: row[column]?.trim() ?? '' }))
+      .filter(({ role, text }) => role === 'answer' && text.length > 0)
+      .map(({ question, text }) => ({ question, text: text.replace(/\s*\n\s*/g, ' ') }));
+    if (answers.length === 0) return;
+
+    responses.push({
+      rowNumber,
+      respondentId: (respondentIdColumn >= 0 && row[respondentIdColumn]?.trim()) || `Row ${rowNumber}`,
+      date: dateColumn >= 0 ? parseResponseDate(row[dateColumn]) : undefined,
+      segment: (segmentColumn >= 0 && row[segmentColumn]?.trim()) || undefined,
+      answers,
+    });
+  });
+  return responses;
+}
+
+/**
+ * Split responses into extraction batches of at most batchSize responses
+ */
+export function createSurveyBatches(responses: SurveyResponse[], batchSize: number): SurveyBatch[] {
+  const batches: SurveyBatch[] = [];
+  let rowNumbers: number[] = [];
+  let characters = 0;
+
+  for (const response of responses) {
+    const length = formatSurveyResponse(response).length;
+    if (rowNumbers.length > 0 && (rowNumbers.length >= batchSize || characters + length > MAX_BATCH_CHARACTERS)) {
+      batches.push({ index: batches.length, rowNumbers, status: 'pending' });
+      rowNumbers = [];
+      characters = 0;
+    }
+    rowNumbers.push(response.rowNumber);
+    characters += length;
+  }
+  if (rowNumbers.length > 0) {
+    batches.push({ index: batches.length, rowNumbers, status: 'pending' });
+  }
+  return batches;
+}
+
+/**
+ * Format a response for analysis: a respondent line followed by one line per answer
+ */
+export function formatSurveyResponse(response: SurveyResponse): string {
+  const details = [response.segment, response.date].filter(Boolean).join(', ');
+  const header = `Respondent ${response.respondentId}${details ? ` (${details})` : ''}`;
+  return [header, ...response.answers.map((answer) => `${answer.question}: ${answer.text}`)].join('\n');
+}
+
+/**
+ * Document text of a batch, one paragraph per response
+ */
+export function formatSurveyBatch(batch: SurveyBatch, responsesByRow: Map<number, SurveyResponse>): string {
+  return batch.rowNumbers
+    .map((rowNumber) => responsesByRow.get(rowNumber))
+    .filter((response): response is SurveyResponse => response !== undefined)
+    .map(formatSurveyResponse)
+    .join('\n\n');
+}
+
+/**
+ * Rows whose answers contain the quote
+ * Quotes shortened with an ellipsis are matched on their first segment.
+ */
+export function findQuoteRows(quote: string, responses: SurveyResponse[]): number[] {
+  const [firstSegment] = quote.split(/\s*(?:\.{3}|…)\s*/).filter((segment) => segment.length > 0);
+  const needle = normalizeText(firstSegment ?? '');
+  if (!needle) return [];
+
+  return responses
+    .filter((response) => response.answers.some((answer) => normalizeText(answer.text).includes(needle)))
+    .map((response) => response.rowNumber);
+}
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseResponseDate(value: string | undefined): string | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+
+  const isoMatch = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (isoMatch) return `${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}`;
+
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) return undefined;
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,99 @@
+/**
+ * Speaker turns of pasted or imported transcripts.
+ * A turn starts at a "Jane Doe: text" line and runs until the next speaker line;
+ * offsets point into the document so quotes can be attributed to speakers.
+ */
+
+import type { TranscriptTurn, TranscriptSpeaker } from '../model/types';
+import { findQuoteMatch } from './computeCardAssignments';
+
+// Optional timestamp ("[00:12:03]", "00:12"), a short speaker label or redaction placeholder
+// ("[CUSTOMER_1]"), then "label: text" or a bare "label:"
+const SPEAKER_LINE_PATTERN =
+  /^\s*(?:\[?\(?\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d+)?\)?\]?\s+)?(\[[A-Z]+_\d+\]|[\p{L}][\p{L}\p{N} .'’()-]{0,39}?)\s*:(?:\s+\S|\s*$)/u;
+const MAX_SPEAKER_WORDS = 4;
+// A label seen once may be prose ("Note: ..."); real speakers take several turns
+const MIN_SPEAKER_TURNS = 2;
+const MIN_SPEAKERS = 2;
+
+const INTERVIEWER_PATTERN = /\b(interviewer|moderator|facilitator|researcher|host)\b/i;
+
+function getSpeakerLabel(line: string): string | null {
+  const match = SPEAKER_LINE_PATTERN.exec(line);
+  if (!match) return null;
+  const label = match[1].trim();
+  return label.split(/\s+/).length <= MAX_SPEAKER_WORDS ? label : null;
+}
+
+/**
+ * Parse the speaker turns of a transcript
+ * Returns no turns when the document does not have at least two recurring speakers.
+ */
+export function parseTranscriptTurns(content: string): TranscriptTurn[] {
+  const lines = content.split('\n');
+  const labels = lines.map(getSpeakerLabel);
+
+  const labelCounts = new Map<string, number>();
+  for (const label of labels) {
+    if (label) labelCounts.set(label, (labelCounts.get(label) ?? 0) + 1);
+  }
+  const speakers = new Set(
+    [...labelCounts].filter(([, count]) => count >= MIN_SPEAKER_TURNS).map(([label]) => label)
+  );
+  if (speakers.size < MIN_SPEAKERS) return [];
+
+  const turns: TranscriptTurn[] = [];
+  let offset = 0;
+  lines.forEach((line, index) => {
+    const label = labels[index];
+    if (label && speakers.has(label)) {
+      turns.push({ speaker: label, start: offset, end: offset + line.length, paragraphIndex: index });
+    } else if (turns.length > 0 && line.trim().length > 0) {
+      // Continuation line of the current turn
+      turns[turns.length - 1].end = offset + line.length;
+    }
+    offset += line.length + 1; // +1 for the newline
+  });
+
+  return turns;
+}
+
+/**
+ * Speakers in order of their first turn
+ */
+export function getTranscriptSpeakers(turns: TranscriptTurn[]): TranscriptSpeaker[] {
+  const speakers = new Map<string, TranscriptSpeaker>();
+  for (const turn of turns) {
+    const speaker = speakers.get(turn.speaker);
+    if (speaker) {
+      speaker.turnCount++;
+    } else {
+      speakers.set(turn.speaker, { name: turn.speaker, turnCount: 1 });
+    }
+  }
+  return Array.from(speakers.values());
+}
+
+/**
+ * Whether a speaker label names the interviewer rather than a participant
+ */
+export function isInterviewerLabel(speaker: string): boolean {
+  return INTERVIEWER_PATTERN.test(speaker);
+}
+
+/**
+ * Find the speaker whose turn contains a quote
+ */
+export function findQuoteSpeaker(content: string, turns: TranscriptTurn[], quote: string): string | null {
+  if (turns.length === 0) return null;
+  const position = findQuoteMatch(content, quote);
+  if (position === null) return null;
+
+  // Text between turns (blank lines) belongs to the turn before it
+  let speaker: string | null = null;
+  for (const turn of turns) {
+    if (turn.start > position) break;
+    speaker = turn.speaker;
+  }
+  return speaker;
+}
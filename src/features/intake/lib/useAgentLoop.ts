@@ -1,6 +1,9 @@
 import { useCallback, useEffect, useRef } from 'react';
 import { useIntakeStore } from '../model/useIntakeStore';
 import * as agentHub from '../api/agentHub';
+import { findQuoteSpeaker } from './transcriptParser';
+import { detectPii, applyRedactions } from './piiRedaction';
+import { useLoadRedactionSettings } from './useLoadRedactionSettings';
 import type {
   AgentToolCall,
   AgentSessionStarted,
@@ -20,6 +23,9 @@ export function useAgentLoop() {
   const addHighlight = useIntakeStore((s) => s.addHighlight);
   const setError = useIntakeStore((s) => s.setError);
   const setDocumentContent = useIntakeStore((s) => s.setDocumentContent);
+  const startRedaction = useIntakeStore((s) => s.startRedaction);
+  const clearRedaction = useIntakeStore((s) => s.clearRedaction);
+  const loadRedactionSettings = useLoadRedactionSettings();
   const contentBufferRef = useRef('');
 
   const handleSessionStarted = useCallback(
@@ -64,11 +70,13 @@ export function useAgentLoop() {
           if (args.type !== 'personas') {
             const quotes = (args.entity.quotes as string[]) ?? [];
             if (quotes.length > 0 && quotes[0]) {
+              const { documentContent, transcriptTurns } = useIntakeStore.getState();
               addHighlight({
                 id: crypto.randomUUID(),
                 extractionId,
                 quote: quotes[0],
                 type: args.type,
+                speaker: findQuoteSpeaker(documentContent, transcriptTurns, quotes[0]) ?? undefined,
               });
             } else {
               console.warn(`[Extraction] No quotes for ${args.type}:`, args.entity);
@@ -142,8 +150,8 @@ export function useAgentLoop() {
     }
   }, [setPhase, setError]);
 
-  // Detect document type (first step after paste)
-  const detectType = useCallback(async (content: string) => {
+  // Detect document type (after paste, or once redactions are applied)
+  const runDetection = useCallback(async (content: string) => {
     setDocumentContent(content);
     setPhase('detecting');
     setError(null);
@@ -166,6 +174,38 @@ export function useAgentLoop() {
     }
   }, [setDocumentContent, setPhase, setError, setDocumentType, setSuggestedExtractions]);
 
+  // First step after paste: PII is reviewed locally before anything is sent for analysis
+  const detectType = useCallback(async (content: string) => {
+    const settings = await loadRedactionSettings();
+    if (!settings) return;
+    const hits = settings.enabled ? detectPii(content, settings) : [];
+    if (hits.length > 0) {
+      startRedaction(content, hits);
+      return;
+    }
+    await runDetection(content);
+  }, [loadRedactionSettings, startRedaction, runDetection]);
+
+  // Replace the accepted PII hits with placeholders and continue with detection
+  const applyRedactionsAndContinue = useCallback(async () => {
+    const { documentContent, redactionHits } = useIntakeStore.getState();
+    const redactedContent = applyRedactions(documentContent, redactionHits);
+    clearRedaction();
+    await runDetection(redactedContent);
+  }, [clearRedaction, runDetection]);
+
+  // Reattach to an analysis that was running when the connection dropped or the page reloaded
+  const rejoinSession = useCallback(async () => {
+    const { session, phase } = useIntakeStore.getState();
+    if (phase !== 'extracting') return;
+
+    const rejoined = session ? await agentHub.rejoinSession(session.id) : false;
+    if (!rejoined) {
+      setError('The analysis was interrupted before it finished. Review the items extracted so far, or start over to analyze again.');
+      setPhase('complete');
+    }
+  }, [setError, setPhase]);
+
   // Set up event handlers - only register, don't manage connection lifecycle
   // Connection is managed by IntakePage
   useEffect(() => {
@@ -196,5 +236,7 @@ export function useAgentLoop() {
   return {
     startExtraction,
     detectType,
+    applyRedactionsAndContinue,
+    rejoinSession,
   };
 }
@@ -0,0 +1,55 @@
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+import { SOURCE_TYPES } from '@/entities/source-type';
+import { useIntakeStore } from '../model/useIntakeStore';
+import { getSourceMetadataFromFile, parseIntakeFile } from './parseIntakeFile';
+
+/**
+ * Hook for importing intake documents from files (transcripts, notes, documents, CSV exports)
+ * The file text goes through the same document type detection as pasted text;
+ * once the source type is known, its name and date fields are filled from the file.
+ */
+export function useFileIntake(detectType: (content: string) => Promise<void>) {
+  const setImportedFile = useIntakeStore((state) => state.setImportedFile);
+  const setSourceMetadata = useIntakeStore((state) => state.setSourceMetadata);
+  const [isReading, setIsReading] = useState(false);
+
+  const importFile = useCallback(
+    async (file: File) => {
+      if (useIntakeStore.getState().phase !== 'idle') {
+        toast.info('Start over to import another file');
+        return;
+      }
+
+      setIsReading(true);
+      const result = await parseIntakeFile(file);
+      setIsReading(false);
+      if (!result.ok) {
+        toast.error(result.error);
+        return;
+      }
+
+      const { content, metadata } = result.value;
+      setImportedFile(metadata);
+      await detectType(content);
+
+      // Analysis was not started (the redaction settings could not be loaded)
+      if (useIntakeStore.getState().phase === 'idle') {
+        setImportedFile(null);
+        return;
+      }
+
+      // Fill the metadata of the detected source type, keeping values entered meanwhile
+      const { selectedSourceType, sourceMetadata } = useIntakeStore.getState();
+      if (selectedSourceType) {
+        setSourceMetadata({
+          ...getSourceMetadataFromFile(SOURCE_TYPES[selectedSourceType], metadata),
+          ...Object.fromEntries(Object.entries(sourceMetadata).filter(([, value]) => value)),
+        });
+      }
+    },
+    [detectType, setImportedFile, setSourceMetadata]
+  );
+
+  return { importFile, isReading };
+}
@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useIntakeStore } from '../model/useIntakeStore';
+import { useAuthStore } from '@/shared/auth';
+import {
+  createIntakeDraft,
+  deleteIntakeDraft,
+  getIntakeDraft,
+  listIntakeDrafts,
+  saveIntakeDraft,
+  type IntakeDraft,
+} from './intakeDrafts';
+import type { AnalysisPhase, IntakeDraftSummary } from '../model/types';
+
+const PERSIST_DELAY_MS = 500;
+// Nothing to resume before a document is loaded; while redacting the document still holds the PII
+const UNSAVED_PHASES: AnalysisPhase[] = ['idle', 'redacting'];
+
+/**
+ * Hook for intake session drafts
+ * Saves the intake session as a local draft after every change, lists the
+ * team's unfinished drafts and restores one into the intake store.
+ */
+export function useIntakeDrafts() {
+  const teamId = useAuthStore((state) => state.selectedTeam?.teamId);
+  const isIdle = useIntakeStore((state) => state.phase === 'idle');
+  const [drafts, setDrafts] = useState<IntakeDraftSummary[]>([]);
+
+  const loadDrafts = useCallback(
+    async (): Promise<IntakeDraftSummary[]> => (teamId ? listIntakeDrafts(teamId) : []),
+    [teamId]
+  );
+
+  const refresh = useCallback(async () => {
+    try {
+      setDrafts(await loadDrafts());
+    } catch (error) {
+      console.error('Failed to load intake drafts:', error);
+    }
+  }, [loadDrafts]);
+
+  // The list is shown on the empty intake page, so reload it whenever the page returns there
+  useEffect(() => {
+    if (!isIdle) return;
+    let cancelled = false;
+    loadDrafts()
+      .then((list) => {
+        if (!cancelled) setDrafts(list);
+      })
+      .catch((error) => console.error('Failed to load intake drafts:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isIdle, loadDrafts]);
+
+  // Persist the session on change
+  useEffect(() => {
+    if (!teamId) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const flush = () => {
+      timer = null;
+      const state = useIntakeStore.getState();
+      if (!state.draftId || UNSAVED_PHASES.includes(state.phase)) return;
+      saveIntakeDraft(createIntakeDraft(state.draftId, teamId, state)).catch((error) =>
+        console.error('Failed to save intake draft:', error)
+      );
+    };
+    const unsubscribe = useIntakeStore.subscribe(() => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, PERSIST_DELAY_MS);
+    });
+    return () => {
+      unsubscribe();
+      if (timer) {
+        clearTimeout(timer);
+        flush();
+      }
+    };
+  }, [teamId]);
+
+  const resumeDraft = useCallback(
+    async (id: string): Promise<IntakeDraft | null> => {
+      try {
+        const draft = await getIntakeDraft(id);
+        if (!draft) {
+          toast.error('This draft no longer exists');
+          void refresh();
+          return null;
+        }
+        useIntakeStore.getState().restoreDraft(draft.id, draft.snapshot);
+        return draft;
+      } catch (error) {
+        console.error('Failed to resume intake draft:', error);
+        toast.error('Failed to resume the draft');
+        return null;
+      }
+    },
+    [refresh]
+  );
+
+  const deleteDraft = useCallback(
+    async (id: string) => {
+      try {
+        await deleteIntakeDraft(id);
+      } catch (error) {
+        console.error('Failed to delete intake draft:', error);
+      }
+      await refresh();
+    },
+    [refresh]
+  );
+
+  return { drafts, resumeDraft, deleteDraft };
+}
@@ -0,0 +1,36 @@
+import { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { DEFAULT_REDACTION_SETTINGS, teamRedactionSettingsQuery } from '@/entities/team';
+import { useAuthStore } from '@/shared/auth';
+import type { RedactionSettings } from '../model/types';
+
+/**
+ * Hook returning a loader for the selected team's redaction settings
+ * Reads through the query cache so the latest team dictionary is applied.
+ * Resolves to null when the settings cannot be loaded and the user does not
+ * choose to continue with the default rules; analysis must not start then.
+ */
+export function useLoadRedactionSettings() {
+  const queryClient = useQueryClient();
+
+  return useCallback(async (): Promise<RedactionSettings | null> => {
+    const teamId = useAuthStore.getState().selectedTeam?.teamId;
+    if (!teamId) return DEFAULT_REDACTION_SETTINGS;
+
+    try {
+      return await queryClient.fetchQuery(teamRedactionSettingsQuery(teamId));
+    } catch (error) {
+      console.error('Failed to load redaction settings:', error);
+      const continueWithDefaults = confirm(
+        "Your team's redaction settings could not be loaded, so names in the team dictionary will not be redacted.\n\n" +
+          'Continue with only the default PII rules?'
+      );
+      if (!continueWithDefaults) {
+        toast.error('Analysis was not started. Try again once the redaction settings can be loaded.');
+        return null;
+      }
+      return DEFAULT_REDACTION_SETTINGS;
+    }
+  }, [queryClient]);
+}
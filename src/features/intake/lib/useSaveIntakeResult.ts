@@ -125,6 +125,7 @@ export function useSaveIntakeResult(): UseSaveIntakeResultReturn {
               painPoints: persona.painPoints,
               demographics: persona.demographics,
               quotes: persona.quotes,
+              quoteSourceIds: persona.quoteSourceIds,
             };
             return personaApi.create(dto);
           })
@@ -149,6 +150,14 @@ export function useSaveIntakeResult(): UseSaveIntakeResultReturn {
           return personaIdMap.get(filteredPersonaIndex) ?? null;
         };
 
+        // Resolve linked persona indexes and add the saved personas linked through speakers
+        const resolvePersonaIds = (linkedPersonaIndexes: number[], linkedPersonaIds: string[] = []): string[] => {
+          const personaIds = linkedPersonaIndexes
+            .map(resolvePersonaId)
+            .filter((id): id is string => id !== null);
+          return [...new Set([...personaIds, ...linkedPersonaIds])];
+        };
+
         // Step 2: Create all user goals with linked persona IDs
         // Build reverse map: filtered index -> original index
         const userGoalFilteredToOriginal = new Map<number, number>();
@@ -159,9 +168,7 @@ export function useSaveIntakeResult(): UseSaveIntakeResultReturn {
         const createdUserGoals = await Promise.all(
           userGoals.map((userGoal) => {
             // Resolve linked persona IDs
-            const personaIds = userGoal.linkedPersonaIndexes
-              .map(resolvePersonaId)
-              .filter((id): id is string => id !== null);
+            const personaIds = resolvePersonaIds(userGoal.linkedPersonaIndexes, userGoal.linkedPersonaIds);
 
             const dto: CreateUserGoalDto = {
               teamId,
@@ -169,6 +176,7 @@ export function useSaveIntakeResult(): UseSaveIntakeResultReturn {
               name: userGoal.name,
               description: userGoal.description,
               quotes: userGoal.quotes,
+              quoteSourceIds: userGoal.quoteSourceIds,
               personaIds: personaIds.length > 0 ? personaIds : undefined,
             };
             return userGoalApi.create(dto);
@@ -209,9 +217,7 @@ export function useSaveIntakeResult(): UseSaveIntakeResultReturn {
               : null;
 
             // Resolve linked persona IDs
-            const personaIds = fb.linkedPersonaIndexes
-              .map(resolvePersonaId)
-              .filter((id): id is string => id !== null);
+            const personaIds = resolvePersonaIds(fb.linkedPersonaIndexes, fb.linkedPersonaIds);
 
             // Resolve linked user goal IDs
             const userGoalIds = fb.linkedUserGoalIndexes
@@ -225,6 +231,7 @@ export function useSaveIntakeResult(): UseSaveIntakeResultReturn {
               type: fb.type,
               content: fb.content,
               quotes: fb.quotes,
+              quoteSourceIds: fb.quoteSourceIds,
               personaIds: personaIds.length > 0 ? personaIds : undefined,
               userGoalIds: userGoalIds.length > 0 ? userGoalIds : undefined,
               tags: fb.tags && fb.tags.length > 0 ? fb.tags : undefined,
@@ -245,9 +252,7 @@ export function useSaveIntakeResult(): UseSaveIntakeResultReturn {
           const solutionId = feedbackSolutionIds.get(pendingMerge.intakeFeedbackIndex) ?? null;
 
           // Resolve linked persona IDs
-          const personaIds = fb.linkedPersonaIndexes
-            .map(resolvePersonaId)
-            .filter((id): id is string => id !== null);
+          const personaIds = resolvePersonaIds(fb.linkedPersonaIndexes, fb.linkedPersonaIds);
 
           // Resolve linked user goal IDs
           const userGoalIds = fb.linkedUserGoalIndexes
@@ -262,6 +267,7 @@ export function useSaveIntakeResult(): UseSaveIntakeResultReturn {
             type: fb.type,
             content: fb.content,
             quotes: fb.quotes,
+            quoteSourceIds: fb.quoteSourceIds,
             personaIds: personaIds.length > 0 ? personaIds : undefined,
             userGoalIds: userGoalIds.length > 0 ? userGoalIds : undefined,
             tags: fb.tags && fb.tags.length > 0 ? fb.tags : undefined,
@@ -290,9 +296,7 @@ export function useSaveIntakeResult(): UseSaveIntakeResultReturn {
               : null;
 
             // Resolve linked persona IDs
-            const personaIds = outcome.linkedPersonaIndexes
-              .map(resolvePersonaId)
-              .filter((id): id is string => id !== null);
+            const personaIds = resolvePersonaIds(outcome.linkedPersonaIndexes, outcome.linkedPersonaIds);
 
             // Resolve linked user goal IDs
             const userGoalIds = outcome.linkedUserGoalIndexes
@@ -306,6 +310,7 @@ export function useSaveIntakeResult(): UseSaveIntakeResultReturn {
               description: outcome.description,
               target: outcome.target,
               quotes: outcome.quotes,
+              quoteSourceIds: outcome.quoteSourceIds,
               personaIds: personaIds.length > 0 ? personaIds : undefined,
               userGoalIds: userGoalIds.length > 0 ? userGoalIds : undefined,
             };
@@ -319,9 +324,7 @@ export function useSaveIntakeResult(): UseSaveIntakeResultReturn {
           const solutionId = outcomeSolutionIds.get(pendingMerge.intakeOutcomeIndex) ?? null;
 
           // Resolve linked persona IDs
-          const personaIds = out.linkedPersonaIndexes
-            .map(resolvePersonaId)
-            .filter((id): id is string => id !== null);
+          const personaIds = resolvePersonaIds(out.linkedPersonaIndexes, out.linkedPersonaIds);
 
           // Resolve linked user goal IDs
           const userGoalIds = out.linkedUserGoalIndexes
@@ -336,6 +339,7 @@ export function useSaveIntakeResult(): UseSaveIntakeResultReturn {
             description: out.description,
             target: out.target,
             quotes: out.quotes,
+            quoteSourceIds: out.quoteSourceIds,
             personaIds: personaIds.length > 0 ? personaIds : undefined,
             userGoalIds: userGoalIds.length > 0 ? userGoalIds : undefined,
           });
@@ -359,6 +363,7 @@ export function useSaveIntakeResult(): UseSaveIntakeResultReturn {
                 type: requirement.type,
                 status: 'Todo',
                 quotes: requirement.quotes,
+                quoteSourceIds: requirement.quoteSourceIds,
               };
               return requirementApi.create(dto);
             })
@@ -0,0 +1,466 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router';
+import { toast } from 'sonner';
+import { useAuthStore } from '@/shared/auth';
+import { createIndexedDbStore } from '@/shared/lib/utils';
+import type { ExtractedPersona, ExtractedUserGoal } from '@/entities/intake-result';
+import type { ExtractedFeedback } from '@/entities/feedback';
+import type { ExtractedOutcome } from '@/entities/outcome';
+import type { ExtractedRequirement } from '@/entities/requirement';
+import { intakeSourceApi, metadataToIntakeSource } from '@/entities/intake-source';
+import * as agentHub from '../api/agentHub';
+import {
+  useSurveyIntakeStore,
+  getSurveyIntakeSnapshot,
+  type SurveyIntakeSnapshot,
+} from '../model/useSurveyIntakeStore';
+import type {
+  FeedbackEntity,
+  OutcomeEntity,
+  PersonaEntity,
+  RequirementEntity,
+  SurveyExtraction,
+  SurveyResponse,
+  UserGoalEntity,
+} from '../model/types';
+import { parseCsv } from './csvParser';
+import {
+  buildSurveyResponses,
+  createSurveyBatches,
+  formatSurveyBatch,
+  guessSurveyColumnRoles,
+} from './surveyResponses';
+import { addBatchExtractions } from './aggregateSurveyExtractions';
+import { detectSurveyPii, redactSurveyResponses } from './surveyRedaction';
+import { useLoadRedactionSettings } from './useLoadRedactionSettings';
+import { useSaveIntakeResult } from './useSaveIntakeResult';
+
+const surveyIntakeStorage = createIndexedDbStore<SurveyIntakeSnapshot>('tinkersaur-survey-intake', 'imports');
+const STORAGE_KEY = 'current';
+
+// Pause between batches so a large survey doesn't flood the agent hub
+const BATCH_INTERVAL_MS = 2000;
+const PERSIST_DELAY_MS = 500;
+// Response intake sources are created a few at a time rather than one request per row at once
+const SOURCE_CREATE_CHUNK_SIZE = 10;
+
+/**
+ * Hook for bulk survey intake
+ * Imports a CSV export, redacts PII in the responses after review, runs extraction
+ * over the redacted responses in throttled batches (one analysis at a time) and
+ * saves the reviewed, aggregated extractions with the survey as their intake
+ * source. Every response that a saved quote came from gets its own intake source
+ * (respondent, date and segment), linked to that quote. The import is persisted locally after every change, so an interrupted run can be
+ * resumed where it stopped.
+ */
+export function useSurveyIntake() {
+  const navigate = useNavigate();
+  const selectedTeam = useAuthStore((state) => state.selectedTeam);
+  const { saveIntakeResult, isSaving } = useSaveIntakeResult();
+  const loadRedactionSettings = useLoadRedactionSettings();
+  const [isRestored, setIsRestored] = useState(false);
+  const [isSavingSources, setIsSavingSources] = useState(false);
+  const pauseRequestedRef = useRef(false);
+
+  // Restore an unfinished import
+  useEffect(() => {
+    let cancelled = false;
+    surveyIntakeStorage
+      .get(STORAGE_KEY)
+      .then((snapshot) => {
+        if (!cancelled && snapshot && snapshot.phase !== 'upload') {
+          useSurveyIntakeStore.getState().restore(snapshot);
+        }
+      })
+      .catch((error) => console.error('Failed to restore survey import:', error))
+      .finally(() => {
+        if (!cancelled) setIsRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Persist the import on change (after restoring, so the stored import isn't overwritten)
+  useEffect(() => {
+    if (!isRestored) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const flush = () => {
+      timer = null;
+      persistSurveyIntake(getSurveyIntakeSnapshot(useSurveyIntakeStore.getState()));
+    };
+    const unsubscribe = useSurveyIntakeStore.subscribe(() => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, PERSIST_DELAY_MS);
+    });
+    return () => {
+      unsubscribe();
+      if (timer) {
+        clearTimeout(timer);
+        flush();
+      }
+    };
+  }, [isRestored]);
+
+  // Leaving the page stops the run after the current batch
+  useEffect(() => {
+    return () => {
+      pauseRequestedRef.current = true;
+    };
+  }, []);
+
+  const importCsv = useCallback(async (file: File) => {
+    try {
+      const [headers, ...rows] = parseCsv(await file.text());
+      if (!headers || rows.length === 0) {
+        toast.error(`${file.name} has no survey responses`);
+        return;
+      }
+      useSurveyIntakeStore.getState().loadCsv(file.name, headers, rows, guessSurveyColumnRoles(headers, rows));
+    } catch (error) {
+      toast.error(`Failed to read ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, []);
+
+  const runBatches = useCallback(async () => {
+    const store = useSurveyIntakeStore.getState();
+    if (store.isRunning) return;
+
+    store.setRunning(true);
+    pauseRequestedRef.current = false;
+    const responsesByRow = new Map(store.responses.map((response) => [response.rowNumber, response]));
+
+    try {
+      let batch = store.batches.find((candidate) => candidate.status === 'pending');
+      while (batch && !pauseRequestedRef.current) {
+        const { extractionTypes, updateBatch } = useSurveyIntakeStore.getState();
+        const batchResponses = batch.rowNumbers
+          .map((rowNumber) => responsesByRow.get(rowNumber))
+          .filter((response): response is SurveyResponse => response !== undefined);
+
+        updateBatch(batch.index, { status: 'running', error: undefined });
+        try {
+          const toolCalls = await agentHub.runAnalysis({
+            content: formatSurveyBatch(batch, responsesByRow),
+            documentType: 'survey-response',
+            extractionTypes,
+          });
+          const { extractions, setExtractions } = useSurveyIntakeStore.getState();
+          setExtractions(addBatchExtractions(extractions, toolCalls, batchResponses));
+          updateBatch(batch.index, { status: 'done' });
+        } catch (error) {
+          updateBatch(batch.index, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Extraction failed',
+          });
+        }
+
+        batch = useSurveyIntakeStore.getState().batches.find((candidate) => candidate.status === 'pending');
+        if (batch && !pauseRequestedRef.current) {
+          await new Promise((resolve) => setTimeout(resolve, BATCH_INTERVAL_MS));
+        }
+      }
+    } finally {
+      useSurveyIntakeStore.getState().setRunning(false);
+    }
+
+    const { batches, setPhase } = useSurveyIntakeStore.getState();
+    const failedCount = batches.filter((candidate) => candidate.status === 'failed').length;
+    if (batches.every((candidate) => candidate.status === 'done')) {
+      setPhase('reviewing');
+    } else if (failedCount > 0 && !batches.some((candidate) => candidate.status === 'pending')) {
+      toast.error(`${failedCount} ${failedCount === 1 ? 'batch' : 'batches'} failed. Retry them or review what was extracted.`);
+    }
+  }, []);
+
+  const startExtraction = useCallback(async () => {
+    const { headers, rows, columnRoles, batchSize, extractionTypes } = useSurveyIntakeStore.getState();
+    if (!columnRoles.includes('answer')) {
+      toast.error('Map at least one column to a free-text answer');
+      return;
+    }
+    if (extractionTypes.length === 0) {
+      toast.error('Select at least one type of item to extract');
+      return;
+    }
+
+    const responses = buildSurveyResponses(headers, rows, columnRoles);
+    if (responses.length === 0) {
+      toast.error('None of the rows has an answer');
+      return;
+    }
+
+    // PII is reviewed locally before any response is sent for analysis
+    const settings = await loadRedactionSettings();
+    if (!settings) return;
+    const hits = settings.enabled ? detectSurveyPii(responses, settings) : [];
+    if (hits.length > 0) {
+      useSurveyIntakeStore.getState().startRedaction(responses, hits);
+      return;
+    }
+
+    useSurveyIntakeStore.getState().startBatches(responses, createSurveyBatches(responses, batchSize));
+    await runBatches();
+  }, [loadRedactionSettings, runBatches]);
+
+  // Replace the accepted PII hits with placeholders and batch the redacted responses
+  const applyRedactionsAndExtract = useCallback(async () => {
+    const { responses, redactionHits, batchSize, startBatches } = useSurveyIntakeStore.getState();
+    const redactedResponses = redactSurveyResponses(responses, redactionHits);
+    startBatches(redactedResponses, createSurveyBatches(redactedResponses, batchSize));
+    await runBatches();
+  }, [runBatches]);
+
+  const cancelRedaction = useCallback(() => {
+    useSurveyIntakeStore.getState().cancelRedaction();
+  }, []);
+
+  const pause = useCallback(() => {
+    pauseRequestedRef.current = true;
+  }, []);
+
+  const retryFailedBatches = useCallback(async () => {
+    const { batches, updateBatch } = useSurveyIntakeStore.getState();
+    batches
+      .filter((batch) => batch.status === 'failed')
+      .forEach((batch) => updateBatch(batch.index, { status: 'pending' }));
+    await runBatches();
+  }, [runBatches]);
+
+  const discard = useCallback(() => {
+    pauseRequestedRef.current = true;
+    useSurveyIntakeStore.getState().reset();
+  }, []);
+
+  const save = useCallback(async () => {
+    if (!selectedTeam) {
+      toast.error('No team selected. Please select a team first.');
+      return;
+    }
+
+    const { extractions, responses, surveyName } = useSurveyIntakeStore.getState();
+
+    let sourceIdsByRow: Map<number, string>;
+    setIsSavingSources(true);
+    try {
+      sourceIdsByRow = await createResponseSources(selectedTeam.teamId, surveyName.trim(), extractions, responses);
+    } catch (error) {
+      console.error('Failed to create survey response sources:', error);
+      toast.error('Failed to save survey intake results. Please try again.');
+      return;
+    } finally {
+      setIsSavingSources(false);
+    }
+
+    const success = await saveIntakeResult({
+      ...buildSurveyIntakeResult(extractions, responses, sourceIdsByRow),
+      teamId: selectedTeam.teamId,
+      sourceType: 'survey-response',
+      metadata: {
+        surveyName: surveyName.trim(),
+        responseDate: getLatestResponseDate(responses) ?? '',
+      },
+      pendingMerges: [],
+      pendingUserGoalMerges: [],
+      pendingFeedbackMerges: [],
+      pendingOutcomeMerges: [],
+    });
+
+    if (success) {
+      toast.success('Survey intake results saved successfully');
+      useSurveyIntakeStore.getState().reset();
+      navigate('/discovery/organize');
+    } else {
+      toast.error('Failed to save survey intake results. Please try again.');
+    }
+  }, [selectedTeam, saveIntakeResult, navigate]);
+
+  return {
+    isRestored,
+    isSaving: isSaving || isSavingSources,
+    importCsv,
+    startExtraction,
+    applyRedactionsAndExtract,
+    cancelRedaction,
+    resume: runBatches,
+    pause,
+    retryFailedBatches,
+    discard,
+    save,
+  };
+}
+
+/**
+ * Create an intake source for every response quoted by an accepted extraction
+ * Returns the created source ID by row number.
+ */
+async function createResponseSources(
+  teamId: string,
+  surveyName: string,
+  extractions: SurveyExtraction[],
+  responses: SurveyResponse[]
+): Promise<Map<number, string>> {
+  const quotedRows = new Set(
+    extractions
+      .filter((extraction) => extraction.status === 'accepted')
+      .flatMap((extraction) => Object.values(extraction.quoteRows).flat())
+  );
+  const quotedResponses = responses.filter((response) => quotedRows.has(response.rowNumber));
+
+  const sourceIdsByRow = new Map<number, string>();
+  for (let start = 0; start < quotedResponses.length; start += SOURCE_CREATE_CHUNK_SIZE) {
+    const chunk = quotedResponses.slice(start, start + SOURCE_CREATE_CHUNK_SIZE);
+    const sources = await Promise.all(
+      chunk.map((response) =>
+        intakeSourceApi.create(
+          metadataToIntakeSource(teamId, 'survey-response', {
+            surveyName,
+            responseDate: response.date ?? '',
+            respondentId: response.respondentId,
+            segment: response.segment ?? '',
+          })
+        )
+      )
+    );
+    sources.forEach((source, index) => sourceIdsByRow.set(chunk[index].rowNumber, source.id));
+  }
+  return sourceIdsByRow;
+}
+
+/**
+ * Convert the accepted survey extractions to intake results
+ * Links between extractions become save-time indexes; feedback is tagged with
+ * the segments of the respondents it came from. Each quote is linked to the
+ * source of the first response it was found in.
+ */
+function buildSurveyIntakeResult(
+  extractions: SurveyExtraction[],
+  responses: SurveyResponse[],
+  sourceIdsByRow: Map<number, string>
+) {
+  const accepted = extractions.filter((extraction) => extraction.status === 'accepted');
+  const ofType = (type: SurveyExtraction['type']) => accepted.filter((extraction) => extraction.type === type);
+  const indexById = (items: SurveyExtraction[]) => new Map(items.map((item, index) => [item.id, index]));
+  const toIndexes = (ids: string[], indexes: Map<string, number>) =>
+    ids.map((id) => indexes.get(id)).filter((index): index is number => index !== undefined);
+
+  const segmentsByRow = new Map(responses.map((response) => [response.rowNumber, response.segment]));
+  const getSegments = (extraction: SurveyExtraction) => [
+    ...new Set(
+      extraction.rowNumbers
+        .map((rowNumber) => segmentsByRow.get(rowNumber))
+        .filter((segment): segment is string => !!segment)
+    ),
+  ];
+
+  const getQuoteSourceIds = (extraction: SurveyExtraction): Record<string, string> => {
+    const quoteSourceIds: Record<string, string> = {};
+    for (const [quote, rowNumbers] of Object.entries(extraction.quoteRows)) {
+      const sourceId = rowNumbers.map((rowNumber) => sourceIdsByRow.get(rowNumber)).find(Boolean);
+      if (sourceId) quoteSourceIds[quote] = sourceId;
+    }
+    return quoteSourceIds;
+  };
+
+  const personaExtractions = ofType('personas');
+  const userGoalExtractions = ofType('userGoals');
+  const personaIndexes = indexById(personaExtractions);
+  const userGoalIndexes = indexById(userGoalExtractions);
+
+  const personas: ExtractedPersona[] = personaExtractions.map((extraction) => {
+    const entity = extraction.entity as PersonaEntity;
+    return {
+      name: entity.name,
+      role: entity.role,
+      description: entity.description,
+      goals: entity.goals ?? [],
+      painPoints: entity.painPoints ?? [],
+      demographics: {},
+      quotes: entity.quotes ?? [],
+      quoteSourceIds: getQuoteSourceIds(extraction),
+    };
+  });
+
+  const userGoals: ExtractedUserGoal[] = userGoalExtractions.map((extraction) => {
+    const entity = extraction.entity as UserGoalEntity;
+    return {
+      name: entity.name,
+      description: entity.description,
+      quotes: entity.quotes ?? [],
+      quoteSourceIds: getQuoteSourceIds(extraction),
+      linkedPersonaIndexes: toIndexes(extraction.linkedPersonaIds, personaIndexes),
+    };
+  });
+
+  const feedback: ExtractedFeedback[] = ofType('feedback').map((extraction) => {
+    const entity = extraction.entity as FeedbackEntity;
+    return {
+      type: entity.type,
+      content: entity.content,
+      tags: [...new Set([...(entity.tags ?? []), ...getSegments(extraction)])],
+      quotes: entity.quotes ?? [],
+      quoteSourceIds: getQuoteSourceIds(extraction),
+      linkedPersonaIndexes: toIndexes(extraction.linkedPersonaIds, personaIndexes),
+      linkedUserGoalIndexes: toIndexes(extraction.linkedUserGoalIds, userGoalIndexes),
+    };
+  });
+
+  const outcomes: ExtractedOutcome[] = ofType('outcomes').map((extraction) => {
+    const entity = extraction.entity as OutcomeEntity;
+    return {
+      description: entity.description,
+      target: entity.target,
+      quotes: entity.quotes ?? [],
+      quoteSourceIds: getQuoteSourceIds(extraction),
+      linkedPersonaIndexes: toIndexes(extraction.linkedPersonaIds, personaIndexes),
+      linkedUserGoalIndexes: toIndexes(extraction.linkedUserGoalIds, userGoalIndexes),
+    };
+  });
+
+  const requirements: ExtractedRequirement[] = ofType('requirements').map((extraction) => {
+    const entity = extraction.entity as RequirementEntity;
+    return {
+      text: entity.text,
+      type: entity.type,
+      quotes: entity.quotes ?? [],
+      quoteSourceIds: getQuoteSourceIds(extraction),
+    };
+  });
+
+  // No deletions in this flow, so every index maps to itself
+  const identityMap = (items: unknown[]) => new Map(items.map((_, i) => [i, i]));
+
+  return {
+    personas,
+    userGoals,
+    feedback,
+    outcomes,
+    requirements,
+    personaIndexMap: identityMap(personas),
+    userGoalIndexMap: identityMap(userGoals),
+    feedbackIndexMap: identityMap(feedback),
+    outcomeIndexMap: identityMap(outcomes),
+    requirementIndexMap: identityMap(requirements),
+    feedbackSolutionIds: new Map<number, string | null>(feedback.map((_, i) => [i, null])),
+    outcomeSolutionIds: new Map<number, string | null>(outcomes.map((_, i) => [i, null])),
+  };
+}
+
+/**
+ * Store the import, or remove it once it has been saved or discarded
+ */
+function persistSurveyIntake(snapshot: SurveyIntakeSnapshot): void {
+  const request =
+    snapshot.phase === 'upload'
+      ? surveyIntakeStorage.delete(STORAGE_KEY)
+      : surveyIntakeStorage.set(STORAGE_KEY, snapshot);
+  request.catch((error) => console.error('Failed to save survey import:', error));
+}
+
+function getLatestResponseDate(responses: SurveyResponse[]): string | undefined {
+  return responses
+    .map((response) => response.date)
+    .filter((date): date is string => !!date)
+    .sort()
+    .pop();
+}
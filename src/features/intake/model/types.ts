@@ -2,6 +2,7 @@ import type { MergedPersonaData } from '@/entities/persona';
 import type { MergedUserGoalData } from '@/entities/user-goal';
 import type { ExtractedFeedback } from '@/entities/feedback';
 import type { ExtractedOutcome } from '@/entities/outcome';
+import type { RedactionCategory } from '@/entities/team';
 
 // Agent Session Types
 export interface AgentSession {
@@ -11,6 +12,7 @@ export interface AgentSession {
 
 export type AnalysisPhase =
   | 'idle'
+  | 'redacting'
   | 'detecting'
   | 'suggesting'
   | 'extracting'
@@ -43,8 +45,27 @@ export interface DocumentHighlight {
   extractionId: string;
   quote: string;
   type?: ExtractionType;
+  speaker?: string; // Transcript speaker of the quoted turn
 }
 
+// Transcript Types
+export interface TranscriptTurn {
+  speaker: string;
+  start: number; // Offset of the turn's first line in the document
+  end: number; // Offset just past the turn's last line
+  paragraphIndex: number; // Line index of the turn's first line
+}
+
+export interface TranscriptSpeaker {
+  name: string;
+  turnCount: number;
+}
+
+export type SpeakerAssignment =
+  | { kind: 'interviewer' }
+  | { kind: 'persona'; extractionId: string } // Persona extracted in this intake
+  | { kind: 'existingPersona'; personaId: string; personaName: string };
+
 // Entity Types
 export interface PersonaEntity {
   name: string;
@@ -156,6 +177,95 @@ export interface PersonaPendingMerge {
   quotes?: string[];
 }
 
+// Redaction Types
+// Rules and dictionary are team settings, see @/entities/team
+export type {
+  RedactionCategory,
+  RedactionRule,
+  RedactionDictionaryEntry,
+  TeamRedactionSettings as RedactionSettings,
+} from '@/entities/team';
+
+export interface RedactionHit {
+  id: string;
+  start: number; // Offset in the unredacted document
+  end: number;
+  text: string;
+  category: RedactionCategory;
+  accepted: boolean; // Undone hits stay in the document as written
+}
+
+// Draft Types
+export interface IntakeDraftSummary {
+  id: string;
+  teamId: string;
+  title: string;
+  phase: AnalysisPhase;
+  extractionCount: number;
+  acceptedCount: number;
+  updatedAt: Date;
+}
+
+// File Intake Types
+export type IntakeFileFormat = 'vtt' | 'srt' | 'txt' | 'md' | 'docx' | 'csv';
+
+export interface IntakeFileMetadata {
+  fileName: string;
+  format: IntakeFileFormat;
+  title?: string; // From the document properties, else the file name
+  date?: string; // ISO date (YYYY-MM-DD)
+}
+
+export interface ParsedIntakeFile {
+  content: string;
+  metadata: IntakeFileMetadata;
+}
+
+// Survey Intake Types
+export type SurveyIntakePhase = 'upload' | 'mapping' | 'redacting' | 'extracting' | 'reviewing';
+
+export type SurveyColumnRole = 'respondentId' | 'date' | 'segment' | 'answer' | 'ignore';
+
+export interface SurveyAnswer {
+  question: string;
+  text: string;
+}
+
+export interface SurveyResponse {
+  rowNumber: number; // Spreadsheet row (the header is row 1)
+  respondentId: string;
+  date?: string; // ISO date (YYYY-MM-DD)
+  segment?: string;
+  answers: SurveyAnswer[];
+}
+
+// A PII hit in one field of a survey response, with offsets into that field
+export interface SurveyRedactionHit extends RedactionHit {
+  rowNumber: number;
+  answerIndex: number | null; // null for the respondent ID
+}
+
+export type SurveyBatchStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface SurveyBatch {
+  index: number;
+  rowNumbers: number[];
+  status: SurveyBatchStatus;
+  error?: string;
+}
+
+// An extraction aggregated across batches, with the rows its quotes came from
+export interface SurveyExtraction {
+  id: string;
+  type: ExtractionType;
+  entity: Extraction['entity'];
+  status: ExtractionStatus;
+  rowNumbers: number[];
+  quoteRows: Record<string, number[]>; // Rows each quote was found in
+  linkedPersonaIds: string[];
+  linkedUserGoalIds: string[];
+}
+
 // Request Types
 export interface AnalyzeDocumentRequest {
   content: string;
@@ -13,9 +13,42 @@ import type {
   FeedbackPendingMerge,
   UserGoalPendingMerge,
   OutcomePendingMerge,
+  IntakeFileMetadata,
+  TranscriptTurn,
+  SpeakerAssignment,
+  RedactionHit,
 } from './types';
+import { parseTranscriptTurns, getTranscriptSpeakers, isInterviewerLabel } from '../lib/transcriptParser';
+
+// Everything needed to resume an intake session from a draft
+export interface IntakeSnapshot {
+  session: AgentSession | null;
+  phase: AnalysisPhase;
+  documentContent: string;
+  documentType: DocumentType | null;
+  transcriptTurns: TranscriptTurn[];
+  speakerAssignments: Map<string, SpeakerAssignment>;
+  suggestedExtractions: ExtractionType[];
+  selectedExtractions: ExtractionType[];
+  extractions: Map<string, Extraction>;
+  highlights: Map<string, DocumentHighlight>;
+  personaMatches: Map<string, SimilarPersonaResult[]>;
+  pendingPersonaMerges: Map<string, PersonaPendingMerge>;
+  inlineSimilarityMatches: Map<string, InlineSimilarityMatch>;
+  dismissedSimilarities: Set<string>;
+  pendingFeedbackMerges: Map<string, FeedbackPendingMerge>;
+  pendingUserGoalMerges: Map<string, UserGoalPendingMerge>;
+  pendingOutcomeMerges: Map<string, OutcomePendingMerge>;
+  selectedSolutionId: string | null;
+  selectedSourceType: SourceTypeKey | null;
+  sourceMetadata: Record<string, string>;
+  importedFile: IntakeFileMetadata | null;
+}
 
 interface IntakeState {
+  // Draft the session is saved to (assigned when a document is loaded)
+  draftId: string | null;
+
   // Session
   session: AgentSession | null;
   phase: AnalysisPhase;
@@ -24,6 +57,13 @@ interface IntakeState {
   documentContent: string;
   documentType: DocumentType | null;
 
+  // Transcript speakers (empty when the document has no speaker turns)
+  transcriptTurns: TranscriptTurn[];
+  speakerAssignments: Map<string, SpeakerAssignment>;
+
+  // PII hits under review before the document is sent for analysis
+  redactionHits: RedactionHit[];
+
   // Suggestions (shown after type detection)
   suggestedExtractions: ExtractionType[];
   selectedExtractions: ExtractionType[];
@@ -59,6 +99,7 @@ interface IntakeState {
   selectedSolutionId: string | null;
   selectedSourceType: SourceTypeKey | null;
   sourceMetadata: Record<string, string>;
+  importedFile: IntakeFileMetadata | null;
 
   // Actions
   setDocumentContent: (content: string) => void;
@@ -105,6 +146,17 @@ interface IntakeState {
   setSelectedSourceType: (type: SourceTypeKey | null) => void;
   setSourceMetadata: (metadata: Record<string, string>) => void;
   updateSourceMetadataField: (name: string, value: string) => void;
+  setImportedFile: (file: IntakeFileMetadata | null) => void;
+
+  // Redaction actions
+  startRedaction: (content: string, hits: RedactionHit[]) => void;
+  setRedactionHitAccepted: (id: string, accepted: boolean) => void;
+  acceptAllRedactionHits: () => void;
+  clearRedaction: () => void;
+
+  // Speaker actions
+  setSpeakerAssignment: (speaker: string, assignment: SpeakerAssignment | null) => void;
+  createSpeakerPersona: (speaker: string) => void;
 
   // Inline merge actions
   addPendingFeedbackMerge: (extractionId: string, merge: FeedbackPendingMerge) => void;
@@ -114,15 +166,22 @@ interface IntakeState {
   addPendingOutcomeMerge: (extractionId: string, merge: OutcomePendingMerge) => void;
   removePendingOutcomeMerge: (extractionId: string) => void;
 
+  // Drafts
+  restoreDraft: (draftId: string, snapshot: IntakeSnapshot) => void;
+
   // Reset
   reset: () => void;
 }
 
 const initialState = {
+  draftId: null,
   session: null,
   phase: 'idle' as AnalysisPhase,
   documentContent: '',
   documentType: null,
+  transcriptTurns: [] as TranscriptTurn[],
+  speakerAssignments: new Map<string, SpeakerAssignment>(),
+  redactionHits: [] as RedactionHit[],
   suggestedExtractions: [] as ExtractionType[],
   selectedExtractions: [] as ExtractionType[],
   extractions: new Map<string, Extraction>(),
@@ -147,12 +206,28 @@ const initialState = {
   selectedSolutionId: null,
   selectedSourceType: null,
   sourceMetadata: {},
+  importedFile: null,
 };
 
 export const useIntakeStore = create<IntakeState>((set, _get) => ({
   ...initialState,
 
-  setDocumentContent: (content) => set({ documentContent: content }),
+  setDocumentContent: (content) => {
+    const transcriptTurns = parseTranscriptTurns(content);
+    // Interviewers are recognizable by label; participants are mapped by the user
+    const speakerAssignments = new Map<string, SpeakerAssignment>();
+    for (const speaker of getTranscriptSpeakers(transcriptTurns)) {
+      if (isInterviewerLabel(speaker.name)) {
+        speakerAssignments.set(speaker.name, { kind: 'interviewer' });
+      }
+    }
+    set((state) => ({
+      documentContent: content,
+      transcriptTurns,
+      speakerAssignments,
+      draftId: state.draftId ?? crypto.randomUUID(),
+    }));
+  },
 
   setPhase: (phase) => set({ phase }),
 
@@ -215,7 +290,7 @@ export const useIntakeStore = create<IntakeState>((set, _get) => ({
           highlights.delete(hId);
         }
       }
-      return { extractions, highlights };
+      return { extractions, highlights, speakerAssignments: withoutPersonaAssignments(state.speakerAssignments, id) };
     }),
 
   acceptExtraction: (id) =>
@@ -270,6 +345,7 @@ export const useIntakeStore = create<IntakeState>((set, _get) => ({
         pendingOutcomeMerges,
         inlineSimilarityMatches,
         dismissedSimilarities,
+        speakerAssignments: withoutPersonaAssignments(state.speakerAssignments, id),
       };
     }),
 
@@ -392,6 +468,51 @@ export const useIntakeStore = create<IntakeState>((set, _get) => ({
       sourceMetadata: { ...state.sourceMetadata, [name]: value },
     })),
 
+  setImportedFile: (file) => set({ importedFile: file }),
+
+  // Redaction actions
+  startRedaction: (content, hits) =>
+    set({ documentContent: content, redactionHits: hits, phase: 'redacting', error: null }),
+
+  setRedactionHitAccepted: (id, accepted) =>
+    set((state) => ({
+      redactionHits: state.redactionHits.map((hit) => (hit.id === id ? { ...hit, accepted } : hit)),
+    })),
+
+  acceptAllRedactionHits: () =>
+    set((state) => ({
+      redactionHits: state.redactionHits.map((hit) => ({ ...hit, accepted: true })),
+    })),
+
+  clearRedaction: () => set({ redactionHits: [] }),
+
+  // Speaker actions
+  setSpeakerAssignment: (speaker, assignment) =>
+    set((state) => {
+      const speakerAssignments = new Map(state.speakerAssignments);
+      if (assignment) {
+        speakerAssignments.set(speaker, assignment);
+      } else {
+        speakerAssignments.delete(speaker);
+      }
+      return { speakerAssignments };
+    }),
+
+  createSpeakerPersona: (speaker) =>
+    set((state) => {
+      const extractionId = crypto.randomUUID();
+      const extractions = new Map(state.extractions);
+      extractions.set(extractionId, {
+        id: extractionId,
+        type: 'personas',
+        entity: { name: speaker, role: '', description: '', goals: [], painPoints: [], quotes: [] },
+        status: 'pending',
+      });
+      const speakerAssignments = new Map(state.speakerAssignments);
+      speakerAssignments.set(speaker, { kind: 'persona', extractionId });
+      return { extractions, speakerAssignments };
+    }),
+
   // Inline merge actions
   addPendingFeedbackMerge: (extractionId, merge) =>
     set((state) => {
@@ -435,10 +556,32 @@ export const useIntakeStore = create<IntakeState>((set, _get) => ({
       return { pendingOutcomeMerges };
     }),
 
+  restoreDraft: (draftId, snapshot) =>
+    set({
+      ...initialState,
+      ...snapshot,
+      draftId,
+      // Type detection is a single request; offer the fallback suggestions instead of waiting on it
+      ...(snapshot.phase === 'detecting' && {
+        phase: 'suggesting' as AnalysisPhase,
+        suggestedExtractions:
+          snapshot.suggestedExtractions.length > 0
+            ? snapshot.suggestedExtractions
+            : ['personas', 'userGoals', 'feedback', 'outcomes'],
+      }),
+      redactionHits: [],
+      newExtractionIds: new Set(),
+      checkingPersonas: new Set(),
+      checkingInlineSimilarity: new Set(),
+    }),
+
   reset: () => set({
     ...initialState,
     extractions: new Map(),
     highlights: new Map(),
+    transcriptTurns: [],
+    speakerAssignments: new Map(),
+    redactionHits: [],
     newExtractionIds: new Set(),
     personaMatches: new Map(),
     checkingPersonas: new Set(),
@@ -455,6 +598,51 @@ export const useIntakeStore = create<IntakeState>((set, _get) => ({
   }),
 }));
 
+/**
+ * Drop speaker assignments that point at a removed persona extraction
+ */
+function withoutPersonaAssignments(
+  assignments: Map<string, SpeakerAssignment>,
+  extractionId: string
+): Map<string, SpeakerAssignment> {
+  const speakerAssignments = new Map(assignments);
+  for (const [speaker, assignment] of speakerAssignments) {
+    if (assignment.kind === 'persona' && assignment.extractionId === extractionId) {
+      speakerAssignments.delete(speaker);
+    }
+  }
+  return speakerAssignments;
+}
+
+/**
+ * The persisted part of the intake state
+ */
+export function getIntakeSnapshot(state: IntakeSnapshot): IntakeSnapshot {
+  return {
+    session: state.session,
+    phase: state.phase,
+    documentContent: state.documentContent,
+    documentType: state.documentType,
+    transcriptTurns: state.transcriptTurns,
+    speakerAssignments: state.speakerAssignments,
+    suggestedExtractions: state.suggestedExtractions,
+    selectedExtractions: state.selectedExtractions,
+    extractions: state.extractions,
+    highlights: state.highlights,
+    personaMatches: state.personaMatches,
+    pendingPersonaMerges: state.pendingPersonaMerges,
+    inlineSimilarityMatches: state.inlineSimilarityMatches,
+    dismissedSimilarities: state.dismissedSimilarities,
+    pendingFeedbackMerges: state.pendingFeedbackMerges,
+    pendingUserGoalMerges: state.pendingUserGoalMerges,
+    pendingOutcomeMerges: state.pendingOutcomeMerges,
+    selectedSolutionId: state.selectedSolutionId,
+    selectedSourceType: state.selectedSourceType,
+    sourceMetadata: state.sourceMetadata,
+    importedFile: state.importedFile,
+  };
+}
+
 // Selector hooks for derived state
 export const useExtractionsByType = (type: ExtractionType): Extraction[] => {
   const extractions = useIntakeStore((state) => state.extractions);
@@ -0,0 +1,195 @@
+import { create } from 'zustand';
+import type {
+  ExtractionStatus,
+  ExtractionType,
+  SurveyBatch,
+  SurveyColumnRole,
+  SurveyExtraction,
+  SurveyIntakePhase,
+  SurveyRedactionHit,
+  SurveyResponse,
+} from './types';
+
+/**
+ * Survey Intake Store
+ * State of a bulk survey import: the CSV and its column mapping, the PII found
+ * in the responses, the extraction batches and the extractions aggregated
+ * across batches for review.
+ */
+
+export const DEFAULT_SURVEY_BATCH_SIZE = 25;
+
+export const DEFAULT_SURVEY_EXTRACTION_TYPES: ExtractionType[] = ['userGoals', 'feedback', 'outcomes'];
+
+// Everything needed to resume an import after a reload
+export interface SurveyIntakeSnapshot {
+  phase: SurveyIntakePhase;
+  fileName: string | null;
+  surveyName: string;
+  headers: string[];
+  rows: string[][];
+  columnRoles: SurveyColumnRole[];
+  batchSize: number;
+  extractionTypes: ExtractionType[];
+  responses: SurveyResponse[];
+  redactionHits: SurveyRedactionHit[];
+  batches: SurveyBatch[];
+  extractions: SurveyExtraction[];
+}
+
+interface SurveyIntakeState extends SurveyIntakeSnapshot {
+  isRunning: boolean;
+
+  // Setup
+  loadCsv: (fileName: string, headers: string[], rows: string[][], columnRoles: SurveyColumnRole[]) => void;
+  setSurveyName: (name: string) => void;
+  setColumnRole: (column: number, role: SurveyColumnRole) => void;
+  setBatchSize: (size: number) => void;
+  toggleExtractionType: (type: ExtractionType) => void;
+  startBatches: (responses: SurveyResponse[], batches: SurveyBatch[]) => void;
+
+  // Redaction
+  startRedaction: (responses: SurveyResponse[], hits: SurveyRedactionHit[]) => void;
+  setRedactionHitAccepted: (id: string, accepted: boolean) => void;
+  acceptAllRedactionHits: () => void;
+  cancelRedaction: () => void;
+
+  // Batches
+  setRunning: (isRunning: boolean) => void;
+  updateBatch: (index: number, updates: Partial<SurveyBatch>) => void;
+  setExtractions: (extractions: SurveyExtraction[]) => void;
+  setPhase: (phase: SurveyIntakePhase) => void;
+
+  // Review
+  setExtractionStatus: (id: string, status: ExtractionStatus) => void;
+  setAllPendingStatus: (status: ExtractionStatus) => void;
+
+  restore: (snapshot: SurveyIntakeSnapshot) => void;
+  reset: () => void;
+}
+
+const initialState: SurveyIntakeSnapshot = {
+  phase: 'upload',
+  fileName: null,
+  surveyName: '',
+  headers: [],
+  rows: [],
+  columnRoles: [],
+  batchSize: DEFAULT_SURVEY_BATCH_SIZE,
+  extractionTypes: DEFAULT_SURVEY_EXTRACTION_TYPES,
+  responses: [],
+  redactionHits: [],
+  batches: [],
+  extractions: [],
+};
+
+export const useSurveyIntakeStore = create<SurveyIntakeState>((set) => ({
+  ...initialState,
+  isRunning: false,
+
+  loadCsv: (fileName, headers, rows, columnRoles) =>
+    set({
+      ...initialState,
+      phase: 'mapping',
+      fileName,
+      surveyName: fileName.replace(/\.[^.]+$/, '').replace(/[_]+/g, ' ').trim(),
+      headers,
+      rows,
+      columnRoles,
+    }),
+
+  setSurveyName: (name) => set({ surveyName: name }),
+
+  setColumnRole: (column, role) =>
+    set((state) => ({
+      // Respondent ID, date and segment map to a single column
+      columnRoles: state.columnRoles.map((current, index) => {
+        if (index === column) return role;
+        if (role !== 'answer' && role !== 'ignore' && current === role) return 'ignore';
+        return current;
+      }),
+    })),
+
+  setBatchSize: (size) => set({ batchSize: size }),
+
+  toggleExtractionType: (type) =>
+    set((state) => ({
+      extractionTypes: state.extractionTypes.includes(type)
+        ? state.extractionTypes.filter((current) => current !== type)
+        : [...state.extractionTypes, type],
+    })),
+
+  startBatches: (responses, batches) =>
+    set({ phase: 'extracting', responses, redactionHits: [], batches, extractions: [] }),
+
+  startRedaction: (responses, hits) => set({ phase: 'redacting', responses, redactionHits: hits }),
+
+  setRedactionHitAccepted: (id, accepted) =>
+    set((state) => ({
+      redactionHits: state.redactionHits.map((hit) => (hit.id === id ? { ...hit, accepted } : hit)),
+    })),
+
+  acceptAllRedactionHits: () =>
+    set((state) => ({
+      redactionHits: state.redactionHits.map((hit) => ({ ...hit, accepted: true })),
+    })),
+
+  cancelRedaction: () => set({ phase: 'mapping', responses: [], redactionHits: [] }),
+
+  setRunning: (isRunning) => set({ isRunning }),
+
+  updateBatch: (index, updates) =>
+    set((state) => ({
+      batches: state.batches.map((batch) => (batch.index === index ? { ...batch, ...updates } : batch)),
+    })),
+
+  setExtractions: (extractions) => set({ extractions }),
+
+  setPhase: (phase) => set({ phase }),
+
+  setExtractionStatus: (id, status) =>
+    set((state) => ({
+      extractions: state.extractions.map((extraction) =>
+        extraction.id === id ? { ...extraction, status } : extraction
+      ),
+    })),
+
+  setAllPendingStatus: (status) =>
+    set((state) => ({
+      extractions: state.extractions.map((extraction) =>
+        extraction.status === 'pending' ? { ...extraction, status } : extraction
+      ),
+    })),
+
+  restore: (snapshot) =>
+    set({
+      ...snapshot,
+      // A batch interrupted by the reload runs again
+      batches: snapshot.batches.map((batch) =>
+        batch.status === 'running' ? { ...batch, status: 'pending' } : batch
+      ),
+      isRunning: false,
+    }),
+
+  reset: () => set({ ...initialState, isRunning: false }),
+}));
+
+/**
+ * The persisted part of the survey intake state
+ */
+export function getSurveyIntakeSnapshot(state: SurveyIntakeSnapshot): SurveyIntakeSnapshot {
+  return {
+    phase: state.phase,
+    fileName: state.fileName,
+    surveyName: state.surveyName,
+    headers: state.headers,
+    rows: state.rows,
+    columnRoles: state.columnRoles,
+    batchSize: state.batchSize,
+    extractionTypes: state.extractionTypes,
+    responses: state.responses,
+    redactionHits: state.redactionHits,
+    batches: state.batches,
+    extractions: state.extractions,
+  };
+}
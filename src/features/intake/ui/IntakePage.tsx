@@ -1,5 +1,6 @@
-import { useEffect, useMemo, useCallback } from 'react';
+import { useEffect, useMemo, useCallback, useState } from 'react';
 import { useNavigate } from 'react-router';
+import { FiShield } from 'react-icons/fi';
 import { toast } from 'sonner';
 import { useIntakeStore } from '../model/useIntakeStore';
 import * as agentHub from '../api/agentHub';
@@ -7,9 +8,15 @@ import { useAgentLoop } from '../lib/useAgentLoop';
 import { InlineDocumentWithCards } from './editor/InlineDocumentWithCards';
 import { ExtractionSuggestions } from './suggestions/ExtractionSuggestions';
 import { PersonaSidebar } from './sidebar';
+import { IntakeFileDropZone, IntakeFileButton } from './file-import';
+import { RedactionReview, RedactionToolbar, RedactionSettingsModal } from './redaction';
+import { IntakeDraftList } from './drafts';
 import { Button, Spinner, HStack, PageHeader, PageContent } from '@/shared/ui';
 import { useAuthStore } from '@/shared/auth';
 import { useSaveIntakeResult } from '../lib/useSaveIntakeResult';
+import { useFileIntake } from '../lib/useFileIntake';
+import { useIntakeDrafts } from '../lib/useIntakeDrafts';
+import { createSpeakerPersonaResolver, getSpeakerQuotesByPersona } from '../lib/speakerAttribution';
 import type { ExtractedPersona, ExtractedUserGoal } from '@/entities/intake-result';
 import type { ExtractedFeedback } from '@/entities/feedback';
 import type { ExtractedOutcome } from '@/entities/outcome';
@@ -26,7 +33,10 @@ export function IntakePage() {
   const acceptAllExtractions = useIntakeStore((state) => state.acceptAllExtractions);
   const selectedTeam = useAuthStore((state) => state.selectedTeam);
   const { saveIntakeResult, isSaving } = useSaveIntakeResult();
-  const { startExtraction, detectType } = useAgentLoop();
+  const { startExtraction, detectType, applyRedactionsAndContinue, rejoinSession } = useAgentLoop();
+  const { importFile, isReading } = useFileIntake(detectType);
+  const { drafts, resumeDraft, deleteDraft } = useIntakeDrafts();
+  const [isRedactionSettingsOpen, setIsRedactionSettingsOpen] = useState(false);
 
   // Calculate extraction counts for header
   const totalExtractions = extractions.size;
@@ -56,6 +66,7 @@ export function IntakePage() {
 
     // Read fresh state from the store to avoid stale closure issues
     const {
+      draftId,
       extractions: currentExtractions,
       pendingPersonaMerges,
       pendingFeedbackMerges,
@@ -65,6 +76,9 @@ export function IntakePage() {
       selectedSolutionId,
       selectedSourceType,
       sourceMetadata,
+      documentContent,
+      transcriptTurns,
+      speakerAssignments,
     } = useIntakeStore.getState();
 
     // Gather accepted extractions by type
@@ -72,6 +86,17 @@ export function IntakePage() {
       (e) => e.status === 'accepted'
     );
 
+    // Persona links from transcript speakers, added to the links the LLM suggested
+    const allPersonaExtractions = Array.from(currentExtractions.values()).filter((e) => e.type === 'personas');
+    const speakerContext = {
+      documentContent,
+      transcriptTurns,
+      speakerAssignments,
+      personaExtractionIds: allPersonaExtractions.map((e) => e.id),
+    };
+    const resolveSpeakerLinks = createSpeakerPersonaResolver(speakerContext);
+    const speakerQuotesByPersona = getSpeakerQuotesByPersona(speakerContext, acceptedExtractions);
+
     // Convert to ExtractedPersona format
     const personas: ExtractedPersona[] = acceptedExtractions
       .filter((e) => e.type === 'personas')
@@ -84,14 +109,13 @@ export function IntakePage() {
           goals: entity.goals ?? [],
           painPoints: entity.painPoints ?? [],
           demographics: {},
-          quotes: entity.quotes ?? [],
+          quotes: [...new Set([...(entity.quotes ?? []), ...(speakerQuotesByPersona.get(e.id) ?? [])])],
         };
       });
 
     // Build LLM-index-to-save-index maps for linking resolution.
     // The LLM assigns 0-based indexes per type in extraction order.
     // We need to remap because rejected extractions shift save-time indexes.
-    const allPersonaExtractions = Array.from(currentExtractions.values()).filter((e) => e.type === 'personas');
     const allUserGoalExtractions = Array.from(currentExtractions.values()).filter((e) => e.type === 'userGoals');
 
     // Map from LLM persona index → save-time persona index (for ALL accepted personas)
@@ -143,11 +167,13 @@ export function IntakePage() {
         const entity = e.entity as UserGoalEntity;
         // If this extraction has a pending user goal merge, use merged content
         const ugMerge = pendingUserGoalMerges.get(e.id);
+        const speakerLinks = resolveSpeakerLinks(entity);
         return {
           name: ugMerge?.mergedUserGoal.name ?? entity.name,
           description: ugMerge?.mergedUserGoal.description ?? entity.description,
           quotes: entity.quotes ?? [],
-          linkedPersonaIndexes: remapIndexes(entity.linkedPersonaIndexes, llmPersonaToSaveIndex),
+          linkedPersonaIndexes: remapIndexes(speakerLinks.linkedPersonaIndexes, llmPersonaToSaveIndex),
+          linkedPersonaIds: speakerLinks.linkedPersonaIds,
         };
       });
 
@@ -156,12 +182,14 @@ export function IntakePage() {
       .filter((e) => e.type === 'feedback' && !mergedFeedbackIds.has(e.id))
       .map((e) => {
         const entity = e.entity as FeedbackEntity;
+        const speakerLinks = resolveSpeakerLinks(entity);
         return {
           type: entity.type,
           content: entity.content,
           tags: entity.tags ?? [],
           quotes: entity.quotes ?? [],
-          linkedPersonaIndexes: remapIndexes(entity.linkedPersonaIndexes, llmPersonaToSaveIndex),
+          linkedPersonaIndexes: remapIndexes(speakerLinks.linkedPersonaIndexes, llmPersonaToSaveIndex),
+          linkedPersonaIds: speakerLinks.linkedPersonaIds,
           linkedUserGoalIndexes: remapIndexes(entity.linkedUserGoalIndexes, llmUserGoalToSaveIndex),
         };
       });
@@ -171,11 +199,13 @@ export function IntakePage() {
       .filter((e) => e.type === 'outcomes' && !mergedOutcomeIds.has(e.id))
       .map((e) => {
         const entity = e.entity as OutcomeEntity;
+        const speakerLinks = resolveSpeakerLinks(entity);
         return {
           description: entity.description,
           target: entity.target,
           quotes: entity.quotes ?? [],
-          linkedPersonaIndexes: remapIndexes(entity.linkedPersonaIndexes, llmPersonaToSaveIndex),
+          linkedPersonaIndexes: remapIndexes(speakerLinks.linkedPersonaIndexes, llmPersonaToSaveIndex),
+          linkedPersonaIds: speakerLinks.linkedPersonaIds,
           linkedUserGoalIndexes: remapIndexes(entity.linkedUserGoalIndexes, llmUserGoalToSaveIndex),
         };
       });
@@ -227,6 +257,7 @@ export function IntakePage() {
     const convertedFeedbackMerges = Array.from(pendingFeedbackMerges.values()).map((merge) => {
       const extraction = currentExtractions.get(merge.extractionId);
       const entity = extraction?.entity as FeedbackEntity;
+      const speakerLinks = resolveSpeakerLinks(entity);
       return {
         intakeFeedbackIndex: 0, // Not used for index-based lookup in intake flow
         parentFeedbackId: merge.parentFeedbackId,
@@ -235,7 +266,8 @@ export function IntakePage() {
           content: entity.content,
           tags: entity.tags ?? [],
           quotes: entity.quotes ?? [],
-          linkedPersonaIndexes: remapIndexes(entity.linkedPersonaIndexes, llmPersonaToSaveIndex),
+          linkedPersonaIndexes: remapIndexes(speakerLinks.linkedPersonaIndexes, llmPersonaToSaveIndex),
+          linkedPersonaIds: speakerLinks.linkedPersonaIds,
           linkedUserGoalIndexes: remapIndexes(entity.linkedUserGoalIndexes, llmUserGoalToSaveIndex),
         },
       };
@@ -245,6 +277,7 @@ export function IntakePage() {
     const convertedOutcomeMerges = Array.from(pendingOutcomeMerges.values()).map((merge) => {
       const extraction = currentExtractions.get(merge.extractionId);
       const entity = extraction?.entity as OutcomeEntity;
+      const speakerLinks = resolveSpeakerLinks(entity);
       return {
         intakeOutcomeIndex: 0,
         parentOutcomeId: merge.parentOutcomeId,
@@ -252,7 +285,8 @@ export function IntakePage() {
           description: entity.description,
           target: entity.target,
           quotes: entity.quotes ?? [],
-          linkedPersonaIndexes: remapIndexes(entity.linkedPersonaIndexes, llmPersonaToSaveIndex),
+          linkedPersonaIndexes: remapIndexes(speakerLinks.linkedPersonaIndexes, llmPersonaToSaveIndex),
+          linkedPersonaIds: speakerLinks.linkedPersonaIds,
           linkedUserGoalIndexes: remapIndexes(entity.linkedUserGoalIndexes, llmUserGoalToSaveIndex),
         },
       };
@@ -293,12 +327,15 @@ export function IntakePage() {
 
     if (success) {
       toast.success('Intake results saved successfully');
+      if (draftId) {
+        void deleteDraft(draftId);
+      }
       reset();
       navigate('/discovery/organize');
     } else {
       toast.error('Failed to save intake results. Please try again.');
     }
-  }, [selectedTeam, saveIntakeResult, reset, navigate]);
+  }, [selectedTeam, saveIntakeResult, reset, navigate, deleteDraft]);
 
   const handleAcceptAllAndSave = useCallback(async () => {
     acceptAllExtractions();
@@ -307,25 +344,47 @@ export function IntakePage() {
 
   // Manage SignalR connection at page level - single connection for all child components
   useEffect(() => {
+    // A dropped connection loses the analysis stream until the session is rejoined
+    const handleReconnected = () => {
+      void rejoinSession();
+    };
+    agentHub.onReconnected(handleReconnected);
+
     agentHub.connect().catch((err) => {
       console.error('Failed to connect to agent hub:', err);
     });
 
     return () => {
+      agentHub.offReconnected(handleReconnected);
       agentHub.disconnect();
     };
-  }, []);
+  }, [rejoinSession]);
+
+  const handleResumeDraft = useCallback(
+    async (id: string) => {
+      const draft = await resumeDraft(id);
+      if (draft?.snapshot.phase === 'extracting') {
+        await rejoinSession();
+      }
+    },
+    [resumeDraft, rejoinSession]
+  );
 
   return (
     <>
       <PageHeader
         title="Intake"
         actions={
-          phase !== 'idle' && (
-            <Button variant="default" size="small" onClick={reset}>
-              Start Over
+          <HStack gap="sm">
+            {phase !== 'idle' && (
+              <Button variant="default" size="small" onClick={reset}>
+                Start Over
+              </Button>
+            )}
+            <Button variant="default" size="small" onClick={() => navigate('/discovery/intake/survey')}>
+              Survey Import
             </Button>
-          )
+          </HStack>
         }
       />
       <PageContent fillHeight>
@@ -343,6 +402,8 @@ export function IntakePage() {
               <div>
                 {phase === 'suggesting' ? (
                   <ExtractionSuggestions onStartExtraction={startExtraction} />
+                ) : phase === 'redacting' ? (
+                  <RedactionToolbar onContinue={applyRedactionsAndContinue} />
                 ) : phase === 'detecting' ? (
                   <HStack gap="xs" align="center">
                     <Spinner />
@@ -353,9 +414,20 @@ export function IntakePage() {
                     Extracting entities from document...
                   </div>
                 ) : (
-                  <div className="text-sm text-[var(--text-muted)]">
-                    Paste text below to extract information from meeting transcripts, support tickets, notes, requirement documents...
-                  </div>
+                  <HStack gap="sm" align="center">
+                    <IntakeFileButton onFileSelect={importFile} loading={isReading} />
+                    <Button
+                      variant="default"
+                      size="small"
+                      icon={<FiShield />}
+                      onClick={() => setIsRedactionSettingsOpen(true)}
+                    >
+                      Redaction
+                    </Button>
+                    <span className="text-sm text-[var(--text-muted)]">
+                      Paste text below or drop a file to extract information from meeting transcripts, support tickets, notes, requirement documents...
+                    </span>
+                  </HStack>
                 )}
               </div>
               {(phase === 'extracting' || phase === 'complete') && totalExtractions > 0 && (
@@ -369,12 +441,25 @@ export function IntakePage() {
             </HStack>
           </div>
 
+          {/* Unfinished sessions, offered until a new document is loaded */}
+          {phase === 'idle' && (
+            <IntakeDraftList drafts={drafts} onResume={handleResumeDraft} onDelete={deleteDraft} />
+          )}
+
           {/* Main content - editor with persona sidebar */}
           <div className="flex-1 min-h-0 flex">
-            {/* Document editor - takes remaining space */}
-            <div className="flex-1 overflow-auto bg-[var(--bg)] border border-[var(--border)] rounded-sm">
-              <InlineDocumentWithCards className="p-4 min-h-[400px]" onDetectType={detectType} />
-            </div>
+            {/* Document editor - takes remaining space, accepts dropped files before analysis */}
+            <IntakeFileDropZone
+              className="flex-1 overflow-auto bg-[var(--bg)] border border-[var(--border)] rounded-sm"
+              onFileDrop={importFile}
+              disabled={phase !== 'idle' || isReading}
+            >
+              {phase === 'redacting' ? (
+                <RedactionReview className="p-4 min-h-[400px]" />
+              ) : (
+                <InlineDocumentWithCards className="p-4 min-h-[400px]" onDetectType={detectType} />
+              )}
+            </IntakeFileDropZone>
 
             {/* Persona sidebar - fixed width, appears when personas exist */}
             <PersonaSidebar />
@@ -412,6 +497,7 @@ export function IntakePage() {
           )}
         </div>
       </PageContent>
+      <RedactionSettingsModal open={isRedactionSettingsOpen} onClose={() => setIsRedactionSettingsOpen(false)} />
     </>
   );
 }
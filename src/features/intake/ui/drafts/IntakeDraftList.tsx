@@ -0,0 +1,60 @@
+import { FiTrash2 } from 'react-icons/fi';
+import { formatRelativeTime } from '@/shared/lib/utils';
+import { Button, HStack } from '@/shared/ui';
+import type { AnalysisPhase, IntakeDraftSummary } from '../../model/types';
+
+const PHASE_LABELS: Partial<Record<AnalysisPhase, string>> = {
+  detecting: 'Detecting type',
+  suggesting: 'Choosing extractions',
+  extracting: 'Analysis in progress',
+  complete: 'Reviewing',
+};
+
+interface IntakeDraftListProps {
+  drafts: IntakeDraftSummary[];
+  onResume: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Unfinished intake sessions that can be picked up again
+ */
+export function IntakeDraftList({ drafts, onResume, onDelete }: IntakeDraftListProps) {
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <h3 className="text-xs font-semibold text-[var(--text-muted)] uppercase tracking-wide mb-2">
+        Unfinished Drafts
+      </h3>
+      <div className="border border-[var(--border)] rounded-sm divide-y divide-[var(--border)] max-h-[200px] overflow-y-auto">
+        {drafts.map((draft) => (
+          <HStack key={draft.id} justify="between" align="center" gap="sm" className="px-3 py-2">
+            <div className="min-w-0">
+              <div className="text-sm font-medium truncate" title={draft.title}>
+                {draft.title}
+              </div>
+              <div className="text-xs text-[var(--text-muted)]">
+                {PHASE_LABELS[draft.phase] ?? draft.phase} · {draft.acceptedCount} of {draft.extractionCount} items
+                accepted · {formatRelativeTime(draft.updatedAt)}
+              </div>
+            </div>
+            <HStack gap="xs" align="center">
+              <Button variant="default" size="small" onClick={() => onResume(draft.id)}>
+                Resume
+              </Button>
+              <button
+                type="button"
+                title="Delete draft"
+                onClick={() => onDelete(draft.id)}
+                className="p-1.5 rounded-sm text-[var(--text-muted)] hover:bg-[var(--bg-light)]"
+              >
+                <FiTrash2 />
+              </button>
+            </HStack>
+          </HStack>
+        ))}
+      </div>
+    </div>
+  );
+}
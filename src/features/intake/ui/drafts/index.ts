@@ -0,0 +1 @@
+export { IntakeDraftList } from './IntakeDraftList';
@@ -4,6 +4,7 @@ import { useIntakeStore } from '../../model/useIntakeStore';
 import { useInlineSimilarityCheck } from '../../lib/useInlineSimilarityCheck';
 import { computeCardAssignments, groupAssignmentsByParagraph } from '../../lib/computeCardAssignments';
 import { InlineCardGroup } from './InlineCardGroup';
+import type { Extraction, PersonaEntity, SpeakerAssignment, TranscriptTurn } from '../../model/types';
 import '@/shared/ui/HighlightableDocument/HighlightableDocument.css';
 
 interface InlineDocumentWithCardsProps {
@@ -26,6 +27,8 @@ export function InlineDocumentWithCards({ className = '', onDetectType }: Inline
   const highlights = useIntakeStore((state) => state.highlights);
   const extractions = useIntakeStore((state) => state.extractions);
   const activeHighlightId = useIntakeStore((state) => state.activeHighlightId);
+  const transcriptTurns = useIntakeStore((state) => state.transcriptTurns);
+  const speakerAssignments = useIntakeStore((state) => state.speakerAssignments);
   const setActiveExtraction = useIntakeStore((state) => state.setActiveExtraction);
 
   // Check for similar existing entities after extraction completes
@@ -51,6 +54,17 @@ export function InlineDocumentWithCards({ className = '', onDetectType }: Inline
     return groupAssignmentsByParagraph(assignments);
   }, [documentContent, extractions, highlights]);
 
+  // Speaker labels go before the first line of each change of speaker
+  const speakerChangesByParagraph = useMemo(() => {
+    const changes = new Map<number, TranscriptTurn>();
+    transcriptTurns.forEach((turn, index) => {
+      if (index === 0 || transcriptTurns[index - 1].speaker !== turn.speaker) {
+        changes.set(turn.paragraphIndex, turn);
+      }
+    });
+    return changes;
+  }, [transcriptTurns]);
+
   // Handle paste to trigger detection
   const handlePaste = useCallback(
     (e: React.ClipboardEvent) => {
@@ -88,6 +102,22 @@ export function InlineDocumentWithCards({ className = '', onDetectType }: Inline
     const elements: React.ReactNode[] = [];
 
     paragraphElements.forEach((paragraphElement, index) => {
+      const speakerTurn = speakerChangesByParagraph.get(index);
+      if (speakerTurn) {
+        const assignment = speakerAssignments.get(speakerTurn.speaker);
+        elements.push(
+          <div
+            key={`speaker-${index}`}
+            className={`mt-3 text-xs font-semibold ${
+              assignment && assignment.kind !== 'interviewer' ? 'text-[var(--primary)]' : 'text-[var(--text-muted)]'
+            }`}
+          >
+            {speakerTurn.speaker}
+            <span className="font-normal ml-1">· {getSpeakerAssignmentLabel(assignment, extractions)}</span>
+          </div>
+        );
+      }
+
       // Add the paragraph
       elements.push(
         <Fragment key={`para-${index}`}>
@@ -109,7 +139,16 @@ export function InlineDocumentWithCards({ className = '', onDetectType }: Inline
     });
 
     return elements;
-  }, [documentContent, highlightArray, activeHighlightId, handleHighlightClick, cardsByParagraph, extractions]);
+  }, [
+    documentContent,
+    highlightArray,
+    activeHighlightId,
+    handleHighlightClick,
+    cardsByParagraph,
+    extractions,
+    speakerChangesByParagraph,
+    speakerAssignments,
+  ]);
 
   const isEmpty = !documentContent || documentContent.trim().length === 0;
 
@@ -122,7 +161,7 @@ export function InlineDocumentWithCards({ className = '', onDetectType }: Inline
     >
       {isEmpty ? (
         <div className="highlightable-document-placeholder">
-          Click and paste text to get started.
+          Click and paste text, or drop a transcript or document file, to get started.
         </div>
       ) : (
         <div className="highlightable-document-content">
@@ -132,3 +171,23 @@ export function InlineDocumentWithCards({ className = '', onDetectType }: Inline
     </div>
   );
 }
+
+/**
+ * Describe what a speaker is mapped to
+ */
+function getSpeakerAssignmentLabel(
+  assignment: SpeakerAssignment | undefined,
+  extractions: Map<string, Extraction>
+): string {
+  if (!assignment) return 'Not mapped';
+  switch (assignment.kind) {
+    case 'interviewer':
+      return 'Interviewer';
+    case 'persona': {
+      const persona = extractions.get(assignment.extractionId)?.entity as PersonaEntity | undefined;
+      return persona ? `New persona: ${persona.name}` : 'Not mapped';
+    }
+    case 'existingPersona':
+      return assignment.personaName;
+  }
+}
@@ -0,0 +1,51 @@
+import React, { useRef } from 'react';
+import { FiUpload } from 'react-icons/fi';
+import { Button } from '@/shared/ui';
+import { INTAKE_FILE_ACCEPT } from '../../lib/parseIntakeFile';
+
+interface IntakeFileButtonProps {
+  onFileSelect: (file: File) => void;
+  /** File types to offer (defaults to every intake format) */
+  accept?: string;
+  label?: string;
+  loading?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Opens a file picker for importing a transcript or document
+ */
+export function IntakeFileButton({
+  onFileSelect,
+  accept = INTAKE_FILE_ACCEPT,
+  label = 'Import File',
+  loading = false,
+  disabled = false,
+}: IntakeFileButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so the same file can be picked again
+    e.target.value = '';
+    if (file) {
+      onFileSelect(file);
+    }
+  };
+
+  return (
+    <>
+      <input ref={inputRef} type="file" accept={accept} className="hidden" onChange={handleChange} />
+      <Button
+        variant="default"
+        size="small"
+        icon={<FiUpload />}
+        onClick={() => inputRef.current?.click()}
+        loading={loading}
+        disabled={disabled || loading}
+      >
+        {label}
+      </Button>
+    </>
+  );
+}
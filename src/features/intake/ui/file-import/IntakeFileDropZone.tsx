@@ -0,0 +1,88 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { FiUpload } from 'react-icons/fi';
+
+interface IntakeFileDropZoneProps {
+  onFileDrop: (file: File) => void;
+  disabled?: boolean;
+  /** Formats listed in the drop overlay */
+  formatsHint?: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Accepts a transcript or document file dropped onto the intake editor
+ */
+export function IntakeFileDropZone({
+  onFileDrop,
+  disabled = false,
+  formatsHint = 'Captions (.vtt, .srt), text (.txt, .md), Word (.docx) or CSV',
+  className = '',
+  children,
+}: IntakeFileDropZoneProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
+  // dragenter/dragleave fire for every child element; count them to know when the pointer leaves
+  const dragDepthRef = useRef(0);
+
+  const hasFiles = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  const handleDragEnter = useCallback(
+    (e: React.DragEvent) => {
+      if (disabled || !hasFiles(e)) return;
+      e.preventDefault();
+      dragDepthRef.current++;
+      setIsDragOver(true);
+    },
+    [disabled]
+  );
+
+  const handleDragOver = useCallback(
+    (e: React.DragEvent) => {
+      if (disabled || !hasFiles(e)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+    },
+    [disabled]
+  );
+
+  const handleDragLeave = useCallback(() => {
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      setIsDragOver(false);
+    }
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent) => {
+      if (disabled || !hasFiles(e)) return;
+      e.preventDefault();
+      dragDepthRef.current = 0;
+      setIsDragOver(false);
+
+      const [file] = Array.from(e.dataTransfer.files);
+      if (file) {
+        onFileDrop(file);
+      }
+    },
+    [disabled, onFileDrop]
+  );
+
+  return (
+    <div
+      className={`relative ${className}`}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+      {isDragOver && (
+        <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-2 border-2 border-dashed border-[var(--primary)] rounded-sm bg-[var(--bg)]/90 pointer-events-none">
+          <FiUpload size={24} className="text-[var(--primary)]" />
+          <span className="text-sm font-medium">Drop to import</span>
+          <span className="text-xs text-[var(--text-muted)]">{formatsHint}</span>
+        </div>
+      )}
+    </div>
+  );
+}
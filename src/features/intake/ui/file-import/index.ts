@@ -0,0 +1,2 @@
+export { IntakeFileDropZone } from './IntakeFileDropZone';
+export { IntakeFileButton } from './IntakeFileButton';
@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { useIntakeStore } from '../../model/useIntakeStore';
+import { getRedactionPlaceholders, REDACTION_CATEGORY_LABELS } from '../../lib/piiRedaction';
+import type { RedactionHit } from '../../model/types';
+import '@/shared/ui/HighlightableDocument/HighlightableDocument.css';
+
+interface RedactionReviewProps {
+  className?: string;
+}
+
+/**
+ * Shows the detected PII inline in the unredacted document
+ * Each hit toggles between its placeholder (accepted) and the original text (undone).
+ */
+export function RedactionReview({ className = '' }: RedactionReviewProps) {
+  const documentContent = useIntakeStore((state) => state.documentContent);
+  const redactionHits = useIntakeStore((state) => state.redactionHits);
+  const setRedactionHitAccepted = useIntakeStore((state) => state.setRedactionHitAccepted);
+
+  const placeholders = useMemo(() => getRedactionPlaceholders(redactionHits), [redactionHits]);
+
+  const renderedLines = useMemo(() => {
+    const lines = documentContent.split('\n');
+    const rendered: React.ReactNode[] = [];
+    let lineStart = 0;
+
+    for (let index = 0; index < lines.length; index++) {
+      const lineEnd = lineStart + lines[index].length;
+      const lineHits = redactionHits.filter((hit) => hit.start < lineEnd && hit.end > lineStart);
+      const elements: React.ReactNode[] = [];
+      let offset = lineStart;
+
+      for (const hit of lineHits) {
+        const hitStart = Math.max(hit.start, lineStart);
+        const hitEnd = Math.min(hit.end, lineEnd);
+        if (hitStart > offset) {
+          elements.push(<span key={`text-${offset}`}>{documentContent.slice(offset, hitStart)}</span>);
+        }
+        elements.push(
+          <RedactionMark
+            key={`hit-${hit.id}-${hitStart}`}
+            hit={hit}
+            text={documentContent.slice(hitStart, hitEnd)}
+            placeholder={placeholders.get(hit.id)}
+            onToggle={() => setRedactionHitAccepted(hit.id, !hit.accepted)}
+          />
+        );
+        offset = hitEnd;
+      }
+      if (offset < lineEnd) {
+        elements.push(<span key={`text-${offset}`}>{documentContent.slice(offset, lineEnd)}</span>);
+      }
+
+      rendered.push(
+        <div key={`line-${index}`} className="document-line">
+          {elements.length > 0 ? elements : '\u00A0'}
+        </div>
+      );
+      lineStart = lineEnd + 1; // +1 for the newline
+    }
+
+    return rendered;
+  }, [documentContent, redactionHits, placeholders, setRedactionHitAccepted]);
+
+  return (
+    <div className={`highlightable-document ${className}`}>
+      <div className="highlightable-document-content">{renderedLines}</div>
+    </div>
+  );
+}
+
+interface RedactionMarkProps {
+  hit: RedactionHit;
+  text: string;
+  placeholder?: string;
+  onToggle: () => void;
+}
+
+/**
+ * A PII hit that toggles between its placeholder and the original text
+ */
+export function RedactionMark({ hit, text, placeholder, onToggle }: RedactionMarkProps) {
+  const category = REDACTION_CATEGORY_LABELS[hit.category];
+
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      title={hit.accepted ? `${category}: ${hit.text} (click to undo)` : `${category} (click to redact)`}
+      className={`inline px-1 rounded-sm text-left ${
+        hit.accepted
+          ? 'bg-[var(--text)] text-[var(--bg)] font-mono text-xs'
+          : 'border-b border-dashed border-[var(--danger)]'
+      }`}
+    >
+      {hit.accepted ? placeholder : text}
+    </button>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { FiX } from 'react-icons/fi';
+import { REDACTION_CATEGORY_LABELS, REDACTION_RULE_LABELS } from '../../lib/piiRedaction';
+import type { RedactionCategory, RedactionRule, RedactionSettings } from '../../model/types';
+import {
+  DEFAULT_REDACTION_SETTINGS,
+  useTeamRedactionSettingsQuery,
+  useUpdateTeamRedactionSettings,
+} from '@/entities/team';
+import { useAuthStore } from '@/shared/auth';
+import { Modal, Button, Checkbox, HStack, Input, Select } from '@/shared/ui';
+
+const DICTIONARY_CATEGORIES: RedactionCategory[] = ['customer', 'company', 'account'];
+
+const categoryOptions = DICTIONARY_CATEGORIES.map((category) => ({
+  value: category,
+  label: REDACTION_CATEGORY_LABELS[category],
+}));
+
+interface RedactionSettingsModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Team redaction rules and the dictionary of names that are always redacted
+ * Saved on the team, so every member's intake uses the same dictionary.
+ */
+export function RedactionSettingsModal({ open, onClose }: RedactionSettingsModalProps) {
+  const teamId = useAuthStore((state) => state.selectedTeam?.teamId);
+  const { data: settings = DEFAULT_REDACTION_SETTINGS, isLoading } = useTeamRedactionSettingsQuery(teamId);
+  const updateSettings = useUpdateTeamRedactionSettings();
+
+  const [term, setTerm] = useState('');
+  const [category, setCategory] = useState<RedactionCategory>('customer');
+
+  const isDisabled = isLoading || updateSettings.isPending;
+
+  const saveSettings = (updates: Partial<RedactionSettings>) => {
+    if (!teamId) return;
+    updateSettings.mutate({ teamId, settings: { ...settings, ...updates } });
+  };
+
+  const handleToggleRule = (rule: RedactionRule) => {
+    saveSettings({ rules: { ...settings.rules, [rule]: !settings.rules[rule] } });
+  };
+
+  const handleAdd = () => {
+    const trimmed = term.trim();
+    if (!trimmed) return;
+    const exists = settings.dictionary.some((entry) => entry.term.toLowerCase() === trimmed.toLowerCase());
+    if (!exists) {
+      saveSettings({ dictionary: [...settings.dictionary, { term: trimmed, category }] });
+    }
+    setTerm('');
+  };
+
+  const handleRemove = (removedTerm: string) => {
+    saveSettings({ dictionary: settings.dictionary.filter((entry) => entry.term !== removedTerm) });
+  };
+
+  return (
+    <Modal
+      open={open}
+      onCancel={onClose}
+      title="PII Redaction"
+      width={560}
+      footer={
+        <Button variant="primary" onClick={onClose}>
+          Done
+        </Button>
+      }
+    >
+      {!teamId ? (
+        <p className="text-sm text-[var(--text-muted)]">Select a team to configure redaction.</p>
+      ) : (
+        <div className="space-y-4">
+          <Checkbox
+            label="Redact PII before content is sent for analysis"
+            checked={settings.enabled}
+            disabled={isDisabled}
+            onChange={(e) => saveSettings({ enabled: e.target.checked })}
+          />
+
+          <div>
+            <h3 className="text-xs font-semibold text-[var(--text-muted)] uppercase tracking-wide mb-2">
+              Detect
+            </h3>
+            <div className="space-y-1">
+              {(Object.keys(REDACTION_RULE_LABELS) as RedactionRule[]).map((rule) => (
+                <Checkbox
+                  key={rule}
+                  label={REDACTION_RULE_LABELS[rule]}
+                  checked={settings.rules[rule]}
+                  disabled={isDisabled || !settings.enabled}
+                  onChange={() => handleToggleRule(rule)}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-xs font-semibold text-[var(--text-muted)] uppercase tracking-wide mb-2">
+              Team Dictionary
+            </h3>
+            <p className="text-xs text-[var(--text-muted)] mb-2">
+              Customer names, companies and account IDs that are always redacted. Shared with everyone on the team.
+            </p>
+            <HStack gap="sm" align="center" className="mb-2">
+              <div className="flex-1">
+                <Input
+                  type="text"
+                  value={term}
+                  placeholder="e.g., Acme Corp"
+                  onChange={(e) => setTerm(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleAdd();
+                  }}
+                />
+              </div>
+              <div className="w-[160px]">
+                <Select
+                  value={category}
+                  onChange={(value) => setCategory(value as RedactionCategory)}
+                  options={categoryOptions}
+                />
+              </div>
+              <Button variant="default" onClick={handleAdd} disabled={isDisabled || !term.trim()}>
+                Add
+              </Button>
+            </HStack>
+            {settings.dictionary.length > 0 && (
+              <div className="border border-[var(--border)] rounded-sm divide-y divide-[var(--border)] max-h-[240px] overflow-y-auto">
+                {settings.dictionary.map((entry) => (
+                  <HStack key={entry.term} justify="between" align="center" className="px-3 py-1.5 text-sm">
+                    <span>
+                      {entry.term}
+                      <span className="text-[var(--text-muted)] ml-2">{REDACTION_CATEGORY_LABELS[entry.category]}</span>
+                    </span>
+                    <button
+                      type="button"
+                      title="Remove"
+                      disabled={isDisabled}
+                      onClick={() => handleRemove(entry.term)}
+                      className="p-1 rounded-sm text-[var(--text-muted)] hover:bg-[var(--bg-light)]"
+                    >
+                      <FiX />
+                    </button>
+                  </HStack>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,33 @@
+import { useIntakeStore } from '../../model/useIntakeStore';
+import { Button, HStack } from '@/shared/ui';
+
+interface RedactionToolbarProps {
+  onContinue: () => void;
+}
+
+/**
+ * Redaction summary shown while PII hits are reviewed
+ */
+export function RedactionToolbar({ onContinue }: RedactionToolbarProps) {
+  const redactionHits = useIntakeStore((state) => state.redactionHits);
+  const acceptAllRedactionHits = useIntakeStore((state) => state.acceptAllRedactionHits);
+
+  const acceptedCount = redactionHits.filter((hit) => hit.accepted).length;
+
+  return (
+    <HStack gap="sm" align="center">
+      <span className="text-sm text-[var(--text-muted)]">
+        {acceptedCount} of {redactionHits.length} detected items will be redacted before analysis. Click an item
+        to undo or redo it.
+      </span>
+      {acceptedCount < redactionHits.length && (
+        <Button variant="default" size="small" onClick={acceptAllRedactionHits}>
+          Redact All
+        </Button>
+      )}
+      <Button variant="primary" size="small" onClick={onContinue}>
+        Apply & Analyze
+      </Button>
+    </HStack>
+  );
+}
@@ -0,0 +1,3 @@
+export { RedactionReview, RedactionMark } from './RedactionReview';
+export { RedactionToolbar } from './RedactionToolbar';
+export { RedactionSettingsModal } from './RedactionSettingsModal';
@@ -3,6 +3,7 @@ import { SOURCE_TYPES, type SourceTypeKey } from '@/entities/source-type';
 import { useSolutionsQuery } from '@/entities/solution';
 import { useAuthStore } from '@/shared/auth';
 import { Select, Input, DatePicker } from '@/shared/ui';
+import { getSourceMetadataFromFile } from '../../lib/parseIntakeFile';
 
 const sourceTypeOptions = Object.values(SOURCE_TYPES).map((st) => ({
   value: st.key,
@@ -19,6 +20,8 @@ export function IntakeSourcePanel() {
   const setSelectedSourceType = useIntakeStore((state) => state.setSelectedSourceType);
   const setSelectedSolutionId = useIntakeStore((state) => state.setSelectedSolutionId);
   const updateSourceMetadataField = useIntakeStore((state) => state.updateSourceMetadataField);
+  const setSourceMetadata = useIntakeStore((state) => state.setSourceMetadata);
+  const importedFile = useIntakeStore((state) => state.importedFile);
 
   if (!selectedSourceType) return null;
 
@@ -30,7 +33,12 @@ export function IntakeSourcePanel() {
   ];
 
   const handleSourceTypeChange = (value: string) => {
-    setSelectedSourceType(value as SourceTypeKey);
+    const sourceType = value as SourceTypeKey;
+    setSelectedSourceType(sourceType);
+    // Refill the new type's fields from the imported file
+    if (importedFile) {
+      setSourceMetadata(getSourceMetadataFromFile(SOURCE_TYPES[sourceType], importedFile));
+    }
   };
 
   return (
@@ -39,6 +47,12 @@ export function IntakeSourcePanel() {
         Source Details
       </h3>
 
+      {importedFile && (
+        <div className="text-xs text-[var(--text-muted)] truncate" title={importedFile.fileName}>
+          Imported from {importedFile.fileName}
+        </div>
+      )}
+
       {/* Source Type */}
       <div>
         <label className="block text-xs font-medium text-[var(--primary)] mb-1">
@@ -2,12 +2,14 @@ import { useIntakeStore, useExtractionsByType } from '../../model/useIntakeStore
 import { usePersonaSimilarityCheck } from '../../lib/usePersonaSimilarityCheck';
 import { PersonaSidebarCard } from './PersonaSidebarCard';
 import { IntakeSourcePanel } from './IntakeSourcePanel';
+import { SpeakerMappingPanel } from './SpeakerMappingPanel';
 
 export function PersonaSidebar() {
   // Activate similarity checking - runs automatically when personas are extracted
   usePersonaSimilarityCheck();
 
   const documentType = useIntakeStore((state) => state.documentType);
+  const hasSpeakers = useIntakeStore((state) => state.transcriptTurns.length > 0);
   const personaExtractions = useExtractionsByType('personas');
   const personaMatches = useIntakeStore((state) => state.personaMatches);
   const checkingPersonas = useIntakeStore((state) => state.checkingPersonas);
@@ -19,6 +21,14 @@ export function PersonaSidebar() {
         {documentType && (
           <>
             <IntakeSourcePanel />
+            {(hasSpeakers || personaExtractions.length > 0) && (
+              <div className="my-4 border-t border-[var(--border)]" />
+            )}
+          </>
+        )}
+        {hasSpeakers && (
+          <>
+            <SpeakerMappingPanel />
             {personaExtractions.length > 0 && (
               <div className="my-4 border-t border-[var(--border)]" />
             )}
@@ -0,0 +1,97 @@
+import { useMemo } from 'react';
+import { useIntakeStore, useExtractionsByType } from '../../model/useIntakeStore';
+import { getTranscriptSpeakers } from '../../lib/transcriptParser';
+import { usePersonasQuery } from '@/entities/persona';
+import { useAuthStore } from '@/shared/auth';
+import { Select } from '@/shared/ui';
+import type { PersonaEntity, SpeakerAssignment } from '../../model/types';
+
+const NEW_PERSONA_VALUE = 'new';
+const INTERVIEWER_VALUE = 'interviewer';
+
+function getAssignmentValue(assignment: SpeakerAssignment | undefined): string {
+  if (!assignment) return '';
+  switch (assignment.kind) {
+    case 'interviewer':
+      return INTERVIEWER_VALUE;
+    case 'persona':
+      return `persona:${assignment.extractionId}`;
+    case 'existingPersona':
+      return `existing:${assignment.personaId}`;
+  }
+}
+
+/**
+ * Maps each transcript speaker to a persona, so quotes they said link to it on save
+ */
+export function SpeakerMappingPanel() {
+  const selectedTeam = useAuthStore((state) => state.selectedTeam);
+  const { data: existingPersonas = [], isLoading } = usePersonasQuery(selectedTeam?.teamId);
+
+  const transcriptTurns = useIntakeStore((state) => state.transcriptTurns);
+  const speakerAssignments = useIntakeStore((state) => state.speakerAssignments);
+  const setSpeakerAssignment = useIntakeStore((state) => state.setSpeakerAssignment);
+  const createSpeakerPersona = useIntakeStore((state) => state.createSpeakerPersona);
+  const personaExtractions = useExtractionsByType('personas');
+
+  const speakers = useMemo(() => getTranscriptSpeakers(transcriptTurns), [transcriptTurns]);
+
+  if (speakers.length === 0) return null;
+
+  const options = [
+    { value: '', label: 'Not mapped' },
+    { value: INTERVIEWER_VALUE, label: 'Interviewer (ignore)' },
+    { value: NEW_PERSONA_VALUE, label: 'New persona' },
+    ...personaExtractions.map((extraction) => ({
+      value: `persona:${extraction.id}`,
+      label: `Extracted: ${(extraction.entity as PersonaEntity).name}`,
+    })),
+    ...existingPersonas.map((persona) => ({
+      value: `existing:${persona.id}`,
+      label: persona.name,
+    })),
+  ];
+
+  const handleChange = (speaker: string, value: string) => {
+    if (value === NEW_PERSONA_VALUE) {
+      createSpeakerPersona(speaker);
+    } else if (value === INTERVIEWER_VALUE) {
+      setSpeakerAssignment(speaker, { kind: 'interviewer' });
+    } else if (value.startsWith('persona:')) {
+      setSpeakerAssignment(speaker, { kind: 'persona', extractionId: value.slice('persona:'.length) });
+    } else if (value.startsWith('existing:')) {
+      const personaId = value.slice('existing:'.length);
+      const persona = existingPersonas.find((p) => p.id === personaId);
+      setSpeakerAssignment(speaker, { kind: 'existingPersona', personaId, personaName: persona?.name ?? '' });
+    } else {
+      setSpeakerAssignment(speaker, null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-xs font-semibold text-[var(--text-muted)] uppercase tracking-wide">
+        Speakers
+      </h3>
+      <p className="text-xs text-[var(--text-muted)]">
+        Feedback, goals and outcomes quoted from a speaker are linked to their persona.
+      </p>
+      {speakers.map((speaker) => (
+        <div key={speaker.name}>
+          <label className="block text-xs font-medium text-[var(--primary)] mb-1">
+            {speaker.name}
+            <span className="text-[var(--text-muted)] font-normal ml-1">
+              ({speaker.turnCount} {speaker.turnCount === 1 ? 'turn' : 'turns'})
+            </span>
+          </label>
+          <Select
+            value={getAssignmentValue(speakerAssignments.get(speaker.name))}
+            onChange={(value) => handleChange(speaker.name, value)}
+            options={options}
+            disabled={isLoading}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
 export { PersonaSidebar } from './PersonaSidebar';
 export { PersonaSidebarCard } from './PersonaSidebarCard';
 export { PersonaMatchCard } from './PersonaMatchCard';
+export { SpeakerMappingPanel } from './SpeakerMappingPanel';
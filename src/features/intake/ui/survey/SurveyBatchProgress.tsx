@@ -0,0 +1,98 @@
+import { FiAlertCircle, FiCheck, FiClock } from 'react-icons/fi';
+import { useSurveyIntakeStore } from '../../model/useSurveyIntakeStore';
+import type { SurveyBatch } from '../../model/types';
+import { Button, HStack, Spinner } from '@/shared/ui';
+
+interface SurveyBatchProgressProps {
+  onPause: () => void;
+  onResume: () => void;
+  onRetryFailed: () => void;
+  onReview: () => void;
+}
+
+/**
+ * Progress of the extraction batches, with pause, resume and retry
+ */
+export function SurveyBatchProgress({ onPause, onResume, onRetryFailed, onReview }: SurveyBatchProgressProps) {
+  const batches = useSurveyIntakeStore((state) => state.batches);
+  const extractions = useSurveyIntakeStore((state) => state.extractions);
+  const isRunning = useSurveyIntakeStore((state) => state.isRunning);
+
+  const doneCount = batches.filter((batch) => batch.status === 'done').length;
+  const failedCount = batches.filter((batch) => batch.status === 'failed').length;
+  const hasPending = batches.some((batch) => batch.status === 'pending');
+  const progress = batches.length > 0 ? Math.round((doneCount / batches.length) * 100) : 0;
+
+  return (
+    <div className="flex flex-col gap-4 max-w-[960px]">
+      <div>
+        <HStack justify="between" align="center" className="mb-2">
+          <span className="text-sm font-medium">
+            {doneCount} of {batches.length} batches analyzed
+            {failedCount > 0 && <span className="text-[var(--danger)]"> · {failedCount} failed</span>}
+          </span>
+          <span className="text-sm text-[var(--text-muted)]">{extractions.length} items extracted</span>
+        </HStack>
+        <div className="h-2 rounded-full bg-[var(--bg-light)] overflow-hidden">
+          <div className="h-full bg-[var(--primary)] transition-all" style={{ width: `${progress}%` }} />
+        </div>
+      </div>
+
+      <HStack gap="sm">
+        {isRunning ? (
+          <Button variant="default" onClick={onPause}>
+            Pause
+          </Button>
+        ) : (
+          hasPending && (
+            <Button variant="primary" onClick={onResume}>
+              Resume
+            </Button>
+          )
+        )}
+        {!isRunning && failedCount > 0 && (
+          <Button variant="default" onClick={onRetryFailed}>
+            Retry Failed Batches
+          </Button>
+        )}
+        {!isRunning && extractions.length > 0 && (
+          <Button variant={hasPending || failedCount > 0 ? 'default' : 'primary'} onClick={onReview}>
+            Review Extracted Items
+          </Button>
+        )}
+      </HStack>
+
+      <div className="border border-[var(--border)] rounded-sm divide-y divide-[var(--border)]">
+        {batches.map((batch) => (
+          <BatchRow key={batch.index} batch={batch} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function BatchRow({ batch }: { batch: SurveyBatch }) {
+  const firstRow = batch.rowNumbers[0];
+  const lastRow = batch.rowNumbers[batch.rowNumbers.length - 1];
+
+  return (
+    <HStack gap="sm" align="center" className="px-3 py-2 text-sm">
+      <span className="w-5 flex justify-center">
+        {batch.status === 'running' ? (
+          <Spinner size="sm" />
+        ) : batch.status === 'done' ? (
+          <FiCheck className="text-[var(--success)]" />
+        ) : batch.status === 'failed' ? (
+          <FiAlertCircle className="text-[var(--danger)]" />
+        ) : (
+          <FiClock className="text-[var(--text-muted)]" />
+        )}
+      </span>
+      <span className="font-medium">Batch {batch.index + 1}</span>
+      <span className="text-[var(--text-muted)]">
+        Rows {firstRow}–{lastRow} ({batch.rowNumbers.length} responses)
+      </span>
+      {batch.error && <span className="text-[var(--danger)] truncate">{batch.error}</span>}
+    </HStack>
+  );
+}
@@ -0,0 +1,131 @@
+import { useMemo } from 'react';
+import { useSurveyIntakeStore } from '../../model/useSurveyIntakeStore';
+import { buildSurveyResponses, createSurveyBatches } from '../../lib/surveyResponses';
+import type { ExtractionType, SurveyColumnRole } from '../../model/types';
+import { Button, HStack, Input, InputNumber, Select } from '@/shared/ui';
+
+const COLUMN_ROLE_OPTIONS: Array<{ value: SurveyColumnRole; label: string }> = [
+  { value: 'answer', label: 'Free-text answer' },
+  { value: 'respondentId', label: 'Respondent ID' },
+  { value: 'date', label: 'Response date' },
+  { value: 'segment', label: 'Segment' },
+  { value: 'ignore', label: 'Ignore' },
+];
+
+const EXTRACTION_TYPE_OPTIONS: Array<{ key: ExtractionType; label: string }> = [
+  { key: 'personas', label: 'Personas' },
+  { key: 'userGoals', label: 'User Goals' },
+  { key: 'feedback', label: 'Feedback' },
+  { key: 'outcomes', label: 'Outcomes' },
+  { key: 'requirements', label: 'Requirements' },
+];
+
+interface SurveyColumnMapperProps {
+  onStart: () => void;
+}
+
+/**
+ * Maps the columns of a survey CSV to survey fields and configures the extraction batches
+ */
+export function SurveyColumnMapper({ onStart }: SurveyColumnMapperProps) {
+  const fileName = useSurveyIntakeStore((state) => state.fileName);
+  const surveyName = useSurveyIntakeStore((state) => state.surveyName);
+  const headers = useSurveyIntakeStore((state) => state.headers);
+  const rows = useSurveyIntakeStore((state) => state.rows);
+  const columnRoles = useSurveyIntakeStore((state) => state.columnRoles);
+  const batchSize = useSurveyIntakeStore((state) => state.batchSize);
+  const extractionTypes = useSurveyIntakeStore((state) => state.extractionTypes);
+  const setSurveyName = useSurveyIntakeStore((state) => state.setSurveyName);
+  const setColumnRole = useSurveyIntakeStore((state) => state.setColumnRole);
+  const setBatchSize = useSurveyIntakeStore((state) => state.setBatchSize);
+  const toggleExtractionType = useSurveyIntakeStore((state) => state.toggleExtractionType);
+
+  const { responseCount, batchCount } = useMemo(() => {
+    const responses = buildSurveyResponses(headers, rows, columnRoles);
+    return { responseCount: responses.length, batchCount: createSurveyBatches(responses, batchSize).length };
+  }, [headers, rows, columnRoles, batchSize]);
+
+  const getSampleValue = (column: number) =>
+    rows.map((row) => row[column]?.trim() ?? '').find((value) => value.length > 0) ?? '';
+
+  return (
+    <div className="flex flex-col gap-4 max-w-[960px]">
+      <div className="grid grid-cols-[1fr_160px] gap-4">
+        <div>
+          <label className="block text-xs font-medium text-[var(--primary)] mb-1">Survey Name</label>
+          <Input
+            type="text"
+            value={surveyName}
+            placeholder="e.g., Q4 2024 Customer Satisfaction"
+            onChange={(e) => setSurveyName(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-[var(--primary)] mb-1">Responses per Batch</label>
+          <InputNumber
+            min={1}
+            max={100}
+            value={batchSize}
+            onChange={(value) => setBatchSize(value && value > 0 ? Math.round(value) : batchSize)}
+          />
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-semibold text-[var(--text-muted)] uppercase tracking-wide mb-2">
+          Columns of {fileName}
+        </h3>
+        <div className="border border-[var(--border)] rounded-sm divide-y divide-[var(--border)]">
+          {headers.map((header, column) => (
+            <div key={column} className="grid grid-cols-[220px_1fr_200px] gap-3 items-center px-3 py-2">
+              <span className="text-sm font-medium truncate" title={header}>
+                {header || `Column ${column + 1}`}
+              </span>
+              <span className="text-sm text-[var(--text-muted)] truncate" title={getSampleValue(column)}>
+                {getSampleValue(column) || <em>empty</em>}
+              </span>
+              <Select
+                size="small"
+                value={columnRoles[column]}
+                onChange={(value) => setColumnRole(column, value as SurveyColumnRole)}
+                options={COLUMN_ROLE_OPTIONS}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <HStack gap="xs" align="center" wrap>
+        <span className="text-sm text-[var(--text-muted)]">Extract:</span>
+        {EXTRACTION_TYPE_OPTIONS.map(({ key, label }) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => toggleExtractionType(key)}
+            className={`px-2.5 py-1 text-sm rounded-full transition-colors ${
+              extractionTypes.includes(key)
+                ? 'bg-[var(--primary)] text-white'
+                : 'bg-[var(--bg)] text-[var(--text-muted)] border border-[var(--border)] hover:border-[var(--primary-light)]'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </HStack>
+
+      <HStack justify="between" align="center">
+        <span className="text-sm text-[var(--text-muted)]">
+          {responseCount} of {rows.length} rows have answers, analyzed in {batchCount}{' '}
+          {batchCount === 1 ? 'batch' : 'batches'}
+        </span>
+        <Button
+          variant="primary"
+          onClick={onStart}
+          disabled={responseCount === 0 || extractionTypes.length === 0}
+        >
+          Start Extraction
+        </Button>
+      </HStack>
+    </div>
+  );
+}
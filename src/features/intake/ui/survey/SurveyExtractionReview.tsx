@@ -0,0 +1,150 @@
+import { useMemo } from 'react';
+import { FiCheck, FiX } from 'react-icons/fi';
+import { useSurveyIntakeStore } from '../../model/useSurveyIntakeStore';
+import { getSurveyExtractionTitle } from '../../lib/aggregateSurveyExtractions';
+import type { ExtractionType, SurveyExtraction, SurveyResponse } from '../../model/types';
+import { Button, HStack, Tag } from '@/shared/ui';
+
+const TYPE_SECTIONS: Array<{ type: ExtractionType; label: string }> = [
+  { type: 'personas', label: 'Personas' },
+  { type: 'userGoals', label: 'User Goals' },
+  { type: 'feedback', label: 'Feedback' },
+  { type: 'outcomes', label: 'Outcomes' },
+  { type: 'requirements', label: 'Requirements' },
+];
+
+const MAX_LISTED_ROWS = 8;
+
+interface SurveyExtractionReviewProps {
+  onSave: () => void;
+  isSaving: boolean;
+}
+
+/**
+ * Review of the extractions aggregated across all batches
+ * Each item lists the respondents and segments its quotes came from.
+ */
+export function SurveyExtractionReview({ onSave, isSaving }: SurveyExtractionReviewProps) {
+  const extractions = useSurveyIntakeStore((state) => state.extractions);
+  const responses = useSurveyIntakeStore((state) => state.responses);
+  const setExtractionStatus = useSurveyIntakeStore((state) => state.setExtractionStatus);
+  const setAllPendingStatus = useSurveyIntakeStore((state) => state.setAllPendingStatus);
+
+  const responsesByRow = useMemo(
+    () => new Map(responses.map((response) => [response.rowNumber, response])),
+    [responses]
+  );
+  const acceptedCount = extractions.filter((extraction) => extraction.status === 'accepted').length;
+  const pendingCount = extractions.filter((extraction) => extraction.status === 'pending').length;
+
+  return (
+    <div className="flex flex-col gap-4 max-w-[960px]">
+      <HStack justify="between" align="center">
+        <span className="text-sm text-[var(--text-muted)]">
+          {acceptedCount} of {extractions.length} items accepted from {responses.length} responses
+        </span>
+        <HStack gap="sm">
+          {pendingCount > 0 && (
+            <Button variant="default" onClick={() => setAllPendingStatus('accepted')}>
+              Accept All Pending
+            </Button>
+          )}
+          <Button variant="primary" onClick={onSave} loading={isSaving} disabled={isSaving || acceptedCount === 0}>
+            Save Accepted Items
+          </Button>
+        </HStack>
+      </HStack>
+
+      {TYPE_SECTIONS.map(({ type, label }) => {
+        const items = extractions
+          .filter((extraction) => extraction.type === type)
+          // Items mentioned by the most respondents first
+          .sort((a, b) => b.rowNumbers.length - a.rowNumbers.length);
+        if (items.length === 0) return null;
+
+        return (
+          <section key={type}>
+            <h3 className="text-xs font-semibold text-[var(--text-muted)] uppercase tracking-wide mb-2">
+              {label} ({items.length})
+            </h3>
+            <div className="border border-[var(--border)] rounded-sm divide-y divide-[var(--border)]">
+              {items.map((extraction) => (
+                <ReviewItem
+                  key={extraction.id}
+                  extraction={extraction}
+                  responsesByRow={responsesByRow}
+                  onAccept={() => setExtractionStatus(extraction.id, 'accepted')}
+                  onReject={() => setExtractionStatus(extraction.id, 'rejected')}
+                />
+              ))}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+interface ReviewItemProps {
+  extraction: SurveyExtraction;
+  responsesByRow: Map<number, SurveyResponse>;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+function ReviewItem({ extraction, responsesByRow, onAccept, onReject }: ReviewItemProps) {
+  const sourceResponses = extraction.rowNumbers
+    .map((rowNumber) => responsesByRow.get(rowNumber))
+    .filter((response): response is SurveyResponse => response !== undefined);
+  const segments = [...new Set(sourceResponses.map((response) => response.segment).filter(Boolean))];
+  const [firstQuote] = extraction.entity.quotes ?? [];
+  const listedRows = extraction.rowNumbers.slice(0, MAX_LISTED_ROWS).join(', ');
+  const moreRows = extraction.rowNumbers.length - MAX_LISTED_ROWS;
+
+  return (
+    <div
+      className={`flex gap-3 px-3 py-2 ${extraction.status === 'rejected' ? 'opacity-50' : ''}`}
+    >
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium">{getSurveyExtractionTitle(extraction)}</p>
+        {firstQuote && (
+          <p className="text-sm text-[var(--text-muted)] italic line-clamp-2 mt-0.5">“{firstQuote}”</p>
+        )}
+        <HStack gap="xs" align="center" wrap className="mt-1">
+          <span className="text-xs text-[var(--text-muted)]">
+            {sourceResponses.length > 0
+              ? `${sourceResponses.length} ${sourceResponses.length === 1 ? 'respondent' : 'respondents'} · rows ${listedRows}${moreRows > 0 ? ` and ${moreRows} more` : ''}`
+              : 'Quotes not found in the responses'}
+          </span>
+          {segments.map((segment) => (
+            <Tag key={segment} color="slate">
+              {segment}
+            </Tag>
+          ))}
+        </HStack>
+      </div>
+      <HStack gap="xs" align="start">
+        <button
+          type="button"
+          onClick={onAccept}
+          title="Accept"
+          className={`p-1.5 rounded-sm ${
+            extraction.status === 'accepted' ? 'bg-[var(--primary)] text-white' : 'hover:bg-[var(--bg-light)]'
+          }`}
+        >
+          <FiCheck />
+        </button>
+        <button
+          type="button"
+          onClick={onReject}
+          title="Reject"
+          className={`p-1.5 rounded-sm ${
+            extraction.status === 'rejected' ? 'bg-[var(--danger)] text-white' : 'hover:bg-[var(--bg-light)]'
+          }`}
+        >
+          <FiX />
+        </button>
+      </HStack>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router';
+import { FiUpload } from 'react-icons/fi';
+import { toast } from 'sonner';
+import { useSurveyIntakeStore } from '../../model/useSurveyIntakeStore';
+import * as agentHub from '../../api/agentHub';
+import { useSurveyIntake } from '../../lib/useSurveyIntake';
+import { IntakeFileDropZone, IntakeFileButton } from '../file-import';
+import { SurveyColumnMapper } from './SurveyColumnMapper';
+import { SurveyRedactionReview } from './SurveyRedactionReview';
+import { SurveyBatchProgress } from './SurveyBatchProgress';
+import { SurveyExtractionReview } from './SurveyExtractionReview';
+import { Button, Spinner, HStack, PageHeader, PageContent } from '@/shared/ui';
+
+const SURVEY_FILE_ACCEPT = '.csv,text/csv';
+
+const PHASE_DESCRIPTIONS = {
+  upload: 'Import a CSV export from your survey tool',
+  mapping: 'Choose which columns hold answers, respondents, dates and segments',
+  redacting: 'Review the personal information that will be redacted before analysis',
+  extracting: 'Analyzing responses in batches',
+  reviewing: 'Review items aggregated across all responses',
+} as const;
+
+/**
+ * Bulk intake of survey responses from a CSV export
+ */
+export function SurveyIntakePage() {
+  const navigate = useNavigate();
+  const phase = useSurveyIntakeStore((state) => state.phase);
+  const responseCount = useSurveyIntakeStore((state) => state.responses.length);
+  const setPhase = useSurveyIntakeStore((state) => state.setPhase);
+  const {
+    isRestored,
+    isSaving,
+    importCsv,
+    startExtraction,
+    applyRedactionsAndExtract,
+    cancelRedaction,
+    resume,
+    pause,
+    retryFailedBatches,
+    discard,
+    save,
+  } = useSurveyIntake();
+
+  // Batches run over the hub connection, so it lives as long as the page
+  useEffect(() => {
+    agentHub.connect().catch((err) => {
+      console.error('Failed to connect to agent hub:', err);
+    });
+
+    return () => {
+      agentHub.disconnect();
+    };
+  }, []);
+
+  const handleFile = useCallback(
+    (file: File) => {
+      if (!file.name.toLowerCase().endsWith('.csv')) {
+        toast.error(`${file.name} is not a CSV file`);
+        return;
+      }
+      void importCsv(file);
+    },
+    [importCsv]
+  );
+
+  return (
+    <>
+      <PageHeader
+        title="Survey Intake"
+        actions={
+          <HStack gap="sm">
+            {phase !== 'upload' && (
+              <Button variant="default" size="small" onClick={discard}>
+                Discard Import
+              </Button>
+            )}
+            <Button variant="default" size="small" onClick={() => navigate('/discovery/intake')}>
+              Single Source Intake
+            </Button>
+          </HStack>
+        }
+      />
+      <PageContent>
+        {!isRestored ? (
+          <div className="flex justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4">
+            <p className="text-sm text-[var(--text-muted)]">
+              {PHASE_DESCRIPTIONS[phase]}
+              {phase !== 'upload' && responseCount > 0 && ` · ${responseCount} responses`}
+            </p>
+
+            {phase === 'upload' && (
+              <IntakeFileDropZone onFileDrop={handleFile} formatsHint="CSV survey export (.csv)">
+                <div className="flex flex-col items-center justify-center gap-3 py-16 border-2 border-dashed border-[var(--border)] rounded-sm max-w-[960px]">
+                  <FiUpload size={24} className="text-[var(--text-muted)]" />
+                  <span className="text-sm text-[var(--text-muted)]">
+                    Drop a CSV file here, one row per response
+                  </span>
+                  <IntakeFileButton onFileSelect={handleFile} accept={SURVEY_FILE_ACCEPT} label="Import CSV" />
+                </div>
+              </IntakeFileDropZone>
+            )}
+
+            {phase === 'mapping' && <SurveyColumnMapper onStart={startExtraction} />}
+
+            {phase === 'redacting' && (
+              <SurveyRedactionReview onBack={cancelRedaction} onContinue={applyRedactionsAndExtract} />
+            )}
+
+            {phase === 'extracting' && (
+              <SurveyBatchProgress
+                onPause={pause}
+                onResume={resume}
+                onRetryFailed={retryFailedBatches}
+                onReview={() => setPhase('reviewing')}
+              />
+            )}
+
+            {phase === 'reviewing' && <SurveyExtractionReview onSave={save} isSaving={isSaving} />}
+          </div>
+        )}
+      </PageContent>
+    </>
+  );
+}
@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { useSurveyIntakeStore } from '../../model/useSurveyIntakeStore';
+import { getRedactionPlaceholders } from '../../lib/piiRedaction';
+import type { SurveyRedactionHit } from '../../model/types';
+import { RedactionMark } from '../redaction';
+import { Button, HStack } from '@/shared/ui';
+
+interface SurveyRedactionReviewProps {
+  onBack: () => void;
+  onContinue: () => void;
+}
+
+interface RedactedField {
+  label: string;
+  text: string;
+  hits: SurveyRedactionHit[];
+}
+
+interface RedactedRow {
+  rowNumber: number;
+  fields: RedactedField[];
+}
+
+/**
+ * PII found in the survey responses, reviewed before any response is analyzed
+ * Only the fields with detected items are listed; placeholders are shared across rows.
+ */
+export function SurveyRedactionReview({ onBack, onContinue }: SurveyRedactionReviewProps) {
+  const responses = useSurveyIntakeStore((state) => state.responses);
+  const redactionHits = useSurveyIntakeStore((state) => state.redactionHits);
+  const setRedactionHitAccepted = useSurveyIntakeStore((state) => state.setRedactionHitAccepted);
+  const acceptAllRedactionHits = useSurveyIntakeStore((state) => state.acceptAllRedactionHits);
+
+  const placeholders = useMemo(() => getRedactionPlaceholders(redactionHits), [redactionHits]);
+
+  const rows = useMemo(() => {
+    const hitsByRow = new Map<number, SurveyRedactionHit[]>();
+    for (const hit of redactionHits) {
+      hitsByRow.set(hit.rowNumber, [...(hitsByRow.get(hit.rowNumber) ?? []), hit]);
+    }
+
+    const rowsWithHits: RedactedRow[] = [];
+    for (const response of responses) {
+      const rowHits = hitsByRow.get(response.rowNumber);
+      if (!rowHits) continue;
+
+      const fields: RedactedField[] = [
+        { label: 'Respondent', text: response.respondentId, hits: rowHits.filter((hit) => hit.answerIndex === null) },
+        ...response.answers.map((answer, answerIndex) => ({
+          label: answer.question,
+          text: answer.text,
+          hits: rowHits.filter((hit) => hit.answerIndex === answerIndex),
+        })),
+      ];
+      rowsWithHits.push({ rowNumber: response.rowNumber, fields: fields.filter((field) => field.hits.length > 0) });
+    }
+    return rowsWithHits;
+  }, [responses, redactionHits]);
+
+  const acceptedCount = redactionHits.filter((hit) => hit.accepted).length;
+
+  const renderField = (field: RedactedField) => {
+    const elements: React.ReactNode[] = [];
+    let offset = 0;
+    for (const hit of field.hits) {
+      if (hit.start > offset) {
+        elements.push(<span key={`text-${offset}`}>{field.text.slice(offset, hit.start)}</span>);
+      }
+      elements.push(
+        <RedactionMark
+          key={`hit-${hit.id}`}
+          hit={hit}
+          text={field.text.slice(hit.start, hit.end)}
+          placeholder={placeholders.get(hit.id)}
+          onToggle={() => setRedactionHitAccepted(hit.id, !hit.accepted)}
+        />
+      );
+      offset = hit.end;
+    }
+    if (offset < field.text.length) {
+      elements.push(<span key={`text-${offset}`}>{field.text.slice(offset)}</span>);
+    }
+    return elements;
+  };
+
+  return (
+    <div className="flex flex-col gap-4 max-w-[960px]">
+      <span className="text-sm text-[var(--text-muted)]">
+        {acceptedCount} of {redactionHits.length} detected items in {rows.length}{' '}
+        {rows.length === 1 ? 'response' : 'responses'} will be redacted before analysis. Click an item to undo or
+        redo it.
+      </span>
+
+      <div className="border border-[var(--border)] rounded-sm divide-y divide-[var(--border)] max-h-[560px] overflow-y-auto">
+        {rows.map((row) => (
+          <div key={row.rowNumber} className="px-3 py-2">
+            <div className="text-xs font-semibold text-[var(--text-muted)] mb-1">Row {row.rowNumber}</div>
+            {row.fields.map((field, index) => (
+              <div key={index} className="text-sm leading-relaxed">
+                <span className="text-[var(--text-muted)]">{field.label}: </span>
+                {renderField(field)}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <HStack justify="between" align="center">
+        <Button variant="default" onClick={onBack}>
+          Back to Columns
+        </Button>
+        <HStack gap="sm">
+          {acceptedCount < redactionHits.length && (
+            <Button variant="default" onClick={acceptAllRedactionHits}>
+              Redact All
+            </Button>
+          )}
+          <Button variant="primary" onClick={onContinue}>
+            Apply & Extract
+          </Button>
+        </HStack>
+      </HStack>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+export { SurveyIntakePage } from './SurveyIntakePage';
+export { SurveyColumnMapper } from './SurveyColumnMapper';
+export { SurveyRedactionReview } from './SurveyRedactionReview';
+export { SurveyBatchProgress } from './SurveyBatchProgress';
+export { SurveyExtractionReview } from './SurveyExtractionReview';
@@ -0,0 +1,26 @@
+/**
+ * Review Comments feature exports
+ * Threaded review comments on shapes, connectors, document text and requirements
+ */
+
+// Types
+export type { CommentDraft, CommentAuthor } from './model/types';
+
+// Store
+export { useReviewCommentsStore } from './model/useReviewCommentsStore';
+
+// Hooks and helpers
+export { useReviewComments, getCommentAuthor } from './lib/useReviewComments';
+export {
+  createShapeCommentDraft,
+  createConnectorCommentDraft,
+  createDocumentRangeCommentDraft,
+  createRequirementCommentDraft,
+} from './lib/commentDrafts';
+export { getCommentAnchorTypeLabel } from './lib/anchors';
+
+// UI Components
+export { CommentsSidebar } from './ui/CommentsSidebar';
+export { CommentThreadCard } from './ui/CommentThreadCard';
+export { CommentComposer } from './ui/CommentComposer';
+export { CommentOnSelectionButton } from './ui/CommentOnSelectionButton';
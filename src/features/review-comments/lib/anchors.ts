@@ -0,0 +1,27 @@
+import type { CommentAnchor, CommentAnchorType } from '@/entities/comment';
+
+const ANCHOR_TYPE_LABELS: Record<CommentAnchorType, string> = {
+  shape: 'Shape',
+  connector: 'Connector',
+  'document-range': 'Document',
+  requirement: 'Requirement',
+};
+
+/** Longest anchor label shown before truncating */
+const MAX_LABEL_LENGTH = 80;
+
+/**
+ * Kind of element a thread is attached to, for display
+ */
+export function getCommentAnchorTypeLabel(anchor: CommentAnchor): string {
+  return ANCHOR_TYPE_LABELS[anchor.type];
+}
+
+/**
+ * Shorten the name of a commented element to a single line
+ */
+export function toAnchorLabel(text: string | undefined, fallback: string): string {
+  const singleLine = (text ?? '').replace(/\s+/g, ' ').trim();
+  if (!singleLine) return fallback;
+  return singleLine.length > MAX_LABEL_LENGTH ? `${singleLine.slice(0, MAX_LABEL_LENGTH - 1)}…` : singleLine;
+}
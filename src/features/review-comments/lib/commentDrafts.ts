@@ -0,0 +1,69 @@
+/**
+ * Comment Drafts
+ *
+ * Build the thread drafts for each kind of commented element. The element's
+ * current name is kept with the thread so it can be listed without loading
+ * the diagram, document or requirement.
+ */
+
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import type { CommentDraft } from '../model/types';
+import { toAnchorLabel } from './anchors';
+
+interface DiagramScope {
+  solutionId: string;
+  diagramId: string;
+  designWorkId: string;
+}
+
+export function createShapeCommentDraft(scope: DiagramScope, shape: Shape): CommentDraft {
+  return {
+    solutionId: scope.solutionId,
+    designWorkId: scope.designWorkId,
+    anchor: { type: 'shape', diagramId: scope.diagramId, shapeId: shape.id },
+    anchorLabel: toAnchorLabel(shape.label, `Untitled ${shape.type.replace(/-/g, ' ')}`),
+  };
+}
+
+export function createConnectorCommentDraft(
+  scope: DiagramScope,
+  connector: Connector,
+  shapes: Shape[]
+): CommentDraft {
+  // Unlabelled connectors are named after the shapes they join
+  const sourceLabel = shapes.find((shape) => shape.id === connector.sourceShapeId)?.label;
+  const targetLabel = shapes.find((shape) => shape.id === connector.targetShapeId)?.label;
+  const endpoints = sourceLabel && targetLabel ? `${sourceLabel} → ${targetLabel}` : undefined;
+
+  return {
+    solutionId: scope.solutionId,
+    designWorkId: scope.designWorkId,
+    anchor: { type: 'connector', diagramId: scope.diagramId, connectorId: connector.id },
+    anchorLabel: toAnchorLabel(connector.label || endpoints, 'Connector'),
+  };
+}
+
+export function createDocumentRangeCommentDraft(
+  scope: { solutionId: string; designWorkId: string; documentId: string },
+  range: { start: number; end: number; quote: string }
+): CommentDraft {
+  return {
+    solutionId: scope.solutionId,
+    designWorkId: scope.designWorkId,
+    anchor: { type: 'document-range', documentId: scope.documentId, ...range },
+    anchorLabel: toAnchorLabel(range.quote, 'Document text'),
+  };
+}
+
+export function createRequirementCommentDraft(
+  solutionId: string,
+  requirement: { id: string; text: string }
+): CommentDraft {
+  return {
+    solutionId,
+    designWorkId: null,
+    anchor: { type: 'requirement', requirementId: requirement.id },
+    anchorLabel: toAnchorLabel(requirement.text, 'Requirement'),
+  };
+}
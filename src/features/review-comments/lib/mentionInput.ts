@@ -0,0 +1,53 @@
+/**
+ * Mention Input
+ *
+ * Helpers for typing "@Name" mentions in the comment composer: finding the
+ * mention being typed at the caret and replacing it with the picked member.
+ */
+
+/**
+ * Mention being typed at the caret
+ */
+export interface MentionQuery {
+  /** Text typed after "@" */
+  query: string;
+  /** Index of the "@" in the text */
+  start: number;
+}
+
+/** Longest text after "@" that is still treated as a mention being typed */
+const MAX_QUERY_LENGTH = 40;
+
+/**
+ * Find the mention being typed just before the caret, if any
+ * The "@" must start a word, and the query ends at a line break.
+ */
+export function getMentionQuery(text: string, caret: number): MentionQuery | null {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('@');
+  if (start === -1) return null;
+  if (start > 0 && /\w/.test(before[start - 1])) return null;
+
+  const query = before.slice(start + 1);
+  if (query.length > MAX_QUERY_LENGTH || query.includes('\n') || query.startsWith(' ')) return null;
+
+  return { query, start };
+}
+
+/**
+ * Replace the mention being typed with the picked member's name
+ *
+ * @returns The new text and the caret position after the inserted mention
+ */
+export function insertMention(
+  text: string,
+  mention: MentionQuery,
+  caret: number,
+  name: string
+): { text: string; caret: number } {
+  const inserted = `@${name} `;
+  return {
+    text: text.slice(0, mention.start) + inserted + text.slice(caret),
+    caret: mention.start + inserted.length,
+  };
+}
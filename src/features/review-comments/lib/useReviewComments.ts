@@ -0,0 +1,91 @@
+/**
+ * useReviewComments Hook
+ *
+ * Posting, replying to and resolving comment threads as the current user.
+ * Comments are stamped with the signed-in user, and the team members
+ * @mentioned in the body are recorded with them.
+ */
+
+import { useCallback, useMemo } from 'react';
+import {
+  findMentionedUserIds,
+  useAddComment,
+  useCreateCommentThread,
+  useUpdateCommentThreadStatus,
+  type CommentThreadStatus,
+  type CreateCommentDto,
+  type MentionableUser,
+} from '@/entities/comment';
+import { useUsersQuery } from '@/entities/user';
+import { useAuthStore } from '@/shared/auth';
+import type { CommentAuthor, CommentDraft } from '../model/types';
+
+/**
+ * Author of the comments posted by the signed-in user
+ */
+export function getCommentAuthor(): CommentAuthor {
+  const userInfo = useAuthStore.getState().userInfo;
+  return {
+    id: userInfo?.userId ?? '',
+    name: userInfo?.name || userInfo?.email || 'Unknown',
+  };
+}
+
+export function useReviewComments() {
+  const teamId = useAuthStore((state) => state.selectedTeam?.teamId);
+  const { data: users } = useUsersQuery(teamId);
+
+  const createThread = useCreateCommentThread();
+  const addComment = useAddComment();
+  const updateStatus = useUpdateCommentThreadStatus();
+
+  // Team members that can be @mentioned
+  const members: MentionableUser[] = useMemo(
+    () => (users ?? []).map((user) => ({ id: user.id, name: user.name })),
+    [users]
+  );
+
+  const toComment = useCallback(
+    (body: string): CreateCommentDto => {
+      const author = getCommentAuthor();
+      return {
+        authorId: author.id,
+        authorName: author.name,
+        body: body.trim(),
+        mentionedUserIds: findMentionedUserIds(body, members),
+      };
+    },
+    [members]
+  );
+
+  const startThread = useCallback(
+    (draft: CommentDraft, body: string) =>
+      createThread.mutateAsync({ ...draft, comment: toComment(body) }),
+    [createThread, toComment]
+  );
+
+  const reply = useCallback(
+    (threadId: string, body: string) => addComment.mutateAsync({ threadId, data: toComment(body) }),
+    [addComment, toComment]
+  );
+
+  const setStatus = useCallback(
+    (threadId: string, status: CommentThreadStatus) => {
+      const author = getCommentAuthor();
+      return updateStatus.mutateAsync({
+        threadId,
+        data: { status, userId: author.id, userName: author.name },
+      });
+    },
+    [updateStatus]
+  );
+
+  return {
+    members,
+    startThread,
+    reply,
+    setStatus,
+    isPosting: createThread.isPending || addComment.isPending,
+    isUpdatingStatus: updateStatus.isPending,
+  };
+}
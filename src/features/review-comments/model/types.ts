@@ -0,0 +1,14 @@
+import type { CreateCommentThreadDto } from '@/entities/comment';
+
+/**
+ * Thread being started in the comments sidebar, before its first comment is posted
+ */
+export type CommentDraft = Omit<CreateCommentThreadDto, 'comment'>;
+
+/**
+ * Author stamped on the comments posted by the current user
+ */
+export interface CommentAuthor {
+  id: string;
+  name: string;
+}
@@ -0,0 +1,61 @@
+import { create } from 'zustand';
+import type { CommentDraft } from './types';
+
+/**
+ * State for the comments sidebar
+ */
+interface ReviewCommentsState {
+  isOpen: boolean;
+  /** Show resolved threads along with the open ones */
+  showResolved: boolean;
+  /** Thread being started, shown at the top of the sidebar */
+  draft: CommentDraft | null;
+  /** Thread scrolled into view and highlighted */
+  focusedThreadId: string | null;
+}
+
+/**
+ * Actions for the comments sidebar
+ */
+interface ReviewCommentsActions {
+  toggleOpen: () => void;
+  setOpen: (isOpen: boolean) => void;
+  setShowResolved: (showResolved: boolean) => void;
+  /** Open the sidebar with a new thread on the given element */
+  startThread: (draft: CommentDraft) => void;
+  cancelDraft: () => void;
+  /** Open the sidebar on an existing thread */
+  focusThread: (threadId: string) => void;
+}
+
+/**
+ * Combined store type
+ */
+type ReviewCommentsStore = ReviewCommentsState & ReviewCommentsActions;
+
+/**
+ * Global Zustand store for the comments sidebar of the design studio
+ *
+ * Threads themselves are server state (entities/comment queries); this store
+ * only holds what the sidebar shows.
+ */
+export const useReviewCommentsStore = create<ReviewCommentsStore>((set) => ({
+  // State
+  isOpen: false,
+  showResolved: false,
+  draft: null,
+  focusedThreadId: null,
+
+  // Actions
+  toggleOpen: () => set((state) => ({ isOpen: !state.isOpen })),
+
+  setOpen: (isOpen: boolean) => set({ isOpen }),
+
+  setShowResolved: (showResolved: boolean) => set({ showResolved }),
+
+  startThread: (draft: CommentDraft) => set({ isOpen: true, draft, focusedThreadId: null }),
+
+  cancelDraft: () => set({ draft: null }),
+
+  focusThread: (threadId: string) => set({ isOpen: true, focusedThreadId: threadId }),
+}));
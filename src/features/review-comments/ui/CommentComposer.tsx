@@ -0,0 +1,168 @@
+/**
+ * CommentComposer - Text box for writing a comment with @mentions
+ *
+ * Typing "@" lists the team members matching what follows; picking one with
+ * the mouse, Enter or Tab inserts "@Name". Ctrl/Cmd+Enter posts the comment.
+ */
+import { useRef, useState } from 'react';
+import { Button } from '@/shared/ui';
+import type { MentionableUser } from '@/entities/comment';
+import { getMentionQuery, insertMention, type MentionQuery } from '../lib/mentionInput';
+
+interface CommentComposerProps {
+  members: MentionableUser[];
+  onSubmit: (body: string) => Promise<unknown>;
+  onCancel?: () => void;
+  placeholder?: string;
+  submitLabel?: string;
+  loading?: boolean;
+  autoFocus?: boolean;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export function CommentComposer({
+  members,
+  onSubmit,
+  onCancel,
+  placeholder = 'Add a comment… Use @ to mention a teammate',
+  submitLabel = 'Comment',
+  loading = false,
+  autoFocus = false,
+}: CommentComposerProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [body, setBody] = useState('');
+  const [mention, setMention] = useState<MentionQuery | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  const suggestions = mention
+    ? members
+        .filter((member) => member.name.toLowerCase().includes(mention.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(getMentionQuery(text, caret));
+    setHighlightedIndex(0);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setBody(e.target.value);
+    updateMention(e.target.value, e.target.selectionStart);
+  };
+
+  const pickMember = (member: MentionableUser) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+
+    const result = insertMention(body, mention, textarea.selectionStart, member.name);
+    setBody(result.text);
+    setMention(null);
+
+    // Restore the caret after React updates the value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.selectionStart = textarea.selectionEnd = result.caret;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!body.trim() || loading) return;
+    try {
+      await onSubmit(body);
+      setBody('');
+      setMention(null);
+    } catch {
+      // The mutation reports the error; keep the text so it can be posted again
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlightedIndex((index) => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pickMember(suggestions[highlightedIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        setMention(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      void handleSubmit();
+    } else if (e.key === 'Escape' && onCancel) {
+      e.stopPropagation();
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={body}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateMention(body, e.currentTarget.selectionStart)}
+          onBlur={() => setMention(null)}
+          placeholder={placeholder}
+          rows={3}
+          autoFocus={autoFocus}
+          className="w-full p-2 border border-[var(--border)] rounded bg-[var(--bg-light)] text-[var(--text)] resize-none outline-none focus:border-[var(--primary)]"
+          style={{ fontSize: 'var(--font-size-sm)', lineHeight: '1.4' }}
+        />
+
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 right-0 top-full mt-1 z-20 bg-[var(--bg-light)] border border-[var(--border)] rounded-sm [box-shadow:var(--shadow)] py-1">
+            {suggestions.map((member, index) => (
+              <button
+                key={member.id}
+                type="button"
+                // Keep the textarea focused so the caret position is still known
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pickMember(member);
+                }}
+                onMouseEnter={() => setHighlightedIndex(index)}
+                className={`block w-full text-left px-2 py-1 text-xs text-[var(--text)] ${
+                  index === highlightedIndex ? 'bg-[var(--highlight)]' : ''
+                }`}
+              >
+                @{member.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button size="small" variant="text" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          size="small"
+          variant="primary"
+          onClick={() => void handleSubmit()}
+          loading={loading}
+          disabled={!body.trim()}
+          title="Post (Ctrl/Cmd+Enter)"
+        >
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
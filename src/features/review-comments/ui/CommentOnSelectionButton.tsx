@@ -0,0 +1,64 @@
+/**
+ * CommentOnSelectionButton - Start a review thread on the selected shape or connector
+ */
+import { LuMessageSquarePlus } from 'react-icons/lu';
+import { toast } from 'sonner';
+import { Button } from '@/shared/ui';
+import { canvasInstanceRegistry } from '@/shared/model/stores/canvas/canvasInstanceRegistry';
+import { useReviewCommentsStore } from '../model/useReviewCommentsStore';
+import { createConnectorCommentDraft, createShapeCommentDraft } from '../lib/commentDrafts';
+
+interface CommentOnSelectionButtonProps {
+  solutionId: string | undefined;
+  diagramId: string;
+  designWorkId: string;
+  className?: string;
+}
+
+export function CommentOnSelectionButton({
+  solutionId,
+  diagramId,
+  designWorkId,
+  className,
+}: CommentOnSelectionButtonProps) {
+  const startThread = useReviewCommentsStore((state) => state.startThread);
+
+  const handleClick = () => {
+    if (!solutionId) return;
+
+    const { selectedShapeIds, selectedConnectorIds, localShapes, localConnectors } = canvasInstanceRegistry
+      .getStore(diagramId)
+      .getState();
+    const scope = { solutionId, diagramId, designWorkId };
+
+    if (selectedShapeIds.length === 1 && selectedConnectorIds.length === 0) {
+      const shape = localShapes.find((candidate) => candidate.id === selectedShapeIds[0]);
+      if (shape) {
+        startThread(createShapeCommentDraft(scope, shape));
+        return;
+      }
+    }
+
+    if (selectedConnectorIds.length === 1 && selectedShapeIds.length === 0) {
+      const connector = localConnectors.find((candidate) => candidate.id === selectedConnectorIds[0]);
+      if (connector) {
+        startThread(createConnectorCommentDraft(scope, connector, localShapes));
+        return;
+      }
+    }
+
+    toast.info('Select a single shape or connector to comment on');
+  };
+
+  return (
+    <Button
+      size="small"
+      variant="default"
+      icon={<LuMessageSquarePlus size={16} />}
+      onClick={handleClick}
+      disabled={!solutionId}
+      title="Comment on selection"
+      className={className}
+    />
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * CommentThreadCard - A review thread with its comments, replies and resolution
+ */
+import { useEffect, useRef, useState, type ComponentType } from 'react';
+import { LuCheck, LuFileText, LuListChecks, LuRotateCcw, LuShapes, LuSpline } from 'react-icons/lu';
+import { Avatar, Button, Tag } from '@/shared/ui';
+import { formatRelativeTime } from '@/shared/lib/utils';
+import { getPresenceColor } from '@/features/collaboration';
+import {
+  splitCommentMentions,
+  type Comment,
+  type CommentAnchorType,
+  type CommentThread,
+  type MentionableUser,
+} from '@/entities/comment';
+import { useReviewComments } from '../lib/useReviewComments';
+import { getCommentAnchorTypeLabel } from '../lib/anchors';
+import { CommentComposer } from './CommentComposer';
+
+interface CommentThreadCardProps {
+  thread: CommentThread;
+  /** Scroll the card into view and highlight it */
+  isFocused?: boolean;
+  /** Open the commented element */
+  onNavigate?: (thread: CommentThread) => void;
+}
+
+const ANCHOR_ICONS: Record<CommentAnchorType, ComponentType<{ size?: number }>> = {
+  shape: LuShapes,
+  connector: LuSpline,
+  'document-range': LuFileText,
+  requirement: LuListChecks,
+};
+
+function getInitials(name: string): string {
+  const parts = name.trim().split(' ');
+  if (parts.length > 1) {
+    return `${parts[0][0]}${parts[parts.length - 1][0]}`.toUpperCase();
+  }
+  return name.slice(0, 2).toUpperCase();
+}
+
+function CommentBody({ body, members }: { body: string; members: MentionableUser[] }) {
+  return (
+    <div className="text-xs text-[var(--text)] whitespace-pre-wrap break-words">
+      {splitCommentMentions(body, members).map((segment, index) =>
+        segment.userId ? (
+          <span key={index} className="font-medium text-[var(--primary)]">
+            {segment.text}
+          </span>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </div>
+  );
+}
+
+function CommentItem({ comment, members }: { comment: Comment; members: MentionableUser[] }) {
+  return (
+    <div className="flex gap-2">
+      <Avatar
+        size="small"
+        className="text-white shrink-0"
+        style={{ backgroundColor: getPresenceColor(comment.authorId || comment.authorName) }}
+      >
+        {getInitials(comment.authorName)}
+      </Avatar>
+      <div className="flex flex-col gap-0.5 min-w-0">
+        <div className="flex items-baseline gap-2 text-xs">
+          <span className="font-medium text-[var(--text)]">{comment.authorName}</span>
+          <span className="text-[var(--text-muted)]" title={comment.createdAt.toLocaleString()}>
+            {formatRelativeTime(comment.createdAt)}
+          </span>
+        </div>
+        <CommentBody body={comment.body} members={members} />
+      </div>
+    </div>
+  );
+}
+
+export function CommentThreadCard({ thread, isFocused = false, onNavigate }: CommentThreadCardProps) {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const [isReplying, setIsReplying] = useState(false);
+  const { members, reply, setStatus, isPosting, isUpdatingStatus } = useReviewComments();
+
+  const { anchor } = thread;
+  const AnchorIcon = ANCHOR_ICONS[anchor.type];
+  const isResolved = thread.status === 'resolved';
+
+  useEffect(() => {
+    if (isFocused) {
+      cardRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [isFocused]);
+
+  return (
+    <div
+      ref={cardRef}
+      className={`flex flex-col gap-2 p-2 rounded-sm border bg-[var(--bg-light)] ${
+        isFocused ? 'border-[var(--primary)]' : 'border-[var(--border)]'
+      } ${isResolved ? 'opacity-75' : ''}`}
+    >
+      {/* Commented element */}
+      <div className="flex items-center gap-1.5 text-xs text-[var(--text-muted)] min-w-0">
+        <AnchorIcon size={12} />
+        <button
+          type="button"
+          onClick={() => onNavigate?.(thread)}
+          disabled={!onNavigate}
+          className="truncate text-left hover:text-[var(--text)] disabled:hover:text-[var(--text-muted)]"
+          title={`${getCommentAnchorTypeLabel(anchor)}: ${thread.anchorLabel}`}
+        >
+          {thread.anchorLabel || getCommentAnchorTypeLabel(anchor)}
+        </button>
+        {isResolved && (
+          <Tag color="green" className="ml-auto shrink-0">
+            Resolved
+          </Tag>
+        )}
+      </div>
+
+      {anchor.type === 'document-range' && anchor.quote && (
+        <blockquote className="border-l-2 border-[var(--border)] pl-2 text-xs italic text-[var(--text-secondary)] line-clamp-3">
+          {anchor.quote}
+        </blockquote>
+      )}
+
+      {/* Comments */}
+      <div className="flex flex-col gap-2">
+        {thread.comments.map((comment) => (
+          <CommentItem key={comment.id} comment={comment} members={members} />
+        ))}
+      </div>
+
+      {isResolved && thread.resolvedByName && thread.resolvedAt && (
+        <div className="text-xs text-[var(--text-muted)]">
+          Resolved by {thread.resolvedByName} {formatRelativeTime(thread.resolvedAt)}
+        </div>
+      )}
+
+      {/* Actions */}
+      {isReplying ? (
+        <CommentComposer
+          members={members}
+          onSubmit={async (body) => {
+            await reply(thread.id, body);
+            setIsReplying(false);
+          }}
+          onCancel={() => setIsReplying(false)}
+          submitLabel="Reply"
+          placeholder="Reply… Use @ to mention a teammate"
+          loading={isPosting}
+          autoFocus
+        />
+      ) : (
+        <div className="flex justify-end gap-1">
+          {!isResolved && (
+            <Button size="small" variant="text" onClick={() => setIsReplying(true)}>
+              Reply
+            </Button>
+          )}
+          <Button
+            size="small"
+            variant="text"
+            icon={isResolved ? <LuRotateCcw size={12} /> : <LuCheck size={12} />}
+            onClick={() => void setStatus(thread.id, isResolved ? 'open' : 'resolved')}
+            loading={isUpdatingStatus}
+          >
+            {isResolved ? 'Reopen' : 'Resolve'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * CommentsSidebar - Review threads of a solution, grouped per design work
+ *
+ * Lists the open threads (and optionally the resolved ones) of every design
+ * work of the solution; requirement threads are listed on their own. A thread
+ * started from the canvas, a document or a requirement is composed at the top.
+ */
+import { useMemo } from 'react';
+import { LuMessagesSquare, LuX } from 'react-icons/lu';
+import { Button, Checkbox, Empty } from '@/shared/ui';
+import { useCommentThreadsBySolutionQuery, type CommentThread } from '@/entities/comment';
+import { useReviewCommentsStore } from '../model/useReviewCommentsStore';
+import { useReviewComments } from '../lib/useReviewComments';
+import { getCommentAnchorTypeLabel } from '../lib/anchors';
+import { CommentComposer } from './CommentComposer';
+import { CommentThreadCard } from './CommentThreadCard';
+
+interface CommentsSidebarProps {
+  solutionId: string;
+  /** Design works of the solution, in tree order */
+  designWorks: Array<{ id: string; name: string }>;
+  /** Open the element a thread is attached to */
+  onNavigate?: (thread: CommentThread) => void;
+}
+
+interface ThreadGroup {
+  key: string;
+  title: string;
+  threads: CommentThread[];
+}
+
+const REQUIREMENTS_GROUP_KEY = 'requirements';
+
+export function CommentsSidebar({ solutionId, designWorks, onNavigate }: CommentsSidebarProps) {
+  const { showResolved, setShowResolved, draft, cancelDraft, focusedThreadId, focusThread, setOpen } =
+    useReviewCommentsStore();
+  const { data: threads = [], isLoading } = useCommentThreadsBySolutionQuery(solutionId);
+  const { members, startThread, isPosting } = useReviewComments();
+
+  const openCount = threads.filter((thread) => thread.status === 'open').length;
+
+  // Group the visible threads by design work, in tree order, requirement threads last
+  const groups = useMemo(() => {
+    const visible = threads.filter((thread) => showResolved || thread.status === 'open');
+    const byKey = new Map<string, CommentThread[]>();
+    for (const thread of visible) {
+      const key = thread.designWorkId ?? REQUIREMENTS_GROUP_KEY;
+      byKey.set(key, [...(byKey.get(key) ?? []), thread]);
+    }
+
+    const result: ThreadGroup[] = designWorks
+      .filter((designWork) => byKey.has(designWork.id))
+      .map((designWork) => ({ key: designWork.id, title: designWork.name, threads: byKey.get(designWork.id)! }));
+
+    // Threads of design works that are no longer in the tree
+    for (const [key, groupThreads] of byKey) {
+      if (key !== REQUIREMENTS_GROUP_KEY && !designWorks.some((designWork) => designWork.id === key)) {
+        result.push({ key, title: 'Other', threads: groupThreads });
+      }
+    }
+    const requirementThreads = byKey.get(REQUIREMENTS_GROUP_KEY);
+    if (requirementThreads) {
+      result.push({ key: REQUIREMENTS_GROUP_KEY, title: 'Requirements', threads: requirementThreads });
+    }
+    return result;
+  }, [threads, designWorks, showResolved]);
+
+  const handleStartThread = async (body: string) => {
+    if (!draft) return;
+    const thread = await startThread(draft, body);
+    cancelDraft();
+    focusThread(thread.id);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-[var(--surface)]">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-[var(--border)]">
+        <LuMessagesSquare size={14} />
+        <span className="text-sm font-medium text-[var(--text)]">Comments</span>
+        <span className="text-xs text-[var(--text-muted)]">{openCount} open</span>
+        <div className="ml-auto">
+          <Button size="small" variant="text" icon={<LuX size={14} />} onClick={() => setOpen(false)} title="Close" />
+        </div>
+      </div>
+
+      <div className="px-3 py-2 border-b border-[var(--border)]">
+        <Checkbox
+          size="small"
+          label="Show resolved"
+          checked={showResolved}
+          onChange={(e) => setShowResolved(e.target.checked)}
+        />
+      </div>
+
+      <div className="flex-1 overflow-auto p-2 flex flex-col gap-3">
+        {/* New thread */}
+        {draft && (
+          <div className="flex flex-col gap-2 p-2 rounded-sm border border-[var(--primary)] bg-[var(--bg-light)]">
+            <div className="text-xs text-[var(--text-muted)] truncate" title={draft.anchorLabel}>
+              New comment on {getCommentAnchorTypeLabel(draft.anchor).toLowerCase()}:{' '}
+              <span className="text-[var(--text)]">{draft.anchorLabel}</span>
+            </div>
+            <CommentComposer
+              key={JSON.stringify(draft.anchor)}
+              members={members}
+              onSubmit={handleStartThread}
+              onCancel={cancelDraft}
+              loading={isPosting}
+              autoFocus
+            />
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-xs text-[var(--text-muted)] p-2">Loading comments...</div>
+        ) : groups.length === 0 ? (
+          !draft && (
+            <Empty
+              description={showResolved ? 'No comments yet' : 'No open comments'}
+              className="bg-[var(--surface)]"
+            />
+          )
+        ) : (
+          groups.map((group) => (
+            <div key={group.key} className="flex flex-col gap-2">
+              <div className="text-xs font-medium text-[var(--text-secondary)] uppercase tracking-wide px-1">
+                {group.title}
+                <span className="ml-1 text-[var(--text-muted)]">({group.threads.length})</span>
+              </div>
+              {group.threads.map((thread) => (
+                <CommentThreadCard
+                  key={thread.id}
+                  thread={thread}
+                  isFocused={thread.id === focusedThreadId}
+                  onNavigate={onNavigate}
+                />
+              ))}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
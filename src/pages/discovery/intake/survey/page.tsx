@@ -0,0 +1,5 @@
+import { SurveyIntakePage } from '@/features/intake';
+
+export default function Page() {
+  return <SurveyIntakePage />;
+}
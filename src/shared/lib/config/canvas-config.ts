@@ -35,6 +35,10 @@ export const CANVAS_CONFIG = {
     curveSamples: 10,
     /** Maximum number of connection point pairs to evaluate for smart selection */
     maxConnectionPointTrials: 16,
+    /** Radius of the line jumps drawn where connectors cross (pixels) */
+    lineJumpRadius: 6,
+    /** Cell size of the grid used to find connector crossings (pixels) */
+    lineJumpGridSize: 200,
   },
 
   /**
@@ -69,6 +73,22 @@ export const CANVAS_CONFIG = {
         width: 40,
         height: 40,
       },
+      pool: {
+        width: 720,
+        height: 320,
+        /** Width of the vertical header band holding the pool name */
+        headerWidth: 32,
+      },
+      lane: {
+        width: 688,
+        height: 160,
+        /** Width of the vertical header band holding the lane name */
+        headerWidth: 32,
+        /** Lanes never get shorter than this when laid out */
+        minHeight: 100,
+        /** Space kept between the lane edges and its contents */
+        padding: 24,
+      },
     },
 
     /** Class diagram element dimensions */
@@ -111,6 +131,10 @@ export const CANVAS_CONFIG = {
         width: 120,
         height: 80,
       },
+      fragment: {
+        width: 320,
+        height: 132, // Header offset + 3 message slots + bottom padding
+      },
     },
 
     /** Architecture diagram element dimensions */
@@ -126,6 +150,68 @@ export const CANVAS_CONFIG = {
       },
     },
 
+    /** Data Flow diagram element dimensions */
+    dataflow: {
+      entity: {
+        width: 140,
+        height: 70,
+      },
+      process: {
+        width: 110,
+        height: 110,
+      },
+      store: {
+        width: 160,
+        height: 60,
+      },
+      boundary: {
+        /** Minimum boundary dimensions (auto-sized based on contents) */
+        minWidth: 220,
+        minHeight: 160,
+      },
+    },
+
+    /** Interface wireframe primitive dimensions */
+    wireframe: {
+      screen: {
+        width: 360,
+        height: 640,
+      },
+      panel: {
+        width: 280,
+        height: 180,
+      },
+      navBar: {
+        width: 360,
+        height: 48,
+      },
+      input: {
+        width: 220,
+        height: 36,
+      },
+      button: {
+        width: 120,
+        height: 36,
+      },
+      table: {
+        width: 320,
+        height: 160,
+      },
+      image: {
+        width: 160,
+        height: 120,
+      },
+      text: {
+        width: 180,
+        height: 28,
+      },
+      /** Reference placeholder created on diagrams for a referenced screen */
+      interfaceLink: {
+        width: 180,
+        height: 56,
+      },
+    },
+
     /** Entity Relationship diagram element dimensions */
     entityRelationship: {
       entity: {
@@ -176,6 +262,28 @@ export const CANVAS_CONFIG = {
     },
   },
 
+  /**
+   * Data Flow Diagram Layout Configuration
+   */
+  dataflowLayout: {
+    /** Horizontal gap between top-level boundaries and flow ranks (pixels) */
+    rankSpacing: 80,
+    /** Padding inside trust boundaries around children */
+    boundaryPadding: {
+      top: 40,    // Space for boundary label
+      right: 24,
+      bottom: 24,
+      left: 24,
+    },
+    /** Vertical gap between nodes sharing a rank */
+    nodeSpacing: 40,
+    /** Starting position for layout */
+    startPosition: {
+      x: 100,
+      y: 100,
+    },
+  },
+
   /**
    * Class Diagram Layout Configuration
    */
@@ -196,6 +304,29 @@ export const CANVAS_CONFIG = {
     minHeight: 150,
   },
 
+  /**
+   * Auto-Layout Configuration (tidy up of existing diagrams)
+   */
+  autoLayout: {
+    /** Gap between neighboring shapes (pixels) */
+    nodeSpacing: 40,
+    /** Gap between layers in layered layouts (pixels) */
+    layerSpacing: 80,
+    /** Padding inside containers around laid out children */
+    containerPadding: {
+      top: 40,    // Space for container label
+      right: 24,
+      bottom: 24,
+      left: 24,
+    },
+    /** Barycenter sweeps used to reduce edge crossings in layered layouts */
+    crossingReductionPasses: 8,
+    /** Simulation steps of the force-directed layout */
+    forceIterations: 300,
+    /** Duration of the animated transition (milliseconds) */
+    animationDuration: 300,
+  },
+
   /**
    * Sequence Diagram Activation Configuration
    */
@@ -1,5 +1,5 @@
 import type { Result } from '@/shared/lib/utils';
-import type { Shape } from '@/entities/shape';
+import type { Shape, ShapeStyle } from '@/entities/shape';
 import type { Connector } from '@/entities/connector';
 
 /**
@@ -46,6 +46,30 @@ export interface MermaidExporter {
   validate(shapes: Shape[], connectors: Connector[]): Result<void>;
 }
 
+/**
+ * A styled node of an export, by its mermaid ID
+ */
+export interface MermaidStyledNode {
+  nodeId: string;
+  style: ShapeStyle | undefined;
+}
+
+/**
+ * A styled link of a flowchart export, by its position among the exported links
+ */
+export interface MermaidStyledLink {
+  index: number;
+  style: ShapeStyle | undefined;
+}
+
+const STROKE_DASHARRAY: Record<string, string> = {
+  dashed: '5 5',
+  dotted: '2 2',
+};
+
+// Values that would break the comma separated property list are dropped
+const SAFE_STYLE_VALUE = /^[#a-zA-Z0-9.]+$/;
+
 /**
  * Base abstract class for mermaid exporters with common utilities
  */
@@ -143,4 +167,85 @@ export abstract class BaseMermaidExporter implements MermaidExporter {
   protected getIndent(level: number = 1): string {
     return ' '.repeat(this.options.indent * level);
   }
+
+  /**
+   * Convert a shape or connector style to mermaid style properties
+   * (e.g., 'fill:#fee2e2,stroke:#dc2626'). Returns null if nothing is styled;
+   * text alignment has no mermaid equivalent.
+   */
+  protected getStyleProperties(style: ShapeStyle | undefined): string | null {
+    if (!style) return null;
+
+    const properties: string[] = [];
+    if (style.fill && SAFE_STYLE_VALUE.test(style.fill)) {
+      properties.push(`fill:${style.fill}`);
+    }
+    if (style.strokeColor && SAFE_STYLE_VALUE.test(style.strokeColor)) {
+      properties.push(`stroke:${style.strokeColor}`);
+    }
+    if (style.strokeWidth !== undefined) {
+      properties.push(`stroke-width:${style.strokeWidth}px`);
+    }
+    if (style.strokeDash && STROKE_DASHARRAY[style.strokeDash]) {
+      properties.push(`stroke-dasharray:${STROKE_DASHARRAY[style.strokeDash]}`);
+    }
+    if (style.fontSize !== undefined) {
+      properties.push(`font-size:${style.fontSize}px`);
+    }
+    if (style.fontWeight === 'bold') {
+      properties.push('font-weight:bold');
+    }
+    if (style.opacity !== undefined) {
+      properties.push(`opacity:${style.opacity}`);
+    }
+    return properties.length > 0 ? properties.join(',') : null;
+  }
+
+  /**
+   * Get the style statements of styled nodes
+   * Nodes sharing a style get a classDef assigned with the given class statement,
+   * a node styled on its own gets a style statement.
+   *
+   * @param assignClass - Statement assigning a class to nodes (e.g., `class A,B name`)
+   */
+  protected getNodeStyleLines(
+    nodes: MermaidStyledNode[],
+    assignClass: (nodeIds: string[], className: string) => string
+  ): string[] {
+    const nodeIdsByStyle = new Map<string, string[]>();
+    for (const node of nodes) {
+      const properties = this.getStyleProperties(node.style);
+      if (properties) {
+        nodeIdsByStyle.set(properties, [...(nodeIdsByStyle.get(properties) ?? []), node.nodeId]);
+      }
+    }
+
+    const lines: string[] = [];
+    let classCount = 0;
+    for (const [properties, nodeIds] of nodeIdsByStyle) {
+      if (nodeIds.length === 1) {
+        lines.push(`${this.getIndent()}style ${nodeIds[0]} ${properties}`);
+      } else {
+        classCount++;
+        const className = `style${classCount}`;
+        lines.push(`${this.getIndent()}classDef ${className} ${properties}`);
+        lines.push(`${this.getIndent()}${assignClass(nodeIds, className)}`);
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Get the linkStyle statements of styled flowchart links
+   */
+  protected getLinkStyleLines(links: MermaidStyledLink[]): string[] {
+    const lines: string[] = [];
+    for (const link of links) {
+      const properties = this.getStyleProperties(link.style);
+      if (properties) {
+        lines.push(`${this.getIndent()}linkStyle ${link.index} ${properties}`);
+      }
+    }
+    return lines;
+  }
 }
@@ -13,6 +13,8 @@ export type {
   MermaidExporter,
   MermaidExportOptions,
   MermaidExportResult,
+  MermaidStyledNode,
+  MermaidStyledLink,
 } from './exporter';
 export { BaseMermaidExporter } from './exporter';
 
@@ -10,6 +10,7 @@ export const STALE_TIMES = {
   documents: 2 * 60 * 1000,     // 2 min - actively edited
   interfaces: 2 * 60 * 1000,    // 2 min - actively edited
   references: 2 * 60 * 1000,    // 2 min - actively edited
+  commentThreads: 60 * 1000,    // 1 min - review discussions
   solutions: 5 * 60 * 1000,     // 5 min
   solutionFactors: 5 * 60 * 1000, // 5 min - strategy data
   userGoals: 5 * 60 * 1000,     // 5 min - discovery data
@@ -38,6 +39,7 @@ export const REFETCH_INTERVALS = {
   documents: 3 * 60 * 1000,     // 3 min - actively edited
   interfaces: 3 * 60 * 1000,    // 3 min - actively edited
   references: 3 * 60 * 1000,    // 3 min - actively edited
+  commentThreads: 60 * 1000,    // 1 min - review discussions
 } as const;
 
 /**
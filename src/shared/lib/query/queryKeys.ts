@@ -63,6 +63,7 @@ export const queryKeys = {
     all: ['teams'] as const,
     list: (organizationId: string) => [...queryKeys.teams.all, 'list', organizationId] as const,
     detail: (id: string) => [...queryKeys.teams.all, 'detail', id] as const,
+    redactionSettings: (id: string) => [...queryKeys.teams.all, 'redactionSettings', id] as const,
   },
   users: {
     all: ['users'] as const,
@@ -125,6 +126,13 @@ export const queryKeys = {
     list: (designWorkId: string) => [...queryKeys.references.all, 'list', designWorkId] as const,
     detail: (id: string) => [...queryKeys.references.all, 'detail', id] as const,
   },
+  commentThreads: {
+    all: ['commentThreads'] as const,
+    bySolution: (solutionId: string) =>
+      [...queryKeys.commentThreads.all, 'bySolution', solutionId] as const,
+    byDesignWork: (designWorkId: string) =>
+      [...queryKeys.commentThreads.all, 'byDesignWork', designWorkId] as const,
+  },
 
   // Planning
   planning: {
@@ -8,6 +8,7 @@ export { formatRelativeTime } from './formatRelativeTime';
 export { getActiveModule } from './getActiveModule';
 export type { Result } from './result';
 export { throttle } from './throttle';
+export { createIndexedDbStore, type KeyValueStore } from './indexedDbStore';
 export { calculateClassHeight, calculateEnumerationHeight, calculateEntityHeight } from './shapeHeightUtils';
 // Re-export from @tinkersaur/ui for backwards compatibility
 export { cn } from '@tinkersaur/ui';
@@ -0,0 +1,107 @@
+/**
+ * Minimal key-value store backed by IndexedDB.
+ *
+ * Values are stored with the structured clone algorithm, so Dates survive a round
+ * trip. Where IndexedDB is unavailable (server rendering, private browsing modes
+ * that block it) the store keeps values in memory for the lifetime of the page.
+ */
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | undefined>;
+  getAll(): Promise<T[]>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createMemoryStore<T>(): KeyValueStore<T> {
+  const values = new Map<string, T>();
+  return {
+    get: async (key) => values.get(key),
+    getAll: async () => Array.from(values.values()),
+    set: async (key, value) => {
+      values.set(key, value);
+    },
+    delete: async (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+/**
+ * Create a key-value store in its own IndexedDB database
+ *
+ * @param dbName - Database name (one object store per database)
+ * @param storeName - Object store name
+ */
+export function createIndexedDbStore<T>(dbName: string, storeName: string): KeyValueStore<T> {
+  if (typeof indexedDB === 'undefined') {
+    return createMemoryStore<T>();
+  }
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  let fallback: KeyValueStore<T> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      dbPromise = promisifyRequest(request);
+    }
+    return dbPromise;
+  };
+
+  const withStore = async (
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest,
+    runFallback: (store: KeyValueStore<T>) => Promise<unknown>
+  ): Promise<unknown> => {
+    if (fallback) {
+      return runFallback(fallback);
+    }
+    let db: IDBDatabase;
+    try {
+      db = await openDb();
+    } catch {
+      fallback = createMemoryStore<T>();
+      return runFallback(fallback);
+    }
+    return promisifyRequest(run(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    get: async (key) =>
+      (await withStore(
+        'readonly',
+        (store) => store.get(key),
+        (store) => store.get(key)
+      )) as T | undefined,
+    getAll: async () =>
+      (await withStore(
+        'readonly',
+        (store) => store.getAll(),
+        (store) => store.getAll()
+      )) as T[],
+    set: async (key, value) => {
+      await withStore(
+        'readwrite',
+        (store) => store.put(value, key),
+        (store) => store.set(key, value)
+      );
+    },
+    delete: async (key) => {
+      await withStore(
+        'readwrite',
+        (store) => store.delete(key),
+        (store) => store.delete(key)
+      );
+    },
+  };
+}
@@ -1,5 +1,11 @@
 import { CommandHistory } from './CommandHistory';
-import type { Command, CommandScope, CommandHistoryOptions } from './command.types';
+import type {
+  Command,
+  CommandScope,
+  CommandHistoryOptions,
+  CommandReplayKind,
+  CommandReplayListener,
+} from './command.types';
 
 /**
  * Manages multiple command histories with scope-based isolation
@@ -8,6 +14,8 @@ import type { Command, CommandScope, CommandHistoryOptions } from './command.typ
 export class CommandManager {
   private histories: Map<CommandScope, CommandHistory> = new Map();
   private readonly defaultOptions: CommandHistoryOptions;
+  private replaying: Map<CommandScope, CommandReplayKind> = new Map();
+  private replayListeners: Set<CommandReplayListener> = new Set();
 
   constructor(options: CommandHistoryOptions = {}) {
     this.defaultOptions = options;
@@ -38,7 +46,7 @@ export class CommandManager {
    */
   async undo(scope: CommandScope = 'global'): Promise<void> {
     const history = this.getHistory(scope);
-    await history.undo();
+    await this.replay(scope, 'undo', () => history.undo());
   }
 
   /**
@@ -46,7 +54,43 @@ export class CommandManager {
    */
   async redo(scope: CommandScope = 'global'): Promise<void> {
     const history = this.getHistory(scope);
-    await history.redo();
+    await this.replay(scope, 'redo', () => history.redo());
+  }
+
+  /**
+   * Run an undo/redo, marking the scope as replaying until it finishes
+   */
+  private async replay(
+    scope: CommandScope,
+    kind: CommandReplayKind,
+    run: () => Promise<void>
+  ): Promise<void> {
+    this.replaying.set(scope, kind);
+    try {
+      await run();
+    } finally {
+      this.replaying.delete(scope);
+      this.replayListeners.forEach(listener => listener(scope, kind));
+    }
+  }
+
+  /**
+   * Get the kind of replay currently running in a specific scope
+   * Lets state changes tell undo/redo apart from new edits
+   */
+  getReplayKind(scope: CommandScope = 'global'): CommandReplayKind | null {
+    return this.replaying.get(scope) ?? null;
+  }
+
+  /**
+   * Register a listener called after every undo/redo
+   * @returns Function that removes the listener
+   */
+  addReplayListener(listener: CommandReplayListener): () => void {
+    this.replayListeners.add(listener);
+    return () => {
+      this.replayListeners.delete(listener);
+    };
   }
 
   /**
@@ -38,3 +38,13 @@ export interface CommandHistoryOptions {
  * Represents a scope for command execution (e.g., a specific diagram or global)
  */
 export type CommandScope = string | 'global';
+
+/**
+ * Kind of history replay a command is running under
+ */
+export type CommandReplayKind = 'undo' | 'redo';
+
+/**
+ * Called after an undo or redo in a scope has finished
+ */
+export type CommandReplayListener = (scope: CommandScope, kind: CommandReplayKind) => void;
@@ -1,5 +1,11 @@
 // Core types and interfaces
-export type { Command, CommandScope, CommandHistoryOptions } from './command.types';
+export type {
+  Command,
+  CommandScope,
+  CommandHistoryOptions,
+  CommandReplayKind,
+  CommandReplayListener,
+} from './command.types';
 
 // Command history management
 export { CommandHistory } from './CommandHistory';
@@ -46,9 +46,15 @@ export interface CanvasInstanceState {
   // Grid snapping
   gridSnappingEnabled: boolean;
 
+  // Smart guides (snap to nearby shapes while dragging/resizing)
+  smartGuidesEnabled: boolean;
+
   // Grid display mode (ephemeral - dots vs lines)
   gridDisplayMode: 'dots' | 'lines';
 
+  // Pen mode (ephemeral - dragging on the canvas draws freehand ink annotations)
+  penModeEnabled: boolean;
+
   // Active connector type (ephemeral - for new connectors being drawn)
   activeConnectorType: string;
 
@@ -78,7 +84,9 @@ export interface CanvasInstanceState {
   setEditingEntity: (id: string, type: 'shape' | 'connector', originalLabel: string | undefined) => void;
   clearEditingEntity: () => void;
   setGridSnappingEnabled: (enabled: boolean) => void;
+  setSmartGuidesEnabled: (enabled: boolean) => void;
   setGridDisplayMode: (mode: 'dots' | 'lines') => void;
+  setPenModeEnabled: (enabled: boolean) => void;
   setActiveConnectorType: (connectorType: string) => void;
   reset: () => void;
 }
@@ -107,7 +115,9 @@ export function createCanvasInstanceStore(diagramId: string, initialConnectorTyp
     editingEntityType: null,
     editingOriginalLabel: undefined,
     gridSnappingEnabled: true,
+    smartGuidesEnabled: true,
     gridDisplayMode: 'lines',
+    penModeEnabled: false,
     activeConnectorType: initialConnectorType,
 
     // Content initialization - load from entity store
@@ -235,11 +245,22 @@ export function createCanvasInstanceStore(diagramId: string, initialConnectorTyp
         gridSnappingEnabled: enabled,
       }),
 
+    setSmartGuidesEnabled: (enabled) =>
+      set({
+        smartGuidesEnabled: enabled,
+      }),
+
     setGridDisplayMode: (mode) =>
       set({
         gridDisplayMode: mode,
       }),
 
+    // Pen mode actions
+    setPenModeEnabled: (enabled) =>
+      set({
+        penModeEnabled: enabled,
+      }),
+
     // Active connector type actions
     setActiveConnectorType: (connectorType) =>
       set({
@@ -263,7 +284,9 @@ export function createCanvasInstanceStore(diagramId: string, initialConnectorTyp
         editingEntityType: null,
         editingOriginalLabel: undefined,
         gridSnappingEnabled: true,
+        smartGuidesEnabled: true,
         gridDisplayMode: 'lines',
+        penModeEnabled: false,
         activeConnectorType: initialConnectorType,
       }),
   }));
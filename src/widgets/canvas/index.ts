@@ -7,3 +7,4 @@
 
 export { Canvas } from './ui/Canvas';
 export type { CanvasProps } from './ui/Canvas';
+export { ExportImageModal } from './ui/panels/ExportImageModal';
@@ -0,0 +1,69 @@
+/**
+ * Arrange Actions Configuration
+ * Defines the align, distribute and match-size actions for multi-selection
+ */
+
+import type { ComponentType } from 'react';
+import {
+  TbLayoutAlignLeft,
+  TbLayoutAlignCenter,
+  TbLayoutAlignRight,
+  TbLayoutAlignTop,
+  TbLayoutAlignMiddle,
+  TbLayoutAlignBottom,
+  TbLayoutDistributeHorizontal,
+  TbLayoutDistributeVertical,
+  TbArrowAutofitWidth,
+  TbArrowAutofitHeight,
+} from 'react-icons/tb';
+import type { AlignmentType, DistributionAxis, MatchSizeDimension } from '../utils/arrange';
+
+export type ArrangeOperation =
+  | { kind: 'align'; alignment: AlignmentType }
+  | { kind: 'distribute'; axis: DistributionAxis }
+  | { kind: 'match-size'; dimension: MatchSizeDimension };
+
+export interface ArrangeAction {
+  id: string;
+  name: string;
+  icon: ComponentType<{ size?: number }>;
+  operation: ArrangeOperation;
+  minShapes: number; // Minimum number of arrangeable shapes for the action to apply
+}
+
+export interface ArrangeActionGroup {
+  type: ArrangeOperation['kind'];
+  label: string;
+  actions: ArrangeAction[];
+}
+
+export const arrangeActionGroups: ArrangeActionGroup[] = [
+  {
+    type: 'align',
+    label: 'Align',
+    actions: [
+      { id: 'align-left', name: 'Align Left', icon: TbLayoutAlignLeft, operation: { kind: 'align', alignment: 'left' }, minShapes: 2 },
+      { id: 'align-center', name: 'Align Center', icon: TbLayoutAlignCenter, operation: { kind: 'align', alignment: 'center' }, minShapes: 2 },
+      { id: 'align-right', name: 'Align Right', icon: TbLayoutAlignRight, operation: { kind: 'align', alignment: 'right' }, minShapes: 2 },
+      { id: 'align-top', name: 'Align Top', icon: TbLayoutAlignTop, operation: { kind: 'align', alignment: 'top' }, minShapes: 2 },
+      { id: 'align-middle', name: 'Align Middle', icon: TbLayoutAlignMiddle, operation: { kind: 'align', alignment: 'middle' }, minShapes: 2 },
+      { id: 'align-bottom', name: 'Align Bottom', icon: TbLayoutAlignBottom, operation: { kind: 'align', alignment: 'bottom' }, minShapes: 2 },
+    ],
+  },
+  {
+    type: 'distribute',
+    label: 'Distribute',
+    actions: [
+      { id: 'distribute-horizontal', name: 'Distribute Horizontally', icon: TbLayoutDistributeHorizontal, operation: { kind: 'distribute', axis: 'horizontal' }, minShapes: 3 },
+      { id: 'distribute-vertical', name: 'Distribute Vertically', icon: TbLayoutDistributeVertical, operation: { kind: 'distribute', axis: 'vertical' }, minShapes: 3 },
+    ],
+  },
+  {
+    type: 'match-size',
+    label: 'Match Size',
+    actions: [
+      { id: 'match-width', name: 'Match Width', icon: TbArrowAutofitWidth, operation: { kind: 'match-size', dimension: 'width' }, minShapes: 2 },
+      { id: 'match-height', name: 'Match Height', icon: TbArrowAutofitHeight, operation: { kind: 'match-size', dimension: 'height' }, minShapes: 2 },
+    ],
+  },
+];
@@ -5,7 +5,9 @@
  * and shape/connector manipulation within the canvas widget.
  */
 
+export { useAutoLayout } from './useAutoLayout';
 export { useCanvasContextMenu } from './useCanvasContextMenu';
+export { useCanvasImageExport } from './useCanvasImageExport';
 export { useCanvasKeyboardHandlers } from './useCanvasKeyboardHandlers';
 export { useCanvasLabelEditing } from './useCanvasLabelEditing';
 export { useCanvasPanning } from './useCanvasPanning';
@@ -15,11 +17,15 @@ export { useConnectorDrawing } from './useConnectorDrawing';
 export { useConnectorInteraction } from './useConnectorInteraction';
 export { useConnectorTypeManager } from './useConnectorTypeManager';
 export { useContextMenuManager } from './useContextMenuManager';
+export { useFindReplace } from './useFindReplace';
 export { useInteractionState } from './useInteractionState';
 export { useKeyboardShortcuts } from './useKeyboardShortcuts';
+export { useShapeArrangement } from './useShapeArrangement';
 export { useShapeDragging } from './useShapeDragging';
 export { useShapeInteraction } from './useShapeInteraction';
 export { useShapeResizing } from './useShapeResizing';
 export { useShapeSubtypeManager } from './useShapeSubtypeManager';
+export { useStyleInspector } from './useStyleInspector';
 export { useToolHandler } from './useToolHandler';
+export { useViewportNavigation } from './useViewportNavigation';
 export { useViewportTransform } from './useViewportTransform';
@@ -0,0 +1,138 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { commandManager } from '@/shared/model/commands';
+import { toast } from '@/shared/lib/utils';
+import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
+import { useCanvasInstance } from '@/features/diagram-rendering/useCanvasInstance';
+import type { CommandFactory } from '@/features/canvas-commands/model/CommandFactory';
+import type { DiagramType } from '@/entities/diagram';
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import type { ShapeResize } from '../utils/arrange';
+import {
+  computeAutoLayout,
+  getDiagramLayoutConfig,
+  getLayoutAlgorithmsForDiagram,
+  type LayoutAlgorithm,
+} from '../utils/auto-layout';
+
+interface UseAutoLayoutProps {
+  diagramId: string;
+  diagramType: DiagramType | undefined;
+  shapes: Shape[];
+  connectors: Connector[];
+  selectedShapeIds: string[];
+  commandFactory: CommandFactory;
+}
+
+export interface UseAutoLayoutReturn {
+  /** Algorithms available for the diagram type, default first (empty if unsupported) */
+  algorithms: LayoutAlgorithm[];
+  /** Whether the layout applies to the selected shapes or the whole diagram */
+  scope: 'selection' | 'diagram';
+  /**
+   * Lay out the selection (or the whole diagram) with an algorithm
+   * Animates the shapes to their new bounds, then executes a single undoable command
+   */
+  runLayout: (algorithm: LayoutAlgorithm) => Promise<void>;
+  isLayingOut: boolean;
+}
+
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+/**
+ * Interpolate local shape bounds from their old to their new values
+ */
+function animateBounds(
+  changes: ShapeResize[],
+  updateLocalShapes: (updates: Map<string, Partial<Shape>>) => void,
+  duration: number
+): Promise<void> {
+  return new Promise((resolve) => {
+    const start = performance.now();
+
+    const step = (now: number) => {
+      const progress = easeInOutCubic(Math.min((now - start) / duration, 1));
+      const updates = new Map<string, Partial<Shape>>();
+      for (const { shapeId, fromBounds, toBounds } of changes) {
+        updates.set(shapeId, {
+          x: fromBounds.x + (toBounds.x - fromBounds.x) * progress,
+          y: fromBounds.y + (toBounds.y - fromBounds.y) * progress,
+          width: fromBounds.width + (toBounds.width - fromBounds.width) * progress,
+          height: fromBounds.height + (toBounds.height - fromBounds.height) * progress,
+        });
+      }
+      updateLocalShapes(updates);
+
+      if (progress < 1) {
+        requestAnimationFrame(step);
+      } else {
+        resolve();
+      }
+    };
+
+    requestAnimationFrame(step);
+  });
+}
+
+/**
+ * Hook to tidy up a diagram (or the selected shapes) with an automatic layout
+ */
+export function useAutoLayout({
+  diagramId,
+  diagramType,
+  shapes,
+  connectors,
+  selectedShapeIds,
+  commandFactory,
+}: UseAutoLayoutProps): UseAutoLayoutReturn {
+  const canvasInstance = useCanvasInstance(diagramId);
+  const [isLayingOut, setIsLayingOut] = useState(false);
+  const isLayingOutRef = useRef(false);
+
+  const algorithms = useMemo(() => getLayoutAlgorithmsForDiagram(diagramType), [diagramType]);
+  const scope = selectedShapeIds.length > 0 ? 'selection' : 'diagram';
+
+  const runLayout = useCallback(
+    async (algorithm: LayoutAlgorithm) => {
+      if (isLayingOutRef.current) return;
+
+      const changes = computeAutoLayout(shapes, connectors, {
+        algorithm,
+        scopeShapeIds: scope === 'selection' ? selectedShapeIds : undefined,
+        reversedConnectorTypes: getDiagramLayoutConfig(diagramType)?.reversedConnectorTypes,
+      });
+      if (changes.length === 0) return;
+
+      const { updateLocalShapes } = canvasInstance.getState();
+      isLayingOutRef.current = true;
+      setIsLayingOut(true);
+
+      try {
+        await animateBounds(changes, updateLocalShapes, CANVAS_CONFIG.autoLayout.animationDuration);
+
+        const command = commandFactory.createArrangeShapes(diagramId, `Auto layout (${algorithm.name})`, {
+          kind: 'resize',
+          updates: changes,
+        });
+        await commandManager.execute(command, diagramId);
+      } catch (error) {
+        // Put the shapes back where the persisted diagram has them
+        updateLocalShapes(
+          new Map(changes.map(({ shapeId, fromBounds }) => [shapeId, { ...fromBounds }]))
+        );
+        toast.error(`Failed to apply layout: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      } finally {
+        isLayingOutRef.current = false;
+        setIsLayingOut(false);
+      }
+    },
+    [diagramId, diagramType, shapes, connectors, selectedShapeIds, scope, commandFactory, canvasInstance]
+  );
+
+  return useMemo(
+    () => ({ algorithms, scope, runLayout, isLayingOut }),
+    [algorithms, scope, runLayout, isLayingOut]
+  );
+}
@@ -32,7 +32,7 @@ interface UseCanvasContextMenuReturn {
  *
  * Handles:
  * - Coordinate transformation from screen to canvas
- * - Diagram-type-specific menu routing (BPMN, class, sequence, architecture, entity-relationship)
+ * - Diagram-type-specific menu routing (BPMN, class, sequence, architecture, entity-relationship, dataflow, wireframe)
  * - Fallback to generic canvas context menu
  *
  * @param props - Configuration for context menu handling
@@ -71,6 +71,10 @@ export function useCanvasContextMenu({
       menuId = MENU_IDS.ARCHITECTURE_TOOLSET_POPOVER;
     } else if (diagramType === 'entity-relationship') {
       menuId = MENU_IDS.ENTITY_RELATIONSHIP_TOOLSET_POPOVER;
+    } else if (diagramType === 'dataflow') {
+      menuId = MENU_IDS.DATAFLOW_TOOLSET_POPOVER;
+    } else if (diagramType === 'wireframe') {
+      menuId = MENU_IDS.WIREFRAME_TOOLSET_POPOVER;
     }
 
     // Open the appropriate menu
@@ -0,0 +1,130 @@
+import { useCallback, useState } from 'react';
+import { useCanvasInstance } from '@/features/diagram-rendering/useCanvasInstance';
+import {
+  useOverlayVisibilityStore,
+  isOverlayElementVisible,
+} from '@/features/diagram-management';
+import type { Bounds } from '../utils/resize';
+import {
+  type ImageExportOptions,
+  CANVAS_CONTENT_ATTRIBUTE,
+  getExportContentBounds,
+  serializeCanvasToSvg,
+  rasterizeSvg,
+  downloadBlob,
+  getExportFileName,
+} from '../utils/image-export';
+
+interface UseCanvasImageExportReturn {
+  /**
+   * Export the diagram as an SVG or PNG file download
+   * Throws if the canvas is not rendered or there is nothing to export
+   */
+  exportImage: (options: ImageExportOptions, diagramName: string) => Promise<void>;
+  isExporting: boolean;
+}
+
+/**
+ * Wait for React to commit and the browser to paint
+ */
+function waitForPaint(): Promise<void> {
+  return new Promise((resolve) => {
+    requestAnimationFrame(() => requestAnimationFrame(() => resolve()));
+  });
+}
+
+/**
+ * Hook to export a rendered diagram canvas as an image
+ *
+ * Shapes compensate their borders and text for the zoom level, so the canvas is briefly
+ * rendered at zoom 1 without selection, hover or (optionally) overlays, captured, and
+ * then restored to the user's view.
+ */
+export function useCanvasImageExport(diagramId: string): UseCanvasImageExportReturn {
+  const canvasInstance = useCanvasInstance(diagramId);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportImage = useCallback(
+    async (options: ImageExportOptions, diagramName: string) => {
+      const content = document.querySelector<HTMLElement>(
+        `[${CANVAS_CONTENT_ATTRIBUTE}="${diagramId}"]`
+      );
+      const container = content?.parentElement;
+      if (!content || !container) {
+        throw new Error('Diagram canvas is not rendered');
+      }
+
+      const state = canvasInstance.getState();
+      const { visibleOverlays } = useOverlayVisibilityStore.getState();
+      const saved = {
+        zoom: state.viewportZoom,
+        panX: state.viewportPanX,
+        panY: state.viewportPanY,
+        selectedShapeIds: state.selectedShapeIds,
+        selectedConnectorIds: state.selectedConnectorIds,
+        visibleOverlays,
+      };
+
+      // Show or hide every overlay tag present in the diagram
+      const overlayTags = new Set(
+        [...state.localShapes, ...state.localConnectors]
+          .map((entity) => entity.overlayTag)
+          .filter((tag): tag is string => !!tag)
+      );
+      const exportOverlays = { ...visibleOverlays };
+      overlayTags.forEach((tag) => {
+        exportOverlays[tag] = options.includeOverlays;
+      });
+
+      const shapes = state.localShapes.filter((shape) =>
+        isOverlayElementVisible(shape.overlayTag, exportOverlays)
+      );
+      const connectors = state.localConnectors.filter((connector) =>
+        isOverlayElementVisible(connector.overlayTag, exportOverlays)
+      );
+
+      // Visible viewport in canvas coordinates (at the user's zoom)
+      const rect = container.getBoundingClientRect();
+      const bounds: Bounds | null = options.cropToContent
+        ? getExportContentBounds(shapes, connectors)
+        : {
+            x: -saved.panX / saved.zoom,
+            y: -saved.panY / saved.zoom,
+            width: rect.width / saved.zoom,
+            height: rect.height / saved.zoom,
+          };
+      if (!bounds) {
+        throw new Error('The diagram is empty');
+      }
+
+      const backgroundColor =
+        options.background === 'solid' ? getComputedStyle(container).backgroundColor : null;
+
+      setIsExporting(true);
+      try {
+        state.setViewport(1, saved.panX, saved.panY);
+        state.setSelection([], []);
+        state.setHoveredShapeId(null);
+        state.setHoveredConnectorId(null);
+        useOverlayVisibilityStore.setState({ visibleOverlays: exportOverlays });
+        await waitForPaint();
+
+        const svg = serializeCanvasToSvg(content, bounds, backgroundColor);
+        const blob =
+          options.format === 'png'
+            ? await rasterizeSvg(svg, Math.ceil(bounds.width), Math.ceil(bounds.height), options.scale)
+            : new Blob([svg], { type: 'image/svg+xml' });
+
+        downloadBlob(blob, getExportFileName(diagramName, options.format));
+      } finally {
+        state.setViewport(saved.zoom, saved.panX, saved.panY);
+        state.setSelection(saved.selectedShapeIds, saved.selectedConnectorIds);
+        useOverlayVisibilityStore.setState({ visibleOverlays: saved.visibleOverlays });
+        setIsExporting(false);
+      }
+    },
+    [diagramId, canvasInstance]
+  );
+
+  return { exportImage, isExporting };
+}
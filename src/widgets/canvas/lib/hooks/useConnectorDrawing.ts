@@ -132,6 +132,10 @@ export function useConnectorDrawing({
     const sourceConnectionPointId = drawingConnector.fromConnectionPointId.split('-').slice(5).join('-');
     const targetConnectionPointId = connectionPointId.split('-').slice(5).join('-');
 
+    // Arrows from or to an overlay shape (e.g. an annotation) belong to its overlay
+    const overlayTag =
+      shapes.get(drawingConnector.fromShapeId)?.overlayTag ?? shapes.get(toShapeId)?.overlayTag;
+
     // Create connector via command (with undo/redo support)
     await addConnector({
       type,
@@ -148,6 +152,7 @@ export function useConnectorDrawing({
       markerEnd,
       lineType,
       zIndex: 0,
+      ...(overlayTag && { overlayTag }),
     });
   };
 
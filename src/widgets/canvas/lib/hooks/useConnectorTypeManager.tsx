@@ -3,7 +3,9 @@ import type { JSX } from 'react';
 import { TbArrowRight } from 'react-icons/tb';
 import { commandManager } from '@/shared/model/commands';
 import type { CommandFactory } from '@/features/canvas-commands/model/CommandFactory';
-import type { ArrowType, Connector } from '@/entities/connector';
+import type { ArrowType, Connector, UpdateConnectorDTO } from '@/entities/connector';
+import type { Point } from '@/entities/shape';
+import { convertRoutePoints } from '@/features/diagram-rendering/shared/rendering/routeEditing';
 import {
   allBpmnConnectorTools,
   getBpmnConnectorToolByType,
@@ -25,10 +27,18 @@ import {
   allEntityRelationshipConnectorTools,
   getERConnectorToolByType,
 } from '@/features/diagram-rendering/entity-relationship/connectors';
+import {
+  allDataflowConnectorTools,
+  getDataflowConnectorToolByType,
+} from '@/features/diagram-rendering/dataflow/connectors';
+import {
+  allWireframeConnectorTools,
+  getWireframeConnectorToolByType,
+} from '@/features/diagram-rendering/wireframe/connectors';
 
 interface UseConnectorTypeManagerProps {
   diagramId: string;
-  diagramType: 'bpmn' | 'dataflow' | 'class' | 'sequence' | 'architecture' | 'entity-relationship' | undefined;
+  diagramType: 'bpmn' | 'dataflow' | 'class' | 'sequence' | 'architecture' | 'entity-relationship' | 'wireframe' | undefined;
   activeConnectorType: string;
   setActiveConnectorType: (type: string) => void;
   commandFactory: CommandFactory;
@@ -44,6 +54,11 @@ interface UseConnectorTypeManagerReturn {
   handleSourceMarkerChange: (arrowType: ArrowType, connectorId: string) => Promise<void>;
   handleTargetMarkerChange: (arrowType: ArrowType, connectorId: string) => Promise<void>;
 
+  // Route editing (handles on the selected connector and context menu)
+  handleRouteChange: (connectorId: string, points: Point[] | undefined) => Promise<void>;
+  handleRoutingStyleChange: (style: Connector['style'], connectorId: string) => Promise<void>;
+  handleResetRoute: (connectorId: string) => Promise<void>;
+
   // Computed values
   availableConnectorTools: ConnectorTool[];
   activeConnectorIcon: JSX.Element;
@@ -56,7 +71,7 @@ export function useConnectorTypeManager({
   activeConnectorType,
   setActiveConnectorType,
   commandFactory,
-  connectors: _connectors,
+  connectors,
 }: UseConnectorTypeManagerProps): UseConnectorTypeManagerReturn {
   // Note: Menu state now managed by useContextMenuManager in Canvas.tsx
 
@@ -72,6 +87,10 @@ export function useConnectorTypeManager({
       return getArchitectureConnectorToolByType(connectorType);
     } else if (diagramType === 'entity-relationship') {
       return getERConnectorToolByType(connectorType);
+    } else if (diagramType === 'dataflow') {
+      return getDataflowConnectorToolByType(connectorType);
+    } else if (diagramType === 'wireframe') {
+      return getWireframeConnectorToolByType(connectorType);
     }
     return undefined;
   }, [diagramType]);
@@ -88,6 +107,10 @@ export function useConnectorTypeManager({
       return allArchitectureConnectorTools;
     } else if (diagramType === 'entity-relationship') {
       return allEntityRelationshipConnectorTools;
+    } else if (diagramType === 'dataflow') {
+      return allDataflowConnectorTools;
+    } else if (diagramType === 'wireframe') {
+      return allWireframeConnectorTools;
     }
     return [];
   }, [diagramType]);
@@ -112,7 +135,7 @@ export function useConnectorTypeManager({
     if (!connectorId) return;
 
     // Create the update data based on the connector tool config
-    const updateData = {
+    const updateData: UpdateConnectorDTO = {
       id: connectorId,
       type: connectorTool.connectorType,
       style: connectorTool.style,
@@ -121,6 +144,13 @@ export function useConnectorTypeManager({
       lineType: connectorTool.lineType,
     };
 
+    // Keep the route where it carries over to the new routing style
+    // (sequence messages use their points for the message position)
+    const connector = connectors.find((c) => c.id === connectorId);
+    if (diagramType !== 'sequence' && connector?.points && connector.style !== connectorTool.style) {
+      updateData.points = convertRoutePoints(connector.points, connector.style, connectorTool.style);
+    }
+
     // Create and execute the command
     const command = commandFactory.createChangeConnectorType(
       diagramId,
@@ -136,7 +166,7 @@ export function useConnectorTypeManager({
       const refreshCommand = commandFactory.createRefreshSequenceActivations(diagramId);
       await commandManager.execute(refreshCommand, diagramId);
     }
-  }, [diagramId, diagramType, commandFactory]);
+  }, [diagramId, diagramType, commandFactory, connectors]);
 
   // Handle source marker change from context menu
   const handleSourceMarkerChange = useCallback(async (arrowType: ArrowType, connectorId: string) => {
@@ -174,12 +204,63 @@ export function useConnectorTypeManager({
     await commandManager.execute(command, diagramId);
   }, [diagramId, commandFactory]);
 
+  // Apply a routing change to a connector as one undoable command
+  const updateRouting = useCallback(async (
+    connectorId: string,
+    routing: Pick<Connector, 'style' | 'points'>,
+    description: string
+  ) => {
+    const connector = connectors.find((c) => c.id === connectorId);
+    if (!connector) return;
+
+    const command = commandFactory.createUpdateConnectorRouting(
+      diagramId,
+      connectorId,
+      { style: connector.style, points: connector.points },
+      routing,
+      description
+    );
+
+    await commandManager.execute(command, diagramId);
+  }, [diagramId, commandFactory, connectors]);
+
+  // Handle a route edited with the handles of the selected connector
+  const handleRouteChange = useCallback(async (connectorId: string, points: Point[] | undefined) => {
+    const connector = connectors.find((c) => c.id === connectorId);
+    if (!connector) return;
+
+    await updateRouting(connectorId, { style: connector.style, points }, 'Edit connector route');
+  }, [connectors, updateRouting]);
+
+  // Handle routing style change from context menu (keeps the connector type)
+  const handleRoutingStyleChange = useCallback(async (style: Connector['style'], connectorId: string) => {
+    const connector = connectors.find((c) => c.id === connectorId);
+    if (!connector || connector.style === style) return;
+
+    await updateRouting(
+      connectorId,
+      { style, points: convertRoutePoints(connector.points, connector.style, style) },
+      `Change connector routing to ${style}`
+    );
+  }, [connectors, updateRouting]);
+
+  // Handle "reset to auto route" from context menu
+  const handleResetRoute = useCallback(async (connectorId: string) => {
+    const connector = connectors.find((c) => c.id === connectorId);
+    if (!connector) return;
+
+    await updateRouting(connectorId, { style: connector.style, points: undefined }, 'Reset connector route');
+  }, [connectors, updateRouting]);
+
   return {
     // Handlers (menu state managed by useContextMenuManager)
     handleConnectorSelect,
     handleConnectorTypeChange,
     handleSourceMarkerChange,
     handleTargetMarkerChange,
+    handleRouteChange,
+    handleRoutingStyleChange,
+    handleResetRoute,
 
     // Computed values
     availableConnectorTools,
@@ -20,7 +20,11 @@ export const MENU_IDS = {
   SEQUENCE_TOOLSET_POPOVER: 'sequence-toolset-popover',
   ARCHITECTURE_TOOLSET_POPOVER: 'architecture-toolset-popover',
   ENTITY_RELATIONSHIP_TOOLSET_POPOVER: 'entity-relationship-toolset-popover',
+  DATAFLOW_TOOLSET_POPOVER: 'dataflow-toolset-popover',
+  WIREFRAME_TOOLSET_POPOVER: 'wireframe-toolset-popover',
   CONNECTOR_TOOLBAR_POPOVER: 'connector-toolbar-popover',
+  ARRANGE_TOOLBAR_POPOVER: 'arrange-toolbar-popover',
+  AUTO_LAYOUT_TOOLBAR_POPOVER: 'auto-layout-toolbar-popover',
   CONNECTOR_CONTEXT_MENU: 'connector-context-menu',
   SHAPE_CONTEXT_MENU: 'shape-context-menu',
 } as const;
@@ -54,6 +58,8 @@ export interface UseContextMenuManagerReturn {
   // Specialized openers
   openCanvasContextMenu: (screenX: number, screenY: number, canvasX: number, canvasY: number) => void;
   openConnectorToolbarPopover: (buttonRef?: RefObject<HTMLElement>) => void;
+  openArrangeToolbarPopover: (buttonRef?: RefObject<HTMLElement>) => void;
+  openAutoLayoutToolbarPopover: (buttonRef?: RefObject<HTMLElement>) => void;
   openConnectorContextMenu: (connectorId: string, screenX: number, screenY: number) => void;
   openShapeContextMenu: (shapeId: string, screenX: number, screenY: number) => void;
   openToolsetPopoverWithConnector: (
@@ -66,6 +72,25 @@ export interface UseContextMenuManagerReturn {
   ) => void;
 }
 
+/**
+ * Screen position for a toolbar popover: above the button center,
+ * or near the bottom center of the window if no button is given
+ */
+function getToolbarPopoverPosition(buttonRef?: RefObject<HTMLElement>): { x: number; y: number } {
+  let x = window.innerWidth / 2;
+  let y = window.innerHeight - 100;
+
+  // If button ref is provided, position relative to button center
+  if (buttonRef?.current) {
+    const rect = buttonRef.current.getBoundingClientRect();
+    x = rect.left + rect.width / 2;
+    // Position above the button instead of below (subtract spacing from top)
+    y = rect.top - 10;
+  }
+
+  return { x, y };
+}
+
 /**
  * Unified hook for managing all context menus and popovers in the canvas.
  *
@@ -74,6 +99,8 @@ export interface UseContextMenuManagerReturn {
  * - BPMN toolset popover
  * - Class toolset popover
  * - Connector toolbar popover
+ * - Arrange toolbar popover
+ * - Auto-layout toolbar popover
  * - Connector context menu
  *
  * Features:
@@ -134,20 +161,31 @@ export function useContextMenuManager(): UseContextMenuManagerReturn {
   // Specialized opener for connector toolbar popover
   const openConnectorToolbarPopover = useCallback(
     (buttonRef?: RefObject<HTMLElement>) => {
-      let x = window.innerWidth / 2;
-      let y = window.innerHeight - 100;
+      openMenu({
+        id: MENU_IDS.CONNECTOR_TOOLBAR_POPOVER,
+        screenPosition: getToolbarPopoverPosition(buttonRef),
+      });
+    },
+    [openMenu]
+  );
 
-      // If button ref is provided, position relative to button center
-      if (buttonRef?.current) {
-        const rect = buttonRef.current.getBoundingClientRect();
-        x = rect.left + rect.width / 2;
-        // Position above the button instead of below (subtract spacing from top)
-        y = rect.top - 10;
-      }
+  // Specialized opener for arrange (align/distribute/match size) toolbar popover
+  const openArrangeToolbarPopover = useCallback(
+    (buttonRef?: RefObject<HTMLElement>) => {
+      openMenu({
+        id: MENU_IDS.ARRANGE_TOOLBAR_POPOVER,
+        screenPosition: getToolbarPopoverPosition(buttonRef),
+      });
+    },
+    [openMenu]
+  );
 
+  // Specialized opener for auto-layout toolbar popover
+  const openAutoLayoutToolbarPopover = useCallback(
+    (buttonRef?: RefObject<HTMLElement>) => {
       openMenu({
-        id: MENU_IDS.CONNECTOR_TOOLBAR_POPOVER,
-        screenPosition: { x, y },
+        id: MENU_IDS.AUTO_LAYOUT_TOOLBAR_POPOVER,
+        screenPosition: getToolbarPopoverPosition(buttonRef),
       });
     },
     [openMenu]
@@ -208,6 +246,8 @@ export function useContextMenuManager(): UseContextMenuManagerReturn {
     getMenuConfig,
     openCanvasContextMenu,
     openConnectorToolbarPopover,
+    openArrangeToolbarPopover,
+    openAutoLayoutToolbarPopover,
     openConnectorContextMenu,
     openShapeContextMenu,
     openToolsetPopoverWithConnector,
@@ -0,0 +1,225 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { RefObject } from 'react';
+import { commandManager } from '@/shared/model/commands';
+import { toast } from '@/shared/lib/utils';
+import { useCanvasInstance } from '@/features/diagram-rendering/useCanvasInstance';
+import type { CommandFactory } from '@/features/canvas-commands/model/CommandFactory';
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import type { ViewportTransform } from '../utils/viewport';
+import {
+  createTextReplacements,
+  findTextMatches,
+  getSearchableTextFields,
+  type FindOptions,
+  type TextMatch,
+} from '../utils/find-replace';
+
+interface UseFindReplaceProps {
+  diagramId: string;
+  containerRef: RefObject<HTMLDivElement | null>;
+  viewportTransform: ViewportTransform;
+  shapes: Shape[];
+  connectors: Connector[];
+  commandFactory: CommandFactory;
+}
+
+export interface UseFindReplaceReturn {
+  isOpen: boolean;
+  open: () => void;
+  close: () => void;
+  query: string;
+  setQuery: (query: string) => void;
+  replacement: string;
+  setReplacement: (replacement: string) => void;
+  options: FindOptions;
+  toggleOption: (option: keyof FindOptions) => void;
+  matches: TextMatch[];
+  /** Index of the current match (-1 without matches) */
+  activeIndex: number;
+  /** Shapes holding at least one match, for highlighting */
+  matchedShapeIds: Set<string>;
+  goToNext: () => void;
+  goToPrevious: () => void;
+  /** Replace the current match and keep the cursor on the following one */
+  replace: () => Promise<void>;
+  /** Replace every match as a single undoable command */
+  replaceAll: () => Promise<void>;
+}
+
+const DEFAULT_OPTIONS: FindOptions = { matchCase: false, wholeWord: false };
+
+/**
+ * Hook for searching text on the canvas and replacing it
+ * Searches shape and connector labels, class attributes/methods, enumeration literals
+ * and entity attribute names. Moving between matches selects the matched shape or
+ * connector and pans it into the center of the canvas.
+ */
+export function useFindReplace({
+  diagramId,
+  containerRef,
+  viewportTransform,
+  shapes,
+  connectors,
+  commandFactory,
+}: UseFindReplaceProps): UseFindReplaceReturn {
+  const canvasInstance = useCanvasInstance(diagramId);
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQueryState] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<FindOptions>(DEFAULT_OPTIONS);
+  const [cursor, setCursor] = useState(0);
+
+  const fields = useMemo(() => getSearchableTextFields(shapes, connectors), [shapes, connectors]);
+  const matches = useMemo(
+    () => (isOpen ? findTextMatches(fields, query, options) : []),
+    [isOpen, fields, query, options]
+  );
+
+  // Replacing shrinks the match list, so the cursor is clamped rather than reset
+  const activeIndex = matches.length === 0 ? -1 : Math.min(cursor, matches.length - 1);
+
+  const matchedShapeIds = useMemo(
+    () =>
+      new Set(
+        matches
+          .filter((match) => match.field.kind !== 'connector-label')
+          .map((match) => match.field.entityId)
+      ),
+    [matches]
+  );
+
+  /**
+   * Select the matched shape/connector and center it in the canvas
+   */
+  const reveal = useCallback(
+    (match: TextMatch | undefined) => {
+      if (!match) return;
+      const { entityId, kind, focusBounds } = match.field;
+      const { setSelection } = canvasInstance.getState();
+      if (kind === 'connector-label') {
+        setSelection([], [entityId]);
+      } else {
+        setSelection([entityId], []);
+      }
+
+      const container = containerRef.current;
+      if (!container) return;
+      const { zoom } = viewportTransform.viewport;
+      viewportTransform.setViewport(
+        zoom,
+        container.clientWidth / 2 - (focusBounds.x + focusBounds.width / 2) * zoom,
+        container.clientHeight / 2 - (focusBounds.y + focusBounds.height / 2) * zoom
+      );
+    },
+    [canvasInstance, containerRef, viewportTransform]
+  );
+
+  const goTo = useCallback(
+    (index: number) => {
+      if (matches.length === 0) return;
+      const wrapped = (index + matches.length) % matches.length;
+      setCursor(wrapped);
+      reveal(matches[wrapped]);
+    },
+    [matches, reveal]
+  );
+
+  const goToNext = useCallback(() => goTo(activeIndex + 1), [goTo, activeIndex]);
+  const goToPrevious = useCallback(() => goTo(activeIndex - 1), [goTo, activeIndex]);
+
+  // Jump to the first match while typing
+  const setQuery = useCallback(
+    (newQuery: string) => {
+      setQueryState(newQuery);
+      setCursor(0);
+      reveal(findTextMatches(fields, newQuery, options)[0]);
+    },
+    [fields, options, reveal]
+  );
+
+  const toggleOption = useCallback((option: keyof FindOptions) => {
+    setOptions((current) => ({ ...current, [option]: !current[option] }));
+    setCursor(0);
+  }, []);
+
+  const open = useCallback(() => setIsOpen(true), []);
+  const close = useCallback(() => setIsOpen(false), []);
+
+  const applyReplacements = useCallback(
+    async (targets: TextMatch[]): Promise<boolean> => {
+      const replacements = createTextReplacements(targets, replacement, shapes);
+      if (replacements.length === 0) return false;
+
+      const description =
+        targets.length === 1
+          ? `Replace "${query}" with "${replacement}"`
+          : `Replace ${targets.length} occurrences of "${query}" with "${replacement}"`;
+
+      // Several members of one shape may change in a row, so read shapes from the store
+      const getShape = (shapeId: string) =>
+        canvasInstance.getState().localShapes.find((shape) => shape.id === shapeId);
+
+      try {
+        const command = commandFactory.createReplaceText(diagramId, description, replacements, getShape);
+        await commandManager.execute(command, diagramId);
+        return true;
+      } catch (error) {
+        toast.error(`Failed to replace text: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return false;
+      }
+    },
+    [diagramId, query, replacement, shapes, commandFactory, canvasInstance]
+  );
+
+  const replace = useCallback(async () => {
+    const match = matches[activeIndex];
+    if (!match) return;
+    await applyReplacements([match]);
+  }, [matches, activeIndex, applyReplacements]);
+
+  const replaceAll = useCallback(async () => {
+    if (matches.length === 0) return;
+    if (await applyReplacements(matches)) {
+      toast.success(`Replaced ${matches.length} occurrence${matches.length === 1 ? '' : 's'}`);
+    }
+  }, [matches, applyReplacements]);
+
+  return useMemo(
+    () => ({
+      isOpen,
+      open,
+      close,
+      query,
+      setQuery,
+      replacement,
+      setReplacement,
+      options,
+      toggleOption,
+      matches,
+      activeIndex,
+      matchedShapeIds,
+      goToNext,
+      goToPrevious,
+      replace,
+      replaceAll,
+    }),
+    [
+      isOpen,
+      open,
+      close,
+      query,
+      setQuery,
+      replacement,
+      options,
+      toggleOption,
+      matches,
+      activeIndex,
+      matchedShapeIds,
+      goToNext,
+      goToPrevious,
+      replace,
+      replaceAll,
+    ]
+  );
+}
@@ -12,6 +12,31 @@ interface UseKeyboardShortcutsOptions {
    * @default true
    */
   enabled?: boolean;
+
+  /**
+   * Called on Cmd/Ctrl + D to duplicate the current selection
+   */
+  onDuplicate?: () => void;
+
+  /**
+   * Called on Shift + 1 to fit the diagram into the canvas
+   */
+  onZoomToFit?: () => void;
+
+  /**
+   * Called on Shift + 2 to fit the selection into the canvas
+   */
+  onZoomToSelection?: () => void;
+
+  /**
+   * Called on Cmd/Ctrl + 0 to zoom to 100% (also suppresses the browser zoom reset)
+   */
+  onZoomTo100?: () => void;
+
+  /**
+   * Called on Cmd/Ctrl + F to open find-and-replace (also suppresses the browser search)
+   */
+  onFind?: () => void;
 }
 
 /**
@@ -33,13 +58,25 @@ function isInputField(element: Element | null): boolean {
 }
 
 /**
- * Hook to handle keyboard shortcuts for undo/redo
+ * Hook to handle keyboard shortcuts for undo/redo, duplicate, zoom and find
  * Provides platform-aware shortcuts:
- * - Mac: Cmd+Z (undo), Cmd+Shift+Z (redo)
- * - Windows/Linux: Ctrl+Z (undo), Ctrl+Shift+Z or Ctrl+Y (redo)
+ * - Mac: Cmd+Z (undo), Cmd+Shift+Z (redo), Cmd+D (duplicate), Cmd+0 (zoom to 100%), Cmd+F (find)
+ * - Windows/Linux: Ctrl+Z (undo), Ctrl+Shift+Z or Ctrl+Y (redo), Ctrl+D (duplicate), Ctrl+0 (zoom to 100%),
+ *   Ctrl+F (find)
+ * - All platforms: Shift+1 (zoom to fit), Shift+2 (zoom to selection)
+ *
+ * Copy, cut and paste use the native clipboard events (see useCanvasClipboard).
  */
 export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {}) {
-  const { scope = 'global', enabled = true } = options;
+  const {
+    scope = 'global',
+    enabled = true,
+    onDuplicate,
+    onZoomToFit,
+    onZoomToSelection,
+    onZoomTo100,
+    onFind,
+  } = options;
   const { undo, redo, canUndo, canRedo } = useCommandStore();
 
   useEffect(() => {
@@ -56,6 +93,20 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
       // Get the appropriate modifier key based on platform
       const modifierKey = isMac ? event.metaKey : event.ctrlKey;
 
+      // Zoom to fit/selection: Shift + 1/2 (matched by code since Shift changes the key)
+      if (event.shiftKey && !modifierKey && !event.altKey) {
+        if (event.code === 'Digit1' && onZoomToFit) {
+          event.preventDefault();
+          onZoomToFit();
+          return;
+        }
+        if (event.code === 'Digit2' && onZoomToSelection) {
+          event.preventDefault();
+          onZoomToSelection();
+          return;
+        }
+      }
+
       // Prevent shortcuts if the wrong modifier is used
       if (!modifierKey) {
         return;
@@ -89,6 +140,27 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
         }
         return;
       }
+
+      // Duplicate: Cmd/Ctrl + D (also suppresses the browser bookmark shortcut)
+      if (key === 'd' && !event.shiftKey && onDuplicate) {
+        event.preventDefault();
+        onDuplicate();
+        return;
+      }
+
+      // Zoom to 100%: Cmd/Ctrl + 0
+      if (key === '0' && !event.shiftKey && onZoomTo100) {
+        event.preventDefault();
+        onZoomTo100();
+        return;
+      }
+
+      // Find and replace: Cmd/Ctrl + F
+      if (key === 'f' && !event.shiftKey && onFind) {
+        event.preventDefault();
+        onFind();
+        return;
+      }
     };
 
     // Add event listener
@@ -98,5 +170,5 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [scope, enabled, undo, redo, canUndo, canRedo]);
+  }, [scope, enabled, undo, redo, canUndo, canRedo, onDuplicate, onZoomToFit, onZoomToSelection, onZoomTo100, onFind]);
 }
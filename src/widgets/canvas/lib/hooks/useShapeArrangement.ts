@@ -0,0 +1,92 @@
+import { useCallback, useMemo } from 'react';
+import { commandManager, type Command } from '@/shared/model/commands';
+import type { CommandFactory } from '@/features/canvas-commands/model/CommandFactory';
+import type { Shape } from '@/entities/shape';
+import type { ArrangeAction } from '../config/arrange-actions';
+import {
+  getArrangeableShapes,
+  computeAlignMoves,
+  computeDistributeMoves,
+  computeMatchSizeUpdates,
+} from '../utils/arrange';
+
+interface UseShapeArrangementProps {
+  diagramId: string;
+  shapes: Shape[];
+  selectedShapeIds: string[];
+  commandFactory: CommandFactory;
+}
+
+interface UseShapeArrangementReturn {
+  /**
+   * Number of selected shapes that take part in an arrangement
+   * (shapes inside a selected container follow the container)
+   */
+  arrangeableShapeCount: number;
+
+  /**
+   * Check if an action applies to the current selection
+   */
+  isActionEnabled: (action: ArrangeAction) => boolean;
+
+  /**
+   * Align, distribute or match the size of the selected shapes
+   * Executes a single undoable command; does nothing if no shape would change
+   */
+  handleArrange: (action: ArrangeAction) => Promise<void>;
+}
+
+/**
+ * Hook to arrange the selected shapes from the toolbar and shape context menu
+ */
+export function useShapeArrangement({
+  diagramId,
+  shapes,
+  selectedShapeIds,
+  commandFactory,
+}: UseShapeArrangementProps): UseShapeArrangementReturn {
+  const arrangeableShapes = useMemo(
+    () => getArrangeableShapes(shapes, selectedShapeIds),
+    [shapes, selectedShapeIds]
+  );
+
+  const isActionEnabled = useCallback(
+    (action: ArrangeAction) => arrangeableShapes.length >= action.minShapes,
+    [arrangeableShapes]
+  );
+
+  const handleArrange = useCallback(
+    async (action: ArrangeAction) => {
+      if (!isActionEnabled(action)) return;
+
+      const { operation } = action;
+      let command: Command;
+
+      if (operation.kind === 'match-size') {
+        // The first selected shape is the reference size
+        const updates = computeMatchSizeUpdates(arrangeableShapes, operation.dimension, arrangeableShapes[0]);
+        if (updates.length === 0) return;
+        command = commandFactory.createArrangeShapes(diagramId, action.name, { kind: 'resize', updates });
+      } else {
+        const moves =
+          operation.kind === 'align'
+            ? computeAlignMoves(arrangeableShapes, operation.alignment)
+            : computeDistributeMoves(arrangeableShapes, operation.axis);
+        if (moves.length === 0) return;
+        command = commandFactory.createArrangeShapes(diagramId, action.name, { kind: 'move', moves });
+      }
+
+      await commandManager.execute(command, diagramId);
+    },
+    [diagramId, arrangeableShapes, commandFactory, isActionEnabled]
+  );
+
+  return useMemo(
+    () => ({
+      arrangeableShapeCount: arrangeableShapes.length,
+      isActionEnabled,
+      handleArrange,
+    }),
+    [arrangeableShapes.length, isActionEnabled, handleArrange]
+  );
+}
@@ -2,19 +2,29 @@ import { useRef, useCallback, useEffect, useMemo } from 'react';
 import type { Shape } from '@/entities/shape';
 import type { ViewportTransform } from '../utils/viewport';
 import { snapToGrid } from '../utils/canvas';
+import type { Bounds } from '../utils/resize';
+import type { SpatialIndex } from '../utils/spatial-index';
+import {
+  buildSnapIndex,
+  computeSmartSnap,
+  getCombinedBounds,
+  type SnapGuide,
+} from '../utils/smart-guides';
 import type { DragData } from './useInteractionState';
 import {
   findContainerAtPosition,
-  getAllDescendantIds,
+  getContainmentChanges,
+  getShapeWithDescendants,
 } from '../utils/containment-utils';
 import { throttle } from '@/shared/lib/utils';
+import { applySwimlaneLayout } from '@/features/diagram-rendering/bpmn/postProcessing';
 
 interface UseShapeDraggingProps {
   viewportTransform: ViewportTransform;
   gridSnappingEnabled: boolean;
+  smartGuidesEnabled: boolean;
   localShapes: Shape[];
   updateLocalShapes: (updates: Map<string, Partial<Shape>>) => void;
-  updateShapes?: (shapeUpdates: Array<{ shapeId: string; updates: Partial<Shape> }>) => Promise<void>;
   shapes: Shape[];
   isActive: boolean; // Driven by state machine
   dragData: DragData | null; // From state machine
@@ -22,6 +32,7 @@ interface UseShapeDraggingProps {
   commandFactory: import('@/features/canvas-commands/model/CommandFactory').CommandFactory;
   executeCommand: (command: import('@/features/canvas-commands/model/command.types').Command) => Promise<void>;
   setHoveredContainerId?: (id: string | null) => void; // For visual feedback
+  setSnapGuides?: (guides: SnapGuide[]) => void; // Smart guides to display
 }
 
 interface UseShapeDraggingReturn {
@@ -34,13 +45,15 @@ interface UseShapeDraggingReturn {
  * Hook for managing shape dragging interactions
  * State is managed externally by the interaction state machine
  * Handles parent-child containment relationships on drop
+ * Re-fits BPMN pools and lanes after the drop
+ * Snaps the dragged shapes to nearby shapes when smart guides are enabled
  */
 export function useShapeDragging({
   viewportTransform,
   gridSnappingEnabled,
+  smartGuidesEnabled,
   localShapes,
   updateLocalShapes,
-  updateShapes,
   shapes,
   isActive,
   dragData,
@@ -48,11 +61,28 @@ export function useShapeDragging({
   commandFactory,
   executeCommand,
   setHoveredContainerId,
+  setSnapGuides,
 }: UseShapeDraggingProps): UseShapeDraggingReturn {
   const shapesStartPositionsRef = useRef<Map<string, { x: number; y: number }>>(new Map());
   const rafIdRef = useRef<number | null>(null);
   const pendingUpdatesRef = useRef<Map<string, Partial<Shape>> | null>(null);
 
+  // Smart guides: index of the other shapes and combined bounds of the dragged ones at drag start
+  const snapIndexRef = useRef<SpatialIndex | null>(null);
+  const dragStartBoundsRef = useRef<Bounds | null>(null);
+  const pendingGuidesRef = useRef<SnapGuide[]>([]);
+  const hasGuidesRef = useRef(false);
+
+  // Only push guides to React state when they change from/to something visible
+  const applySnapGuides = useCallback(
+    (guides: SnapGuide[]) => {
+      if (!setSnapGuides || (guides.length === 0 && !hasGuidesRef.current)) return;
+      hasGuidesRef.current = guides.length > 0;
+      setSnapGuides(guides);
+    },
+    [setSnapGuides]
+  );
+
   // Throttle containment detection to 30fps (33ms) - this is expensive and only for visual feedback
   const throttledContainerDetection = useMemo(
     () =>
@@ -75,22 +105,30 @@ export function useShapeDragging({
     (canvasX: number, canvasY: number, shapesToDrag: string[]): DragData => {
       // Prepare for dragging: store original positions of shapes to drag
       const positionsMap = new Map<string, { x: number; y: number }>();
+      const draggedBounds: Bounds[] = [];
 
       shapes.forEach((shape) => {
         if (shapesToDrag.includes(shape.id)) {
           positionsMap.set(shape.id, { x: shape.x, y: shape.y });
+          draggedBounds.push({ x: shape.x, y: shape.y, width: shape.width, height: shape.height });
         }
       });
 
       shapesStartPositionsRef.current = positionsMap;
 
+      // Index the remaining shapes once so each mouse move only looks at nearby candidates
+      if (smartGuidesEnabled) {
+        snapIndexRef.current = buildSnapIndex(shapes, new Set(shapesToDrag));
+        dragStartBoundsRef.current = getCombinedBounds(draggedBounds);
+      }
+
       return {
         startCanvasPos: { x: canvasX, y: canvasY },
         shapesStartPositions: positionsMap,
         delta: null,
       };
     },
-    [shapes]
+    [shapes, smartGuidesEnabled]
   );
 
   const updateDragging = useCallback(
@@ -112,13 +150,37 @@ export function useShapeDragging({
       const updates = new Map<string, Partial<Shape>>();
       const draggedShapeIds = Array.from(shapesStartPositionsRef.current.keys());
 
+      // Snap the combined bounds of the dragged shapes to nearby edges, centers and spacing
+      let snapOffsetX: number | null = null;
+      let snapOffsetY: number | null = null;
+      let guides: SnapGuide[] = [];
+      const startBounds = dragStartBoundsRef.current;
+
+      if (smartGuidesEnabled && snapIndexRef.current && startBounds) {
+        const snap = computeSmartSnap(
+          { ...startBounds, x: startBounds.x + deltaX, y: startBounds.y + deltaY },
+          snapIndexRef.current,
+          { zoom: viewportTransform.viewport.zoom }
+        );
+        snapOffsetX = snap.offsetX;
+        snapOffsetY = snap.offsetY;
+        guides = snap.guides;
+      }
+
       shapesStartPositionsRef.current.forEach((startPos, shapeId) => {
         let newX = startPos.x + deltaX;
         let newY = startPos.y + deltaY;
 
-        // Apply grid snapping if enabled
-        if (gridSnappingEnabled) {
+        // Smart guide snapping takes precedence over grid snapping on the axis it snapped
+        if (snapOffsetX !== null) {
+          newX += snapOffsetX;
+        } else if (gridSnappingEnabled) {
           newX = snapToGrid(newX);
+        }
+
+        if (snapOffsetY !== null) {
+          newY += snapOffsetY;
+        } else if (gridSnappingEnabled) {
           newY = snapToGrid(newY);
         }
 
@@ -145,10 +207,12 @@ export function useShapeDragging({
               y: updatedPosition.y ?? currentShape.y,
             };
 
-            // Build exclusion set: shape itself and descendants (not ancestors - we need to detect current parent)
-            const excludeIds = new Set<string>([primaryShapeId]);
-            const descendants = getAllDescendantIds(primaryShapeId, localShapes);
-            descendants.forEach(id => excludeIds.add(id));
+            // Build exclusion set: all dragged shapes and their descendants
+            // (not ancestors - we need to detect the current parent)
+            const excludeIds = new Set<string>();
+            draggedShapeIds.forEach(id => {
+              getShapeWithDescendants(id, localShapes).forEach(descendantId => excludeIds.add(descendantId));
+            });
 
             // Use throttled detection for visual feedback
             throttledContainerDetection(tempShape, localShapes, excludeIds, setHoveredContainerId);
@@ -158,6 +222,7 @@ export function useShapeDragging({
 
       // Store pending updates
       pendingUpdatesRef.current = updates;
+      pendingGuidesRef.current = guides;
 
       // Cancel any pending RAF
       if (rafIdRef.current !== null) {
@@ -170,13 +235,14 @@ export function useShapeDragging({
           updateLocalShapes(pendingUpdatesRef.current);
           pendingUpdatesRef.current = null;
         }
+        applySnapGuides(pendingGuidesRef.current);
         rafIdRef.current = null;
       });
 
       // Return delta for state machine
       return { x: deltaX, y: deltaY };
     },
-    [isActive, dragData, viewportTransform, gridSnappingEnabled, updateLocalShapes, localShapes, setHoveredContainerId, throttledContainerDetection]
+    [isActive, dragData, viewportTransform, gridSnappingEnabled, smartGuidesEnabled, updateLocalShapes, localShapes, setHoveredContainerId, throttledContainerDetection, applySnapGuides]
   );
 
   const finishDragging = useCallback(async () => {
@@ -188,6 +254,11 @@ export function useShapeDragging({
       setHoveredContainerId(null);
     }
 
+    // Hide smart guides
+    applySnapGuides([]);
+    snapIndexRef.current = null;
+    dragStartBoundsRef.current = null;
+
     // Cancel any pending RAF and flush final update
     if (rafIdRef.current !== null) {
       cancelAnimationFrame(rafIdRef.current);
@@ -200,59 +271,40 @@ export function useShapeDragging({
       pendingUpdatesRef.current = null;
     }
 
-    // Create composite command for undo/redo if there was any drag
-    if (dragData?.delta && (dragData.delta.x !== 0 || dragData.delta.y !== 0) && updateShapes) {
-      // Batch all shape updates into a single composite command
+    // Create a single command for undo/redo if there was any drag
+    if (dragData?.delta && (dragData.delta.x !== 0 || dragData.delta.y !== 0)) {
       // Use the actual positions from localShapes (which may have been snapped)
-      const shapeUpdates = Array.from(shapesStartPositionsRef.current.entries()).map(
+      const moves = Array.from(shapesStartPositionsRef.current.entries()).map(
         ([shapeId, startPos]) => {
           const currentShape = localShapes.find(s => s.id === shapeId);
           return {
             shapeId,
-            updates: {
+            fromPosition: startPos,
+            toPosition: {
               x: currentShape?.x ?? startPos.x + dragData.delta!.x,
               y: currentShape?.y ?? startPos.y + dragData.delta!.y,
             },
           };
         }
       );
-      await updateShapes(shapeUpdates);
 
-      // After position update, handle parent-child relationships
-      // Only check the first dragged shape (primary shape)
-      const draggedShapeIds = Array.from(shapesStartPositionsRef.current.keys());
-      if (draggedShapeIds.length > 0) {
-        const primaryShapeId = draggedShapeIds[0];
-        const currentShape = localShapes.find(s => s.id === primaryShapeId);
-
-        if (currentShape) {
-          // Build exclusion set: shape itself and descendants (not ancestors - we need to detect current parent)
-          const excludeIds = new Set<string>([primaryShapeId]);
-          const descendants = getAllDescendantIds(primaryShapeId, localShapes);
-          descendants.forEach(id => excludeIds.add(id));
-
-          // Find which container (if any) the shape should belong to
-          const newContainer = findContainerAtPosition(currentShape, localShapes, excludeIds);
-          const newParentId = newContainer?.id;
-
-          // Only update if parent relationship changed
-          if (newParentId !== currentShape.parentId) {
-            // Import command for side effects (ensures command is registered)
-            await import('@/features/canvas-commands/commands/shapes/UpdateParentChildCommand');
-            const command = commandFactory.createUpdateParentChildCommand(
-              diagramId,
-              primaryShapeId,
-              newParentId
-            );
-            await executeCommand(command);
-          }
-        }
-      }
+      // Dropped shapes are adopted by the container they land in, or released
+      // when dragged out of their container
+      const parentChanges = getContainmentChanges(
+        moves.map(move => move.shapeId),
+        localShapes
+      );
+
+      const command = commandFactory.createDropShapes(diagramId, moves, parentChanges);
+      await executeCommand(command);
+
+      // Re-fit BPMN pools and lanes to the moved shapes (restacks dragged lanes)
+      await applySwimlaneLayout(diagramId, commandFactory);
     }
 
     // Clear internal refs
     shapesStartPositionsRef.current.clear();
-  }, [dragData, updateShapes, localShapes, updateLocalShapes, setHoveredContainerId, diagramId, commandFactory, executeCommand, throttledContainerDetection]);
+  }, [dragData, localShapes, updateLocalShapes, setHoveredContainerId, diagramId, commandFactory, executeCommand, throttledContainerDetection, applySnapGuides]);
 
   // Cleanup RAF and throttled functions on unmount
   useEffect(() => {
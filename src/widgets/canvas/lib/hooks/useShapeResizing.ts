@@ -9,10 +9,19 @@ import {
   isCornerHandle,
   determineDominantAxis,
 } from '../utils/resize';
+import type { SpatialIndex } from '../utils/spatial-index';
+import {
+  buildSnapIndex,
+  computeSmartSnap,
+  type SnapAnchor,
+  type SnapGuide,
+} from '../utils/smart-guides';
+import { applySwimlaneLayout } from '@/features/diagram-rendering/bpmn/postProcessing';
 
 interface UseShapeResizingProps {
   viewportTransform: ViewportTransform;
   gridSnappingEnabled: boolean;
+  smartGuidesEnabled: boolean;
   localShapes: Shape[];
   updateLocalShapes: (updates: Map<string, Partial<Shape>>) => void;
   updateShapes?: (
@@ -26,6 +35,7 @@ interface UseShapeResizingProps {
   executeCommand: (
     command: import('@/features/canvas-commands/model/command.types').Command
   ) => Promise<void>;
+  setSnapGuides?: (guides: SnapGuide[]) => void; // Smart guides to display
 }
 
 interface UseShapeResizingReturn {
@@ -43,13 +53,33 @@ interface UseShapeResizingReturn {
   finishResizing: () => void;
 }
 
+/**
+ * Get the anchors of the edges moved by a resize handle
+ * Corner handles keep the aspect ratio, so only the edge on the locked axis can snap.
+ */
+function getResizeSnapAnchors(
+  handle: ResizeHandle,
+  lockedAxis: DominantAxis
+): { anchorsX: SnapAnchor[]; anchorsY: SnapAnchor[] } {
+  const corner = isCornerHandle(handle);
+  const snapX = !corner || lockedAxis === 'x';
+  const snapY = !corner || lockedAxis === 'y';
+
+  return {
+    anchorsX: snapX && handle.includes('e') ? ['end'] : snapX && handle.includes('w') ? ['start'] : [],
+    anchorsY: snapY && handle.includes('s') ? ['end'] : snapY && handle.includes('n') ? ['start'] : [],
+  };
+}
+
 /**
  * Hook for managing shape resizing interactions
  * State is managed externally by the interaction state machine
+ * Snaps the moving edge to nearby shapes when smart guides are enabled
  */
 export function useShapeResizing({
   viewportTransform,
   gridSnappingEnabled,
+  smartGuidesEnabled,
   localShapes,
   updateLocalShapes,
   updateShapes,
@@ -59,11 +89,27 @@ export function useShapeResizing({
   diagramId,
   commandFactory,
   executeCommand,
+  setSnapGuides,
 }: UseShapeResizingProps): UseShapeResizingReturn {
   const originalBoundsRef = useRef<Map<string, Bounds>>(new Map());
   const rafIdRef = useRef<number | null>(null);
   const pendingUpdatesRef = useRef<Map<string, Partial<Shape>> | null>(null);
 
+  // Smart guides: index of the shapes not being resized, built at resize start
+  const snapIndexRef = useRef<SpatialIndex | null>(null);
+  const pendingGuidesRef = useRef<SnapGuide[]>([]);
+  const hasGuidesRef = useRef(false);
+
+  // Only push guides to React state when they change from/to something visible
+  const applySnapGuides = useCallback(
+    (guides: SnapGuide[]) => {
+      if (!setSnapGuides || (guides.length === 0 && !hasGuidesRef.current)) return;
+      hasGuidesRef.current = guides.length > 0;
+      setSnapGuides(guides);
+    },
+    [setSnapGuides]
+  );
+
   const startResizing = useCallback(
     (
       canvasX: number,
@@ -99,6 +145,10 @@ export function useShapeResizing({
 
       originalBoundsRef.current = boundsMap;
 
+      if (smartGuidesEnabled) {
+        snapIndexRef.current = buildSnapIndex(shapes, new Set(shapesToResize));
+      }
+
       return {
         handle,
         startCanvasPos: { x: canvasX, y: canvasY },
@@ -109,7 +159,7 @@ export function useShapeResizing({
         dominantAxis: null, // Will be locked on first significant movement
       };
     },
-    [shapes]
+    [shapes, smartGuidesEnabled]
   );
 
   // Ref to track the locked dominant axis (persists across renders during resize)
@@ -128,8 +178,8 @@ export function useShapeResizing({
         viewportTransform.screenToCanvas(screenX, screenY);
 
       // Calculate delta in canvas space
-      const deltaX = currentCanvasX - resizeData.startCanvasPos.x;
-      const deltaY = currentCanvasY - resizeData.startCanvasPos.y;
+      let deltaX = currentCanvasX - resizeData.startCanvasPos.x;
+      let deltaY = currentCanvasY - resizeData.startCanvasPos.y;
 
       // For corner handles with aspect ratio, lock the dominant axis on first significant movement
       // This prevents discontinuous jumps when the axis switches mid-resize
@@ -145,6 +195,41 @@ export function useShapeResizing({
         }
       }
 
+      // Snap the moving edge of the primary (first) shape to nearby shapes
+      // The snap offset is folded into the delta so every resized shape follows it
+      let guides: SnapGuide[] = [];
+      let smartSnapped = false;
+      const primary = resizeData.shapesOriginalBounds.entries().next().value;
+
+      if (smartGuidesEnabled && snapIndexRef.current && primary) {
+        const [primaryId, primaryBounds] = primary;
+        const { anchorsX, anchorsY } = getResizeSnapAnchors(resizeData.handle, currentDominantAxis);
+
+        if (anchorsX.length > 0 || anchorsY.length > 0) {
+          const unsnappedBounds = calculateResizeBounds(
+            primaryBounds,
+            resizeData.handle,
+            deltaX,
+            deltaY,
+            resizeData.childrenBounds.get(primaryId) ?? null,
+            false,
+            resizeData.aspectRatios.get(primaryId),
+            currentDominantAxis
+          );
+          const snap = computeSmartSnap(unsnappedBounds, snapIndexRef.current, {
+            zoom: viewportTransform.viewport.zoom,
+            anchorsX,
+            anchorsY,
+            includeSpacing: false,
+          });
+
+          deltaX += snap.offsetX ?? 0;
+          deltaY += snap.offsetY ?? 0;
+          smartSnapped = snap.offsetX !== null || snap.offsetY !== null;
+          guides = snap.guides;
+        }
+      }
+
       // Build batch update map for performance
       const updates = new Map<string, Partial<Shape>>();
 
@@ -158,7 +243,7 @@ export function useShapeResizing({
           deltaX,
           deltaY,
           childrenBounds,
-          gridSnappingEnabled,
+          gridSnappingEnabled && !smartSnapped, // Smart guide snapping takes precedence
           aspectRatio,
           currentDominantAxis
         );
@@ -173,6 +258,7 @@ export function useShapeResizing({
 
       // Store pending updates
       pendingUpdatesRef.current = updates;
+      pendingGuidesRef.current = guides;
 
       // Cancel any pending RAF
       if (rafIdRef.current !== null) {
@@ -185,13 +271,14 @@ export function useShapeResizing({
           updateLocalShapes(pendingUpdatesRef.current);
           pendingUpdatesRef.current = null;
         }
+        applySnapGuides(pendingGuidesRef.current);
         rafIdRef.current = null;
       });
 
       // Return delta for state machine
       return { x: deltaX, y: deltaY };
     },
-    [isActive, resizeData, viewportTransform, gridSnappingEnabled, updateLocalShapes]
+    [isActive, resizeData, viewportTransform, gridSnappingEnabled, smartGuidesEnabled, updateLocalShapes, applySnapGuides]
   );
 
   const finishResizing = useCallback(async () => {
@@ -207,6 +294,10 @@ export function useShapeResizing({
       pendingUpdatesRef.current = null;
     }
 
+    // Hide smart guides
+    applySnapGuides([]);
+    snapIndexRef.current = null;
+
     // Create command for undo/redo if there was any resize
     if (
       resizeData?.delta &&
@@ -248,6 +339,9 @@ export function useShapeResizing({
         await import('@/features/canvas-commands/commands/shapes/ResizeShapesCommand');
         const command = commandFactory.createResizeShapes(diagramId, shapeUpdates);
         await executeCommand(command);
+
+        // Resizing a pool or lane resizes the pool and its other lanes with it
+        await applySwimlaneLayout(diagramId, commandFactory, shapeUpdates[0].shapeId);
       }
     }
 
@@ -262,6 +356,7 @@ export function useShapeResizing({
     diagramId,
     commandFactory,
     executeCommand,
+    applySnapGuides,
   ]);
 
   // Cleanup RAF on unmount
@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { commandManager } from '@/shared/model/commands';
+import { toast } from '@/shared/lib/utils';
+import { useDiagramStore } from '@/entities/diagram/store/useDiagramStore';
+import type { CommandFactory } from '@/features/canvas-commands/model/CommandFactory';
+import type { StyleChange } from '@/features/canvas-commands/commands/styles/UpdateStylesCommand';
+import type { Diagram, StylePreset } from '@/entities/diagram';
+import type { Shape, ShapeStyle } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import {
+  createConnectorStyleChange,
+  createShapeStyleChange,
+  createStyleChanges,
+  getCommonStyle,
+  getConnectorStyle,
+  getShapeStyle,
+  normalizeStyle,
+} from '../utils/element-styles';
+
+interface UseStyleInspectorProps {
+  diagramId: string;
+  diagram: Diagram | undefined;
+  shapes: Shape[];
+  connectors: Connector[];
+  selectedShapeIds: string[];
+  selectedConnectorIds: string[];
+  commandFactory: CommandFactory;
+}
+
+export interface UseStyleInspectorReturn {
+  isOpen: boolean;
+  toggle: () => void;
+  close: () => void;
+  selectedShapeCount: number;
+  selectedConnectorCount: number;
+  /** Style values shared by the whole selection (differing properties are unset) */
+  selectionStyle: ShapeStyle;
+  /** Set style properties of the selection; undefined values reset them to the default */
+  updateStyle: (updates: ShapeStyle) => Promise<void>;
+  /** Remove all style overrides of the selection (connectors keep their line type) */
+  resetStyle: () => Promise<void>;
+  /** Named styles saved on the diagram */
+  presets: StylePreset[];
+  /** Save the style of the selection as a new preset */
+  savePreset: (name: string) => Promise<void>;
+  /** Replace the style of the selection with a preset */
+  applyPreset: (presetId: string) => Promise<void>;
+  deletePreset: (presetId: string) => Promise<void>;
+  /** Whether the format painter holds a copied style */
+  isPainting: boolean;
+  /** Copy the style of the selected element; the next clicked element receives it */
+  startPainting: () => void;
+  cancelPainting: () => void;
+  paintShape: (shapeId: string) => Promise<void>;
+  paintConnector: (connectorId: string) => Promise<void>;
+}
+
+const NO_PRESETS: StylePreset[] = [];
+
+/**
+ * Hook for styling shapes and connectors
+ * Backs the style inspector panel (style of the selection and diagram style presets)
+ * and the format painter, which copies the style of the selected element onto the
+ * next shape or connector clicked. Every restyle is a single undoable command.
+ */
+export function useStyleInspector({
+  diagramId,
+  diagram,
+  shapes,
+  connectors,
+  selectedShapeIds,
+  selectedConnectorIds,
+  commandFactory,
+}: UseStyleInspectorProps): UseStyleInspectorReturn {
+  const updateDiagram = useDiagramStore((state) => state.updateDiagram);
+  const [isOpen, setIsOpen] = useState(false);
+  const [painterStyle, setPainterStyle] = useState<ShapeStyle | null>(null);
+
+  const selectedShapes = useMemo(
+    () => shapes.filter((shape) => selectedShapeIds.includes(shape.id)),
+    [shapes, selectedShapeIds]
+  );
+  const selectedConnectors = useMemo(
+    () => connectors.filter((connector) => selectedConnectorIds.includes(connector.id)),
+    [connectors, selectedConnectorIds]
+  );
+
+  const selectionStyle = useMemo(
+    () => getCommonStyle([...selectedShapes.map(getShapeStyle), ...selectedConnectors.map(getConnectorStyle)]),
+    [selectedShapes, selectedConnectors]
+  );
+
+  const presets = diagram?.stylePresets ?? NO_PRESETS;
+
+  const executeChanges = useCallback(
+    async (changes: StyleChange[], description: string) => {
+      if (changes.length === 0) return;
+      try {
+        await commandManager.execute(commandFactory.createUpdateStyles(diagramId, changes, description), diagramId);
+      } catch (error) {
+        toast.error(`Failed to update style: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+    [diagramId, commandFactory]
+  );
+
+  const updateStyle = useCallback(
+    (updates: ShapeStyle) =>
+      executeChanges(createStyleChanges(selectedShapes, selectedConnectors, updates), 'Change style'),
+    [selectedShapes, selectedConnectors, executeChanges]
+  );
+
+  const resetStyle = useCallback(
+    () =>
+      executeChanges(
+        createStyleChanges(selectedShapes, selectedConnectors, {}, true),
+        'Reset style'
+      ),
+    [selectedShapes, selectedConnectors, executeChanges]
+  );
+
+  const savePreset = useCallback(
+    async (name: string) => {
+      const style = normalizeStyle(selectionStyle);
+      if (!diagram || !style) {
+        toast.info('Style the selection before saving it as a preset');
+        return;
+      }
+      await updateDiagram(diagram.id, {
+        stylePresets: [...presets, { id: uuidv4(), name: name.trim(), style }],
+      });
+    },
+    [diagram, presets, selectionStyle, updateDiagram]
+  );
+
+  const applyPreset = useCallback(
+    async (presetId: string) => {
+      const preset = presets.find((candidate) => candidate.id === presetId);
+      if (!preset) return;
+      await executeChanges(
+        createStyleChanges(selectedShapes, selectedConnectors, preset.style, true),
+        `Apply style "${preset.name}"`
+      );
+    },
+    [presets, selectedShapes, selectedConnectors, executeChanges]
+  );
+
+  const deletePreset = useCallback(
+    async (presetId: string) => {
+      if (!diagram) return;
+      await updateDiagram(diagram.id, {
+        stylePresets: presets.filter((preset) => preset.id !== presetId),
+      });
+    },
+    [diagram, presets, updateDiagram]
+  );
+
+  const startPainting = useCallback(() => {
+    const [shape] = selectedShapes;
+    const [connector] = selectedConnectors;
+    const style = shape ? getShapeStyle(shape) : connector ? getConnectorStyle(connector) : null;
+    if (!style) {
+      toast.info('Select a shape or connector to copy its style');
+      return;
+    }
+    setPainterStyle(style);
+  }, [selectedShapes, selectedConnectors]);
+
+  const cancelPainting = useCallback(() => setPainterStyle(null), []);
+
+  const paintShape = useCallback(
+    async (shapeId: string) => {
+      const shape = shapes.find((candidate) => candidate.id === shapeId);
+      if (!painterStyle || !shape) return;
+      setPainterStyle(null);
+      const change = createShapeStyleChange(shape, painterStyle, true);
+      await executeChanges(change ? [change] : [], 'Paste style');
+    },
+    [shapes, painterStyle, executeChanges]
+  );
+
+  const paintConnector = useCallback(
+    async (connectorId: string) => {
+      const connector = connectors.find((candidate) => candidate.id === connectorId);
+      if (!painterStyle || !connector) return;
+      setPainterStyle(null);
+      const change = createConnectorStyleChange(connector, painterStyle, true);
+      await executeChanges(change ? [change] : [], 'Paste style');
+    },
+    [connectors, painterStyle, executeChanges]
+  );
+
+  // Escape puts the format painter down
+  const isPainting = painterStyle !== null;
+  useEffect(() => {
+    if (!isPainting) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setPainterStyle(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isPainting]);
+
+  const toggle = useCallback(() => setIsOpen((open) => !open), []);
+  const close = useCallback(() => setIsOpen(false), []);
+
+  return useMemo(
+    () => ({
+      isOpen,
+      toggle,
+      close,
+      selectedShapeCount: selectedShapes.length,
+      selectedConnectorCount: selectedConnectors.length,
+      selectionStyle,
+      updateStyle,
+      resetStyle,
+      presets,
+      savePreset,
+      applyPreset,
+      deletePreset,
+      isPainting,
+      startPainting,
+      cancelPainting,
+      paintShape,
+      paintConnector,
+    }),
+    [
+      isOpen,
+      toggle,
+      close,
+      selectedShapes.length,
+      selectedConnectors.length,
+      selectionStyle,
+      updateStyle,
+      resetStyle,
+      presets,
+      savePreset,
+      applyPreset,
+      deletePreset,
+      isPainting,
+      startPainting,
+      cancelPainting,
+      paintShape,
+      paintConnector,
+    ]
+  );
+}
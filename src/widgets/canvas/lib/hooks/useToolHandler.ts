@@ -122,6 +122,8 @@ export function useToolHandler<T extends BaseTool>(
             markerEnd: 'arrow',
             lineType: 'solid',
             zIndex: 0,
+            // An arrow to a new overlay shape (e.g. an annotation) belongs to its overlay
+            ...(shapeDTO.overlayTag && { overlayTag: shapeDTO.overlayTag }),
           };
 
           await addConnector(connectorDTO);
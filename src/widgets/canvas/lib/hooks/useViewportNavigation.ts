@@ -0,0 +1,90 @@
+import { useCallback } from 'react';
+import type { RefObject } from 'react';
+import type { Shape } from '@/entities/shape';
+import {
+  useOverlayVisibilityStore,
+  isOverlayElementVisible,
+} from '@/features/diagram-management';
+import type { ViewportTransform } from '../utils/viewport';
+import { calculateFitViewport, calculateZoomToPoint } from '../utils/canvas';
+import { getCombinedBounds } from '../utils/smart-guides';
+
+// Selections are usually small, so allow zooming in further than when fitting the whole diagram
+const FIT_MAX_ZOOM = 1;
+const SELECTION_MAX_ZOOM = 2;
+
+interface UseViewportNavigationProps {
+  containerRef: RefObject<HTMLDivElement | null>;
+  viewportTransform: ViewportTransform;
+  shapes: Shape[];
+  selectedShapeIds: string[];
+}
+
+export interface UseViewportNavigationReturn {
+  /** Fit all visible shapes into the canvas */
+  zoomToFit: () => void;
+  /** Fit the selected shapes into the canvas (no-op without a selection) */
+  zoomToSelection: () => void;
+  /** Zoom to 100% around the center of the canvas */
+  zoomTo100: () => void;
+}
+
+/**
+ * Hook providing zoom-to-fit, zoom-to-selection and zoom-to-100% commands
+ * Shapes hidden by the overlay controls and preview shapes are ignored.
+ */
+export function useViewportNavigation({
+  containerRef,
+  viewportTransform,
+  shapes,
+  selectedShapeIds,
+}: UseViewportNavigationProps): UseViewportNavigationReturn {
+  const visibleOverlays = useOverlayVisibilityStore((state) => state.visibleOverlays);
+
+  const fitShapes = useCallback(
+    (targets: Shape[], maxZoom: number) => {
+      const container = containerRef.current;
+      const bounds = getCombinedBounds(
+        targets
+          .filter((shape) => !shape.isPreview && isOverlayElementVisible(shape.overlayTag, visibleOverlays))
+          .map((shape) => ({ x: shape.x, y: shape.y, width: shape.width, height: shape.height }))
+      );
+      if (!container || !bounds) return;
+
+      const { zoom, panX, panY } = calculateFitViewport(
+        bounds,
+        container.clientWidth,
+        container.clientHeight,
+        undefined,
+        maxZoom
+      );
+      viewportTransform.setViewport(zoom, panX, panY);
+    },
+    [containerRef, viewportTransform, visibleOverlays]
+  );
+
+  const zoomToFit = useCallback(() => {
+    fitShapes(shapes, FIT_MAX_ZOOM);
+  }, [fitShapes, shapes]);
+
+  const zoomToSelection = useCallback(() => {
+    const selectedIds = new Set(selectedShapeIds);
+    fitShapes(
+      shapes.filter((shape) => selectedIds.has(shape.id)),
+      SELECTION_MAX_ZOOM
+    );
+  }, [fitShapes, shapes, selectedShapeIds]);
+
+  const zoomTo100 = useCallback(() => {
+    const container = containerRef.current;
+    const { zoom, panX, panY } = viewportTransform.viewport;
+
+    // Keep the canvas point at the center of the container in place
+    const centerX = container ? container.clientWidth / 2 : 0;
+    const centerY = container ? container.clientHeight / 2 : 0;
+    const pan = calculateZoomToPoint(centerX, centerY, zoom, 1, panX, panY);
+    viewportTransform.setViewport(1, pan.panX, pan.panY);
+  }, [containerRef, viewportTransform]);
+
+  return { zoomToFit, zoomToSelection, zoomTo100 };
+}
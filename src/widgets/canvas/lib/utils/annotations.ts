@@ -0,0 +1,60 @@
+/**
+ * Annotation utilities
+ * Build the shapes of the free-form annotation layer (notes, text, callouts, ink)
+ */
+
+import {
+  ANNOTATION_OVERLAY_TAG,
+  type AnnotationShapeData,
+  type CreateShapeDTO,
+  type Point,
+} from '@/entities/shape';
+import {
+  DEFAULT_INK_STROKE_WIDTH,
+  getInkStrokeGeometry,
+  simplifyInkStroke,
+} from '@/features/diagram-rendering/annotation';
+import { useAuthStore } from '@/shared/auth';
+
+/**
+ * Create the data of a new annotation, stamped with the current user and time
+ */
+export function createAnnotationData(
+  extra: Partial<AnnotationShapeData> = {}
+): AnnotationShapeData {
+  const userInfo = useAuthStore.getState().userInfo;
+  return {
+    author: userInfo?.name || userInfo?.email || 'Unknown',
+    authorId: userInfo?.userId,
+    createdAt: new Date().toISOString(),
+    ...extra,
+  };
+}
+
+/**
+ * Maps a freehand stroke (canvas coordinates) to an 'annotation-ink' shape
+ * The shape is sized to the stroke bounds and the points are stored relative to them.
+ *
+ * @returns CreateShapeDTO, or undefined when the stroke has no points
+ */
+export function mapInkStrokeToShape(
+  points: Point[],
+  strokeWidth = DEFAULT_INK_STROKE_WIDTH
+): CreateShapeDTO | undefined {
+  if (points.length === 0) return undefined;
+
+  const { x, y, width, height, stroke } = getInkStrokeGeometry(simplifyInkStroke(points), strokeWidth);
+
+  return {
+    type: 'annotation-ink',
+    x,
+    y,
+    width,
+    height,
+    zIndex: 0,
+    locked: false,
+    isPreview: false,
+    overlayTag: ANNOTATION_OVERLAY_TAG,
+    data: createAnnotationData({ strokes: [stroke], strokeWidth }),
+  };
+}
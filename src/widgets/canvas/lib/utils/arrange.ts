@@ -0,0 +1,165 @@
+/**
+ * Shape Arrangement Utilities
+ * Geometry for aligning, distributing and matching the size of selected shapes
+ *
+ * All functions are pure: they return the moves/bounds updates to apply and leave
+ * execution (and undo) to the canvas commands.
+ */
+
+import type { Shape } from '@/entities/shape';
+import type { Bounds } from './resize';
+import { getAllAncestorIds } from './containment-utils';
+
+export type AlignmentType = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributionAxis = 'horizontal' | 'vertical';
+export type MatchSizeDimension = 'width' | 'height';
+
+export interface ShapeMove {
+  shapeId: string;
+  fromPosition: { x: number; y: number };
+  toPosition: { x: number; y: number };
+}
+
+export interface ShapeResize {
+  shapeId: string;
+  fromBounds: Bounds;
+  toBounds: Bounds;
+}
+
+/**
+ * Get the selected shapes that can be arranged
+ * Shapes whose ancestor is also selected are skipped (they follow their container),
+ * as are preview and locked shapes.
+ *
+ * @param shapes - All shapes in the diagram
+ * @param selectedShapeIds - Selected shape IDs, in selection order
+ * @returns Arrangeable shapes, in selection order
+ */
+export function getArrangeableShapes(shapes: Shape[], selectedShapeIds: string[]): Shape[] {
+  const selectedIds = new Set(selectedShapeIds);
+  const shapeMap = new Map(shapes.map((shape) => [shape.id, shape]));
+
+  return selectedShapeIds
+    .map((id) => shapeMap.get(id))
+    .filter((shape): shape is Shape => {
+      if (!shape || shape.isPreview || shape.locked) return false;
+      const ancestorIds = getAllAncestorIds(shape.id, shapes);
+      return ![...ancestorIds].some((ancestorId) => selectedIds.has(ancestorId));
+    });
+}
+
+/**
+ * Compute moves that align shapes to an edge or center line of their combined bounds
+ *
+ * @param shapes - Shapes to align
+ * @param alignment - Edge or center line to align to
+ * @returns Moves for the shapes whose position changes
+ */
+export function computeAlignMoves(shapes: Shape[], alignment: AlignmentType): ShapeMove[] {
+  if (shapes.length < 2) return [];
+
+  const left = Math.min(...shapes.map((s) => s.x));
+  const right = Math.max(...shapes.map((s) => s.x + s.width));
+  const top = Math.min(...shapes.map((s) => s.y));
+  const bottom = Math.max(...shapes.map((s) => s.y + s.height));
+
+  const getTargetPosition = (shape: Shape): { x: number; y: number } => {
+    switch (alignment) {
+      case 'left':
+        return { x: left, y: shape.y };
+      case 'center':
+        return { x: (left + right) / 2 - shape.width / 2, y: shape.y };
+      case 'right':
+        return { x: right - shape.width, y: shape.y };
+      case 'top':
+        return { x: shape.x, y: top };
+      case 'middle':
+        return { x: shape.x, y: (top + bottom) / 2 - shape.height / 2 };
+      case 'bottom':
+        return { x: shape.x, y: bottom - shape.height };
+    }
+  };
+
+  return toChangedMoves(shapes, getTargetPosition);
+}
+
+/**
+ * Compute moves that distribute shapes with equal gaps along an axis
+ * The outermost shapes stay in place; the ones in between are spaced evenly.
+ *
+ * @param shapes - Shapes to distribute (at least 3)
+ * @param axis - Axis to distribute along
+ * @returns Moves for the shapes whose position changes
+ */
+export function computeDistributeMoves(shapes: Shape[], axis: DistributionAxis): ShapeMove[] {
+  if (shapes.length < 3) return [];
+
+  const isHorizontal = axis === 'horizontal';
+  const getStart = (shape: Shape) => (isHorizontal ? shape.x : shape.y);
+  const getSize = (shape: Shape) => (isHorizontal ? shape.width : shape.height);
+
+  const sorted = [...shapes].sort((a, b) => getStart(a) - getStart(b));
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  const span = getStart(last) + getSize(last) - getStart(first);
+  const totalSize = sorted.reduce((sum, shape) => sum + getSize(shape), 0);
+  const gap = (span - totalSize) / (sorted.length - 1);
+
+  const targetStarts = new Map<string, number>();
+  let cursor = getStart(first);
+  for (const shape of sorted) {
+    targetStarts.set(shape.id, cursor);
+    cursor += getSize(shape) + gap;
+  }
+
+  return toChangedMoves(shapes, (shape) => {
+    const start = targetStarts.get(shape.id)!;
+    return isHorizontal ? { x: start, y: shape.y } : { x: shape.x, y: start };
+  });
+}
+
+/**
+ * Compute bounds updates that give shapes the width or height of a reference shape
+ * Shapes keep their top-left corner.
+ *
+ * @param shapes - Shapes to resize
+ * @param dimension - Dimension to match
+ * @param referenceShape - Shape whose size is matched (typically the first selected)
+ * @returns Bounds updates for the shapes whose size changes
+ */
+export function computeMatchSizeUpdates(
+  shapes: Shape[],
+  dimension: MatchSizeDimension,
+  referenceShape: Shape
+): ShapeResize[] {
+  return shapes
+    .filter((shape) => shape[dimension] !== referenceShape[dimension])
+    .map((shape) => {
+      const fromBounds = { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
+      return {
+        shapeId: shape.id,
+        fromBounds,
+        toBounds: { ...fromBounds, [dimension]: referenceShape[dimension] },
+      };
+    });
+}
+
+/**
+ * Build moves for shapes whose target position differs from the current one
+ */
+function toChangedMoves(
+  shapes: Shape[],
+  getTargetPosition: (shape: Shape) => { x: number; y: number }
+): ShapeMove[] {
+  return shapes
+    .map((shape) => ({
+      shapeId: shape.id,
+      fromPosition: { x: shape.x, y: shape.y },
+      toPosition: getTargetPosition(shape),
+    }))
+    .filter(
+      (move) =>
+        move.toPosition.x !== move.fromPosition.x || move.toPosition.y !== move.fromPosition.y
+    );
+}
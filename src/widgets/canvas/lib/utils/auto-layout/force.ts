@@ -0,0 +1,174 @@
+/**
+ * Force-Directed Layout
+ *
+ * Fruchterman-Reingold simulation on node centers: all nodes repel each other, connected
+ * nodes attract, and a weak pull toward the centroid keeps disconnected parts together.
+ * The simulation starts from the current positions, so running it on a roughly arranged
+ * diagram tidies it up instead of scrambling it. Remaining overlaps are pushed apart at the end.
+ */
+
+import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
+import type { LayoutGraph, LayoutPositions, LayoutSpacing } from './types';
+
+// Pull toward the centroid, relative to the attraction of an edge
+// (keeps unconnected nodes about two ideal distances apart)
+const GRAVITY = 0.5;
+
+// Maximum passes when separating overlapping nodes
+const OVERLAP_PASSES = 100;
+
+// Golden angle used to spread nodes that start on the same spot
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+interface Body {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  dx: number;
+  dy: number;
+}
+
+export function forceLayout(graph: LayoutGraph, spacing: LayoutSpacing): LayoutPositions {
+  const positions: LayoutPositions = new Map();
+  if (graph.nodes.length === 0) return positions;
+
+  const bodies: Body[] = graph.nodes.map((node) => ({
+    id: node.id,
+    x: node.x + node.width / 2,
+    y: node.y + node.height / 2,
+    width: node.width,
+    height: node.height,
+    dx: 0,
+    dy: 0,
+  }));
+  const bodyMap = new Map(bodies.map((body) => [body.id, body]));
+  const edges = graph.edges.filter(
+    (edge) => edge.sourceId !== edge.targetId && bodyMap.has(edge.sourceId) && bodyMap.has(edge.targetId)
+  );
+
+  // Ideal distance between connected nodes
+  const averageSize = bodies.reduce((sum, body) => sum + Math.max(body.width, body.height), 0) / bodies.length;
+  const k = averageSize + spacing.node * 2;
+
+  spreadCoincidentBodies(bodies, k);
+
+  const iterations = CANVAS_CONFIG.autoLayout.forceIterations;
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    // Temperature: maximum displacement per step, cooling linearly
+    const temperature = k * (1 - iteration / iterations);
+
+    for (const body of bodies) {
+      body.dx = 0;
+      body.dy = 0;
+    }
+
+    for (let i = 0; i < bodies.length; i++) {
+      for (let j = i + 1; j < bodies.length; j++) {
+        const a = bodies[i];
+        const b = bodies[j];
+        const dx = a.x - b.x;
+        const dy = a.y - b.y;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (k * k) / distance;
+        a.dx += (dx / distance) * force;
+        a.dy += (dy / distance) * force;
+        b.dx -= (dx / distance) * force;
+        b.dy -= (dy / distance) * force;
+      }
+    }
+
+    for (const edge of edges) {
+      const source = bodyMap.get(edge.sourceId)!;
+      const target = bodyMap.get(edge.targetId)!;
+      const dx = source.x - target.x;
+      const dy = source.y - target.y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (distance * distance) / k;
+      source.dx -= (dx / distance) * force;
+      source.dy -= (dy / distance) * force;
+      target.dx += (dx / distance) * force;
+      target.dy += (dy / distance) * force;
+    }
+
+    const centroidX = bodies.reduce((sum, body) => sum + body.x, 0) / bodies.length;
+    const centroidY = bodies.reduce((sum, body) => sum + body.y, 0) / bodies.length;
+
+    for (const body of bodies) {
+      const toCentroidX = centroidX - body.x;
+      const toCentroidY = centroidY - body.y;
+      const centroidDistance = Math.hypot(toCentroidX, toCentroidY);
+      body.dx += toCentroidX * centroidDistance * GRAVITY / k;
+      body.dy += toCentroidY * centroidDistance * GRAVITY / k;
+
+      const displacement = Math.hypot(body.dx, body.dy);
+      if (displacement > 0) {
+        const step = Math.min(displacement, temperature);
+        body.x += (body.dx / displacement) * step;
+        body.y += (body.dy / displacement) * step;
+      }
+    }
+  }
+
+  removeOverlaps(bodies, spacing.node);
+
+  const minX = Math.min(...bodies.map((body) => body.x - body.width / 2));
+  const minY = Math.min(...bodies.map((body) => body.y - body.height / 2));
+  for (const body of bodies) {
+    positions.set(body.id, {
+      x: body.x - body.width / 2 - minX,
+      y: body.y - body.height / 2 - minY,
+    });
+  }
+
+  return positions;
+}
+
+/**
+ * Spread bodies sharing the same center on a spiral so forces have a direction
+ */
+function spreadCoincidentBodies(bodies: Body[], k: number): void {
+  const seen = new Set<string>();
+  bodies.forEach((body, index) => {
+    const key = `${Math.round(body.x)},${Math.round(body.y)}`;
+    if (seen.has(key)) {
+      const radius = (k / 2) * Math.sqrt(index);
+      body.x += Math.cos(index * GOLDEN_ANGLE) * radius;
+      body.y += Math.sin(index * GOLDEN_ANGLE) * radius;
+    }
+    seen.add(key);
+  });
+}
+
+/**
+ * Push overlapping bodies apart along the axis of least overlap, keeping a gap
+ */
+function removeOverlaps(bodies: Body[], gap: number): void {
+  for (let pass = 0; pass < OVERLAP_PASSES; pass++) {
+    let moved = false;
+
+    for (let i = 0; i < bodies.length; i++) {
+      for (let j = i + 1; j < bodies.length; j++) {
+        const a = bodies[i];
+        const b = bodies[j];
+        const overlapX = (a.width + b.width) / 2 + gap - Math.abs(a.x - b.x);
+        const overlapY = (a.height + b.height) / 2 + gap - Math.abs(a.y - b.y);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+
+        moved = true;
+        if (overlapX < overlapY) {
+          const shift = (overlapX / 2) * (a.x < b.x ? -1 : 1);
+          a.x += shift;
+          b.x -= shift;
+        } else {
+          const shift = (overlapY / 2) * (a.y < b.y ? -1 : 1);
+          a.y += shift;
+          b.y -= shift;
+        }
+      }
+    }
+
+    if (!moved) return;
+  }
+}
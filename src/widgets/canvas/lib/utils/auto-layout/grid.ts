@@ -0,0 +1,85 @@
+/**
+ * Grid Layout
+ *
+ * Places nodes row by row in a near-square grid. Nodes are ordered by a breadth-first
+ * walk of the connections so related nodes end up next to each other; columns and rows
+ * are sized to their widest/tallest node.
+ */
+
+import type { LayoutGraph, LayoutPositions, LayoutSpacing, LayoutNode } from './types';
+
+export function gridLayout(graph: LayoutGraph, spacing: LayoutSpacing): LayoutPositions {
+  const positions: LayoutPositions = new Map();
+  if (graph.nodes.length === 0) return positions;
+
+  const ordered = orderByConnectivity(graph);
+  const columns = Math.ceil(Math.sqrt(ordered.length));
+  const rows = Math.ceil(ordered.length / columns);
+
+  const columnWidths = new Array<number>(columns).fill(0);
+  const rowHeights = new Array<number>(rows).fill(0);
+  ordered.forEach((node, index) => {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    columnWidths[column] = Math.max(columnWidths[column], node.width);
+    rowHeights[row] = Math.max(rowHeights[row], node.height);
+  });
+
+  const columnStarts = cumulativeStarts(columnWidths, spacing.node);
+  const rowStarts = cumulativeStarts(rowHeights, spacing.node);
+
+  ordered.forEach((node, index) => {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    positions.set(node.id, { x: columnStarts[column], y: rowStarts[row] });
+  });
+
+  return positions;
+}
+
+/**
+ * Order nodes by a breadth-first walk over the (undirected) connections
+ * Each component starts from its top-left-most node so the result follows the current reading order.
+ */
+function orderByConnectivity(graph: LayoutGraph): LayoutNode[] {
+  const nodeMap = new Map(graph.nodes.map((node) => [node.id, node]));
+  const neighbors = new Map<string, string[]>(graph.nodes.map((node) => [node.id, []]));
+  for (const edge of graph.edges) {
+    if (!nodeMap.has(edge.sourceId) || !nodeMap.has(edge.targetId)) continue;
+    neighbors.get(edge.sourceId)!.push(edge.targetId);
+    neighbors.get(edge.targetId)!.push(edge.sourceId);
+  }
+
+  const readingOrder = [...graph.nodes].sort((a, b) => a.y - b.y || a.x - b.x);
+  const visited = new Set<string>();
+  const ordered: LayoutNode[] = [];
+
+  for (const start of readingOrder) {
+    if (visited.has(start.id)) continue;
+    visited.add(start.id);
+    const queue = [start.id];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      ordered.push(nodeMap.get(id)!);
+      for (const neighborId of neighbors.get(id)!) {
+        if (!visited.has(neighborId)) {
+          visited.add(neighborId);
+          queue.push(neighborId);
+        }
+      }
+    }
+  }
+
+  return ordered;
+}
+
+function cumulativeStarts(sizes: number[], gap: number): number[] {
+  const starts: number[] = [];
+  let next = 0;
+  for (const size of sizes) {
+    starts.push(next);
+    next += size + gap;
+  }
+  return starts;
+}
@@ -0,0 +1,31 @@
+/**
+ * Auto-Layout Module
+ *
+ * Tidies up existing diagrams with pluggable layout algorithms:
+ * - Layered (Sugiyama) for flows and hierarchies (BPMN, class inheritance, data flow)
+ * - Grid and force-directed for loosely structured diagrams (ER, architecture)
+ *
+ * Algorithms only position a flat graph; computeAutoLayout handles containment,
+ * locked shapes and selection scope for a diagram.
+ */
+
+export type {
+  LayoutNode,
+  LayoutEdge,
+  LayoutGraph,
+  LayoutSpacing,
+  LayoutPositions,
+  LayoutAlgorithm,
+  LayoutAlgorithmId,
+} from './types';
+
+export { createLayeredLayout, type LayeredDirection } from './layered';
+export { gridLayout } from './grid';
+export { forceLayout } from './force';
+export {
+  LAYOUT_ALGORITHMS,
+  getDiagramLayoutConfig,
+  getLayoutAlgorithmsForDiagram,
+  type DiagramLayoutConfig,
+} from './registry';
+export { computeAutoLayout, type AutoLayoutOptions } from './layout-diagram';
@@ -0,0 +1,383 @@
+/**
+ * Layered (Sugiyama) Layout
+ *
+ * Classic four-phase hierarchical layout for flows and hierarchies:
+ * 1. Break cycles by reversing DFS back edges
+ * 2. Assign layers by longest path; edges spanning several layers get dummy nodes
+ * 3. Reduce crossings with alternating barycenter sweeps
+ * 4. Assign coordinates: layers along the flow axis, nodes pulled toward their neighbors
+ *    across it while keeping the order and spacing
+ */
+
+import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
+import type { LayoutGraph, LayoutEdge, LayoutPositions, LayoutSpacing } from './types';
+
+/** Flow direction: 'horizontal' lays layers out left-to-right, 'vertical' top-to-bottom */
+export type LayeredDirection = 'horizontal' | 'vertical';
+
+interface LayeredNode {
+  id: string;
+  /** Size along the flow axis */
+  main: number;
+  /** Size across the flow axis */
+  cross: number;
+  isDummy: boolean;
+}
+
+// Coordinate refinement sweeps after the initial stacking
+const COORDINATE_PASSES = 4;
+
+/**
+ * Create a layered layout function for the given flow direction
+ */
+export function createLayeredLayout(direction: LayeredDirection) {
+  return (graph: LayoutGraph, spacing: LayoutSpacing): LayoutPositions => {
+    const positions: LayoutPositions = new Map();
+    if (graph.nodes.length === 0) return positions;
+
+    const isHorizontal = direction === 'horizontal';
+    const nodes = new Map<string, LayeredNode>(
+      graph.nodes.map((node) => [
+        node.id,
+        {
+          id: node.id,
+          main: isHorizontal ? node.width : node.height,
+          cross: isHorizontal ? node.height : node.width,
+          isDummy: false,
+        },
+      ])
+    );
+    const nodeIds = graph.nodes.map((node) => node.id);
+
+    const edges = removeCycles(nodeIds, getValidEdges(graph.edges, nodes));
+    const layerOf = assignLayers(nodeIds, edges);
+    const { layers, layerEdges } = buildLayers(nodeIds, edges, layerOf, nodes);
+
+    reduceCrossings(layers, layerEdges);
+
+    const mainPositions = assignMainPositions(layers, nodes, spacing.layer);
+    const crossPositions = assignCrossPositions(layers, layerEdges, nodes, spacing.node);
+
+    for (const [id, node] of nodes) {
+      if (node.isDummy) continue;
+      const main = mainPositions.get(id) ?? 0;
+      const cross = crossPositions.get(id) ?? 0;
+      positions.set(id, isHorizontal ? { x: main, y: cross } : { x: cross, y: main });
+    }
+
+    return positions;
+  };
+}
+
+/**
+ * Drop self loops, duplicates and edges to unknown nodes
+ */
+function getValidEdges(edges: LayoutEdge[], nodes: Map<string, LayeredNode>): LayoutEdge[] {
+  const seen = new Set<string>();
+  return edges.filter((edge) => {
+    const key = `${edge.sourceId}->${edge.targetId}`;
+    if (edge.sourceId === edge.targetId || seen.has(key)) return false;
+    if (!nodes.has(edge.sourceId) || !nodes.has(edge.targetId)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Make the graph acyclic by reversing the edges that close a cycle during a DFS
+ * Nodes are visited in input order so the result is stable.
+ */
+function removeCycles(nodeIds: string[], edges: LayoutEdge[]): LayoutEdge[] {
+  const outgoing = groupEdges(edges, 'sourceId');
+  const state = new Map<string, 'active' | 'done'>();
+  const reversed = new Set<LayoutEdge>();
+
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    for (const edge of outgoing.get(id) ?? []) {
+      const targetState = state.get(edge.targetId);
+      if (targetState === 'active') {
+        reversed.add(edge);
+      } else if (!targetState) {
+        visit(edge.targetId);
+      }
+    }
+    state.set(id, 'done');
+  };
+
+  for (const id of nodeIds) {
+    if (!state.has(id)) visit(id);
+  }
+
+  const result = edges.map((edge) =>
+    reversed.has(edge) ? { sourceId: edge.targetId, targetId: edge.sourceId } : edge
+  );
+  // Reversing can duplicate an existing edge (A->B and B->A)
+  const seen = new Set<string>();
+  return result.filter((edge) => {
+    const key = `${edge.sourceId}->${edge.targetId}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Longest-path layering from the sources
+ * Sources are then pulled down next to their first successor to shorten their edges.
+ */
+function assignLayers(nodeIds: string[], edges: LayoutEdge[]): Map<string, number> {
+  const incoming = groupEdges(edges, 'targetId');
+  const outgoing = groupEdges(edges, 'sourceId');
+  const inDegree = new Map(nodeIds.map((id) => [id, incoming.get(id)?.length ?? 0]));
+  const layerOf = new Map<string, number>();
+
+  // Kahn's algorithm in input order
+  const order: string[] = [];
+  const queue = nodeIds.filter((id) => inDegree.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const edge of outgoing.get(id) ?? []) {
+      const remaining = inDegree.get(edge.targetId)! - 1;
+      inDegree.set(edge.targetId, remaining);
+      if (remaining === 0) queue.push(edge.targetId);
+    }
+  }
+
+  for (const id of order) {
+    const predecessors = incoming.get(id) ?? [];
+    layerOf.set(
+      id,
+      predecessors.length === 0 ? 0 : Math.max(...predecessors.map((edge) => layerOf.get(edge.sourceId)! + 1))
+    );
+  }
+
+  for (const id of [...order].reverse()) {
+    const successors = outgoing.get(id) ?? [];
+    if ((incoming.get(id)?.length ?? 0) === 0 && successors.length > 0) {
+      layerOf.set(id, Math.min(...successors.map((edge) => layerOf.get(edge.targetId)!)) - 1);
+    }
+  }
+
+  return layerOf;
+}
+
+/**
+ * Group nodes by layer and split edges spanning several layers with dummy nodes
+ * Returns the edges between each layer and the next one.
+ */
+function buildLayers(
+  nodeIds: string[],
+  edges: LayoutEdge[],
+  layerOf: Map<string, number>,
+  nodes: Map<string, LayeredNode>
+): { layers: string[][]; layerEdges: LayoutEdge[][] } {
+  const layerCount = Math.max(...nodeIds.map((id) => layerOf.get(id)!)) + 1;
+  const layers: string[][] = Array.from({ length: layerCount }, () => []);
+  const layerEdges: LayoutEdge[][] = Array.from({ length: Math.max(layerCount - 1, 0) }, () => []);
+
+  for (const id of nodeIds) {
+    layers[layerOf.get(id)!].push(id);
+  }
+
+  let dummyCount = 0;
+  for (const edge of edges) {
+    const from = layerOf.get(edge.sourceId)!;
+    const to = layerOf.get(edge.targetId)!;
+    let previousId = edge.sourceId;
+
+    for (let layer = from + 1; layer < to; layer++) {
+      const dummyId = `__layout-dummy-${dummyCount++}`;
+      nodes.set(dummyId, { id: dummyId, main: 0, cross: 0, isDummy: true });
+      layers[layer].push(dummyId);
+      layerEdges[layer - 1].push({ sourceId: previousId, targetId: dummyId });
+      previousId = dummyId;
+    }
+
+    layerEdges[to - 1].push({ sourceId: previousId, targetId: edge.targetId });
+  }
+
+  return { layers, layerEdges };
+}
+
+/**
+ * Reorder nodes within layers with alternating down/up barycenter sweeps
+ * Keeps the ordering with the fewest crossings.
+ */
+function reduceCrossings(layers: string[][], layerEdges: LayoutEdge[][]): void {
+  let best = layers.map((layer) => [...layer]);
+  let bestCrossings = countAllCrossings(layers, layerEdges);
+
+  for (let pass = 0; pass < CANVAS_CONFIG.autoLayout.crossingReductionPasses && bestCrossings > 0; pass++) {
+    const isDownSweep = pass % 2 === 0;
+
+    if (isDownSweep) {
+      for (let layer = 1; layer < layers.length; layer++) {
+        layers[layer] = orderByBarycenter(layers[layer], layers[layer - 1], layerEdges[layer - 1], 'targetId');
+      }
+    } else {
+      for (let layer = layers.length - 2; layer >= 0; layer--) {
+        layers[layer] = orderByBarycenter(layers[layer], layers[layer + 1], layerEdges[layer], 'sourceId');
+      }
+    }
+
+    const crossings = countAllCrossings(layers, layerEdges);
+    if (crossings < bestCrossings) {
+      best = layers.map((layer) => [...layer]);
+      bestCrossings = crossings;
+    }
+  }
+
+  best.forEach((layer, index) => {
+    layers[index] = layer;
+  });
+}
+
+/**
+ * Sort a layer by the average position of each node's neighbors in the fixed layer
+ * Nodes without neighbors keep their current position.
+ */
+function orderByBarycenter(
+  layer: string[],
+  fixedLayer: string[],
+  edges: LayoutEdge[],
+  side: 'sourceId' | 'targetId'
+): string[] {
+  const fixedIndex = new Map(fixedLayer.map((id, index) => [id, index]));
+  const otherSide = side === 'sourceId' ? 'targetId' : 'sourceId';
+  const neighbors = groupEdges(edges, side);
+
+  const barycenters = new Map(
+    layer.map((id, index) => {
+      const positions = (neighbors.get(id) ?? []).map((edge) => fixedIndex.get(edge[otherSide])!);
+      return [
+        id,
+        positions.length > 0 ? positions.reduce((sum, p) => sum + p, 0) / positions.length : index,
+      ];
+    })
+  );
+
+  return [...layer].sort((a, b) => barycenters.get(a)! - barycenters.get(b)!);
+}
+
+function countAllCrossings(layers: string[][], layerEdges: LayoutEdge[][]): number {
+  let total = 0;
+  for (let layer = 0; layer < layerEdges.length; layer++) {
+    const upper = new Map(layers[layer].map((id, index) => [id, index]));
+    const lower = new Map(layers[layer + 1].map((id, index) => [id, index]));
+    const edges = layerEdges[layer].map((edge) => [upper.get(edge.sourceId)!, lower.get(edge.targetId)!]);
+
+    for (let i = 0; i < edges.length; i++) {
+      for (let j = i + 1; j < edges.length; j++) {
+        if ((edges[i][0] - edges[j][0]) * (edges[i][1] - edges[j][1]) < 0) total++;
+      }
+    }
+  }
+  return total;
+}
+
+/**
+ * Position layers one after another along the flow axis, centering nodes in their layer
+ */
+function assignMainPositions(
+  layers: string[][],
+  nodes: Map<string, LayeredNode>,
+  layerSpacing: number
+): Map<string, number> {
+  const positions = new Map<string, number>();
+  let layerStart = 0;
+
+  for (const layer of layers) {
+    const layerSize = Math.max(0, ...layer.map((id) => nodes.get(id)!.main));
+    for (const id of layer) {
+      positions.set(id, layerStart + (layerSize - nodes.get(id)!.main) / 2);
+    }
+    layerStart += layerSize + layerSpacing;
+  }
+
+  return positions;
+}
+
+/**
+ * Position nodes across the flow axis
+ * Starts from tightly stacked layers, then repeatedly moves each node toward the
+ * centers of its neighbors in the adjacent layer without changing the order.
+ */
+function assignCrossPositions(
+  layers: string[][],
+  layerEdges: LayoutEdge[][],
+  nodes: Map<string, LayeredNode>,
+  nodeSpacing: number
+): Map<string, number> {
+  const positions = new Map<string, number>();
+  const size = (id: string) => nodes.get(id)!.cross;
+  // Dummy nodes only keep long edges apart, so they need less room
+  const gap = (a: string, b: string) =>
+    nodes.get(a)!.isDummy || nodes.get(b)!.isDummy ? nodeSpacing / 2 : nodeSpacing;
+
+  for (const layer of layers) {
+    let next = 0;
+    layer.forEach((id, index) => {
+      if (index > 0) next += gap(layer[index - 1], id);
+      positions.set(id, next);
+      next += size(id);
+    });
+  }
+
+  const center = (id: string) => positions.get(id)! + size(id) / 2;
+
+  for (let pass = 0; pass < COORDINATE_PASSES; pass++) {
+    const isDownSweep = pass % 2 === 0;
+    const layerIndices = isDownSweep
+      ? layers.map((_, index) => index).slice(1)
+      : layers.map((_, index) => index).slice(0, -1).reverse();
+
+    for (const layerIndex of layerIndices) {
+      const layer = layers[layerIndex];
+      const edges = isDownSweep ? layerEdges[layerIndex - 1] : layerEdges[layerIndex];
+      const neighbors = groupEdges(edges, isDownSweep ? 'targetId' : 'sourceId');
+
+      const desired = layer.map((id) => {
+        const neighborCenters = (neighbors.get(id) ?? []).map((edge) =>
+          center(isDownSweep ? edge.sourceId : edge.targetId)
+        );
+        return neighborCenters.length > 0
+          ? neighborCenters.reduce((sum, c) => sum + c, 0) / neighborCenters.length - size(id) / 2
+          : positions.get(id)!;
+      });
+
+      // Resolve overlaps pushing forward and backward, then average both feasible placements
+      const forward = [...desired];
+      for (let i = 1; i < layer.length; i++) {
+        forward[i] = Math.max(forward[i], forward[i - 1] + size(layer[i - 1]) + gap(layer[i - 1], layer[i]));
+      }
+      const backward = [...desired];
+      for (let i = layer.length - 2; i >= 0; i--) {
+        backward[i] = Math.min(backward[i], backward[i + 1] - size(layer[i]) - gap(layer[i], layer[i + 1]));
+      }
+
+      layer.forEach((id, i) => positions.set(id, (forward[i] + backward[i]) / 2));
+    }
+  }
+
+  const min = Math.min(...[...positions.entries()].filter(([id]) => !nodes.get(id)!.isDummy).map(([, p]) => p));
+  for (const [id, position] of positions) {
+    positions.set(id, position - min);
+  }
+
+  return positions;
+}
+
+function groupEdges(edges: LayoutEdge[], key: 'sourceId' | 'targetId'): Map<string, LayoutEdge[]> {
+  const groups = new Map<string, LayoutEdge[]>();
+  for (const edge of edges) {
+    const list = groups.get(edge[key]);
+    if (list) {
+      list.push(edge);
+    } else {
+      groups.set(edge[key], [edge]);
+    }
+  }
+  return groups;
+}
@@ -0,0 +1,259 @@
+/**
+ * Diagram Auto-Layout
+ *
+ * Applies a layout algorithm to the shapes of a diagram while respecting containment:
+ * - Each container's children are laid out inside it, and the container is resized to fit
+ *   them (innermost containers first)
+ * - Siblings are laid out together; connectors between nested shapes count as edges between
+ *   their ancestors at that level
+ * - Locked shapes, and containers holding a locked shape, are never moved or resized; a
+ *   layout that would overlap them is shifted to their right
+ * - When laying out a selection inside a container, the container (and its ancestors) grow
+ *   as needed to keep the children inside
+ *
+ * The result is a list of bounds changes, leaving execution (and undo) to the canvas commands.
+ */
+
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import { CANVAS_CONFIG } from '@/shared/lib/config/canvas-config';
+import { MIN_CONTAINER_WIDTH, MIN_CONTAINER_HEIGHT, type Bounds } from '../resize';
+import { getArrangeableShapes, type ShapeResize } from '../arrange';
+import { getCombinedBounds } from '../smart-guides';
+import type { LayoutAlgorithm, LayoutEdge, LayoutPositions } from './types';
+
+export interface AutoLayoutOptions {
+  algorithm: LayoutAlgorithm;
+  /**
+   * Shapes to lay out, with their contents; the whole diagram when omitted
+   * Selected shapes are laid out together with their selected siblings.
+   */
+  scopeShapeIds?: string[];
+  /** Connector types whose direction is reversed for the layout (see DiagramLayoutConfig) */
+  reversedConnectorTypes?: string[];
+}
+
+interface SiblingArrangement {
+  positions: LayoutPositions;
+  width: number;
+  height: number;
+}
+
+// Bounds changes smaller than this are ignored
+const BOUNDS_EPSILON = 0.5;
+
+/**
+ * Compute the new bounds of the shapes affected by an auto-layout
+ *
+ * @param shapes - All shapes in the diagram
+ * @param connectors - All connectors in the diagram
+ * @param options - Algorithm and scope
+ * @returns Bounds changes for the shapes that move or resize
+ */
+export function computeAutoLayout(
+  shapes: Shape[],
+  connectors: Connector[],
+  options: AutoLayoutOptions
+): ShapeResize[] {
+  const { algorithm, scopeShapeIds, reversedConnectorTypes = [] } = options;
+  const config = CANVAS_CONFIG.autoLayout;
+  const padding = config.containerPadding;
+  const spacing = { node: config.nodeSpacing, layer: config.layerSpacing };
+
+  const layoutShapes = shapes.filter((shape) => !shape.isPreview);
+  const shapeMap = new Map(layoutShapes.map((shape) => [shape.id, shape]));
+
+  // Parent of each shape within the laid out shapes (undefined for top-level shapes)
+  const parentOf = (id: string): string | undefined => {
+    const parentId = shapeMap.get(id)?.parentId;
+    return parentId && shapeMap.has(parentId) ? parentId : undefined;
+  };
+
+  const childrenOf = new Map<string | undefined, Shape[]>();
+  for (const shape of layoutShapes) {
+    const parentId = parentOf(shape.id);
+    const siblings = childrenOf.get(parentId);
+    if (siblings) {
+      siblings.push(shape);
+    } else {
+      childrenOf.set(parentId, [shape]);
+    }
+  }
+
+  const pinned = new Map<string, boolean>();
+  const isPinned = (shape: Shape): boolean => {
+    const cached = pinned.get(shape.id);
+    if (cached !== undefined) return cached;
+    const result = shape.locked || (childrenOf.get(shape.id) ?? []).some(isPinned);
+    pinned.set(shape.id, result);
+    return result;
+  };
+
+  const reversedTypes = new Set(reversedConnectorTypes);
+  const connectorEdges: LayoutEdge[] = connectors.map((connector) =>
+    reversedTypes.has(connector.type)
+      ? { sourceId: connector.targetShapeId, targetId: connector.sourceShapeId }
+      : { sourceId: connector.sourceShapeId, targetId: connector.targetShapeId }
+  );
+
+  // Ancestor-or-self of a shape among the children of `parentId`
+  const ancestorAt = (id: string, parentId: string | undefined): string | null => {
+    let currentId: string | undefined = id;
+    while (currentId && shapeMap.has(currentId)) {
+      const currentParentId = parentOf(currentId);
+      if (currentParentId === parentId) return currentId;
+      currentId = currentParentId;
+    }
+    return null;
+  };
+
+  // Container sizes and child offsets (relative to the container's top-left corner)
+  const containerLayouts = new Map<string, { width: number; height: number; offsets: LayoutPositions }>();
+
+  const measure = (shape: Shape): { width: number; height: number } => {
+    const children = childrenOf.get(shape.id) ?? [];
+    if (isPinned(shape) || children.length === 0) {
+      return { width: shape.width, height: shape.height };
+    }
+
+    const arrangement = arrangeSiblings(children, shape.id);
+    const offsets: LayoutPositions = new Map();
+    for (const [id, position] of arrangement.positions) {
+      offsets.set(id, { x: position.x + padding.left, y: position.y + padding.top });
+    }
+
+    const layout = {
+      width: Math.max(Math.ceil(arrangement.width) + padding.left + padding.right, MIN_CONTAINER_WIDTH),
+      height: Math.max(Math.ceil(arrangement.height) + padding.top + padding.bottom, MIN_CONTAINER_HEIGHT),
+      offsets,
+    };
+    containerLayouts.set(shape.id, layout);
+    return layout;
+  };
+
+  const arrangeSiblings = (siblings: Shape[], parentId: string | undefined): SiblingArrangement => {
+    const nodes = siblings.map((shape) => ({ id: shape.id, x: shape.x, y: shape.y, ...measure(shape) }));
+    const siblingIds = new Set(siblings.map((shape) => shape.id));
+
+    const edges: LayoutEdge[] = [];
+    for (const edge of connectorEdges) {
+      const sourceId = ancestorAt(edge.sourceId, parentId);
+      const targetId = ancestorAt(edge.targetId, parentId);
+      if (sourceId && targetId && sourceId !== targetId && siblingIds.has(sourceId) && siblingIds.has(targetId)) {
+        edges.push({ sourceId, targetId });
+      }
+    }
+
+    const positions = algorithm.layout({ nodes, edges }, spacing);
+    let width = 0;
+    let height = 0;
+    for (const node of nodes) {
+      const position = positions.get(node.id) ?? { x: 0, y: 0 };
+      width = Math.max(width, position.x + node.width);
+      height = Math.max(height, position.y + node.height);
+    }
+
+    return { positions, width, height };
+  };
+
+  const newBounds = new Map<string, Bounds>();
+
+  const place = (shape: Shape, x: number, y: number) => {
+    const layout = containerLayouts.get(shape.id);
+    newBounds.set(shape.id, {
+      x: Math.round(x),
+      y: Math.round(y),
+      width: layout?.width ?? shape.width,
+      height: layout?.height ?? shape.height,
+    });
+
+    if (!layout) return;
+    for (const child of childrenOf.get(shape.id) ?? []) {
+      const offset = layout.offsets.get(child.id);
+      if (offset) place(child, x + offset.x, y + offset.y);
+    }
+  };
+
+  const getBounds = (shape: Shape): Bounds =>
+    newBounds.get(shape.id) ?? { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
+
+  // Grow a container and its ancestors so they keep enclosing their children
+  const growAncestors = (containerId: string | undefined) => {
+    let currentId = containerId;
+    while (currentId) {
+      const container = shapeMap.get(currentId)!;
+      if (container.locked) return;
+
+      const current = getBounds(container);
+      const content = getCombinedBounds((childrenOf.get(currentId) ?? []).map(getBounds));
+      if (!content) return;
+
+      const left = Math.min(current.x, content.x - padding.left);
+      const top = Math.min(current.y, content.y - padding.top);
+      const right = Math.max(current.x + current.width, content.x + content.width + padding.right);
+      const bottom = Math.max(current.y + current.height, content.y + content.height + padding.bottom);
+      const grown = { x: left, y: top, width: right - left, height: bottom - top };
+      if (!hasChanged(current, grown)) return;
+
+      newBounds.set(currentId, grown);
+      currentId = parentOf(currentId);
+    }
+  };
+
+  // Shapes to lay out, grouped by parent
+  const roots = scopeShapeIds
+    ? getArrangeableShapes(layoutShapes, scopeShapeIds)
+    : childrenOf.get(undefined) ?? [];
+  const groups = new Map<string | undefined, Shape[]>();
+  for (const shape of roots) {
+    const parentId = parentOf(shape.id);
+    groups.set(parentId, [...(groups.get(parentId) ?? []), shape]);
+  }
+
+  for (const [parentId, group] of groups) {
+    const movable = group.filter((shape) => !isPinned(shape));
+    if (movable.length === 0) continue;
+
+    // Keep the laid out shapes where they were: anchor at their current top-left corner
+    let originX = Math.min(...movable.map((shape) => shape.x));
+    const originY = Math.min(...movable.map((shape) => shape.y));
+    const arrangement = arrangeSiblings(movable, parentId);
+
+    const area = { x: originX, y: originY, width: arrangement.width, height: arrangement.height };
+    const obstacles = (childrenOf.get(parentId) ?? []).filter(isPinned).map(getBounds);
+    if (obstacles.some((obstacle) => intersects(area, obstacle))) {
+      originX = Math.max(...obstacles.map((obstacle) => obstacle.x + obstacle.width)) + spacing.node;
+    }
+
+    for (const shape of movable) {
+      const position = arrangement.positions.get(shape.id) ?? { x: 0, y: 0 };
+      place(shape, originX + position.x, originY + position.y);
+    }
+
+    growAncestors(parentId);
+  }
+
+  const changes: ShapeResize[] = [];
+  for (const [shapeId, toBounds] of newBounds) {
+    const shape = shapeMap.get(shapeId)!;
+    const fromBounds = { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
+    if (hasChanged(fromBounds, toBounds)) {
+      changes.push({ shapeId, fromBounds, toBounds });
+    }
+  }
+
+  return changes;
+}
+
+function intersects(a: Bounds, b: Bounds): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function hasChanged(a: Bounds, b: Bounds): boolean {
+  return (
+    Math.abs(a.x - b.x) > BOUNDS_EPSILON ||
+    Math.abs(a.y - b.y) > BOUNDS_EPSILON ||
+    Math.abs(a.width - b.width) > BOUNDS_EPSILON ||
+    Math.abs(a.height - b.height) > BOUNDS_EPSILON
+  );
+}
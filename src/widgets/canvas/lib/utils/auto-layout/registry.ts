@@ -0,0 +1,80 @@
+/**
+ * Layout Algorithm Registry
+ *
+ * Lists the available layout algorithms and which ones apply to each diagram type.
+ * New algorithms are added by implementing LayoutAlgorithm and registering them here.
+ */
+
+import type { DiagramType } from '@/entities/diagram';
+import type { LayoutAlgorithm, LayoutAlgorithmId } from './types';
+import { createLayeredLayout } from './layered';
+import { gridLayout } from './grid';
+import { forceLayout } from './force';
+
+export const LAYOUT_ALGORITHMS: Record<LayoutAlgorithmId, LayoutAlgorithm> = {
+  'layered-horizontal': {
+    id: 'layered-horizontal',
+    name: 'Layered (left to right)',
+    description: 'Flow in columns, following connector direction',
+    layout: createLayeredLayout('horizontal'),
+  },
+  'layered-vertical': {
+    id: 'layered-vertical',
+    name: 'Layered (top to bottom)',
+    description: 'Hierarchy in rows, following connector direction',
+    layout: createLayeredLayout('vertical'),
+  },
+  grid: {
+    id: 'grid',
+    name: 'Grid',
+    description: 'Rows and columns, related shapes side by side',
+    layout: gridLayout,
+  },
+  force: {
+    id: 'force',
+    name: 'Force-directed',
+    description: 'Clusters connected shapes, starting from the current positions',
+    layout: forceLayout,
+  },
+};
+
+/**
+ * Auto-layout settings for a diagram type
+ */
+export interface DiagramLayoutConfig {
+  /** Available algorithms; the first one is the default */
+  algorithms: LayoutAlgorithmId[];
+  /**
+   * Connector types that point from the lower to the upper layer (e.g. a subclass to its
+   * superclass); they are reversed so the target is laid out first
+   */
+  reversedConnectorTypes?: string[];
+}
+
+// Sequence diagrams are positioned by their lifelines and wireframes by hand, so they have no auto-layout
+const DIAGRAM_LAYOUTS: Partial<Record<DiagramType, DiagramLayoutConfig>> = {
+  bpmn: { algorithms: ['layered-horizontal', 'layered-vertical', 'grid'] },
+  class: {
+    algorithms: ['layered-vertical', 'layered-horizontal', 'grid', 'force'],
+    reversedConnectorTypes: ['inheritance', 'realization'],
+  },
+  'entity-relationship': { algorithms: ['grid', 'force'] },
+  architecture: { algorithms: ['grid', 'force', 'layered-horizontal'] },
+  dataflow: { algorithms: ['layered-horizontal', 'force', 'grid'] },
+};
+
+/**
+ * Get the auto-layout settings for a diagram type
+ *
+ * @returns The settings, or undefined when the diagram type has no auto-layout
+ */
+export function getDiagramLayoutConfig(diagramType: DiagramType | undefined): DiagramLayoutConfig | undefined {
+  return diagramType ? DIAGRAM_LAYOUTS[diagramType] : undefined;
+}
+
+/**
+ * Get the layout algorithms available for a diagram type, default first
+ */
+export function getLayoutAlgorithmsForDiagram(diagramType: DiagramType | undefined): LayoutAlgorithm[] {
+  return (getDiagramLayoutConfig(diagramType)?.algorithms ?? []).map((id) => LAYOUT_ALGORITHMS[id]);
+}
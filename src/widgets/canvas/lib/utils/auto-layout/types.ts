@@ -0,0 +1,47 @@
+/**
+ * Type definitions for automatic diagram layout
+ */
+
+/** Node to position; x/y are the current top-left corner (used as a seed by some algorithms) */
+export interface LayoutNode {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Directed edge between two nodes of the same graph */
+export interface LayoutEdge {
+  sourceId: string;
+  targetId: string;
+}
+
+export interface LayoutGraph {
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+}
+
+/** Gaps used by the algorithms, in canvas units */
+export interface LayoutSpacing {
+  /** Gap between neighboring nodes */
+  node: number;
+  /** Gap between layers (layered layouts only) */
+  layer: number;
+}
+
+/** New top-left corner for each node, relative to the layout origin (0, 0) */
+export type LayoutPositions = Map<string, { x: number; y: number }>;
+
+export type LayoutAlgorithmId = 'layered-horizontal' | 'layered-vertical' | 'grid' | 'force';
+
+/**
+ * Pluggable layout algorithm
+ * Positions every node of the graph without overlaps; sizes are left unchanged.
+ */
+export interface LayoutAlgorithm {
+  id: LayoutAlgorithmId;
+  name: string;
+  description: string;
+  layout: (graph: LayoutGraph, spacing: LayoutSpacing) => LayoutPositions;
+}
@@ -157,6 +157,48 @@ export function calculateZoomToPoint(
   };
 }
 
+/**
+ * Calculate the viewport that fits a region into the container
+ *
+ * Picks the largest zoom at which the region plus padding fits, capped at maxZoom,
+ * and centers the region in the container.
+ *
+ * @param bounds - Region to fit, in canvas coordinates
+ * @param containerWidth - Container width in screen pixels
+ * @param containerHeight - Container height in screen pixels
+ * @param padding - Space kept around the region, in screen pixels (default: 48)
+ * @param maxZoom - Highest zoom level to use, e.g. to avoid magnifying small regions (default: 1)
+ * @returns Viewport { zoom, panX, panY }
+ *
+ * @example
+ * ```ts
+ * // Fit a 1000x500 region at (0, 0) into an 800x600 container
+ * const { zoom, panX, panY } = calculateFitViewport({ x: 0, y: 0, width: 1000, height: 500 }, 800, 600);
+ * // zoom = (800 - 96) / 1000 = 0.704, region centered in the container
+ * ```
+ */
+export function calculateFitViewport(
+  bounds: { x: number; y: number; width: number; height: number },
+  containerWidth: number,
+  containerHeight: number,
+  padding: number = 48,
+  maxZoom: number = 1
+): { zoom: number; panX: number; panY: number } {
+  const availableWidth = Math.max(containerWidth - padding * 2, 1);
+  const availableHeight = Math.max(containerHeight - padding * 2, 1);
+
+  // Zero-sized regions (e.g. a single point) fit at any zoom
+  const zoomX = bounds.width > 0 ? availableWidth / bounds.width : maxZoom;
+  const zoomY = bounds.height > 0 ? availableHeight / bounds.height : maxZoom;
+  const zoom = constrainZoom(Math.min(zoomX, zoomY, maxZoom));
+
+  return {
+    zoom,
+    panX: containerWidth / 2 - (bounds.x + bounds.width / 2) * zoom,
+    panY: containerHeight / 2 - (bounds.y + bounds.height / 2) * zoom,
+  };
+}
+
 /**
  * Calculate bounding box for multiple points
  *
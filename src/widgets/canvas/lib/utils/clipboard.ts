@@ -0,0 +1,162 @@
+/**
+ * Canvas Clipboard Utilities
+ *
+ * Functions for copying a selection of shapes and connectors to the clipboard
+ * and instantiating it again (paste/duplicate) with fresh IDs:
+ * 1. Selected shapes are copied together with all of their descendants
+ * 2. Only connectors whose both ends are copied come along (internal connectors)
+ * 3. On paste, every ID is remapped and positions are offset to the target point
+ *
+ * The payload is serialized to JSON with a format marker so it can travel through
+ * the system clipboard (pasting into another diagram or browser tab).
+ */
+
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { ShapeSchema, type Shape } from '@/entities/shape';
+import { ConnectorSchema, type Connector } from '@/entities/connector';
+import { DiagramTypeSchema, type DiagramType } from '@/entities/diagram';
+import { getShapeWithDescendants } from './containment-utils';
+
+// Marker identifying canvas clipboard content in the system clipboard
+export const CANVAS_CLIPBOARD_FORMAT = 'tinkersaur/canvas-clipboard';
+
+// Offset applied to duplicated entities so they don't cover the originals
+export const DUPLICATE_OFFSET = 20;
+
+export const CanvasClipboardSchema = z.object({
+  format: z.literal(CANVAS_CLIPBOARD_FORMAT),
+  diagramType: DiagramTypeSchema,
+  shapes: z.array(ShapeSchema),
+  connectors: z.array(ConnectorSchema),
+});
+
+export type CanvasClipboard = z.infer<typeof CanvasClipboardSchema>;
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+/**
+ * Build a clipboard payload from the current selection
+ *
+ * @param diagramType - Type of the diagram the selection is copied from
+ * @param shapes - All shapes in the diagram
+ * @param connectors - All connectors in the diagram
+ * @param selectedShapeIds - Selected shape IDs (descendants are included automatically)
+ * @returns The clipboard payload, or null if nothing can be copied
+ */
+export function buildCanvasClipboard(
+  diagramType: DiagramType,
+  shapes: Shape[],
+  connectors: Connector[],
+  selectedShapeIds: string[]
+): CanvasClipboard | null {
+  const copiedShapeIds = new Set<string>();
+  for (const shapeId of selectedShapeIds) {
+    getShapeWithDescendants(shapeId, shapes).forEach((id) => copiedShapeIds.add(id));
+  }
+
+  // Preview shapes are transient (pending Mermaid import/generation) and never copied
+  const copiedShapes = shapes.filter((shape) => copiedShapeIds.has(shape.id) && !shape.isPreview);
+  if (copiedShapes.length === 0) {
+    return null;
+  }
+
+  const copiedIds = new Set(copiedShapes.map((shape) => shape.id));
+  const copiedConnectors = connectors.filter(
+    (connector) => copiedIds.has(connector.sourceShapeId) && copiedIds.has(connector.targetShapeId)
+  );
+
+  return {
+    format: CANVAS_CLIPBOARD_FORMAT,
+    diagramType,
+    // Deep copy so later edits to the diagram don't leak into the clipboard
+    shapes: structuredClone(copiedShapes),
+    connectors: structuredClone(copiedConnectors),
+  };
+}
+
+/**
+ * Serialize a clipboard payload for the system clipboard
+ */
+export function serializeCanvasClipboard(clipboard: CanvasClipboard): string {
+  return JSON.stringify(clipboard);
+}
+
+/**
+ * Parse system clipboard text into a clipboard payload
+ *
+ * @returns The payload, or null if the text is not canvas clipboard content
+ */
+export function parseCanvasClipboard(text: string): CanvasClipboard | null {
+  if (!text.includes(CANVAS_CLIPBOARD_FORMAT)) {
+    return null;
+  }
+
+  try {
+    const result = CanvasClipboardSchema.safeParse(JSON.parse(text));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create new shapes and connectors from a clipboard payload
+ * All IDs are regenerated and parent/child and connector references are remapped.
+ * Shapes whose parent was not copied become top-level shapes.
+ *
+ * @param clipboard - The clipboard payload
+ * @param position - Canvas position for the top-left corner of the pasted content
+ * @returns Shapes and connectors ready to be added to the target diagram
+ */
+export function instantiateCanvasClipboard(
+  clipboard: CanvasClipboard,
+  position: Position
+): { shapes: Shape[]; connectors: Connector[] } {
+  const idMap = new Map<string, string>();
+  clipboard.shapes.forEach((shape) => idMap.set(shape.id, uuidv4()));
+
+  const minX = Math.min(...clipboard.shapes.map((shape) => shape.x));
+  const minY = Math.min(...clipboard.shapes.map((shape) => shape.y));
+  const deltaX = position.x - minX;
+  const deltaY = position.y - minY;
+
+  const shapes = clipboard.shapes.map((shape): Shape => {
+    const parentId = shape.parentId ? idMap.get(shape.parentId) : undefined;
+    const children = shape.children
+      ?.map((childId) => idMap.get(childId))
+      .filter((childId): childId is string => childId !== undefined);
+
+    return {
+      ...structuredClone(shape),
+      id: idMap.get(shape.id)!,
+      x: shape.x + deltaX,
+      y: shape.y + deltaY,
+      parentId,
+      children: children && children.length > 0 ? children : undefined,
+    };
+  });
+
+  const connectors = clipboard.connectors.map((connector): Connector => ({
+    ...structuredClone(connector),
+    id: uuidv4(),
+    sourceShapeId: idMap.get(connector.sourceShapeId)!,
+    targetShapeId: idMap.get(connector.targetShapeId)!,
+    points: connector.points?.map((point) => ({ x: point.x + deltaX, y: point.y + deltaY })),
+  }));
+
+  return { shapes, connectors };
+}
+
+/**
+ * Top-left corner of the clipboard content (used to offset duplicates)
+ */
+export function getCanvasClipboardOrigin(clipboard: CanvasClipboard): Position {
+  return {
+    x: Math.min(...clipboard.shapes.map((shape) => shape.x)),
+    y: Math.min(...clipboard.shapes.map((shape) => shape.y)),
+  };
+}
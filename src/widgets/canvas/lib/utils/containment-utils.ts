@@ -44,9 +44,10 @@ export function findContainerAtPosition(
   allShapes: Shape[],
   excludeShapeIds: Set<string> = new Set()
 ): Shape | null {
-  // Filter to only container types and exclude specified shapes
+  // Filter to only container types that accept the shape and exclude specified shapes
   const containers = allShapes.filter(
     s => isContainerType(s.type) &&
+         canContainShape(s.type, shape.type) &&
          s.id !== shape.id &&
          !excludeShapeIds.has(s.id)
   );
@@ -70,6 +71,43 @@ export function findContainerAtPosition(
   });
 }
 
+/**
+ * Determine the parent changes caused by dropping dragged shapes
+ * Only the top-most dragged shapes are considered: descendants dragged along with
+ * their container stay in it. Dragged shapes and their descendants can't adopt
+ * each other, so a container is never dropped into itself.
+ *
+ * @param draggedShapeIds - IDs of the dragged shapes (at their drop position in allShapes)
+ * @param allShapes - All shapes in the diagram
+ * @returns The shapes whose container changed, with their new parent (undefined when released)
+ */
+export function getContainmentChanges(
+  draggedShapeIds: string[],
+  allShapes: Shape[]
+): Array<{ shapeId: string; parentId: string | undefined }> {
+  const draggedIds = new Set(draggedShapeIds);
+  const excludeIds = new Set<string>();
+  for (const shapeId of draggedShapeIds) {
+    getShapeWithDescendants(shapeId, allShapes).forEach(id => excludeIds.add(id));
+  }
+
+  const changes: Array<{ shapeId: string; parentId: string | undefined }> = [];
+  for (const shape of allShapes) {
+    if (!draggedIds.has(shape.id)) continue;
+
+    // Skip shapes dragged along with one of their ancestors
+    const ancestorIds = getAllAncestorIds(shape.id, allShapes);
+    if (Array.from(ancestorIds).some(id => draggedIds.has(id))) continue;
+
+    const newParentId = findContainerAtPosition(shape, allShapes, excludeIds)?.id;
+    if (newParentId !== shape.parentId) {
+      changes.push({ shapeId: shape.id, parentId: newParentId });
+    }
+  }
+
+  return changes;
+}
+
 /**
  * Check if a shape type is a container type
  * Container types can have children
@@ -78,9 +116,34 @@ export function findContainerAtPosition(
  * @returns true if the shape type is a container
  */
 export function isContainerType(shapeType: string): boolean {
-  // Currently only architecture-group is a container
+  // Architecture groups, data flow trust boundaries, wireframe screens/panels
+  // and BPMN pools/lanes are containers
   // Add more container types here as they're implemented
-  return shapeType === 'architecture-group';
+  return (
+    shapeType === 'architecture-group' ||
+    shapeType === 'dataflow-boundary' ||
+    shapeType === 'wireframe-container' ||
+    shapeType === 'bpmn-pool' ||
+    shapeType === 'bpmn-lane'
+  );
+}
+
+/**
+ * Check if a container type accepts a shape type as child
+ * BPMN pools are always top-level and lanes only belong to pools
+ *
+ * @param containerType - The container shape type
+ * @param shapeType - The type of the shape to adopt
+ * @returns true if the container can adopt the shape
+ */
+export function canContainShape(containerType: string, shapeType: string): boolean {
+  if (shapeType === 'bpmn-pool') {
+    return false;
+  }
+  if (shapeType === 'bpmn-lane') {
+    return containerType === 'bpmn-pool';
+  }
+  return true;
 }
 
 /**
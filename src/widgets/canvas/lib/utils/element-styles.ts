@@ -0,0 +1,139 @@
+/**
+ * Element Style Utilities
+ *
+ * Helpers for the style inspector, style presets and the format painter.
+ * Shapes and connectors share one style model (ShapeStyle): connectors keep the
+ * stroke, font and opacity overrides in connector.appearance and the dash
+ * pattern in connector.lineType; fill and text alignment don't apply to them.
+ */
+
+import type { Shape, ShapeStyle } from '@/entities/shape';
+import type { Connector, ConnectorStyle } from '@/entities/connector';
+import type { StyleChange } from '@/features/canvas-commands/commands/styles/UpdateStylesCommand';
+
+export type StyleProperty = keyof ShapeStyle;
+
+/**
+ * Style properties that apply to connectors
+ */
+export const CONNECTOR_STYLE_PROPERTIES: readonly StyleProperty[] = [
+  'strokeColor',
+  'strokeWidth',
+  'strokeDash',
+  'fontSize',
+  'fontWeight',
+  'opacity',
+];
+
+/**
+ * Drop unset properties; an empty style is stored as no style at all
+ */
+export function normalizeStyle<T extends ShapeStyle>(style: T): T | undefined {
+  const entries = Object.entries(style).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+/**
+ * Style of a shape (its overrides)
+ */
+export function getShapeStyle(shape: Shape): ShapeStyle {
+  return shape.appearance ?? {};
+}
+
+/**
+ * Style of a connector, with its line type as the dash pattern
+ */
+export function getConnectorStyle(connector: Connector): ShapeStyle {
+  return { ...connector.appearance, strokeDash: connector.lineType };
+}
+
+/**
+ * Property values shared by all given styles (properties that differ are left unset)
+ */
+export function getCommonStyle(styles: ShapeStyle[]): ShapeStyle {
+  if (styles.length === 0) return {};
+
+  const [first, ...rest] = styles;
+  const common: ShapeStyle = {};
+  for (const property of Object.keys(first) as StyleProperty[]) {
+    if (rest.every((style) => style[property] === first[property])) {
+      Object.assign(common, { [property]: first[property] });
+    }
+  }
+  return common;
+}
+
+/**
+ * Build the change restyling a shape, or null if its style stays the same
+ *
+ * @param updates - Properties to set; undefined values reset a property to the default
+ * @param replace - Replace the whole style instead of merging the updates into it
+ */
+export function createShapeStyleChange(
+  shape: Shape,
+  updates: ShapeStyle,
+  replace = false
+): StyleChange | null {
+  const oldStyle = shape.appearance;
+  const newStyle = normalizeStyle(replace ? { ...updates } : { ...oldStyle, ...updates });
+  if (areStylesEqual(oldStyle, newStyle)) return null;
+  return { kind: 'shape', shapeId: shape.id, oldStyle, newStyle };
+}
+
+/**
+ * Build the change restyling a connector, or null if its style stays the same
+ * Properties that don't apply to connectors are ignored.
+ *
+ * @param updates - Properties to set; undefined values reset a property to the default
+ * @param replace - Replace the whole style instead of merging the updates into it
+ */
+export function createConnectorStyleChange(
+  connector: Connector,
+  updates: ShapeStyle,
+  replace = false
+): StyleChange | null {
+  const { strokeDash, ...connectorUpdates } = pickConnectorProperties(updates);
+  const appearance = normalizeStyle<ConnectorStyle>(
+    replace ? connectorUpdates : { ...connector.appearance, ...connectorUpdates }
+  );
+  // Styles without a dash pattern keep the connector's line type, which often carries meaning
+  const lineType = 'strokeDash' in updates ? (strokeDash ?? 'solid') : connector.lineType;
+
+  if (areStylesEqual(connector.appearance, appearance) && lineType === connector.lineType) return null;
+  return {
+    kind: 'connector',
+    connectorId: connector.id,
+    oldStyle: { appearance: connector.appearance, lineType: connector.lineType },
+    newStyle: { appearance, lineType },
+  };
+}
+
+/**
+ * Build the changes restyling the given shapes and connectors (unchanged elements are skipped)
+ */
+export function createStyleChanges(
+  shapes: Shape[],
+  connectors: Connector[],
+  updates: ShapeStyle,
+  replace = false
+): StyleChange[] {
+  return [
+    ...shapes.map((shape) => createShapeStyleChange(shape, updates, replace)),
+    ...connectors.map((connector) => createConnectorStyleChange(connector, updates, replace)),
+  ].filter((change): change is StyleChange => change !== null);
+}
+
+function pickConnectorProperties(style: ShapeStyle): ShapeStyle {
+  return Object.fromEntries(
+    Object.entries(style).filter(([property]) => CONNECTOR_STYLE_PROPERTIES.includes(property as StyleProperty))
+  );
+}
+
+function areStylesEqual(a: ShapeStyle | undefined, b: ShapeStyle | undefined): boolean {
+  const aEntries = Object.entries(a ?? {}).filter(([, value]) => value !== undefined);
+  const bEntries = Object.entries(b ?? {}).filter(([, value]) => value !== undefined);
+  return (
+    aEntries.length === bEntries.length &&
+    aEntries.every(([property, value]) => (b as Record<string, unknown>)[property] === value)
+  );
+}
@@ -0,0 +1,242 @@
+/**
+ * Find-and-Replace Utilities
+ * Text search across shape labels, connector labels and shape members
+ * (class attributes/methods, enumeration literals, entity attribute names)
+ *
+ * All functions are pure: replacements are returned as TextReplacement edits and
+ * executed (and undone) by the canvas commands.
+ */
+
+import {
+  getClassShapeData,
+  getEnumerationShapeData,
+  getEntityShapeData,
+  type Shape,
+} from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import type { TextReplacement } from '@/features/canvas-commands';
+import type { Bounds } from './resize';
+
+export type TextFieldKind =
+  | 'shape-label'
+  | 'connector-label'
+  | 'class-attribute'
+  | 'class-method'
+  | 'enumeration-literal'
+  | 'entity-attribute';
+
+/**
+ * A searchable piece of text on the canvas
+ */
+export interface TextField {
+  kind: TextFieldKind;
+  /** Shape or connector holding the text */
+  entityId: string;
+  /** Member index (attributes, methods, literals) */
+  index?: number;
+  text: string;
+  /** Canvas area to reveal when the field is matched */
+  focusBounds: Bounds;
+}
+
+/**
+ * One occurrence of the search query in a text field
+ */
+export interface TextMatch {
+  field: TextField;
+  start: number;
+  length: number;
+}
+
+export interface FindOptions {
+  matchCase: boolean;
+  wholeWord: boolean;
+}
+
+/**
+ * Collect the searchable text of a diagram, in reading order
+ * (top to bottom, then left to right; connectors are placed between their endpoints)
+ *
+ * @param shapes - All shapes in the diagram (preview shapes are skipped)
+ * @param connectors - All connectors in the diagram
+ * @returns Text fields, in reading order
+ */
+export function getSearchableTextFields(shapes: Shape[], connectors: Connector[]): TextField[] {
+  const searchableShapes = shapes.filter((shape) => !shape.isPreview);
+  const shapeMap = new Map(searchableShapes.map((shape) => [shape.id, shape]));
+  const entries: Array<{ x: number; y: number; fields: TextField[] }> = [];
+
+  for (const shape of searchableShapes) {
+    const focusBounds = { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
+    const field = (kind: TextFieldKind, text: string, index?: number): TextField => ({
+      kind,
+      entityId: shape.id,
+      index,
+      text,
+      focusBounds,
+    });
+
+    const fields: TextField[] = [];
+    if (shape.label) {
+      fields.push(field('shape-label', shape.label));
+    }
+    if (shape.type === 'class') {
+      const { attributes, methods } = getClassShapeData(shape);
+      attributes.forEach((attribute, index) => fields.push(field('class-attribute', attribute, index)));
+      methods.forEach((method, index) => fields.push(field('class-method', method, index)));
+    }
+    if (shape.type === 'enumeration') {
+      getEnumerationShapeData(shape).literals.forEach((literal, index) =>
+        fields.push(field('enumeration-literal', literal, index))
+      );
+    }
+    if (shape.type === 'entity') {
+      getEntityShapeData(shape).attributes.forEach((attribute, index) =>
+        fields.push(field('entity-attribute', attribute.name, index))
+      );
+    }
+
+    if (fields.length > 0) {
+      entries.push({ x: shape.x, y: shape.y, fields });
+    }
+  }
+
+  for (const connector of connectors) {
+    const source = shapeMap.get(connector.sourceShapeId);
+    const target = shapeMap.get(connector.targetShapeId);
+    if (!connector.label || !source || !target) continue;
+
+    const sourceX = source.x + source.width / 2;
+    const sourceY = source.y + source.height / 2;
+    const targetX = target.x + target.width / 2;
+    const targetY = target.y + target.height / 2;
+    const focusBounds = {
+      x: Math.min(sourceX, targetX),
+      y: Math.min(sourceY, targetY),
+      width: Math.abs(targetX - sourceX),
+      height: Math.abs(targetY - sourceY),
+    };
+
+    entries.push({
+      x: focusBounds.x + focusBounds.width / 2,
+      y: focusBounds.y + focusBounds.height / 2,
+      fields: [{ kind: 'connector-label', entityId: connector.id, text: connector.label, focusBounds }],
+    });
+  }
+
+  entries.sort((a, b) => a.y - b.y || a.x - b.x);
+  return entries.flatMap((entry) => entry.fields);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the search pattern for a query (null for an empty query)
+ * Whole-word matching requires the query not to touch other word characters.
+ */
+function createSearchPattern(query: string, options: FindOptions): RegExp | null {
+  if (!query) return null;
+  const escaped = escapeRegExp(query);
+  const source = options.wholeWord ? `(?<!\\w)${escaped}(?!\\w)` : escaped;
+  return new RegExp(source, options.matchCase ? 'g' : 'gi');
+}
+
+/**
+ * Find every occurrence of a query in the given text fields
+ *
+ * @returns Matches in field order, then in text order
+ */
+export function findTextMatches(fields: TextField[], query: string, options: FindOptions): TextMatch[] {
+  const pattern = createSearchPattern(query, options);
+  if (!pattern) return [];
+
+  const matches: TextMatch[] = [];
+  for (const field of fields) {
+    for (const match of field.text.matchAll(pattern)) {
+      matches.push({ field, start: match.index, length: match[0].length });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Replace the given occurrences in a text (occurrences must belong to that text)
+ */
+function replaceOccurrences(text: string, matches: TextMatch[], replacement: string): string {
+  let result = '';
+  let cursor = 0;
+  for (const match of [...matches].sort((a, b) => a.start - b.start)) {
+    result += text.slice(cursor, match.start) + replacement;
+    cursor = match.start + match.length;
+  }
+  return result + text.slice(cursor);
+}
+
+/**
+ * Get the key identifying the text field a match belongs to
+ */
+export function getTextFieldKey(field: TextField): string {
+  return `${field.kind}:${field.entityId}:${field.index ?? ''}`;
+}
+
+/**
+ * Build the edits that replace the given matches
+ * Matches in the same text field are combined into a single edit.
+ *
+ * @param matches - Matches to replace (from findTextMatches)
+ * @param replacement - Replacement text (inserted literally)
+ * @param shapes - All shapes in the diagram (for the current entity attributes)
+ * @returns Edits for the ReplaceText command, in match order
+ */
+export function createTextReplacements(
+  matches: TextMatch[],
+  replacement: string,
+  shapes: Shape[]
+): TextReplacement[] {
+  const matchesByField = new Map<string, TextMatch[]>();
+  for (const match of matches) {
+    const key = getTextFieldKey(match.field);
+    matchesByField.set(key, [...(matchesByField.get(key) ?? []), match]);
+  }
+
+  const shapeMap = new Map(shapes.map((shape) => [shape.id, shape]));
+  const replacements: TextReplacement[] = [];
+
+  for (const fieldMatches of matchesByField.values()) {
+    const { kind, entityId, index = 0, text } = fieldMatches[0].field;
+    const newText = replaceOccurrences(text, fieldMatches, replacement);
+    if (newText === text) continue;
+
+    switch (kind) {
+      case 'shape-label':
+        replacements.push({ kind, shapeId: entityId, oldValue: text, newValue: newText });
+        break;
+      case 'connector-label':
+        replacements.push({ kind, connectorId: entityId, oldValue: text, newValue: newText });
+        break;
+      case 'class-attribute':
+      case 'class-method':
+      case 'enumeration-literal':
+        replacements.push({ kind, shapeId: entityId, index, oldValue: text, newValue: newText });
+        break;
+      case 'entity-attribute': {
+        const shape = shapeMap.get(entityId);
+        const attribute = shape ? getEntityShapeData(shape).attributes[index] : undefined;
+        if (attribute) {
+          replacements.push({
+            kind,
+            shapeId: entityId,
+            index,
+            oldValue: attribute,
+            newValue: { ...attribute, name: newText },
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return replacements;
+}
@@ -0,0 +1,278 @@
+/**
+ * Image Export Utilities
+ * Serializes the rendered canvas content into a self-contained SVG and rasterizes it to PNG
+ *
+ * Shapes are HTML elements and connectors are SVG, so the content layer is cloned into an
+ * SVG <foreignObject>. Computed styles are inlined on every element so theme colors
+ * (CSS variables), fonts and marker definitions survive outside the app.
+ */
+
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import type { Bounds } from './resize';
+
+export type ImageExportFormat = 'svg' | 'png';
+export type ImageExportScale = 1 | 2 | 4;
+export type ImageExportBackground = 'transparent' | 'solid';
+
+export interface ImageExportOptions {
+  format: ImageExportFormat;
+  /** Pixel ratio for PNG export */
+  scale: ImageExportScale;
+  /** Crop to the diagram content instead of the visible viewport */
+  cropToContent: boolean;
+  /** Include overlay layers such as suggestions */
+  includeOverlays: boolean;
+  background: ImageExportBackground;
+}
+
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+  format: 'svg',
+  scale: 2,
+  cropToContent: true,
+  includeOverlays: false,
+  background: 'solid',
+};
+
+/** Attribute identifying a canvas content layer by diagram ID */
+export const CANVAS_CONTENT_ATTRIBUTE = 'data-canvas-content-id';
+
+/** Attribute marking elements that are never exported (handles, connection points, ...) */
+export const EXPORT_IGNORE_ATTRIBUTE = 'data-export-ignore';
+
+/** Space around the content when cropping, in canvas units */
+const EXPORT_CONTENT_PADDING = 20;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+// Inherited properties are always inlined: the exported root no longer inherits from the app
+const INHERITED_PROPERTIES = [
+  'color',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'line-height',
+  'letter-spacing',
+  'text-align',
+  'white-space',
+  'fill',
+  'stroke',
+];
+
+/**
+ * Get the bounds around the exported shapes and connector waypoints, with padding
+ *
+ * @param shapes - Shapes included in the export
+ * @param connectors - Connectors included in the export
+ * @returns Padded content bounds, or null when there is nothing to export
+ */
+export function getExportContentBounds(shapes: Shape[], connectors: Connector[]): Bounds | null {
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  for (const shape of shapes) {
+    xs.push(shape.x, shape.x + shape.width);
+    ys.push(shape.y, shape.y + shape.height);
+  }
+  for (const connector of connectors) {
+    for (const point of connector.points ?? []) {
+      xs.push(point.x);
+      ys.push(point.y);
+    }
+  }
+
+  if (xs.length === 0) return null;
+
+  const left = Math.min(...xs) - EXPORT_CONTENT_PADDING;
+  const top = Math.min(...ys) - EXPORT_CONTENT_PADDING;
+  return {
+    x: left,
+    y: top,
+    width: Math.max(...xs) + EXPORT_CONTENT_PADDING - left,
+    height: Math.max(...ys) + EXPORT_CONTENT_PADDING - top,
+  };
+}
+
+/**
+ * Serialize the canvas content layer into a standalone SVG document
+ * The content must be rendered at zoom 1; its viewport transform is replaced by a
+ * translation that moves `bounds` to the origin.
+ *
+ * @param content - Canvas content layer element (shapes and connectors)
+ * @param bounds - Region to export, in canvas coordinates
+ * @param backgroundColor - Solid background color, or null for a transparent background
+ * @returns SVG markup
+ */
+export function serializeCanvasToSvg(
+  content: HTMLElement,
+  bounds: Bounds,
+  backgroundColor: string | null
+): string {
+  const clone = content.cloneNode(true) as HTMLElement;
+
+  const sandbox = document.createElement('div');
+  sandbox.style.cssText = 'position:absolute;visibility:hidden;pointer-events:none;width:0;height:0;overflow:hidden;';
+  document.body.appendChild(sandbox);
+  try {
+    inlineComputedStyles(content, clone, sandbox, new Map());
+  } finally {
+    sandbox.remove();
+  }
+
+  clone.querySelectorAll(`[${EXPORT_IGNORE_ATTRIBUTE}]`).forEach((element) => element.remove());
+  clone.style.transform = `translate(${-bounds.x}px, ${-bounds.y}px)`;
+  clone.style.transformOrigin = '0 0';
+
+  const root = document.createElementNS(XHTML_NS, 'div') as HTMLDivElement;
+  root.style.position = 'relative';
+  root.style.overflow = 'hidden';
+  root.style.width = `${bounds.width}px`;
+  root.style.height = `${bounds.height}px`;
+  if (backgroundColor) {
+    root.style.backgroundColor = backgroundColor;
+  }
+  root.appendChild(clone);
+
+  const width = Math.ceil(bounds.width);
+  const height = Math.ceil(bounds.height);
+  const body = new XMLSerializer().serializeToString(root);
+
+  return (
+    `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<foreignObject x="0" y="0" width="${width}" height="${height}">${body}</foreignObject>` +
+    `</svg>`
+  );
+}
+
+/**
+ * Rasterize SVG markup to a PNG blob
+ *
+ * @param svg - SVG markup from serializeCanvasToSvg
+ * @param width - SVG width in pixels
+ * @param height - SVG height in pixels
+ * @param scale - Pixel ratio of the PNG
+ */
+export async function rasterizeSvg(
+  svg: string,
+  width: number,
+  height: number,
+  scale: ImageExportScale
+): Promise<Blob> {
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width * scale);
+  canvas.height = Math.ceil(height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  context.scale(scale, scale);
+  context.drawImage(image, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode PNG'));
+      }
+    }, 'image/png');
+  });
+}
+
+/**
+ * Trigger a browser download for a blob
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Build a file name from the diagram name
+ */
+export function getExportFileName(diagramName: string, format: ImageExportFormat): string {
+  const base = diagramName.trim().replace(/[^a-z0-9-_ ]/gi, '').replace(/\s+/g, '-') || 'diagram';
+  return `${base}.${format}`;
+}
+
+/**
+ * Copy computed styles from a rendered element tree onto its clone
+ * Only properties that differ from the element's defaults are written, plus inherited ones.
+ */
+function inlineComputedStyles(
+  source: Element,
+  target: Element,
+  sandbox: HTMLElement,
+  defaultsCache: Map<string, Map<string, string>>
+): void {
+  const computed = getComputedStyle(source);
+  const defaults = getDefaultStyles(source, sandbox, defaultsCache);
+  const declarations: string[] = [];
+
+  for (let i = 0; i < computed.length; i++) {
+    const property = computed[i];
+    const value = computed.getPropertyValue(property);
+    if (
+      !property.startsWith('--') &&
+      (INHERITED_PROPERTIES.includes(property) || defaults.get(property) !== value)
+    ) {
+      declarations.push(`${property}:${value}`);
+    }
+  }
+
+  target.setAttribute('style', declarations.join(';'));
+
+  for (let i = 0; i < source.children.length; i++) {
+    const targetChild = target.children[i];
+    if (targetChild) {
+      inlineComputedStyles(source.children[i], targetChild, sandbox, defaultsCache);
+    }
+  }
+}
+
+/**
+ * Get the computed styles of a bare element with the same tag, cached per tag
+ */
+function getDefaultStyles(
+  element: Element,
+  sandbox: HTMLElement,
+  cache: Map<string, Map<string, string>>
+): Map<string, string> {
+  const key = `${element.namespaceURI}:${element.localName}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const isSvg = element.namespaceURI === SVG_NS;
+  const host = isSvg ? document.createElementNS(SVG_NS, 'svg') : sandbox;
+  const probe = document.createElementNS(element.namespaceURI ?? XHTML_NS, element.localName);
+  host.appendChild(probe);
+  if (isSvg) sandbox.appendChild(host);
+
+  const computed = getComputedStyle(probe);
+  const defaults = new Map<string, string>();
+  for (let i = 0; i < computed.length; i++) {
+    defaults.set(computed[i], computed.getPropertyValue(computed[i]));
+  }
+
+  if (isSvg) {
+    host.remove();
+  } else {
+    probe.remove();
+  }
+
+  cache.set(key, defaults);
+  return defaults;
+}
@@ -7,6 +7,7 @@
 
 import type { Shape } from '@/entities/shape';
 import { snapToGrid } from './canvas';
+import { isContainerType } from './containment-utils';
 
 /**
  * Resize handle positions
@@ -36,6 +37,14 @@ export interface Bounds {
 export const MIN_CONTAINER_WIDTH = 100;
 export const MIN_CONTAINER_HEIGHT = 80;
 
+/**
+ * Check if a shape type can be resized with resize handles
+ * Containers and sequence combined fragments are resizable
+ */
+export function isResizableType(shapeType: string): boolean {
+  return isContainerType(shapeType) || shapeType === 'sequence-fragment';
+}
+
 /**
  * Check if a handle is a corner handle (locks aspect ratio)
  */
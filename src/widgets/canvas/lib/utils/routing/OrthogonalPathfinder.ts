@@ -10,10 +10,12 @@ import type {
   Direction,
   OrthogonalVisibilityGraph,
   SearchState,
+  Segment,
   VisitedNode,
 } from './types';
-import { ROUTING_CONSTANTS } from './constants';
+import { CANVAS_CONFIG, ROUTING_CONSTANTS } from './constants';
 import { DirectionHelpers, manhattanDistance, nodeId } from './geometry';
+import { WaypointGraphBuilder } from './WaypointGraphBuilder';
 
 /**
  * A* pathfinder for finding optimal orthogonal routes
@@ -21,10 +23,16 @@ import { DirectionHelpers, manhattanDistance, nodeId } from './geometry';
 export class OrthogonalPathfinder {
   private visitedNodes: VisitedNode[] = [];
 
+  /**
+   * @param bendCostWeight - Cost of a bend; raised when minimizing crossings so that
+   *   detours around other connectors stay simple
+   */
+  constructor(private readonly bendCostWeight: number = ROUTING_CONSTANTS.BEND_COST_WEIGHT) {}
+
   /**
    * Find optimal route through visibility graph using A* search
    *
-   * Cost function: combines path length and bend count
+   * Cost function: combines path length, bend count and crossings with other connectors
    * State: (node, entry_direction)
    */
   findRoute(
@@ -127,7 +135,11 @@ export class OrthogonalPathfinder {
         if (closedSet.has(neighborKey)) continue;
 
         // Calculate cost
-        const newLength = current.pathLength + edge.length;
+        // Crossings with other connectors count as extra path length
+        const newLength =
+          current.pathLength +
+          edge.length +
+          (edge.crossings ?? 0) * ROUTING_CONSTANTS.CROSSING_COST_WEIGHT;
         const newBends =
           current.bendCount + (edge.direction === current.entryDirection ? 0 : 1);
         const estimatedRemaining = this.estimateRemainingSegments(
@@ -142,7 +154,7 @@ export class OrthogonalPathfinder {
         );
         const newCost =
           newLength +
-          newBends * ROUTING_CONSTANTS.BEND_COST_WEIGHT +
+          newBends * this.bendCostWeight +
           estimatedRemainingLength +
           estimatedRemaining * ROUTING_CONSTANTS.ESTIMATED_SEGMENTS_WEIGHT;
 
@@ -172,6 +184,97 @@ export class OrthogonalPathfinder {
     return [start, end];
   }
 
+  /**
+   * Find a route that passes through user-pinned segments
+   *
+   * The pinned segments are kept exactly where the user put them (in order);
+   * the legs in between, and from/to the connection points, are routed around
+   * the obstacles. Each leg leaves its anchor in the direction the route is
+   * heading there: out of the connection point, or along the pinned segment.
+   */
+  findRouteThroughSegments(
+    start: Point,
+    end: Point,
+    startDir: Direction,
+    endDir: Direction,
+    pinnedSegments: Segment[],
+    shapes: Shape[]
+  ): Point[] {
+    const stubLength = CANVAS_CONFIG.routing.nudgeDistance;
+    const offset = (point: Point, direction: Direction): Point => {
+      switch (direction) {
+        case 'N':
+          return { x: point.x, y: point.y - stubLength };
+        case 'S':
+          return { x: point.x, y: point.y + stubLength };
+        case 'E':
+          return { x: point.x + stubLength, y: point.y };
+        case 'W':
+          return { x: point.x - stubLength, y: point.y };
+      }
+    };
+
+    // Leave and enter the connected shapes perpendicular to their sides
+    const startStub = offset(start, startDir);
+    const endStub = offset(end, endDir);
+
+    const route: Point[] = [start, startStub];
+    let legStart = startStub;
+    let legDirection = startDir;
+
+    for (const segment of pinnedSegments) {
+      const segmentDirection = this.getSegmentDirection(segment);
+      route.push(...this.findLegRoute(legStart, segment.from, legDirection, segmentDirection, shapes).slice(1));
+      route.push(segment.to);
+      legStart = segment.to;
+      legDirection = segmentDirection;
+    }
+
+    route.push(
+      ...this.findLegRoute(legStart, endStub, legDirection, DirectionHelpers.reverse(endDir), shapes).slice(1)
+    );
+    route.push(end);
+
+    return route;
+  }
+
+  /**
+   * Route one leg between two anchors of a pinned route
+   * Falls back to a single elbow when no obstacle-free route exists
+   */
+  private findLegRoute(
+    from: Point,
+    to: Point,
+    fromDir: Direction,
+    toDir: Direction,
+    shapes: Shape[]
+  ): Point[] {
+    if (from.x === to.x && from.y === to.y) {
+      return [from];
+    }
+
+    const graph = new WaypointGraphBuilder(from, to, shapes).build();
+    const route = this.findRoute(graph, from, to, fromDir, toDir, shapes);
+
+    if (route.length === 2 && from.x !== to.x && from.y !== to.y) {
+      const horizontalFirst = fromDir === 'E' || fromDir === 'W';
+      const elbow = horizontalFirst ? { x: to.x, y: from.y } : { x: from.x, y: to.y };
+      return [from, elbow, to];
+    }
+
+    return route;
+  }
+
+  /**
+   * Direction of travel along a pinned segment (N is up on screen)
+   */
+  private getSegmentDirection(segment: Segment): Direction {
+    if (segment.from.x === segment.to.x) {
+      return segment.to.y < segment.from.y ? 'N' : 'S';
+    }
+    return segment.to.x < segment.from.x ? 'W' : 'E';
+  }
+
   /**
    * Get the nodes visited during the last search (for debugging)
    */
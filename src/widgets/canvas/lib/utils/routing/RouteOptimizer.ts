@@ -3,6 +3,7 @@
  */
 
 import type { Shape, Point } from '@/entities/shape';
+import type { Segment } from './types';
 import { CANVAS_CONFIG } from './constants';
 
 /**
@@ -182,3 +183,98 @@ export function simplifyRoute(route: Point[]): Point[] {
 
   return simplified;
 }
+
+/**
+ * Get the point where two segments cross
+ * Returns null when they don't cross, only touch at an end point, or are parallel.
+ */
+export function getSegmentIntersection(a1: Point, a2: Point, b1: Point, b2: Point): Point | null {
+  const d1x = a2.x - a1.x;
+  const d1y = a2.y - a1.y;
+  const d2x = b2.x - b1.x;
+  const d2y = b2.y - b1.y;
+
+  const denominator = d1x * d2y - d1y * d2x;
+  if (denominator === 0) return null;
+
+  // Positions of the crossing along both segments (0 = start, 1 = end)
+  const t = ((b1.x - a1.x) * d2y - (b1.y - a1.y) * d2x) / denominator;
+  const u = ((b1.x - a1.x) * d1y - (b1.y - a1.y) * d1x) / denominator;
+  if (t <= 0 || t >= 1 || u <= 0 || u >= 1) return null;
+
+  return { x: a1.x + t * d1x, y: a1.y + t * d1y };
+}
+
+/** Axis-aligned segment: fixed coordinate and the range it spans on the other axis */
+interface AxisLine {
+  position: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Create a counter for the crossings of orthogonal edges with existing connector routes
+ * This is the crossing-aware cost of the router.
+ *
+ * Axis-aligned segments are indexed by their position, so counting the crossings of an
+ * edge only looks at the perpendicular segments within its extent. A crossing at the
+ * end of an edge is counted (at its start it is not), so a crossing on a graph node is
+ * counted once for a route passing through it.
+ */
+export function createCrossingCounter(segments: Segment[]): (from: Point, to: Point) => number {
+  const horizontal: AxisLine[] = [];
+  const vertical: AxisLine[] = [];
+  const other: Segment[] = [];
+
+  for (const segment of segments) {
+    const { from, to } = segment;
+    if (from.y === to.y && from.x !== to.x) {
+      horizontal.push({ position: from.y, min: Math.min(from.x, to.x), max: Math.max(from.x, to.x) });
+    } else if (from.x === to.x && from.y !== to.y) {
+      vertical.push({ position: from.x, min: Math.min(from.y, to.y), max: Math.max(from.y, to.y) });
+    } else if (from.x !== to.x) {
+      other.push(segment);
+    }
+  }
+  horizontal.sort((a, b) => a.position - b.position);
+  vertical.sort((a, b) => a.position - b.position);
+
+  // Count the lines positioned in (start, end] that span the crossing coordinate
+  const countAxisCrossings = (lines: AxisLine[], start: number, end: number, crossing: number): number => {
+    const low = Math.min(start, end);
+    const high = Math.max(start, end);
+
+    // Binary search for the first line at or after the low end
+    let left = 0;
+    let right = lines.length;
+    while (left < right) {
+      const mid = (left + right) >> 1;
+      if (lines[mid].position < low) left = mid + 1;
+      else right = mid;
+    }
+
+    let count = 0;
+    for (let i = left; i < lines.length && lines[i].position <= high; i++) {
+      const line = lines[i];
+      if (line.position !== start && crossing > line.min && crossing < line.max) {
+        count++;
+      }
+    }
+    return count;
+  };
+
+  return (from: Point, to: Point): number => {
+    let count = 0;
+    if (from.y === to.y) {
+      count += countAxisCrossings(vertical, from.x, to.x, from.y);
+    } else if (from.x === to.x) {
+      count += countAxisCrossings(horizontal, from.y, to.y, from.x);
+    }
+    for (const segment of other) {
+      if (getSegmentIntersection(from, to, segment.from, segment.to)) {
+        count++;
+      }
+    }
+    return count;
+  };
+}
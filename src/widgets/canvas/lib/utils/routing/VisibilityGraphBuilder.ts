@@ -16,6 +16,7 @@ import type {
   Segment,
 } from './types';
 import { CANVAS_CONFIG } from './constants';
+import { createCrossingCounter } from './RouteOptimizer';
 import {
   DirectionHelpers,
   manhattanDistance,
@@ -32,12 +33,18 @@ export class VisibilityGraphBuilder {
   private connectionPoints: ConnectionPoint[];
   private nodes: Map<string, VisibilityNode> = new Map();
   private edges: Map<string, VisibilityEdge[]> = new Map();
+  private crossingSegments: Segment[];
   private nudgeDistance: number;
   private maxExtensionDistance: number;
 
-  constructor(shapes: Shape[], connectionPoints?: ConnectionPoint[]) {
+  /**
+   * @param crossingSegments - Segments of existing connector routes; when given, each edge
+   *   records how many of them it crosses so the pathfinder can avoid crossings
+   */
+  constructor(shapes: Shape[], connectionPoints?: ConnectionPoint[], crossingSegments?: Segment[]) {
     this.shapes = shapes;
     this.connectionPoints = connectionPoints ?? [];
+    this.crossingSegments = crossingSegments ?? [];
     this.nudgeDistance = CANVAS_CONFIG.routing.nudgeDistance;
     this.maxExtensionDistance = CANVAS_CONFIG.routing.maxGraphConnectionDistance;
   }
@@ -90,9 +97,31 @@ export class VisibilityGraphBuilder {
     // Create base grid edges between all nodes
     this.createBaseGridEdges();
 
+    // Record crossings with existing connector routes
+    if (this.crossingSegments.length > 0) {
+      this.annotateEdgeCrossings();
+    }
+
     return { nodes: this.nodes, edges: this.edges };
   }
 
+  /**
+   * Count the existing connector segments each edge crosses
+   */
+  private annotateEdgeCrossings(): void {
+    const countCrossings = createCrossingCounter(this.crossingSegments);
+
+    for (const nodeEdges of this.edges.values()) {
+      for (const edge of nodeEdges) {
+        const from = this.nodes.get(edge.from);
+        const to = this.nodes.get(edge.to);
+        if (from && to) {
+          edge.crossings = countCrossings(from, to);
+        }
+      }
+    }
+  }
+
   /**
    * Get all interesting points from shapes with offset
    */
@@ -0,0 +1,138 @@
+/**
+ * Waypoint Graph Builder for routing between user-pinned route segments
+ *
+ * Builds a small orthogonal visibility grid for a single leg of a pinned route
+ * (from one anchor point to the next). The grid lines run through both anchors
+ * and along the offset boundaries of the obstacles near the leg, so the
+ * pathfinder can go around them.
+ *
+ * Directions follow the screen: N is up (decreasing y), S is down.
+ */
+
+import type { Shape, Point } from '@/entities/shape';
+import type { Direction, OrthogonalVisibilityGraph, VisibilityEdge, VisibilityNode } from './types';
+import { CANVAS_CONFIG } from './constants';
+import { nodeId } from './geometry';
+
+/**
+ * Builds the orthogonal visibility grid for one leg of a pinned route
+ */
+export class WaypointGraphBuilder {
+  private obstacles: Shape[];
+  private nudgeDistance: number;
+
+  constructor(
+    private readonly from: Point,
+    private readonly to: Point,
+    shapes: Shape[]
+  ) {
+    this.nudgeDistance = CANVAS_CONFIG.routing.nudgeDistance;
+
+    // Only shapes near the leg matter; shapes containing an anchor (e.g. the group
+    // a connected shape sits in) can't be avoided and are ignored
+    const margin = this.nudgeDistance * 2;
+    const minX = Math.min(from.x, to.x) - margin;
+    const maxX = Math.max(from.x, to.x) + margin;
+    const minY = Math.min(from.y, to.y) - margin;
+    const maxY = Math.max(from.y, to.y) + margin;
+
+    this.obstacles = shapes.filter(
+      (shape) =>
+        shape.x < maxX &&
+        shape.x + shape.width > minX &&
+        shape.y < maxY &&
+        shape.y + shape.height > minY &&
+        !this.containsPoint(shape, from) &&
+        !this.containsPoint(shape, to)
+    );
+  }
+
+  /**
+   * Build the visibility grid
+   */
+  build(): OrthogonalVisibilityGraph {
+    const nodes = new Map<string, VisibilityNode>();
+    const edges = new Map<string, VisibilityEdge[]>();
+
+    const xs = new Set<number>([this.from.x, this.to.x]);
+    const ys = new Set<number>([this.from.y, this.to.y]);
+    for (const shape of this.obstacles) {
+      xs.add(shape.x - this.nudgeDistance);
+      xs.add(shape.x + shape.width + this.nudgeDistance);
+      ys.add(shape.y - this.nudgeDistance);
+      ys.add(shape.y + shape.height + this.nudgeDistance);
+    }
+    const sortedXs = Array.from(xs).sort((a, b) => a - b);
+    const sortedYs = Array.from(ys).sort((a, b) => a - b);
+
+    // Grid nodes everywhere outside the obstacles
+    for (const x of sortedXs) {
+      for (const y of sortedYs) {
+        if (this.obstacles.some((shape) => this.containsPoint(shape, { x, y }))) continue;
+        const id = nodeId(x, y);
+        nodes.set(id, { x, y, id });
+        edges.set(id, []);
+      }
+    }
+
+    const connect = (a: VisibilityNode, b: VisibilityNode, forward: Direction, backward: Direction) => {
+      const length = Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+      edges.get(a.id)!.push({ from: a.id, to: b.id, direction: forward, length });
+      edges.get(b.id)!.push({ from: b.id, to: a.id, direction: backward, length });
+    };
+
+    // Connect neighbouring nodes along each row and column unless an obstacle is in between
+    for (const y of sortedYs) {
+      for (let i = 0; i < sortedXs.length - 1; i++) {
+        const a = nodes.get(nodeId(sortedXs[i], y));
+        const b = nodes.get(nodeId(sortedXs[i + 1], y));
+        if (a && b && !this.blocksHorizontal(a.x, b.x, y)) {
+          connect(a, b, 'E', 'W');
+        }
+      }
+    }
+    for (const x of sortedXs) {
+      for (let i = 0; i < sortedYs.length - 1; i++) {
+        const a = nodes.get(nodeId(x, sortedYs[i]));
+        const b = nodes.get(nodeId(x, sortedYs[i + 1]));
+        if (a && b && !this.blocksVertical(x, a.y, b.y)) {
+          connect(a, b, 'S', 'N');
+        }
+      }
+    }
+
+    return { nodes, edges };
+  }
+
+  /**
+   * Check if a point lies strictly inside a shape (its boundary is walkable)
+   */
+  private containsPoint(shape: Shape, point: Point): boolean {
+    return (
+      point.x > shape.x &&
+      point.x < shape.x + shape.width &&
+      point.y > shape.y &&
+      point.y < shape.y + shape.height
+    );
+  }
+
+  private blocksHorizontal(x1: number, x2: number, y: number): boolean {
+    return this.obstacles.some(
+      (shape) =>
+        y > shape.y &&
+        y < shape.y + shape.height &&
+        Math.max(x1, x2) > shape.x &&
+        Math.min(x1, x2) < shape.x + shape.width
+    );
+  }
+
+  private blocksVertical(x: number, y1: number, y2: number): boolean {
+    return this.obstacles.some(
+      (shape) =>
+        x > shape.x &&
+        x < shape.x + shape.width &&
+        Math.max(y1, y2) > shape.y &&
+        Math.min(y1, y2) < shape.y + shape.height
+    );
+  }
+}
@@ -15,6 +15,12 @@ export const ROUTING_CONSTANTS = {
   /** Cost weight for estimated remaining segments in A* heuristic */
   ESTIMATED_SEGMENTS_WEIGHT: 1,
 
+  /** Cost of crossing another connector, in pixels of path length (crossing-aware routing) */
+  CROSSING_COST_WEIGHT: 60,
+
+  /** Cost weight for bends when minimizing crossings, so detours don't add zigzags */
+  CROSSING_AWARE_BEND_COST_WEIGHT: 15,
+
   /** Precision for node ID generation (100 = 2 decimal places) */
   NODE_ID_PRECISION: 100,
 } as const;
@@ -13,13 +13,14 @@
  */
 
 import type { Shape, Point } from '@/entities/shape';
-import type { ConnectionPoint, OrthogonalVisibilityGraph, VisitedNode } from './types';
+import type { ConnectionPoint, OrthogonalVisibilityGraph, Segment, VisitedNode } from './types';
 import type { Direction } from './types';
 
 import { VisibilityGraphBuilder } from './VisibilityGraphBuilder';
 import { OrthogonalPathfinder } from './OrthogonalPathfinder';
 import { simplifyRoute } from './RouteOptimizer';
 import { RouteCache } from './RouteCache';
+import { ROUTING_CONSTANTS } from './constants';
 
 // Re-export types
 export type {
@@ -30,6 +31,7 @@ export type {
   RouteSegment,
   ConnectionPoint,
   VisitedNode,
+  Segment,
 } from './types';
 
 // Re-export utilities
@@ -37,11 +39,17 @@ export { DirectionHelpers, manhattanDistance } from './geometry';
 
 // Re-export classes
 export { VisibilityGraphBuilder } from './VisibilityGraphBuilder';
+export { WaypointGraphBuilder } from './WaypointGraphBuilder';
 export { OrthogonalPathfinder } from './OrthogonalPathfinder';
 export { RouteCache } from './RouteCache';
 
 // Re-export functions
-export { refineRoute, simplifyRoute } from './RouteOptimizer';
+export {
+  refineRoute,
+  simplifyRoute,
+  getSegmentIntersection,
+  createCrossingCounter,
+} from './RouteOptimizer';
 
 // Module-level cache instance
 const routeCache = new RouteCache();
@@ -65,6 +73,9 @@ export function clearVisibilityGraphCache(): void {
 
 /**
  * Main entry point: Find optimal orthogonal route between two points
+ *
+ * When crossingSegments are given (the routes of other connectors), the route is
+ * crossing-aware: it prefers paths with fewer crossings and fewer bends.
  */
 export function findOrthogonalRoute(
   start: Point,
@@ -72,17 +83,28 @@ export function findOrthogonalRoute(
   shapes: Shape[],
   startDir: Direction = 'E',
   endDir: Direction = 'W',
-  connectionPoints?: ConnectionPoint[]
+  connectionPoints?: ConnectionPoint[],
+  crossingSegments?: Segment[]
 ): Point[] {
   // Build visibility graph
-  const builder = new VisibilityGraphBuilder(shapes, connectionPoints);
+  const builder = new VisibilityGraphBuilder(shapes, connectionPoints, crossingSegments);
   const graph = builder.build();
 
   // Find optimal route
-  const pathfinder = new OrthogonalPathfinder();
+  const pathfinder = new OrthogonalPathfinder(
+    crossingSegments
+      ? ROUTING_CONSTANTS.CROSSING_AWARE_BEND_COST_WEIGHT
+      : ROUTING_CONSTANTS.BEND_COST_WEIGHT
+  );
   lastPathfinder = pathfinder;
   let route = pathfinder.findRoute(graph, start, end, startDir, endDir, shapes);
 
+  // The crossing costs make the search explore more; if it gives up (direct line
+  // fallback), route without them rather than cutting through the shapes
+  if (crossingSegments && route.length === 2 && route[0].x !== route[1].x && route[0].y !== route[1].y) {
+    return findOrthogonalRoute(start, end, shapes, startDir, endDir, connectionPoints);
+  }
+
   // Debug: Send graph data to debug overlay
   sendDebugData(graph, start, end, route, pathfinder.getVisitedNodes());
 
@@ -92,6 +114,25 @@ export function findOrthogonalRoute(
   return route;
 }
 
+/**
+ * Find an orthogonal route that passes through user-pinned segments
+ * The legs between the pinned segments avoid the shapes as obstacles.
+ */
+export function findPinnedOrthogonalRoute(
+  start: Point,
+  end: Point,
+  shapes: Shape[],
+  startDir: Direction,
+  endDir: Direction,
+  pinnedSegments: Segment[]
+): Point[] {
+  const pathfinder = new OrthogonalPathfinder();
+  const route = pathfinder.findRouteThroughSegments(start, end, startDir, endDir, pinnedSegments, shapes);
+
+  // Simplify by merging collinear segments
+  return simplifyRoute(route);
+}
+
 /**
  * Send debug data to the debug overlay (if available)
  */
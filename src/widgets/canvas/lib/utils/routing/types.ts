@@ -20,6 +20,8 @@ export interface VisibilityEdge {
   to: string; // node id
   direction: Direction;
   length: number;
+  /** Number of existing connector segments the edge crosses (crossing-aware routing) */
+  crossings?: number;
 }
 
 /** Orthogonal visibility graph structure */
@@ -0,0 +1,355 @@
+/**
+ * Smart Guide Utilities
+ * Snapping of edges and centers to nearby shapes, with equal-spacing detection
+ *
+ * Candidate shapes are looked up through a SpatialIndex built once when an interaction
+ * starts, so each mouse move only inspects the shapes around the moving bounds.
+ */
+
+import type { Shape } from '@/entities/shape';
+import type { Bounds } from './resize';
+import { SpatialIndex } from './spatial-index';
+
+/** Snap distance in screen pixels (converted to canvas units with the zoom level) */
+export const SMART_GUIDE_SNAP_THRESHOLD = 6;
+
+/** Distance around the moving bounds searched for candidates, in screen pixels */
+export const SMART_GUIDE_SEARCH_RADIUS = 800;
+
+export type GuideAxis = 'x' | 'y';
+export type SnapAnchor = 'start' | 'center' | 'end';
+
+/**
+ * Line shared by the moving bounds and one or more nearby shapes
+ * An 'x' guide is a vertical line at x = position; a 'y' guide is a horizontal line.
+ */
+export interface AlignmentGuide {
+  kind: 'alignment';
+  axis: GuideAxis;
+  position: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Equal gaps between neighboring shapes along an axis
+ * Gaps are drawn at the cross-axis coordinate `position`.
+ */
+export interface SpacingGuide {
+  kind: 'spacing';
+  axis: GuideAxis;
+  position: number;
+  gaps: Array<{ start: number; end: number }>;
+}
+
+export type SnapGuide = AlignmentGuide | SpacingGuide;
+
+export interface SmartSnapOptions {
+  /** Current zoom level, used to keep the threshold constant on screen */
+  zoom: number;
+  /** Edges/center of the moving bounds that may snap horizontally (default: all) */
+  anchorsX?: SnapAnchor[];
+  /** Edges/center of the moving bounds that may snap vertically (default: all) */
+  anchorsY?: SnapAnchor[];
+  /** Whether to snap to equal spacing between neighbors */
+  includeSpacing?: boolean;
+}
+
+export interface SmartSnapResult {
+  /** Offset to add to the moving bounds on each axis, or null when nothing snapped */
+  offsetX: number | null;
+  offsetY: number | null;
+  /** Guides to display for the snapped bounds */
+  guides: SnapGuide[];
+}
+
+interface SnapCandidate {
+  offset: number;
+  guide: (snapped: Bounds) => SnapGuide;
+}
+
+const ALL_ANCHORS: SnapAnchor[] = ['start', 'center', 'end'];
+
+// Offsets closer than this are treated as the same snap
+const SNAP_EPSILON = 0.5;
+
+/**
+ * Build a spatial index of the shapes that can be snapped to
+ * Preview shapes and the shapes being moved or resized are skipped.
+ *
+ * @param shapes - All shapes in the diagram
+ * @param excludeIds - Shapes taking part in the interaction
+ */
+export function buildSnapIndex(shapes: Shape[], excludeIds: Set<string>): SpatialIndex {
+  return new SpatialIndex(
+    shapes
+      .filter((shape) => !shape.isPreview && !excludeIds.has(shape.id))
+      .map((shape) => ({
+        id: shape.id,
+        bounds: { x: shape.x, y: shape.y, width: shape.width, height: shape.height },
+      }))
+  );
+}
+
+/**
+ * Get the bounding box around several bounds
+ */
+export function getCombinedBounds(bounds: Bounds[]): Bounds | null {
+  if (bounds.length === 0) return null;
+
+  const left = Math.min(...bounds.map((b) => b.x));
+  const top = Math.min(...bounds.map((b) => b.y));
+  const right = Math.max(...bounds.map((b) => b.x + b.width));
+  const bottom = Math.max(...bounds.map((b) => b.y + b.height));
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Snap moving bounds to the edges, centers and spacing of nearby shapes
+ * Each axis snaps independently to its closest candidate within the threshold.
+ *
+ * @param moving - Bounds being dragged or resized, before snapping
+ * @param index - Spatial index of the shapes that can be snapped to
+ * @param options - Zoom level and which anchors/spacing to consider
+ * @returns Offsets to apply per axis and the guides to display
+ */
+export function computeSmartSnap(
+  moving: Bounds,
+  index: SpatialIndex,
+  options: SmartSnapOptions
+): SmartSnapResult {
+  const { zoom, anchorsX = ALL_ANCHORS, anchorsY = ALL_ANCHORS, includeSpacing = true } = options;
+  const threshold = SMART_GUIDE_SNAP_THRESHOLD / zoom;
+  const radius = SMART_GUIDE_SEARCH_RADIUS / zoom;
+
+  const nearby = index
+    .query({
+      x: moving.x - radius,
+      y: moving.y - radius,
+      width: moving.width + radius * 2,
+      height: moving.height + radius * 2,
+    })
+    .map((entry) => entry.bounds);
+
+  if (nearby.length === 0) {
+    return { offsetX: null, offsetY: null, guides: [] };
+  }
+
+  const snapX = findAxisSnap('x', moving, nearby, anchorsX, includeSpacing, threshold);
+  const snapY = findAxisSnap('y', moving, nearby, anchorsY, includeSpacing, threshold);
+
+  const offsetX = snapX.length > 0 ? snapX[0].offset : null;
+  const offsetY = snapY.length > 0 ? snapY[0].offset : null;
+  const snapped: Bounds = {
+    ...moving,
+    x: moving.x + (offsetX ?? 0),
+    y: moving.y + (offsetY ?? 0),
+  };
+
+  return {
+    offsetX,
+    offsetY,
+    guides: mergeAlignmentGuides([...snapX, ...snapY].map((candidate) => candidate.guide(snapped))),
+  };
+}
+
+/**
+ * Find the closest snap on one axis
+ * Returns every candidate sharing the closest offset so all matching guides are shown.
+ */
+function findAxisSnap(
+  axis: GuideAxis,
+  moving: Bounds,
+  nearby: Bounds[],
+  anchors: SnapAnchor[],
+  includeSpacing: boolean,
+  threshold: number
+): SnapCandidate[] {
+  if (anchors.length === 0) return [];
+
+  const candidates = [
+    ...findAlignmentCandidates(axis, moving, nearby, anchors, threshold),
+    ...(includeSpacing ? findSpacingCandidates(axis, moving, nearby) : []),
+  ].filter((candidate) => Math.abs(candidate.offset) <= threshold);
+
+  if (candidates.length === 0) return [];
+
+  const best = candidates.reduce((closest, candidate) =>
+    Math.abs(candidate.offset) < Math.abs(closest.offset) ? candidate : closest
+  );
+
+  return candidates
+    .filter((candidate) => Math.abs(candidate.offset - best.offset) < SNAP_EPSILON)
+    .map((candidate) => ({ ...candidate, offset: best.offset }));
+}
+
+/**
+ * Candidates aligning an anchor of the moving bounds with an edge or center of a nearby shape
+ */
+function findAlignmentCandidates(
+  axis: GuideAxis,
+  moving: Bounds,
+  nearby: Bounds[],
+  anchors: SnapAnchor[],
+  threshold: number
+): SnapCandidate[] {
+  const candidates: SnapCandidate[] = [];
+
+  for (const target of nearby) {
+    for (const targetAnchor of ALL_ANCHORS) {
+      const position = getAnchor(target, axis, targetAnchor);
+
+      for (const anchor of anchors) {
+        const offset = position - getAnchor(moving, axis, anchor);
+        if (Math.abs(offset) > threshold) continue;
+
+        candidates.push({
+          offset,
+          guide: (snapped) => {
+            const cross = crossAxis(axis);
+            return {
+              kind: 'alignment',
+              axis,
+              position,
+              start: Math.min(getStart(snapped, cross), getStart(target, cross)),
+              end: Math.max(getEnd(snapped, cross), getEnd(target, cross)),
+            };
+          },
+        });
+      }
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Candidates placing the moving bounds at an equal gap from its neighbors
+ * Covers centering between two neighbors and repeating the gap of an adjacent pair.
+ */
+function findSpacingCandidates(axis: GuideAxis, moving: Bounds, nearby: Bounds[]): SnapCandidate[] {
+  const cross = crossAxis(axis);
+  const size = getSize(moving, axis);
+  const movingStart = getStart(moving, axis);
+  const movingCenter = getAnchor(moving, axis, 'center');
+
+  // Shapes in the same row (or column) as the moving bounds
+  const row = nearby.filter(
+    (b) => getStart(b, cross) < getEnd(moving, cross) && getEnd(b, cross) > getStart(moving, cross)
+  );
+
+  const before = row
+    .filter((b) => getEnd(b, axis) <= movingCenter && getAnchor(b, axis, 'center') < movingCenter)
+    .sort((a, b) => getEnd(b, axis) - getEnd(a, axis));
+  const after = row
+    .filter((b) => getStart(b, axis) >= movingCenter && getAnchor(b, axis, 'center') > movingCenter)
+    .sort((a, b) => getStart(a, axis) - getStart(b, axis));
+
+  const prev = before[0];
+  const next = after[0];
+  const candidates: SnapCandidate[] = [];
+
+  const spacingCandidate = (
+    targetStart: number,
+    getGaps: (snappedStart: number) => Array<{ start: number; end: number }>
+  ): SnapCandidate => ({
+    offset: targetStart - movingStart,
+    guide: (snapped) => ({
+      kind: 'spacing',
+      axis,
+      position: getAnchor(snapped, cross, 'center'),
+      gaps: getGaps(getStart(snapped, axis)),
+    }),
+  });
+
+  // Centered between the nearest neighbors
+  if (prev && next && getStart(next, axis) - getEnd(prev, axis) >= size) {
+    const targetStart = (getEnd(prev, axis) + getStart(next, axis) - size) / 2;
+    candidates.push(
+      spacingCandidate(targetStart, (start) => [
+        { start: getEnd(prev, axis), end: start },
+        { start: start + size, end: getStart(next, axis) },
+      ])
+    );
+  }
+
+  // Same gap as the pair before the moving bounds
+  const prevPrev = prev && before.find((b) => getEnd(b, axis) <= getStart(prev, axis));
+  if (prev && prevPrev) {
+    const gap = getStart(prev, axis) - getEnd(prevPrev, axis);
+    candidates.push(
+      spacingCandidate(getEnd(prev, axis) + gap, (start) => [
+        { start: getEnd(prevPrev, axis), end: getStart(prev, axis) },
+        { start: getEnd(prev, axis), end: start },
+      ])
+    );
+  }
+
+  // Same gap as the pair after the moving bounds
+  const nextNext = next && after.find((b) => getStart(b, axis) >= getEnd(next, axis));
+  if (next && nextNext) {
+    const gap = getStart(nextNext, axis) - getEnd(next, axis);
+    candidates.push(
+      spacingCandidate(getStart(next, axis) - gap - size, (start) => [
+        { start: start + size, end: getStart(next, axis) },
+        { start: getEnd(next, axis), end: getStart(nextNext, axis) },
+      ])
+    );
+  }
+
+  return candidates;
+}
+
+/**
+ * Merge alignment guides on the same line into a single guide spanning all matches
+ */
+function mergeAlignmentGuides(guides: SnapGuide[]): SnapGuide[] {
+  const merged = new Map<string, AlignmentGuide>();
+  const result: SnapGuide[] = [];
+
+  for (const guide of guides) {
+    if (guide.kind !== 'alignment') {
+      result.push(guide);
+      continue;
+    }
+
+    const key = `${guide.axis}:${Math.round(guide.position)}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.start = Math.min(existing.start, guide.start);
+      existing.end = Math.max(existing.end, guide.end);
+    } else {
+      merged.set(key, { ...guide });
+    }
+  }
+
+  return [...merged.values(), ...result];
+}
+
+function crossAxis(axis: GuideAxis): GuideAxis {
+  return axis === 'x' ? 'y' : 'x';
+}
+
+function getStart(bounds: Bounds, axis: GuideAxis): number {
+  return axis === 'x' ? bounds.x : bounds.y;
+}
+
+function getSize(bounds: Bounds, axis: GuideAxis): number {
+  return axis === 'x' ? bounds.width : bounds.height;
+}
+
+function getEnd(bounds: Bounds, axis: GuideAxis): number {
+  return getStart(bounds, axis) + getSize(bounds, axis);
+}
+
+function getAnchor(bounds: Bounds, axis: GuideAxis, anchor: SnapAnchor): number {
+  switch (anchor) {
+    case 'start':
+      return getStart(bounds, axis);
+    case 'center':
+      return getStart(bounds, axis) + getSize(bounds, axis) / 2;
+    case 'end':
+      return getEnd(bounds, axis);
+  }
+}
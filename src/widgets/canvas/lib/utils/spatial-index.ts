@@ -0,0 +1,80 @@
+/**
+ * Spatial Index
+ * Uniform grid index for looking up shapes near a region without scanning every shape
+ */
+
+import type { Bounds } from './resize';
+
+export interface SpatialIndexEntry {
+  id: string;
+  bounds: Bounds;
+}
+
+const DEFAULT_CELL_SIZE = 200;
+
+/**
+ * Uniform grid spatial index
+ *
+ * Each entry is registered in every cell its bounds overlap, so a query only
+ * visits the cells covered by the query region. Built once per interaction
+ * (e.g. on drag start) and queried on every mouse move.
+ */
+export class SpatialIndex {
+  private cells: Map<string, SpatialIndexEntry[]> = new Map();
+  private readonly cellSize: number;
+
+  constructor(entries: SpatialIndexEntry[] = [], cellSize: number = DEFAULT_CELL_SIZE) {
+    this.cellSize = cellSize;
+    entries.forEach((entry) => this.insert(entry));
+  }
+
+  /**
+   * Add an entry to every cell overlapped by its bounds
+   */
+  insert(entry: SpatialIndexEntry): void {
+    this.forEachCell(entry.bounds, (key) => {
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.push(entry);
+      } else {
+        this.cells.set(key, [entry]);
+      }
+    });
+  }
+
+  /**
+   * Get the entries whose cells overlap the given region
+   * Entries are deduplicated; callers should still test exact geometry.
+   */
+  query(region: Bounds): SpatialIndexEntry[] {
+    const seen = new Set<string>();
+    const results: SpatialIndexEntry[] = [];
+
+    this.forEachCell(region, (key) => {
+      const cell = this.cells.get(key);
+      if (!cell) return;
+
+      for (const entry of cell) {
+        if (!seen.has(entry.id)) {
+          seen.add(entry.id);
+          results.push(entry);
+        }
+      }
+    });
+
+    return results;
+  }
+
+  private forEachCell(bounds: Bounds, callback: (key: string) => void): void {
+    const minCol = Math.floor(bounds.x / this.cellSize);
+    const maxCol = Math.floor((bounds.x + bounds.width) / this.cellSize);
+    const minRow = Math.floor(bounds.y / this.cellSize);
+    const maxRow = Math.floor((bounds.y + bounds.height) / this.cellSize);
+
+    for (let col = minCol; col <= maxCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        callback(`${col}:${row}`);
+      }
+    }
+  }
+}
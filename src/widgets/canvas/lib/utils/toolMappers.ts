@@ -3,13 +3,16 @@
  * Functions that map diagram tools to CreateShapeDTO objects
  */
 
-import type { CreateShapeDTO } from '@/entities/shape';
+import { ANNOTATION_OVERLAY_TAG, type CreateShapeDTO } from '@/entities/shape';
 import type { Tool as BpmnTool } from '@/features/diagram-rendering/bpmn/tools';
 import type { Tool as ClassTool } from '@/features/diagram-rendering/class/tools';
 import type { Tool as SequenceTool } from '@/features/diagram-rendering/sequence/tools';
 import type { Tool as ArchitectureTool } from '@/features/diagram-rendering/architecture/tools';
 import type { Tool as EntityRelationshipTool } from '@/features/diagram-rendering/entity-relationship/tools';
+import type { Tool as DataflowTool } from '@/features/diagram-rendering/dataflow/tools';
+import type { Tool as WireframeTool } from '@/features/diagram-rendering/wireframe/tools';
 import type { Tool as GlobalTool } from '../config/global-tools';
+import { createAnnotationData } from './annotations';
 
 /**
  * Maps a BPMN tool to a CreateShapeDTO
@@ -182,6 +185,23 @@ export function mapGlobalToolToShape(
     };
   }
 
+  // Annotations go on the annotation overlay, stamped with author and time
+  if (tool.shapeType.startsWith('annotation-')) {
+    return {
+      type: tool.shapeType,
+      x: canvasX - tool.defaultSize.width / 2 + offsetX,
+      y: canvasY - tool.defaultSize.height / 2 + offsetY,
+      width: tool.defaultSize.width,
+      height: tool.defaultSize.height,
+      label: tool.shapeType === 'annotation-text' ? 'Text' : '',
+      zIndex: 0,
+      locked: false,
+      isPreview: false,
+      overlayTag: ANNOTATION_OVERLAY_TAG,
+      data: createAnnotationData(),
+    };
+  }
+
   // Default mapping for other global tools
   return {
     type: tool.shapeType,
@@ -229,3 +249,69 @@ export function mapEntityRelationshipToolToShape(
     data: tool.initialData,
   };
 }
+
+/**
+ * Maps a Data Flow diagram tool to a CreateShapeDTO
+ * Centers the shape at the canvas coordinates and includes initial data
+ * Applies optional creationOffset for positioning adjustment
+ *
+ * @param tool - The Data Flow tool to map
+ * @param canvasX - X coordinate on the canvas
+ * @param canvasY - Y coordinate on the canvas
+ * @returns CreateShapeDTO for the shape to be created
+ */
+export function mapDataflowToolToShape(
+  tool: DataflowTool,
+  canvasX: number,
+  canvasY: number
+): CreateShapeDTO {
+  const offsetX = tool.creationOffset?.x ?? 0;
+  const offsetY = tool.creationOffset?.y ?? 0;
+
+  return {
+    type: tool.shapeType,
+    subtype: tool.shapeSubtype,
+    x: canvasX - tool.defaultSize.width / 2 + offsetX,
+    y: canvasY - tool.defaultSize.height / 2 + offsetY,
+    width: tool.defaultSize.width,
+    height: tool.defaultSize.height,
+    label: tool.name,
+    zIndex: 0,
+    locked: false,
+    isPreview: false,
+    data: tool.initialData,
+  };
+}
+
+/**
+ * Maps an interface wireframe tool to a CreateShapeDTO
+ * Centers the shape at the canvas coordinates and includes initial data (fidelity, table size, nav items)
+ * Applies optional creationOffset for positioning adjustment
+ *
+ * @param tool - The wireframe tool to map
+ * @param canvasX - X coordinate on the canvas
+ * @param canvasY - Y coordinate on the canvas
+ * @returns CreateShapeDTO for the shape to be created
+ */
+export function mapWireframeToolToShape(
+  tool: WireframeTool,
+  canvasX: number,
+  canvasY: number
+): CreateShapeDTO {
+  const offsetX = tool.creationOffset?.x ?? 0;
+  const offsetY = tool.creationOffset?.y ?? 0;
+
+  return {
+    type: tool.shapeType,
+    subtype: tool.shapeSubtype,
+    x: canvasX - tool.defaultSize.width / 2 + offsetX,
+    y: canvasY - tool.defaultSize.height / 2 + offsetY,
+    width: tool.defaultSize.width,
+    height: tool.defaultSize.height,
+    label: tool.name,
+    zIndex: 0,
+    locked: false,
+    isPreview: false,
+    data: tool.initialData,
+  };
+}
@@ -1,17 +1,34 @@
 import React from 'react';
-import { TbGridDots, TbLayoutGrid, TbMagnet, TbMagnetOff } from 'react-icons/tb';
+import { TbBrush, TbFocusCentered, TbGridDots, TbHierarchy2, TbLayoutAlignLeft, TbLayoutGrid, TbMagnet, TbMagnetOff, TbPalette, TbPencil, TbPencilOff, TbRuler2, TbRuler2Off, TbZoomScan } from 'react-icons/tb';
 import type { ToolbarButton } from '../../ui/toolbar/CanvasToolbar';
 
 export interface ToolbarConfigParams {
   diagramType: string | undefined;
   gridSnappingEnabled: boolean;
+  smartGuidesEnabled: boolean;
   gridDisplayMode: 'dots' | 'lines';
+  penModeEnabled: boolean;
   activeConnectorIcon: React.ReactNode;
   zoom: number;
+  arrangeableShapeCount: number;
+  selectedShapeCount: number;
+  autoLayoutAvailable: boolean;
+  autoLayoutScope: 'selection' | 'diagram';
+  styledElementCount: number;
+  styleInspectorOpen: boolean;
+  formatPainterActive: boolean;
   setGridSnappingEnabled: (enabled: boolean) => void;
+  setSmartGuidesEnabled: (enabled: boolean) => void;
   setGridDisplayMode: (mode: 'dots' | 'lines') => void;
+  setPenModeEnabled: (enabled: boolean) => void;
   handleConnectorToolbarClick: (buttonElement?: HTMLButtonElement) => void;
-  handleZoomReset: () => void;
+  handleArrangeToolbarClick: (buttonElement?: HTMLButtonElement) => void;
+  handleAutoLayoutToolbarClick: (buttonElement?: HTMLButtonElement) => void;
+  handleStyleInspectorToggle: () => void;
+  handleFormatPainterClick: () => void;
+  handleZoomToFit: () => void;
+  handleZoomToSelection: () => void;
+  handleZoomTo100: () => void;
 }
 
 /**
@@ -23,19 +40,36 @@ export function createToolbarButtons(params: ToolbarConfigParams): ToolbarButton
   const {
     diagramType,
     gridSnappingEnabled,
+    smartGuidesEnabled,
     gridDisplayMode,
+    penModeEnabled,
     activeConnectorIcon,
     zoom,
+    arrangeableShapeCount,
+    selectedShapeCount,
+    autoLayoutAvailable,
+    autoLayoutScope,
+    styledElementCount,
+    styleInspectorOpen,
+    formatPainterActive,
     setGridSnappingEnabled,
+    setSmartGuidesEnabled,
     setGridDisplayMode,
+    setPenModeEnabled,
     handleConnectorToolbarClick,
-    handleZoomReset,
+    handleArrangeToolbarClick,
+    handleAutoLayoutToolbarClick,
+    handleStyleInspectorToggle,
+    handleFormatPainterClick,
+    handleZoomToFit,
+    handleZoomToSelection,
+    handleZoomTo100,
   } = params;
 
   const buttons: ToolbarButton[] = [];
 
-  // Only show connector button for BPMN, Class, Sequence, and Entity Relationship diagrams
-  if (diagramType === 'bpmn' || diagramType === 'class' || diagramType === 'sequence' || diagramType === 'entity-relationship') {
+  // Only show connector button for BPMN, Class, Sequence, Entity Relationship, Data Flow, and wireframe canvases
+  if (diagramType === 'bpmn' || diagramType === 'class' || diagramType === 'sequence' || diagramType === 'entity-relationship' || diagramType === 'dataflow' || diagramType === 'wireframe') {
     buttons.push({
       id: 'connector-type',
       icon: activeConnectorIcon,
@@ -45,6 +79,58 @@ export function createToolbarButtons(params: ToolbarConfigParams): ToolbarButton
     });
   }
 
+  // Align/distribute/match size apply to multi-selection only
+  buttons.push({
+    id: 'arrange',
+    icon: <TbLayoutAlignLeft size={16} />,
+    onClick: handleArrangeToolbarClick,
+    tooltip: arrangeableShapeCount >= 2 ? 'Align, distribute or match size' : 'Select at least 2 shapes to arrange',
+    disabled: arrangeableShapeCount < 2,
+    active: false,
+  });
+
+  // Auto-layout is offered for diagram types with a registered layout algorithm
+  if (autoLayoutAvailable) {
+    buttons.push({
+      id: 'auto-layout',
+      icon: <TbHierarchy2 size={16} />,
+      onClick: handleAutoLayoutToolbarClick,
+      tooltip: autoLayoutScope === 'selection' ? 'Auto-layout selection' : 'Auto-layout diagram',
+      active: false,
+    });
+  }
+
+  buttons.push({
+    id: 'style-inspector',
+    icon: <TbPalette size={16} />,
+    onClick: handleStyleInspectorToggle,
+    tooltip: styleInspectorOpen ? 'Hide style inspector' : 'Show style inspector',
+    active: styleInspectorOpen,
+  });
+
+  // The format painter copies the style of the selected element onto the next one clicked
+  buttons.push({
+    id: 'format-painter',
+    icon: <TbBrush size={16} />,
+    onClick: handleFormatPainterClick,
+    tooltip: formatPainterActive
+      ? 'Click a shape or connector to paste the style (Esc to cancel)'
+      : styledElementCount > 0
+        ? 'Copy style of the selection'
+        : 'Select a shape or connector to copy its style',
+    disabled: !formatPainterActive && styledElementCount === 0,
+    active: formatPainterActive,
+  });
+
+  // Pen mode draws freehand ink on the annotation layer
+  buttons.push({
+    id: 'pen-mode',
+    icon: penModeEnabled ? <TbPencilOff size={16} /> : <TbPencil size={16} />,
+    onClick: () => setPenModeEnabled(!penModeEnabled),
+    tooltip: penModeEnabled ? 'Stop drawing (Esc)' : 'Draw freehand annotations',
+    active: penModeEnabled,
+  });
+
   buttons.push({
     id: 'grid-snap',
     icon: gridSnappingEnabled ? <TbMagnetOff size={16} /> : <TbMagnet size={16} />,
@@ -53,6 +139,15 @@ export function createToolbarButtons(params: ToolbarConfigParams): ToolbarButton
     active: gridSnappingEnabled,
   });
 
+  // Smart guides snap to nearby shapes and work alongside grid snapping
+  buttons.push({
+    id: 'smart-guides',
+    icon: smartGuidesEnabled ? <TbRuler2Off size={16} /> : <TbRuler2 size={16} />,
+    onClick: () => setSmartGuidesEnabled(!smartGuidesEnabled),
+    tooltip: smartGuidesEnabled ? 'Disable smart guides' : 'Enable smart guides (snap to nearby shapes)',
+    active: smartGuidesEnabled,
+  });
+
   buttons.push({
     id: 'grid-display',
     icon: gridDisplayMode === 'dots' ? <TbLayoutGrid size={16} /> : <TbGridDots size={16} />,
@@ -61,11 +156,28 @@ export function createToolbarButtons(params: ToolbarConfigParams): ToolbarButton
     active: gridDisplayMode === 'lines',
   });
 
+  buttons.push({
+    id: 'zoom-to-fit',
+    icon: <TbZoomScan size={16} />,
+    onClick: handleZoomToFit,
+    tooltip: 'Zoom to fit (Shift+1)',
+    active: false,
+  });
+
+  buttons.push({
+    id: 'zoom-to-selection',
+    icon: <TbFocusCentered size={16} />,
+    onClick: handleZoomToSelection,
+    tooltip: selectedShapeCount > 0 ? 'Zoom to selection (Shift+2)' : 'Select shapes to zoom to',
+    disabled: selectedShapeCount === 0,
+    active: false,
+  });
+
   buttons.push({
     id: 'zoom-reset',
     label: `${Math.round(zoom * 100)}%`,
-    onClick: handleZoomReset,
-    tooltip: 'Reset zoom and pan to default',
+    onClick: handleZoomTo100,
+    tooltip: 'Zoom to 100% (Ctrl/Cmd+0)',
     active: false,
     className: 'w-[48px] text-xs font-mono',
   });
@@ -4,3 +4,6 @@ export { useCanvasToolManager } from './useCanvasToolManager';
 export { useCanvasEventOrchestrator } from './useCanvasEventOrchestrator';
 export { useCanvasMouseOrchestration } from './useCanvasMouseOrchestration';
 export { useCanvasPasteHandler } from './useCanvasPasteHandler';
+export { useCanvasClipboard } from './useCanvasClipboard';
+export { useCanvasCollaboration } from './useCanvasCollaboration';
+export { useCanvasComments } from './useCanvasComments';
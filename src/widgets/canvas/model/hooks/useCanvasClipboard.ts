@@ -0,0 +1,163 @@
+/**
+ * Canvas Clipboard Hook
+ *
+ * Copy, cut, paste and duplicate for the canvas selection.
+ * - Copy/cut listen for the native clipboard events and write the selection
+ *   (with descendants and internal connectors) to the system clipboard
+ * - Paste is triggered by useCanvasPasteHandler when the clipboard holds canvas content
+ * - Duplicate pastes the selection next to itself without touching the clipboard
+ *
+ * Pastes go through CommandFactory as a single undoable command.
+ */
+
+import { useCallback, useEffect } from 'react';
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+import type { DiagramType } from '@/entities/diagram';
+import type { CommandFactory } from '@/features/canvas-commands/model/CommandFactory';
+import { commandManager } from '@/shared/model/commands';
+import { toast } from '@/shared/lib/utils';
+import {
+  buildCanvasClipboard,
+  serializeCanvasClipboard,
+  instantiateCanvasClipboard,
+  getCanvasClipboardOrigin,
+  DUPLICATE_OFFSET,
+  type CanvasClipboard,
+} from '../../lib/utils/clipboard';
+
+interface UseCanvasClipboardProps {
+  diagramId: string;
+  diagramType: DiagramType | undefined;
+  shapes: Shape[];
+  connectors: Connector[];
+  selectedShapeIds: string[];
+  commandFactory: CommandFactory;
+  deleteShapes: ((shapeIds: string[]) => Promise<void>) | undefined;
+  setSelection: (shapeIds: string[], connectorIds: string[]) => void;
+  enabled: boolean;
+}
+
+/**
+ * Check if clipboard events should be left to the browser
+ * (an input is focused or the user has selected text on the page)
+ */
+function shouldIgnoreClipboardEvent(): boolean {
+  const activeElement = document.activeElement;
+  const isInputFocused =
+    activeElement instanceof HTMLInputElement ||
+    activeElement instanceof HTMLTextAreaElement ||
+    activeElement?.hasAttribute('contenteditable');
+
+  const selection = window.getSelection();
+  const hasTextSelection = !!selection && !selection.isCollapsed;
+
+  return !!isInputFocused || hasTextSelection;
+}
+
+export function useCanvasClipboard({
+  diagramId,
+  diagramType,
+  shapes,
+  connectors,
+  selectedShapeIds,
+  commandFactory,
+  deleteShapes,
+  setSelection,
+  enabled,
+}: UseCanvasClipboardProps) {
+  /**
+   * Build the clipboard payload for the current selection
+   */
+  const copySelection = useCallback((): CanvasClipboard | null => {
+    if (!diagramType || selectedShapeIds.length === 0) {
+      return null;
+    }
+    return buildCanvasClipboard(diagramType, shapes, connectors, selectedShapeIds);
+  }, [diagramType, shapes, connectors, selectedShapeIds]);
+
+  /**
+   * Paste clipboard content with its top-left corner at the given canvas position
+   * Only content copied from a diagram of the same type can be pasted.
+   */
+  const pasteClipboard = useCallback(
+    async (clipboard: CanvasClipboard, position: { x: number; y: number }) => {
+      if (clipboard.diagramType !== diagramType) {
+        toast.error(`Cannot paste ${clipboard.diagramType} shapes into a ${diagramType} diagram`);
+        return;
+      }
+
+      const { shapes: pastedShapes, connectors: pastedConnectors } = instantiateCanvasClipboard(
+        clipboard,
+        position
+      );
+
+      try {
+        const command = commandFactory.createPasteEntities(diagramId, pastedShapes, pastedConnectors);
+        await commandManager.execute(command, diagramId);
+
+        // Select the pasted shapes so they can be moved right away
+        setSelection(pastedShapes.map((shape) => shape.id), []);
+      } catch (error) {
+        console.error('Failed to paste shapes:', error);
+        toast.error(`Failed to paste: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+    [diagramId, diagramType, commandFactory, setSelection]
+  );
+
+  /**
+   * Duplicate the selection, offset from the originals
+   */
+  const duplicateSelection = useCallback(async () => {
+    const clipboard = copySelection();
+    if (!clipboard) {
+      return;
+    }
+
+    const origin = getCanvasClipboardOrigin(clipboard);
+    await pasteClipboard(clipboard, {
+      x: origin.x + DUPLICATE_OFFSET,
+      y: origin.y + DUPLICATE_OFFSET,
+    });
+  }, [copySelection, pasteClipboard]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const handleCopyOrCut = (event: ClipboardEvent) => {
+      if (shouldIgnoreClipboardEvent() || !event.clipboardData) {
+        return;
+      }
+
+      const clipboard = copySelection();
+      if (!clipboard) {
+        return;
+      }
+
+      event.preventDefault();
+      event.clipboardData.setData('text/plain', serializeCanvasClipboard(clipboard));
+
+      // Cut removes the copied shapes (and their connectors) as one batch delete
+      if (event.type === 'cut' && deleteShapes) {
+        deleteShapes(clipboard.shapes.map((shape) => shape.id));
+        setSelection([], []);
+      }
+    };
+
+    document.addEventListener('copy', handleCopyOrCut);
+    document.addEventListener('cut', handleCopyOrCut);
+
+    return () => {
+      document.removeEventListener('copy', handleCopyOrCut);
+      document.removeEventListener('cut', handleCopyOrCut);
+    };
+  }, [enabled, copySelection, deleteShapes, setSelection]);
+
+  return {
+    pasteClipboard,
+    duplicateSelection,
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Canvas Collaboration Hook
+ *
+ * Real-time co-editing for the canvas:
+ * - Broadcasts this client's shape/connector changes and merges collaborators' changes
+ * - Shares the cursor (in canvas coordinates) and the selection with collaborators
+ *
+ * Collaborators' cursors and selections are drawn by RemoteCursorsOverlay.
+ */
+
+import { useEffect } from 'react';
+import type { RefObject } from 'react';
+import {
+  useCanvasPresence,
+  useCollaborationConnection,
+  useDiagramCoEditing,
+} from '@/features/collaboration';
+import type { ViewportTransform } from '../../lib/utils/viewport';
+
+interface UseCanvasCollaborationProps {
+  diagramId: string;
+  containerRef: RefObject<HTMLDivElement | null>;
+  viewportTransform: ViewportTransform;
+  selectedShapeIds: string[];
+  selectedConnectorIds: string[];
+}
+
+export function useCanvasCollaboration({
+  diagramId,
+  containerRef,
+  viewportTransform,
+  selectedShapeIds,
+  selectedConnectorIds,
+}: UseCanvasCollaborationProps): void {
+  // Diagrams can be opened outside the plan view, so the canvas connects itself
+  useCollaborationConnection();
+  useDiagramCoEditing(diagramId);
+
+  const { reportCursor } = useCanvasPresence({
+    diagramId,
+    selectedShapeIds,
+    selectedConnectorIds,
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const rect = container.getBoundingClientRect();
+      reportCursor(viewportTransform.screenToCanvas(e.clientX - rect.left, e.clientY - rect.top));
+    };
+    const handlePointerLeave = () => reportCursor(null);
+
+    container.addEventListener('pointermove', handlePointerMove);
+    container.addEventListener('pointerleave', handlePointerLeave);
+    return () => {
+      container.removeEventListener('pointermove', handlePointerMove);
+      container.removeEventListener('pointerleave', handlePointerLeave);
+    };
+  }, [containerRef, viewportTransform, reportCursor]);
+}
@@ -0,0 +1,51 @@
+/**
+ * Canvas Comments Hook
+ *
+ * Collects the open review threads on the diagram's shapes, so ShapeWrapper can
+ * badge commented shapes. Clicking a badge shows the shape's threads in the
+ * comments sidebar.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useCommentThreadsByDesignWorkQuery, type CommentThread } from '@/entities/comment';
+import { useReviewCommentsStore } from '@/features/review-comments';
+import type { CanvasCommentsContext } from '../../ui/contexts/CanvasCommentsContext';
+
+interface UseCanvasCommentsProps {
+  diagramId: string;
+  /** Design work holding the diagram (threads are loaded per design work) */
+  designWorkId: string | undefined;
+}
+
+export function useCanvasComments({ diagramId, designWorkId }: UseCanvasCommentsProps): CanvasCommentsContext {
+  const { data: threads } = useCommentThreadsByDesignWorkQuery(designWorkId);
+  const focusThread = useReviewCommentsStore((state) => state.focusThread);
+
+  // Open threads of each shape of this diagram, oldest first
+  const threadsByShape = useMemo(() => {
+    const byShape = new Map<string, CommentThread[]>();
+    for (const thread of threads ?? []) {
+      const { anchor } = thread;
+      if (thread.status !== 'open' || anchor.type !== 'shape' || anchor.diagramId !== diagramId) continue;
+      byShape.set(anchor.shapeId, [...(byShape.get(anchor.shapeId) ?? []), thread]);
+    }
+    return byShape;
+  }, [threads, diagramId]);
+
+  const openThreadCounts = useMemo(
+    () => new Map([...threadsByShape].map(([shapeId, shapeThreads]) => [shapeId, shapeThreads.length])),
+    [threadsByShape]
+  );
+
+  const openShapeThreads = useCallback(
+    (shapeId: string) => {
+      const [first] = threadsByShape.get(shapeId) ?? [];
+      if (first) {
+        focusThread(first.id);
+      }
+    },
+    [threadsByShape, focusThread]
+  );
+
+  return useMemo(() => ({ openThreadCounts, openShapeThreads }), [openThreadCounts, openShapeThreads]);
+}
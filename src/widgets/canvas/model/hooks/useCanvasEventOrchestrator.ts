@@ -19,7 +19,7 @@
  * - Context menu handling (useCanvasContextMenu)
  */
 
-import { useCallback, type MutableRefObject, type RefObject } from 'react';
+import { useCallback, useState, type MutableRefObject, type RefObject } from 'react';
 import { useInteractionState } from '../../lib/hooks/useInteractionState';
 import type {
   InteractionMode,
@@ -39,7 +39,6 @@ import { useShapeInteraction } from '../../lib/hooks/useShapeInteraction';
 import { useCanvasKeyboardHandlers } from '../../lib/hooks/useCanvasKeyboardHandlers';
 import { useCanvasContextMenu } from '../../lib/hooks/useCanvasContextMenu';
 import { useCanvasMouseOrchestration } from './useCanvasMouseOrchestration';
-import { isContainerType } from '../../lib/utils/containment-utils';
 import { MENU_IDS } from '../../lib/hooks/useContextMenuManager';
 import type { UseContextMenuManagerReturn } from '../../lib/hooks/useContextMenuManager';
 import type { ViewportTransform } from '../../lib/utils/viewport';
@@ -48,7 +47,8 @@ import type { Connector } from '@/entities/connector';
 import type { DiagramType } from '@/entities/diagram';
 import type { CommandFactory } from '@/features/canvas-commands/model/CommandFactory';
 import type { Command } from '@/shared/model/commands';
-import type { ResizeHandle } from '../../lib/utils/resize';
+import { isResizableType, type ResizeHandle } from '../../lib/utils/resize';
+import type { SnapGuide } from '../../lib/utils/smart-guides';
 import type { ConnectorTool } from '@/features/diagram-rendering/bpmn/connectors';
 import type { CanvasStateStoreActions, CanvasStateCrudOperations } from './useCanvasState';
 
@@ -62,6 +62,7 @@ export interface UseCanvasEventOrchestratorProps {
   selectedShapeIds: string[];
   selectedConnectorIds: string[];
   gridSnappingEnabled: boolean;
+  smartGuidesEnabled: boolean;
   editingEntityId: string | null;
   editingEntityType: 'shape' | 'connector' | null;
   editingOriginalLabel: string | undefined;
@@ -96,6 +97,7 @@ export interface UseCanvasEventOrchestratorReturn {
   mode: InteractionMode;
   selectionBox: SelectionBox | null;
   drawingConnector: DrawingConnector | null;
+  snapGuides: SnapGuide[];
 
   // Canvas event handlers
   handleCanvasMouseDown: (e: React.MouseEvent<HTMLDivElement>) => void;
@@ -135,6 +137,7 @@ export function useCanvasEventOrchestrator({
   selectedShapeIds,
   selectedConnectorIds,
   gridSnappingEnabled,
+  smartGuidesEnabled,
   editingEntityId,
   editingEntityType,
   editingOriginalLabel,
@@ -177,6 +180,9 @@ export function useCanvasEventOrchestrator({
   const resizeData: ResizeData | null =
     mode === 'resizing-shapes' ? (interactionData as ResizeData) : null;
 
+  // Smart guides shown while dragging or resizing (cleared when the interaction ends)
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
+
   // Panning hook
   const { startPanning, updatePanning, stopPanning } = useCanvasPanning({
     viewportTransform,
@@ -247,9 +253,9 @@ export function useCanvasEventOrchestrator({
   } = useShapeDragging({
     viewportTransform,
     gridSnappingEnabled,
+    smartGuidesEnabled,
     localShapes,
     updateLocalShapes: storeActions.updateLocalShapes,
-    updateShapes: crudOperations.updateShapes,
     shapes,
     isActive: mode === 'dragging-shapes',
     dragData,
@@ -257,6 +263,7 @@ export function useCanvasEventOrchestrator({
     commandFactory,
     executeCommand,
     setHoveredContainerId: storeActions.setHoveredContainerId,
+    setSnapGuides,
   });
 
   // Shape resizing hook
@@ -267,6 +274,7 @@ export function useCanvasEventOrchestrator({
   } = useShapeResizing({
     viewportTransform,
     gridSnappingEnabled,
+    smartGuidesEnabled,
     localShapes,
     updateLocalShapes: storeActions.updateLocalShapes,
     updateShapes: crudOperations.updateShapes,
@@ -276,6 +284,7 @@ export function useCanvasEventOrchestrator({
     diagramId,
     commandFactory,
     executeCommand,
+    setSnapGuides,
   });
 
   // Keyboard handlers
@@ -339,15 +348,15 @@ export function useCanvasEventOrchestrator({
       const screenY = e.clientY - rect.top;
       const { x: canvasX, y: canvasY } = viewportTransform.screenToCanvas(screenX, screenY);
 
-      // Get all selected container shapes to resize together
-      const selectedContainers = selectedShapeIds.filter((id) => {
+      // Get all selected resizable shapes to resize together
+      const selectedResizable = selectedShapeIds.filter((id) => {
         const shape = shapes.find((s) => s.id === id);
-        return shape && isContainerType(shape.type);
+        return shape && isResizableType(shape.type);
       });
 
       // If the clicked shape is not in selection, resize only that shape
-      const shapesToResize = selectedContainers.includes(shapeId)
-        ? selectedContainers
+      const shapesToResize = selectedResizable.includes(shapeId)
+        ? selectedResizable
         : [shapeId];
 
       const resizeDataResult = startResizing(canvasX, canvasY, handle, shapesToResize);
@@ -380,6 +389,10 @@ export function useCanvasEventOrchestrator({
         menuId = MENU_IDS.ARCHITECTURE_TOOLSET_POPOVER;
       } else if (diagramType === 'entity-relationship') {
         menuId = MENU_IDS.ENTITY_RELATIONSHIP_TOOLSET_POPOVER;
+      } else if (diagramType === 'dataflow') {
+        menuId = MENU_IDS.DATAFLOW_TOOLSET_POPOVER;
+      } else if (diagramType === 'wireframe') {
+        menuId = MENU_IDS.WIREFRAME_TOOLSET_POPOVER;
       }
 
       // Open toolset popover with pending connector information
@@ -466,6 +479,7 @@ export function useCanvasEventOrchestrator({
     mode,
     selectionBox,
     drawingConnector,
+    snapGuides,
 
     // Canvas event handlers
     handleCanvasMouseDown,
@@ -6,6 +6,7 @@ import { commandManager } from '@/shared/model/commands';
 import { toast } from '@/shared/lib/utils';
 import { CreatePreviewFromPasteCommand } from '@/features/canvas-commands/commands/preview-import/CreatePreviewFromPasteCommand';
 import { useDiagramStore } from '@/entities/diagram/store/useDiagramStore';
+import { parseCanvasClipboard, type CanvasClipboard } from '../../lib/utils/clipboard';
 
 interface UseCanvasPasteHandlerProps {
   diagramId: string;
@@ -13,18 +14,21 @@ interface UseCanvasPasteHandlerProps {
   commandFactory: CommandFactory;
   canvasRef: React.RefObject<HTMLDivElement | null>;
   getMousePosition: () => { x: number; y: number };
+  /** Pastes shapes copied from a canvas (see useCanvasClipboard) */
+  onCanvasClipboardPaste?: (clipboard: CanvasClipboard, position: { x: number; y: number }) => Promise<void>;
   enabled: boolean;
 }
 
 /**
- * Hook to handle paste events on the canvas for importing Mermaid diagrams
- * Listens for paste events and attempts to parse and import Mermaid syntax
+ * Hook to handle paste events on the canvas
+ * Pastes shapes copied from a canvas, or attempts to parse and import Mermaid syntax
  */
 export function useCanvasPasteHandler({
   diagramId,
   diagramType,
   canvasRef,
   getMousePosition,
+  onCanvasClipboardPaste,
   enabled,
 }: UseCanvasPasteHandlerProps) {
   // Get entity store functions for creating the preview command (bundled for cleaner dependency array)
@@ -55,6 +59,16 @@ export function useCanvasPasteHandler({
 
       const trimmedText = clipboardText.trim();
 
+      // Shapes copied from a canvas are pasted at the cursor
+      const canvasClipboard = parseCanvasClipboard(trimmedText);
+      if (canvasClipboard) {
+        if (onCanvasClipboardPaste) {
+          event.preventDefault();
+          await onCanvasClipboardPaste(canvasClipboard, getMousePosition());
+        }
+        return;
+      }
+
       // Check if it looks like Mermaid syntax (starts with diagram type)
       if (
         !trimmedText.startsWith('flowchart') &&
@@ -101,7 +115,7 @@ export function useCanvasPasteHandler({
         );
       }
     },
-    [enabled, diagramId, diagramType, getMousePosition, storeOps]
+    [enabled, diagramId, diagramType, getMousePosition, onCanvasClipboardPaste, storeOps]
   );
 
   useEffect(() => {
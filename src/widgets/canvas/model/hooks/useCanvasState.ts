@@ -43,7 +43,9 @@ export interface CanvasStateStoreActions {
   setEditingEntity: (id: string, type: 'shape' | 'connector', label: string | undefined) => void;
   clearEditingEntity: () => void;
   setGridSnappingEnabled: (enabled: boolean) => void;
+  setSmartGuidesEnabled: (enabled: boolean) => void;
   setGridDisplayMode: (mode: 'dots' | 'lines') => void;
+  setPenModeEnabled: (enabled: boolean) => void;
   setActiveConnectorType: (type: string) => void;
 }
 
@@ -90,7 +92,9 @@ export interface UseCanvasStateReturn {
 
   // Settings
   gridSnappingEnabled: boolean;
+  smartGuidesEnabled: boolean;
   gridDisplayMode: 'dots' | 'lines';
+  penModeEnabled: boolean;
   activeConnectorType: string;
 
   // Viewport transform
@@ -129,7 +133,9 @@ export function useCanvasState({ diagramId }: UseCanvasStateProps): UseCanvasSta
   const hoveredConnectorId = canvasInstance((state) => state.hoveredConnectorId);
   const hoveredContainerId = canvasInstance((state) => state.hoveredContainerId);
   const gridSnappingEnabled = canvasInstance((state) => state.gridSnappingEnabled);
+  const smartGuidesEnabled = canvasInstance((state) => state.smartGuidesEnabled);
   const gridDisplayMode = canvasInstance((state) => state.gridDisplayMode);
+  const penModeEnabled = canvasInstance((state) => state.penModeEnabled);
 
   // Get LOCAL editing state (ephemeral, not persisted until commit)
   const localShapes = canvasInstance((state) => state.localShapes);
@@ -153,7 +159,9 @@ export function useCanvasState({ diagramId }: UseCanvasStateProps): UseCanvasSta
   const setEditingEntity = canvasInstance((state) => state.setEditingEntity);
   const clearEditingEntity = canvasInstance((state) => state.clearEditingEntity);
   const setGridSnappingEnabled = canvasInstance((state) => state.setGridSnappingEnabled);
+  const setSmartGuidesEnabled = canvasInstance((state) => state.setSmartGuidesEnabled);
   const setGridDisplayMode = canvasInstance((state) => state.setGridDisplayMode);
+  const setPenModeEnabled = canvasInstance((state) => state.setPenModeEnabled);
   const activeConnectorType = canvasInstance((state) => state.activeConnectorType);
   const setActiveConnectorType = canvasInstance((state) => state.setActiveConnectorType);
 
@@ -219,7 +227,9 @@ export function useCanvasState({ diagramId }: UseCanvasStateProps): UseCanvasSta
     setEditingEntity,
     clearEditingEntity,
     setGridSnappingEnabled,
+    setSmartGuidesEnabled,
     setGridDisplayMode,
+    setPenModeEnabled,
     setActiveConnectorType,
   }), [
     setSelectedShapes,
@@ -236,7 +246,9 @@ export function useCanvasState({ diagramId }: UseCanvasStateProps): UseCanvasSta
     setEditingEntity,
     clearEditingEntity,
     setGridSnappingEnabled,
+    setSmartGuidesEnabled,
     setGridDisplayMode,
+    setPenModeEnabled,
     setActiveConnectorType,
   ]);
 
@@ -294,7 +306,9 @@ export function useCanvasState({ diagramId }: UseCanvasStateProps): UseCanvasSta
 
     // Settings
     gridSnappingEnabled,
+    smartGuidesEnabled,
     gridDisplayMode,
+    penModeEnabled,
     activeConnectorType,
 
     // Viewport transform
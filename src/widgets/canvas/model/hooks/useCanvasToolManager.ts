@@ -5,24 +5,35 @@
  * Provides a clean interface for creating shapes via tools and configuring the toolbar.
  *
  * This hook consolidates:
- * - Tool handlers for BPMN, Class, Sequence, and Architecture diagrams
+ * - Tool handlers for BPMN, Class, Sequence, Architecture, Entity Relationship, Data Flow, and wireframe canvases
  * - Connector type management
- * - Toolbar button configuration
+ * - Shape arrangement (align, distribute, match size) for multi-selection
+ * - Automatic layout of the diagram or the selection
+ * - Styling of the selection (style inspector, presets, format painter)
+ * - Toolbar button configuration, including the zoom commands and pen mode
+ * - Freehand ink annotations drawn in pen mode
  * - handleAddRectangle for simple context menu
  */
 
 import { useCallback, useMemo } from 'react';
 import { useToolHandler } from '../../lib/hooks/useToolHandler';
 import { useConnectorTypeManager } from '../../lib/hooks/useConnectorTypeManager';
+import { useShapeArrangement } from '../../lib/hooks/useShapeArrangement';
+import { useAutoLayout, type UseAutoLayoutReturn } from '../../lib/hooks/useAutoLayout';
+import { useStyleInspector, type UseStyleInspectorReturn } from '../../lib/hooks/useStyleInspector';
 import { MENU_IDS } from '../../lib/hooks/useContextMenuManager';
 import { createToolbarButtons } from '../config/toolbarConfig';
 import { getGlobalToolById } from '../../lib/config/global-tools';
+import { mapInkStrokeToShape } from '../../lib/utils/annotations';
+import { useOverlayVisibilityStore } from '@/features/diagram-management';
 import {
   mapBpmnToolToShape,
   mapClassToolToShape,
   mapSequenceToolToShape,
   mapArchitectureToolToShape,
   mapEntityRelationshipToolToShape,
+  mapDataflowToolToShape,
+  mapWireframeToolToShape,
   mapGlobalToolToShape,
 } from '../../lib/utils/toolMappers';
 import type { Tool as BpmnTool } from '@/features/diagram-rendering/bpmn/tools';
@@ -30,30 +41,44 @@ import type { Tool as ClassTool } from '@/features/diagram-rendering/class/tools
 import type { Tool as SequenceTool } from '@/features/diagram-rendering/sequence/tools';
 import type { Tool as ArchitectureTool } from '@/features/diagram-rendering/architecture/tools';
 import type { Tool as EntityRelationshipTool } from '@/features/diagram-rendering/entity-relationship/tools';
+import type { Tool as DataflowTool } from '@/features/diagram-rendering/dataflow/tools';
+import type { Tool as WireframeTool } from '@/features/diagram-rendering/wireframe/tools';
 import type { ToolbarButton } from '../../ui/toolbar/CanvasToolbar';
-import type { DiagramType } from '@/entities/diagram';
+import type { Diagram, DiagramType } from '@/entities/diagram';
 import type { ViewportTransform } from '../../lib/utils/viewport';
 import type { CommandFactory } from '@/features/canvas-commands/model/CommandFactory';
 import type { ArrowType, Connector } from '@/entities/connector';
+import type { CreateShapeDTO, Point, Shape } from '@/entities/shape';
+import type { ArrangeAction } from '../../lib/config/arrange-actions';
 import type { UseContextMenuManagerReturn } from '../../lib/hooks/useContextMenuManager';
+import type { UseViewportNavigationReturn } from '../../lib/hooks/useViewportNavigation';
 import type { ConnectorTool } from '@/features/diagram-rendering/bpmn/connectors';
 import type { JSX } from 'react';
 
 export interface UseCanvasToolManagerProps {
   diagramId: string;
+  diagram: Diagram | undefined;
   diagramType: DiagramType | undefined;
   addShape: ((shape: Parameters<NonNullable<ReturnType<typeof import('@/features/diagram-management').useDiagramCRUD>['addShape']>>[0]) => Promise<string>) | undefined;
   addConnector: ReturnType<typeof import('@/features/diagram-management').useDiagramCRUD>['addConnector'];
   activeConnectorType: string;
   menuManager: UseContextMenuManagerReturn;
   viewportTransform: ViewportTransform;
+  viewportNavigation: UseViewportNavigationReturn;
   gridSnappingEnabled: boolean;
+  smartGuidesEnabled: boolean;
   gridDisplayMode: 'dots' | 'lines';
+  penModeEnabled: boolean;
   setGridSnappingEnabled: (enabled: boolean) => void;
+  setSmartGuidesEnabled: (enabled: boolean) => void;
   setGridDisplayMode: (mode: 'dots' | 'lines') => void;
+  setPenModeEnabled: (enabled: boolean) => void;
   setActiveConnectorType: (type: string) => void;
   commandFactory: CommandFactory;
+  shapes: Shape[];
   connectors: Connector[];
+  selectedShapeIds: string[];
+  selectedConnectorIds: string[];
 }
 
 export interface UseCanvasToolManagerReturn {
@@ -63,40 +88,71 @@ export interface UseCanvasToolManagerReturn {
   handleSequenceToolSelect: (tool: SequenceTool, canvasX: number, canvasY: number) => Promise<void>;
   handleArchitectureToolSelect: (tool: ArchitectureTool, canvasX: number, canvasY: number) => Promise<void>;
   handleEntityRelationshipToolSelect: (tool: EntityRelationshipTool, canvasX: number, canvasY: number) => Promise<void>;
+  handleDataflowToolSelect: (tool: DataflowTool, canvasX: number, canvasY: number) => Promise<void>;
+  handleWireframeToolSelect: (tool: WireframeTool, canvasX: number, canvasY: number) => Promise<void>;
   handleAddRectangle: () => Promise<void>;
 
+  // Freehand ink (pen mode)
+  handleInkStroke: (points: Point[]) => Promise<void>;
+
   // Connector type management
   connectorTypeManager: {
     handleConnectorSelect: (connectorTool: ConnectorTool) => void;
     handleConnectorTypeChange: (connectorTool: ConnectorTool, connectorId: string) => Promise<void>;
     handleSourceMarkerChange: (arrowType: ArrowType, connectorId: string) => Promise<void>;
     handleTargetMarkerChange: (arrowType: ArrowType, connectorId: string) => Promise<void>;
+    handleRouteChange: (connectorId: string, points: Point[] | undefined) => Promise<void>;
+    handleRoutingStyleChange: (style: Connector['style'], connectorId: string) => Promise<void>;
+    handleResetRoute: (connectorId: string) => Promise<void>;
     availableConnectorTools: ConnectorTool[];
     activeConnectorIcon: JSX.Element;
     getConnectorConfig: (connectorType: string) => ConnectorTool | undefined;
   };
   handleConnectorToolbarClick: (buttonElement?: HTMLButtonElement) => void;
 
+  // Shape arrangement
+  shapeArrangement: {
+    isActionEnabled: (action: ArrangeAction) => boolean;
+    handleArrange: (action: ArrangeAction) => Promise<void>;
+    arrangeableShapeCount: number;
+  };
+  handleArrangeToolbarClick: (buttonElement?: HTMLButtonElement) => void;
+
+  // Automatic layout
+  autoLayout: UseAutoLayoutReturn;
+  handleAutoLayoutToolbarClick: (buttonElement?: HTMLButtonElement) => void;
+
+  // Styling (style inspector, presets, format painter)
+  styleInspector: UseStyleInspectorReturn;
+
   // Toolbar
   toolbarButtons: ToolbarButton[];
-  handleZoomReset: () => void;
 }
 
 export function useCanvasToolManager({
   diagramId,
+  diagram,
   diagramType,
   addShape,
   addConnector,
   activeConnectorType,
   menuManager,
   viewportTransform,
+  viewportNavigation,
   gridSnappingEnabled,
+  smartGuidesEnabled,
   gridDisplayMode,
+  penModeEnabled,
   setGridSnappingEnabled,
+  setSmartGuidesEnabled,
   setGridDisplayMode,
+  setPenModeEnabled,
   setActiveConnectorType,
   commandFactory,
+  shapes,
   connectors,
+  selectedShapeIds,
+  selectedConnectorIds,
 }: UseCanvasToolManagerProps): UseCanvasToolManagerReturn {
   // Use connector type manager hook for all connector type management
   const connectorTypeManager = useConnectorTypeManager({
@@ -108,10 +164,25 @@ export function useCanvasToolManager({
     connectors,
   });
 
+  // New overlay shapes (e.g. annotations) reveal their overlay so they don't vanish on creation
+  const showOverlay = useOverlayVisibilityStore((state) => state.showOverlay);
+  const addShapeWithOverlay = useMemo(
+    () =>
+      addShape &&
+      (async (shape: CreateShapeDTO) => {
+        const shapeId = await addShape(shape);
+        if (shape.overlayTag) {
+          showOverlay(shape.overlayTag);
+        }
+        return shapeId;
+      }),
+    [addShape, showOverlay]
+  );
+
   // Use polymorphic tool handlers for BPMN, Class, Sequence, and Architecture diagrams
   // These handlers check if the tool is a global tool and use the appropriate mapper
   const { handleToolSelect: handleBpmnToolSelect } = useToolHandler<BpmnTool>({
-    addShape,
+    addShape: addShapeWithOverlay,
     addConnector,
     activeConnectorType,
     menuManager,
@@ -126,7 +197,7 @@ export function useCanvasToolManager({
   });
 
   const { handleToolSelect: handleClassToolSelect } = useToolHandler<ClassTool>({
-    addShape,
+    addShape: addShapeWithOverlay,
     addConnector,
     activeConnectorType,
     menuManager,
@@ -141,7 +212,7 @@ export function useCanvasToolManager({
   });
 
   const { handleToolSelect: handleSequenceToolSelect } = useToolHandler<SequenceTool>({
-    addShape,
+    addShape: addShapeWithOverlay,
     addConnector,
     activeConnectorType,
     menuManager,
@@ -156,7 +227,7 @@ export function useCanvasToolManager({
   });
 
   const { handleToolSelect: handleArchitectureToolSelect } = useToolHandler<ArchitectureTool>({
-    addShape,
+    addShape: addShapeWithOverlay,
     addConnector,
     activeConnectorType,
     menuManager,
@@ -171,7 +242,7 @@ export function useCanvasToolManager({
   });
 
   const { handleToolSelect: handleEntityRelationshipToolSelect } = useToolHandler<EntityRelationshipTool>({
-    addShape,
+    addShape: addShapeWithOverlay,
     addConnector,
     activeConnectorType,
     menuManager,
@@ -185,6 +256,36 @@ export function useCanvasToolManager({
     },
   });
 
+  const { handleToolSelect: handleDataflowToolSelect } = useToolHandler<DataflowTool>({
+    addShape: addShapeWithOverlay,
+    addConnector,
+    activeConnectorType,
+    menuManager,
+    toolToShapeMapper: (tool, canvasX, canvasY) => {
+      // Check if this is a global tool
+      const globalTool = getGlobalToolById(tool.id);
+      if (globalTool) {
+        return mapGlobalToolToShape(globalTool, canvasX, canvasY);
+      }
+      return mapDataflowToolToShape(tool, canvasX, canvasY);
+    },
+  });
+
+  const { handleToolSelect: handleWireframeToolSelect } = useToolHandler<WireframeTool>({
+    addShape: addShapeWithOverlay,
+    addConnector,
+    activeConnectorType,
+    menuManager,
+    toolToShapeMapper: (tool, canvasX, canvasY) => {
+      // Check if this is a global tool
+      const globalTool = getGlobalToolById(tool.id);
+      if (globalTool) {
+        return mapGlobalToolToShape(globalTool, canvasX, canvasY);
+      }
+      return mapWireframeToolToShape(tool, canvasX, canvasY);
+    },
+  });
+
   // Handle adding rectangle from simple context menu
   const handleAddRectangle = useCallback(async () => {
     if (!addShape) return;
@@ -209,6 +310,20 @@ export function useCanvasToolManager({
     menuManager.closeMenu();
   }, [addShape, menuManager]);
 
+  // Create an ink annotation from a freehand stroke drawn in pen mode
+  const handleInkStroke = useCallback(async (points: Point[]) => {
+    if (!addShapeWithOverlay) return;
+
+    const shapeDTO = mapInkStrokeToShape(points);
+    if (!shapeDTO) return;
+
+    try {
+      await addShapeWithOverlay(shapeDTO);
+    } catch (error) {
+      console.error('Error creating ink annotation:', error);
+    }
+  }, [addShapeWithOverlay]);
+
   // Handle connector toolbar button click
   const handleConnectorToolbarClick = useCallback((buttonElement?: HTMLButtonElement) => {
     // Create a ref object from the button element if provided
@@ -216,25 +331,87 @@ export function useCanvasToolManager({
     menuManager.openConnectorToolbarPopover(buttonRef);
   }, [menuManager]);
 
-  // Handle zoom reset button click
-  const handleZoomReset = useCallback(() => {
-    viewportTransform.setViewport(1, 0, 0);
-  }, [viewportTransform]);
+  // Align/distribute/match size for the current selection
+  const shapeArrangement = useShapeArrangement({
+    diagramId,
+    shapes,
+    selectedShapeIds,
+    commandFactory,
+  });
+
+  // Handle arrange toolbar button click
+  const handleArrangeToolbarClick = useCallback((buttonElement?: HTMLButtonElement) => {
+    const buttonRef = buttonElement ? { current: buttonElement } : undefined;
+    menuManager.openArrangeToolbarPopover(buttonRef);
+  }, [menuManager]);
+
+  // Tidy up the diagram or the selection with an automatic layout
+  const autoLayout = useAutoLayout({
+    diagramId,
+    diagramType,
+    shapes,
+    connectors,
+    selectedShapeIds,
+    commandFactory,
+  });
+
+  // Handle auto-layout toolbar button click
+  const handleAutoLayoutToolbarClick = useCallback((buttonElement?: HTMLButtonElement) => {
+    const buttonRef = buttonElement ? { current: buttonElement } : undefined;
+    menuManager.openAutoLayoutToolbarPopover(buttonRef);
+  }, [menuManager]);
+
+  // Style inspector, diagram style presets and format painter for the selection
+  const styleInspector = useStyleInspector({
+    diagramId,
+    diagram,
+    shapes,
+    connectors,
+    selectedShapeIds,
+    selectedConnectorIds,
+    commandFactory,
+  });
+
+  // Handle format painter toolbar button click: pick up the selection's style, or put it down
+  const handleFormatPainterClick = useCallback(() => {
+    if (styleInspector.isPainting) {
+      styleInspector.cancelPainting();
+    } else {
+      styleInspector.startPainting();
+    }
+  }, [styleInspector]);
 
   // Configure toolbar buttons
   const toolbarButtons = useMemo(() =>
     createToolbarButtons({
       diagramType,
       gridSnappingEnabled,
+      smartGuidesEnabled,
       gridDisplayMode,
+      penModeEnabled,
       activeConnectorIcon: connectorTypeManager.activeConnectorIcon,
       zoom: viewportTransform.viewport.zoom,
+      arrangeableShapeCount: shapeArrangement.arrangeableShapeCount,
+      selectedShapeCount: selectedShapeIds.length,
+      autoLayoutAvailable: autoLayout.algorithms.length > 0,
+      autoLayoutScope: autoLayout.scope,
+      styledElementCount: styleInspector.selectedShapeCount + styleInspector.selectedConnectorCount,
+      styleInspectorOpen: styleInspector.isOpen,
+      formatPainterActive: styleInspector.isPainting,
       setGridSnappingEnabled,
+      setSmartGuidesEnabled,
       setGridDisplayMode,
+      setPenModeEnabled,
       handleConnectorToolbarClick,
-      handleZoomReset,
+      handleArrangeToolbarClick,
+      handleAutoLayoutToolbarClick,
+      handleStyleInspectorToggle: styleInspector.toggle,
+      handleFormatPainterClick,
+      handleZoomToFit: viewportNavigation.zoomToFit,
+      handleZoomToSelection: viewportNavigation.zoomToSelection,
+      handleZoomTo100: viewportNavigation.zoomTo100,
     }),
-    [diagramType, connectorTypeManager.activeConnectorIcon, handleConnectorToolbarClick, handleZoomReset, gridSnappingEnabled, gridDisplayMode, viewportTransform.viewport.zoom, setGridSnappingEnabled, setGridDisplayMode]
+    [diagramType, connectorTypeManager.activeConnectorIcon, handleConnectorToolbarClick, handleArrangeToolbarClick, handleAutoLayoutToolbarClick, autoLayout.algorithms.length, autoLayout.scope, styleInspector.selectedShapeCount, styleInspector.selectedConnectorCount, styleInspector.isOpen, styleInspector.isPainting, styleInspector.toggle, handleFormatPainterClick, viewportNavigation.zoomToFit, viewportNavigation.zoomToSelection, viewportNavigation.zoomTo100, gridSnappingEnabled, smartGuidesEnabled, gridDisplayMode, penModeEnabled, viewportTransform.viewport.zoom, shapeArrangement.arrangeableShapeCount, selectedShapeIds.length, setGridSnappingEnabled, setSmartGuidesEnabled, setGridDisplayMode, setPenModeEnabled]
   );
 
   return {
@@ -244,14 +421,29 @@ export function useCanvasToolManager({
     handleSequenceToolSelect,
     handleArchitectureToolSelect,
     handleEntityRelationshipToolSelect,
+    handleDataflowToolSelect,
+    handleWireframeToolSelect,
     handleAddRectangle,
 
+    // Freehand ink (pen mode)
+    handleInkStroke,
+
     // Connector type management
     connectorTypeManager,
     handleConnectorToolbarClick,
 
+    // Shape arrangement
+    shapeArrangement,
+    handleArrangeToolbarClick,
+
+    // Automatic layout
+    autoLayout,
+    handleAutoLayoutToolbarClick,
+
+    // Styling
+    styleInspector,
+
     // Toolbar
     toolbarButtons,
-    handleZoomReset,
   };
 }
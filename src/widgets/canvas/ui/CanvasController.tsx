@@ -1,14 +1,19 @@
 import { useRef, useEffect, useMemo, useCallback } from 'react';
 import { useKeyboardShortcuts } from '../lib/hooks/useKeyboardShortcuts';
 import { useCanvasViewport } from '../lib/hooks/useCanvasViewport';
+import { useViewportNavigation } from '../lib/hooks/useViewportNavigation';
+import { useFindReplace } from '../lib/hooks/useFindReplace';
 import { useMermaidSync } from '@/features/diagram-management';
 import { useMermaidViewerStore } from '@/features/diagram-management';
 import { useContextMenuManager } from '../lib/hooks/useContextMenuManager';
 import { useCanvasPasteHandler } from '../model/hooks/useCanvasPasteHandler';
+import { useCanvasClipboard } from '../model/hooks/useCanvasClipboard';
+import { useCanvasCollaboration } from '../model/hooks/useCanvasCollaboration';
 import { useCanvasState } from '../model/hooks/useCanvasState';
 import { useCanvasCommands } from '../model/hooks/useCanvasCommands';
 import { useCanvasToolManager } from '../model/hooks/useCanvasToolManager';
 import { useCanvasEventOrchestrator } from '../model/hooks/useCanvasEventOrchestrator';
+import { useCanvasComments } from '../model/hooks/useCanvasComments';
 import { DiagramContext } from './contexts/CanvasDiagramContext';
 import type { CanvasDiagramContext } from './contexts/CanvasDiagramContext';
 import { ViewportContext } from './contexts/CanvasViewportContext';
@@ -17,6 +22,7 @@ import { SelectionContext } from './contexts/CanvasSelectionContext';
 import type { CanvasSelectionContext } from './contexts/CanvasSelectionContext';
 import { EventsContext } from './contexts/CanvasEventsContext';
 import type { CanvasEventsContext } from './contexts/CanvasEventsContext';
+import { CommentsContext } from './contexts/CanvasCommentsContext';
 
 /**
  * Canvas Controller Component
@@ -59,22 +65,39 @@ export function CanvasController({ diagramId, children }: CanvasControllerProps)
     updateLocalShape: canvasState.storeActions.updateLocalShape,
   });
 
+  // Zoom to fit/selection/100% (toolbar and keyboard shortcuts)
+  const viewportNavigation = useViewportNavigation({
+    containerRef,
+    viewportTransform: canvasState.viewportTransform,
+    shapes: canvasState.shapes,
+    selectedShapeIds: canvasState.selectedShapeIds,
+  });
+
   // 4. Tool manager - tool selection and toolbar
   const toolManager = useCanvasToolManager({
     diagramId,
+    diagram: canvasState.diagram,
     diagramType: canvasState.diagram?.type,
     addShape: canvasState.crudOperations.addShape,
     addConnector: canvasState.crudOperations.addConnector,
     activeConnectorType: canvasState.activeConnectorType,
     menuManager,
     viewportTransform: canvasState.viewportTransform,
+    viewportNavigation,
     gridSnappingEnabled: canvasState.gridSnappingEnabled,
+    smartGuidesEnabled: canvasState.smartGuidesEnabled,
     gridDisplayMode: canvasState.gridDisplayMode,
+    penModeEnabled: canvasState.penModeEnabled,
     setGridSnappingEnabled: canvasState.storeActions.setGridSnappingEnabled,
+    setSmartGuidesEnabled: canvasState.storeActions.setSmartGuidesEnabled,
     setGridDisplayMode: canvasState.storeActions.setGridDisplayMode,
+    setPenModeEnabled: canvasState.storeActions.setPenModeEnabled,
     setActiveConnectorType: canvasState.storeActions.setActiveConnectorType,
     commandFactory: canvasState.commandFactory,
+    shapes: canvasState.shapes,
     connectors: canvasState.connectors,
+    selectedShapeIds: canvasState.selectedShapeIds,
+    selectedConnectorIds: canvasState.selectedConnectorIds,
   });
 
   // 5. Event orchestrator - all event handlers
@@ -87,6 +110,7 @@ export function CanvasController({ diagramId, children }: CanvasControllerProps)
     selectedShapeIds: canvasState.selectedShapeIds,
     selectedConnectorIds: canvasState.selectedConnectorIds,
     gridSnappingEnabled: canvasState.gridSnappingEnabled,
+    smartGuidesEnabled: canvasState.smartGuidesEnabled,
     editingEntityId: canvasState.editingEntityId,
     editingEntityType: canvasState.editingEntityType,
     editingOriginalLabel: canvasState.editingOriginalLabel,
@@ -104,10 +128,81 @@ export function CanvasController({ diagramId, children }: CanvasControllerProps)
     executeCommand: commands.executeCommand,
   });
 
+  // While the format painter holds a style, clicking a shape or connector pastes it
+  const { styleInspector } = toolManager;
+  const { handleShapeMouseDown: startShapeInteraction, handleConnectorMouseDown: startConnectorInteraction } = events;
+  const handleShapeMouseDown = useCallback(
+    (e: React.MouseEvent, shapeId: string) => {
+      if (styleInspector.isPainting) {
+        e.stopPropagation();
+        void styleInspector.paintShape(shapeId);
+        return;
+      }
+      startShapeInteraction(e, shapeId);
+    },
+    [styleInspector, startShapeInteraction]
+  );
+  const handleConnectorMouseDown = useCallback(
+    (e: React.MouseEvent, connectorId: string) => {
+      if (styleInspector.isPainting) {
+        e.stopPropagation();
+        void styleInspector.paintConnector(connectorId);
+        return;
+      }
+      startConnectorInteraction(e, connectorId);
+    },
+    [styleInspector, startConnectorInteraction]
+  );
+
   // 6. Side effects
 
-  // Enable keyboard shortcuts for undo/redo
-  useKeyboardShortcuts({ scope: diagramId });
+  // Copy/cut/paste/duplicate of the selection (with descendants and internal connectors)
+  const clipboard = useCanvasClipboard({
+    diagramId,
+    diagramType: canvasState.diagram?.type,
+    shapes: canvasState.shapes,
+    connectors: canvasState.connectors,
+    selectedShapeIds: canvasState.selectedShapeIds,
+    commandFactory: canvasState.commandFactory,
+    deleteShapes: canvasState.crudOperations.deleteShapes,
+    setSelection: canvasState.storeActions.setSelection,
+    enabled: !canvasState.loading && !!canvasState.diagram,
+  });
+
+  // Find and replace across labels and shape members
+  const findReplace = useFindReplace({
+    diagramId,
+    containerRef,
+    viewportTransform: canvasState.viewportTransform,
+    shapes: canvasState.shapes,
+    connectors: canvasState.connectors,
+    commandFactory: canvasState.commandFactory,
+  });
+
+  // Real-time co-editing: shared changes, cursors and selections
+  useCanvasCollaboration({
+    diagramId,
+    containerRef,
+    viewportTransform: canvasState.viewportTransform,
+    selectedShapeIds: canvasState.selectedShapeIds,
+    selectedConnectorIds: canvasState.selectedConnectorIds,
+  });
+
+  // Review threads on the diagram's shapes (comment badges)
+  const commentsContextValue = useCanvasComments({
+    diagramId,
+    designWorkId: canvasState.diagram?.designWorkId,
+  });
+
+  // Enable keyboard shortcuts for undo/redo, duplicate, zoom and find
+  useKeyboardShortcuts({
+    scope: diagramId,
+    onDuplicate: clipboard.duplicateSelection,
+    onZoomToFit: viewportNavigation.zoomToFit,
+    onZoomToSelection: viewportNavigation.zoomToSelection,
+    onZoomTo100: viewportNavigation.zoomTo100,
+    onFind: findReplace.open,
+  });
 
   // Get mouse position helper (for paste import centering)
   const getMousePosition = useCallback(() => {
@@ -125,13 +220,14 @@ export function CanvasController({ diagramId, children }: CanvasControllerProps)
     return canvasState.viewportTransform.screenToCanvas(screenX, screenY);
   }, [canvasState.viewportTransform]);
 
-  // Enable paste handler for importing Mermaid diagrams
+  // Enable paste handler for canvas clipboard content and Mermaid imports
   useCanvasPasteHandler({
     diagramId,
     diagramType: canvasState.diagram?.type || 'bpmn',
     commandFactory: canvasState.commandFactory,
     canvasRef: containerRef,
     getMousePosition,
+    onCanvasClipboardPaste: clipboard.pasteClipboard,
     enabled: !canvasState.loading && !!canvasState.diagram,
   });
 
@@ -143,12 +239,13 @@ export function CanvasController({ diagramId, children }: CanvasControllerProps)
 
   // Mermaid sync hook - automatically generates mermaid syntax from committed shapes/connectors
   // Also persists the mermaid syntax to the diagram object for reuse across the app
+  // Wireframes have no Mermaid representation, so sync is disabled for interface content
   useMermaidSync({
     shapes: canvasState.entityShapes,
     connectors: canvasState.entityConnectors,
     diagramType: canvasState.diagram?.type,
     diagramId,
-    enabled: true,
+    enabled: canvasState.diagram?.type !== 'wireframe',
   });
 
   // Initialize mermaid viewer with persisted syntax when diagram first loads
@@ -189,11 +286,13 @@ export function CanvasController({ diagramId, children }: CanvasControllerProps)
     hoveredContainerId: canvasState.hoveredContainerId,
     mode: events.mode,
     selectionBox: events.selectionBox,
+    snapGuides: events.snapGuides,
     drawingConnector: events.drawingConnector,
     editingEntityId: canvasState.editingEntityId,
     editingEntityType: canvasState.editingEntityType,
     gridSnappingEnabled: canvasState.gridSnappingEnabled,
     gridDisplayMode: canvasState.gridDisplayMode,
+    penModeEnabled: canvasState.penModeEnabled,
     activeConnectorType: canvasState.activeConnectorType,
   }), [
     canvasState.selectedShapeIds,
@@ -203,11 +302,13 @@ export function CanvasController({ diagramId, children }: CanvasControllerProps)
     canvasState.hoveredContainerId,
     events.mode,
     events.selectionBox,
+    events.snapGuides,
     events.drawingConnector,
     canvasState.editingEntityId,
     canvasState.editingEntityType,
     canvasState.gridSnappingEnabled,
     canvasState.gridDisplayMode,
+    canvasState.penModeEnabled,
     canvasState.activeConnectorType,
   ]);
 
@@ -216,13 +317,13 @@ export function CanvasController({ diagramId, children }: CanvasControllerProps)
     handleMouseMove: events.handleMouseMove,
     handleMouseUp: events.handleMouseUp,
     handleContextMenu: events.handleContextMenu,
-    handleShapeMouseDown: events.handleShapeMouseDown,
+    handleShapeMouseDown,
     handleShapeMouseEnter: events.handleShapeMouseEnter,
     handleShapeMouseLeave: events.handleShapeMouseLeave,
     handleShapeDoubleClick: events.handleShapeDoubleClick,
     handleStartDrawingConnector: events.handleStartDrawingConnector,
     handleFinishDrawingConnector: events.handleFinishDrawingConnector,
-    handleConnectorMouseDown: events.handleConnectorMouseDown,
+    handleConnectorMouseDown,
     handleConnectorMouseEnter: events.handleConnectorMouseEnter,
     handleConnectorMouseLeave: events.handleConnectorMouseLeave,
     handleConnectorDoubleClick: events.handleConnectorDoubleClick,
@@ -252,8 +353,16 @@ export function CanvasController({ diagramId, children }: CanvasControllerProps)
     handleSequenceToolSelect: toolManager.handleSequenceToolSelect,
     handleArchitectureToolSelect: toolManager.handleArchitectureToolSelect,
     handleEntityRelationshipToolSelect: toolManager.handleEntityRelationshipToolSelect,
+    handleDataflowToolSelect: toolManager.handleDataflowToolSelect,
+    handleWireframeToolSelect: toolManager.handleWireframeToolSelect,
     handleConnectorToolbarClick: toolManager.handleConnectorToolbarClick,
+    handleInkStroke: toolManager.handleInkStroke,
+    setPenModeEnabled: canvasState.storeActions.setPenModeEnabled,
     connectorTypeManager: toolManager.connectorTypeManager,
+    shapeArrangement: toolManager.shapeArrangement,
+    autoLayout: toolManager.autoLayout,
+    findReplace,
+    styleInspector,
     toolbarButtons: toolManager.toolbarButtons,
     containerRef,
     handleResizeStart: events.handleResizeStart,
@@ -263,13 +372,13 @@ export function CanvasController({ diagramId, children }: CanvasControllerProps)
     events.handleMouseMove,
     events.handleMouseUp,
     events.handleContextMenu,
-    events.handleShapeMouseDown,
+    handleShapeMouseDown,
     events.handleShapeMouseEnter,
     events.handleShapeMouseLeave,
     events.handleShapeDoubleClick,
     events.handleStartDrawingConnector,
     events.handleFinishDrawingConnector,
-    events.handleConnectorMouseDown,
+    handleConnectorMouseDown,
     events.handleConnectorMouseEnter,
     events.handleConnectorMouseLeave,
     events.handleConnectorDoubleClick,
@@ -299,8 +408,16 @@ export function CanvasController({ diagramId, children }: CanvasControllerProps)
     toolManager.handleSequenceToolSelect,
     toolManager.handleArchitectureToolSelect,
     toolManager.handleEntityRelationshipToolSelect,
+    toolManager.handleDataflowToolSelect,
+    toolManager.handleWireframeToolSelect,
     toolManager.handleConnectorToolbarClick,
+    toolManager.handleInkStroke,
+    canvasState.storeActions.setPenModeEnabled,
     toolManager.connectorTypeManager,
+    toolManager.shapeArrangement,
+    toolManager.autoLayout,
+    findReplace,
+    styleInspector,
     toolManager.toolbarButtons,
     events.handleResizeStart,
     events.orchestrationCursor,
@@ -311,7 +428,9 @@ export function CanvasController({ diagramId, children }: CanvasControllerProps)
       <ViewportContext.Provider value={viewportContextValue}>
         <SelectionContext.Provider value={selectionContextValue}>
           <EventsContext.Provider value={eventsContextValue}>
-            {children}
+            <CommentsContext.Provider value={commentsContextValue}>
+              {children}
+            </CommentsContext.Provider>
           </EventsContext.Provider>
         </SelectionContext.Provider>
       </ViewportContext.Provider>
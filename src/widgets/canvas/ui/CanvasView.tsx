@@ -1,10 +1,10 @@
-import { memo, useCallback } from 'react';
+import { memo, useCallback, useMemo } from 'react';
 import { useCanvasDiagram } from './contexts/CanvasDiagramContext';
 import { useCanvasViewport } from './contexts/CanvasViewportContext';
 import { useCanvasSelection } from './contexts/CanvasSelectionContext';
 import { useCanvasEvents } from './contexts/CanvasEventsContext';
 import { useCanvasReferenceDrop, useSuggestionsGenerator } from '@/features/diagram-management';
-import { MermaidViewer, OverlayControlPanel } from './panels';
+import { FindReplacePanel, MermaidViewer, Minimap, OverlayControlPanel, StyleInspectorPanel } from './panels';
 import { RoutingDebugOverlay } from './debug/RoutingDebugOverlay';
 import { setDebugGraph } from './debug/routingDebugState';
 
@@ -14,6 +14,11 @@ import { CanvasContentLayer } from './layers/CanvasContentLayer';
 import { MenusLayer } from './layers/MenusLayer';
 import { ToolbarLayer } from './layers/ToolbarLayer';
 import { SelectionBoxOverlay } from './layers/SelectionBoxOverlay';
+import { SmartGuidesOverlay } from './layers/SmartGuidesOverlay';
+import { FindMatchesOverlay } from './layers/FindMatchesOverlay';
+import { RemoteCursorsOverlay } from './layers/RemoteCursorsOverlay';
+import { DiagramDiffOverlay } from './layers/DiagramDiffOverlay';
+import { InkDrawingOverlay } from './layers/InkDrawingOverlay';
 
 /**
  * Canvas View Component
@@ -34,9 +39,9 @@ import { SelectionBoxOverlay } from './layers/SelectionBoxOverlay';
  */
 function CanvasViewComponent() {
   // Only consume what's needed at the container level
-  const { diagram, loading, shapes, connectors } = useCanvasDiagram();
+  const { diagramId, diagram, loading, shapes, connectors } = useCanvasDiagram();
   const { viewportTransform } = useCanvasViewport();
-  const { selectionBox } = useCanvasSelection();
+  const { selectionBox, snapGuides, penModeEnabled } = useCanvasSelection();
   const {
     handleCanvasMouseDown,
     handleMouseMove,
@@ -44,6 +49,9 @@ function CanvasViewComponent() {
     handleContextMenu,
     containerRef,
     orchestrationCursor,
+    findReplace,
+    handleInkStroke,
+    setPenModeEnabled,
   } = useCanvasEvents();
 
   // Reference drop handling
@@ -64,11 +72,27 @@ function CanvasViewComponent() {
     shapes,
   });
 
+  // Shapes containing find-and-replace matches
+  const findHighlights = useMemo(
+    () =>
+      shapes
+        .filter((shape) => findReplace.matchedShapeIds.has(shape.id))
+        .map((shape) => ({ id: shape.id, x: shape.x, y: shape.y, width: shape.width, height: shape.height })),
+    [shapes, findReplace.matchedShapeIds]
+  );
+  const activeFindField = findReplace.matches[findReplace.activeIndex]?.field;
+  const activeFindShapeId =
+    activeFindField && activeFindField.kind !== 'connector-label' ? activeFindField.entityId : null;
+
   // Stable event handlers to avoid creating new functions on each render
   const handleDragStart = useCallback((e: React.DragEvent) => {
     e.preventDefault();
   }, []);
 
+  const handleExitPenMode = useCallback(() => {
+    setPenModeEnabled(false);
+  }, [setPenModeEnabled]);
+
   const handleDropEvent = useCallback(
     (e: React.DragEvent) => {
       handleDrop(e, containerRef.current);
@@ -116,6 +140,52 @@ function CanvasViewComponent() {
       {/* Selection Box Overlay */}
       <SelectionBoxOverlay selectionBox={selectionBox} />
 
+      {/* Smart Guides Overlay - alignment and spacing while dragging/resizing */}
+      <SmartGuidesOverlay
+        guides={snapGuides}
+        zoom={viewportTransform.viewport.zoom}
+        panX={viewportTransform.viewport.panX}
+        panY={viewportTransform.viewport.panY}
+      />
+
+      {/* Find Matches Overlay - shapes containing find-and-replace matches */}
+      <FindMatchesOverlay
+        highlights={findHighlights}
+        activeId={activeFindShapeId}
+        zoom={viewportTransform.viewport.zoom}
+        panX={viewportTransform.viewport.panX}
+        panY={viewportTransform.viewport.panY}
+      />
+
+      {/* Diagram Diff Overlay - changes since the snapshot compared in the history panel */}
+      <DiagramDiffOverlay
+        diagramId={diagramId}
+        shapes={shapes}
+        connectors={connectors}
+        zoom={viewportTransform.viewport.zoom}
+        panX={viewportTransform.viewport.panX}
+        panY={viewportTransform.viewport.panY}
+      />
+
+      {/* Remote Cursors Overlay - collaborators' cursors and selections */}
+      <RemoteCursorsOverlay
+        diagramId={diagramId}
+        shapes={shapes}
+        connectors={connectors}
+        zoom={viewportTransform.viewport.zoom}
+        panX={viewportTransform.viewport.panX}
+        panY={viewportTransform.viewport.panY}
+      />
+
+      {/* Ink Drawing Overlay - freehand annotations while pen mode is on */}
+      {penModeEnabled && (
+        <InkDrawingOverlay
+          viewportTransform={viewportTransform}
+          onStroke={handleInkStroke}
+          onExit={handleExitPenMode}
+        />
+      )}
+
       {/* Toolbars */}
       <ToolbarLayer
         isSuggestionsLoading={isSuggestionsLoading}
@@ -125,6 +195,15 @@ function CanvasViewComponent() {
       {/* Mermaid Viewer */}
       <MermaidViewer />
 
+      {/* Minimap (lower-left) - overview with draggable viewport */}
+      <Minimap />
+
+      {/* Find and Replace Panel (top center) - Cmd/Ctrl+F */}
+      <FindReplacePanel />
+
+      {/* Style Inspector Panel (right) - style of the selection and style presets */}
+      <StyleInspectorPanel />
+
       {/* Overlay Control Panel (upper-left) */}
       <OverlayControlPanel shapes={shapes} connectors={connectors} />
 
@@ -0,0 +1,31 @@
+import { createContext, useContext } from 'react';
+
+/**
+ * Canvas Comments Context
+ *
+ * Provides the open review threads of the diagram's shapes, shown as comment
+ * badges by ShapeWrapper.
+ */
+export interface CanvasCommentsContext {
+  /** Number of open threads on each commented shape */
+  openThreadCounts: ReadonlyMap<string, number>;
+  /** Show the threads of a shape in the comments sidebar */
+  openShapeThreads: (shapeId: string) => void;
+}
+
+/**
+ * React Context for Canvas Comments
+ */
+export const CommentsContext = createContext<CanvasCommentsContext | null>(null);
+
+/**
+ * Hook to consume Canvas Comments context
+ *
+ * Unlike the other canvas contexts this one is optional, so shapes rendered
+ * without a comments provider simply show no badges.
+ *
+ * @returns Canvas comments context, or null outside a canvas
+ */
+export function useCanvasComments(): CanvasCommentsContext | null {
+  return useContext(CommentsContext);
+}
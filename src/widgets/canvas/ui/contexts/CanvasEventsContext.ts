@@ -6,12 +6,18 @@ import type { Tool as ClassTool } from '@/features/diagram-rendering/class/tools
 import type { Tool as SequenceTool } from '@/features/diagram-rendering/sequence/tools';
 import type { Tool as ArchitectureTool } from '@/features/diagram-rendering/architecture/tools';
 import type { Tool as EntityRelationshipTool } from '@/features/diagram-rendering/entity-relationship/tools';
-import type { EntityAttributeData } from '@/entities/shape';
+import type { Tool as DataflowTool } from '@/features/diagram-rendering/dataflow/tools';
+import type { Tool as WireframeTool } from '@/features/diagram-rendering/wireframe/tools';
+import type { EntityAttributeData, Point } from '@/entities/shape';
 import type { ToolbarButton } from '../toolbar/CanvasToolbar';
 import type { JSX } from 'react';
 import type { ConnectorTool } from '@/features/diagram-rendering/bpmn/connectors';
-import type { ArrowType } from '@/entities/connector';
+import type { ArrowType, Connector } from '@/entities/connector';
 import type { ResizeHandle } from '../../lib/utils/resize';
+import type { ArrangeAction } from '../../lib/config/arrange-actions';
+import type { UseAutoLayoutReturn } from '../../lib/hooks/useAutoLayout';
+import type { UseFindReplaceReturn } from '../../lib/hooks/useFindReplace';
+import type { UseStyleInspectorReturn } from '../../lib/hooks/useStyleInspector';
 
 /**
  * Canvas Events Context
@@ -75,19 +81,44 @@ export interface CanvasEventsContext {
   handleSequenceToolSelect: (tool: SequenceTool, canvasX: number, canvasY: number) => Promise<void>;
   handleArchitectureToolSelect: (tool: ArchitectureTool, canvasX: number, canvasY: number) => Promise<void>;
   handleEntityRelationshipToolSelect: (tool: EntityRelationshipTool, canvasX: number, canvasY: number) => Promise<void>;
+  handleDataflowToolSelect: (tool: DataflowTool, canvasX: number, canvasY: number) => Promise<void>;
+  handleWireframeToolSelect: (tool: WireframeTool, canvasX: number, canvasY: number) => Promise<void>;
   handleConnectorToolbarClick: () => void;
 
+  // Freehand Ink (pen mode)
+  handleInkStroke: (points: Point[]) => Promise<void>;
+  setPenModeEnabled: (enabled: boolean) => void;
+
   // Connector Type Management
   connectorTypeManager: {
     handleConnectorSelect: (connectorTool: ConnectorTool) => void;
     handleConnectorTypeChange: (connectorTool: ConnectorTool, connectorId: string) => Promise<void>;
     handleSourceMarkerChange: (arrowType: ArrowType, connectorId: string) => Promise<void>;
     handleTargetMarkerChange: (arrowType: ArrowType, connectorId: string) => Promise<void>;
+    handleRouteChange: (connectorId: string, points: Point[] | undefined) => Promise<void>;
+    handleRoutingStyleChange: (style: Connector['style'], connectorId: string) => Promise<void>;
+    handleResetRoute: (connectorId: string) => Promise<void>;
     availableConnectorTools: ConnectorTool[];
     activeConnectorIcon: JSX.Element;
     getConnectorConfig: (connectorType: string) => ConnectorTool | undefined;
   };
 
+  // Shape Arrangement (align, distribute, match size)
+  shapeArrangement: {
+    isActionEnabled: (action: ArrangeAction) => boolean;
+    handleArrange: (action: ArrangeAction) => Promise<void>;
+    arrangeableShapeCount: number;
+  };
+
+  // Automatic layout (whole diagram or selection)
+  autoLayout: UseAutoLayoutReturn;
+
+  // Find and replace (Cmd/Ctrl+F)
+  findReplace: UseFindReplaceReturn;
+
+  // Style inspector, style presets and format painter
+  styleInspector: UseStyleInspectorReturn;
+
   // Toolbar Configuration
   toolbarButtons: ToolbarButton[];
 
@@ -1,5 +1,6 @@
 import { createContext, useContext } from 'react';
 import type { InteractionMode, SelectionBox, DrawingConnector } from '../../lib/hooks/useInteractionState';
+import type { SnapGuide } from '../../lib/utils/smart-guides';
 
 /**
  * Canvas Selection Context
@@ -18,6 +19,7 @@ export interface CanvasSelectionContext {
   // Interaction State
   mode: InteractionMode;
   selectionBox: SelectionBox | null;
+  snapGuides: SnapGuide[]; // Smart guides shown while dragging/resizing
   drawingConnector: DrawingConnector | null;
 
   // Editing State
@@ -25,6 +27,7 @@ export interface CanvasSelectionContext {
   editingEntityType: 'shape' | 'connector' | null;
   gridSnappingEnabled: boolean;
   gridDisplayMode: 'dots' | 'lines';
+  penModeEnabled: boolean; // Dragging on the canvas draws freehand ink
   activeConnectorType: string;
 }
 
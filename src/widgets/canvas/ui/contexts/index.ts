@@ -2,3 +2,4 @@ export * from './CanvasDiagramContext';
 export * from './CanvasViewportContext';
 export * from './CanvasSelectionContext';
 export * from './CanvasEventsContext';
+export * from './CanvasCommentsContext';
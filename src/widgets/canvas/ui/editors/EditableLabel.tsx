@@ -1,6 +1,14 @@
 import { useRef, useEffect, type ChangeEvent, type KeyboardEvent } from 'react';
+import { useLabelStyle } from './LabelStyleContext';
 import './EditableLabel.css';
 
+// Flex alignment of the label box for each text alignment
+const JUSTIFY_CONTENT = {
+  left: 'flex-start',
+  center: 'center',
+  right: 'flex-end',
+} as const;
+
 export interface EditableLabelProps {
   label: string | undefined;
   isEditing: boolean;
@@ -20,7 +28,7 @@ export function EditableLabel({
   onStartEdit,
   onLabelChange,
   onFinishEdit,
-  fontSize = 12,
+  fontSize: defaultFontSize = 12,
   className,
   style,
   editClasses,
@@ -28,6 +36,12 @@ export function EditableLabel({
 }: EditableLabelProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // Style overrides of the shape or connector take precedence over the renderer's defaults
+  const labelStyle = useLabelStyle();
+  const fontSize = labelStyle?.fontSize ?? defaultFontSize;
+  const fontWeight = labelStyle?.fontWeight;
+  const textAlign = labelStyle?.textAlign ?? 'center';
+
   // Auto-resize textarea to fit content
   const adjustTextareaHeight = () => {
     if (textareaRef.current) {
@@ -87,8 +101,9 @@ export function EditableLabel({
   const editStructuralStyle: React.CSSProperties = {
     resize: 'none',
     fontSize: `${fontSize}px`,
+    fontWeight,
     fontFamily: 'inherit',
-    textAlign: 'center',
+    textAlign,
     overflow: 'hidden',
     outline: 'none',
   };
@@ -96,7 +111,8 @@ export function EditableLabel({
   // Structural styles for display mode (non-visual, functional)
   const displayStructuralStyle: React.CSSProperties = {
     fontSize: `${fontSize}px`,
-    textAlign: 'center',
+    fontWeight,
+    textAlign,
     overflow: 'hidden',
     height: '100%',
     display: '-webkit-box',
@@ -119,7 +135,9 @@ export function EditableLabel({
       style={{
         display: 'flex',
         alignItems: 'center',
-        justifyContent: 'center',
+        justifyContent: JUSTIFY_CONTENT[textAlign],
+        // Left/right aligned labels span the shape instead of hugging the text
+        ...(textAlign !== 'center' && { width: '100%' }),
         ...style,
       }}
     >
@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+import type { FontWeight, TextAlign } from '@/entities/shape';
+
+/**
+ * Label Style Context
+ *
+ * Font overrides from the style of the shape or connector an EditableLabel
+ * belongs to. Provided by ShapeWrapper and the connector renderers, so labels
+ * pick up the style without every renderer passing it along.
+ */
+export interface LabelStyle {
+  fontSize?: number;
+  fontWeight?: FontWeight;
+  textAlign?: TextAlign;
+}
+
+/**
+ * React Context for label style overrides
+ */
+export const LabelStyleContext = createContext<LabelStyle | null>(null);
+
+/**
+ * Hook to consume the label style overrides
+ *
+ * @returns Label style overrides, or null for unstyled elements
+ */
+export function useLabelStyle(): LabelStyle | null {
+  return useContext(LabelStyleContext);
+}
@@ -1,2 +1,3 @@
 export { EditableLabel } from './EditableLabel';
+export { LabelStyleContext, useLabelStyle, type LabelStyle } from './LabelStyleContext';
 export { ShapeDropdown } from './ShapeDropdown';
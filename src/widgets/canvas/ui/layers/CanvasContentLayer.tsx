@@ -22,7 +22,7 @@ import { ConnectorDrawingPreview } from '../rendering/ConnectorDrawingPreview';
  * This layer is isolated from toolbar and menu updates.
  */
 function CanvasContentLayerComponent() {
-  const { shapes, connectors } = useCanvasDiagram();
+  const { diagram, shapes, connectors } = useCanvasDiagram();
   const { viewportTransform } = useCanvasViewport();
   const {
     selectedShapeIds,
@@ -53,6 +53,7 @@ function CanvasContentLayerComponent() {
 
   return (
     <div
+      data-canvas-content-id={diagram?.id}
       className="absolute inset-0"
       style={{
         transform: viewportTransform.getTransformString(),
@@ -89,6 +90,7 @@ function CanvasContentLayerComponent() {
           selectedConnectorIds={selectedConnectorIds}
           hoveredConnectorId={hoveredConnectorId}
           viewportTransform={viewportTransform}
+          connectorSettings={diagram?.connectorSettings}
           editingEntityId={editingEntityId}
           editingEntityType={editingEntityType}
           onMouseDown={handleConnectorMouseDown}
@@ -97,6 +99,7 @@ function CanvasContentLayerComponent() {
           onDoubleClick={handleConnectorDoubleClick}
           onLabelChange={handleLabelChange}
           onFinishEditing={handleFinishEditing}
+          onRouteChange={connectorTypeManager.handleRouteChange}
         />
       </Suspense>
 
@@ -0,0 +1,154 @@
+import { memo, useMemo } from 'react';
+import { useDiagramHistoryStore } from '@/features/diagram-management';
+import { diffDiagramContent, type DiagramChangeKind } from '@/entities/diagram';
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+
+interface DiagramDiffOverlayProps {
+  diagramId: string;
+  shapes: Shape[];
+  connectors: Connector[];
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+// Space between a highlighted shape and its outline, in screen pixels
+const OUTLINE_PADDING = 4;
+
+const DIFF_COLORS: Record<DiagramChangeKind, string> = {
+  added: 'var(--canvas-diff-added)',
+  removed: 'var(--canvas-diff-removed)',
+  changed: 'var(--canvas-diff-changed)',
+};
+
+/**
+ * DiagramDiffOverlay Component
+ *
+ * Shows the changes made since the snapshot compared in the history panel:
+ * added shapes/connectors are outlined green, removed ones are drawn as red ghosts
+ * at their former position, and moved, resized, relabelled or otherwise changed
+ * ones are outlined amber (with a ghost of the former bounds and the former label).
+ * Subscribes to the history store itself. Memoized to prevent re-renders when
+ * other canvas state changes.
+ */
+function DiagramDiffOverlayComponent({
+  diagramId,
+  shapes,
+  connectors,
+  zoom,
+  panX,
+  panY,
+}: DiagramDiffOverlayProps) {
+  const comparison = useDiagramHistoryStore((state) =>
+    state.comparison?.diagramId === diagramId ? state.comparison : null
+  );
+
+  const diff = useMemo(
+    () => (comparison ? diffDiagramContent(comparison.content, { shapes, connectors }) : null),
+    [comparison, shapes, connectors]
+  );
+
+  // Shapes by ID in both versions, to place connectors (current position first)
+  const shapeMap = useMemo(() => {
+    const map = new Map((comparison?.content.shapes ?? []).map((shape) => [shape.id, shape]));
+    shapes.forEach((shape) => map.set(shape.id, shape));
+    return map;
+  }, [comparison, shapes]);
+
+  if (!diff) {
+    return null;
+  }
+
+  const toScreen = (x: number, y: number) => ({ x: x * zoom + panX, y: y * zoom + panY });
+  const center = (shape: Shape) =>
+    toScreen(shape.x + shape.width / 2, shape.y + shape.height / 2);
+
+  const renderOutline = (key: string, shape: Shape, kind: DiagramChangeKind, ghost = false) => {
+    const { x, y } = toScreen(shape.x, shape.y);
+    return (
+      <rect
+        key={key}
+        x={x - OUTLINE_PADDING}
+        y={y - OUTLINE_PADDING}
+        width={shape.width * zoom + OUTLINE_PADDING * 2}
+        height={shape.height * zoom + OUTLINE_PADDING * 2}
+        rx={4}
+        fill={ghost ? DIFF_COLORS[kind] : 'none'}
+        fillOpacity={ghost ? 0.12 : 0}
+        stroke={DIFF_COLORS[kind]}
+        strokeWidth={2}
+        strokeDasharray={ghost ? '6 4' : undefined}
+      />
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden">
+      <svg className="absolute inset-0 w-full h-full overflow-visible">
+        {diff.connectors.map((change) => {
+          const connector = change.after ?? change.before!;
+          const source = shapeMap.get(connector.sourceShapeId);
+          const target = shapeMap.get(connector.targetShapeId);
+          if (!source || !target) return null;
+          const from = center(source);
+          const to = center(target);
+          return (
+            <line
+              key={change.id}
+              x1={from.x}
+              y1={from.y}
+              x2={to.x}
+              y2={to.y}
+              stroke={DIFF_COLORS[change.kind]}
+              strokeWidth={3}
+              strokeOpacity={0.6}
+              strokeDasharray={change.kind === 'removed' ? '6 4' : undefined}
+            />
+          );
+        })}
+
+        {diff.shapes.map((change) => {
+          if (change.kind === 'removed') {
+            return renderOutline(change.id, change.before!, 'removed', true);
+          }
+          const repositioned =
+            change.aspects.includes('moved') || change.aspects.includes('resized');
+          return (
+            <g key={change.id}>
+              {repositioned && renderOutline('before', change.before!, 'changed', true)}
+              {renderOutline('after', change.after!, change.kind)}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Labels of removed shapes and former labels of relabelled shapes */}
+      {diff.shapes.map((change) => {
+        const removed = change.kind === 'removed';
+        if (!removed && !change.aspects.includes('relabelled')) return null;
+        const label = change.before?.label;
+        if (!label) return null;
+        const shape = removed ? change.before! : change.after!;
+        const { x, y } = toScreen(shape.x, shape.y);
+        return (
+          <span
+            key={change.id}
+            className={`
+              absolute px-1.5 py-0.5 rounded-sm text-[10px] leading-none text-white whitespace-nowrap
+              ${removed ? '' : 'line-through'}
+            `}
+            style={{
+              transform: `translate(${x - OUTLINE_PADDING}px, calc(${y - OUTLINE_PADDING}px - 100% - 2px))`,
+              backgroundColor: DIFF_COLORS[change.kind],
+            }}
+          >
+            {label}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+export const DiagramDiffOverlay = memo(DiagramDiffOverlayComponent);
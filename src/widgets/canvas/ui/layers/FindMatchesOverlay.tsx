@@ -0,0 +1,55 @@
+import { memo } from 'react';
+import type { Bounds } from '../../lib/utils/resize';
+
+interface FindMatchHighlight extends Bounds {
+  id: string;
+}
+
+interface FindMatchesOverlayProps {
+  highlights: FindMatchHighlight[];
+  /** Shape holding the current match */
+  activeId: string | null;
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+// Space between a highlighted shape and its highlight, in screen pixels
+const HIGHLIGHT_PADDING = 3;
+
+/**
+ * FindMatchesOverlay Component
+ *
+ * Highlights the shapes containing find-and-replace matches; the shape holding
+ * the current match gets an outline. Highlights are in canvas coordinates and
+ * projected to screen space with the viewport.
+ * Memoized to prevent re-renders when other canvas state changes.
+ */
+function FindMatchesOverlayComponent({ highlights, activeId, zoom, panX, panY }: FindMatchesOverlayProps) {
+  if (highlights.length === 0) {
+    return null;
+  }
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+      {highlights.map((highlight) => {
+        const isActive = highlight.id === activeId;
+        return (
+          <rect
+            key={highlight.id}
+            x={highlight.x * zoom + panX - HIGHLIGHT_PADDING}
+            y={highlight.y * zoom + panY - HIGHLIGHT_PADDING}
+            width={highlight.width * zoom + HIGHLIGHT_PADDING * 2}
+            height={highlight.height * zoom + HIGHLIGHT_PADDING * 2}
+            rx={4}
+            fill="var(--canvas-find-match)"
+            stroke={isActive ? 'var(--canvas-find-match-active)' : 'none'}
+            strokeWidth={2}
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+export const FindMatchesOverlay = memo(FindMatchesOverlayComponent);
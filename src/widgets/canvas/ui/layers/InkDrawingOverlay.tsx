@@ -0,0 +1,89 @@
+import { memo, useEffect, useState } from 'react';
+import type { Point } from '@/entities/shape';
+import { DEFAULT_INK_STROKE_WIDTH, getInkPathData } from '@/features/diagram-rendering/annotation';
+import type { ViewportTransform } from '../../lib/utils/viewport';
+
+interface InkDrawingOverlayProps {
+  viewportTransform: ViewportTransform;
+  /** Called with the stroke points (canvas coordinates) when the pen is lifted */
+  onStroke: (points: Point[]) => void;
+  /** Called when the user leaves pen mode with Escape */
+  onExit: () => void;
+}
+
+/**
+ * InkDrawingOverlay Component
+ *
+ * Shown while pen mode is on: covers the canvas so dragging with the left button
+ * draws a freehand stroke instead of selecting or moving shapes. The stroke is
+ * previewed while drawing and handed to onStroke when the button is released.
+ * Other buttons fall through to the canvas, so middle-button panning and wheel
+ * zoom keep working. Escape leaves pen mode.
+ */
+function InkDrawingOverlayComponent({ viewportTransform, onStroke, onExit }: InkDrawingOverlayProps) {
+  const [stroke, setStroke] = useState<Point[] | null>(null);
+  const { zoom, panX, panY } = viewportTransform.viewport;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onExit();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onExit]);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const toCanvas = (event: { clientX: number; clientY: number }) =>
+      viewportTransform.screenToCanvas(event.clientX - rect.left, event.clientY - rect.top);
+
+    const points: Point[] = [toCanvas(e)];
+    setStroke(points);
+
+    const handleMouseMove = (event: MouseEvent) => {
+      points.push(toCanvas(event));
+      setStroke([...points]);
+    };
+
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      setStroke(null);
+      onStroke(points);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  return (
+    <div
+      className="absolute inset-0"
+      onMouseDown={handleMouseDown}
+      style={{ cursor: 'crosshair' }}
+    >
+      {stroke && (
+        <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+          <g transform={`translate(${panX} ${panY}) scale(${zoom})`}>
+            <path
+              d={getInkPathData(stroke)}
+              fill="none"
+              stroke="var(--canvas-annotation-ink)"
+              strokeWidth={DEFAULT_INK_STROKE_WIDTH}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          </g>
+        </svg>
+      )}
+    </div>
+  );
+}
+
+export const InkDrawingOverlay = memo(InkDrawingOverlayComponent);
@@ -1,9 +1,11 @@
-import { memo } from 'react';
+import { memo, useCallback } from 'react';
 import { useCanvasDiagram } from '../contexts/CanvasDiagramContext';
 import { useCanvasSelection } from '../contexts/CanvasSelectionContext';
 import { useCanvasEvents } from '../contexts/CanvasEventsContext';
 import { useShapeSubtypeManager } from '../../lib/hooks/useShapeSubtypeManager';
 import { useDiagramStore } from '@/entities/diagram/store/useDiagramStore';
+import type { ConnectorSettings } from '@/entities/diagram';
+import { useInterfaceStore } from '@/entities/interface';
 import { MENU_IDS } from '../../lib/hooks/useContextMenuManager';
 import { ContextMenu } from '../menus/ContextMenu';
 import { BpmnToolsetPopover } from '@/features/diagram-rendering/bpmn/components/ToolsetPopover';
@@ -11,7 +13,11 @@ import { ClassToolsetPopover } from '../menus/popovers/ClassToolsetPopover';
 import { SequenceToolsetPopover } from '@/features/diagram-rendering/sequence/components/ToolsetPopover';
 import { ArchitectureToolsetPopover } from '@/features/diagram-rendering/architecture/components/ToolsetPopover';
 import { EntityRelationshipToolsetPopover } from '../menus/popovers/EntityRelationshipToolsetPopover';
+import { DataflowToolsetPopover } from '@/features/diagram-rendering/dataflow/components/ToolsetPopover';
+import { WireframeToolsetPopover } from '@/features/diagram-rendering/wireframe/components/ToolsetPopover';
 import { ConnectorToolsetPopover } from '../menus/popovers/ConnectorToolsetPopover';
+import { ArrangeToolsetPopover } from '../menus/popovers/ArrangeToolsetPopover';
+import { AutoLayoutPopover } from '../menus/popovers/AutoLayoutPopover';
 import { ConnectorContextMenu } from '../menus/ConnectorContextMenu';
 import { ShapeContextMenu } from '../menus/ShapeContextMenu';
 
@@ -39,7 +45,11 @@ function MenusLayerComponent() {
     handleSequenceToolSelect,
     handleArchitectureToolSelect,
     handleEntityRelationshipToolSelect,
+    handleDataflowToolSelect,
+    handleWireframeToolSelect,
     connectorTypeManager,
+    shapeArrangement,
+    autoLayout,
   } = useCanvasEvents();
 
   // Shape subtype manager for context menu
@@ -50,6 +60,28 @@ function MenusLayerComponent() {
     commandFactory,
   });
 
+  // Line jumps and crossing-aware routing are diagram-level settings
+  const updateDiagram = useDiagramStore((state) => state.updateDiagram);
+  const handleConnectorSettingsChange = useCallback(
+    (updates: Partial<ConnectorSettings>) => {
+      if (!diagram) return;
+      void updateDiagram(diagram.id, {
+        connectorSettings: {
+          lineJumps: 'none',
+          minimizeCrossings: false,
+          ...diagram.connectorSettings,
+          ...updates,
+        },
+      });
+    },
+    [diagram, updateDiagram]
+  );
+
+  // Wireframe canvases edit interface content; new primitives default to the interface's fidelity
+  const interfaceFidelity = useInterfaceStore((state) =>
+    diagram?.type === 'wireframe' ? state.interfaces[diagram.id]?.fidelity : undefined
+  );
+
   return (
     <>
       {/* BPMN Toolset Popover */}
@@ -122,6 +154,35 @@ function MenusLayerComponent() {
         />
       )}
 
+      {/* Data Flow Toolset Popover */}
+      {menuManager.isMenuOpen(MENU_IDS.DATAFLOW_TOOLSET_POPOVER) && menuManager.activeMenuConfig && (
+        <DataflowToolsetPopover
+          x={menuManager.activeMenuConfig.screenPosition.x}
+          y={menuManager.activeMenuConfig.screenPosition.y}
+          canvasX={menuManager.activeMenuConfig.canvasPosition?.x ?? 0}
+          canvasY={menuManager.activeMenuConfig.canvasPosition?.y ?? 0}
+          isOpen={true}
+          onClose={menuManager.closeMenu}
+          onToolSelect={handleDataflowToolSelect}
+          drawingConnector={drawingConnector}
+        />
+      )}
+
+      {/* Wireframe Toolset Popover */}
+      {menuManager.isMenuOpen(MENU_IDS.WIREFRAME_TOOLSET_POPOVER) && menuManager.activeMenuConfig && (
+        <WireframeToolsetPopover
+          x={menuManager.activeMenuConfig.screenPosition.x}
+          y={menuManager.activeMenuConfig.screenPosition.y}
+          canvasX={menuManager.activeMenuConfig.canvasPosition?.x ?? 0}
+          canvasY={menuManager.activeMenuConfig.canvasPosition?.y ?? 0}
+          isOpen={true}
+          onClose={menuManager.closeMenu}
+          onToolSelect={handleWireframeToolSelect}
+          defaultFidelity={interfaceFidelity}
+          drawingConnector={drawingConnector}
+        />
+      )}
+
       {/* Canvas Context Menu */}
       {menuManager.isMenuOpen(MENU_IDS.CANVAS_CONTEXT_MENU) && menuManager.activeMenuConfig && (
         <ContextMenu
@@ -146,6 +207,35 @@ function MenusLayerComponent() {
           }}
           connectorTools={connectorTypeManager.availableConnectorTools}
           activeConnectorType={activeConnectorType}
+          connectorSettings={diagram?.connectorSettings}
+          onConnectorSettingsChange={
+            diagram && diagram.type !== 'sequence' ? handleConnectorSettingsChange : undefined
+          }
+        />
+      )}
+
+      {/* Arrange Toolset Popover (align, distribute, match size) */}
+      {menuManager.isMenuOpen(MENU_IDS.ARRANGE_TOOLBAR_POPOVER) && menuManager.activeMenuConfig && (
+        <ArrangeToolsetPopover
+          x={menuManager.activeMenuConfig.screenPosition.x}
+          y={menuManager.activeMenuConfig.screenPosition.y}
+          isOpen={true}
+          onClose={menuManager.closeMenu}
+          isActionEnabled={shapeArrangement.isActionEnabled}
+          onArrange={shapeArrangement.handleArrange}
+        />
+      )}
+
+      {/* Auto-Layout Popover (layout algorithms for the diagram type) */}
+      {menuManager.isMenuOpen(MENU_IDS.AUTO_LAYOUT_TOOLBAR_POPOVER) && menuManager.activeMenuConfig && (
+        <AutoLayoutPopover
+          x={menuManager.activeMenuConfig.screenPosition.x}
+          y={menuManager.activeMenuConfig.screenPosition.y}
+          isOpen={true}
+          onClose={menuManager.closeMenu}
+          algorithms={autoLayout.algorithms}
+          scope={autoLayout.scope}
+          onLayout={autoLayout.runLayout}
         />
       )}
 
@@ -170,6 +260,12 @@ function MenusLayerComponent() {
           currentConnector={connectors.find(c => c.id === menuManager.activeMenuConfig?.metadata?.connectorId)}
           currentConnectorType={connectors.find(c => c.id === menuManager.activeMenuConfig?.metadata?.connectorId)?.type}
           diagramType={diagram?.type}
+          onRoutingStyleChange={async (style) => {
+            await connectorTypeManager.handleRoutingStyleChange(style, menuManager.activeMenuConfig!.metadata!.connectorId as string);
+          }}
+          onResetRoute={async () => {
+            await connectorTypeManager.handleResetRoute(menuManager.activeMenuConfig!.metadata!.connectorId as string);
+          }}
         />
       )}
 
@@ -186,6 +282,9 @@ function MenusLayerComponent() {
           }}
           shapeTools={shapeSubtypeManager.getAvailableSubtypes(shapes.find(s => s.id === menuManager.activeMenuConfig?.metadata?.shapeId)?.type ?? '')}
           currentShapeSubtype={shapes.find(s => s.id === menuManager.activeMenuConfig?.metadata?.shapeId)?.subtype}
+          showArrangeActions={shapeArrangement.arrangeableShapeCount >= 2}
+          isArrangeActionEnabled={shapeArrangement.isActionEnabled}
+          onArrange={shapeArrangement.handleArrange}
         />
       )}
     </>
@@ -0,0 +1,127 @@
+import { memo, useMemo } from 'react';
+import { LuMousePointer2 } from 'react-icons/lu';
+import { getPresenceColor, useCanvasPresenceStore } from '@/features/collaboration';
+import type { Shape } from '@/entities/shape';
+import type { Connector } from '@/entities/connector';
+
+interface RemoteCursorsOverlayProps {
+  diagramId: string;
+  shapes: Shape[];
+  connectors: Connector[];
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+// Space between a selected shape and its outline, in screen pixels
+const OUTLINE_PADDING = 4;
+
+/**
+ * RemoteCursorsOverlay Component
+ *
+ * Draws the cursors and selections of collaborators editing the same diagram,
+ * each in the collaborator's color: cursors with a name label, selected shapes
+ * with an outline and selected connectors as a dashed line between their shapes.
+ * Subscribes to the presence store itself so cursor movement only re-renders
+ * this overlay. Memoized to prevent re-renders when other canvas state changes.
+ */
+function RemoteCursorsOverlayComponent({
+  diagramId,
+  shapes,
+  connectors,
+  zoom,
+  panX,
+  panY,
+}: RemoteCursorsOverlayProps) {
+  const presencesByClient = useCanvasPresenceStore((state) => state.presenceByDiagram[diagramId]);
+  const presences = useMemo(() => Object.values(presencesByClient ?? {}), [presencesByClient]);
+
+  const shapeMap = useMemo(() => new Map(shapes.map((shape) => [shape.id, shape])), [shapes]);
+  const connectorMap = useMemo(
+    () => new Map(connectors.map((connector) => [connector.id, connector])),
+    [connectors]
+  );
+
+  if (presences.length === 0) {
+    return null;
+  }
+
+  const toScreen = (x: number, y: number) => ({ x: x * zoom + panX, y: y * zoom + panY });
+  const center = (shape: Shape) =>
+    toScreen(shape.x + shape.width / 2, shape.y + shape.height / 2);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden">
+      <svg className="absolute inset-0 w-full h-full overflow-visible">
+        {presences.map((presence) => {
+          const color = getPresenceColor(presence.userId);
+          return (
+            <g key={presence.clientId}>
+              {presence.selectedShapeIds.map((shapeId) => {
+                const shape = shapeMap.get(shapeId);
+                if (!shape) return null;
+                const { x, y } = toScreen(shape.x, shape.y);
+                return (
+                  <rect
+                    key={shapeId}
+                    x={x - OUTLINE_PADDING}
+                    y={y - OUTLINE_PADDING}
+                    width={shape.width * zoom + OUTLINE_PADDING * 2}
+                    height={shape.height * zoom + OUTLINE_PADDING * 2}
+                    rx={4}
+                    fill="none"
+                    stroke={color}
+                    strokeWidth={2}
+                  />
+                );
+              })}
+              {presence.selectedConnectorIds.map((connectorId) => {
+                const connector = connectorMap.get(connectorId);
+                const source = connector && shapeMap.get(connector.sourceShapeId);
+                const target = connector && shapeMap.get(connector.targetShapeId);
+                if (!source || !target) return null;
+                const from = center(source);
+                const to = center(target);
+                return (
+                  <line
+                    key={connectorId}
+                    x1={from.x}
+                    y1={from.y}
+                    x2={to.x}
+                    y2={to.y}
+                    stroke={color}
+                    strokeWidth={2}
+                    strokeDasharray="6 4"
+                  />
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+
+      {presences.map((presence) => {
+        if (!presence.cursor) return null;
+        const color = getPresenceColor(presence.userId);
+        const { x, y } = toScreen(presence.cursor.x, presence.cursor.y);
+        return (
+          <div
+            key={presence.clientId}
+            className="absolute flex items-start gap-0.5 transition-transform duration-75 ease-linear"
+            style={{ transform: `translate(${x}px, ${y}px)` }}
+          >
+            <LuMousePointer2 size={16} style={{ color, fill: color }} />
+            <span
+              className="mt-3 px-1.5 py-0.5 rounded-sm text-[10px] leading-none text-white whitespace-nowrap"
+              style={{ backgroundColor: color }}
+            >
+              {presence.name || 'Anonymous'}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export const RemoteCursorsOverlay = memo(RemoteCursorsOverlayComponent);
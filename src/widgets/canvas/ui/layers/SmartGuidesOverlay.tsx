@@ -0,0 +1,111 @@
+import { memo } from 'react';
+import type { SnapGuide } from '../../lib/utils/smart-guides';
+
+interface SmartGuidesOverlayProps {
+  guides: SnapGuide[];
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+// Length of the end ticks on spacing indicators, in screen pixels
+const SPACING_TICK_SIZE = 4;
+
+/**
+ * SmartGuidesOverlay Component
+ *
+ * Renders alignment lines and equal-spacing indicators while shapes are dragged or resized.
+ * Guides are in canvas coordinates and projected to screen space with the viewport.
+ * Memoized to prevent re-renders when other canvas state changes.
+ */
+function SmartGuidesOverlayComponent({ guides, zoom, panX, panY }: SmartGuidesOverlayProps) {
+  if (guides.length === 0) {
+    return null;
+  }
+
+  const toScreenX = (x: number) => x * zoom + panX;
+  const toScreenY = (y: number) => y * zoom + panY;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none overflow-visible"
+      style={{ color: 'var(--canvas-smart-guide)' }}
+    >
+      {guides.map((guide, index) => {
+        if (guide.kind === 'alignment') {
+          return guide.axis === 'x' ? (
+            <line
+              key={index}
+              x1={toScreenX(guide.position)}
+              y1={toScreenY(guide.start)}
+              x2={toScreenX(guide.position)}
+              y2={toScreenY(guide.end)}
+              stroke="currentColor"
+              strokeWidth={1}
+            />
+          ) : (
+            <line
+              key={index}
+              x1={toScreenX(guide.start)}
+              y1={toScreenY(guide.position)}
+              x2={toScreenX(guide.end)}
+              y2={toScreenY(guide.position)}
+              stroke="currentColor"
+              strokeWidth={1}
+            />
+          );
+        }
+
+        // Spacing: a measured segment with end ticks and its length for each equal gap
+        return (
+          <g key={index}>
+            {guide.gaps.map((gap, gapIndex) => {
+              const isHorizontal = guide.axis === 'x';
+              const start = isHorizontal ? toScreenX(gap.start) : toScreenY(gap.start);
+              const end = isHorizontal ? toScreenX(gap.end) : toScreenY(gap.end);
+              const cross = isHorizontal ? toScreenY(guide.position) : toScreenX(guide.position);
+              const point = (along: number, across: number) =>
+                isHorizontal ? { x: along, y: across } : { x: across, y: along };
+              const from = point(start, cross);
+              const to = point(end, cross);
+              const label = point((start + end) / 2, cross - 8);
+
+              return (
+                <g key={gapIndex}>
+                  <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="currentColor" strokeWidth={1} />
+                  {[start, end].map((along) => {
+                    const tickFrom = point(along, cross - SPACING_TICK_SIZE);
+                    const tickTo = point(along, cross + SPACING_TICK_SIZE);
+                    return (
+                      <line
+                        key={along}
+                        x1={tickFrom.x}
+                        y1={tickFrom.y}
+                        x2={tickTo.x}
+                        y2={tickTo.y}
+                        stroke="currentColor"
+                        strokeWidth={1}
+                      />
+                    );
+                  })}
+                  <text
+                    x={label.x}
+                    y={label.y}
+                    fill="currentColor"
+                    fontSize={10}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                  >
+                    {Math.round(gap.end - gap.start)}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export const SmartGuidesOverlay = memo(SmartGuidesOverlayComponent);
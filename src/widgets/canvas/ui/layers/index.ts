@@ -3,3 +3,8 @@ export { GridLayer } from './GridLayer';
 export { MenusLayer } from './MenusLayer';
 export { ToolbarLayer } from './ToolbarLayer';
 export { SelectionBoxOverlay } from './SelectionBoxOverlay';
+export { SmartGuidesOverlay } from './SmartGuidesOverlay';
+export { FindMatchesOverlay } from './FindMatchesOverlay';
+export { RemoteCursorsOverlay } from './RemoteCursorsOverlay';
+export { DiagramDiffOverlay } from './DiagramDiffOverlay';
+export { InkDrawingOverlay } from './InkDrawingOverlay';
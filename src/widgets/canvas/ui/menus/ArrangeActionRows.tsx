@@ -0,0 +1,53 @@
+/**
+ * Arrange Action Rows Component
+ *
+ * Renders the align, distribute and match-size actions as labelled rows of icon buttons.
+ * Shared by the arrange toolbar popover and the shape context menu.
+ */
+
+import type { ArrangeAction, ArrangeActionGroup } from '../../lib/config/arrange-actions';
+
+interface ArrangeActionRowsProps {
+  /** Action groups to display */
+  groups: ArrangeActionGroup[];
+  /** Whether an action applies to the current selection */
+  isActionEnabled: (action: ArrangeAction) => boolean;
+  /** Callback when an action is selected */
+  onArrange: (action: ArrangeAction) => void;
+}
+
+export function ArrangeActionRows({ groups, isActionEnabled, onArrange }: ArrangeActionRowsProps) {
+  return (
+    <>
+      {groups.map((group, groupIndex) => (
+        <div key={group.type}>
+          {/* Divider between groups */}
+          {groupIndex > 0 && <div className="border-t border-[var(--border)] my-2" />}
+
+          <div className="text-xs text-[var(--text-muted)] px-2 py-1">
+            {group.label}:
+          </div>
+          <div className="flex gap-1 py-1 px-1">
+            {group.actions.map((action) => {
+              const Icon = action.icon;
+              const enabled = isActionEnabled(action);
+
+              return (
+                <button
+                  key={action.id}
+                  onClick={() => onArrange(action)}
+                  disabled={!enabled}
+                  className="w-6 h-6 min-w-[24px] min-h-[24px] p-0 flex items-center justify-center text-[var(--text)] hover:bg-[var(--highlight)] rounded-sm transition-colors duration-[var(--transition-fast)] cursor-pointer border-0 bg-transparent disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                  title={enabled ? action.name : `${action.name} (select at least ${action.minShapes} shapes)`}
+                  aria-label={action.name}
+                >
+                  <Icon size={14} />
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
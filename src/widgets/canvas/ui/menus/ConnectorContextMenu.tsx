@@ -3,10 +3,12 @@
  *
  * Displays a context menu when the user right-clicks on an existing connector.
  * For class and ER diagrams, shows cardinality options for source and target ends.
- * Also allows changing the connector type.
+ * Also allows changing the connector type, switching the routing style and
+ * resetting an edited route to the automatic one.
  */
 
 import type { ComponentType } from 'react';
+import { LuCornerDownRight, LuRouteOff, LuSlash, LuSpline } from 'react-icons/lu';
 import type { ConnectorTool } from '@/features/diagram-rendering/bpmn/connectors';
 import type { ArrowType, Connector } from '@/entities/connector';
 import { ContextMenuWrapper } from './ContextMenuWrapper';
@@ -44,8 +46,19 @@ interface ConnectorContextMenuProps {
   currentConnectorType?: string;
   /** Diagram type to determine which cardinality options to show */
   diagramType?: string;
+  /** Callback when the routing style is changed (keeps the connector type) */
+  onRoutingStyleChange?: (style: Connector['style']) => void;
+  /** Callback to drop the user-defined route points */
+  onResetRoute?: () => void;
 }
 
+// Routing styles offered in the menu
+const routingOptions: Array<{ style: Connector['style']; label: string; icon: ComponentType<{ size?: number }> }> = [
+  { style: 'straight', label: 'Straight', icon: LuSlash },
+  { style: 'orthogonal', label: 'Orthogonal', icon: LuCornerDownRight },
+  { style: 'curved', label: 'Curved', icon: LuSpline },
+];
+
 // Crow's foot cardinality options for ER diagrams
 const crowFootOptions: CardinalityOption[] = [
   {
@@ -207,11 +220,17 @@ export function ConnectorContextMenu({
   currentConnector,
   currentConnectorType,
   diagramType,
+  onRoutingStyleChange,
+  onResetRoute,
 }: ConnectorContextMenuProps) {
   // Determine which cardinality options to show based on diagram type
   const showCardinality = diagramType === 'class' || diagramType === 'entity-relationship';
   const cardinalityOptions = diagramType === 'entity-relationship' ? crowFootOptions : umlMultiplicityOptions;
 
+  // Sequence messages are laid out by the diagram, not routed
+  const showRouting = diagramType !== 'sequence' && onRoutingStyleChange && onResetRoute;
+  const hasCustomRoute = (currentConnector?.points?.length ?? 0) > 0;
+
   // Don't render if no tools available
   if (connectorTools.length === 0) {
     return null;
@@ -254,6 +273,49 @@ export function ConnectorContextMenu({
         })}
       </div>
 
+      {/* Routing Row */}
+      {showRouting && (
+        <>
+          <div className="text-xs text-[var(--text-muted)] px-2 py-1">
+            Routing:
+          </div>
+          <div className="flex gap-1 py-1 px-1">
+            {routingOptions.map((option) => {
+              const Icon = option.icon;
+              const isCurrent = currentConnector?.style === option.style;
+
+              return (
+                <button
+                  key={option.style}
+                  onClick={() => {
+                    onRoutingStyleChange(option.style);
+                    onClose();
+                  }}
+                  className={`w-6 h-6 min-w-[24px] min-h-[24px] p-0 flex items-center justify-center text-[var(--text)] hover:bg-[var(--highlight)] rounded-sm transition-colors duration-[var(--transition-fast)] cursor-pointer border-0 ${
+                    isCurrent ? 'bg-[var(--highlight)]' : 'bg-transparent'
+                  }`}
+                  title={option.label}
+                  aria-label={option.label}
+                >
+                  <Icon size={14} />
+                </button>
+              );
+            })}
+          </div>
+          <button
+            onClick={() => {
+              onResetRoute();
+              onClose();
+            }}
+            disabled={!hasCustomRoute}
+            className="w-full flex items-center gap-2 px-2 py-1 text-sm text-left text-[var(--text)] hover:bg-[var(--highlight)] rounded-sm transition-colors duration-[var(--transition-fast)] cursor-pointer border-0 bg-transparent disabled:opacity-50 disabled:cursor-default disabled:hover:bg-transparent"
+          >
+            <LuRouteOff size={14} />
+            Reset to auto route
+          </button>
+        </>
+      )}
+
       {/* Cardinality Rows - only for class and ER diagrams */}
       {showCardinality && onSourceMarkerChange && onTargetMarkerChange && (
         <>
@@ -3,10 +3,15 @@
  *
  * Displays a context menu with shape subtypes when the user right-clicks on a shape.
  * Allows the user to change the shape subtype inline.
+ * With several shapes selected, shows the align, distribute and match-size actions instead.
  */
 
 import type { ShapeTool } from '../../lib/hooks/useShapeSubtypeManager';
+import type { ArrangeAction } from '../../lib/config/arrange-actions';
+import { arrangeActionGroups } from '../../lib/config/arrange-actions';
 import { ToolMenuComponent } from './ToolMenuComponent';
+import { ContextMenuWrapper } from './ContextMenuWrapper';
+import { ArrangeActionRows } from './ArrangeActionRows';
 
 interface ShapeContextMenuProps {
   /** X position in screen coordinates */
@@ -23,6 +28,12 @@ interface ShapeContextMenuProps {
   shapeTools: ShapeTool[];
   /** Currently selected shape's subtype (for highlighting) */
   currentShapeSubtype?: string;
+  /** Whether several shapes are selected (shows arrange actions instead of subtypes) */
+  showArrangeActions?: boolean;
+  /** Whether an arrange action applies to the current selection */
+  isArrangeActionEnabled?: (action: ArrangeAction) => boolean;
+  /** Callback when an arrange action is selected */
+  onArrange?: (action: ArrangeAction) => void;
 }
 
 export function ShapeContextMenu({
@@ -33,7 +44,32 @@ export function ShapeContextMenu({
   onShapeSubtypeChange,
   shapeTools,
   currentShapeSubtype,
+  showArrangeActions = false,
+  isArrangeActionEnabled,
+  onArrange,
 }: ShapeContextMenuProps) {
+  if (showArrangeActions && isArrangeActionEnabled && onArrange) {
+    return (
+      <ContextMenuWrapper
+        menuId="shape-context-menu"
+        isOpen={isOpen}
+        x={x}
+        y={y}
+        onClose={onClose}
+        className="bg-[var(--bg-light)] border border-[var(--border)] rounded-sm [box-shadow:var(--shadow)] p-2"
+      >
+        <ArrangeActionRows
+          groups={arrangeActionGroups}
+          isActionEnabled={isArrangeActionEnabled}
+          onArrange={(action) => {
+            onArrange(action);
+            onClose();
+          }}
+        />
+      </ContextMenuWrapper>
+    );
+  }
+
   return (
     <ToolMenuComponent<ShapeTool>
       menuId="shape-context-menu"
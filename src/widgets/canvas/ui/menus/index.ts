@@ -3,4 +3,5 @@ export { ContextMenuWrapper } from './ContextMenuWrapper';
 export { ShapeContextMenu } from './ShapeContextMenu';
 export { ConnectorContextMenu } from './ConnectorContextMenu';
 export { ToolMenuComponent } from './ToolMenuComponent';
+export { ArrangeActionRows } from './ArrangeActionRows';
 export * from './popovers';
@@ -0,0 +1,59 @@
+/**
+ * Arrange Toolset Popover Component
+ *
+ * Displays the align, distribute and match-size actions when the user clicks the
+ * arrange toolbar button with several shapes selected.
+ */
+
+import type { ArrangeAction } from '../../../lib/config/arrange-actions';
+import { arrangeActionGroups } from '../../../lib/config/arrange-actions';
+import { ContextMenuWrapper } from '../ContextMenuWrapper';
+import { ArrangeActionRows } from '../ArrangeActionRows';
+
+interface ArrangeToolsetPopoverProps {
+  /** X position in screen coordinates */
+  x: number;
+  /** Y position in screen coordinates */
+  y: number;
+  /** Whether the popover is visible */
+  isOpen: boolean;
+  /** Callback when popover should close */
+  onClose: () => void;
+  /** Whether an action applies to the current selection */
+  isActionEnabled: (action: ArrangeAction) => boolean;
+  /** Callback when an action is selected */
+  onArrange: (action: ArrangeAction) => void;
+}
+
+export function ArrangeToolsetPopover({
+  x,
+  y,
+  isOpen,
+  onClose,
+  isActionEnabled,
+  onArrange,
+}: ArrangeToolsetPopoverProps) {
+  const handleArrange = (action: ArrangeAction) => {
+    onArrange(action);
+    onClose();
+  };
+
+  return (
+    <ContextMenuWrapper
+      menuId="arrange-toolset-popover"
+      isOpen={isOpen}
+      x={x}
+      y={y}
+      onClose={onClose}
+      className="bg-[var(--bg-light)] border border-[var(--border)] rounded-sm [box-shadow:var(--shadow)] p-2"
+      centered
+      anchorBottom
+    >
+      <ArrangeActionRows
+        groups={arrangeActionGroups}
+        isActionEnabled={isActionEnabled}
+        onArrange={handleArrange}
+      />
+    </ContextMenuWrapper>
+  );
+}
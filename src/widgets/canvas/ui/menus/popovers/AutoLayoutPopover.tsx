@@ -0,0 +1,71 @@
+/**
+ * Auto-Layout Popover Component
+ *
+ * Lists the layout algorithms available for the diagram type when the user clicks the
+ * auto-layout toolbar button. The layout applies to the selection, or to the whole
+ * diagram when nothing is selected.
+ */
+
+import type { LayoutAlgorithm } from '../../../lib/utils/auto-layout';
+import { ContextMenuWrapper } from '../ContextMenuWrapper';
+
+interface AutoLayoutPopoverProps {
+  /** X position in screen coordinates */
+  x: number;
+  /** Y position in screen coordinates */
+  y: number;
+  /** Whether the popover is visible */
+  isOpen: boolean;
+  /** Callback when popover should close */
+  onClose: () => void;
+  /** Algorithms available for the diagram type, default first */
+  algorithms: LayoutAlgorithm[];
+  /** Whether the layout applies to the selection or the whole diagram */
+  scope: 'selection' | 'diagram';
+  /** Callback when an algorithm is selected */
+  onLayout: (algorithm: LayoutAlgorithm) => void;
+}
+
+export function AutoLayoutPopover({
+  x,
+  y,
+  isOpen,
+  onClose,
+  algorithms,
+  scope,
+  onLayout,
+}: AutoLayoutPopoverProps) {
+  const handleLayout = (algorithm: LayoutAlgorithm) => {
+    onLayout(algorithm);
+    onClose();
+  };
+
+  return (
+    <ContextMenuWrapper
+      menuId="auto-layout-popover"
+      isOpen={isOpen}
+      x={x}
+      y={y}
+      onClose={onClose}
+      className="bg-[var(--bg-light)] border border-[var(--border)] rounded-sm [box-shadow:var(--shadow)] p-2 min-w-[220px]"
+      centered
+      anchorBottom
+    >
+      <div className="text-xs text-[var(--text-muted)] px-2 py-1">
+        {scope === 'selection' ? 'Layout selection:' : 'Layout diagram:'}
+      </div>
+      <div className="flex flex-col py-1">
+        {algorithms.map((algorithm) => (
+          <button
+            key={algorithm.id}
+            onClick={() => handleLayout(algorithm)}
+            className="flex flex-col items-start px-2 py-1 text-left text-[var(--text)] hover:bg-[var(--highlight)] rounded-sm transition-colors duration-[var(--transition-fast)] cursor-pointer border-0 bg-transparent"
+          >
+            <span className="text-sm">{algorithm.name}</span>
+            <span className="text-xs text-[var(--text-muted)]">{algorithm.description}</span>
+          </button>
+        ))}
+      </div>
+    </ContextMenuWrapper>
+  );
+}
@@ -2,12 +2,22 @@
  * Connector Toolset Popover Component
  *
  * Displays a popover with connector types when the user clicks the connector toolbar button
- * or right-clicks on an existing connector.
+ * or right-clicks on an existing connector. Below the connector types, the diagram-level
+ * crossing settings: line jumps and crossing-aware routing.
  */
 
 import type { ConnectorTool } from '@/features/diagram-rendering/bpmn/connectors';
+import type { ConnectorSettings, LineJumpStyle } from '@/entities/diagram';
+import { Checkbox } from '@/shared/ui';
 import { ContextMenuWrapper } from '../ContextMenuWrapper';
 
+// Line jump styles offered in the popover
+const lineJumpOptions: Array<{ style: LineJumpStyle; label: string; tooltip: string }> = [
+  { style: 'none', label: 'None', tooltip: 'Plain intersections' },
+  { style: 'arc', label: 'Arc', tooltip: 'Arcs where connectors cross' },
+  { style: 'gap', label: 'Gap', tooltip: 'Gaps where connectors cross' },
+];
+
 interface ConnectorToolsetPopoverProps {
   /** X position in screen coordinates */
   x: number;
@@ -23,6 +33,10 @@ interface ConnectorToolsetPopoverProps {
   connectorTools: ConnectorTool[];
   /** Currently active connector type ID (for highlighting) */
   activeConnectorType?: string;
+  /** Crossing settings of the diagram */
+  connectorSettings?: ConnectorSettings;
+  /** Callback when a crossing setting is changed (settings are hidden without it) */
+  onConnectorSettingsChange?: (updates: Partial<ConnectorSettings>) => void;
 }
 
 export function ConnectorToolsetPopover({
@@ -33,7 +47,12 @@ export function ConnectorToolsetPopover({
   onConnectorSelect,
   connectorTools,
   activeConnectorType,
+  connectorSettings,
+  onConnectorSettingsChange,
 }: ConnectorToolsetPopoverProps) {
+  const lineJumps = connectorSettings?.lineJumps ?? 'none';
+  const minimizeCrossings = connectorSettings?.minimizeCrossings ?? false;
+
   const handleConnectorClick = (connectorTool: ConnectorTool) => {
     onConnectorSelect(connectorTool);
     onClose();
@@ -71,6 +90,39 @@ export function ConnectorToolsetPopover({
           );
         })}
       </div>
+
+      {/* Crossing settings (apply to the whole diagram) */}
+      {onConnectorSettingsChange && (
+        <>
+          <div className="border-t border-[var(--border)] my-2" />
+          <div className="text-xs text-[var(--text-muted)] px-1 py-1">
+            Line jumps:
+          </div>
+          <div className="flex gap-1 py-1">
+            {lineJumpOptions.map((option) => (
+              <button
+                key={option.style}
+                onClick={() => onConnectorSettingsChange({ lineJumps: option.style })}
+                className={`h-6 px-2 flex items-center justify-center text-xs text-[var(--text)] hover:bg-[var(--highlight)] rounded-sm transition-colors duration-[var(--transition-fast)] cursor-pointer border-0 ${
+                  lineJumps === option.style ? 'bg-[var(--highlight)]' : 'bg-transparent'
+                }`}
+                title={option.tooltip}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="px-1 py-1">
+            <Checkbox
+              id="connector-minimize-crossings"
+              size="small"
+              checked={minimizeCrossings}
+              onChange={() => onConnectorSettingsChange({ minimizeCrossings: !minimizeCrossings })}
+              label="Minimize crossings"
+            />
+          </div>
+        </>
+      )}
     </ContextMenuWrapper>
   );
 }
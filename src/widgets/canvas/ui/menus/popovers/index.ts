@@ -1,3 +1,5 @@
 export { ClassToolsetPopover } from './ClassToolsetPopover';
 export { EntityRelationshipToolsetPopover } from './EntityRelationshipToolsetPopover';
 export { ConnectorToolsetPopover } from './ConnectorToolsetPopover';
+export { ArrangeToolsetPopover } from './ArrangeToolsetPopover';
+export { AutoLayoutPopover } from './AutoLayoutPopover';
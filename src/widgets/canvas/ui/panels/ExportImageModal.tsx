@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Modal, Select, Checkbox } from '@/shared/ui';
+import { toast } from '@/shared/lib/utils';
+import { useCanvasImageExport } from '../../lib/hooks/useCanvasImageExport';
+import {
+  DEFAULT_IMAGE_EXPORT_OPTIONS,
+  type ImageExportOptions,
+  type ImageExportFormat,
+  type ImageExportScale,
+  type ImageExportBackground,
+} from '../../lib/utils/image-export';
+
+interface ExportImageModalProps {
+  open: boolean;
+  diagramId: string;
+  diagramName: string;
+  onClose: () => void;
+}
+
+const formatOptions = [
+  { value: 'svg', label: 'SVG (vector)' },
+  { value: 'png', label: 'PNG (image)' },
+];
+
+const scaleOptions = [
+  { value: '1', label: '1x' },
+  { value: '2', label: '2x' },
+  { value: '4', label: '4x' },
+];
+
+const backgroundOptions = [
+  { value: 'solid', label: 'Solid (canvas color)' },
+  { value: 'transparent', label: 'Transparent' },
+];
+
+/**
+ * ExportImageModal - Export the rendered diagram as a standalone SVG or PNG
+ *
+ * Options cover the PNG pixel ratio, cropping to the content bounds,
+ * overlay layers (e.g. suggestions) and the background.
+ */
+export function ExportImageModal({ open, diagramId, diagramName, onClose }: ExportImageModalProps) {
+  const { exportImage, isExporting } = useCanvasImageExport(diagramId);
+  // Options are kept between exports while the diagram stays open
+  const [options, setOptions] = useState<ImageExportOptions>(DEFAULT_IMAGE_EXPORT_OPTIONS);
+
+  const updateOptions = (updates: Partial<ImageExportOptions>) => {
+    setOptions((current) => ({ ...current, ...updates }));
+  };
+
+  const handleExport = async () => {
+    try {
+      await exportImage(options, diagramName);
+      onClose();
+    } catch (error) {
+      toast.error(`Failed to export image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onCancel={onClose}
+      onOk={handleExport}
+      title="Export Image"
+      okText="Export"
+      cancelText="Cancel"
+      okButtonProps={{
+        disabled: isExporting,
+        loading: isExporting,
+      }}
+      width={420}
+    >
+      <div className="flex flex-col gap-4">
+        <div className="flex flex-col gap-1">
+          <span className="text-sm text-[var(--text)]">Format</span>
+          <Select
+            value={options.format}
+            onChange={(value) => updateOptions({ format: value as ImageExportFormat })}
+            options={formatOptions}
+          />
+        </div>
+
+        {options.format === 'png' && (
+          <div className="flex flex-col gap-1">
+            <span className="text-sm text-[var(--text)]">Scale</span>
+            <Select
+              value={String(options.scale)}
+              onChange={(value) => updateOptions({ scale: Number(value) as ImageExportScale })}
+              options={scaleOptions}
+            />
+          </div>
+        )}
+
+        <div className="flex flex-col gap-1">
+          <span className="text-sm text-[var(--text)]">Background</span>
+          <Select
+            value={options.background}
+            onChange={(value) => updateOptions({ background: value as ImageExportBackground })}
+            options={backgroundOptions}
+          />
+        </div>
+
+        <Checkbox
+          label="Crop to content"
+          checked={options.cropToContent}
+          onChange={(e) => updateOptions({ cropToContent: e.target.checked })}
+        />
+
+        <Checkbox
+          label="Include overlays (e.g. suggestions)"
+          checked={options.includeOverlays}
+          onChange={(e) => updateOptions({ includeOverlays: e.target.checked })}
+        />
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,188 @@
+import { memo, useState } from 'react';
+import type { ReactNode } from 'react';
+import {
+  LuCaseSensitive,
+  LuChevronDown,
+  LuChevronRight,
+  LuChevronUp,
+  LuReplace,
+  LuReplaceAll,
+  LuWholeWord,
+  LuX,
+} from 'react-icons/lu';
+import { useCanvasEvents } from '../contexts/CanvasEventsContext';
+
+interface PanelIconButtonProps {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  active?: boolean;
+  children: ReactNode;
+}
+
+function PanelIconButton({ title, onClick, disabled = false, active = false, children }: PanelIconButtonProps) {
+  return (
+    <button
+      type="button"
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className={`
+        flex items-center justify-center w-6 h-6 rounded-sm
+        transition-colors duration-100
+        disabled:opacity-40 disabled:cursor-not-allowed
+        ${active
+          ? 'bg-[var(--highlight)] text-[var(--text)]'
+          : 'text-[var(--text-muted)] hover:bg-[var(--highlight)] hover:text-[var(--text)]'}
+      `}
+    >
+      {children}
+    </button>
+  );
+}
+
+const INPUT_CLASS_NAME =
+  'flex-1 min-w-0 h-6 px-2 text-xs bg-[var(--bg)] text-[var(--text)] border border-[var(--border)] rounded-sm focus:outline-none focus:border-[var(--primary)]';
+
+/**
+ * FindReplacePanel - Search panel at the top of the canvas, opened with Cmd/Ctrl+F
+ *
+ * Searches labels and members of the diagram, steps through the matches
+ * (Enter / Shift+Enter) and replaces the current or all matches.
+ * Escape closes the panel.
+ */
+function FindReplacePanelComponent() {
+  const { findReplace } = useCanvasEvents();
+  const [showReplace, setShowReplace] = useState(false);
+
+  if (!findReplace.isOpen) {
+    return null;
+  }
+
+  const {
+    query,
+    setQuery,
+    replacement,
+    setReplacement,
+    options,
+    toggleOption,
+    matches,
+    activeIndex,
+    goToNext,
+    goToPrevious,
+    replace,
+    replaceAll,
+    close,
+  } = findReplace;
+  const hasMatches = matches.length > 0;
+
+  const handleFindKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        goToPrevious();
+      } else {
+        goToNext();
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    } else if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'f') {
+      // Keep the browser search closed while the panel has focus
+      e.preventDefault();
+      e.currentTarget.select();
+    }
+  };
+
+  const handleReplaceKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      void replace();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  return (
+    <div
+      className="
+        absolute z-10
+        top-4 left-1/2 -translate-x-1/2
+        flex gap-1
+        bg-[var(--bg-light)]
+        border border-[var(--border)]
+        rounded-md
+        shadow-md
+        p-1
+        w-[340px]
+      "
+      // Keep panel interactions from starting a selection or pan on the canvas
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <PanelIconButton
+        title={showReplace ? 'Hide replace' : 'Show replace'}
+        onClick={() => setShowReplace(!showReplace)}
+      >
+        {showReplace ? <LuChevronDown size={14} /> : <LuChevronRight size={14} />}
+      </PanelIconButton>
+
+      <div className="flex flex-col flex-1 gap-1 min-w-0">
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleFindKeyDown}
+            placeholder="Find"
+            className={INPUT_CLASS_NAME}
+            autoFocus
+          />
+          <PanelIconButton title="Match case" onClick={() => toggleOption('matchCase')} active={options.matchCase}>
+            <LuCaseSensitive size={14} />
+          </PanelIconButton>
+          <PanelIconButton
+            title="Match whole word"
+            onClick={() => toggleOption('wholeWord')}
+            active={options.wholeWord}
+          >
+            <LuWholeWord size={14} />
+          </PanelIconButton>
+          <span className="w-16 text-center text-xs text-[var(--text-muted)] whitespace-nowrap">
+            {query ? (hasMatches ? `${activeIndex + 1} of ${matches.length}` : 'No results') : ''}
+          </span>
+          <PanelIconButton title="Previous match (Shift+Enter)" onClick={goToPrevious} disabled={!hasMatches}>
+            <LuChevronUp size={14} />
+          </PanelIconButton>
+          <PanelIconButton title="Next match (Enter)" onClick={goToNext} disabled={!hasMatches}>
+            <LuChevronDown size={14} />
+          </PanelIconButton>
+          <PanelIconButton title="Close (Escape)" onClick={close}>
+            <LuX size={14} />
+          </PanelIconButton>
+        </div>
+
+        {showReplace && (
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              onKeyDown={handleReplaceKeyDown}
+              placeholder="Replace"
+              className={INPUT_CLASS_NAME}
+            />
+            <PanelIconButton title="Replace (Enter)" onClick={() => void replace()} disabled={!hasMatches}>
+              <LuReplace size={14} />
+            </PanelIconButton>
+            <PanelIconButton title="Replace all" onClick={() => void replaceAll()} disabled={!hasMatches}>
+              <LuReplaceAll size={14} />
+            </PanelIconButton>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export const FindReplacePanel = memo(FindReplacePanelComponent);
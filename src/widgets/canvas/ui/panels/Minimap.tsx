@@ -0,0 +1,241 @@
+import { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { LuChevronDown, LuChevronUp, LuMap } from 'react-icons/lu';
+import {
+  useOverlayVisibilityStore,
+  isOverlayElementVisible,
+} from '@/features/diagram-management';
+import { useCanvasDiagram } from '../contexts/CanvasDiagramContext';
+import { useCanvasViewport } from '../contexts/CanvasViewportContext';
+import { useCanvasEvents } from '../contexts/CanvasEventsContext';
+import { getCombinedBounds } from '../../lib/utils/smart-guides';
+import type { Bounds } from '../../lib/utils/resize';
+
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 140;
+
+// Space around the diagram inside the minimap, in minimap pixels
+const MINIMAP_PADDING = 8;
+
+/**
+ * Mapping between canvas coordinates and minimap pixels
+ */
+interface MinimapFrame {
+  world: Bounds;
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Active drag of the viewport rectangle
+ * The frame is frozen so the minimap does not rescale while the viewport moves.
+ */
+interface MinimapDrag {
+  frame: MinimapFrame;
+  /** Pointer position relative to the viewport's top-left corner, in canvas units */
+  grabX: number;
+  grabY: number;
+}
+
+function createFrame(world: Bounds): MinimapFrame {
+  const scale = Math.min(
+    (MINIMAP_WIDTH - MINIMAP_PADDING * 2) / Math.max(world.width, 1),
+    (MINIMAP_HEIGHT - MINIMAP_PADDING * 2) / Math.max(world.height, 1)
+  );
+  return {
+    world,
+    scale,
+    offsetX: (MINIMAP_WIDTH - world.width * scale) / 2,
+    offsetY: (MINIMAP_HEIGHT - world.height * scale) / 2,
+  };
+}
+
+/**
+ * Minimap - Collapsible lower-left overview of the whole diagram
+ *
+ * Renders every visible shape as a simplified rectangle together with the area
+ * currently shown on the canvas. Dragging the viewport rectangle pans the canvas;
+ * clicking elsewhere centers the viewport on that point.
+ */
+function MinimapComponent() {
+  const { shapes } = useCanvasDiagram();
+  const { viewportTransform } = useCanvasViewport();
+  const { containerRef } = useCanvasEvents();
+  const visibleOverlays = useOverlayVisibilityStore((state) => state.visibleOverlays);
+
+  const [collapsed, setCollapsed] = useState(false);
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const [drag, setDrag] = useState<MinimapDrag | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // Track the canvas size to size the viewport rectangle
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  const shapeBounds = useMemo(
+    () =>
+      shapes
+        .filter((shape) => !shape.isPreview && isOverlayElementVisible(shape.overlayTag, visibleOverlays))
+        .map((shape) => ({ id: shape.id, x: shape.x, y: shape.y, width: shape.width, height: shape.height })),
+    [shapes, visibleOverlays]
+  );
+
+  const { zoom, panX, panY } = viewportTransform.viewport;
+  const viewportBounds: Bounds = {
+    x: -panX / zoom,
+    y: -panY / zoom,
+    width: containerSize.width / zoom,
+    height: containerSize.height / zoom,
+  };
+
+  if (shapeBounds.length === 0 || containerSize.width === 0) {
+    return null;
+  }
+
+  const frame =
+    drag?.frame ?? createFrame(getCombinedBounds([...shapeBounds, viewportBounds]) ?? viewportBounds);
+
+  const toMinimap = (bounds: Bounds) => ({
+    x: (bounds.x - frame.world.x) * frame.scale + frame.offsetX,
+    y: (bounds.y - frame.world.y) * frame.scale + frame.offsetY,
+    width: Math.max(bounds.width * frame.scale, 1),
+    height: Math.max(bounds.height * frame.scale, 1),
+  });
+
+  const toCanvas = (clientX: number, clientY: number, activeFrame: MinimapFrame) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    const localX = clientX - (rect?.left ?? 0);
+    const localY = clientY - (rect?.top ?? 0);
+    return {
+      x: (localX - activeFrame.offsetX) / activeFrame.scale + activeFrame.world.x,
+      y: (localY - activeFrame.offsetY) / activeFrame.scale + activeFrame.world.y,
+    };
+  };
+
+  // Move the viewport so its top-left corner is at (x, y) in canvas coordinates
+  const panViewportTo = (x: number, y: number) => {
+    viewportTransform.setViewport(zoom, -x * zoom, -y * zoom);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    const point = toCanvas(e.clientX, e.clientY, frame);
+    const isInsideViewport =
+      point.x >= viewportBounds.x &&
+      point.x <= viewportBounds.x + viewportBounds.width &&
+      point.y >= viewportBounds.y &&
+      point.y <= viewportBounds.y + viewportBounds.height;
+
+    // Outside the viewport rectangle: center the viewport on the point, then drag from its center
+    const grabX = isInsideViewport ? point.x - viewportBounds.x : viewportBounds.width / 2;
+    const grabY = isInsideViewport ? point.y - viewportBounds.y : viewportBounds.height / 2;
+    if (!isInsideViewport) {
+      panViewportTo(point.x - grabX, point.y - grabY);
+    }
+
+    setDrag({ frame, grabX, grabY });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    const point = toCanvas(e.clientX, e.clientY, drag.frame);
+    panViewportTo(point.x - drag.grabX, point.y - drag.grabY);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    setDrag(null);
+  };
+
+  const viewportRect = toMinimap(viewportBounds);
+
+  return (
+    <div
+      className="
+        absolute z-10
+        bottom-3 left-4
+        bg-[var(--bg-light)]
+        border border-[var(--border)]
+        rounded-md
+        shadow-md
+        overflow-hidden
+      "
+      // Keep minimap interactions from starting a selection or pan on the canvas
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <button
+        type="button"
+        className="flex items-center gap-2 w-full px-2 py-1 hover:bg-[var(--highlight)] transition-colors duration-100"
+        onClick={() => setCollapsed(!collapsed)}
+        title={collapsed ? 'Show minimap' : 'Hide minimap'}
+      >
+        <LuMap size={14} className="text-[var(--text-muted)]" />
+        <span className="flex-1 text-left text-xs font-medium text-[var(--text)]">Minimap</span>
+        {collapsed ? (
+          <LuChevronUp size={14} className="text-[var(--text-muted)]" />
+        ) : (
+          <LuChevronDown size={14} className="text-[var(--text-muted)]" />
+        )}
+      </button>
+
+      {!collapsed && (
+        <svg
+          ref={svgRef}
+          width={MINIMAP_WIDTH}
+          height={MINIMAP_HEIGHT}
+          className="block border-t border-[var(--border)] bg-[var(--bg)]"
+          style={{ cursor: drag ? 'grabbing' : 'pointer', touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {shapeBounds.map((bounds) => {
+            const rect = toMinimap(bounds);
+            return (
+              <rect
+                key={bounds.id}
+                x={rect.x}
+                y={rect.y}
+                width={rect.width}
+                height={rect.height}
+                fill="var(--text-muted)"
+                fillOpacity={0.35}
+              />
+            );
+          })}
+
+          {/* Visible area of the canvas */}
+          <rect
+            x={viewportRect.x}
+            y={viewportRect.y}
+            width={viewportRect.width}
+            height={viewportRect.height}
+            fill="var(--primary)"
+            fillOpacity={0.1}
+            stroke="var(--primary)"
+            strokeWidth={1.5}
+            style={{ cursor: 'grab' }}
+          />
+        </svg>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Memoized Minimap - re-renders only when shapes or the viewport change
+ */
+export const Minimap = memo(MinimapComponent);
@@ -0,0 +1,405 @@
+import { memo, useState } from 'react';
+import type { ReactNode } from 'react';
+import {
+  LuAlignCenter,
+  LuAlignLeft,
+  LuAlignRight,
+  LuBold,
+  LuPalette,
+  LuPlus,
+  LuRotateCcw,
+  LuTrash2,
+  LuX,
+} from 'react-icons/lu';
+import { TbLine, TbLineDashed, TbLineDotted } from 'react-icons/tb';
+import type { ShapeStyle, StrokeDash, TextAlign } from '@/entities/shape';
+import { useCanvasEvents } from '../contexts/CanvasEventsContext';
+
+interface PanelIconButtonProps {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  active?: boolean;
+  children: ReactNode;
+}
+
+function PanelIconButton({ title, onClick, disabled = false, active = false, children }: PanelIconButtonProps) {
+  return (
+    <button
+      type="button"
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className={`
+        flex items-center justify-center w-6 h-6 rounded-sm
+        transition-colors duration-100
+        disabled:opacity-40 disabled:cursor-not-allowed
+        ${active
+          ? 'bg-[var(--highlight)] text-[var(--text)]'
+          : 'text-[var(--text-muted)] hover:bg-[var(--highlight)] hover:text-[var(--text)]'}
+      `}
+    >
+      {children}
+    </button>
+  );
+}
+
+const INPUT_CLASS_NAME =
+  'flex-1 min-w-0 h-6 px-2 text-xs bg-[var(--bg)] text-[var(--text)] border border-[var(--border)] rounded-sm focus:outline-none focus:border-[var(--primary)]';
+
+// Light tints for fills, saturated colors for strokes
+const FILL_SWATCHES = ['#fee2e2', '#ffedd5', '#fef9c3', '#dcfce7', '#dbeafe', '#ede9fe', '#fce7f3', '#f1f5f9'];
+const STROKE_SWATCHES = ['#dc2626', '#ea580c', '#ca8a04', '#16a34a', '#2563eb', '#7c3aed', '#db2777', '#475569'];
+
+const DASH_OPTIONS: Array<{ value: StrokeDash; title: string; icon: ReactNode }> = [
+  { value: 'solid', title: 'Solid', icon: <TbLine size={14} /> },
+  { value: 'dashed', title: 'Dashed', icon: <TbLineDashed size={14} /> },
+  { value: 'dotted', title: 'Dotted', icon: <TbLineDotted size={14} /> },
+];
+
+const ALIGN_OPTIONS: Array<{ value: TextAlign; title: string; icon: ReactNode }> = [
+  { value: 'left', title: 'Align left', icon: <LuAlignLeft size={14} /> },
+  { value: 'center', title: 'Align center', icon: <LuAlignCenter size={14} /> },
+  { value: 'right', title: 'Align right', icon: <LuAlignRight size={14} /> },
+];
+
+interface ColorFieldProps {
+  label: string;
+  value: string | undefined;
+  swatches: string[];
+  disabled?: boolean;
+  onChange: (color: string | undefined) => void;
+}
+
+/**
+ * Color swatches plus a custom color picker; the picker commits when it closes,
+ * so dragging through colors doesn't flood the undo history
+ */
+function ColorField({ label, value, swatches, disabled = false, onChange }: ColorFieldProps) {
+  const [draft, setDraft] = useState(value ?? '#ffffff');
+
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="text-xs text-[var(--text-muted)]">{label}</span>
+      <div className="flex items-center gap-1">
+        {swatches.map((swatch) => (
+          <button
+            key={swatch}
+            type="button"
+            title={swatch}
+            disabled={disabled}
+            onClick={() => onChange(swatch)}
+            className={`
+              w-4 h-4 rounded-sm border disabled:opacity-40 disabled:cursor-not-allowed
+              ${value === swatch ? 'border-[var(--primary)]' : 'border-[var(--border)]'}
+            `}
+            style={{ backgroundColor: swatch }}
+          />
+        ))}
+        <input
+          type="color"
+          title="Custom color"
+          value={draft}
+          disabled={disabled}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => {
+            if (draft !== value) onChange(draft);
+          }}
+          className="w-5 h-5 p-0 bg-transparent border-none cursor-pointer disabled:opacity-40"
+        />
+        <PanelIconButton title={`Default ${label.toLowerCase()}`} onClick={() => onChange(undefined)} disabled={disabled || !value}>
+          <LuRotateCcw size={12} />
+        </PanelIconButton>
+      </div>
+    </div>
+  );
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number | undefined;
+  placeholder: string;
+  min: number;
+  max: number;
+  disabled?: boolean;
+  onChange: (value: number | undefined) => void;
+}
+
+/**
+ * Number input that commits on Enter or blur; clearing it resets the property
+ */
+function NumberField({ label, value, placeholder, min, max, disabled = false, onChange }: NumberFieldProps) {
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value));
+
+  const commit = () => {
+    const parsed = draft.trim() === '' ? undefined : Number(draft);
+    if (parsed !== undefined && Number.isNaN(parsed)) {
+      setDraft(value === undefined ? '' : String(value));
+      return;
+    }
+    const clamped = parsed === undefined ? undefined : Math.min(max, Math.max(min, parsed));
+    setDraft(clamped === undefined ? '' : String(clamped));
+    if (clamped !== value) onChange(clamped);
+  };
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-[var(--text-muted)]">
+      <span className="w-16">{label}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        value={draft}
+        placeholder={placeholder}
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            commit();
+          }
+        }}
+        className={INPUT_CLASS_NAME}
+      />
+    </label>
+  );
+}
+
+function describeSelection(shapeCount: number, connectorCount: number): string {
+  const parts: string[] = [];
+  if (shapeCount > 0) parts.push(`${shapeCount} shape${shapeCount === 1 ? '' : 's'}`);
+  if (connectorCount > 0) parts.push(`${connectorCount} connector${connectorCount === 1 ? '' : 's'}`);
+  return parts.join(', ');
+}
+
+/**
+ * Key of the style fields, so their drafts reset when the selection or its style changes
+ */
+function getStyleKey(style: ShapeStyle, shapeCount: number, connectorCount: number): string {
+  return `${shapeCount}:${connectorCount}:${JSON.stringify(style)}`;
+}
+
+/**
+ * StyleInspectorPanel - Right-side panel for styling the selected shapes and connectors
+ *
+ * Edits fill, stroke color/width/dash, font size/weight, text alignment and opacity
+ * of the selection, and manages the diagram's named style presets. Values shown are
+ * the ones shared by the whole selection. Fill and text alignment apply to shapes only.
+ */
+function StyleInspectorPanelComponent() {
+  const { styleInspector } = useCanvasEvents();
+  const [presetName, setPresetName] = useState('');
+
+  if (!styleInspector.isOpen) {
+    return null;
+  }
+
+  const {
+    close,
+    selectedShapeCount,
+    selectedConnectorCount,
+    selectionStyle: style,
+    updateStyle,
+    resetStyle,
+    presets,
+    savePreset,
+    applyPreset,
+    deletePreset,
+  } = styleInspector;
+  const hasSelection = selectedShapeCount + selectedConnectorCount > 0;
+  const hasShapes = selectedShapeCount > 0;
+  const fieldKey = getStyleKey(style, selectedShapeCount, selectedConnectorCount);
+
+  const handleSavePreset = async () => {
+    if (!presetName.trim()) return;
+    await savePreset(presetName);
+    setPresetName('');
+  };
+
+  return (
+    <div
+      className="
+        absolute z-10
+        top-16 right-4
+        flex flex-col gap-3
+        bg-[var(--bg-light)]
+        border border-[var(--border)]
+        rounded-md
+        shadow-md
+        p-2
+        w-[240px]
+      "
+      // Keep panel interactions from starting a selection or pan on the canvas
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center gap-2 pb-2 border-b border-[var(--border)]">
+        <LuPalette size={14} className="text-[var(--text-muted)]" />
+        <span className="text-xs font-medium text-[var(--text)]">Style</span>
+        <span className="flex-1 text-xs text-[var(--text-muted)] truncate">
+          {describeSelection(selectedShapeCount, selectedConnectorCount)}
+        </span>
+        <PanelIconButton title="Close" onClick={close}>
+          <LuX size={14} />
+        </PanelIconButton>
+      </div>
+
+      {!hasSelection ? (
+        <span className="text-xs text-[var(--text-muted)]">Select shapes or connectors to style them</span>
+      ) : (
+        <div key={fieldKey} className="flex flex-col gap-3">
+          <ColorField
+            label="Fill"
+            value={style.fill}
+            swatches={FILL_SWATCHES}
+            disabled={!hasShapes}
+            onChange={(fill) => void updateStyle({ fill })}
+          />
+
+          <ColorField
+            label="Stroke"
+            value={style.strokeColor}
+            swatches={STROKE_SWATCHES}
+            onChange={(strokeColor) => void updateStyle({ strokeColor })}
+          />
+
+          <div className="flex flex-col gap-1">
+            <NumberField
+              label="Width"
+              value={style.strokeWidth}
+              placeholder="Default"
+              min={0.5}
+              max={12}
+              onChange={(strokeWidth) => void updateStyle({ strokeWidth })}
+            />
+            <div className="flex items-center gap-2 text-xs text-[var(--text-muted)]">
+              <span className="w-16">Dash</span>
+              {DASH_OPTIONS.map((option) => (
+                <PanelIconButton
+                  key={option.value}
+                  title={option.title}
+                  onClick={() => void updateStyle({ strokeDash: option.value })}
+                  active={style.strokeDash === option.value}
+                >
+                  {option.icon}
+                </PanelIconButton>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <NumberField
+              label="Font size"
+              value={style.fontSize}
+              placeholder="Default"
+              min={6}
+              max={72}
+              onChange={(fontSize) => void updateStyle({ fontSize })}
+            />
+            <div className="flex items-center gap-2 text-xs text-[var(--text-muted)]">
+              <span className="w-16">Text</span>
+              <PanelIconButton
+                title="Bold"
+                onClick={() => void updateStyle({ fontWeight: style.fontWeight === 'bold' ? undefined : 'bold' })}
+                active={style.fontWeight === 'bold'}
+              >
+                <LuBold size={14} />
+              </PanelIconButton>
+              {ALIGN_OPTIONS.map((option) => (
+                <PanelIconButton
+                  key={option.value}
+                  title={option.title}
+                  onClick={() => void updateStyle({ textAlign: option.value })}
+                  disabled={!hasShapes}
+                  active={style.textAlign === option.value}
+                >
+                  {option.icon}
+                </PanelIconButton>
+              ))}
+            </div>
+          </div>
+
+          <NumberField
+            label="Opacity %"
+            value={style.opacity === undefined ? undefined : Math.round(style.opacity * 100)}
+            placeholder="100"
+            min={10}
+            max={100}
+            onChange={(percent) => void updateStyle({ opacity: percent === undefined ? undefined : percent / 100 })}
+          />
+
+          <button
+            type="button"
+            onClick={() => void resetStyle()}
+            className="flex items-center gap-1 self-start text-xs text-[var(--text-muted)] hover:text-[var(--text)]"
+          >
+            <LuRotateCcw size={12} />
+            Reset to default style
+          </button>
+        </div>
+      )}
+
+      {/* Diagram style presets */}
+      <div className="flex flex-col gap-1 pt-2 border-t border-[var(--border)]">
+        <span className="text-xs font-medium text-[var(--text)]">Presets</span>
+        {presets.length === 0 && (
+          <span className="text-xs text-[var(--text-muted)]">Save a style to reuse it across the diagram</span>
+        )}
+        {presets.map((preset) => (
+          <div key={preset.id} className="flex items-center gap-1">
+            <button
+              type="button"
+              title={hasSelection ? `Apply "${preset.name}" to the selection` : 'Select shapes or connectors to apply'}
+              disabled={!hasSelection}
+              onClick={() => void applyPreset(preset.id)}
+              className="
+                flex flex-1 items-center gap-2 min-w-0 px-1 h-6 rounded-sm text-xs text-left text-[var(--text)]
+                hover:bg-[var(--highlight)] disabled:opacity-60 disabled:cursor-not-allowed
+              "
+            >
+              <span
+                className="w-4 h-4 shrink-0 rounded-sm border"
+                style={{
+                  backgroundColor: preset.style.fill ?? 'var(--bg)',
+                  borderColor: preset.style.strokeColor ?? 'var(--border)',
+                  borderStyle: preset.style.strokeDash ?? 'solid',
+                }}
+              />
+              <span className="truncate">{preset.name}</span>
+            </button>
+            <PanelIconButton title="Delete preset" onClick={() => void deletePreset(preset.id)}>
+              <LuTrash2 size={12} />
+            </PanelIconButton>
+          </div>
+        ))}
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                void handleSavePreset();
+              }
+            }}
+            placeholder="Preset name"
+            maxLength={100}
+            disabled={!hasSelection}
+            className={INPUT_CLASS_NAME}
+          />
+          <PanelIconButton
+            title="Save style of the selection as a preset"
+            onClick={() => void handleSavePreset()}
+            disabled={!hasSelection || !presetName.trim()}
+          >
+            <LuPlus size={14} />
+          </PanelIconButton>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const StyleInspectorPanel = memo(StyleInspectorPanelComponent);
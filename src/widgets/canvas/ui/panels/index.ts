@@ -1,2 +1,6 @@
+export { ExportImageModal } from './ExportImageModal';
+export { FindReplacePanel } from './FindReplacePanel';
 export { MermaidViewer } from './MermaidViewer';
+export { Minimap } from './Minimap';
 export { OverlayControlPanel } from './OverlayControlPanel';
+export { StyleInspectorPanel } from './StyleInspectorPanel';
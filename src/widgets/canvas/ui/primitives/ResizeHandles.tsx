@@ -38,6 +38,7 @@ export function ResizeHandles({ shape, zoom, onResizeStart }: ResizeHandlesProps
         return (
           <div
             key={handle}
+            data-export-ignore
             className="absolute"
             style={{
               left: `${x}px`,
@@ -1,9 +1,17 @@
-import { memo, useMemo } from 'react';
-import type { Shape } from '@/entities/shape';
+import { memo, useCallback, useMemo, useState } from 'react';
+import type { Point, Shape } from '@/entities/shape';
 import type { Connector } from '@/entities/connector';
+import type { ConnectorSettings } from '@/entities/diagram';
+import type { Segment } from '../../lib/utils/routing';
 import type { ViewportTransform } from '../../lib/utils/viewport';
 import { ConnectorRenderer } from '@/features/diagram-rendering/shared/rendering/ConnectorRenderer';
 import type { ConnectorRenderContext } from '@/features/diagram-rendering/shared/rendering/connector-types';
+import {
+  computeLineJumps,
+  getPathSegments,
+  type ConnectorPath,
+  type LineJump,
+} from '@/features/diagram-rendering/shared/rendering/lineJumps';
 import {
   useOverlayVisibilityStore,
   isOverlayElementVisible,
@@ -15,6 +23,8 @@ interface CanvasConnectorsListProps {
   selectedConnectorIds: string[];
   hoveredConnectorId: string | null;
   viewportTransform: ViewportTransform;
+  /** Diagram-level line jump and crossing-aware routing settings */
+  connectorSettings?: ConnectorSettings;
   editingEntityId: string | null;
   editingEntityType: 'shape' | 'connector' | null;
   onMouseDown: (e: React.MouseEvent, connectorId: string) => void;
@@ -23,8 +33,12 @@ interface CanvasConnectorsListProps {
   onDoubleClick: (connectorId: string) => void;
   onLabelChange: (entityId: string, entityType: 'shape' | 'connector', newLabel: string) => void;
   onFinishEditing: () => void;
+  onRouteChange: (connectorId: string, points: Point[] | undefined) => void;
 }
 
+// Shared empty list, so connectors without routes below keep a stable routing input
+const NO_SEGMENTS: Segment[] = [];
+
 /**
  * Custom comparison function for React.memo
  * Only re-render if props that affect rendering have actually changed
@@ -36,6 +50,7 @@ function arePropsEqual(
   // Check connectors and shapes arrays by reference (from useMemo in parent)
   if (prevProps.connectors !== nextProps.connectors) return false;
   if (prevProps.shapes !== nextProps.shapes) return false;
+  if (prevProps.connectorSettings !== nextProps.connectorSettings) return false;
 
   // Compare selection arrays by content
   if (prevProps.selectedConnectorIds.length !== nextProps.selectedConnectorIds.length) return false;
@@ -60,6 +75,7 @@ function arePropsEqual(
   if (prevProps.onDoubleClick !== nextProps.onDoubleClick) return false;
   if (prevProps.onLabelChange !== nextProps.onLabelChange) return false;
   if (prevProps.onFinishEditing !== nextProps.onFinishEditing) return false;
+  if (prevProps.onRouteChange !== nextProps.onRouteChange) return false;
 
   return true;
 }
@@ -73,6 +89,7 @@ function CanvasConnectorsListComponent({
   selectedConnectorIds,
   hoveredConnectorId,
   viewportTransform,
+  connectorSettings,
   editingEntityId,
   editingEntityType,
   onMouseDown,
@@ -81,6 +98,7 @@ function CanvasConnectorsListComponent({
   onDoubleClick,
   onLabelChange,
   onFinishEditing,
+  onRouteChange,
 }: CanvasConnectorsListProps) {
   // Get overlay visibility state
   const visibleOverlays = useOverlayVisibilityStore((state) => state.visibleOverlays);
@@ -91,6 +109,61 @@ function CanvasConnectorsListComponent({
     [shapes]
   );
 
+  // Line jumps and crossing-aware routing need the rendered routes of the connectors
+  const lineJumpStyle = connectorSettings?.lineJumps ?? 'none';
+  const minimizeCrossings = connectorSettings?.minimizeCrossings ?? false;
+  const tracksPaths = lineJumpStyle !== 'none' || minimizeCrossings;
+
+  const [connectorPaths, setConnectorPaths] = useState<Record<string, Point[]>>({});
+
+  const handlePathChange = useCallback((connectorId: string, pathPoints: Point[] | null) => {
+    setConnectorPaths((prev) => {
+      if (!pathPoints) {
+        if (!(connectorId in prev)) return prev;
+        const next = { ...prev };
+        delete next[connectorId];
+        return next;
+      }
+      const current = prev[connectorId];
+      const unchanged =
+        current?.length === pathPoints.length &&
+        current.every((point, i) => point.x === pathPoints[i].x && point.y === pathPoints[i].y);
+      return unchanged ? prev : { ...prev, [connectorId]: pathPoints };
+    });
+  }, []);
+
+  // Rendered routes of the visible connectors, in drawing order
+  const orderedPaths = useMemo(() => {
+    const paths: ConnectorPath[] = [];
+    if (!tracksPaths) return paths;
+
+    for (const connector of connectors) {
+      const points = connectorPaths[connector.id];
+      if (points && isOverlayElementVisible(connector.overlayTag, visibleOverlays)) {
+        paths.push({ connectorId: connector.id, points, canJump: connector.style !== 'curved' });
+      }
+    }
+    return paths;
+  }, [tracksPaths, connectors, connectorPaths, visibleOverlays]);
+
+  // Each connector jumps over, and is routed around, the connectors drawn before it
+  const lineJumps = useMemo(
+    () => (lineJumpStyle !== 'none' ? computeLineJumps(orderedPaths) : new Map<string, LineJump[]>()),
+    [lineJumpStyle, orderedPaths]
+  );
+
+  const crossingSegments = useMemo(() => {
+    const segmentsById = new Map<string, Segment[]>();
+    if (!minimizeCrossings) return segmentsById;
+
+    let below: Segment[] = [];
+    for (const path of orderedPaths) {
+      segmentsById.set(path.connectorId, below);
+      below = [...below, ...getPathSegments(path.points)];
+    }
+    return segmentsById;
+  }, [minimizeCrossings, orderedPaths]);
+
   return (
     <>
       {connectors.map((connector) => {
@@ -117,6 +190,10 @@ function CanvasConnectorsListComponent({
           zoom: viewportTransform.viewport.zoom,
           readOnly: false,
           allShapes: shapes, // Provide all shapes for obstacle avoidance
+          lineJumpStyle,
+          lineJumps: lineJumps.get(connector.id),
+          // Before its route is known, a connector is routed without the others
+          crossingSegments: minimizeCrossings ? (crossingSegments.get(connector.id) ?? NO_SEGMENTS) : undefined,
         };
 
         const isEditing = editingEntityId === connector.id && editingEntityType === 'connector';
@@ -147,6 +224,8 @@ function CanvasConnectorsListComponent({
               onDoubleClick={onDoubleClick}
               onLabelChange={onLabelChange}
               onFinishEditing={onFinishEditing}
+              onRouteChange={onRouteChange}
+              onPathChange={tracksPaths ? handlePathChange : undefined}
             />
           </svg>
         );
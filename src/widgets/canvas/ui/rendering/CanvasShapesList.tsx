@@ -4,8 +4,7 @@ import type { ViewportTransform } from '../../lib/utils/viewport';
 import { ShapeRenderer } from '@/features/diagram-rendering/shared/rendering/ShapeRenderer';
 import type { RenderContext } from '@/features/diagram-rendering/shared/rendering/types';
 import { ResizeHandles } from '../primitives/ResizeHandles';
-import { isContainerType } from '../../lib/utils/containment-utils';
-import type { ResizeHandle } from '../../lib/utils/resize';
+import { isResizableType, type ResizeHandle } from '../../lib/utils/resize';
 import {
   useOverlayVisibilityStore,
   isOverlayElementVisible,
@@ -176,12 +175,12 @@ function CanvasShapesListComponent({
         );
       })}
 
-      {/* Render resize handles for selected container shapes */}
+      {/* Render resize handles for selected resizable shapes */}
       {onResizeStart &&
         sortedShapes
           .filter(
             (shape) =>
-              selectedShapeIds.includes(shape.id) && isContainerType(shape.type)
+              selectedShapeIds.includes(shape.id) && isResizableType(shape.type)
           )
           .map((shape) => (
             <ResizeHandles
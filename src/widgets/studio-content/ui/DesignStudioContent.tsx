@@ -1,6 +1,6 @@
 /**
  * DesignStudioContent Component
- * Shared component that renders the core design studio layout (sidebar + tabs).
+ * Shared component that renders the core design studio layout (sidebar + tabs + comments).
  * Can be used standalone in the design studio route or embedded in other views.
  */
 
@@ -14,6 +14,8 @@ import { DiagramView } from '@/features/diagram-management/ui/views/DiagramView'
 import { InterfaceView } from '@/features/diagram-management/ui/views/InterfaceView';
 import { DocumentView } from '@/features/diagram-management/ui/views/DocumentView';
 import { FolderView } from './FolderView';
+import { StudioCommentsSidebar } from './StudioCommentsSidebar';
+import { useReviewCommentsStore } from '@/features/review-comments';
 import { OverviewTab } from '@/features/diagram-management/ui/overview/OverviewTab';
 
 interface DesignStudioContentProps {
@@ -28,6 +30,7 @@ export function DesignStudioContent({ solutionId, useCaseId, className }: Design
     useDesignStudioUIStore();
 
   const { loading } = useDesignWorksForContext({ solutionId, useCaseId });
+  const isCommentsOpen = useReviewCommentsStore((state) => state.isOpen);
 
   // Initialize tabs and clean up canvas stores
   useEffect(() => {
@@ -94,6 +97,12 @@ export function DesignStudioContent({ solutionId, useCaseId, className }: Design
           style={{ height: '100%' }}
         />
       </div>
+
+      {isCommentsOpen && (
+        <div className="w-[300px] shrink-0 border-l border-[var(--border)] overflow-hidden">
+          <StudioCommentsSidebar solutionId={solutionId} />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,68 @@
+/**
+ * StudioCommentsSidebar Component
+ * Comments sidebar of the design studio: opens the tab of the element a thread
+ * is attached to and selects commented shapes and connectors on the canvas.
+ */
+
+import { useCallback } from 'react';
+import { CommentsSidebar } from '@/features/review-comments';
+import { useDesignWorkStore } from '@/entities/design-work/store/useDesignWorkStore';
+import { canvasInstanceRegistry } from '@/shared/model/stores/canvas/canvasInstanceRegistry';
+import type { CommentThread } from '@/entities/comment';
+import { useDesignStudioUIStore } from '../model/stores/design-studio-ui';
+
+interface StudioCommentsSidebarProps {
+  solutionId: string;
+}
+
+export function StudioCommentsSidebar({ solutionId }: StudioCommentsSidebarProps) {
+  const designWorks = useDesignWorkStore((state) => state.designWorks);
+  const { openTab, setActiveTab } = useDesignStudioUIStore();
+
+  const handleNavigate = useCallback(
+    (thread: CommentThread) => {
+      const { anchor } = thread;
+      const designWork = designWorks.find((dw) => dw.id === thread.designWorkId);
+
+      switch (anchor.type) {
+        case 'shape':
+        case 'connector': {
+          const diagramRef = designWork?.diagrams.find((ref) => ref.id === anchor.diagramId);
+          openTab({
+            type: 'diagram',
+            contentId: anchor.diagramId,
+            title: diagramRef?.name || 'Diagram',
+            closable: true,
+          });
+          // Select the element if the diagram's canvas is already open
+          if (canvasInstanceRegistry.hasStore(anchor.diagramId)) {
+            const canvasStore = canvasInstanceRegistry.getStore(anchor.diagramId).getState();
+            if (anchor.type === 'shape') {
+              canvasStore.setSelectedShapes([anchor.shapeId]);
+            } else {
+              canvasStore.setSelectedConnectors([anchor.connectorId]);
+            }
+          }
+          break;
+        }
+        case 'document-range': {
+          const documentRef = designWork?.documents.find((ref) => ref.id === anchor.documentId);
+          openTab({
+            type: 'document',
+            contentId: anchor.documentId,
+            title: documentRef?.name || 'Document',
+            closable: true,
+          });
+          break;
+        }
+        case 'requirement':
+          // Requirements are listed on the overview tab
+          setActiveTab('overview');
+          break;
+      }
+    },
+    [designWorks, openTab, setActiveTab]
+  );
+
+  return <CommentsSidebar solutionId={solutionId} designWorks={designWorks} onNavigate={handleNavigate} />;
+}
@@ -6,7 +6,9 @@
 
 import { useState, useCallback } from 'react';
 import { FiFolderPlus } from 'react-icons/fi';
+import { LuMessagesSquare } from 'react-icons/lu';
 import { Button } from '@/shared/ui';
+import { useReviewCommentsStore } from '@/features/review-comments';
 import { useSidebarState } from '../lib/hooks/useSidebarState';
 import { useSidebarTree } from '../lib/hooks/useSidebarTree';
 import { useSidebarDragDrop } from '../lib/hooks/useSidebarDragDrop';
@@ -19,6 +21,7 @@ import type { StudioSidebarProps, SidebarModalState, DesignContentType } from '.
 export function StudioSidebar({ solutionId, useCaseId }: StudioSidebarProps) {
   // 1. State hook - all store interactions
   const sidebarState = useSidebarState({ solutionId, useCaseId });
+  const toggleComments = useReviewCommentsStore((state) => state.toggleOpen);
 
   // 2. Tree building hook
   const { treeData, defaultExpandedKeys, getAllItemsAtLevel } = useSidebarTree({
@@ -247,8 +250,9 @@ export function StudioSidebar({ solutionId, useCaseId }: StudioSidebarProps) {
   return (
     <div className="bg-[var(--bg-dark)]" style={{ padding: '4px', height: '100%', overflow: 'auto' }}>
       {/* Action bar */}
-      <div style={{ marginBottom: '16px' }}>
+      <div style={{ marginBottom: '16px', display: 'flex', justifyContent: 'space-between' }}>
         <Button variant="text" size="small" icon={<FiFolderPlus />} onClick={handleAddFolder} />
+        <Button variant="text" size="small" icon={<LuMessagesSquare />} onClick={toggleComments} title="Comments" />
       </div>
 
       <SidebarTree